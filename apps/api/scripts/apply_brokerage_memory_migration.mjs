@@ -7,6 +7,7 @@ const { Client } = pg
 const migrationNames = [
   '0018_brokerage_memory.sql',
   '0019_prospect_merge.sql',
+  '0031_dossier_ownership_history.sql',
 ]
 
 async function main() {
@@ -17,6 +17,18 @@ const MIGRATIONS = [
   '../../drizzle/0012_industrial_intel_listing_assets.sql',
   '../../drizzle/0013_industrial_intel_property_dossiers.sql',
   '../../drizzle/0014_industrial_intel_agent_events.sql',
+  '../../drizzle/0020_industrial_intel_source_schedule.sql',
+  '../../drizzle/0021_industrial_intel_change_diffs.sql',
+  '../../drizzle/0022_industrial_intel_listing_observations.sql',
+  '../../drizzle/0023_industrial_intel_requirement_alerts.sql',
+  '../../drizzle/0024_industrial_intel_preference_comparators.sql',
+  '../../drizzle/0025_industrial_intel_requirement_search_areas.sql',
+  '../../drizzle/0029_industrial_intel_email_attachments.sql',
+  '../../drizzle/0035_industrial_intel_survey_lease_terms.sql',
+  '../../drizzle/0036_industrial_intel_survey_client_feedback.sql',
+  '../../drizzle/0037_industrial_intel_survey_comparison.sql',
+  '../../drizzle/0038_industrial_intel_survey_share_controls.sql',
+  '../../drizzle/0039_industrial_intel_survey_tours.sql',
 ];
 
 async function main() {
@@ -8,6 +8,7 @@ import cors from 'cors';
 import { devUser } from './auth/devUser';
 import { registerRoutes } from "./routes";
 import { pool } from './db';
+import { startIntelSourceScheduler } from './modules/industrial-intel/sourceScheduler';
 
 const app = express();
 app.set('trust proxy', 1);
@@ -40,7 +41,7 @@ if (allowedOriginsRaw.length > 0) {
     credentials: true,
     methods: ['GET','POST','PATCH','DELETE','OPTIONS'],
     // Allow custom demo header for stateless demo mode, plus common auth/content headers
-    allowedHeaders: ['Authorization','Content-Type','X-Demo-Mode'],
+    allowedHeaders: ['Authorization','Content-Type','X-Demo-Mode','X-Share-Access'],
   };
   app.use(cors(corsOptions));
   // Handle preflight for all routes
@@ -172,5 +173,6 @@ app.get('/api/version', (_req, res) => {
       hour12: true,
     });
     console.log(`${formattedTime} [express] serving on port ${port}`);
+    startIntelSourceScheduler();
   });
 })();
@@ -1,6 +1,6 @@
 import assert from "node:assert/strict";
 import test from "node:test";
-import { rankRequirementListings, resolveMarketEntities } from "@level-cre/shared";
+import { listingLeaseTerms, rankRequirementListings, resolveMarketEntities, scoreRequirementListing } from "@level-cre/shared";
 import { ActivityEventInputSchema } from "./activityEventService";
 import { OpportunityPromotionProposalInputSchema } from "./opportunityProposalService";
 
@@ -58,6 +58,123 @@ test("requirement matching returns explainable strong, possible, and stretch tie
   assert.ok(new Set(matches.map((match) => match.tier)).has("stretch"));
 });
 
+test("requirement matching weighs preference rows against listing and dossier facts", () => {
+  const requirement = {
+    dealType: "lease",
+    submarket: "Acheson",
+    minSf: 40_000,
+    maxSf: 60_000,
+    preferences: [
+      { key: "clearHeightFt", operator: "preferred", valueNumber: 32, weight: 3 },
+      { key: "leaseRatePsf", operator: "required", comparator: "lte", valueNumber: 12 },
+      { key: "rail_access", operator: "preferred", valueBoolean: true, weight: 2 },
+      { key: "zoning", operator: "avoid", comparator: "eq", valueText: "IH", weight: 1 },
+      { key: "office", operator: "note", valueText: "Small office is fine" },
+    ],
+  };
+  const listing = {
+    id: "acheson",
+    title: "Acheson crossdock",
+    submarket: "Acheson",
+    listingType: "lease",
+    assetType: "industrial",
+    availableSf: 50_000,
+    clearHeightFt: 36,
+    leaseRatePsf: 11.5,
+    sourceUrl: "https://example.com/acheson",
+    facts: { rail_access: "yes", zoning: "IM" },
+  };
+
+  const match = scoreRequirementListing(requirement, listing);
+  assert.equal(match.score, 22 + 24 + 30 + 4 + 2 + 9 + 6);
+  assert.ok(match.reasons.includes("Must-have met: leaseRatePsf <= 12"));
+  assert.ok(match.reasons.includes("Preference met: rail_access = true"));
+  assert.ok(!match.warnings.some((warning) => warning.includes("zoning")));
+
+  const overBudget = scoreRequirementListing(requirement, { ...listing, leaseRatePsf: 13.25 });
+  assert.equal(overBudget.tier, "stretch");
+  assert.ok(overBudget.warnings.includes("Must-have failed: leaseRatePsf <= 12"));
+
+  const heavyZoning = scoreRequirementListing(requirement, { ...listing, facts: { zoning: "IH" } });
+  assert.ok(heavyZoning.warnings.includes("Client wants to avoid: zoning = IH"));
+  assert.ok(heavyZoning.warnings.includes("Preference needs verification: rail_access = true"));
+});
+
+test("a yard preference is never answered from the listing's land acres", () => {
+  const requirement = {
+    dealType: "lease",
+    minSf: 20_000,
+    maxSf: 40_000,
+    preferences: [{ key: "yard_acres", operator: "required", valueNumber: 2 }],
+  };
+  const listing = {
+    id: "yard",
+    title: "Nisku shop on five acres",
+    listingType: "lease",
+    assetType: "industrial",
+    availableSf: 30_000,
+    landAcres: 5,
+  };
+
+  const unverified = scoreRequirementListing(requirement, listing);
+  assert.ok(unverified.warnings.includes("Must-have needs verification: yard_acres >= 2"));
+  assert.ok(!unverified.reasons.includes("Must-have met: yard_acres >= 2"));
+
+  const withYardFact = scoreRequirementListing(requirement, { ...listing, facts: { yard_acres: 2.5 } });
+  assert.ok(withYardFact.reasons.includes("Must-have met: yard_acres >= 2"));
+});
+
+test("requirement matching scores drawn search areas by listing coordinates before falling back to text", () => {
+  const requirement = {
+    dealType: "lease",
+    searchAreas: [
+      { kind: "radius" as const, label: "Henday & Yellowhead", center: [-113.615, 53.575] as [number, number], radiusKm: 10 },
+      {
+        kind: "polygon" as const,
+        label: "Nisku",
+        coordinates: [[[-113.6, 53.3], [-113.45, 53.3], [-113.45, 53.36], [-113.6, 53.36], [-113.6, 53.3]] as Array<[number, number]>],
+      },
+    ],
+  };
+  const listing = { id: "site", title: "Yard site", submarket: "Acheson", listingType: "lease", assetType: "land" };
+
+  const insideRadius = scoreRequirementListing(requirement, { ...listing, latitude: 53.58, longitude: -113.6 });
+  assert.ok(insideRadius.reasons.includes("Inside search area: 10 km of Henday & Yellowhead"));
+
+  const insidePolygon = scoreRequirementListing(requirement, { ...listing, latitude: 53.33, longitude: -113.5 });
+  assert.ok(insidePolygon.reasons.includes("Inside search area: Nisku"));
+  assert.equal(insidePolygon.score, insideRadius.score);
+
+  const justOutside = scoreRequirementListing(requirement, { ...listing, latitude: 53.575, longitude: -113.4335 });
+  assert.ok(justOutside.warnings.some((warning) => /^\d+(\.\d)? km outside search area: 10 km of Henday & Yellowhead$/.test(warning)));
+  assert.ok(justOutside.score < insideRadius.score);
+
+  const farAway = scoreRequirementListing(requirement, { ...listing, latitude: 51.05, longitude: -114.07 });
+  assert.ok(farAway.warnings.some((warning) => warning.startsWith("Outside search areas")));
+  assert.ok(farAway.score < justOutside.score);
+
+  const unmapped = scoreRequirementListing({ ...requirement, submarket: "Acheson" }, listing);
+  assert.ok(unmapped.reasons.includes("Area matches Acheson"));
+  assert.ok(unmapped.warnings.includes("Needs coordinates to check the search areas"));
+});
+
+test("requirement budgets are tested against net effective rent when concessions are on record", () => {
+  const requirement = { dealType: "lease", maxBudgetPsf: 12 };
+  const listing = { id: "dock", title: "Dock-high bay", listingType: "lease", assetType: "industrial", leaseRatePsf: 13 };
+
+  const asking = scoreRequirementListing(requirement, listing);
+  assert.ok(asking.warnings.includes("Lease rate exceeds budget at $13 / SF"));
+
+  const withConcessions = scoreRequirementListing(requirement, {
+    ...listing,
+    facts: { term_months: 60, free_rent_months: 6, ti_allowance_psf: "$3.00" },
+  });
+  assert.ok(withConcessions.reasons.includes("Net effective rent is within budget at $11.1 / SF (asking $13 / SF)"));
+  assert.equal(withConcessions.score, asking.score + 8);
+  assert.deepEqual(listingLeaseTerms({ ...listing, facts: { escalation_pct: 3 } })?.termMonths, 60);
+  assert.equal(listingLeaseTerms(listing), null);
+});
+
 test("entity resolver favors stable place identity over a similar business name", () => {
   const result = resolveMarketEntities({
     placeId: "place-123",
@@ -0,0 +1,106 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { DEFAULT_BOV_ADJUSTMENTS, adjustBovComp, computeBovValuation, type BovComp } from '@level-cre/shared';
+
+import { bovWorksheetCsv, filterBovCandidates, type BovCandidate } from './bovWorksheet';
+
+function comp(overrides: Partial<BovComp>): BovComp {
+  return {
+    source: 'market_comp',
+    sourceId: 'comp',
+    address: '100 Industrial Way',
+    valuePsf: 200,
+    buildingSizeSf: 40000,
+    yearBuilt: 2000,
+    clearHeightFt: 24,
+    compDate: '2024-01-01',
+    ...overrides,
+  };
+}
+
+function candidate(overrides: Partial<BovCandidate>): BovCandidate {
+  return {
+    source: 'market_comp',
+    sourceId: 'comp',
+    address: '100 Industrial Way',
+    submarket: 'Southeast',
+    assetType: 'Building',
+    isAsking: false,
+    valuePsf: 180,
+    buildingSizeSf: 30000,
+    yearBuilt: null,
+    clearHeightFt: null,
+    compDate: '2024-05-01',
+    lat: null,
+    lng: null,
+    ...overrides,
+  };
+}
+
+const subject = {
+  address: '200 Subject Rd',
+  buildingSizeSf: 20000,
+  yearBuilt: 2010,
+  clearHeightFt: 28,
+  valuationDate: '2025-01-01',
+};
+
+test('adjusts a comp toward the subject for size, age, clear height and time', () => {
+  const adjusted = adjustBovComp(comp({ otherPct: -2 }), subject, DEFAULT_BOV_ADJUSTMENTS);
+  assert.deepEqual(adjusted.adjustments, { size: 2, age: 5, clearHeight: 4, time: 3, other: -2 });
+  assert.equal(adjusted.totalAdjustmentPct, 12);
+  assert.equal(adjusted.adjustedValuePsf, 224);
+  assert.deepEqual(adjusted.missing, []);
+
+  const sparse = adjustBovComp(comp({ yearBuilt: null, clearHeightFt: null, compDate: null }), subject, DEFAULT_BOV_ADJUSTMENTS);
+  assert.deepEqual(sparse.missing, ['age', 'clearHeight', 'time']);
+  assert.equal(sparse.adjustedValuePsf, 204);
+});
+
+test('indicates a weighted range from included comps and prices it on the subject size', () => {
+  const valuation = computeBovValuation(subject, { sizePctPer10kSf: 0, agePctPerYear: 0, clearHeightPctPerFt: 0, timePctPerYear: 0 }, [
+    comp({ sourceId: 'a', valuePsf: 180 }),
+    comp({ sourceId: 'b', valuePsf: 220, weight: 3 }),
+    comp({ sourceId: 'c', valuePsf: 400, included: false }),
+    comp({ sourceId: 'd', valuePsf: null }),
+  ]);
+  assert.equal(valuation.usedCount, 2);
+  assert.deepEqual(valuation.rangePsf, { low: 180, median: 200, high: 220, weightedAverage: 210 });
+  assert.deepEqual(valuation.indicated, { low: 3600000, mid: 4200000, high: 4400000 });
+
+  const unsized = computeBovValuation({ ...subject, buildingSizeSf: null }, DEFAULT_BOV_ADJUSTMENTS, [comp({})]);
+  assert.equal(unsized.indicated, null);
+  assert.equal(computeBovValuation(subject, DEFAULT_BOV_ADJUSTMENTS, []).rangePsf, null);
+});
+
+test('filters candidates by text, size and the visible map box', () => {
+  const rows = [
+    candidate({ sourceId: 'near', lat: 51.0, lng: -114.0 }),
+    candidate({ sourceId: 'far', lat: 53.5, lng: -113.5 }),
+    candidate({ sourceId: 'unlocated', address: '9 Unlocated Ave' }),
+    candidate({ sourceId: 'small', buildingSizeSf: 5000, lat: 51.0, lng: -114.0 }),
+  ];
+  const bounds = { north: 51.2, south: 50.8, east: -113.8, west: -114.2 };
+  assert.deepEqual(filterBovCandidates(rows, { ...bounds, minSf: 10000 }).map((row) => row.sourceId), ['near']);
+  assert.deepEqual(filterBovCandidates(rows, { q: 'unlocated' }).map((row) => row.sourceId), ['unlocated']);
+  assert.equal(filterBovCandidates(rows, { submarket: 'northwest' }).length, 0);
+});
+
+test('exports the adjustment grid and range as CSV with quoted cells', () => {
+  const settings = { sizePctPer10kSf: 0, agePctPerYear: 0, clearHeightPctPerFt: 0, timePctPerYear: 0 };
+  const csv = bovWorksheetCsv({
+    title: 'Subject, BOV',
+    basis: 'sale',
+    version: 2,
+    label: 'Owner meeting',
+    createdAt: '2025-01-02T00:00:00.000Z',
+    subject,
+    settings,
+    result: computeBovValuation(subject, settings, [comp({ address: '1 "Main" St', note: 'Closed, off market' })]),
+  });
+  const lines = csv.trim().split('\n');
+  assert.equal(lines[0], 'Broker opinion of value,"Subject, BOV"');
+  assert.ok(lines.includes('"1 ""Main"" St",Market comp,Closed,2024-01-01,40000,2000,24,200,0,0,0,0,0,0,200,1,Yes,"Closed, off market"'));
+  assert.equal(lines[lines.length - 1], 'Value,4000000,4000000,,4000000');
+});
@@ -0,0 +1,158 @@
+import {
+  type BovAdjustmentSettings,
+  type BovBasis,
+  type BovCompSource,
+  type BovSubject,
+  type BovValuation,
+} from '@level-cre/shared';
+
+export type BovCandidate = {
+  source: Exclude<BovCompSource, 'manual'>;
+  sourceId: string;
+  address: string;
+  submarket: string | null;
+  assetType: string | null;
+  isAsking: boolean;
+  valuePsf: number | null;
+  buildingSizeSf: number | null;
+  yearBuilt: number | null;
+  clearHeightFt: number | null;
+  compDate: string | null;
+  lat: number | null;
+  lng: number | null;
+};
+
+export type BovCandidateFilters = {
+  q?: string;
+  submarket?: string;
+  assetType?: string;
+  minSf?: number;
+  maxSf?: number;
+  north?: number;
+  south?: number;
+  east?: number;
+  west?: number;
+};
+
+export type BovWorksheetVersionExport = {
+  title: string;
+  basis: BovBasis;
+  version: number;
+  label: string | null;
+  createdAt: string | null;
+  subject: BovSubject;
+  settings: BovAdjustmentSettings;
+  result: BovValuation;
+};
+
+function hasBounds(filters: BovCandidateFilters) {
+  return [filters.north, filters.south, filters.east, filters.west].every((value) => typeof value === 'number');
+}
+
+/**
+ * Applies the worksheet's search panel. A map box only keeps candidates that
+ * have coordinates; without one, unlocated comps stay searchable by text.
+ */
+export function filterBovCandidates(candidates: BovCandidate[], filters: BovCandidateFilters): BovCandidate[] {
+  const needle = filters.q?.trim().toLowerCase();
+  const submarket = filters.submarket?.trim().toLowerCase();
+  return candidates.filter((candidate) => {
+    if (needle && !`${candidate.address} ${candidate.submarket || ''}`.toLowerCase().includes(needle)) return false;
+    if (submarket && (candidate.submarket || '').trim().toLowerCase() !== submarket) return false;
+    if (filters.assetType && candidate.assetType !== filters.assetType) return false;
+    if (filters.minSf !== undefined && (candidate.buildingSizeSf === null || candidate.buildingSizeSf < filters.minSf)) return false;
+    if (filters.maxSf !== undefined && (candidate.buildingSizeSf === null || candidate.buildingSizeSf > filters.maxSf)) return false;
+    if (hasBounds(filters)) {
+      if (candidate.lat === null || candidate.lng === null) return false;
+      if (candidate.lat > filters.north! || candidate.lat < filters.south!) return false;
+      if (candidate.lng > filters.east! || candidate.lng < filters.west!) return false;
+    }
+    return true;
+  });
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(values: unknown[]) {
+  return values.map(csvCell).join(',');
+}
+
+const SOURCE_LABELS: Record<BovCompSource, string> = {
+  market_comp: 'Market comp',
+  intel_listing: 'Listing',
+  manual: 'Manual',
+};
+
+/** One sheet laid out the way brokers paste a BOV into Excel: subject, adjustment grid, then the range. */
+export function bovWorksheetCsv(worksheet: BovWorksheetVersionExport): string {
+  const unit = worksheet.basis === 'lease' ? 'Net rent $/SF/yr' : 'Sale $/SF';
+  const lines = [
+    csvRow(['Broker opinion of value', worksheet.title]),
+    csvRow(['Basis', worksheet.basis === 'lease' ? 'Lease' : 'Sale']),
+    csvRow(['Version', worksheet.version, worksheet.label]),
+    csvRow(['Saved', worksheet.createdAt]),
+    '',
+    csvRow(['Subject', 'Address', 'Building SF', 'Land acres', 'Year built', 'Clear height ft', 'Valuation date']),
+    csvRow([
+      '',
+      worksheet.subject.address,
+      worksheet.subject.buildingSizeSf,
+      worksheet.subject.landSizeAcres,
+      worksheet.subject.yearBuilt,
+      worksheet.subject.clearHeightFt,
+      worksheet.subject.valuationDate,
+    ]),
+    '',
+    csvRow(['Adjustment', 'Size % per 10,000 SF', 'Age % per year', 'Clear height % per ft', 'Time % per year']),
+    csvRow([
+      '',
+      worksheet.settings.sizePctPer10kSf,
+      worksheet.settings.agePctPerYear,
+      worksheet.settings.clearHeightPctPerFt,
+      worksheet.settings.timePctPerYear,
+    ]),
+    '',
+    csvRow([
+      'Comp', 'Source', 'Status', 'Date', 'Building SF', 'Year built', 'Clear height ft', unit,
+      'Size %', 'Age %', 'Clear height %', 'Time %', 'Other %', 'Total %', `Adjusted ${unit}`, 'Weight', 'Included', 'Note',
+    ]),
+    ...worksheet.result.comps.map((comp) => csvRow([
+      comp.address,
+      SOURCE_LABELS[comp.source],
+      comp.isAsking ? 'Asking' : 'Closed',
+      comp.compDate,
+      comp.buildingSizeSf,
+      comp.yearBuilt,
+      comp.clearHeightFt,
+      comp.valuePsf,
+      comp.adjustments.size,
+      comp.adjustments.age,
+      comp.adjustments.clearHeight,
+      comp.adjustments.time,
+      comp.adjustments.other,
+      comp.totalAdjustmentPct,
+      comp.adjustedValuePsf,
+      comp.weight ?? 1,
+      comp.included === false ? 'No' : 'Yes',
+      comp.note,
+    ])),
+    '',
+  ];
+
+  const range = worksheet.result.rangePsf;
+  const indicated = worksheet.result.indicated;
+  lines.push(csvRow(['Indicated', 'Low', 'Weighted average', 'Median', 'High']));
+  lines.push(csvRow([unit, range?.low, range?.weightedAverage, range?.median, range?.high]));
+  lines.push(csvRow([
+    worksheet.basis === 'lease' ? 'Annual net rent' : 'Value',
+    indicated?.low,
+    indicated?.mid,
+    '',
+    indicated?.high,
+  ]));
+  return `${lines.join('\n')}\n`;
+}
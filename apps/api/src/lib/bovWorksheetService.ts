@@ -0,0 +1,560 @@
+import type { Pool, PoolClient } from 'pg';
+import { z } from 'zod';
+
+import {
+  BOV_BASES,
+  BOV_COMP_SOURCES,
+  DEFAULT_BOV_ADJUSTMENTS,
+  computeBovValuation,
+  normalizeMarketAddress,
+  type BovAdjustmentSettings,
+  type BovBasis,
+  type BovSubject,
+  type BovValuation,
+} from '@level-cre/shared';
+
+import { bovWorksheetCsv, filterBovCandidates, type BovCandidate } from './bovWorksheet';
+import { parseCompAmount } from './compEconomics';
+
+type Queryable = Pick<Pool | PoolClient, 'query'>;
+
+const DaySchema = z.string().trim().regex(/^\d{4}-\d{2}-\d{2}$/);
+const OptionalNumber = (min: number, max: number) => z.number().min(min).max(max).nullable().optional();
+const QueryNumber = z.coerce.number().finite().optional();
+
+export const BovSubjectSchema = z.object({
+  address: z.string().trim().max(1000).nullable().optional(),
+  buildingSizeSf: OptionalNumber(0, 100_000_000),
+  landSizeAcres: OptionalNumber(0, 1_000_000),
+  yearBuilt: z.number().int().min(1800).max(2100).nullable().optional(),
+  clearHeightFt: OptionalNumber(0, 200),
+  valuationDate: DaySchema.nullable().optional(),
+});
+
+export const BovAdjustmentSettingsSchema = z.object({
+  sizePctPer10kSf: z.number().min(-100).max(100).default(DEFAULT_BOV_ADJUSTMENTS.sizePctPer10kSf),
+  agePctPerYear: z.number().min(-100).max(100).default(DEFAULT_BOV_ADJUSTMENTS.agePctPerYear),
+  clearHeightPctPerFt: z.number().min(-100).max(100).default(DEFAULT_BOV_ADJUSTMENTS.clearHeightPctPerFt),
+  timePctPerYear: z.number().min(-100).max(100).default(DEFAULT_BOV_ADJUSTMENTS.timePctPerYear),
+});
+
+export const BovCompSchema = z.object({
+  source: z.enum(BOV_COMP_SOURCES),
+  sourceId: z.string().trim().min(1).nullable().optional(),
+  address: z.string().trim().min(1).max(1000),
+  submarket: z.string().trim().max(120).nullable().optional(),
+  isAsking: z.boolean().optional().default(false),
+  valuePsf: OptionalNumber(0, 1_000_000).transform((value) => value ?? null),
+  buildingSizeSf: OptionalNumber(0, 100_000_000),
+  yearBuilt: z.number().int().min(1800).max(2100).nullable().optional(),
+  clearHeightFt: OptionalNumber(0, 200),
+  compDate: DaySchema.nullable().optional(),
+  lat: OptionalNumber(-90, 90),
+  lng: OptionalNumber(-180, 180),
+  otherPct: OptionalNumber(-100, 100),
+  weight: z.number().min(0).max(10).optional().default(1),
+  included: z.boolean().optional().default(true),
+  note: z.string().trim().max(500).nullable().optional(),
+});
+
+export const BovWorksheetCreateSchema = z.object({
+  title: z.string().trim().min(1).max(300),
+  basis: z.enum(BOV_BASES).optional().default('sale'),
+  opportunityId: z.string().trim().min(1).nullable().optional(),
+  intelDossierId: z.string().trim().min(1).nullable().optional(),
+}).refine((input) => Boolean(input.opportunityId || input.intelDossierId), {
+  message: 'Link the worksheet to an opportunity or a property dossier',
+});
+
+export const BovWorksheetListQuerySchema = z.object({
+  opportunityId: z.string().trim().min(1).optional(),
+  intelDossierId: z.string().trim().min(1).optional(),
+});
+
+export const BovWorksheetVersionSchema = z.object({
+  label: z.string().trim().max(120).nullable().optional(),
+  subject: BovSubjectSchema,
+  settings: BovAdjustmentSettingsSchema,
+  comps: z.array(BovCompSchema).max(40),
+});
+
+export const BovCandidateQuerySchema = z.object({
+  basis: z.enum(BOV_BASES).optional().default('sale'),
+  q: z.string().trim().max(200).optional(),
+  submarket: z.string().trim().max(120).optional(),
+  assetType: z.string().trim().max(40).optional(),
+  minSf: QueryNumber,
+  maxSf: QueryNumber,
+  north: QueryNumber,
+  south: QueryNumber,
+  east: QueryNumber,
+  west: QueryNumber,
+  limit: z.coerce.number().int().min(1).max(300).optional().default(100),
+});
+
+export type BovWorksheetCreateInput = z.infer<typeof BovWorksheetCreateSchema>;
+export type BovWorksheetListQuery = z.infer<typeof BovWorksheetListQuerySchema>;
+export type BovWorksheetVersionInput = z.infer<typeof BovWorksheetVersionSchema>;
+export type BovCandidateQuery = z.infer<typeof BovCandidateQuerySchema>;
+
+export type BovWorksheet = {
+  id: string;
+  title: string;
+  basis: BovBasis;
+  opportunityId: string | null;
+  opportunityTitle: string | null;
+  intelDossierId: string | null;
+  dossierTitle: string | null;
+  latestVersion: number;
+  createdAt: string | null;
+  updatedAt: string | null;
+};
+
+export type BovWorksheetVersion = {
+  id: string;
+  version: number;
+  label: string | null;
+  subject: BovSubject;
+  settings: BovAdjustmentSettings;
+  result: BovValuation;
+  createdAt: string | null;
+};
+
+export type BovWorksheetDetail = {
+  worksheet: BovWorksheet;
+  versions: Array<Pick<BovWorksheetVersion, 'version' | 'label' | 'createdAt'> & Pick<BovValuation, 'usedCount' | 'rangePsf'>>;
+  current: BovWorksheetVersion | null;
+  // Starting point for a worksheet that has never been saved.
+  defaults: { subject: BovSubject; settings: BovAdjustmentSettings };
+};
+
+export class BovWorksheetError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'BovWorksheetError';
+    this.status = status;
+  }
+}
+
+function numberOrNull(value: unknown): number | null {
+  if (value == null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function isoOrNull(value: unknown): string | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+async function dossiersAvailable(db: Queryable) {
+  const { rows } = await db.query(`SELECT to_regclass('public.intel_property_dossiers') IS NOT NULL AS available`);
+  return rows[0]?.available === true;
+}
+
+async function listingsAvailable(db: Queryable) {
+  const { rows } = await db.query(`SELECT to_regclass('public.intel_listings') IS NOT NULL AS available`);
+  return rows[0]?.available === true;
+}
+
+async function withTransaction<T>(pool: Pool, run: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await run(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+function worksheetSelect(withDossiers: boolean) {
+  return `
+    SELECT worksheet.id, worksheet.title, worksheet.basis, worksheet.opportunity_id,
+           worksheet.intel_dossier_id, worksheet.latest_version, worksheet.created_at, worksheet.updated_at,
+           opportunity.title AS opportunity_title,
+           ${withDossiers ? 'dossier.title' : 'NULL'} AS dossier_title
+    FROM public.bov_worksheets worksheet
+    LEFT JOIN public.opportunities opportunity ON opportunity.id = worksheet.opportunity_id
+    ${withDossiers ? 'LEFT JOIN public.intel_property_dossiers dossier ON dossier.id = worksheet.intel_dossier_id' : ''}
+  `;
+}
+
+function worksheetFromRow(row: Record<string, any>): BovWorksheet {
+  return {
+    id: row.id,
+    title: row.title,
+    basis: row.basis,
+    opportunityId: row.opportunity_id ?? null,
+    opportunityTitle: row.opportunity_title ?? null,
+    intelDossierId: row.intel_dossier_id ?? null,
+    dossierTitle: row.dossier_title ?? null,
+    latestVersion: Number(row.latest_version) || 0,
+    createdAt: isoOrNull(row.created_at),
+    updatedAt: isoOrNull(row.updated_at),
+  };
+}
+
+function versionFromRow(row: Record<string, any>): BovWorksheetVersion {
+  return {
+    id: row.id,
+    version: Number(row.version),
+    label: row.label ?? null,
+    subject: row.subject || {},
+    settings: { ...DEFAULT_BOV_ADJUSTMENTS, ...(row.settings || {}) },
+    result: row.result,
+    createdAt: isoOrNull(row.created_at),
+  };
+}
+
+async function assertBovReferences(
+  db: Queryable,
+  userId: string,
+  input: Pick<BovWorksheetCreateInput, 'opportunityId' | 'intelDossierId'>,
+): Promise<void> {
+  if (input.opportunityId) {
+    const { rows } = await db.query(
+      `SELECT id FROM public.opportunities WHERE id = $1 AND user_id = $2 LIMIT 1`,
+      [input.opportunityId, userId],
+    );
+    if (!rows[0]) throw new BovWorksheetError(400, 'Referenced opportunity was not found');
+  }
+  if (input.intelDossierId) {
+    const { rows } = await db.query(
+      `SELECT id FROM public.intel_property_dossiers WHERE id = $1 AND created_by_user_id = $2 LIMIT 1`,
+      [input.intelDossierId, userId],
+    );
+    if (!rows[0]) throw new BovWorksheetError(400, 'Referenced property dossier was not found');
+  }
+}
+
+async function requireWorksheet(db: Queryable, userId: string, worksheetId: string, lock = false): Promise<BovWorksheet> {
+  const withDossiers = await dossiersAvailable(db);
+  const { rows } = await db.query(
+    `${worksheetSelect(withDossiers)} WHERE worksheet.id = $1 AND worksheet.user_id = $2 LIMIT 1${lock ? ' FOR UPDATE OF worksheet' : ''}`,
+    [worksheetId, userId],
+  );
+  if (!rows[0]) throw new BovWorksheetError(404, 'BOV worksheet not found');
+  return worksheetFromRow(rows[0]);
+}
+
+// Approved dossier facts fill in what the broker would otherwise retype from the brochure.
+async function subjectDefaults(db: Queryable, userId: string, worksheet: BovWorksheet): Promise<BovSubject> {
+  const subject: BovSubject = { valuationDate: today() };
+  if (worksheet.intelDossierId && await dossiersAvailable(db)) {
+    const { rows } = await db.query(
+      `
+        SELECT dossier.address, facts.fact_key, facts.value_number, facts.value_text
+        FROM public.intel_property_dossiers dossier
+        LEFT JOIN public.intel_dossier_facts facts
+          ON facts.dossier_id = dossier.id
+         AND facts.status = 'approved'
+         AND facts.fact_key IN ('building_size_sf', 'land_size_acres', 'clear_height_ft', 'year_built')
+        WHERE dossier.id = $1 AND dossier.created_by_user_id = $2
+        ORDER BY facts.updated_at ASC NULLS FIRST
+      `,
+      [worksheet.intelDossierId, userId],
+    );
+    for (const row of rows) {
+      subject.address = subject.address || row.address || null;
+      const field = row.fact_key === 'building_size_sf' ? 'buildingSize' : row.fact_key === 'land_size_acres' ? 'landSize' : 'number';
+      const value = numberOrNull(row.value_number) ?? parseCompAmount(row.value_text, field);
+      if (value === null) continue;
+      if (row.fact_key === 'building_size_sf') subject.buildingSizeSf = value;
+      if (row.fact_key === 'land_size_acres') subject.landSizeAcres = value;
+      if (row.fact_key === 'clear_height_ft') subject.clearHeightFt = value;
+      if (row.fact_key === 'year_built') subject.yearBuilt = Math.round(value);
+    }
+  }
+  if (!subject.address && worksheet.opportunityId) {
+    const { rows } = await db.query(
+      `SELECT property_address FROM public.opportunities WHERE id = $1 AND user_id = $2 LIMIT 1`,
+      [worksheet.opportunityId, userId],
+    );
+    subject.address = rows[0]?.property_address || null;
+  }
+  return subject;
+}
+
+export async function listBovWorksheets(params: {
+  pool: Pool;
+  userId: string;
+  query: BovWorksheetListQuery;
+}): Promise<BovWorksheet[]> {
+  const withDossiers = await dossiersAvailable(params.pool);
+  const values: unknown[] = [params.userId];
+  const conditions = ['worksheet.user_id = $1'];
+  if (params.query.opportunityId) {
+    values.push(params.query.opportunityId);
+    conditions.push(`worksheet.opportunity_id = $${values.length}`);
+  }
+  if (params.query.intelDossierId) {
+    values.push(params.query.intelDossierId);
+    conditions.push(`worksheet.intel_dossier_id = $${values.length}`);
+  }
+  const { rows } = await params.pool.query(
+    `${worksheetSelect(withDossiers)} WHERE ${conditions.join(' AND ')} ORDER BY worksheet.updated_at DESC LIMIT 200`,
+    values,
+  );
+  return rows.map(worksheetFromRow);
+}
+
+export async function createBovWorksheet(params: {
+  pool: Pool;
+  userId: string;
+  input: BovWorksheetCreateInput;
+}): Promise<BovWorksheet> {
+  await assertBovReferences(params.pool, params.userId, params.input);
+  const { rows } = await params.pool.query(
+    `
+      INSERT INTO public.bov_worksheets (user_id, title, basis, opportunity_id, intel_dossier_id)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING id
+    `,
+    [params.userId, params.input.title, params.input.basis, params.input.opportunityId ?? null, params.input.intelDossierId ?? null],
+  );
+  return requireWorksheet(params.pool, params.userId, rows[0].id);
+}
+
+export async function getBovWorksheet(params: {
+  pool: Pool;
+  userId: string;
+  worksheetId: string;
+  version?: number;
+}): Promise<BovWorksheetDetail> {
+  const worksheet = await requireWorksheet(params.pool, params.userId, params.worksheetId);
+  const { rows } = await params.pool.query(
+    `
+      SELECT id, version, label, subject, settings, result, created_at
+      FROM public.bov_worksheet_versions
+      WHERE worksheet_id = $1
+      ORDER BY version DESC
+    `,
+    [worksheet.id],
+  );
+  const versions = rows.map(versionFromRow);
+  const current = params.version === undefined
+    ? versions[0] || null
+    : versions.find((version) => version.version === params.version) || null;
+  if (params.version !== undefined && !current) throw new BovWorksheetError(404, 'BOV worksheet version not found');
+  return {
+    worksheet,
+    versions: versions.map((version) => ({
+      version: version.version,
+      label: version.label,
+      createdAt: version.createdAt,
+      usedCount: version.result?.usedCount ?? 0,
+      rangePsf: version.result?.rangePsf ?? null,
+    })),
+    current,
+    defaults: {
+      subject: await subjectDefaults(params.pool, params.userId, worksheet),
+      settings: DEFAULT_BOV_ADJUSTMENTS,
+    },
+  };
+}
+
+/** Versions are append-only; the valuation is recomputed here so a stored range always matches its inputs. */
+export async function saveBovWorksheetVersion(params: {
+  pool: Pool;
+  userId: string;
+  worksheetId: string;
+  input: BovWorksheetVersionInput;
+}): Promise<BovWorksheetVersion> {
+  return withTransaction(params.pool, async (client) => {
+    const worksheet = await requireWorksheet(client, params.userId, params.worksheetId, true);
+    const version = worksheet.latestVersion + 1;
+    const result = computeBovValuation(params.input.subject, params.input.settings, params.input.comps);
+    const { rows } = await client.query(
+      `
+        INSERT INTO public.bov_worksheet_versions (worksheet_id, version, label, subject, settings, comps, result, created_by)
+        VALUES ($1, $2, $3, $4::jsonb, $5::jsonb, $6::jsonb, $7::jsonb, $8)
+        RETURNING id, version, label, subject, settings, result, created_at
+      `,
+      [
+        worksheet.id,
+        version,
+        params.input.label ?? null,
+        JSON.stringify(params.input.subject),
+        JSON.stringify(params.input.settings),
+        JSON.stringify(params.input.comps),
+        JSON.stringify(result),
+        params.userId,
+      ],
+    );
+    await client.query(
+      `UPDATE public.bov_worksheets SET latest_version = $2, updated_at = now() WHERE id = $1`,
+      [worksheet.id, version],
+    );
+    return versionFromRow(rows[0]);
+  });
+}
+
+export async function deleteBovWorksheet(params: { pool: Pool; userId: string; worksheetId: string }): Promise<void> {
+  const { rowCount } = await params.pool.query(
+    `DELETE FROM public.bov_worksheets WHERE id = $1 AND user_id = $2`,
+    [params.worksheetId, params.userId],
+  );
+  if (!rowCount) throw new BovWorksheetError(404, 'BOV worksheet not found');
+}
+
+export async function exportBovWorksheetCsv(params: {
+  pool: Pool;
+  userId: string;
+  worksheetId: string;
+  version?: number;
+}): Promise<{ filename: string; csv: string }> {
+  const detail = await getBovWorksheet(params);
+  if (!detail.current) throw new BovWorksheetError(409, 'Save the worksheet before exporting it');
+  const slug = detail.worksheet.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'bov';
+  return {
+    filename: `${slug}-bov-v${detail.current.version}.csv`,
+    csv: bovWorksheetCsv({
+      title: detail.worksheet.title,
+      basis: detail.worksheet.basis,
+      version: detail.current.version,
+      label: detail.current.label,
+      createdAt: detail.current.createdAt,
+      subject: detail.current.subject,
+      settings: detail.current.settings,
+      result: detail.current.result,
+    }),
+  };
+}
+
+async function loadMarketCompCandidates(db: Queryable, userId: string, basis: BovBasis): Promise<BovCandidate[]> {
+  const { rows } = await db.query(
+    `
+      SELECT id, address, submarket, asset_type, building_size_sf, rate_psf, price_per_sf_amount,
+             to_char(comp_date, 'YYYY-MM-DD') AS comp_date
+      FROM public.market_comps
+      WHERE user_id = $1
+        AND deal_type = $2
+        AND asset_type <> 'Land'
+        AND economics_status <> 'unparseable'
+    `,
+    [userId, basis],
+  );
+  if (!rows.length) return [];
+
+  // Comps carry no coordinates, so they borrow them from a dossier at the same address.
+  const located = new Map<string, { lat: number; lng: number }>();
+  if (await dossiersAvailable(db)) {
+    const dossiers = await db.query(
+      `
+        SELECT address, lat, lng
+        FROM public.intel_property_dossiers
+        WHERE created_by_user_id = $1 AND lat IS NOT NULL AND lng IS NOT NULL AND address IS NOT NULL
+      `,
+      [userId],
+    );
+    for (const dossier of dossiers.rows) {
+      const key = normalizeMarketAddress(dossier.address);
+      if (key && !located.has(key)) located.set(key, { lat: Number(dossier.lat), lng: Number(dossier.lng) });
+    }
+  }
+
+  return rows.map((row) => {
+    const point = located.get(normalizeMarketAddress(row.address));
+    return {
+      source: 'market_comp',
+      sourceId: row.id,
+      address: row.address,
+      submarket: row.submarket ?? null,
+      assetType: row.asset_type ?? null,
+      isAsking: false,
+      valuePsf: numberOrNull(basis === 'lease' ? row.rate_psf : row.price_per_sf_amount),
+      buildingSizeSf: numberOrNull(row.building_size_sf),
+      yearBuilt: null,
+      clearHeightFt: null,
+      compDate: row.comp_date ?? null,
+      lat: point?.lat ?? null,
+      lng: point?.lng ?? null,
+    };
+  });
+}
+
+async function loadListingCandidates(db: Queryable, userId: string, basis: BovBasis): Promise<BovCandidate[]> {
+  if (!await listingsAvailable(db)) return [];
+  const withDossiers = await dossiersAvailable(db);
+  const { rows } = await db.query(
+    `
+      SELECT listings.id, listings.title, listings.address, listings.submarket, listings.asset_type,
+             listings.lat, listings.lng, listings.available_sf, listings.clear_height_ft, listings.total_price,
+             to_char(listings.first_seen_at, 'YYYY-MM-DD') AS listed_date,
+             listings.raw_payload->>'lease_rate' AS payload_rate,
+             ${withDossiers ? 'facts.lease_rate, facts.asking_price, facts.year_built, facts.building_size_sf' : 'NULL AS lease_rate, NULL AS asking_price, NULL AS year_built, NULL AS building_size_sf'}
+      FROM public.intel_listings listings
+      ${withDossiers ? `
+      LEFT JOIN LATERAL (
+        SELECT
+          max(fact.value_text) FILTER (WHERE fact.fact_key = 'lease_rate') AS lease_rate,
+          max(fact.value_text) FILTER (WHERE fact.fact_key = 'asking_price') AS asking_price,
+          max(COALESCE(fact.value_number::text, fact.value_text)) FILTER (WHERE fact.fact_key = 'year_built') AS year_built,
+          max(fact.value_number) FILTER (WHERE fact.fact_key = 'building_size_sf') AS building_size_sf
+        FROM public.intel_property_dossiers dossier
+        INNER JOIN public.intel_dossier_facts fact ON fact.dossier_id = dossier.id
+        WHERE dossier.canonical_listing_id = listings.id
+          AND dossier.created_by_user_id = $1
+          AND fact.status = 'approved'
+      ) facts ON true` : ''}
+      WHERE listings.removed_at IS NULL
+        AND listings.listing_type = $2
+        AND listings.asset_type <> 'land'
+    `,
+    [userId, basis],
+  );
+
+  return rows.map((row) => {
+    const buildingSizeSf = numberOrNull(row.building_size_sf) ?? numberOrNull(row.available_sf);
+    const price = numberOrNull(row.total_price) ?? parseCompAmount(row.asking_price, 'number');
+    const valuePsf = basis === 'lease'
+      ? parseCompAmount(row.lease_rate, 'rate') ?? parseCompAmount(row.payload_rate, 'rate')
+      : price !== null && buildingSizeSf ? Math.round((price / buildingSizeSf) * 100) / 100 : null;
+    const yearBuilt = numberOrNull(row.year_built);
+    return {
+      source: 'intel_listing',
+      sourceId: row.id,
+      address: row.address || row.title,
+      submarket: row.submarket ?? null,
+      assetType: row.asset_type === 'building' ? 'Building' : row.asset_type ?? null,
+      isAsking: true,
+      valuePsf,
+      buildingSizeSf,
+      yearBuilt: yearBuilt === null ? null : Math.round(yearBuilt),
+      clearHeightFt: numberOrNull(row.clear_height_ft),
+      compDate: row.listed_date ?? null,
+      lat: numberOrNull(row.lat),
+      lng: numberOrNull(row.lng),
+    };
+  });
+}
+
+/** Closed market comps first, then asking listings, newest first within each. */
+export async function searchBovCandidates(params: {
+  pool: Pool;
+  userId: string;
+  query: BovCandidateQuery;
+}): Promise<BovCandidate[]> {
+  const candidates = [
+    ...await loadMarketCompCandidates(params.pool, params.userId, params.query.basis),
+    ...await loadListingCandidates(params.pool, params.userId, params.query.basis),
+  ];
+  return filterBovCandidates(candidates, params.query)
+    .sort((left, right) => (
+      Number(left.isAsking) - Number(right.isAsking)
+      || (right.compDate || '').localeCompare(left.compDate || '')
+    ))
+    .slice(0, params.query.limit);
+}
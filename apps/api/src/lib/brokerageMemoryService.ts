@@ -11,6 +11,9 @@ import {
   type ResolvableMarketEntity,
 } from '@level-cre/shared'
 
+import { ownershipDraftsFromLegalIdentities } from './dossierOwnership'
+import { saveDossierOwnershipDrafts, syncTitleAuditOwnership } from './dossierOwnershipService'
+
 const BROKERAGE_MEMORY_SOURCE = 'current_projects_title_enrichment'
 
 export const BrokerageMemoryPreviewInputSchema = z.object({
@@ -1098,6 +1101,20 @@ export async function decideBrokerageMemoryItem(params: {
       ])
     }
 
+    if (params.decision.fieldDecisions.ownership) {
+      await saveDossierOwnershipDrafts(client, {
+        userId: params.userId,
+        dossierId,
+        source: BROKERAGE_MEMORY_SOURCE,
+        importItemId: item.id,
+        drafts: ownershipDraftsFromLegalIdentities(
+          anchor.legalIdentities,
+          (identity) => factId(anchor, 'registered_owner', identity.titleIdentity, identity.registeredOwner),
+        ),
+      })
+    }
+    await syncTitleAuditOwnership(client, { userId: params.userId, dossierId })
+
     const afterDossierResult = await client.query<DossierAuditRow>(`
       SELECT id, canonical_listing_id, prospect_id, external_memory_key, memory_class,
              title, address, normalized_address, market, status, lat, lng,
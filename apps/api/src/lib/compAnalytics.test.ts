@@ -0,0 +1,55 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildCompAnalytics, compPeriod, compSizeBand, compStats, type CompAnalyticsRow } from './compAnalytics';
+
+function row(overrides: Partial<CompAnalyticsRow>): CompAnalyticsRow {
+  return {
+    id: 'comp',
+    dealType: 'lease',
+    assetType: 'Building',
+    submarket: 'Southeast',
+    rateType: 'Net',
+    buildingSizeSf: 20000,
+    landSizeAcres: null,
+    ratePsf: null,
+    pricePerSfAmount: null,
+    compDate: '2024-02-01',
+    economicsStatus: 'parsed',
+    ...overrides,
+  };
+}
+
+test('computes quartiles the way percentile_cont does', () => {
+  assert.deepEqual(compStats([10, 12, 14, 20]), { count: 4, median: 13, p25: 11.5, p75: 15.5, min: 10, max: 20 });
+  assert.deepEqual(compStats([9]), { count: 1, median: 9, p25: 9, p75: 9, min: 9, max: 9 });
+});
+
+test('bands buildings by area and land by acreage', () => {
+  assert.equal(compSizeBand({ assetType: 'Building', buildingSizeSf: 9999, landSizeAcres: null }), 'Under 10,000 SF');
+  assert.equal(compSizeBand({ assetType: 'Building', buildingSizeSf: 25000, landSizeAcres: null }), '25,000-50,000 SF');
+  assert.equal(compSizeBand({ assetType: 'Land', buildingSizeSf: null, landSizeAcres: 6 }), '5-10 ac');
+  assert.equal(compSizeBand({ assetType: 'Other', buildingSizeSf: null, landSizeAcres: null }), 'Unspecified');
+  assert.equal(compPeriod('2024-08-15', 'quarter'), '2024-Q3');
+  assert.equal(compPeriod('2024-08-15', 'year'), '2024');
+});
+
+test('groups net rent and sale $/SF by period and leaves out flagged, undated and gross comps', () => {
+  const analytics = buildCompAnalytics([
+    row({ id: 'l1', ratePsf: 10, compDate: '2024-01-10' }),
+    row({ id: 'l2', ratePsf: 12, rateType: null, compDate: '2024-03-01' }),
+    row({ id: 'l3', ratePsf: 14, compDate: '2024-05-01', submarket: 'Northeast' }),
+    row({ id: 'l4', ratePsf: 18, rateType: 'Gross' }),
+    row({ id: 'l5', ratePsf: 11, compDate: null }),
+    row({ id: 'l6', ratePsf: null, economicsStatus: 'unparseable' }),
+    row({ id: 's1', dealType: 'sale', pricePerSfAmount: 180, compDate: '2023-11-01' }),
+  ], { groupBy: 'submarket', interval: 'quarter' });
+
+  assert.deepEqual(analytics.excluded, { undated: 1, unparseable: 1, grossRent: 1 });
+  assert.deepEqual(analytics.netRent.map((series) => [series.group, series.overall.count, series.overall.median]), [
+    ['Southeast', 2, 11],
+    ['Northeast', 1, 14],
+  ]);
+  assert.deepEqual(analytics.netRent[0].points.map((point) => [point.period, point.median]), [['2024-Q1', 11]]);
+  assert.deepEqual(analytics.salePricePerSf[0].points.map((point) => [point.period, point.median]), [['2023-Q4', 180]]);
+});
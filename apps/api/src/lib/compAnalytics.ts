@@ -0,0 +1,179 @@
+export const COMP_ANALYTICS_GROUPS = ['all', 'submarket', 'assetType', 'sizeBand'] as const;
+export const COMP_ANALYTICS_INTERVALS = ['quarter', 'year'] as const;
+
+export type CompAnalyticsGroupBy = typeof COMP_ANALYTICS_GROUPS[number];
+export type CompAnalyticsInterval = typeof COMP_ANALYTICS_INTERVALS[number];
+
+export type CompAnalyticsRow = {
+  id: string;
+  dealType: string;
+  assetType: string;
+  submarket: string | null;
+  rateType: string | null;
+  buildingSizeSf: number | null;
+  landSizeAcres: number | null;
+  ratePsf: number | null;
+  pricePerSfAmount: number | null;
+  compDate: string | null;
+  economicsStatus: string;
+};
+
+export type CompStats = {
+  count: number;
+  median: number;
+  p25: number;
+  p75: number;
+  min: number;
+  max: number;
+};
+
+export type CompSeriesPoint = CompStats & { period: string };
+
+export type CompSeries = {
+  group: string;
+  overall: CompStats;
+  points: CompSeriesPoint[];
+};
+
+export type CompAnalytics = {
+  groupBy: CompAnalyticsGroupBy;
+  interval: CompAnalyticsInterval;
+  netRent: CompSeries[];
+  salePricePerSf: CompSeries[];
+  excluded: { undated: number; unparseable: number; grossRent: number };
+};
+
+const BUILDING_BANDS: Array<{ max: number; label: string }> = [
+  { max: 10_000, label: 'Under 10,000 SF' },
+  { max: 25_000, label: '10,000-25,000 SF' },
+  { max: 50_000, label: '25,000-50,000 SF' },
+  { max: 100_000, label: '50,000-100,000 SF' },
+  { max: Infinity, label: '100,000+ SF' },
+];
+
+const LAND_BANDS: Array<{ max: number; label: string }> = [
+  { max: 2, label: 'Under 2 ac' },
+  { max: 5, label: '2-5 ac' },
+  { max: 10, label: '5-10 ac' },
+  { max: Infinity, label: '10+ ac' },
+];
+
+export const ALL_COMPS_GROUP = 'All comps';
+const UNKNOWN_GROUP = 'Unspecified';
+
+export const COMP_SIZE_BANDS = [...BUILDING_BANDS, ...LAND_BANDS].map((band) => band.label).concat(UNKNOWN_GROUP);
+
+/** Land comps are banded by acreage; everything else by building area. */
+export function compSizeBand(row: Pick<CompAnalyticsRow, 'assetType' | 'buildingSizeSf' | 'landSizeAcres'>): string {
+  if (row.assetType === 'Land') {
+    return row.landSizeAcres ? LAND_BANDS.find((band) => row.landSizeAcres! < band.max)!.label : UNKNOWN_GROUP;
+  }
+  return row.buildingSizeSf ? BUILDING_BANDS.find((band) => row.buildingSizeSf! < band.max)!.label : UNKNOWN_GROUP;
+}
+
+export function compPeriod(day: string, interval: CompAnalyticsInterval): string {
+  const year = day.slice(0, 4);
+  if (interval === 'year') return year;
+  return `${year}-Q${Math.floor((Number(day.slice(5, 7)) - 1) / 3) + 1}`;
+}
+
+// Linear interpolation between closest ranks, the same definition as percentile_cont.
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+export function compStats(values: number[]): CompStats {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    median: round(quantile(sorted, 0.5)),
+    p25: round(quantile(sorted, 0.25)),
+    p75: round(quantile(sorted, 0.75)),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+function groupKey(row: CompAnalyticsRow, groupBy: CompAnalyticsGroupBy): string {
+  if (groupBy === 'submarket') return row.submarket?.trim() || UNKNOWN_GROUP;
+  if (groupBy === 'assetType') return row.assetType || UNKNOWN_GROUP;
+  if (groupBy === 'sizeBand') return compSizeBand(row);
+  return ALL_COMPS_GROUP;
+}
+
+function buildSeries(
+  samples: Array<{ row: CompAnalyticsRow; value: number }>,
+  groupBy: CompAnalyticsGroupBy,
+  interval: CompAnalyticsInterval,
+): CompSeries[] {
+  const groups = new Map<string, Array<{ row: CompAnalyticsRow; value: number }>>();
+  for (const sample of samples) {
+    const key = groupKey(sample.row, groupBy);
+    groups.set(key, [...(groups.get(key) || []), sample]);
+  }
+  const series: CompSeries[] = [];
+  groups.forEach((groupSamples, group) => {
+    const periods = new Map<string, number[]>();
+    for (const sample of groupSamples) {
+      const period = compPeriod(sample.row.compDate!, interval);
+      periods.set(period, [...(periods.get(period) || []), sample.value]);
+    }
+    series.push({
+      group,
+      overall: compStats(groupSamples.map((sample) => sample.value)),
+      points: Array.from(periods.entries())
+        .sort(([left], [right]) => left.localeCompare(right))
+        .map(([period, values]) => ({ period, ...compStats(values) })),
+    });
+  });
+  return series.sort((left, right) => right.overall.count - left.overall.count || left.group.localeCompare(right.group));
+}
+
+/**
+ * Median and interquartile range of net rent and sale $/SF per period.
+ * Flagged rows stay out until their text is fixed, and gross rents are left
+ * out of the net series rather than grossed down by a guessed operating cost.
+ * A lease with no stated rate type is treated as net, the local default quote.
+ */
+export function buildCompAnalytics(
+  rows: CompAnalyticsRow[],
+  options: { groupBy: CompAnalyticsGroupBy; interval: CompAnalyticsInterval },
+): CompAnalytics {
+  const excluded = { undated: 0, unparseable: 0, grossRent: 0 };
+  const rents: Array<{ row: CompAnalyticsRow; value: number }> = [];
+  const sales: Array<{ row: CompAnalyticsRow; value: number }> = [];
+
+  for (const row of rows) {
+    if (row.economicsStatus === 'unparseable') {
+      excluded.unparseable += 1;
+      continue;
+    }
+    const value = row.dealType === 'lease' ? row.ratePsf : row.pricePerSfAmount;
+    if (value === null || value <= 0) continue;
+    if (!row.compDate) {
+      excluded.undated += 1;
+      continue;
+    }
+    if (row.dealType === 'lease') {
+      if (row.rateType === 'Gross') excluded.grossRent += 1;
+      else rents.push({ row, value });
+    } else if (row.dealType === 'sale') {
+      sales.push({ row, value });
+    }
+  }
+
+  return {
+    groupBy: options.groupBy,
+    interval: options.interval,
+    netRent: buildSeries(rents, options.groupBy, options.interval),
+    salePricePerSf: buildSeries(sales, options.groupBy, options.interval),
+    excluded,
+  };
+}
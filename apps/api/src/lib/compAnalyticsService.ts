@@ -0,0 +1,119 @@
+import type { Pool } from 'pg';
+import { z } from 'zod';
+
+import {
+  COMP_ANALYTICS_GROUPS,
+  COMP_ANALYTICS_INTERVALS,
+  COMP_SIZE_BANDS,
+  buildCompAnalytics,
+  compSizeBand,
+  type CompAnalytics,
+  type CompAnalyticsRow,
+} from './compAnalytics';
+import { normalizeCompEconomics, type CompEconomicsSource } from './compEconomics';
+
+const OptionalDaySchema = z.string().trim().regex(/^\d{4}-\d{2}-\d{2}$/).optional();
+
+export const CompAnalyticsQuerySchema = z.object({
+  groupBy: z.enum(COMP_ANALYTICS_GROUPS).optional().default('all'),
+  interval: z.enum(COMP_ANALYTICS_INTERVALS).optional().default('quarter'),
+  submarket: z.string().trim().min(1).max(120).optional(),
+  assetType: z.string().trim().min(1).max(40).optional(),
+  sizeBand: z.string().trim().min(1).max(40).optional(),
+  from: OptionalDaySchema,
+  to: OptionalDaySchema,
+});
+
+export type CompAnalyticsQuery = z.infer<typeof CompAnalyticsQuerySchema>;
+
+export type CompAnalyticsResponse = CompAnalytics & {
+  filters: {
+    submarkets: string[];
+    assetTypes: string[];
+    sizeBands: string[];
+  };
+};
+
+function numeric(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function dayText(value: Date | string | null): string | null {
+  if (!value) return null;
+  if (typeof value === 'string') return value.slice(0, 10);
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${value.getFullYear()}-${month}-${day}`;
+}
+
+export async function loadCompAnalyticsRows(params: { pool: Pool; userId: string }): Promise<CompAnalyticsRow[]> {
+  const { rows } = await params.pool.query(
+    `
+      SELECT id, deal_type, asset_type, submarket, rate_type, building_size_sf, land_size_acres,
+             rate_psf, price_per_sf_amount, comp_date, economics_status
+      FROM public.market_comps
+      WHERE user_id = $1
+    `,
+    [params.userId],
+  );
+  return rows.map((row) => ({
+    id: row.id,
+    dealType: row.deal_type,
+    assetType: row.asset_type,
+    submarket: row.submarket,
+    rateType: row.rate_type,
+    buildingSizeSf: numeric(row.building_size_sf),
+    landSizeAcres: numeric(row.land_size_acres),
+    ratePsf: numeric(row.rate_psf),
+    pricePerSfAmount: numeric(row.price_per_sf_amount),
+    compDate: dayText(row.comp_date),
+    economicsStatus: row.economics_status,
+  }));
+}
+
+/** Demo comps never touch Postgres, so their economics are parsed on read. */
+export function compAnalyticsRowsFromComps(
+  comps: Array<CompEconomicsSource & { id: string; assetType: string; submarket?: string | null; rateType?: string | null }>,
+): CompAnalyticsRow[] {
+  return comps.map((comp) => {
+    const economics = normalizeCompEconomics(comp);
+    return {
+      id: comp.id,
+      dealType: comp.dealType,
+      assetType: comp.assetType,
+      submarket: comp.submarket || null,
+      rateType: comp.rateType || null,
+      buildingSizeSf: economics.buildingSizeSf,
+      landSizeAcres: economics.landSizeAcres,
+      ratePsf: economics.ratePsf,
+      pricePerSfAmount: economics.pricePerSfAmount,
+      compDate: economics.compDate,
+      economicsStatus: economics.economicsStatus,
+    };
+  });
+}
+
+function distinct(values: string[]) {
+  return Array.from(new Set(values)).sort((left, right) => left.localeCompare(right));
+}
+
+export function summarizeCompAnalytics(rows: CompAnalyticsRow[], query: CompAnalyticsQuery): CompAnalyticsResponse {
+  const filtered = rows.filter((row) => (
+    (!query.submarket || (row.submarket?.trim() || '') === query.submarket)
+    && (!query.assetType || row.assetType === query.assetType)
+    && (!query.sizeBand || compSizeBand(row) === query.sizeBand)
+    && (!query.from || !row.compDate || row.compDate >= query.from)
+    && (!query.to || !row.compDate || row.compDate <= query.to)
+  ));
+  const bands = new Set(rows.map(compSizeBand));
+  return {
+    ...buildCompAnalytics(filtered, { groupBy: query.groupBy, interval: query.interval }),
+    filters: {
+      submarkets: distinct(rows.map((row) => row.submarket?.trim() || '').filter(Boolean)),
+      assetTypes: distinct(rows.map((row) => row.assetType).filter(Boolean)),
+      sizeBands: COMP_SIZE_BANDS.filter((band) => bands.has(band)),
+    },
+  };
+}
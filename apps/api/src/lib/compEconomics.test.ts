@@ -0,0 +1,114 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { computeLeaseEconomics } from '@level-cre/shared';
+
+import { normalizeCompEconomics, parseCompAmount, parseCompDate } from './compEconomics';
+
+test('parses the amounts brokers actually type into comps', () => {
+  assert.equal(parseCompAmount('2500000', 'number'), 2500000);
+  assert.equal(parseCompAmount('$2.4M', 'number'), 2400000);
+  assert.equal(parseCompAmount('1,250,000 CAD', 'number'), 1250000);
+  assert.equal(parseCompAmount('$12.50 psf net', 'rate'), 12.5);
+  assert.equal(parseCompAmount('15k sf', 'buildingSize'), 15000);
+  assert.equal(parseCompAmount('2.5 acres', 'landSize'), 2.5);
+  assert.equal(parseCompAmount('$10.50 - $11.00', 'rate'), null);
+  assert.equal(parseCompAmount('TBD', 'number'), null);
+  assert.equal(parseCompAmount('  ', 'number'), null);
+});
+
+test('only accepts units that fit the field', () => {
+  assert.equal(parseCompAmount('87,120 sf', 'landSize'), 2);
+  assert.equal(parseCompAmount('10,000 sq ft', 'landSize'), 0.2296);
+  assert.equal(parseCompAmount('2.5 acres', 'buildingSize'), null);
+  assert.equal(parseCompAmount('15,000 sf', 'pricePerAcre'), null);
+  assert.equal(parseCompAmount('$150 psf', 'number'), null);
+
+  const sale = normalizeCompEconomics({ dealType: 'sale', price: '$1M', buildingSize: '2.5 acres', landSize: '87,120 sf' });
+  assert.equal(sale.landSizeAcres, 2);
+  assert.equal(sale.pricePerAcreAmount, 500000);
+  assert.equal(sale.buildingSizeSf, null);
+  assert.equal(sale.economicsStatus, 'unparseable');
+  assert.deepEqual(sale.economicsIssues, ['buildingSize']);
+});
+
+test('parses comp dates down to the first of the month or year', () => {
+  assert.equal(parseCompDate('2024-03-15'), '2024-03-15');
+  assert.equal(parseCompDate('2024-03'), '2024-03-01');
+  assert.equal(parseCompDate('2023'), '2023-01-01');
+  assert.equal(parseCompDate('2024-02-30'), null);
+  assert.equal(parseCompDate('Q3 2024'), null);
+});
+
+test('derives sale $/SF when it was not stated and flags text that will not parse', () => {
+  const sale = normalizeCompEconomics({ dealType: 'sale', price: '$3M', buildingSize: '20,000', saleDate: '2024-06-01' });
+  assert.equal(sale.pricePerSfAmount, 150);
+  assert.equal(sale.compDate, '2024-06-01');
+  assert.equal(sale.economicsStatus, 'parsed');
+  assert.deepEqual(sale.economicsIssues, []);
+
+  const lease = normalizeCompEconomics({ dealType: 'lease', rate: '11-12', buildingSize: '8000', commencement: 'spring', saleDate: 'ignored' });
+  assert.equal(lease.ratePsf, null);
+  assert.equal(lease.buildingSizeSf, 8000);
+  assert.equal(lease.economicsStatus, 'unparseable');
+  assert.deepEqual(lease.economicsIssues, ['rate', 'commencement']);
+});
+
+test('works out net effective rent for lease comps from the structured terms', () => {
+  const flat = normalizeCompEconomics({ dealType: 'lease', rate: '$12.00 psf', termMonths: 60 });
+  assert.equal(flat.netEffectiveRatePsf, 12);
+
+  const concessions = normalizeCompEconomics({
+    dealType: 'lease',
+    rate: '12',
+    termMonths: 60,
+    escalationKind: 'percent',
+    escalationAmount: '3',
+    freeRentMonths: 3,
+    tiAllowancePsf: '5.00',
+    commissionPct: 5,
+  });
+  assert.equal(concessions.netEffectiveRatePsf, 10.53);
+
+  assert.equal(normalizeCompEconomics({ dealType: 'lease', rate: '12' }).netEffectiveRatePsf, null);
+  assert.equal(normalizeCompEconomics({ dealType: 'lease', rate: 'TBD', termMonths: 60 }).netEffectiveRatePsf, null);
+  assert.equal(normalizeCompEconomics({ dealType: 'sale', price: '$3M', termMonths: 60 }).netEffectiveRatePsf, null);
+});
+
+test('lease economics apply free rent, escalations and up-front costs over the term', () => {
+  const economics = computeLeaseEconomics({
+    termMonths: 60,
+    areaSf: 10_000,
+    baseRatePsf: 12,
+    escalation: { kind: 'percent', amount: 3 },
+    freeRentMonths: 3,
+    tiAllowancePsf: 5,
+    additionalRentPsf: 6,
+    commissionPct: 5,
+  });
+  assert.ok(economics);
+  assert.equal(economics.averageRatePsf, 12.74);
+  assert.equal(economics.freeRentPsf, 3);
+  assert.equal(economics.commissionsPsf, 3.04);
+  assert.equal(economics.totalConsiderationPsf, 90.71);
+  assert.equal(economics.landlordNpvPsf, 41.8);
+  assert.equal(economics.totals?.totalConsideration, 907096.3);
+
+  const grossFree = computeLeaseEconomics({
+    termMonths: 24,
+    baseRatePsf: 10,
+    escalation: { kind: 'fixed', amount: 0.5 },
+    freeRentMonths: 2,
+    freeRentIncludesAdditionalRent: true,
+    additionalRentPsf: 6,
+    discountRatePct: 0,
+  });
+  assert.equal(grossFree?.netEffectiveRatePsf, 9.42);
+  assert.equal(grossFree?.additionalRentPsf, 11);
+  assert.equal(grossFree?.landlordNpvPsf, 18.83);
+  assert.equal(grossFree?.totals, null);
+
+  const stepped = computeLeaseEconomics({ termMonths: 36, rentSteps: [{ fromMonth: 13, ratePsf: 11 }, { fromMonth: 1, ratePsf: 10 }] });
+  assert.equal(stepped?.baseRentPsf, 32);
+  assert.equal(computeLeaseEconomics({ baseRatePsf: 12 }), null);
+});
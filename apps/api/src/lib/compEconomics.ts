@@ -0,0 +1,172 @@
+import { computeLeaseEconomics } from '@level-cre/shared';
+
+// Keep these rules in step with public.levelcre_parse_comp_amount and
+// public.levelcre_parse_comp_date in drizzle/0032_market_comp_economics.sql,
+// which backfill the same columns for comps saved before they existed.
+const AMOUNT = '^(\\d+(?:\\.\\d+)?)(k|mm|million|mil|m|b)?';
+const SQUARE_FEET = 'sf|sqft|squarefeet|ft2';
+const ACRES = 'acres|acre|ac';
+const PER_SF = 'psf|/sf|persf|/sqft|persqft';
+
+/** What a comp field measures decides which unit words it may carry. */
+export type CompAmountField = 'number' | 'rate' | 'pricePerSf' | 'pricePerAcre' | 'buildingSize' | 'landSize';
+
+const FIELD_PATTERNS: Record<CompAmountField, RegExp> = {
+  number: new RegExp(`${AMOUNT}$`),
+  rate: new RegExp(`${AMOUNT}(?:${PER_SF}|sf|sqft|/yr|/year|peryear|pa|net|nnn|gross)*$`),
+  pricePerSf: new RegExp(`${AMOUNT}(?:${PER_SF}|sf|sqft)?$`),
+  pricePerAcre: new RegExp(`${AMOUNT}(?:/acre|/ac|peracre|${ACRES})?$`),
+  buildingSize: new RegExp(`${AMOUNT}(?:${SQUARE_FEET})?$`),
+  landSize: new RegExp(`${AMOUNT}(${ACRES}|${SQUARE_FEET})?$`),
+};
+
+const SQUARE_FEET_PER_ACRE = 43_560;
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1_000,
+  m: 1_000_000,
+  mm: 1_000_000,
+  mil: 1_000_000,
+  million: 1_000_000,
+  b: 1_000_000_000,
+};
+
+export type CompEconomicsStatus = 'pending' | 'parsed' | 'unparseable';
+
+export type CompEconomicsSource = {
+  dealType: string;
+  buildingSize?: string | null;
+  landSize?: string | null;
+  rate?: string | null;
+  price?: string | null;
+  pricePerSf?: string | null;
+  pricePerAcre?: string | null;
+  commencement?: string | null;
+  saleDate?: string | null;
+  termMonths?: number | null;
+  escalationKind?: string | null;
+  escalationAmount?: number | string | null;
+  freeRentMonths?: number | string | null;
+  tiAllowancePsf?: number | string | null;
+  additionalRentPsf?: number | string | null;
+  commissionPct?: number | string | null;
+};
+
+export type CompEconomics = {
+  buildingSizeSf: number | null;
+  landSizeAcres: number | null;
+  ratePsf: number | null;
+  priceAmount: number | null;
+  pricePerSfAmount: number | null;
+  pricePerAcreAmount: number | null;
+  compDate: string | null;
+  netEffectiveRatePsf: number | null;
+  economicsStatus: CompEconomicsStatus;
+  economicsIssues: string[];
+};
+
+function present(value: string | null | undefined): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+/**
+ * "$2.4M", "1,250,000", "$12.50 psf net" and "2.5 acres" parse; ranges, "TBD"
+ * and "call" do not. A unit that does not fit the field ("2.5 acres" as a
+ * building size) fails rather than being dropped. Land sizes come back in
+ * acres, so "87,120 sf" of land is 2 acres.
+ */
+export function parseCompAmount(value: string | null | undefined, field: CompAmountField): number | null {
+  if (!present(value)) return null;
+  const compact = value.toLowerCase().replace(/[$,\s]|cad|usd/g, '');
+  const match = FIELD_PATTERNS[field].exec(compact);
+  if (!match) return null;
+  const amount = Number(match[1]) * (match[2] ? MULTIPLIERS[match[2]] : 1);
+  if (field === 'landSize' && match[3] && !ACRES.split('|').includes(match[3])) {
+    return round(amount / SQUARE_FEET_PER_ACRE, 4);
+  }
+  return amount;
+}
+
+/** Accepts a full ISO day, a month ("2024-03") or a bare year, anchored to the first day. */
+export function parseCompDate(value: string | null | undefined): string | null {
+  if (!present(value)) return null;
+  const trimmed = value.trim().slice(0, 10);
+  const day = /^\d{4}-\d{2}-\d{2}$/.test(trimmed)
+    ? trimmed
+    : /^\d{4}-\d{2}$/.test(trimmed)
+      ? `${trimmed}-01`
+      : /^\d{4}$/.test(trimmed)
+        ? `${trimmed}-01-01`
+        : null;
+  if (!day) return null;
+  const date = new Date(`${day}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== day ? null : day;
+}
+
+// Structured lease terms arrive as numbers from the form and as numeric strings from the database.
+function termNumber(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/** Null for sales and for leases missing a parseable rate or a term. */
+export function compNetEffectiveRate(comp: CompEconomicsSource, ratePsf: number | null): number | null {
+  if (comp.dealType !== 'lease' || ratePsf === null) return null;
+  const escalationAmount = termNumber(comp.escalationAmount);
+  const escalationKind = comp.escalationKind === 'percent' || comp.escalationKind === 'fixed' ? comp.escalationKind : null;
+  const economics = computeLeaseEconomics({
+    termMonths: comp.termMonths,
+    baseRatePsf: ratePsf,
+    escalation: escalationKind && escalationAmount !== null ? { kind: escalationKind, amount: escalationAmount } : null,
+    freeRentMonths: termNumber(comp.freeRentMonths),
+    tiAllowancePsf: termNumber(comp.tiAllowancePsf),
+    additionalRentPsf: termNumber(comp.additionalRentPsf),
+    commissionPct: termNumber(comp.commissionPct),
+  });
+  return economics ? economics.netEffectiveRatePsf : null;
+}
+
+function round(value: number, places: number) {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+export function normalizeCompEconomics(comp: CompEconomicsSource): CompEconomics {
+  const issues: string[] = [];
+  const amount = (field: CompAmountField | 'price', value: string | null | undefined) => {
+    const parsed = parseCompAmount(value, field === 'price' ? 'number' : field);
+    if (parsed === null && present(value)) issues.push(field);
+    return parsed;
+  };
+  const day = (field: string, value: string | null | undefined) => {
+    const parsed = parseCompDate(value);
+    if (parsed === null && present(value)) issues.push(field);
+    return parsed;
+  };
+
+  const buildingSizeSf = amount('buildingSize', comp.buildingSize);
+  const landSizeAcres = amount('landSize', comp.landSize);
+  const ratePsf = amount('rate', comp.rate);
+  const priceAmount = amount('price', comp.price);
+  const statedPricePerSf = amount('pricePerSf', comp.pricePerSf);
+  const statedPricePerAcre = amount('pricePerAcre', comp.pricePerAcre);
+  const compDate = comp.dealType === 'lease'
+    ? day('commencement', comp.commencement)
+    : day('saleDate', comp.saleDate);
+
+  return {
+    buildingSizeSf,
+    landSizeAcres,
+    ratePsf,
+    priceAmount,
+    pricePerSfAmount: statedPricePerSf
+      ?? (priceAmount !== null && buildingSizeSf ? round(priceAmount / buildingSizeSf, 2) : null),
+    pricePerAcreAmount: statedPricePerAcre
+      ?? (priceAmount !== null && landSizeAcres ? round(priceAmount / landSizeAcres, 2) : null),
+    compDate,
+    netEffectiveRatePsf: compNetEffectiveRate(comp, ratePsf),
+    economicsStatus: issues.length ? 'unparseable' : 'parsed',
+    economicsIssues: issues,
+  };
+}
@@ -0,0 +1,81 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  clusterContactRecords,
+  companyEmailDomain,
+  normalizeCompanyName,
+  type ContactSourceRecord,
+} from './contactDirectory';
+
+function record(sourceId: string, fields: Partial<ContactSourceRecord>): ContactSourceRecord {
+  return { sourceType: 'prospect', sourceId, prospectId: sourceId, ...fields };
+}
+
+test('normalizes company names and ignores personal email domains', () => {
+  assert.equal(normalizeCompanyName('Acme Logistics, Inc.'), 'acme logistics');
+  assert.equal(normalizeCompanyName('ACME LOGISTICS LTD'), 'acme logistics');
+  assert.equal(normalizeCompanyName('Smith & Sons Co'), 'smith and sons');
+  assert.equal(companyEmailDomain('Jane@AcmeLogistics.com'), 'acmelogistics.com');
+  assert.equal(companyEmailDomain('jane.doe@gmail.com'), '');
+});
+
+test('joins people on email and companies on domain or name', () => {
+  const { companies, contacts } = clusterContactRecords([
+    record('p1', { name: 'Jane Doe', email: 'jane@acmelogistics.com', company: 'Acme Logistics Inc.' }),
+    record('o1', {
+      sourceType: 'opportunity',
+      name: 'Jane Doe',
+      email: 'JANE@acmelogistics.com',
+      phone: '(604) 555-0100',
+      company: 'Acme Logistics',
+      prospectId: 'p1',
+      opportunityId: 'o1',
+    }),
+    record('e1', { sourceType: 'activity_event', name: 'Bob Lee', email: 'bob@acmelogistics.com', prospectId: null }),
+  ]);
+
+  assert.equal(companies.length, 1);
+  assert.equal(companies[0].key, 'domain:acmelogistics.com');
+  assert.equal(companies[0].name, 'Acme Logistics Inc.');
+
+  assert.equal(contacts.length, 2);
+  const jane = contacts.find((contact) => contact.email === 'jane@acmelogistics.com');
+  assert.equal(jane?.key, 'email:jane@acmelogistics.com');
+  assert.equal(jane?.normalizedPhone, '6045550100');
+  assert.equal(jane?.companyKey, 'domain:acmelogistics.com');
+  assert.deepEqual(jane?.sources.map((source) => source.sourceId).sort(), ['o1', 'p1']);
+  assert.equal(contacts.find((contact) => contact.fullName === 'Bob Lee')?.companyKey, 'domain:acmelogistics.com');
+});
+
+test('does not merge different people who share an office line', () => {
+  const { contacts } = clusterContactRecords([
+    record('p1', { name: 'Jane Doe', phone: '604-555-0100', company: 'Acme' }),
+    record('p2', { name: 'Bob Lee', phone: '604.555.0100', company: 'Acme' }),
+    record('p3', { name: 'jane doe', company: 'ACME Ltd' }),
+    record('p4', { phone: '6045550100' }),
+  ]);
+
+  const names = contacts.map((contact) => contact.nameKeys.join(',')).sort();
+  assert.deepEqual(names, ['bob lee', 'jane doe']);
+  const jane = contacts.find((contact) => contact.nameKeys.includes('jane doe'));
+  assert.equal(jane?.key, 'name:jane doe|name:acme');
+  assert.deepEqual(jane?.sources.map((source) => source.sourceId).sort(), ['p1', 'p3', 'p4']);
+  assert.equal(new Set(contacts.map((contact) => contact.key)).size, contacts.length);
+});
+
+test('produces the same keys regardless of record order', () => {
+  const records = [
+    record('p1', { name: 'Jane Doe', company: 'Acme' }),
+    record('p2', { name: 'Jane Doe', email: 'jane@acme.com' }),
+    record('p3', { company: 'Acme Inc', email: 'ops@acme.com' }),
+  ];
+  const forward = clusterContactRecords(records);
+  const reversed = clusterContactRecords(records.slice().reverse());
+
+  assert.deepEqual(forward.companies.map((company) => company.key).sort(), ['domain:acme.com']);
+  assert.deepEqual(
+    forward.contacts.map((contact) => contact.key).sort(),
+    reversed.contacts.map((contact) => contact.key).sort(),
+  );
+});
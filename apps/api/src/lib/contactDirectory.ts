@@ -0,0 +1,314 @@
+import { emailDomain, normalizePhone } from '@level-cre/shared';
+
+export const CONTACT_SOURCE_TYPES = [
+  'prospect',
+  'opportunity',
+  'activity_event',
+  'sales_activity_import',
+  'requirement',
+] as const;
+
+export const CONTACT_LINK_ENTITY_TYPES = ['prospect', 'opportunity', 'dossier'] as const;
+
+export type ContactSourceType = typeof CONTACT_SOURCE_TYPES[number];
+export type ContactLinkEntityType = typeof CONTACT_LINK_ENTITY_TYPES[number];
+
+/** One row's worth of loose contact strings, wherever it was typed. */
+export type ContactSourceRecord = {
+  sourceType: ContactSourceType;
+  sourceId: string;
+  name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  company?: string | null;
+  prospectId?: string | null;
+  opportunityId?: string | null;
+};
+
+export type CompanyCluster = {
+  key: string;
+  name: string | null;
+  normalizedName: string | null;
+  domain: string | null;
+  normalizedNames: string[];
+  domains: string[];
+  sources: ContactSourceRecord[];
+};
+
+export type ContactCluster = {
+  key: string;
+  fullName: string | null;
+  email: string | null;
+  phone: string | null;
+  normalizedPhone: string | null;
+  emails: string[];
+  normalizedPhones: string[];
+  nameKeys: string[];
+  companyKey: string | null;
+  sources: ContactSourceRecord[];
+};
+
+export type ContactDirectoryClusters = {
+  companies: CompanyCluster[];
+  contacts: ContactCluster[];
+};
+
+// Personal mailboxes say nothing about where someone works.
+const FREE_EMAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'hotmail.com',
+  'hotmail.ca',
+  'outlook.com',
+  'live.com',
+  'live.ca',
+  'msn.com',
+  'yahoo.com',
+  'yahoo.ca',
+  'icloud.com',
+  'me.com',
+  'mac.com',
+  'aol.com',
+  'shaw.ca',
+  'telus.net',
+  'protonmail.com',
+  'proton.me',
+]);
+
+const COMPANY_SUFFIXES = /\b(incorporated|inc|ltd|limited|llc|llp|lp|corp|corporation|co|company|ulc)\b/g;
+const MIN_PHONE_DIGITS = 7;
+
+function clean(value: string | null | undefined): string {
+  return String(value || '').trim().replace(/\s+/g, ' ');
+}
+
+export function normalizeContactEmail(value: string | null | undefined): string {
+  const email = clean(value).toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : '';
+}
+
+export function normalizeContactPhone(value: string | null | undefined): string {
+  const phone = normalizePhone(value);
+  return phone.length >= MIN_PHONE_DIGITS ? phone : '';
+}
+
+export function normalizePersonName(value: string | null | undefined): string {
+  return clean(value).toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+export function normalizeCompanyName(value: string | null | undefined): string {
+  return clean(value)
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(COMPANY_SUFFIXES, ' ')
+    .trim()
+    .replace(/\s+/g, ' ');
+}
+
+export function companyEmailDomain(value: string | null | undefined): string {
+  const domain = emailDomain(normalizeContactEmail(value));
+  return domain && !FREE_EMAIL_DOMAINS.has(domain) ? domain : '';
+}
+
+/** Union-find over string keys, with an optional veto on each merge. */
+class KeyUnion<T> {
+  private parent = new Map<string, string>();
+  private data = new Map<string, T>();
+
+  constructor(private readonly mergeData: (left: T, right: T) => T) {}
+
+  add(key: string, value: T) {
+    if (!this.parent.has(key)) {
+      this.parent.set(key, key);
+      this.data.set(key, value);
+      return;
+    }
+    const root = this.find(key);
+    this.data.set(root, this.mergeData(this.data.get(root)!, value));
+  }
+
+  has(key: string) {
+    return this.parent.has(key);
+  }
+
+  find(key: string): string {
+    let root = key;
+    while (this.parent.get(root) !== root) root = this.parent.get(root)!;
+    this.parent.set(key, root);
+    return root;
+  }
+
+  get(key: string): T {
+    return this.data.get(this.find(key))!;
+  }
+
+  union(left: string, right: string, allow: (leftData: T, rightData: T) => boolean = () => true): boolean {
+    const leftRoot = this.find(left);
+    const rightRoot = this.find(right);
+    if (leftRoot === rightRoot) return true;
+    if (!allow(this.data.get(leftRoot)!, this.data.get(rightRoot)!)) return false;
+    this.parent.set(rightRoot, leftRoot);
+    this.data.set(leftRoot, this.mergeData(this.data.get(leftRoot)!, this.data.get(rightRoot)!));
+    this.data.delete(rightRoot);
+    return true;
+  }
+
+  roots(): string[] {
+    return Array.from(this.parent.keys()).filter((key) => this.find(key) === key);
+  }
+}
+
+function mostCommon(values: string[]): string | null {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  let best: string | null = null;
+  let bestCount = 0;
+  counts.forEach((count, value) => {
+    if (count > bestCount || (count === bestCount && best !== null && value.length > best.length)) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+type CompanyState = { names: Set<string>; domains: Set<string>; sources: ContactSourceRecord[] };
+type ContactState = { names: Set<string>; sources: ContactSourceRecord[] };
+
+function mergeSets<T extends { sources: ContactSourceRecord[] }>(left: T, right: T, setKeys: Array<keyof T>): T {
+  const merged = { ...left, sources: left.sources.concat(right.sources) };
+  for (const key of setKeys) {
+    merged[key] = new Set(Array.from(left[key] as Set<string>).concat(Array.from(right[key] as Set<string>))) as T[keyof T];
+  }
+  return merged;
+}
+
+function clusterCompanies(records: ContactSourceRecord[]) {
+  const union = new KeyUnion<CompanyState>((left, right) => mergeSets(left, right, ['names', 'domains']));
+  const recordKeys = new Map<ContactSourceRecord, string>();
+  for (const record of records) {
+    const name = normalizeCompanyName(record.company);
+    const domain = companyEmailDomain(record.email);
+    const keys = [name ? `name:${name}` : '', domain ? `domain:${domain}` : ''].filter(Boolean);
+    if (keys.length === 0) continue;
+    const state = { names: new Set(name ? [name] : []), domains: new Set(domain ? [domain] : []), sources: [record] };
+    union.add(keys[0], state);
+    for (const key of keys.slice(1)) {
+      if (!union.has(key)) union.add(key, { names: new Set(), domains: new Set(), sources: [] });
+      union.union(keys[0], key);
+    }
+    recordKeys.set(record, keys[0]);
+  }
+  return { union, recordKeys };
+}
+
+function namesCompatible(left: ContactState, right: ContactState): boolean {
+  if (left.names.size === 0 || right.names.size === 0) return true;
+  return Array.from(left.names).some((name) => right.names.has(name));
+}
+
+/**
+ * Groups loose contact strings into people and companies.
+ *
+ * Companies join on a shared work email domain or the same name once legal
+ * suffixes are dropped. People join on a shared email address; a shared phone
+ * number or the same name at the same company only joins them when their
+ * names do not disagree, because a main office line is shared by everyone
+ * who answers it.
+ */
+export function clusterContactRecords(records: ContactSourceRecord[]): ContactDirectoryClusters {
+  const { union: companyUnion, recordKeys: companyRecordKeys } = clusterCompanies(records);
+  const companyRootFor = (record: ContactSourceRecord) => {
+    const key = companyRecordKeys.get(record);
+    return key ? companyUnion.find(key) : null;
+  };
+
+  const contactUnion = new KeyUnion<ContactState>((left, right) => mergeSets(left, right, ['names']));
+  const contactRecordKeys = new Map<ContactSourceRecord, string>();
+  for (const record of records) {
+    const email = normalizeContactEmail(record.email);
+    const phone = normalizeContactPhone(record.phone);
+    const name = normalizePersonName(record.name);
+    if (!email && !phone && !name) continue;
+    const companyRoot = companyRootFor(record);
+    const state: ContactState = { names: new Set(name ? [name] : []), sources: [record] };
+    const ownKey = `record:${record.sourceType}:${record.sourceId}`;
+    contactUnion.add(ownKey, state);
+    const joins: Array<{ key: string; guarded: boolean }> = [];
+    if (email) joins.push({ key: `email:${email}`, guarded: false });
+    if (phone) joins.push({ key: `phone:${phone}`, guarded: true });
+    if (name) joins.push({ key: `name:${name}|${companyRoot || ''}`, guarded: true });
+    for (const join of joins) {
+      if (!contactUnion.has(join.key)) contactUnion.add(join.key, { names: new Set(), sources: [] });
+      contactUnion.union(join.key, ownKey, join.guarded ? namesCompatible : undefined);
+    }
+    contactRecordKeys.set(record, ownKey);
+  }
+
+  // Union roots depend on record order, so clusters are keyed by their content
+  // instead; re-running the backfill then lands on the same match keys.
+  const companyKeyByRoot = new Map<string, string>();
+  const companies: CompanyCluster[] = [];
+  for (const root of companyUnion.roots()) {
+    const state = companyUnion.get(root);
+    if (state.sources.length === 0) continue;
+    const normalizedNames = Array.from(state.names).sort();
+    const domains = Array.from(state.domains).sort();
+    const displayName = mostCommon(state.sources.map((source) => clean(source.company)));
+    const normalizedName = normalizeCompanyName(displayName) || normalizedNames[0] || null;
+    const domain = mostCommon(state.sources.map((source) => companyEmailDomain(source.email))) || domains[0] || null;
+    const key = domain ? `domain:${domain}` : `name:${normalizedName}`;
+    companyKeyByRoot.set(root, key);
+    companies.push({
+      key,
+      name: displayName || domain,
+      normalizedName,
+      domain,
+      normalizedNames,
+      domains,
+      sources: state.sources,
+    });
+  }
+  const companyKeyFor = (record: ContactSourceRecord) => {
+    const root = companyRootFor(record);
+    return root ? companyKeyByRoot.get(root) || '' : '';
+  };
+
+  const usedContactKeys = new Set<string>();
+  const contacts: ContactCluster[] = [];
+  for (const root of contactUnion.roots()) {
+    const state = contactUnion.get(root);
+    if (state.sources.length === 0) continue;
+    const emails = Array.from(new Set(state.sources.map((source) => normalizeContactEmail(source.email)).filter(Boolean))).sort();
+    const normalizedPhones = Array.from(new Set(state.sources.map((source) => normalizeContactPhone(source.phone)).filter(Boolean))).sort();
+    const email = mostCommon(state.sources.map((source) => normalizeContactEmail(source.email)));
+    const phoneSource = state.sources.find((source) => normalizeContactPhone(source.phone));
+    const companyKey = mostCommon(state.sources.map(companyKeyFor));
+    const nameKeys = Array.from(state.names).sort();
+    // A shared office line can leave two people on one number, so the phone
+    // is the last resort and still gets a suffix if it collides.
+    const baseKey = email
+      ? `email:${email}`
+      : nameKeys[0] ? `name:${nameKeys[0]}|${companyKey || ''}` : `phone:${normalizedPhones[0]}`;
+    let key = baseKey;
+    for (let suffix = 2; usedContactKeys.has(key); suffix += 1) key = `${baseKey}#${suffix}`;
+    usedContactKeys.add(key);
+    contacts.push({
+      key,
+      fullName: mostCommon(state.sources.map((source) => clean(source.name))),
+      email,
+      phone: phoneSource ? clean(phoneSource.phone) : null,
+      normalizedPhone: phoneSource ? normalizeContactPhone(phoneSource.phone) : null,
+      emails,
+      normalizedPhones,
+      nameKeys,
+      companyKey,
+      sources: state.sources,
+    });
+  }
+
+  return { companies, contacts };
+}
@@ -0,0 +1,848 @@
+import type { Pool, PoolClient } from 'pg';
+import { z } from 'zod';
+
+import {
+  CONTACT_LINK_ENTITY_TYPES,
+  clusterContactRecords,
+  normalizeCompanyName,
+  normalizeContactEmail,
+  normalizeContactPhone,
+  type ContactCluster,
+  type ContactLinkEntityType,
+  type ContactSourceRecord,
+} from './contactDirectory';
+import { requireActiveOwnedProspect } from './prospectReferenceService';
+
+type Queryable = Pick<Pool | PoolClient, 'query'>;
+
+const OptionalText = (max: number) => z.string().trim().max(max).nullable().optional()
+  .transform((value) => value || null);
+
+const ContactFieldsSchema = z.object({
+  fullName: OptionalText(240),
+  email: z.string().trim().email().max(320).nullable().optional().or(z.literal('')).transform((value) => value || null),
+  phone: OptionalText(60),
+  title: OptionalText(160),
+  notes: OptionalText(5000),
+  companyId: z.string().trim().min(1).nullable().optional(),
+  companyName: OptionalText(240),
+});
+
+export const ContactCreateSchema = ContactFieldsSchema.refine(
+  (input) => Boolean(input.fullName || input.email || input.phone),
+  { message: 'A contact needs a name, email or phone' },
+);
+export const ContactUpdateSchema = ContactFieldsSchema.partial();
+
+export const ContactListQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  companyId: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional().default(200),
+});
+
+export const ContactLinkSchema = z.object({
+  entityType: z.enum(CONTACT_LINK_ENTITY_TYPES),
+  entityId: z.string().trim().min(1),
+});
+
+export type ContactCreateInput = z.infer<typeof ContactCreateSchema>;
+export type ContactUpdateInput = z.infer<typeof ContactUpdateSchema>;
+export type ContactListQuery = z.infer<typeof ContactListQuerySchema>;
+export type ContactLinkInput = z.infer<typeof ContactLinkSchema>;
+
+export type DirectoryCompany = {
+  id: string;
+  name: string;
+  domain: string | null;
+  phone: string | null;
+  websiteUrl: string | null;
+  notes: string | null;
+  source: string;
+  contactCount: number;
+};
+
+export type DirectoryContact = {
+  id: string;
+  fullName: string | null;
+  email: string | null;
+  phone: string | null;
+  title: string | null;
+  notes: string | null;
+  source: string;
+  companyId: string | null;
+  companyName: string | null;
+  linkCount: number;
+  updatedAt: string | null;
+};
+
+export type ContactLink = {
+  id: string;
+  entityType: ContactLinkEntityType;
+  entityId: string;
+  label: string | null;
+  detail: string | null;
+  source: string;
+};
+
+export type ContactEmail = {
+  id: string;
+  direction: string;
+  subject: string | null;
+  senderEmail: string | null;
+  snippet: string | null;
+  sourceUrl: string | null;
+  at: string | null;
+};
+
+export type ContactInteraction = {
+  id: string;
+  kind: 'interaction' | 'activity';
+  type: string;
+  outcome: string | null;
+  summary: string | null;
+  prospectId: string | null;
+  at: string | null;
+};
+
+export type ContactDetail = DirectoryContact & {
+  company: DirectoryCompany | null;
+  colleagues: DirectoryContact[];
+  links: ContactLink[];
+  emails: ContactEmail[];
+  interactions: ContactInteraction[];
+};
+
+export type CompanyDetail = DirectoryCompany & {
+  contacts: DirectoryContact[];
+  links: ContactLink[];
+};
+
+export type ContactBackfillResult = {
+  sourcesScanned: number;
+  companiesCreated: number;
+  companiesUpdated: number;
+  contactsCreated: number;
+  contactsUpdated: number;
+  linksCreated: number;
+};
+
+export class ContactDirectoryError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ContactDirectoryError';
+    this.status = status;
+  }
+}
+
+const DETAIL_EMAIL_LIMIT = 50;
+const DETAIL_INTERACTION_LIMIT = 100;
+
+const CONTACT_COLUMNS = `
+  contact.id, contact.full_name, contact.email, contact.phone, contact.title, contact.notes,
+  contact.source, contact.company_id, company.name AS company_name, contact.updated_at,
+  (SELECT count(*)::int FROM public.contact_entity_links link WHERE link.contact_id = contact.id) AS link_count
+`;
+
+function isoOrNull(value: unknown): string | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function contactFromRow(row: Record<string, any>): DirectoryContact {
+  return {
+    id: row.id,
+    fullName: row.full_name ?? null,
+    email: row.email ?? null,
+    phone: row.phone ?? null,
+    title: row.title ?? null,
+    notes: row.notes ?? null,
+    source: row.source,
+    companyId: row.company_id ?? null,
+    companyName: row.company_name ?? null,
+    linkCount: Number(row.link_count || 0),
+    updatedAt: isoOrNull(row.updated_at),
+  };
+}
+
+function companyFromRow(row: Record<string, any>): DirectoryCompany {
+  return {
+    id: row.id,
+    name: row.name,
+    domain: row.domain ?? null,
+    phone: row.phone ?? null,
+    websiteUrl: row.website_url ?? null,
+    notes: row.notes ?? null,
+    source: row.source,
+    contactCount: Number(row.contact_count || 0),
+  };
+}
+
+function linkFromRow(row: Record<string, any>): ContactLink {
+  return {
+    id: row.id,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    label: row.label ?? null,
+    detail: row.detail ?? null,
+    source: row.source,
+  };
+}
+
+async function withTransaction<T>(pool: Pool, run: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await run(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function intelDossiersAvailable(db: Queryable): Promise<boolean> {
+  const { rows } = await db.query(`SELECT to_regclass('public.intel_property_dossiers') IS NOT NULL AS available`);
+  return rows[0]?.available === true;
+}
+
+// The broker's own addresses turn up on every synced thread and activity, so
+// they would otherwise collapse into one "contact" linked to everything.
+async function loadOwnEmails(db: Queryable, userId: string): Promise<Set<string>> {
+  const { rows } = await db.query(
+    `
+      SELECT email FROM public.users WHERE id = $1
+      UNION
+      SELECT email_address FROM public.email_connections WHERE user_id = $1 AND email_address IS NOT NULL
+    `,
+    [userId],
+  );
+  return new Set(rows.map((row) => normalizeContactEmail(row.email)).filter(Boolean));
+}
+
+async function loadContactSourceRecords(db: Queryable, userId: string): Promise<ContactSourceRecord[]> {
+  const [prospects, opportunities, events, imports, requirements, ownEmails] = await Promise.all([
+    db.query(
+      `
+        SELECT id, contact_name, contact_email, contact_phone, contact_company
+        FROM public.prospects
+        WHERE user_id = $1 AND merged_into_prospect_id IS NULL
+      `,
+      [userId],
+    ),
+    db.query(
+      `
+        SELECT id, contact_name, contact_email, company, prospect_id
+        FROM public.opportunities
+        WHERE user_id = $1
+      `,
+      [userId],
+    ),
+    db.query(
+      `
+        SELECT id, contact_name, email, phone, company, prospect_id, opportunity_id
+        FROM public.activity_events
+        WHERE user_id = $1
+          AND (contact_name IS NOT NULL OR email IS NOT NULL OR phone IS NOT NULL)
+      `,
+      [userId],
+    ),
+    db.query(
+      `
+        SELECT id, contact_name, email, company, prospect_id
+        FROM public.sales_activity_imports
+        WHERE user_id = $1
+      `,
+      [userId],
+    ),
+    db.query(
+      `
+        SELECT id, contact_name, contact_email, contact_phone
+        FROM public.requirements
+        WHERE user_id = $1
+      `,
+      [userId],
+    ),
+    loadOwnEmails(db, userId),
+  ]);
+
+  const records: ContactSourceRecord[] = [
+    ...prospects.rows.map((row) => ({
+      sourceType: 'prospect' as const,
+      sourceId: row.id,
+      name: row.contact_name,
+      email: row.contact_email,
+      phone: row.contact_phone,
+      company: row.contact_company,
+      prospectId: row.id,
+    })),
+    ...opportunities.rows.map((row) => ({
+      sourceType: 'opportunity' as const,
+      sourceId: row.id,
+      name: row.contact_name,
+      email: row.contact_email,
+      company: row.company,
+      prospectId: row.prospect_id,
+      opportunityId: row.id,
+    })),
+    ...events.rows.map((row) => ({
+      sourceType: 'activity_event' as const,
+      sourceId: row.id,
+      name: row.contact_name,
+      email: row.email,
+      phone: row.phone,
+      company: row.company,
+      prospectId: row.prospect_id,
+      opportunityId: row.opportunity_id,
+    })),
+    ...imports.rows.map((row) => ({
+      sourceType: 'sales_activity_import' as const,
+      sourceId: row.id,
+      name: row.contact_name,
+      email: row.email,
+      company: row.company,
+      prospectId: row.prospect_id,
+    })),
+    ...requirements.rows.map((row) => ({
+      sourceType: 'requirement' as const,
+      sourceId: row.id,
+      name: row.contact_name,
+      email: row.contact_email,
+      phone: row.contact_phone,
+    })),
+  ];
+  return records.map((record) => (
+    ownEmails.has(normalizeContactEmail(record.email)) ? { ...record, email: null } : record
+  ));
+}
+
+function contactCandidateKeys(cluster: ContactCluster): string[] {
+  return Array.from(new Set([
+    cluster.key,
+    ...cluster.emails.map((email) => `email:${email}`),
+    ...cluster.nameKeys.map((name) => `name:${name}|${cluster.companyKey || ''}`),
+  ]));
+}
+
+async function upsertBackfilledCompany(
+  db: Queryable,
+  userId: string,
+  company: { key: string; name: string | null; normalizedName: string | null; domain: string | null; domains: string[]; normalizedNames: string[] },
+): Promise<{ id: string; created: boolean }> {
+  const existing = await db.query(
+    `
+      SELECT id FROM public.companies
+      WHERE user_id = $1
+        AND (match_key = $2 OR domain = ANY($3::varchar[]) OR normalized_name = ANY($4::varchar[]))
+      ORDER BY (match_key = $2) DESC, created_at ASC
+      LIMIT 1
+    `,
+    [userId, company.key, company.domains, company.normalizedNames],
+  );
+  if (existing.rows[0]) {
+    await db.query(
+      `
+        UPDATE public.companies
+        SET domain = COALESCE(domain, $3),
+          normalized_name = COALESCE(normalized_name, $4),
+          updated_at = now()
+        WHERE id = $1 AND user_id = $2
+      `,
+      [existing.rows[0].id, userId, company.domain, company.normalizedName],
+    );
+    return { id: existing.rows[0].id, created: false };
+  }
+  const { rows } = await db.query(
+    `
+      INSERT INTO public.companies (user_id, name, normalized_name, domain, match_key, source)
+      VALUES ($1, $2, $3, $4, $5, 'backfill')
+      ON CONFLICT (user_id, match_key) DO UPDATE SET updated_at = now()
+      RETURNING id, (xmax = 0) AS created
+    `,
+    [userId, company.name || company.domain || company.key, company.normalizedName, company.domain, company.key],
+  );
+  return { id: rows[0].id, created: rows[0].created === true };
+}
+
+async function upsertBackfilledContact(
+  db: Queryable,
+  userId: string,
+  contact: ContactCluster,
+  companyId: string | null,
+): Promise<{ id: string; created: boolean }> {
+  const existing = await db.query(
+    `
+      SELECT id FROM public.contacts
+      WHERE user_id = $1
+        AND (match_key = ANY($2::varchar[]) OR lower(email) = ANY($3::varchar[]))
+      ORDER BY (match_key = $4) DESC, created_at ASC
+      LIMIT 1
+    `,
+    [userId, contactCandidateKeys(contact), contact.emails, contact.key],
+  );
+  if (existing.rows[0]) {
+    // Backfill only fills gaps; anything the broker typed on the contact wins.
+    await db.query(
+      `
+        UPDATE public.contacts
+        SET full_name = COALESCE(full_name, $3),
+          email = COALESCE(email, $4),
+          phone = COALESCE(phone, $5),
+          normalized_phone = COALESCE(normalized_phone, $6),
+          company_id = COALESCE(company_id, $7),
+          updated_at = now()
+        WHERE id = $1 AND user_id = $2
+      `,
+      [existing.rows[0].id, userId, contact.fullName, contact.email, contact.phone, contact.normalizedPhone, companyId],
+    );
+    return { id: existing.rows[0].id, created: false };
+  }
+  const { rows } = await db.query(
+    `
+      INSERT INTO public.contacts (user_id, company_id, full_name, email, phone, normalized_phone, match_key, source)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, 'backfill')
+      ON CONFLICT (user_id, match_key) DO UPDATE SET updated_at = now()
+      RETURNING id, (xmax = 0) AS created
+    `,
+    [userId, companyId, contact.fullName, contact.email, contact.phone, contact.normalizedPhone, contact.key],
+  );
+  return { id: rows[0].id, created: rows[0].created === true };
+}
+
+function linkedEntities(
+  sources: ContactSourceRecord[],
+  dossierIdsByProspect: Map<string, string[]>,
+): Array<{ entityType: ContactLinkEntityType; entityId: string }> {
+  const seen = new Set<string>();
+  const links: Array<{ entityType: ContactLinkEntityType; entityId: string }> = [];
+  const add = (entityType: ContactLinkEntityType, entityId: string | null | undefined) => {
+    if (!entityId || seen.has(`${entityType}:${entityId}`)) return;
+    seen.add(`${entityType}:${entityId}`);
+    links.push({ entityType, entityId });
+  };
+  for (const source of sources) {
+    add('prospect', source.prospectId);
+    add('opportunity', source.opportunityId);
+    for (const dossierId of dossierIdsByProspect.get(source.prospectId || '') || []) add('dossier', dossierId);
+  }
+  return links;
+}
+
+async function insertBackfillLinks(
+  db: Queryable,
+  params: { table: 'contact_entity_links' | 'company_entity_links'; ownerColumn: 'contact_id' | 'company_id'; userId: string; ownerId: string },
+  links: Array<{ entityType: ContactLinkEntityType; entityId: string }>,
+): Promise<number> {
+  if (links.length === 0) return 0;
+  const { rowCount } = await db.query(
+    `
+      INSERT INTO public.${params.table} (user_id, ${params.ownerColumn}, entity_type, entity_id, source)
+      SELECT $1, $2, link.entity_type, link.entity_id, 'backfill'
+      FROM unnest($3::varchar[], $4::varchar[]) AS link(entity_type, entity_id)
+      ON CONFLICT (${params.ownerColumn}, entity_type, entity_id) DO NOTHING
+    `,
+    [params.userId, params.ownerId, links.map((link) => link.entityType), links.map((link) => link.entityId)],
+  );
+  return rowCount || 0;
+}
+
+/**
+ * Clusters the contact strings scattered across prospects, opportunities,
+ * activity and requirements into contacts and companies, then links each one
+ * to the prospects, opportunities and dossiers it came from. Safe to re-run:
+ * rows are found again by match key, email or company domain, and only empty
+ * fields are filled in.
+ */
+export async function backfillContactDirectory(params: { pool: Pool; userId: string }): Promise<ContactBackfillResult> {
+  const records = await loadContactSourceRecords(params.pool, params.userId);
+  const { companies, contacts } = clusterContactRecords(records);
+  const prospectIds = Array.from(new Set(records.map((record) => record.prospectId).filter(Boolean))) as string[];
+
+  return withTransaction(params.pool, async (client) => {
+    const dossierIdsByProspect = new Map<string, string[]>();
+    if (prospectIds.length > 0 && await intelDossiersAvailable(client)) {
+      const { rows } = await client.query(
+        `
+          SELECT id, prospect_id FROM public.intel_property_dossiers
+          WHERE created_by_user_id = $1 AND prospect_id = ANY($2::varchar[])
+        `,
+        [params.userId, prospectIds],
+      );
+      for (const row of rows) {
+        dossierIdsByProspect.set(row.prospect_id, (dossierIdsByProspect.get(row.prospect_id) || []).concat(row.id));
+      }
+    }
+
+    const result: ContactBackfillResult = {
+      sourcesScanned: records.length,
+      companiesCreated: 0,
+      companiesUpdated: 0,
+      contactsCreated: 0,
+      contactsUpdated: 0,
+      linksCreated: 0,
+    };
+    const companyIds = new Map<string, string>();
+    for (const company of companies) {
+      const saved = await upsertBackfilledCompany(client, params.userId, company);
+      companyIds.set(company.key, saved.id);
+      if (saved.created) result.companiesCreated += 1;
+      else result.companiesUpdated += 1;
+      result.linksCreated += await insertBackfillLinks(
+        client,
+        { table: 'company_entity_links', ownerColumn: 'company_id', userId: params.userId, ownerId: saved.id },
+        linkedEntities(company.sources, dossierIdsByProspect),
+      );
+    }
+    for (const contact of contacts) {
+      const companyId = contact.companyKey ? companyIds.get(contact.companyKey) || null : null;
+      const saved = await upsertBackfilledContact(client, params.userId, contact, companyId);
+      if (saved.created) result.contactsCreated += 1;
+      else result.contactsUpdated += 1;
+      result.linksCreated += await insertBackfillLinks(
+        client,
+        { table: 'contact_entity_links', ownerColumn: 'contact_id', userId: params.userId, ownerId: saved.id },
+        linkedEntities(contact.sources, dossierIdsByProspect),
+      );
+    }
+    return result;
+  });
+}
+
+export async function listContacts(params: { pool: Pool; userId: string; query: ContactListQuery }): Promise<DirectoryContact[]> {
+  const search = params.query.q ? `%${params.query.q.toLowerCase()}%` : null;
+  const digits = (params.query.q || '').replace(/\D/g, '');
+  const { rows } = await params.pool.query(
+    `
+      SELECT ${CONTACT_COLUMNS}
+      FROM public.contacts contact
+      LEFT JOIN public.companies company ON company.id = contact.company_id
+      WHERE contact.user_id = $1
+        AND ($2::varchar IS NULL OR contact.company_id = $2)
+        AND (
+          $3::text IS NULL
+          OR lower(coalesce(contact.full_name, '')) LIKE $3
+          OR lower(coalesce(contact.email, '')) LIKE $3
+          OR lower(coalesce(company.name, '')) LIKE $3
+          OR ($5::text IS NOT NULL AND contact.normalized_phone LIKE $5)
+        )
+      ORDER BY lower(coalesce(contact.full_name, contact.email, contact.phone)) ASC
+      LIMIT $4
+    `,
+    [params.userId, params.query.companyId || null, search, params.query.limit, digits.length >= 3 ? `%${digits}%` : null],
+  );
+  return rows.map(contactFromRow);
+}
+
+async function requireContact(db: Queryable, userId: string, contactId: string): Promise<DirectoryContact> {
+  const { rows } = await db.query(
+    `
+      SELECT ${CONTACT_COLUMNS}
+      FROM public.contacts contact
+      LEFT JOIN public.companies company ON company.id = contact.company_id
+      WHERE contact.id = $1 AND contact.user_id = $2
+      LIMIT 1
+    `,
+    [contactId, userId],
+  );
+  if (!rows[0]) throw new ContactDirectoryError(404, 'Contact not found');
+  return contactFromRow(rows[0]);
+}
+
+async function loadCompany(db: Queryable, userId: string, companyId: string): Promise<DirectoryCompany | null> {
+  const { rows } = await db.query(
+    `
+      SELECT company.*,
+        (SELECT count(*)::int FROM public.contacts contact WHERE contact.company_id = company.id) AS contact_count
+      FROM public.companies company
+      WHERE company.id = $1 AND company.user_id = $2
+      LIMIT 1
+    `,
+    [companyId, userId],
+  );
+  return rows[0] ? companyFromRow(rows[0]) : null;
+}
+
+async function loadLinks(
+  db: Queryable,
+  params: { table: 'contact_entity_links' | 'company_entity_links'; ownerColumn: 'contact_id' | 'company_id'; ownerId: string },
+): Promise<ContactLink[]> {
+  const dossierJoin = await intelDossiersAvailable(db)
+    ? `LEFT JOIN public.intel_property_dossiers dossier ON link.entity_type = 'dossier' AND dossier.id = link.entity_id`
+    : `LEFT JOIN (SELECT NULL::varchar AS id, NULL::varchar AS title, NULL::text AS address) dossier ON false`;
+  const { rows } = await db.query(
+    `
+      SELECT link.id, link.entity_type, link.entity_id, link.source,
+        COALESCE(prospect.name, opportunity.title, dossier.title) AS label,
+        COALESCE(prospect.address, opportunity.property_address, dossier.address) AS detail
+      FROM public.${params.table} link
+      LEFT JOIN public.prospects prospect ON link.entity_type = 'prospect' AND prospect.id = link.entity_id
+      LEFT JOIN public.opportunities opportunity ON link.entity_type = 'opportunity' AND opportunity.id = link.entity_id
+      ${dossierJoin}
+      WHERE link.${params.ownerColumn} = $1
+      ORDER BY link.entity_type ASC, link.created_at DESC
+    `,
+    [params.ownerId],
+  );
+  return rows.map(linkFromRow);
+}
+
+export async function getContactDetail(params: { pool: Pool; userId: string; contactId: string }): Promise<ContactDetail> {
+  const contact = await requireContact(params.pool, params.userId, params.contactId);
+  const links = await loadLinks(params.pool, { table: 'contact_entity_links', ownerColumn: 'contact_id', ownerId: contact.id });
+  const prospectIds = links.filter((link) => link.entityType === 'prospect').map((link) => link.entityId);
+  const email = normalizeContactEmail(contact.email);
+
+  const [company, colleagues, emails, interactions, events] = await Promise.all([
+    contact.companyId ? loadCompany(params.pool, params.userId, contact.companyId) : Promise.resolve(null),
+    contact.companyId
+      ? params.pool.query(
+        `
+          SELECT ${CONTACT_COLUMNS}
+          FROM public.contacts contact
+          LEFT JOIN public.companies company ON company.id = contact.company_id
+          WHERE contact.user_id = $1 AND contact.company_id = $2 AND contact.id <> $3
+          ORDER BY lower(coalesce(contact.full_name, contact.email, contact.phone)) ASC
+          LIMIT 50
+        `,
+        [params.userId, contact.companyId, contact.id],
+      )
+      : Promise.resolve({ rows: [] as Record<string, any>[] }),
+    email
+      ? params.pool.query(
+        `
+          SELECT id, direction, subject, sender_email, snippet, source_url, COALESCE(sent_at, received_at) AS at
+          FROM public.email_messages
+          WHERE user_id = $1
+            AND (lower(sender_email) = $2 OR $2 = ANY(recipient_emails) OR $2 = ANY(cc_emails))
+          ORDER BY COALESCE(sent_at, received_at) DESC NULLS LAST
+          LIMIT $3
+        `,
+        [params.userId, email, DETAIL_EMAIL_LIMIT],
+      )
+      : Promise.resolve({ rows: [] as Record<string, any>[] }),
+    prospectIds.length > 0
+      ? params.pool.query(
+        `
+          SELECT id, type, outcome, notes, prospect_id, date
+          FROM public.contact_interactions
+          WHERE user_id = $1 AND prospect_id = ANY($2::varchar[])
+          ORDER BY date DESC
+          LIMIT $3
+        `,
+        [params.userId, prospectIds, DETAIL_INTERACTION_LIMIT],
+      )
+      : Promise.resolve({ rows: [] as Record<string, any>[] }),
+    // Interactions already logged from an event are shown once, as the interaction.
+    email || contact.phone
+      ? params.pool.query(
+        `
+          SELECT id, event_type, summary, subject, prospect_id, occurred_at
+          FROM public.activity_events
+          WHERE user_id = $1
+            AND interaction_id IS NULL
+            AND (($2::varchar IS NOT NULL AND lower(email) = $2)
+              OR ($3::varchar IS NOT NULL AND regexp_replace(coalesce(phone, ''), '[^0-9]', '', 'g') = $3))
+          ORDER BY occurred_at DESC
+          LIMIT $4
+        `,
+        [params.userId, email || null, normalizeContactPhone(contact.phone) || null, DETAIL_INTERACTION_LIMIT],
+      )
+      : Promise.resolve({ rows: [] as Record<string, any>[] }),
+  ]);
+
+  const timeline: ContactInteraction[] = [
+    ...interactions.rows.map((row) => ({
+      id: row.id,
+      kind: 'interaction' as const,
+      type: row.type,
+      outcome: row.outcome ?? null,
+      summary: row.notes || null,
+      prospectId: row.prospect_id ?? null,
+      at: isoOrNull(row.date),
+    })),
+    ...events.rows.map((row) => ({
+      id: row.id,
+      kind: 'activity' as const,
+      type: row.event_type,
+      outcome: null,
+      summary: row.summary || row.subject || null,
+      prospectId: row.prospect_id ?? null,
+      at: isoOrNull(row.occurred_at),
+    })),
+  ].sort((left, right) => String(right.at || '').localeCompare(String(left.at || '')));
+
+  return {
+    ...contact,
+    company,
+    colleagues: colleagues.rows.map(contactFromRow),
+    links,
+    emails: emails.rows.map((row) => ({
+      id: row.id,
+      direction: row.direction,
+      subject: row.subject ?? null,
+      senderEmail: row.sender_email ?? null,
+      snippet: row.snippet ?? null,
+      sourceUrl: row.source_url ?? null,
+      at: isoOrNull(row.at),
+    })),
+    interactions: timeline.slice(0, DETAIL_INTERACTION_LIMIT),
+  };
+}
+
+export async function getCompanyDetail(params: { pool: Pool; userId: string; companyId: string }): Promise<CompanyDetail> {
+  const company = await loadCompany(params.pool, params.userId, params.companyId);
+  if (!company) throw new ContactDirectoryError(404, 'Company not found');
+  const [contacts, links] = await Promise.all([
+    listContacts({ pool: params.pool, userId: params.userId, query: { companyId: company.id, limit: 500 } }),
+    loadLinks(params.pool, { table: 'company_entity_links', ownerColumn: 'company_id', ownerId: company.id }),
+  ]);
+  return { ...company, contacts, links };
+}
+
+async function resolveCompanyId(
+  db: Queryable,
+  userId: string,
+  input: Pick<ContactUpdateInput, 'companyId' | 'companyName'>,
+): Promise<string | null | undefined> {
+  if (input.companyId) {
+    const company = await loadCompany(db, userId, input.companyId);
+    if (!company) throw new ContactDirectoryError(400, 'Referenced company was not found');
+    return company.id;
+  }
+  if (input.companyName) {
+    const normalizedName = normalizeCompanyName(input.companyName);
+    if (!normalizedName) return null;
+    const { rows } = await db.query(
+      `
+        INSERT INTO public.companies (user_id, name, normalized_name, match_key)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (user_id, match_key) DO UPDATE SET updated_at = now()
+        RETURNING id
+      `,
+      [userId, input.companyName, normalizedName, `name:${normalizedName}`],
+    );
+    return rows[0].id;
+  }
+  return input.companyId === null ? null : undefined;
+}
+
+// Hand-entered contacts without an email get a key of their own; the backfill
+// still finds them again by email or name once those are filled in.
+function manualContactKey(input: { email?: string | null }): string {
+  const email = normalizeContactEmail(input.email);
+  if (email) return `email:${email}`;
+  return `manual:${Date.now().toString(36)}:${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export async function createContact(params: { pool: Pool; userId: string; input: ContactCreateInput }): Promise<DirectoryContact> {
+  const companyId = await resolveCompanyId(params.pool, params.userId, params.input);
+  const { rows } = await params.pool.query(
+    `
+      INSERT INTO public.contacts (user_id, company_id, full_name, email, phone, normalized_phone, title, notes, match_key)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      ON CONFLICT (user_id, match_key) DO NOTHING
+      RETURNING id
+    `,
+    [
+      params.userId,
+      companyId ?? null,
+      params.input.fullName,
+      params.input.email,
+      params.input.phone,
+      normalizeContactPhone(params.input.phone) || null,
+      params.input.title,
+      params.input.notes,
+      manualContactKey(params.input),
+    ],
+  );
+  if (!rows[0]) throw new ContactDirectoryError(409, 'A contact with this email already exists');
+  return requireContact(params.pool, params.userId, rows[0].id);
+}
+
+const CONTACT_UPDATE_COLUMNS: Record<'fullName' | 'email' | 'phone' | 'title' | 'notes', string> = {
+  fullName: 'full_name',
+  email: 'email',
+  phone: 'phone',
+  title: 'title',
+  notes: 'notes',
+};
+
+export async function updateContact(params: {
+  pool: Pool;
+  userId: string;
+  contactId: string;
+  input: ContactUpdateInput;
+}): Promise<DirectoryContact> {
+  await requireContact(params.pool, params.userId, params.contactId);
+  const assignments: string[] = [];
+  const values: unknown[] = [params.contactId, params.userId];
+  const assign = (column: string, value: unknown) => {
+    values.push(value);
+    assignments.push(`${column} = $${values.length}`);
+  };
+  for (const [field, column] of Object.entries(CONTACT_UPDATE_COLUMNS) as Array<[keyof typeof CONTACT_UPDATE_COLUMNS, string]>) {
+    if (params.input[field] !== undefined) assign(column, params.input[field]);
+  }
+  if (params.input.phone !== undefined) assign('normalized_phone', normalizeContactPhone(params.input.phone) || null);
+  const companyId = await resolveCompanyId(params.pool, params.userId, params.input);
+  if (companyId !== undefined) assign('company_id', companyId);
+  if (assignments.length > 0) {
+    await params.pool.query(
+      `UPDATE public.contacts SET ${assignments.join(', ')}, updated_at = now() WHERE id = $1 AND user_id = $2`,
+      values,
+    );
+  }
+  return requireContact(params.pool, params.userId, params.contactId);
+}
+
+async function assertLinkTarget(db: Queryable, userId: string, input: ContactLinkInput): Promise<void> {
+  if (input.entityType === 'prospect') {
+    await requireActiveOwnedProspect({ db, userId, prospectId: input.entityId });
+    return;
+  }
+  if (input.entityType === 'opportunity') {
+    const { rows } = await db.query(
+      `SELECT id FROM public.opportunities WHERE id = $1 AND user_id = $2 LIMIT 1`,
+      [input.entityId, userId],
+    );
+    if (!rows[0]) throw new ContactDirectoryError(400, 'Referenced opportunity was not found');
+    return;
+  }
+  const found = await intelDossiersAvailable(db) && (await db.query(
+    `SELECT id FROM public.intel_property_dossiers WHERE id = $1 AND created_by_user_id = $2 LIMIT 1`,
+    [input.entityId, userId],
+  )).rows[0];
+  if (!found) throw new ContactDirectoryError(400, 'Referenced dossier was not found');
+}
+
+export async function linkContact(params: {
+  pool: Pool;
+  userId: string;
+  contactId: string;
+  input: ContactLinkInput;
+}): Promise<ContactLink[]> {
+  await requireContact(params.pool, params.userId, params.contactId);
+  await assertLinkTarget(params.pool, params.userId, params.input);
+  await params.pool.query(
+    `
+      INSERT INTO public.contact_entity_links (user_id, contact_id, entity_type, entity_id, source)
+      VALUES ($1, $2, $3, $4, 'manual')
+      ON CONFLICT (contact_id, entity_type, entity_id) DO NOTHING
+    `,
+    [params.userId, params.contactId, params.input.entityType, params.input.entityId],
+  );
+  return loadLinks(params.pool, { table: 'contact_entity_links', ownerColumn: 'contact_id', ownerId: params.contactId });
+}
+
+export async function unlinkContact(params: { pool: Pool; userId: string; contactId: string; linkId: string }): Promise<void> {
+  const { rowCount } = await params.pool.query(
+    `DELETE FROM public.contact_entity_links WHERE id = $1 AND contact_id = $2 AND user_id = $3`,
+    [params.linkId, params.contactId, params.userId],
+  );
+  if (!rowCount) throw new ContactDirectoryError(404, 'Contact link not found');
+}
@@ -0,0 +1,95 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  DealCreateSchema,
+  DealImportSchema,
+  DealServiceError,
+  createDeal,
+  getTrackRecordSummary,
+  importDeals,
+} from './dealService';
+
+function queryPool(handler: (sql: string, params?: unknown[]) => Promise<any>) {
+  return { query: handler } as any;
+}
+
+test('track record summary counts renewals as leased SF and awards the earned badge', async () => {
+  const pool = queryPool(async () => ({
+    rows: [
+      { deal_type: 'lease', size_sf: '60000.00' },
+      { deal_type: 'renewal', size_sf: '45000.00' },
+      { deal_type: 'sale', size_sf: null },
+      { deal_type: 'unknown', size_sf: '5000' },
+    ],
+  }));
+
+  const { metrics, productionBadge } = await getTrackRecordSummary({ pool, userId: 'user-1' });
+
+  assert.equal(metrics.totalDeals, 4);
+  assert.equal(metrics.totalSf, 110000);
+  assert.equal(metrics.leasedSf, 105000);
+  assert.equal(metrics.saleDeals, 1);
+  assert.equal(metrics.reviewDeals, 1);
+  assert.equal(productionBadge.label, '100K SF Club');
+  assert.equal(productionBadge.nextTargetSf, 500000);
+});
+
+test('browser imports skip deals already recorded by source id or title, address and close date', async () => {
+  const inserted: unknown[][] = [];
+  const pool = queryPool(async (sql, params = []) => {
+    if (sql.includes('SELECT source_id')) {
+      return {
+        rows: [
+          { source_id: 'local-1', title: 'Old', address: 'Somewhere', closed_date: null },
+          { source_id: null, title: 'Nisku Sale', address: '703 23 Ave', closed_date: '2025-04-01' },
+        ],
+      };
+    }
+    if (sql.includes('INSERT INTO public.deals')) {
+      inserted.push(params);
+      return { rows: [{ id: `deal-${inserted.length}`, user_id: 'user-1', source: params[1], title: params[3], address: params[4], size_sf: params[9], image_urls: [] }] };
+    }
+    return { rows: [] };
+  });
+
+  const result = await importDeals({
+    pool,
+    userId: 'user-1',
+    input: DealImportSchema.parse({
+      source: 'browser_import',
+      deals: [
+        { sourceId: 'local-1', title: 'Old', address: 'Somewhere' },
+        { title: 'nisku sale', address: '703 23 AVE', closedDate: '2025-04-01' },
+        { sourceId: 'local-2', title: 'Acheson Lease', address: '26 Acheson Rd', dealType: 'lease', sizeSf: 24000 },
+        { sourceId: 'local-2', title: 'Acheson Lease', address: '26 Acheson Rd', dealType: 'lease', sizeSf: 24000 },
+      ],
+    }),
+  });
+
+  assert.equal(result.skipped, 3);
+  assert.equal(result.imported.length, 1);
+  assert.equal(result.imported[0].sizeSf, 24000);
+  assert.equal(inserted[0][1], 'browser_import');
+});
+
+test('deals cannot link another broker\'s opportunity', async () => {
+  const pool = queryPool(async (sql) => {
+    if (sql.includes('INSERT INTO public.deals')) throw new Error('should not insert');
+    return { rows: [] };
+  });
+
+  await assert.rejects(
+    createDeal({
+      pool,
+      userId: 'user-1',
+      input: DealCreateSchema.parse({ title: 'Linked', address: '1 Main St', opportunityId: 'opportunity-9' }),
+    }),
+    (error: unknown) => error instanceof DealServiceError && error.status === 400,
+  );
+});
+
+test('deal dates must be calendar days', () => {
+  assert.equal(DealCreateSchema.safeParse({ title: 'A', address: 'B', closedDate: '2025-13-45' }).success, false);
+  assert.equal(DealCreateSchema.parse({ title: 'A', address: 'B', closedDate: '2025-03-04T00:00:00Z' }).closedDate, '2025-03-04');
+});
@@ -0,0 +1,424 @@
+import type { Pool, PoolClient } from 'pg';
+import { z } from 'zod';
+
+import { requireActiveOwnedProspect } from './prospectReferenceService';
+import {
+  calculateTrackRecordMetrics,
+  getLifetimeProductionBadge,
+  type ProductionBadge,
+  type TrackRecordMetrics,
+} from './trackRecordMetrics';
+
+type Queryable = Pick<Pool | PoolClient, 'query'>;
+
+export const DEAL_TYPES = ['lease', 'sale', 'renewal', 'unknown'] as const;
+export const DEAL_ROLES = ['tenant_rep', 'landlord_rep', 'buyer_rep', 'seller_rep', 'advisor'] as const;
+export const DEAL_ASSET_TYPES = ['Industrial', 'Office', 'Retail', 'Land', 'Other'] as const;
+
+const MAX_DEAL_IMAGES = 8;
+// Photos are stored inline as downscaled data URLs, so cap each one well under
+// the JSON body limit.
+const MAX_DEAL_IMAGE_LENGTH = 300_000;
+
+const OptionalText = (max: number) => z.string().trim().max(max).nullable().optional()
+  .transform((value) => value || null);
+
+const OptionalDay = z.string().trim().nullable().optional().transform((value, context) => {
+  if (!value) return null;
+  const day = value.slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day) || Number.isNaN(new Date(`${day}T00:00:00Z`).getTime())) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: 'Expected a YYYY-MM-DD date' });
+    return z.NEVER;
+  }
+  return day;
+});
+
+const OptionalAmount = z.number().nonnegative().max(1_000_000_000_000).nullable().optional()
+  .transform((value) => value ?? null);
+
+const OptionalReference = z.string().trim().min(1).nullable().optional().transform((value) => value || null);
+
+const DealFieldsSchema = z.object({
+  sourceId: OptionalText(200),
+  title: z.string().trim().min(1).max(300),
+  address: z.string().trim().min(1).max(1000),
+  clientName: OptionalText(240),
+  dealType: z.enum(DEAL_TYPES).default('unknown'),
+  role: z.enum(DEAL_ROLES).default('advisor'),
+  assetType: z.enum(DEAL_ASSET_TYPES).default('Industrial'),
+  sizeSf: OptionalAmount,
+  acres: OptionalAmount,
+  submarket: OptionalText(240),
+  closedDate: OptionalDay,
+  leaseExpiryDate: OptionalDay,
+  renewalNoticeDate: OptionalDay,
+  dealValue: OptionalText(120),
+  summary: OptionalText(5000),
+  imageUrls: z.array(z.string().min(1).max(MAX_DEAL_IMAGE_LENGTH)).max(MAX_DEAL_IMAGES).default([]),
+  isFeatured: z.boolean().default(true),
+  isShared: z.boolean().default(false),
+  prospectId: OptionalReference,
+  opportunityId: OptionalReference,
+  intelDossierId: OptionalReference,
+});
+
+export const DealCreateSchema = DealFieldsSchema;
+export const DealUpdateSchema = DealFieldsSchema.partial();
+
+export const DealImportSchema = z.object({
+  source: z.enum(['spreadsheet', 'browser_import']),
+  deals: z.array(DealFieldsSchema.omit({ prospectId: true, opportunityId: true, intelDossierId: true })).min(1).max(500),
+});
+
+export const DealListQuerySchema = z.object({
+  scope: z.enum(['mine', 'team']).optional().default('mine'),
+});
+
+export type DealCreateInput = z.infer<typeof DealCreateSchema>;
+export type DealUpdateInput = z.infer<typeof DealUpdateSchema>;
+export type DealImportInput = z.infer<typeof DealImportSchema>;
+
+export type TrackRecordDeal = {
+  id: string;
+  userId: string;
+  ownerName: string | null;
+  source: string;
+  sourceId: string | null;
+  title: string;
+  address: string;
+  clientName: string | null;
+  dealType: typeof DEAL_TYPES[number];
+  role: typeof DEAL_ROLES[number];
+  assetType: typeof DEAL_ASSET_TYPES[number];
+  sizeSf: number | null;
+  acres: number | null;
+  submarket: string | null;
+  closedDate: string | null;
+  leaseExpiryDate: string | null;
+  renewalNoticeDate: string | null;
+  dealValue: string | null;
+  summary: string | null;
+  imageUrls: string[];
+  isFeatured: boolean;
+  isShared: boolean;
+  prospectId: string | null;
+  opportunityId: string | null;
+  intelDossierId: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+};
+
+export type TrackRecordSummary = {
+  metrics: TrackRecordMetrics;
+  productionBadge: ProductionBadge;
+};
+
+export class DealServiceError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'DealServiceError';
+    this.status = status;
+  }
+}
+
+// `date` columns are read as text so a closed date never shifts a day with the
+// server time zone.
+const DEAL_COLUMNS = `
+  deal.id, deal.user_id, deal.source, deal.source_id, deal.title, deal.address,
+  deal.client_name, deal.deal_type, deal.role, deal.asset_type, deal.size_sf,
+  deal.acres, deal.submarket,
+  to_char(deal.closed_date, 'YYYY-MM-DD') AS closed_date,
+  to_char(deal.lease_expiry_date, 'YYYY-MM-DD') AS lease_expiry_date,
+  to_char(deal.renewal_notice_date, 'YYYY-MM-DD') AS renewal_notice_date,
+  deal.deal_value, deal.summary, deal.image_urls, deal.is_featured, deal.is_shared,
+  deal.prospect_id, deal.opportunity_id, deal.intel_dossier_id, deal.created_at, deal.updated_at
+`;
+
+function numberOrNull(value: unknown): number | null {
+  if (value == null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function isoOrNull(value: unknown): string | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+export function dealFromRow(row: Record<string, any>): TrackRecordDeal {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    ownerName: row.owner_name ?? null,
+    source: row.source,
+    sourceId: row.source_id ?? null,
+    title: row.title,
+    address: row.address,
+    clientName: row.client_name ?? null,
+    dealType: row.deal_type,
+    role: row.role,
+    assetType: row.asset_type,
+    sizeSf: numberOrNull(row.size_sf),
+    acres: numberOrNull(row.acres),
+    submarket: row.submarket ?? null,
+    closedDate: row.closed_date ?? null,
+    leaseExpiryDate: row.lease_expiry_date ?? null,
+    renewalNoticeDate: row.renewal_notice_date ?? null,
+    dealValue: row.deal_value ?? null,
+    summary: row.summary ?? null,
+    imageUrls: Array.isArray(row.image_urls) ? row.image_urls : [],
+    isFeatured: row.is_featured !== false,
+    isShared: row.is_shared === true,
+    prospectId: row.prospect_id ?? null,
+    opportunityId: row.opportunity_id ?? null,
+    intelDossierId: row.intel_dossier_id ?? null,
+    createdAt: isoOrNull(row.created_at),
+    updatedAt: isoOrNull(row.updated_at),
+  };
+}
+
+function dealDedupeKey(deal: { sourceId?: string | null; title: string; address: string; closedDate?: string | null }) {
+  return deal.sourceId || `${deal.title}|${deal.address}|${deal.closedDate || ''}`.toLowerCase();
+}
+
+async function assertDealReferences(
+  db: Queryable,
+  userId: string,
+  input: Pick<DealUpdateInput, 'prospectId' | 'opportunityId' | 'intelDossierId'>,
+): Promise<void> {
+  if (input.prospectId) {
+    await requireActiveOwnedProspect({ db, userId, prospectId: input.prospectId });
+  }
+  if (input.opportunityId) {
+    const { rows } = await db.query(
+      `SELECT id FROM public.opportunities WHERE id = $1 AND user_id = $2 LIMIT 1`,
+      [input.opportunityId, userId],
+    );
+    if (!rows[0]) throw new DealServiceError(400, 'Referenced opportunity was not found');
+  }
+  if (input.intelDossierId) {
+    const { rows } = await db.query(
+      `SELECT id FROM public.intel_property_dossiers WHERE id = $1 AND created_by_user_id = $2 LIMIT 1`,
+      [input.intelDossierId, userId],
+    );
+    if (!rows[0]) throw new DealServiceError(400, 'Referenced property dossier was not found');
+  }
+}
+
+async function insertDeal(
+  db: Queryable,
+  userId: string,
+  source: string,
+  input: DealCreateInput | DealImportInput['deals'][number],
+): Promise<Record<string, any>> {
+  const links = input as Partial<DealCreateInput>;
+  const { rows } = await db.query(
+    `
+      WITH inserted AS (
+        INSERT INTO public.deals (
+          user_id, source, source_id, title, address, client_name, deal_type, role,
+          asset_type, size_sf, acres, submarket, closed_date, lease_expiry_date,
+          renewal_notice_date, deal_value, summary, image_urls, is_featured, is_shared,
+          prospect_id, opportunity_id, intel_dossier_id
+        )
+        VALUES (
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17,
+          $18::jsonb, $19, $20, $21, $22, $23
+        )
+        RETURNING *
+      )
+      SELECT ${DEAL_COLUMNS} FROM inserted deal
+    `,
+    [
+      userId,
+      source,
+      input.sourceId,
+      input.title,
+      input.address,
+      input.clientName,
+      input.dealType,
+      input.role,
+      input.assetType,
+      input.sizeSf,
+      input.acres,
+      input.submarket,
+      input.closedDate,
+      input.leaseExpiryDate,
+      input.renewalNoticeDate,
+      input.dealValue,
+      input.summary,
+      JSON.stringify(input.imageUrls),
+      input.isFeatured,
+      input.isShared,
+      links.prospectId ?? null,
+      links.opportunityId ?? null,
+      links.intelDossierId ?? null,
+    ],
+  );
+  return rows[0];
+}
+
+export async function listDeals(params: {
+  pool: Pool;
+  userId: string;
+  scope: 'mine' | 'team';
+}): Promise<TrackRecordDeal[]> {
+  if (params.scope === 'team') {
+    // Teammates are brokers whose profile names the same company.
+    const { rows } = await params.pool.query(
+      `
+        SELECT ${DEAL_COLUMNS},
+          COALESCE(NULLIF(owner.name, ''), NULLIF(TRIM(CONCAT(owner.first_name, ' ', owner.last_name)), ''), owner.email) AS owner_name
+        FROM public.deals deal
+        JOIN public.profiles owner ON owner.id = deal.user_id
+        JOIN public.profiles viewer ON viewer.id = $1
+        WHERE deal.is_shared = true
+          AND deal.user_id <> $1
+          AND NULLIF(TRIM(viewer.company), '') IS NOT NULL
+          AND LOWER(TRIM(owner.company)) = LOWER(TRIM(viewer.company))
+        ORDER BY deal.closed_date DESC NULLS LAST, deal.created_at DESC
+        LIMIT 500
+      `,
+      [params.userId],
+    );
+    return rows.map(dealFromRow);
+  }
+
+  const { rows } = await params.pool.query(
+    `
+      SELECT ${DEAL_COLUMNS}
+      FROM public.deals deal
+      WHERE deal.user_id = $1
+      ORDER BY deal.is_featured DESC, deal.closed_date DESC NULLS LAST, deal.created_at DESC
+    `,
+    [params.userId],
+  );
+  return rows.map(dealFromRow);
+}
+
+export async function getTrackRecordSummary(params: { pool: Pool; userId: string }): Promise<TrackRecordSummary> {
+  const { rows } = await params.pool.query(
+    `SELECT deal_type, size_sf FROM public.deals WHERE user_id = $1`,
+    [params.userId],
+  );
+  const metrics = calculateTrackRecordMetrics(rows.map((row) => ({
+    dealType: row.deal_type,
+    sizeSf: numberOrNull(row.size_sf),
+  })));
+  return { metrics, productionBadge: getLifetimeProductionBadge(metrics) };
+}
+
+export async function createDeal(params: {
+  pool: Pool;
+  userId: string;
+  input: DealCreateInput;
+}): Promise<TrackRecordDeal> {
+  await assertDealReferences(params.pool, params.userId, params.input);
+  return dealFromRow(await insertDeal(params.pool, params.userId, 'manual', params.input));
+}
+
+const UPDATABLE_DEAL_COLUMNS: Record<Exclude<keyof DealUpdateInput, 'imageUrls'>, string> = {
+  sourceId: 'source_id',
+  title: 'title',
+  address: 'address',
+  clientName: 'client_name',
+  dealType: 'deal_type',
+  role: 'role',
+  assetType: 'asset_type',
+  sizeSf: 'size_sf',
+  acres: 'acres',
+  submarket: 'submarket',
+  closedDate: 'closed_date',
+  leaseExpiryDate: 'lease_expiry_date',
+  renewalNoticeDate: 'renewal_notice_date',
+  dealValue: 'deal_value',
+  summary: 'summary',
+  isFeatured: 'is_featured',
+  isShared: 'is_shared',
+  prospectId: 'prospect_id',
+  opportunityId: 'opportunity_id',
+  intelDossierId: 'intel_dossier_id',
+};
+
+export async function updateDeal(params: {
+  pool: Pool;
+  userId: string;
+  dealId: string;
+  input: DealUpdateInput;
+}): Promise<TrackRecordDeal> {
+  await assertDealReferences(params.pool, params.userId, params.input);
+
+  const values: unknown[] = [params.dealId, params.userId];
+  const assignments: string[] = [];
+  for (const [key, column] of Object.entries(UPDATABLE_DEAL_COLUMNS)) {
+    const value = params.input[key as keyof typeof UPDATABLE_DEAL_COLUMNS];
+    if (value === undefined) continue;
+    values.push(value);
+    assignments.push(`${column} = $${values.length}`);
+  }
+  if (params.input.imageUrls !== undefined) {
+    values.push(JSON.stringify(params.input.imageUrls));
+    assignments.push(`image_urls = $${values.length}::jsonb`);
+  }
+
+  const { rows } = await params.pool.query(
+    `
+      WITH updated AS (
+        UPDATE public.deals
+        SET ${[...assignments, 'updated_at = now()'].join(', ')}
+        WHERE id = $1 AND user_id = $2
+        RETURNING *
+      )
+      SELECT ${DEAL_COLUMNS} FROM updated deal
+    `,
+    values,
+  );
+  if (!rows[0]) throw new DealServiceError(404, 'Deal not found');
+  return dealFromRow(rows[0]);
+}
+
+export async function deleteDeal(params: { pool: Pool; userId: string; dealId: string }): Promise<void> {
+  const { rowCount } = await params.pool.query(
+    `DELETE FROM public.deals WHERE id = $1 AND user_id = $2`,
+    [params.dealId, params.userId],
+  );
+  if (!rowCount) throw new DealServiceError(404, 'Deal not found');
+}
+
+/**
+ * Adds spreadsheet rows or the deals a broker kept in browser storage, skipping
+ * anything already recorded under the same source id or title, address and
+ * close date so a retried import does not double count production.
+ */
+export async function importDeals(params: {
+  pool: Pool;
+  userId: string;
+  input: DealImportInput;
+}): Promise<{ imported: TrackRecordDeal[]; skipped: number }> {
+  const existing = await params.pool.query(
+    `SELECT source_id, title, address, to_char(closed_date, 'YYYY-MM-DD') AS closed_date FROM public.deals WHERE user_id = $1`,
+    [params.userId],
+  );
+  const seen = new Set(existing.rows.map((row) => dealDedupeKey({
+    sourceId: row.source_id,
+    title: row.title,
+    address: row.address,
+    closedDate: row.closed_date,
+  })));
+
+  const imported: TrackRecordDeal[] = [];
+  let skipped = 0;
+  for (const deal of params.input.deals) {
+    const key = dealDedupeKey(deal);
+    if (seen.has(key)) {
+      skipped += 1;
+      continue;
+    }
+    seen.add(key);
+    imported.push(dealFromRow(await insertDeal(params.pool, params.userId, params.input.source, deal)));
+  }
+  return { imported, skipped };
+}
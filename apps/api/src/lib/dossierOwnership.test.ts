@@ -0,0 +1,118 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import type { MarketMemoryLegalIdentity } from '@level-cre/shared'
+
+import {
+  buildOwnershipHistory,
+  classifyOwnerEntity,
+  normalizeOwnerName,
+  ownershipDate,
+  ownershipDraftFromTitleEvent,
+  ownershipDraftsFromLegalIdentities,
+  type OwnershipRecord,
+} from './dossierOwnership'
+
+function identity(overrides: Partial<MarketMemoryLegalIdentity> = {}): MarketMemoryLegalIdentity {
+  return {
+    titleIdentity: 'title:192 123 456',
+    linc: '0012 345 678',
+    titleNumber: '192 123 456',
+    legalDescription: null,
+    plan: '0721234',
+    block: '1',
+    lot: '2',
+    registeredOwner: '1234567 ALBERTA LTD.\nOF: 100 MAIN ST',
+    transferRegistrationDate: '2019-05-03',
+    titlePulledDate: '2024-02-10',
+    sourcePath: 'PLP-001/title.pdf',
+    sourceHash: 'abc123',
+    sourceContext: null,
+    extractionConfidence: 0.92,
+    ...overrides,
+  }
+}
+
+function record(id: string, overrides: Partial<OwnershipRecord>): OwnershipRecord {
+  return {
+    id,
+    ownerName: 'Owner',
+    normalizedOwnerName: 'owner',
+    ownerEntityType: 'unknown',
+    titleNumber: null,
+    linc: null,
+    transferDate: null,
+    titlePulledDate: null,
+    confidence: 80,
+    source: 'test',
+    evidence: [],
+    ...overrides,
+  }
+}
+
+test('normalizes owner names and classifies the registered entity', () => {
+  assert.equal(normalizeOwnerName('ACME Holdings Limited'), 'acme holdings ltd')
+  assert.equal(normalizeOwnerName('Acme Holdings Ltd.'), 'acme holdings ltd')
+  assert.equal(classifyOwnerEntity('1234567 ALBERTA LTD.'), 'corporation')
+  assert.equal(classifyOwnerEntity('THE CITY OF CALGARY'), 'government')
+  assert.equal(classifyOwnerEntity('JOHN SMITH AND JANE SMITH'), 'individual')
+  assert.equal(classifyOwnerEntity('???'), 'unknown')
+  assert.equal(ownershipDate('03/05/2019'), '2019-05-03')
+  assert.equal(ownershipDate('2024-02-10T18:00:00Z'), '2024-02-10')
+  assert.equal(ownershipDate('not a date'), null)
+})
+
+test('drafts from brokerage memory and the title audit land on the same record', () => {
+  const [memory] = ownershipDraftsFromLegalIdentities([identity()], () => 'fact-external-1')
+  const audit = ownershipDraftFromTitleEvent({
+    id: 'event-1',
+    company: '1234567 ALBERTA LTD.',
+    occurredAt: '2024-02-10T00:00:00.000Z',
+    confidence: 90,
+    sourceMetadata: {
+      titleNumber: '192 123 456',
+      linc: '0012 345 678',
+      transferRegistrationDate: '2019-05-03',
+      sourceRelativePath: 'PLP-001/title.pdf',
+      sourceSha256: 'abc123',
+      extractionConfidence: 90,
+    },
+  })
+
+  assert.equal(memory.ownerName, '1234567 ALBERTA LTD.')
+  assert.equal(memory.confidence, 92)
+  assert.equal(memory.transferDate, '2019-05-03')
+  assert.equal(audit?.externalRecordId, memory.externalRecordId)
+  assert.deepEqual(memory.evidence.map((item) => item.evidenceKey), ['file:abc123', 'fact:fact-external-1'])
+  assert.deepEqual(audit?.evidence.map((item) => item.evidenceKey), ['file:abc123', 'event:event-1'])
+  assert.equal(ownershipDraftsFromLegalIdentities([identity({ registeredOwner: null })]).length, 0)
+})
+
+test('builds an ownership chain ending at the current owner', () => {
+  const history = buildOwnershipHistory('dossier-1', [
+    record('r1', { ownerName: 'First Owner Ltd', normalizedOwnerName: 'first owner ltd', transferDate: '2008-01-15', titlePulledDate: '2015-06-01' }),
+    record('r2', { ownerName: 'Second Owner Inc', normalizedOwnerName: 'second owner inc', transferDate: '2019-05-03', titlePulledDate: '2021-03-01' }),
+    record('r3', { ownerName: 'Second Owner Inc', normalizedOwnerName: 'second owner inc', titlePulledDate: '2024-02-10', titleNumber: '192 123 456' }),
+  ])
+
+  assert.equal(history.currentOwner?.ownerName, 'Second Owner Inc')
+  assert.equal(history.currentOwner?.since, '2019-05-03')
+  assert.equal(history.currentOwner?.sinceIsTransferDate, true)
+  assert.equal(history.currentOwner?.lastConfirmedAt, '2024-02-10')
+  assert.deepEqual(history.currentOwner?.recordIds, ['r2', 'r3'])
+  assert.deepEqual(history.chain.map((period) => [period.normalizedOwnerName, period.since, period.until]), [
+    ['second owner inc', '2019-05-03', null],
+    ['first owner ltd', '2008-01-15', '2019-05-03'],
+  ])
+})
+
+test('falls back to title pull dates when no transfer date is recorded', () => {
+  const history = buildOwnershipHistory('dossier-1', [
+    record('r1', { ownerName: 'Newer Owner', normalizedOwnerName: 'newer owner', titlePulledDate: '2023-01-01' }),
+    record('r2', { ownerName: 'Older Owner', normalizedOwnerName: 'older owner', titlePulledDate: '2016-01-01' }),
+  ])
+
+  assert.equal(history.currentOwner?.normalizedOwnerName, 'newer owner')
+  assert.equal(history.currentOwner?.sinceIsTransferDate, false)
+  assert.equal(buildOwnershipHistory('dossier-2', []).currentOwner, null)
+})
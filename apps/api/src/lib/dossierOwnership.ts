@@ -0,0 +1,320 @@
+import type { MarketMemoryLegalIdentity } from '@level-cre/shared'
+
+export const OWNER_ENTITY_TYPES = ['corporation', 'individual', 'government', 'unknown'] as const
+export type OwnerEntityType = typeof OWNER_ENTITY_TYPES[number]
+
+export const OWNERSHIP_EVIDENCE_TYPES = ['source_file', 'fact', 'activity_event', 'asset'] as const
+export type OwnershipEvidenceType = typeof OWNERSHIP_EVIDENCE_TYPES[number]
+
+export type OwnershipEvidenceDraft = {
+  evidenceKey: string
+  evidenceType: OwnershipEvidenceType
+  sourcePath: string | null
+  sourceHash: string | null
+  factExternalId?: string | null
+  activityEventId?: string | null
+  assetId?: string | null
+}
+
+export type OwnershipRecordDraft = {
+  externalRecordId: string
+  ownerName: string
+  normalizedOwnerName: string
+  ownerEntityType: OwnerEntityType
+  titleNumber: string | null
+  linc: string | null
+  transferDate: string | null
+  titlePulledDate: string | null
+  confidence: number
+  sourceMetadata: Record<string, unknown>
+  evidence: OwnershipEvidenceDraft[]
+}
+
+export type OwnershipEvidence = {
+  id: string
+  evidenceType: OwnershipEvidenceType
+  sourcePath: string | null
+  sourceHash: string | null
+  factId: string | null
+  activityEventId: string | null
+  assetId: string | null
+  assetFileName: string | null
+}
+
+export type OwnershipRecord = {
+  id: string
+  ownerName: string
+  normalizedOwnerName: string
+  ownerEntityType: OwnerEntityType
+  titleNumber: string | null
+  linc: string | null
+  transferDate: string | null
+  titlePulledDate: string | null
+  confidence: number
+  source: string
+  evidence: OwnershipEvidence[]
+}
+
+export type OwnershipPeriod = {
+  ownerName: string
+  normalizedOwnerName: string
+  ownerEntityType: OwnerEntityType
+  // Transfer registration date when the title shows one; otherwise the earliest pull that saw this owner.
+  since: string | null
+  sinceIsTransferDate: boolean
+  until: string | null
+  lastConfirmedAt: string | null
+  titleNumbers: string[]
+  lincs: string[]
+  confidence: number
+  recordIds: string[]
+  evidenceCount: number
+}
+
+export type DossierOwnershipHistory = {
+  dossierId: string
+  currentOwner: OwnershipPeriod | null
+  chain: OwnershipPeriod[]
+  records: OwnershipRecord[]
+}
+
+// Titles often carry the owner's mailing block on the following lines; only the registered name is kept.
+export function registeredOwnerName(value: unknown) {
+  return (typeof value === 'string' ? value : '')
+    .trim()
+    .split(/\r?\n/)[0]
+    .replace(/\s+(?:BOTH\s+OF|ALL\s+OF|ADDRESS)\s*:.*$/i, '')
+    .replace(/\s+OF\s*:\s*.*$/i, '')
+    .replace(/\s+/g, ' ')
+    .slice(0, 240)
+    .trim()
+}
+
+const SUFFIX_ALIASES: Array<[RegExp, string]> = [
+  [/\blimited\b/g, 'ltd'],
+  [/\bincorporated\b/g, 'inc'],
+  [/\bcorporation\b/g, 'corp'],
+  [/\bcompany\b/g, 'co'],
+]
+
+export function normalizeOwnerName(value: string) {
+  let normalized = value
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9 ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+  for (const [pattern, replacement] of SUFFIX_ALIASES) normalized = normalized.replace(pattern, replacement)
+  return normalized
+}
+
+const GOVERNMENT_PATTERN = /\b(city of|town of|village of|county of|municipal district|his majesty|her majesty|the crown|province of|government of|school division|regional municipality)\b/
+const CORPORATE_PATTERN = /\b(ltd|inc|corp|co|llp|lp|ulc|partnership|holdings|properties|developments|investments|enterprises|trust|reit|group|society|association|church)\b/
+
+export function classifyOwnerEntity(value: string): OwnerEntityType {
+  const normalized = normalizeOwnerName(value)
+  if (!normalized) return 'unknown'
+  if (GOVERNMENT_PATTERN.test(normalized)) return 'government'
+  if (CORPORATE_PATTERN.test(normalized) || /^\d{5,}\b/.test(normalized)) return 'corporation'
+  const words = normalized.split(' ').filter((word) => word !== 'and')
+  if (words.length >= 2 && words.length <= 8 && words.every((word) => /^[a-z]+$/.test(word))) return 'individual'
+  return 'unknown'
+}
+
+// Registry exports mix ISO dates, timestamps and dd/mm/yyyy; everything is stored as a calendar date.
+export function ownershipDate(value: unknown): string | null {
+  const raw = typeof value === 'string' ? value.trim() : value instanceof Date ? value.toISOString() : ''
+  if (!raw) return null
+  const iso = raw.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`
+  const dayFirst = raw.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (dayFirst) return `${dayFirst[3]}-${dayFirst[2].padStart(2, '0')}-${dayFirst[1].padStart(2, '0')}`
+  const parsed = new Date(raw)
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 10)
+}
+
+function clean(value: unknown) {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+function confidenceValue(value: unknown, fallback = 50) {
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed) || parsed <= 0) return fallback
+  const percent = parsed <= 1 ? parsed * 100 : parsed
+  return Math.max(0, Math.min(100, Math.round(percent)))
+}
+
+// One record per owner per title per transfer, so the same title seen in a brokerage memory import
+// and in the title audit lands on a single record with two pieces of evidence.
+export function ownershipRecordKey(params: {
+  normalizedOwnerName: string
+  titleNumber: string | null
+  linc: string | null
+  transferDate: string | null
+  sourceHash: string | null
+}) {
+  const title = params.titleNumber
+    ? `title:${params.titleNumber.toLowerCase()}`
+    : params.linc
+      ? `linc:${params.linc.toLowerCase()}`
+      : `file:${params.sourceHash || 'unknown'}`
+  return `${title}|owner:${params.normalizedOwnerName}|transfer:${params.transferDate || 'undated'}`
+}
+
+function sourceFileEvidence(sourcePath: string | null, sourceHash: string | null): OwnershipEvidenceDraft[] {
+  if (!sourcePath && !sourceHash) return []
+  return [{
+    evidenceKey: `file:${sourceHash || sourcePath}`,
+    evidenceType: 'source_file',
+    sourcePath,
+    sourceHash,
+  }]
+}
+
+export function ownershipDraftsFromLegalIdentities(
+  identities: MarketMemoryLegalIdentity[],
+  factExternalIdFor: (identity: MarketMemoryLegalIdentity) => string | null = () => null,
+): OwnershipRecordDraft[] {
+  const drafts: OwnershipRecordDraft[] = []
+  for (const identity of identities) {
+    const ownerName = registeredOwnerName(identity.registeredOwner)
+    const normalizedOwnerName = normalizeOwnerName(ownerName)
+    if (!normalizedOwnerName) continue
+    const titleNumber = clean(identity.titleNumber)
+    const linc = clean(identity.linc)
+    const transferDate = ownershipDate(identity.transferRegistrationDate)
+    const factExternalId = factExternalIdFor(identity)
+    drafts.push({
+      externalRecordId: ownershipRecordKey({ normalizedOwnerName, titleNumber, linc, transferDate, sourceHash: identity.sourceHash }),
+      ownerName,
+      normalizedOwnerName,
+      ownerEntityType: classifyOwnerEntity(ownerName),
+      titleNumber,
+      linc,
+      transferDate,
+      titlePulledDate: ownershipDate(identity.titlePulledDate),
+      confidence: confidenceValue(identity.extractionConfidence),
+      sourceMetadata: { titleIdentity: identity.titleIdentity, sourceContext: identity.sourceContext },
+      evidence: [
+        ...sourceFileEvidence(clean(identity.sourcePath), clean(identity.sourceHash)),
+        ...(factExternalId ? [{
+          evidenceKey: `fact:${factExternalId}`,
+          evidenceType: 'fact' as const,
+          sourcePath: clean(identity.sourcePath),
+          sourceHash: clean(identity.sourceHash),
+          factExternalId,
+        }] : []),
+      ],
+    })
+  }
+  return drafts
+}
+
+export type TitleOwnerEvent = {
+  id: string
+  company: string | null
+  occurredAt: Date | string | null
+  confidence: number | string | null
+  sourceMetadata: Record<string, unknown> | null
+}
+
+export function ownershipDraftFromTitleEvent(event: TitleOwnerEvent): OwnershipRecordDraft | null {
+  const metadata = event.sourceMetadata || {}
+  const ownerName = registeredOwnerName(event.company)
+  const normalizedOwnerName = normalizeOwnerName(ownerName)
+  if (!normalizedOwnerName) return null
+  const titleNumber = clean(metadata.titleNumber)
+  const linc = clean(metadata.linc)
+  const transferDate = ownershipDate(metadata.transferRegistrationDate)
+  const sourcePath = clean(metadata.sourceRelativePath)
+  const sourceHash = clean(metadata.sourceSha256)
+  return {
+    externalRecordId: ownershipRecordKey({ normalizedOwnerName, titleNumber, linc, transferDate, sourceHash }),
+    ownerName,
+    normalizedOwnerName,
+    ownerEntityType: classifyOwnerEntity(ownerName),
+    titleNumber,
+    linc,
+    transferDate,
+    titlePulledDate: ownershipDate(metadata.titlePulledDate) || ownershipDate(event.occurredAt),
+    confidence: confidenceValue(metadata.extractionConfidence ?? event.confidence),
+    sourceMetadata: { caseId: clean(metadata.caseId), municipality: clean(metadata.municipality) },
+    evidence: [
+      ...sourceFileEvidence(sourcePath, sourceHash),
+      { evidenceKey: `event:${event.id}`, evidenceType: 'activity_event', sourcePath, sourceHash, activityEventId: event.id },
+    ],
+  }
+}
+
+function uniqueSorted(values: Array<string | null>) {
+  return Array.from(new Set(values.filter((value): value is string => Boolean(value)))).sort()
+}
+
+function earliest(values: Array<string | null>) {
+  return uniqueSorted(values)[0] || null
+}
+
+function latest(values: Array<string | null>) {
+  const sorted = uniqueSorted(values)
+  return sorted[sorted.length - 1] || null
+}
+
+// Records for the same owner collapse into one holding unless the title shows separate transfers,
+// which happens when a property is sold and later bought back.
+export function buildOwnershipHistory(dossierId: string, records: OwnershipRecord[]): DossierOwnershipHistory {
+  const groups = new Map<string, OwnershipRecord[]>()
+  for (const record of records) {
+    const key = `${record.normalizedOwnerName}|${record.transferDate || ''}`
+    groups.set(key, [...(groups.get(key) || []), record])
+  }
+
+  const ownersWithTransfers = new Set(
+    records.filter((record) => record.transferDate).map((record) => record.normalizedOwnerName),
+  )
+  // An undated sighting of an owner who also has a dated transfer belongs to that transfer.
+  for (const [key, group] of Array.from(groups.entries())) {
+    const [owner, transfer] = key.split('|')
+    if (transfer || !ownersWithTransfers.has(owner)) continue
+    const datedKeys = Array.from(groups.keys()).filter((candidate) => candidate.startsWith(`${owner}|`) && candidate !== key).sort()
+    const target = datedKeys[datedKeys.length - 1]
+    groups.set(target, [...(groups.get(target) || []), ...group])
+    groups.delete(key)
+  }
+
+  const periods = Array.from(groups.values()).map<OwnershipPeriod>((group) => {
+    const best = group.slice().sort((left, right) => right.confidence - left.confidence)[0]
+    const transferDate = earliest(group.map((record) => record.transferDate))
+    return {
+      ownerName: best.ownerName,
+      normalizedOwnerName: best.normalizedOwnerName,
+      ownerEntityType: best.ownerEntityType,
+      since: transferDate || earliest(group.map((record) => record.titlePulledDate)),
+      sinceIsTransferDate: Boolean(transferDate),
+      until: null,
+      lastConfirmedAt: latest(group.map((record) => record.titlePulledDate)),
+      titleNumbers: uniqueSorted(group.map((record) => record.titleNumber)),
+      lincs: uniqueSorted(group.map((record) => record.linc)),
+      confidence: best.confidence,
+      recordIds: group.map((record) => record.id).sort(),
+      evidenceCount: group.reduce((total, record) => total + record.evidence.length, 0),
+    }
+  })
+
+  // Periods run oldest first; one with no dates at all cannot be placed and sorts to the front.
+  periods.sort((left, right) => (
+    (left.since || '').localeCompare(right.since || '')
+    || (left.lastConfirmedAt || '').localeCompare(right.lastConfirmedAt || '')
+    || right.confidence - left.confidence
+    || left.normalizedOwnerName.localeCompare(right.normalizedOwnerName)
+  ))
+  for (let index = 0; index < periods.length - 1; index += 1) {
+    periods[index].until = periods[index + 1].since
+  }
+
+  return {
+    dossierId,
+    currentOwner: periods[periods.length - 1] || null,
+    chain: periods.slice().reverse(),
+    records,
+  }
+}
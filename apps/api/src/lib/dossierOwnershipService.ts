@@ -0,0 +1,307 @@
+import type { Pool, PoolClient } from 'pg'
+
+import {
+  buildOwnershipHistory,
+  ownershipDraftFromTitleEvent,
+  type DossierOwnershipHistory,
+  type OwnerEntityType,
+  type OwnershipEvidenceType,
+  type OwnershipRecord,
+  type OwnershipRecordDraft,
+} from './dossierOwnership'
+import { PROPERTY_TITLE_AUDIT_SOURCE } from './propertyTitleEvidenceAdapter'
+
+type Queryable = Pool | PoolClient
+
+type OwnershipRecordRow = {
+  id: string
+  owner_name: string
+  normalized_owner_name: string
+  owner_entity_type: OwnerEntityType
+  title_number: string | null
+  linc: string | null
+  transfer_date: Date | string | null
+  title_pulled_date: Date | string | null
+  confidence: number | string
+  source: string
+}
+
+type OwnershipEvidenceRow = {
+  id: string
+  ownership_record_id: string
+  evidence_type: OwnershipEvidenceType
+  source_path: string | null
+  source_hash: string | null
+  fact_id: string | null
+  activity_event_id: string | null
+  asset_id: string | null
+  asset_file_name: string | null
+}
+
+export class DossierOwnershipError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'DossierOwnershipError'
+    this.status = status
+  }
+}
+
+function isMissingOwnershipSchema(error: unknown) {
+  const code = typeof error === 'object' && error && 'code' in error ? String(error.code) : ''
+  return code === '42P01' || code === '42703'
+}
+
+// pg hands DATE columns back as local-midnight Date objects; format them without a UTC shift.
+function dateText(value: Date | string | null) {
+  if (!value) return null
+  if (typeof value === 'string') return value.slice(0, 10)
+  const month = String(value.getMonth() + 1).padStart(2, '0')
+  const day = String(value.getDate()).padStart(2, '0')
+  return `${value.getFullYear()}-${month}-${day}`
+}
+
+function fileName(path: string | null) {
+  return path ? path.split(/[\\/]/).pop() || null : null
+}
+
+async function requireOwnedDossier(db: Queryable, userId: string, dossierId: string) {
+  const result = await db.query<{ id: string }>(`
+    SELECT id FROM public.intel_property_dossiers
+    WHERE id = $1 AND created_by_user_id = $2
+  `, [dossierId, userId])
+  if (!result.rows[0]) throw new DossierOwnershipError('Industrial intel dossier not found', 404)
+}
+
+export async function saveDossierOwnershipDrafts(db: Queryable, params: {
+  userId: string
+  dossierId: string
+  source: string
+  importItemId?: string | null
+  drafts: OwnershipRecordDraft[]
+}) {
+  let saved = 0
+  for (const draft of params.drafts) {
+    const record = await db.query<{ id: string }>(`
+      INSERT INTO public.intel_dossier_ownership_records (
+        dossier_id, user_id, external_record_id, owner_name, normalized_owner_name,
+        owner_entity_type, title_number, linc, transfer_date, title_pulled_date,
+        confidence, source, import_item_id, source_metadata, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14::jsonb, now())
+      ON CONFLICT (dossier_id, external_record_id) DO UPDATE SET
+        owner_name = CASE
+          WHEN EXCLUDED.confidence >= public.intel_dossier_ownership_records.confidence THEN EXCLUDED.owner_name
+          ELSE public.intel_dossier_ownership_records.owner_name
+        END,
+        owner_entity_type = CASE
+          WHEN public.intel_dossier_ownership_records.owner_entity_type = 'unknown' THEN EXCLUDED.owner_entity_type
+          ELSE public.intel_dossier_ownership_records.owner_entity_type
+        END,
+        title_number = COALESCE(public.intel_dossier_ownership_records.title_number, EXCLUDED.title_number),
+        linc = COALESCE(public.intel_dossier_ownership_records.linc, EXCLUDED.linc),
+        title_pulled_date = GREATEST(public.intel_dossier_ownership_records.title_pulled_date, EXCLUDED.title_pulled_date),
+        confidence = GREATEST(public.intel_dossier_ownership_records.confidence, EXCLUDED.confidence),
+        import_item_id = COALESCE(EXCLUDED.import_item_id, public.intel_dossier_ownership_records.import_item_id),
+        source_metadata = public.intel_dossier_ownership_records.source_metadata || EXCLUDED.source_metadata,
+        updated_at = now()
+      RETURNING id
+    `, [
+      params.dossierId,
+      params.userId,
+      draft.externalRecordId,
+      draft.ownerName,
+      draft.normalizedOwnerName,
+      draft.ownerEntityType,
+      draft.titleNumber,
+      draft.linc,
+      draft.transferDate,
+      draft.titlePulledDate,
+      draft.confidence,
+      params.source,
+      params.importItemId || null,
+      JSON.stringify(draft.sourceMetadata),
+    ])
+    const recordId = record.rows[0].id
+    saved += 1
+
+    const evidence = draft.evidence.slice()
+    // Title PDFs uploaded to the dossier are matched to the audited source file by name.
+    const sourceFiles = Array.from(new Set(evidence.map((item) => fileName(item.sourcePath)).filter((name): name is string => Boolean(name))))
+    if (sourceFiles.length) {
+      const assets = await db.query<{ id: string; file_name: string }>(`
+        SELECT id, file_name FROM public.intel_listing_assets
+        WHERE dossier_id = $1 AND status <> 'archived' AND file_name = ANY($2::text[])
+      `, [params.dossierId, sourceFiles])
+      for (const asset of assets.rows) {
+        const source = evidence.find((item) => fileName(item.sourcePath) === asset.file_name)
+        evidence.push({
+          evidenceKey: `asset:${asset.id}`,
+          evidenceType: 'asset',
+          sourcePath: source?.sourcePath || null,
+          sourceHash: source?.sourceHash || null,
+          assetId: asset.id,
+        })
+      }
+    }
+
+    for (const item of evidence) {
+      await db.query(`
+        INSERT INTO public.intel_dossier_ownership_evidence (
+          ownership_record_id, evidence_key, evidence_type, source_path, source_hash,
+          fact_id, activity_event_id, asset_id
+        ) VALUES (
+          $1, $2, $3, $4, $5,
+          (SELECT id FROM public.intel_dossier_facts WHERE dossier_id = $9 AND external_fact_id = $6 LIMIT 1),
+          $7, $8
+        )
+        ON CONFLICT (ownership_record_id, evidence_key) DO UPDATE SET
+          fact_id = COALESCE(EXCLUDED.fact_id, public.intel_dossier_ownership_evidence.fact_id)
+      `, [
+        recordId,
+        item.evidenceKey,
+        item.evidenceType,
+        item.sourcePath,
+        item.sourceHash,
+        item.factExternalId || null,
+        item.activityEventId || null,
+        item.assetId || null,
+        params.dossierId,
+      ])
+    }
+  }
+  return saved
+}
+
+// Title-audit owner events reach a dossier through the prospect it represents.
+export async function syncTitleAuditOwnership(db: Queryable, params: { userId: string; dossierId: string }) {
+  const events = await db.query<{
+    id: string
+    company: string | null
+    occurred_at: Date | string | null
+    confidence: number | string | null
+    source_metadata: Record<string, unknown> | null
+  }>(`
+    SELECT events.id, events.company, events.occurred_at, events.confidence, events.source_metadata
+    FROM public.activity_events events
+    INNER JOIN public.intel_property_dossiers dossiers
+      ON dossiers.id = $2 AND dossiers.created_by_user_id = $1
+    WHERE events.user_id = $1
+      AND events.source = $3
+      AND events.event_type = 'owner_identified'
+      AND events.match_status <> 'ignored'
+      AND events.prospect_id IS NOT NULL
+      AND (
+        events.prospect_id = dossiers.prospect_id
+        OR events.prospect_id IN (
+          SELECT links.entity_id FROM public.intel_dossier_entity_links links
+          WHERE links.dossier_id = dossiers.id AND links.entity_type = 'prospect'
+        )
+      )
+    ORDER BY events.occurred_at ASC, events.id ASC
+  `, [params.userId, params.dossierId, PROPERTY_TITLE_AUDIT_SOURCE])
+  const drafts = events.rows
+    .map((row) => ownershipDraftFromTitleEvent({
+      id: row.id,
+      company: row.company,
+      occurredAt: row.occurred_at,
+      confidence: row.confidence,
+      sourceMetadata: row.source_metadata,
+    }))
+    .filter((draft): draft is OwnershipRecordDraft => Boolean(draft))
+  const recordsSaved = await saveDossierOwnershipDrafts(db, {
+    userId: params.userId,
+    dossierId: params.dossierId,
+    source: PROPERTY_TITLE_AUDIT_SOURCE,
+    drafts,
+  })
+  return { eventsScanned: events.rows.length, recordsSaved }
+}
+
+async function loadOwnershipRecords(db: Queryable, dossierId: string): Promise<OwnershipRecord[]> {
+  const [records, evidence] = await Promise.all([
+    db.query<OwnershipRecordRow>(`
+      SELECT id, owner_name, normalized_owner_name, owner_entity_type, title_number, linc,
+             transfer_date, title_pulled_date, confidence, source
+      FROM public.intel_dossier_ownership_records
+      WHERE dossier_id = $1
+      ORDER BY transfer_date ASC NULLS FIRST, title_pulled_date ASC NULLS FIRST, created_at ASC
+    `, [dossierId]),
+    db.query<OwnershipEvidenceRow>(`
+      SELECT evidence.id, evidence.ownership_record_id, evidence.evidence_type, evidence.source_path,
+             evidence.source_hash, evidence.fact_id, evidence.activity_event_id, evidence.asset_id,
+             assets.file_name AS asset_file_name
+      FROM public.intel_dossier_ownership_evidence evidence
+      INNER JOIN public.intel_dossier_ownership_records records ON records.id = evidence.ownership_record_id
+      LEFT JOIN public.intel_listing_assets assets ON assets.id = evidence.asset_id
+      WHERE records.dossier_id = $1
+      ORDER BY evidence.created_at ASC
+    `, [dossierId]),
+  ])
+  return records.rows.map((row) => ({
+    id: row.id,
+    ownerName: row.owner_name,
+    normalizedOwnerName: row.normalized_owner_name,
+    ownerEntityType: row.owner_entity_type,
+    titleNumber: row.title_number,
+    linc: row.linc,
+    transferDate: dateText(row.transfer_date),
+    titlePulledDate: dateText(row.title_pulled_date),
+    confidence: Number(row.confidence),
+    source: row.source,
+    evidence: evidence.rows
+      .filter((item) => item.ownership_record_id === row.id)
+      .map((item) => ({
+        id: item.id,
+        evidenceType: item.evidence_type,
+        sourcePath: item.source_path,
+        sourceHash: item.source_hash,
+        factId: item.fact_id,
+        activityEventId: item.activity_event_id,
+        assetId: item.asset_id,
+        assetFileName: item.asset_file_name,
+      })),
+  }))
+}
+
+export async function getDossierOwnershipHistory(params: {
+  pool: Pool
+  userId: string
+  dossierId: string
+}): Promise<DossierOwnershipHistory> {
+  try {
+    await requireOwnedDossier(params.pool, params.userId, params.dossierId)
+    return buildOwnershipHistory(params.dossierId, await loadOwnershipRecords(params.pool, params.dossierId))
+  } catch (error) {
+    if (isMissingOwnershipSchema(error)) {
+      throw new DossierOwnershipError('Ownership history storage is not ready. Apply migration 0031 before using this endpoint.', 503)
+    }
+    throw error
+  }
+}
+
+export async function refreshDossierOwnership(params: {
+  pool: Pool
+  userId: string
+  dossierId: string
+}) {
+  const client = await params.pool.connect()
+  try {
+    await client.query('BEGIN')
+    await requireOwnedDossier(client, params.userId, params.dossierId)
+    const sync = await syncTitleAuditOwnership(client, params)
+    await client.query('COMMIT')
+    return {
+      ...sync,
+      ownership: buildOwnershipHistory(params.dossierId, await loadOwnershipRecords(params.pool, params.dossierId)),
+    }
+  } catch (error) {
+    await client.query('ROLLBACK')
+    if (isMissingOwnershipSchema(error)) {
+      throw new DossierOwnershipError('Ownership history storage is not ready. Apply migration 0031 before using this endpoint.', 503)
+    }
+    throw error
+  } finally {
+    client.release()
+  }
+}
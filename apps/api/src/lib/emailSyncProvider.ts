@@ -0,0 +1,171 @@
+import type { Pool } from 'pg';
+
+import type { EmailAttachmentInput } from '../modules/industrial-intel/emailAttachments';
+import { ImapLoginError } from './imapClient';
+import type { OutlookDeltaMode } from './outlookDeltaSync';
+
+// Every provider reports its run in the vocabulary the Outlook delta sync
+// introduced: an incremental delta, a first full read, or a forced resync.
+export { summarizeOutlookDeltaModes as summarizeEmailSyncModes } from './outlookDeltaSync';
+
+export const EMAIL_SYNC_PROVIDERS = ['outlook', 'gmail', 'imap'] as const;
+
+export type EmailSyncProviderName = typeof EMAIL_SYNC_PROVIDERS[number];
+
+export type EmailSyncMode = OutlookDeltaMode;
+
+/**
+ * One message as every mailbox provider hands it to the capture pipeline.
+ * Fields mirror the `email_messages` columns; `rawMetadata` carries whatever
+ * provider-specific ids the provider needs to come back for attachments.
+ */
+export type SyncedEmailMessage = {
+  providerMessageId: string;
+  providerThreadId: string | null;
+  mailbox: 'inbox' | 'sent';
+  direction: 'received' | 'sent';
+  subject: string;
+  senderEmail: string;
+  senderName: string;
+  recipientEmails: string[];
+  ccEmails: string[];
+  bccEmails: string[];
+  sentAt: Date | null;
+  receivedAt: Date | null;
+  snippet: string;
+  attachmentNames: string[];
+  hasAttachments: boolean;
+  sourceUrl: string;
+  rawMetadata: Record<string, unknown>;
+};
+
+export type EmailSyncResult = {
+  mode: EmailSyncMode;
+  pages: number;
+  removed: number;
+  complete: boolean;
+};
+
+/**
+ * A mailbox the sync loop can read from. Providers own their cursor entries
+ * in `email_connections.sync_cursor`, saving each one through `saveCursor` as
+ * soon as that folder is done so a failed run keeps the progress it made.
+ */
+export type EmailSyncProvider = {
+  provider: EmailSyncProviderName;
+  syncMailbox(params: {
+    cursor: Record<string, unknown>;
+    days: number;
+    maxPages: number;
+    onMessages: (messages: SyncedEmailMessage[]) => Promise<void>;
+    saveCursor: (key: string, value: unknown) => Promise<void>;
+  }): Promise<EmailSyncResult>;
+  fetchAttachments?(message: SyncedEmailMessage): Promise<EmailAttachmentInput[]>;
+};
+
+/** A connection's stored token or login no longer works and the user has to reconnect. */
+export class EmailConnectionAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailConnectionAuthError';
+  }
+}
+
+/**
+ * Only auth failures take a connection out of service. Throttling (429),
+ * provider outages and network errors stay on the sync run, and the next
+ * sync simply tries again.
+ */
+export function isEmailConnectionAuthFailure(error: unknown): boolean {
+  if (error instanceof EmailConnectionAuthError || error instanceof ImapLoginError) return true;
+  // Graph and Gmail request errors carry the HTTP status; 401 means the access token was refused.
+  return (error as { status?: unknown } | null)?.status === 401;
+}
+
+export function isEmailSyncProvider(value: unknown): value is EmailSyncProviderName {
+  return EMAIL_SYNC_PROVIDERS.includes(value as EmailSyncProviderName);
+}
+
+export function parseEmailSyncCursor(raw: unknown): Record<string, unknown> {
+  let parsed: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return {};
+    }
+  }
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : {};
+}
+
+export async function loadEmailSyncCursor(params: {
+  pool: Pool;
+  userId: string;
+  connectionId: string;
+}): Promise<Record<string, unknown>> {
+  const { rows } = await params.pool.query(
+    `SELECT sync_cursor FROM public.email_connections WHERE id = $1 AND user_id = $2`,
+    [params.connectionId, params.userId],
+  );
+  return parseEmailSyncCursor(rows[0]?.sync_cursor);
+}
+
+/** Merges one entry into the stored cursor map without touching the others. */
+export async function saveEmailSyncCursorEntry(params: {
+  pool: Pool;
+  userId: string;
+  connectionId: string;
+  key: string;
+  value: unknown;
+}): Promise<void> {
+  await params.pool.query(
+    `
+      UPDATE public.email_connections
+      SET sync_cursor = (
+            CASE WHEN sync_cursor ~ '^\\s*\\{' THEN sync_cursor::jsonb ELSE '{}'::jsonb END
+            || jsonb_build_object($3::text, $4::jsonb)
+          )::text,
+          updated_at = now()
+      WHERE id = $1 AND user_id = $2
+    `,
+    [params.connectionId, params.userId, params.key, JSON.stringify(params.value)],
+  );
+}
+
+export function normalizeEmailAddress(value: unknown): string {
+  const email = String(value || '').trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : '';
+}
+
+function splitAddressList(value: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angle = 0;
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '<') angle += 1;
+    if (!quoted && char === '>') angle = Math.max(0, angle - 1);
+    if (char === ',' && !quoted && angle === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/** Parses an RFC 5322 address header such as `"Doe, Jane" <jane@x.com>, bob@y.com`. */
+export function parseAddressHeader(value: string | null | undefined): Array<{ email: string; name: string }> {
+  const addresses: Array<{ email: string; name: string }> = [];
+  for (const part of splitAddressList(String(value || ''))) {
+    const angled = /^(.*)<([^>]+)>\s*$/.exec(part);
+    const email = normalizeEmailAddress(angled ? angled[2] : part);
+    if (!email) continue;
+    const name = angled ? angled[1].trim().replace(/^"(.*)"$/, '$1').trim() : '';
+    addresses.push({ email, name });
+  }
+  return addresses;
+}
@@ -0,0 +1,133 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { GMAIL_CURSOR_KEY, createGmailMailProvider, parseGmailMessage } from './gmailMailProvider';
+
+function gmailMessage(id: string, fields: { labels?: string[]; from?: string; subject?: string; messageId?: string }) {
+  return {
+    id,
+    threadId: `thread-${id}`,
+    labelIds: fields.labels || ['INBOX'],
+    snippet: 'Can we tour Tuesday &amp; Wednesday?',
+    internalDate: '1783415700000',
+    payload: {
+      headers: [
+        { name: 'From', value: fields.from || 'Jane Doe <jane@tenant.example>' },
+        { name: 'To', value: 'broker@example.com' },
+        { name: 'Subject', value: fields.subject || 'Tour request' },
+        { name: 'Message-ID', value: fields.messageId || `<${id}@tenant.example>` },
+      ],
+      parts: [
+        {
+          filename: 'brochure.pdf',
+          mimeType: 'application/pdf',
+          headers: [{ name: 'Content-Disposition', value: 'attachment; filename="brochure.pdf"' }],
+          body: { attachmentId: `att-${id}`, size: 2048 },
+        },
+      ],
+    },
+  };
+}
+
+async function startStubGmail(routes: Record<string, (url: URL) => { status?: number; body: unknown }>) {
+  const requested: string[] = [];
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://stub');
+    requested.push(`${url.pathname}${url.search}`);
+    const route = Object.keys(routes).find((path) => url.pathname.endsWith(path));
+    const reply = route ? routes[route](url) : { status: 404, body: { error: { message: 'Not found' } } };
+    res.writeHead(reply.status || 200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(reply.body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    requested,
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+test('parses Gmail messages and skips drafts, chats, spam and trash', () => {
+  const parsed = parseGmailMessage(gmailMessage('m1', { labels: ['SENT'], from: 'broker@example.com' }));
+  assert.equal(parsed?.providerMessageId, 'internet-message:<m1@tenant.example>');
+  assert.equal(parsed?.direction, 'sent');
+  assert.equal(parsed?.snippet, 'Can we tour Tuesday & Wednesday?');
+  assert.deepEqual(parsed?.attachmentNames, ['brochure.pdf']);
+  assert.equal(parseGmailMessage(gmailMessage('m2', { labels: ['DRAFT'] })), null);
+  assert.equal(parseGmailMessage(gmailMessage('m3', { labels: ['INBOX', 'SPAM'] })), null);
+});
+
+test('lists the day window first, then follows history from the profile historyId', async () => {
+  const stub = await startStubGmail({
+    '/profile': () => ({ body: { emailAddress: 'broker@example.com', historyId: '500' } }),
+    '/messages': () => ({ body: { messages: [{ id: 'm1' }, { id: 'm2' }] } }),
+    '/messages/m1': () => ({ body: gmailMessage('m1', {}) }),
+    '/messages/m2': () => ({ body: gmailMessage('m2', { labels: ['CHAT'] }) }),
+    '/messages/m9': () => ({ body: gmailMessage('m9', { subject: 'LOI attached' }) }),
+    '/history': (url) => ({
+      body: url.searchParams.get('startHistoryId') === '500'
+        ? { history: [{ messagesAdded: [{ message: { id: 'm9' } }] }], historyId: '510' }
+        : { historyId: '510' },
+    }),
+  });
+  try {
+    const provider = createGmailMailProvider({ accessToken: 'token', baseUrl: stub.baseUrl });
+    const saved: Record<string, any> = {};
+    const run = async (cursor: Record<string, unknown>) => {
+      const subjects: string[] = [];
+      const result = await provider.syncMailbox({
+        cursor,
+        days: 30,
+        maxPages: 5,
+        onMessages: async (messages) => {
+          subjects.push(...messages.map((message) => message.subject));
+        },
+        saveCursor: async (key, value) => {
+          saved[key] = value;
+        },
+      });
+      return { result, subjects };
+    };
+
+    const first = await run({});
+    assert.equal(first.result.mode, 'full');
+    assert.deepEqual(first.subjects, ['Tour request']);
+    assert.equal(saved[GMAIL_CURSOR_KEY].historyId, '500');
+    assert.match(stub.requested.find((path) => path.includes('/messages?')) || '', /after%3A\d+/);
+
+    const second = await run({ ...saved });
+    assert.equal(second.result.mode, 'delta');
+    assert.deepEqual(second.subjects, ['LOI attached']);
+    assert.equal(saved[GMAIL_CURSOR_KEY].historyId, '510');
+  } finally {
+    await stub.close();
+  }
+});
+
+test('falls back to a resync when Gmail no longer knows the stored historyId', async () => {
+  const stub = await startStubGmail({
+    '/history': () => ({ status: 404, body: { error: { message: 'Requested entity was not found.' } } }),
+    '/profile': () => ({ body: { historyId: '900' } }),
+    '/messages': () => ({ body: { messages: [] } }),
+  });
+  try {
+    let savedCursor: any = null;
+    const result = await createGmailMailProvider({ accessToken: 'token', baseUrl: stub.baseUrl }).syncMailbox({
+      cursor: { [GMAIL_CURSOR_KEY]: { historyId: '12' } },
+      days: 30,
+      maxPages: 5,
+      onMessages: async () => {},
+      saveCursor: async (_key, value) => {
+        savedCursor = value;
+      },
+    });
+    assert.equal(result.mode, 'resync');
+    assert.equal(savedCursor.historyId, '900');
+    assert.ok(savedCursor.resyncedAt);
+  } finally {
+    await stub.close();
+  }
+});
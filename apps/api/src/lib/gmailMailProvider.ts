@@ -0,0 +1,273 @@
+import { EMAIL_ATTACHMENT_MAX_BYTES } from '../modules/industrial-intel/emailAttachments';
+import {
+  parseAddressHeader,
+  type EmailSyncMode,
+  type EmailSyncProvider,
+  type SyncedEmailMessage,
+} from './emailSyncProvider';
+
+export const GMAIL_SCOPES = [
+  'openid',
+  'email',
+  'profile',
+  'https://www.googleapis.com/auth/gmail.readonly',
+];
+
+export const GMAIL_CURSOR_KEY = 'gmail';
+
+// Chats, drafts, spam and trash are not correspondence with a prospect.
+const SKIPPED_LABELS = new Set(['CHAT', 'DRAFT', 'SPAM', 'TRASH']);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type GmailSyncCursor = {
+  historyId: string | null;
+  pageToken: string | null;
+  pendingHistoryId: string | null;
+  syncedAt: string | null;
+  resyncedAt: string | null;
+};
+
+type GmailAttachmentRef = {
+  fileName: string;
+  contentType: string;
+  attachmentId: string;
+  size: number;
+  inline: boolean;
+};
+
+export class GmailRequestError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'GmailRequestError';
+    this.status = status;
+  }
+}
+
+/** Overridable so tests can point the Gmail provider at a stub server. */
+export function gmailApiBaseUrl(): string {
+  return String(process.env.GMAIL_API_BASE_URL || 'https://gmail.googleapis.com/gmail/v1').replace(/\/$/, '');
+}
+
+export async function gmailGet(accessToken: string, url: string) {
+  const response = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
+  const json = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new GmailRequestError(response.status, json.error?.message || 'Gmail API request failed');
+  }
+  return json;
+}
+
+export function parseGmailSyncCursor(raw: unknown): GmailSyncCursor {
+  const value = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+  const text = (key: string) => (typeof value[key] === 'string' && value[key] ? String(value[key]) : null);
+  return {
+    historyId: text('historyId'),
+    pageToken: text('pageToken'),
+    pendingHistoryId: text('pendingHistoryId'),
+    syncedAt: text('syncedAt'),
+    resyncedAt: text('resyncedAt'),
+  };
+}
+
+function header(headers: any[], name: string): string {
+  const match = headers.find((candidate) => String(candidate?.name || '').toLowerCase() === name.toLowerCase());
+  return String(match?.value || '').trim();
+}
+
+function decodeSnippet(value: unknown): string {
+  return String(value || '')
+    .replace(/&#39;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function collectAttachmentRefs(part: any, refs: GmailAttachmentRef[] = []): GmailAttachmentRef[] {
+  if (!part) return refs;
+  const fileName = String(part.filename || '').trim();
+  if (fileName && part.body?.attachmentId) {
+    const disposition = header(Array.isArray(part.headers) ? part.headers : [], 'Content-Disposition');
+    refs.push({
+      fileName,
+      contentType: String(part.mimeType || ''),
+      attachmentId: String(part.body.attachmentId),
+      size: Number(part.body.size || 0),
+      inline: /^inline/i.test(disposition),
+    });
+  }
+  for (const child of Array.isArray(part.parts) ? part.parts : []) collectAttachmentRefs(child, refs);
+  return refs;
+}
+
+function parseDate(value: string): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Normalizes a `format=full` Gmail message, or returns null for chats,
+ * drafts, spam and trash. The RFC 822 Message-ID is the stable id, so the
+ * same email captured by forward or by another mailbox is one message.
+ */
+export function parseGmailMessage(message: any): SyncedEmailMessage | null {
+  if (!message?.id) return null;
+  const labels: string[] = Array.isArray(message.labelIds) ? message.labelIds : [];
+  if (labels.some((label) => SKIPPED_LABELS.has(label))) return null;
+
+  const headers = Array.isArray(message.payload?.headers) ? message.payload.headers : [];
+  const from = parseAddressHeader(header(headers, 'From'))[0];
+  const emails = (name: string) => parseAddressHeader(header(headers, name)).map((address) => address.email);
+  const sent = labels.includes('SENT');
+  const internetMessageId = header(headers, 'Message-ID');
+  const internalDate = Number(message.internalDate);
+  const attachments = collectAttachmentRefs(message.payload);
+
+  return {
+    providerMessageId: internetMessageId ? `internet-message:${internetMessageId}` : `gmail:${message.id}`,
+    providerThreadId: message.threadId || null,
+    mailbox: sent ? 'sent' : 'inbox',
+    direction: sent ? 'sent' : 'received',
+    subject: header(headers, 'Subject'),
+    senderEmail: from?.email || '',
+    senderName: from?.name || '',
+    recipientEmails: emails('To'),
+    ccEmails: emails('Cc'),
+    bccEmails: emails('Bcc'),
+    sentAt: parseDate(header(headers, 'Date')),
+    receivedAt: Number.isFinite(internalDate) && internalDate > 0 ? new Date(internalDate) : null,
+    snippet: decodeSnippet(message.snippet),
+    attachmentNames: attachments.map((attachment) => attachment.fileName),
+    hasAttachments: attachments.length > 0,
+    sourceUrl: `https://mail.google.com/mail/u/0/#all/${message.id}`,
+    rawMetadata: {
+      folder: sent ? 'sent' : 'inbox',
+      bccRecipients: emails('Bcc'),
+      gmailMessageId: message.id,
+      gmailLabels: labels,
+      internetMessageId: internetMessageId || null,
+      gmailAttachments: attachments,
+    },
+  };
+}
+
+/**
+ * Reads the mailbox through the Gmail history API once a first full listing
+ * has recorded a historyId. Like the Outlook delta rounds, a listing that runs
+ * out of page budget keeps its page token and resumes on the next run, and a
+ * historyId Gmail no longer recognizes restarts as a bounded resync.
+ */
+export function createGmailMailProvider(params: { accessToken: string; baseUrl?: string }): EmailSyncProvider {
+  const base = `${params.baseUrl || gmailApiBaseUrl()}/users/me`;
+  const get = (path: string) => gmailGet(params.accessToken, `${base}${path}`);
+
+  return {
+    provider: 'gmail',
+    async syncMailbox({ cursor, days, maxPages, onMessages, saveCursor }) {
+      const now = new Date();
+      const stored = parseGmailSyncCursor(cursor[GMAIL_CURSOR_KEY]);
+      let mode: EmailSyncMode = stored.historyId ? 'delta' : 'full';
+      let historyId = stored.historyId;
+      let pendingHistoryId = stored.pendingHistoryId;
+      let pageToken = stored.pageToken;
+      let resyncedAt = stored.resyncedAt;
+      let pages = 0;
+
+      const deliver = async (ids: string[]) => {
+        const messages: SyncedEmailMessage[] = [];
+        for (const id of Array.from(new Set(ids))) {
+          try {
+            const parsed = parseGmailMessage(await get(`/messages/${encodeURIComponent(id)}?format=full`));
+            if (parsed) messages.push(parsed);
+          } catch (error) {
+            // A message deleted between listing and fetching is simply gone.
+            if (!(error instanceof GmailRequestError && error.status === 404)) throw error;
+          }
+        }
+        await onMessages(messages);
+      };
+
+      if (historyId) {
+        while (pages < maxPages) {
+          const query = new URLSearchParams({ startHistoryId: historyId, historyTypes: 'messageAdded', maxResults: '100' });
+          if (pageToken) query.set('pageToken', pageToken);
+          let data: any;
+          try {
+            data = await get(`/history?${query.toString()}`);
+          } catch (error) {
+            if (!(error instanceof GmailRequestError && error.status === 404)) throw error;
+            mode = 'resync';
+            resyncedAt = now.toISOString();
+            historyId = null;
+            pendingHistoryId = null;
+            pageToken = null;
+            break;
+          }
+          pages += 1;
+          const ids = (Array.isArray(data.history) ? data.history : []).flatMap((entry: any) => (
+            (Array.isArray(entry.messagesAdded) ? entry.messagesAdded : []).map((added: any) => String(added?.message?.id || ''))
+          )).filter(Boolean);
+          await deliver(ids);
+          pageToken = typeof data.nextPageToken === 'string' ? data.nextPageToken : null;
+          if (!pageToken) {
+            historyId = String(data.historyId || historyId);
+            break;
+          }
+        }
+      }
+
+      if (!historyId) {
+        // The mailbox historyId is read before listing, so anything that
+        // arrives while the listing pages through is picked up by history.
+        pendingHistoryId = pendingHistoryId || String((await get('/profile')).historyId || '') || null;
+        const afterSeconds = Math.floor((now.getTime() - days * DAY_MS) / 1000);
+        while (pages < maxPages) {
+          const query = new URLSearchParams({ q: `after:${afterSeconds} -in:chats -in:drafts`, maxResults: '100' });
+          if (pageToken) query.set('pageToken', pageToken);
+          const data = await get(`/messages?${query.toString()}`);
+          pages += 1;
+          await deliver((Array.isArray(data.messages) ? data.messages : []).map((message: any) => String(message?.id || '')));
+          pageToken = typeof data.nextPageToken === 'string' ? data.nextPageToken : null;
+          if (!pageToken) {
+            historyId = pendingHistoryId;
+            pendingHistoryId = null;
+            break;
+          }
+        }
+      }
+
+      const next: GmailSyncCursor = {
+        historyId,
+        pageToken,
+        pendingHistoryId,
+        syncedAt: now.toISOString(),
+        resyncedAt,
+      };
+      await saveCursor(GMAIL_CURSOR_KEY, next);
+      return { mode, pages, removed: 0, complete: !pageToken };
+    },
+    async fetchAttachments(message) {
+      const gmailMessageId = String(message.rawMetadata.gmailMessageId || '');
+      const refs = Array.isArray(message.rawMetadata.gmailAttachments)
+        ? message.rawMetadata.gmailAttachments as GmailAttachmentRef[]
+        : [];
+      const attachments = [];
+      for (const ref of refs) {
+        if (!gmailMessageId || ref.size > EMAIL_ATTACHMENT_MAX_BYTES) continue;
+        const data = await get(`/messages/${encodeURIComponent(gmailMessageId)}/attachments/${encodeURIComponent(ref.attachmentId)}`);
+        if (typeof data.data !== 'string') continue;
+        attachments.push({
+          fileName: ref.fileName,
+          contentType: ref.contentType,
+          content: Buffer.from(data.data, 'base64url'),
+          inline: ref.inline,
+        });
+      }
+      return attachments;
+    },
+  };
+}
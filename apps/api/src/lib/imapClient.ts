@@ -0,0 +1,329 @@
+import net from 'node:net';
+import tls from 'node:tls';
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// `tls` is implicit TLS (993) and `starttls` upgrades a plain connection
+// (143) before logging in. Stored mailbox credentials only ever map to one of
+// those two; `plain` exists for local test servers.
+export type ImapTransport = 'tls' | 'starttls' | 'plain';
+
+export type ImapConnectionOptions = {
+  host: string;
+  // A pre-resolved address to dial; `host` is still used for TLS verification.
+  address?: string;
+  port: number;
+  transport: ImapTransport;
+  username: string;
+  password: string;
+  timeoutMs?: number;
+};
+
+export type ImapResponseLine = {
+  text: string;
+  literals: Buffer[];
+};
+
+export type ImapMailboxInfo = {
+  name: string;
+  delimiter: string | null;
+  flags: string[];
+};
+
+export type ImapSelectedMailbox = {
+  exists: number;
+  uidValidity: number | null;
+  uidNext: number | null;
+};
+
+export type ImapFetchedHeaders = {
+  uid: number;
+  internalDate: Date | null;
+  size: number;
+  headers: string;
+};
+
+export class ImapError extends Error {
+  status: 'NO' | 'BAD' | null;
+
+  constructor(message: string, status: 'NO' | 'BAD' | null = null) {
+    super(message);
+    this.name = 'ImapError';
+    this.status = status;
+  }
+}
+
+/** The server refused the stored username or password. */
+export class ImapLoginError extends ImapError {
+  constructor(message: string) {
+    super(message, 'NO');
+    this.name = 'ImapLoginError';
+  }
+}
+
+function quote(value: string): string {
+  // A line break would end the command early and let the rest run as a new one.
+  if (/[\r\n\0]/.test(value)) throw new ImapError('IMAP strings cannot contain line breaks');
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/** IMAP SEARCH dates are day-Mon-year with no time or zone. */
+export function formatImapSearchDate(date: Date): string {
+  return `${date.getUTCDate()}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()}`;
+}
+
+function parseInternalDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  // "17-Jul-1996 02:44:25 -0700" -> "17 Jul 1996 02:44:25 -0700"
+  const date = new Date(value.trim().replace(/^(\d{1,2})-(\w{3})-(\d{4})/, '$1 $2 $3'));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * The slice of IMAP4rev1 the mailbox sync needs: login, folder listing,
+ * read-only select, UID search and header fetches. Commands run one at a
+ * time; literals in responses are collected alongside the line they belong to.
+ */
+export class ImapClient {
+  private socket: net.Socket;
+  private buffer = Buffer.alloc(0);
+  private tagCounter = 0;
+  private line: ImapResponseLine | null = null;
+  private literalBytes: number | null = null;
+  private greeting: { resolve: () => void; reject: (error: Error) => void } | null = null;
+  private pending: {
+    tag: string;
+    lines: ImapResponseLine[];
+    resolve: (lines: ImapResponseLine[]) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private closedError: Error | null = null;
+
+  private constructor(socket: net.Socket) {
+    this.socket = socket;
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.drain();
+    });
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new ImapError('IMAP connection closed')));
+    socket.on('timeout', () => {
+      this.fail(new ImapError('IMAP server timed out'));
+      socket.destroy();
+    });
+  }
+
+  static async connect(options: ImapConnectionOptions): Promise<ImapClient> {
+    const host = options.address || options.host;
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const socket = options.transport === 'tls'
+      ? tls.connect({ host, port: options.port, servername: options.host })
+      : net.connect({ host, port: options.port });
+    socket.setTimeout(timeoutMs);
+    let client = new ImapClient(socket);
+    try {
+      await new Promise<void>((resolve, reject) => {
+        client.greeting = { resolve, reject };
+      });
+      if (options.transport === 'starttls') client = await client.startTls(options.host, timeoutMs);
+      await client.command(`LOGIN ${quote(options.username)} ${quote(options.password)}`).catch((error: unknown) => {
+        throw error instanceof ImapError && error.status === 'NO' ? new ImapLoginError(error.message) : error;
+      });
+    } catch (error) {
+      client.socket.destroy();
+      socket.destroy();
+      throw error;
+    }
+    return client;
+  }
+
+  /**
+   * Upgrades the plain connection in place and hands back a client reading the
+   * TLS socket. Anything the server sent after its STARTTLS reply is dropped
+   * unread, since it arrived before the handshake could protect it.
+   */
+  private async startTls(servername: string, timeoutMs: number): Promise<ImapClient> {
+    await this.command('STARTTLS');
+    const plain = this.socket;
+    for (const event of ['data', 'error', 'close', 'timeout']) plain.removeAllListeners(event);
+    const secure = tls.connect({ socket: plain, servername });
+    secure.setTimeout(timeoutMs);
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', resolve);
+      secure.once('error', reject);
+    });
+    return new ImapClient(secure);
+  }
+
+  private fail(error: Error) {
+    if (this.closedError) return;
+    this.closedError = error;
+    this.greeting?.reject(error);
+    this.greeting = null;
+    this.pending?.reject(error);
+    this.pending = null;
+  }
+
+  private drain() {
+    while (true) {
+      if (this.literalBytes !== null) {
+        if (this.buffer.length < this.literalBytes) return;
+        this.line!.literals.push(this.buffer.subarray(0, this.literalBytes));
+        this.buffer = this.buffer.subarray(this.literalBytes);
+        this.literalBytes = null;
+        continue;
+      }
+      const end = this.buffer.indexOf('\r\n');
+      if (end < 0) return;
+      const text = this.buffer.subarray(0, end).toString('utf8');
+      this.buffer = this.buffer.subarray(end + 2);
+      this.line = this.line ? { ...this.line, text: this.line.text + text } : { text, literals: [] };
+      const literal = /\{(\d+)\}$/.exec(text);
+      if (literal) {
+        this.literalBytes = Number(literal[1]);
+        continue;
+      }
+      const complete = this.line;
+      this.line = null;
+      this.handleLine(complete);
+    }
+  }
+
+  private handleLine(line: ImapResponseLine) {
+    if (this.greeting) {
+      const greeting = this.greeting;
+      this.greeting = null;
+      if (/^\* (OK|PREAUTH)\b/i.test(line.text)) greeting.resolve();
+      else greeting.reject(new ImapError(`Unexpected IMAP greeting: ${line.text}`));
+      return;
+    }
+    const pending = this.pending;
+    if (!pending) return;
+    if (line.text.startsWith(`${pending.tag} `)) {
+      this.pending = null;
+      const status = /^\S+ (OK|NO|BAD)\b ?(.*)$/i.exec(line.text);
+      if (status?.[1].toUpperCase() === 'OK') pending.resolve(pending.lines);
+      else {
+        const code = status?.[1].toUpperCase() === 'NO' ? 'NO' : 'BAD';
+        pending.reject(new ImapError(status?.[2] || `IMAP command failed: ${line.text}`, code));
+      }
+      return;
+    }
+    if (line.text.startsWith('* ')) pending.lines.push(line);
+  }
+
+  command(command: string): Promise<ImapResponseLine[]> {
+    if (this.closedError) return Promise.reject(this.closedError);
+    if (this.pending) return Promise.reject(new ImapError('IMAP client is busy'));
+    this.tagCounter += 1;
+    const tag = `A${this.tagCounter}`;
+    return new Promise((resolve, reject) => {
+      this.pending = { tag, lines: [], resolve, reject };
+      this.socket.write(`${tag} ${command}\r\n`);
+    });
+  }
+
+  async list(): Promise<ImapMailboxInfo[]> {
+    const lines = await this.command('LIST "" "*"');
+    return lines.flatMap((line) => {
+      const match = /^\* LIST \(([^)]*)\) (NIL|"(?:[^"\\]|\\.)*") (.+)$/i.exec(line.text);
+      if (!match) return [];
+      const rawName = line.literals[0]?.toString('utf8') ?? match[3].trim();
+      return [{
+        name: rawName.replace(/^"(.*)"$/, '$1').replace(/\\(["\\])/g, '$1'),
+        delimiter: match[2].toUpperCase() === 'NIL' ? null : match[2].slice(1, -1),
+        flags: match[1].split(/\s+/).filter(Boolean),
+      }];
+    });
+  }
+
+  /** Opens a folder read-only, so syncing never marks mail as seen. */
+  async examine(mailbox: string): Promise<ImapSelectedMailbox> {
+    const lines = await this.command(`EXAMINE ${quote(mailbox)}`);
+    let exists = 0;
+    let uidValidity: number | null = null;
+    let uidNext: number | null = null;
+    for (const line of lines) {
+      const existsMatch = /^\* (\d+) EXISTS/i.exec(line.text);
+      if (existsMatch) exists = Number(existsMatch[1]);
+      const validity = /\[UIDVALIDITY (\d+)\]/i.exec(line.text);
+      if (validity) uidValidity = Number(validity[1]);
+      const next = /\[UIDNEXT (\d+)\]/i.exec(line.text);
+      if (next) uidNext = Number(next[1]);
+    }
+    return { exists, uidValidity, uidNext };
+  }
+
+  async uidSearch(criteria: string): Promise<number[]> {
+    const lines = await this.command(`UID SEARCH ${criteria}`);
+    return lines
+      .filter((line) => /^\* SEARCH\b/i.test(line.text))
+      .flatMap((line) => line.text.replace(/^\* SEARCH\s*/i, '').split(/\s+/))
+      .map(Number)
+      .filter((uid) => Number.isInteger(uid) && uid > 0)
+      .sort((left, right) => left - right);
+  }
+
+  async uidFetchHeaders(uids: number[], fields: string[]): Promise<ImapFetchedHeaders[]> {
+    if (uids.length === 0) return [];
+    const lines = await this.command(
+      `UID FETCH ${uids.join(',')} (UID INTERNALDATE RFC822.SIZE BODY.PEEK[HEADER.FIELDS (${fields.join(' ')})])`,
+    );
+    return lines.flatMap((line) => {
+      if (!/^\* \d+ FETCH\b/i.test(line.text)) return [];
+      const uid = Number(/\bUID (\d+)/i.exec(line.text)?.[1]);
+      if (!uid) return [];
+      return [{
+        uid,
+        internalDate: parseInternalDate(/\bINTERNALDATE "([^"]+)"/i.exec(line.text)?.[1]),
+        size: Number(/\bRFC822\.SIZE (\d+)/i.exec(line.text)?.[1] || 0),
+        headers: line.literals[0]?.toString('utf8') || '',
+      }];
+    });
+  }
+
+  async logout(): Promise<void> {
+    try {
+      if (!this.closedError) await this.command('LOGOUT');
+    } catch {
+      // The server may hang up before acknowledging LOGOUT.
+    } finally {
+      this.socket.end();
+    }
+  }
+}
+
+function decodeWord(charset: string, encoding: string, text: string): string {
+  const bytes = encoding.toUpperCase() === 'B'
+    ? Buffer.from(text, 'base64')
+    : Buffer.from(
+      text.replace(/_/g, ' ').replace(/=([0-9A-F]{2})/gi, (_match, hex) => String.fromCharCode(parseInt(hex, 16))),
+      'latin1',
+    );
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
+
+/** Decodes RFC 2047 encoded words such as `=?UTF-8?B?...?=` in a header value. */
+export function decodeMimeHeader(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_match, charset, encoding, text) => decodeWord(charset, encoding, text));
+}
+
+/** Unfolds a raw header block into lower-cased names and decoded values. */
+export function parseHeaderBlock(raw: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of raw.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const name = line.slice(0, separator).trim().toLowerCase();
+    if (name in headers) continue;
+    headers[name] = decodeMimeHeader(line.slice(separator + 1).trim());
+  }
+  return headers;
+}
@@ -0,0 +1,309 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import type { AddressInfo } from 'node:net';
+
+import { ImapClient, ImapError, ImapLoginError } from './imapClient';
+import {
+  ImapCredentialsSchema,
+  createImapMailProvider,
+  imapConnectionOptions,
+  isBlockedImapAddress,
+  resolveImapConnectionOptions,
+  type ImapCredentials,
+} from './imapMailProvider';
+import { EmailConnectionAuthError, isEmailConnectionAuthFailure, type SyncedEmailMessage } from './emailSyncProvider';
+import { GraphRequestError } from './microsoftGraph';
+
+type StubMessage = { uid: number; internalDate: string; headers: string };
+type StubFolder = { uidValidity: number; flags: string; messages: StubMessage[] };
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function headers(fields: Record<string, string>) {
+  return `${Object.entries(fields).map(([name, value]) => `${name}: ${value}`).join('\r\n')}\r\n\r\n`;
+}
+
+function imapDate(iso: string) {
+  const date = new Date(iso);
+  const time = date.toISOString().slice(11, 19);
+  return `${String(date.getUTCDate()).padStart(2, '0')}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()} ${time} +0000`;
+}
+
+// Just enough of an IMAP server to answer the commands the provider sends.
+async function startStubImapServer(folders: Record<string, StubFolder>, password = 'secret') {
+  const commands: string[] = [];
+  const server = net.createServer((socket) => {
+    let selected: StubFolder | null = null;
+    let buffer = '';
+    socket.write('* OK stub IMAP ready\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+      let end = buffer.indexOf('\r\n');
+      while (end >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        end = buffer.indexOf('\r\n');
+        const [tag, ...rest] = line.split(' ');
+        const command = rest.join(' ');
+        commands.push(command);
+        if (/^LOGIN /i.test(command)) {
+          const [, suppliedPassword] = Array.from(command.matchAll(/"([^"]*)"/g), (match) => match[1]);
+          socket.write(suppliedPassword === password ? `${tag} OK logged in\r\n` : `${tag} NO [AUTHENTICATIONFAILED] Invalid credentials\r\n`);
+        } else if (/^LIST /i.test(command)) {
+          for (const [name, folder] of Object.entries(folders)) {
+            socket.write(`* LIST (${folder.flags}) "/" "${name}"\r\n`);
+          }
+          socket.write(`${tag} OK LIST completed\r\n`);
+        } else if (/^EXAMINE /i.test(command)) {
+          selected = folders[/"([^"]+)"/.exec(command)?.[1] || ''] || null;
+          if (!selected) {
+            socket.write(`${tag} NO no such mailbox\r\n`);
+            continue;
+          }
+          const uidNext = Math.max(0, ...selected.messages.map((message) => message.uid)) + 1;
+          socket.write(`* ${selected.messages.length} EXISTS\r\n`);
+          socket.write(`* OK [UIDVALIDITY ${selected.uidValidity}] UIDs valid\r\n`);
+          socket.write(`* OK [UIDNEXT ${uidNext}] Predicted next UID\r\n`);
+          socket.write(`${tag} OK [READ-ONLY] EXAMINE completed\r\n`);
+        } else if (/^UID SEARCH /i.test(command) && selected) {
+          const messages = selected.messages;
+          const since = /SINCE (\d+)-(\w+)-(\d+)/i.exec(command);
+          const range = /UID (\d+):\*/i.exec(command);
+          let uids: number[] = [];
+          if (since) {
+            const cutoff = Date.UTC(Number(since[3]), MONTHS.indexOf(since[2]), Number(since[1]));
+            uids = messages.filter((message) => new Date(message.internalDate).getTime() >= cutoff).map((message) => message.uid);
+          } else if (range) {
+            const highest = Math.max(0, ...messages.map((message) => message.uid));
+            uids = messages.filter((message) => message.uid >= Number(range[1])).map((message) => message.uid);
+            if (uids.length === 0 && highest > 0) uids = [highest];
+          }
+          socket.write(`* SEARCH${uids.map((uid) => ` ${uid}`).join('')}\r\n${tag} OK SEARCH completed\r\n`);
+        } else if (/^UID FETCH /i.test(command) && selected) {
+          const wanted = new Set((/^UID FETCH ([\d,]+)/i.exec(command)?.[1] || '').split(',').map(Number));
+          selected.messages.forEach((message, index) => {
+            if (!wanted.has(message.uid)) return;
+            const block = Buffer.from(message.headers, 'utf8');
+            socket.write(
+              `* ${index + 1} FETCH (UID ${message.uid} INTERNALDATE "${imapDate(message.internalDate)}" `
+              + `RFC822.SIZE ${block.length} BODY[HEADER.FIELDS (FROM TO)] {${block.length}}\r\n`,
+            );
+            socket.write(block);
+            socket.write(')\r\n');
+          });
+          socket.write(`${tag} OK FETCH completed\r\n`);
+        } else if (/^LOGOUT/i.test(command)) {
+          socket.end(`* BYE logging out\r\n${tag} OK LOGOUT completed\r\n`);
+        } else {
+          socket.write(`${tag} BAD unsupported command\r\n`);
+        }
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    commands,
+    credentials: { host: '127.0.0.1', port, username: 'broker@example.com', password } as ImapCredentials,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+function mailbox(): Record<string, StubFolder> {
+  const recent = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString();
+  return {
+    INBOX: {
+      uidValidity: 7,
+      flags: '\\HasNoChildren',
+      messages: [
+        {
+          uid: 3,
+          internalDate: '2020-01-06T09:00:00.000Z',
+          headers: headers({ From: 'old@example.com', Subject: 'Long gone', 'Message-ID': '<old@example.com>' }),
+        },
+        {
+          uid: 12,
+          internalDate: recent,
+          headers: headers({
+            From: '"Doe, Jane" <Jane@Tenant.example>',
+            To: 'broker@example.com',
+            Cc: 'ops@tenant.example',
+            Subject: '=?UTF-8?B?MTIwMCBJbmR1c3RyaWFsIFdheSDigJMgdG91cg==?=',
+            Date: 'Tue, 07 Jul 2026 09:15:00 +0000',
+            'Message-ID': '<tour-1@tenant.example>',
+            'Content-Type': 'multipart/mixed; boundary="x"',
+          }),
+        },
+      ],
+    },
+    'Sent Items': {
+      uidValidity: 9,
+      flags: '\\HasNoChildren \\Sent',
+      messages: [
+        {
+          uid: 40,
+          internalDate: recent,
+          headers: headers({
+            From: 'broker@example.com',
+            To: 'jane@tenant.example',
+            Subject: 'Re: 1200 Industrial Way',
+            'Message-ID': '<reply-1@example.com>',
+          }),
+        },
+      ],
+    },
+  };
+}
+
+async function sync(credentials: ImapCredentials, cursor: Record<string, unknown>) {
+  const delivered: SyncedEmailMessage[] = [];
+  const saved: Record<string, unknown> = {};
+  // The stub listens on loopback without TLS, which real mailboxes never may.
+  const connect = (stub: ImapCredentials) => ImapClient.connect({ ...imapConnectionOptions(stub), transport: 'plain' });
+  const result = await createImapMailProvider({ credentials, connect }).syncMailbox({
+    cursor,
+    days: 30,
+    maxPages: 10,
+    onMessages: async (messages) => {
+      delivered.push(...messages);
+    },
+    saveCursor: async (key, value) => {
+      saved[key] = value;
+    },
+  });
+  return { result, delivered, cursor: { ...cursor, ...saved } };
+}
+
+test('reads the inbox and flagged sent folder read-only on the first sync', async () => {
+  const server = await startStubImapServer(mailbox());
+  try {
+    const { result, delivered, cursor } = await sync(server.credentials, {});
+
+    assert.equal(result.mode, 'full');
+    assert.equal(result.complete, true);
+    assert.deepEqual(delivered.map((message) => message.providerMessageId), [
+      'internet-message:<tour-1@tenant.example>',
+      'internet-message:<reply-1@example.com>',
+    ]);
+    const [received, sent] = delivered;
+    assert.equal(received.direction, 'received');
+    assert.equal(received.subject, '1200 Industrial Way – tour');
+    assert.equal(received.senderEmail, 'jane@tenant.example');
+    assert.equal(received.senderName, 'Doe, Jane');
+    assert.deepEqual(received.ccEmails, ['ops@tenant.example']);
+    assert.equal(received.hasAttachments, true);
+    assert.equal(sent.mailbox, 'sent');
+    assert.deepEqual(sent.recipientEmails, ['jane@tenant.example']);
+    assert.ok(server.commands.includes('EXAMINE "Sent Items"'));
+    assert.ok(!server.commands.some((command) => /^SELECT /i.test(command)));
+    assert.deepEqual(
+      { uidValidity: (cursor['imap:INBOX'] as any).uidValidity, lastUid: (cursor['imap:INBOX'] as any).lastUid },
+      { uidValidity: 7, lastUid: 12 },
+    );
+  } finally {
+    await server.close();
+  }
+});
+
+test('delivers only mail that arrived after the stored UID on the next sync', async () => {
+  const folders = mailbox();
+  const server = await startStubImapServer(folders);
+  try {
+    const first = await sync(server.credentials, {});
+    folders.INBOX.messages.push({
+      uid: 13,
+      internalDate: new Date().toISOString(),
+      headers: headers({ From: 'jane@tenant.example', Subject: 'LOI attached', 'Message-ID': '<loi@tenant.example>' }),
+    });
+
+    const second = await sync(server.credentials, first.cursor);
+
+    assert.equal(second.result.mode, 'delta');
+    assert.deepEqual(second.delivered.map((message) => message.subject), ['LOI attached']);
+    assert.ok(server.commands.includes('UID SEARCH UID 13:*'));
+
+    const third = await sync(server.credentials, second.cursor);
+    assert.deepEqual(third.delivered, []);
+  } finally {
+    await server.close();
+  }
+});
+
+test('resyncs a folder from the day window when its UIDVALIDITY changes', async () => {
+  const folders = mailbox();
+  const server = await startStubImapServer(folders);
+  try {
+    const first = await sync(server.credentials, {});
+    folders.INBOX.uidValidity = 8;
+
+    const second = await sync(server.credentials, first.cursor);
+
+    assert.equal(second.result.mode, 'resync');
+    assert.deepEqual(second.delivered.map((message) => message.subject), ['1200 Industrial Way – tour']);
+    assert.equal((second.cursor['imap:INBOX'] as any).uidValidity, 8);
+    assert.ok((second.cursor['imap:INBOX'] as any).resyncedAt);
+  } finally {
+    await server.close();
+  }
+});
+
+test('surfaces a rejected login as an IMAP error', async () => {
+  const server = await startStubImapServer(mailbox());
+  try {
+    await assert.rejects(
+      sync({ ...server.credentials, password: 'wrong' }, {}),
+      (error: unknown) => error instanceof ImapLoginError
+        && error instanceof ImapError
+        && error.status === 'NO'
+        && /Invalid credentials/.test(error.message)
+        && isEmailConnectionAuthFailure(error),
+    );
+  } finally {
+    await server.close();
+  }
+});
+
+test('only treats auth failures as a broken connection', () => {
+  assert.equal(isEmailConnectionAuthFailure(new EmailConnectionAuthError('Outlook connection needs reauthorization')), true);
+  assert.equal(isEmailConnectionAuthFailure(new GraphRequestError(401, 'InvalidAuthenticationToken')), true);
+  assert.equal(isEmailConnectionAuthFailure(new GraphRequestError(429, 'Too many requests')), false);
+  assert.equal(isEmailConnectionAuthFailure(new GraphRequestError(503, 'Service unavailable')), false);
+  assert.equal(isEmailConnectionAuthFailure(new ImapError('Mailbox is locked', 'NO')), false);
+  assert.equal(isEmailConnectionAuthFailure(new Error('socket hang up')), false);
+});
+
+test('refuses internal server addresses and unencrypted ports', async () => {
+  for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.5', '192.168.1.10', '169.254.169.254', '100.64.0.1', '::1', 'fd00:ec2::254', 'fe80::1', '::ffff:10.0.0.1']) {
+    assert.equal(isBlockedImapAddress(address), true, address);
+  }
+  assert.equal(isBlockedImapAddress('203.0.113.25'), false);
+  assert.equal(isBlockedImapAddress('2607:f8b0:4004:c1b::6c'), false);
+
+  const credentials = ImapCredentialsSchema.parse({ host: 'imap.example.com', username: 'broker', password: 'secret' });
+  await assert.rejects(
+    resolveImapConnectionOptions(credentials, async () => [{ address: '203.0.113.25' }, { address: '10.0.0.8' }]),
+    /not allowed/,
+  );
+  const options = await resolveImapConnectionOptions({ ...credentials, port: 143 }, async () => [{ address: '203.0.113.25' }]);
+  assert.deepEqual([options.address, options.host, options.transport], ['203.0.113.25', 'imap.example.com', 'starttls']);
+
+  assert.equal(ImapCredentialsSchema.safeParse({ host: 'imap.example.com', port: 25, username: 'a', password: 'b' }).success, false);
+  assert.equal(
+    ImapCredentialsSchema.safeParse({ host: 'imap.example.com', username: 'a', password: 'x\r\nA2 DELETE INBOX' }).success,
+    false,
+  );
+});
+
+test('never sends a login that carries a line break', async () => {
+  const server = await startStubImapServer(mailbox());
+  try {
+    await assert.rejects(
+      ImapClient.connect({ ...imapConnectionOptions(server.credentials), transport: 'plain', password: 'x\r\nA9 LOGOUT' }),
+      /line breaks/,
+    );
+    assert.ok(!server.commands.some((command) => /^LOGIN /i.test(command)));
+  } finally {
+    await server.close();
+  }
+});
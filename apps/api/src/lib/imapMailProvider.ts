@@ -0,0 +1,242 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import { z } from 'zod';
+
+import {
+  parseAddressHeader,
+  summarizeEmailSyncModes,
+  type EmailSyncMode,
+  type EmailSyncProvider,
+  type SyncedEmailMessage,
+} from './emailSyncProvider';
+import { ImapClient, ImapError, formatImapSearchDate, parseHeaderBlock, type ImapConnectionOptions } from './imapClient';
+
+export const IMAP_CURSOR_PREFIX = 'imap:';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FETCH_BATCH_SIZE = 50;
+const HEADER_FIELDS = ['FROM', 'TO', 'CC', 'BCC', 'SUBJECT', 'DATE', 'MESSAGE-ID', 'CONTENT-TYPE'];
+// Checked in order when the server does not flag its sent folder with the
+// RFC 6154 \Sent attribute.
+const SENT_FOLDER_NAMES = ['Sent', 'Sent Items', 'Sent Messages', 'Sent Mail', '[Gmail]/Sent Mail', 'INBOX.Sent'];
+
+const NO_LINE_BREAKS = /^[^\r\n\0]*$/;
+
+/**
+ * Stored encrypted in `email_connections.token_ciphertext`. Only the two TLS
+ * ports are accepted: 993 connects over TLS and 143 must upgrade with STARTTLS.
+ */
+export const ImapCredentialsSchema = z.object({
+  host: z.string().trim().min(1).max(255),
+  port: z.union([z.literal(993), z.literal(143)]).default(993),
+  username: z.string().trim().min(1).max(320).regex(NO_LINE_BREAKS, 'Username cannot contain line breaks'),
+  password: z.string().min(1).max(1000).regex(NO_LINE_BREAKS, 'Password cannot contain line breaks'),
+  sentFolder: z.string().trim().max(255).nullable().optional(),
+});
+
+export type ImapCredentials = z.infer<typeof ImapCredentialsSchema>;
+
+export type ImapFolderCursor = {
+  uidValidity: number;
+  lastUid: number;
+  syncedAt: string | null;
+  resyncedAt: string | null;
+};
+
+export function parseImapFolderCursor(raw: unknown): ImapFolderCursor | null {
+  const value = raw && typeof raw === 'object' ? raw as Record<string, unknown> : null;
+  const uidValidity = Number(value?.uidValidity);
+  const lastUid = Number(value?.lastUid);
+  if (!Number.isInteger(uidValidity) || !Number.isInteger(lastUid) || lastUid < 0) return null;
+  return {
+    uidValidity,
+    lastUid,
+    syncedAt: typeof value?.syncedAt === 'string' ? value.syncedAt : null,
+    resyncedAt: typeof value?.resyncedAt === 'string' ? value.resyncedAt : null,
+  };
+}
+
+export function imapConnectionOptions(credentials: ImapCredentials): ImapConnectionOptions {
+  return {
+    host: credentials.host,
+    port: credentials.port,
+    transport: credentials.port === 993 ? 'tls' : 'starttls',
+    username: credentials.username,
+    password: credentials.password,
+  };
+}
+
+// Loopback, private, link-local (including cloud metadata), shared, reserved
+// and multicast ranges. A mailbox server is always somewhere on the internet.
+const BLOCKED_IMAP_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_IMAP_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8], ['64:ff9b::', 96]] as const) {
+  BLOCKED_IMAP_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isBlockedImapAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return BLOCKED_IMAP_ADDRESSES.check(mapped[1], 'ipv4');
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_IMAP_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolves the mailbox host and refuses internal addresses, then pins the
+ * connection to the checked address so a second lookup cannot swap it.
+ */
+export async function resolveImapConnectionOptions(
+  credentials: ImapCredentials,
+  resolve: (host: string) => Promise<Array<{ address: string }>> = (host) => lookup(host, { all: true }),
+): Promise<ImapConnectionOptions> {
+  const addresses = await resolve(credentials.host);
+  if (addresses.length === 0 || addresses.some(({ address }) => isBlockedImapAddress(address))) {
+    throw new ImapError('IMAP server address is not allowed');
+  }
+  return { ...imapConnectionOptions(credentials), address: addresses[0].address };
+}
+
+export async function connectImapMailbox(credentials: ImapCredentials): Promise<ImapClient> {
+  return ImapClient.connect(await resolveImapConnectionOptions(credentials));
+}
+
+export function parseImapMessage(params: {
+  folder: string;
+  uidValidity: number;
+  uid: number;
+  internalDate: Date | null;
+  headers: string;
+  sent: boolean;
+}): SyncedEmailMessage {
+  const headers = parseHeaderBlock(params.headers);
+  const from = parseAddressHeader(headers.from)[0];
+  const emails = (name: string) => parseAddressHeader(headers[name]).map((address) => address.email);
+  const messageId = String(headers['message-id'] || '').trim();
+  const sentAt = headers.date ? new Date(headers.date) : null;
+  const hasAttachments = /^multipart\/(mixed|related)/i.test(headers['content-type'] || '');
+  return {
+    providerMessageId: messageId
+      ? `internet-message:${messageId}`
+      : `imap:${params.folder}:${params.uidValidity}:${params.uid}`,
+    providerThreadId: null,
+    mailbox: params.sent ? 'sent' : 'inbox',
+    direction: params.sent ? 'sent' : 'received',
+    subject: headers.subject || '',
+    senderEmail: from?.email || '',
+    senderName: from?.name || '',
+    recipientEmails: emails('to'),
+    ccEmails: emails('cc'),
+    bccEmails: emails('bcc'),
+    sentAt: sentAt && !Number.isNaN(sentAt.getTime()) ? sentAt : null,
+    receivedAt: params.internalDate,
+    snippet: '',
+    attachmentNames: [],
+    hasAttachments,
+    sourceUrl: '',
+    rawMetadata: {
+      folder: params.sent ? 'sent' : 'inbox',
+      imapFolder: params.folder,
+      imapUid: params.uid,
+      imapUidValidity: params.uidValidity,
+      bccRecipients: emails('bcc'),
+      internetMessageId: messageId || null,
+      hasAttachments,
+    },
+  };
+}
+
+async function resolveSentFolder(client: ImapClient, configured: string | null | undefined): Promise<string | null> {
+  if (configured) return configured;
+  const folders = await client.list();
+  const flagged = folders.find((folder) => folder.flags.some((flag) => flag.toLowerCase() === '\\sent'));
+  if (flagged) return flagged.name;
+  const names = new Set(folders.map((folder) => folder.name));
+  return SENT_FOLDER_NAMES.find((name) => names.has(name)) || null;
+}
+
+/**
+ * Reads the inbox and sent folder of a plain IMAP mailbox by UID. Each folder
+ * remembers the last UID it delivered under the folder's UIDVALIDITY; when the
+ * server reports a new UIDVALIDITY the old UIDs mean nothing and the folder is
+ * resynced from the `days` window. IMAP carries no attachment content in the
+ * header fetch, so attachments are left to the forward-to-inbox capture.
+ */
+export function createImapMailProvider(params: {
+  credentials: ImapCredentials;
+  connect?: (credentials: ImapCredentials) => Promise<ImapClient>;
+}): EmailSyncProvider {
+  const connect = params.connect || connectImapMailbox;
+  return {
+    provider: 'imap',
+    async syncMailbox({ cursor, days, maxPages, onMessages, saveCursor }) {
+      const now = new Date();
+      const client = await connect(params.credentials);
+      const modes: EmailSyncMode[] = [];
+      let pages = 0;
+      let complete = true;
+      try {
+        const sentFolder = await resolveSentFolder(client, params.credentials.sentFolder);
+        const folders = [{ name: 'INBOX', sent: false }];
+        if (sentFolder && sentFolder.toUpperCase() !== 'INBOX') folders.push({ name: sentFolder, sent: true });
+
+        for (const folder of folders) {
+          const key = `${IMAP_CURSOR_PREFIX}${folder.name}`;
+          const stored = parseImapFolderCursor(cursor[key]);
+          const selected = await client.examine(folder.name);
+          const uidValidity = selected.uidValidity ?? 0;
+          let mode: EmailSyncMode = 'full';
+          let lastUid = 0;
+          let resyncedAt = stored?.resyncedAt || null;
+          if (stored && stored.uidValidity === uidValidity) {
+            mode = 'delta';
+            lastUid = stored.lastUid;
+          } else if (stored) {
+            mode = 'resync';
+            resyncedAt = now.toISOString();
+          }
+
+          const criteria = mode === 'delta'
+            ? `UID ${lastUid + 1}:*`
+            : `SINCE ${formatImapSearchDate(new Date(now.getTime() - days * DAY_MS))}`;
+          // "n:*" always matches the highest UID, even when it is below n.
+          const uids = (await client.uidSearch(criteria)).filter((uid) => uid > lastUid);
+
+          let offset = 0;
+          while (offset < uids.length && pages < maxPages) {
+            const batch = uids.slice(offset, offset + FETCH_BATCH_SIZE);
+            const fetched = await client.uidFetchHeaders(batch, HEADER_FIELDS);
+            pages += 1;
+            await onMessages(fetched
+              .sort((left, right) => left.uid - right.uid)
+              .map((message) => parseImapMessage({
+                folder: folder.name,
+                uidValidity,
+                uid: message.uid,
+                internalDate: message.internalDate,
+                headers: message.headers,
+                sent: folder.sent,
+              })));
+            lastUid = Math.max(lastUid, ...batch);
+            offset += batch.length;
+          }
+          const folderComplete = offset >= uids.length;
+          // A finished first read must not leave the cursor below mail older
+          // than the window, or the next delta would fetch the whole folder.
+          if (folderComplete && mode !== 'delta' && selected.uidNext) lastUid = Math.max(lastUid, selected.uidNext - 1);
+          complete = complete && folderComplete;
+          modes.push(mode);
+          await saveCursor(key, { uidValidity, lastUid, syncedAt: now.toISOString(), resyncedAt });
+        }
+      } finally {
+        await client.logout();
+      }
+      return { mode: summarizeEmailSyncModes(modes), pages, removed: 0, complete };
+    },
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Overridable so tests and local tooling can point the Outlook integrations
+ * at a stub server instead of Microsoft Graph.
+ */
+export function microsoftGraphBaseUrl(): string {
+  return String(process.env.MICROSOFT_GRAPH_BASE_URL || 'https://graph.microsoft.com/v1.0').replace(/\/$/, '');
+}
+
+export class GraphRequestError extends Error {
+  status: number;
+  code: string | null;
+
+  constructor(status: number, message: string, code?: string | null) {
+    super(message);
+    this.name = 'GraphRequestError';
+    this.status = status;
+    this.code = code || null;
+  }
+}
+
+export async function graphGet(accessToken: string, url: string, options: { maxPageSize?: number } = {}) {
+  const prefer = ['IdType="ImmutableId"'];
+  if (options.maxPageSize) prefer.push(`odata.maxpagesize=${options.maxPageSize}`);
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Prefer: prefer.join(', '),
+    },
+  });
+  const json = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new GraphRequestError(
+      response.status,
+      json.error?.message || json.error_description || 'Microsoft Graph request failed',
+      json.error?.code,
+    );
+  }
+  return json;
+}
+
+export type GraphFileAttachment = {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+  inline: boolean;
+};
+
+/**
+ * Downloads a message's file attachments. Metadata is listed first so
+ * oversized files and forwarded-item attachments are never pulled down.
+ */
+export async function fetchGraphFileAttachments(
+  accessToken: string,
+  messageId: string,
+  options: { maxBytes: number; baseUrl?: string },
+): Promise<GraphFileAttachment[]> {
+  const messageUrl = `${options.baseUrl || microsoftGraphBaseUrl()}/me/messages/${encodeURIComponent(messageId)}/attachments`;
+  const listing = await graphGet(accessToken, `${messageUrl}?$select=id,name,contentType,size,isInline`);
+  const attachments: GraphFileAttachment[] = [];
+  for (const item of Array.isArray(listing.value) ? listing.value : []) {
+    if (item?.['@odata.type'] !== '#microsoft.graph.fileAttachment') continue;
+    if (!item.id || Number(item.size || 0) > options.maxBytes) continue;
+    const file = await graphGet(accessToken, `${messageUrl}/${encodeURIComponent(item.id)}`);
+    if (typeof file.contentBytes !== 'string') continue;
+    attachments.push({
+      fileName: String(file.name || item.name || 'attachment'),
+      contentType: String(file.contentType || item.contentType || ''),
+      content: Buffer.from(file.contentBytes, 'base64'),
+      inline: Boolean(file.isInline ?? item.isInline),
+    });
+  }
+  return attachments;
+}
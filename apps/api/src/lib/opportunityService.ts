@@ -145,85 +145,91 @@ async function withTransaction<T>(pool: Pool, callback: (client: PoolClient) =>
   }
 }
 
-export async function createOpportunity(params: {
-  pool: Pool;
-  userId: string;
-  input: OpportunityCreateInput;
-}): Promise<unknown> {
-  return withTransaction(params.pool, async (client) => {
-    await Promise.all([
-      assertOwnedReference(client, params.userId, 'prospects', params.input.prospectId),
-      assertOwnedReference(client, params.userId, 'listings', params.input.listingId),
-    ]);
-    if (params.input.sourceEventId) {
-      const sourceEvent = await client.query(
-        `SELECT id FROM public.activity_events WHERE id = $1 AND user_id = $2 LIMIT 1`,
-        [params.input.sourceEventId, params.userId],
-      );
-      if (!sourceEvent.rows[0]) throw new OpportunityServiceError(400, 'Source activity event was not found');
-    }
-    const id = randomUUID();
-    const { rows } = await client.query(
-      `
-        INSERT INTO public.opportunities (
-          id, user_id, type, title, stage, status, company, contact_name,
-          contact_email, property_address, prospect_id, listing_id, estimated_fee,
-          probability_percent, ownership_share_percent, expected_close_date,
-          confidence, source, notes, metadata
-        )
-        VALUES (
-          $1, $2, $3, $4, 'target', 'active', $5, $6, $7, $8, $9, $10,
-          $11, $12, $13, $14, $15, $16, $17, $18::jsonb
-        )
-        RETURNING *
-      `,
-      [
-        id,
-        params.userId,
-        params.input.type,
-        params.input.title,
-        params.input.company || null,
-        params.input.contactName || null,
-        params.input.contactEmail || null,
-        params.input.propertyAddress || null,
-        params.input.prospectId || null,
-        params.input.listingId || null,
-        params.input.estimatedFee ?? null,
-        params.input.probabilityPercent ?? null,
-        params.input.ownershipSharePercent ?? null,
-        params.input.expectedCloseDate || null,
-        params.input.confidence,
-        params.input.source,
-        params.input.notes || null,
-        JSON.stringify(params.input.metadata || {}),
-      ],
+// Runs inside the caller's transaction so batch creators can insert several opportunities atomically.
+export async function insertOpportunity(
+  client: PoolClient,
+  params: { userId: string; input: OpportunityCreateInput },
+): Promise<{ id: string } & Record<string, unknown>> {
+  await Promise.all([
+    assertOwnedReference(client, params.userId, 'prospects', params.input.prospectId),
+    assertOwnedReference(client, params.userId, 'listings', params.input.listingId),
+  ]);
+  if (params.input.sourceEventId) {
+    const sourceEvent = await client.query(
+      `SELECT id FROM public.activity_events WHERE id = $1 AND user_id = $2 LIMIT 1`,
+      [params.input.sourceEventId, params.userId],
     );
+    if (!sourceEvent.rows[0]) throw new OpportunityServiceError(400, 'Source activity event was not found');
+  }
+  const id = randomUUID();
+  const { rows } = await client.query(
+    `
+      INSERT INTO public.opportunities (
+        id, user_id, type, title, stage, status, company, contact_name,
+        contact_email, property_address, prospect_id, listing_id, estimated_fee,
+        probability_percent, ownership_share_percent, expected_close_date,
+        confidence, source, notes, metadata
+      )
+      VALUES (
+        $1, $2, $3, $4, 'target', 'active', $5, $6, $7, $8, $9, $10,
+        $11, $12, $13, $14, $15, $16, $17, $18::jsonb
+      )
+      RETURNING *
+    `,
+    [
+      id,
+      params.userId,
+      params.input.type,
+      params.input.title,
+      params.input.company || null,
+      params.input.contactName || null,
+      params.input.contactEmail || null,
+      params.input.propertyAddress || null,
+      params.input.prospectId || null,
+      params.input.listingId || null,
+      params.input.estimatedFee ?? null,
+      params.input.probabilityPercent ?? null,
+      params.input.ownershipSharePercent ?? null,
+      params.input.expectedCloseDate || null,
+      params.input.confidence,
+      params.input.source,
+      params.input.notes || null,
+      JSON.stringify(params.input.metadata || {}),
+    ],
+  );
+  await client.query(
+    `
+      INSERT INTO public.opportunity_stage_events (
+        id, user_id, opportunity_id, from_stage, to_stage, evidence_status,
+        confidence, source, source_event_id, reason, metadata
+      )
+      VALUES ($1, $2, $3, NULL, 'target', 'confirmed', $4, $5, $6, 'Opportunity created', '{}'::jsonb)
+    `,
+    [randomUUID(), params.userId, id, params.input.confidence, params.input.source, params.input.sourceEventId || null],
+  );
+
+  if (params.input.type === 'listing_pursuit') {
     await client.query(
       `
-        INSERT INTO public.opportunity_stage_events (
-          id, user_id, opportunity_id, from_stage, to_stage, evidence_status,
-          confidence, source, source_event_id, reason, metadata
+        INSERT INTO public.opportunity_playbook_steps (
+          id, user_id, opportunity_id, step_type, status
         )
-        VALUES ($1, $2, $3, NULL, 'target', 'confirmed', $4, $5, $6, 'Opportunity created', '{}'::jsonb)
+        SELECT gen_random_uuid()::text, $1, $2, step_type, 'pending'
+        FROM unnest($3::varchar[]) AS step_type
       `,
-      [randomUUID(), params.userId, id, params.input.confidence, params.input.source, params.input.sourceEventId || null],
+      [params.userId, id, [...LISTING_PURSUIT_STEPS]],
     );
+  }
 
-    if (params.input.type === 'listing_pursuit') {
-      await client.query(
-        `
-          INSERT INTO public.opportunity_playbook_steps (
-            id, user_id, opportunity_id, step_type, status
-          )
-          SELECT gen_random_uuid()::text, $1, $2, step_type, 'pending'
-          FROM unnest($3::varchar[]) AS step_type
-        `,
-        [params.userId, id, [...LISTING_PURSUIT_STEPS]],
-      );
-    }
+  return rows[0];
+}
 
-    return rows[0];
-  });
+export async function createOpportunity(params: {
+  pool: Pool;
+  userId: string;
+  input: OpportunityCreateInput;
+}): Promise<unknown> {
+  return withTransaction(params.pool, (client) => insertOpportunity(client, params));
 }
 
 export async function changeOpportunityStage(params: {
@@ -0,0 +1,147 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import {
+  buildCalendarMeetingEvent,
+  fetchOutlookCalendarMeetings,
+  parseGraphCalendarEvent,
+} from './outlookCalendarCapture';
+
+const MAILBOX = 'broker@levelcre.com';
+
+function graphEvent(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'evt-1',
+    iCalUId: 'ical-1',
+    subject: 'Site tour - 10735 214 St',
+    start: { dateTime: '2026-07-08T16:00:00.0000000', timeZone: 'UTC' },
+    end: { dateTime: '2026-07-08T17:00:00.0000000', timeZone: 'UTC' },
+    location: { displayName: '10735 214 St NW, Edmonton' },
+    organizer: { emailAddress: { address: MAILBOX, name: 'Broker' } },
+    attendees: [
+      { type: 'required', emailAddress: { address: MAILBOX, name: 'Broker' } },
+      { type: 'required', emailAddress: { address: 'Pat@AcmeLogistics.com', name: 'Pat Lee' } },
+      { type: 'required', emailAddress: { address: 'analyst@levelcre.com', name: 'Analyst' } },
+      { type: 'resource', emailAddress: { address: 'boardroom@levelcre.com', name: 'Boardroom' } },
+    ],
+    isAllDay: false,
+    isCancelled: false,
+    showAs: 'busy',
+    type: 'singleInstance',
+    responseStatus: { response: 'organizer' },
+    webLink: 'https://outlook.office365.com/owa/?itemid=evt-1',
+    ...overrides,
+  };
+}
+
+async function withStubGraph(
+  pages: Record<string, unknown>,
+  run: (baseUrl: string, requests: string[]) => Promise<void>,
+) {
+  const requests: string[] = [];
+  const server: Server = createServer((req, res) => {
+    requests.push(`${req.url} ${req.headers.authorization}`);
+    const url = new URL(req.url || '/', 'http://stub');
+    const body = pages[url.searchParams.get('$skiptoken') || 'first'];
+    res.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body || { error: { code: 'ErrorItemNotFound', message: 'Not found' } }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  try {
+    await run(`http://127.0.0.1:${port}/v1.0`, requests);
+  } finally {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+}
+
+test('reads held meetings from a stubbed Graph calendarView across pages', async () => {
+  const pages: Record<string, unknown> = {};
+  await withStubGraph(pages, async (baseUrl, requests) => {
+    pages.first = {
+      value: [graphEvent(), graphEvent({ id: 'evt-cancelled', isCancelled: true })],
+      '@odata.nextLink': `${baseUrl}/me/calendarView?$skiptoken=page2`,
+    };
+    pages.page2 = {
+      value: [
+        graphEvent({ id: 'evt-declined', responseStatus: { response: 'declined' } }),
+        graphEvent({ id: 'evt-all-day', isAllDay: true }),
+        graphEvent({
+          id: 'evt-later',
+          start: { dateTime: '2026-07-10T18:00:00.0000000', timeZone: 'UTC' },
+          end: { dateTime: '2026-07-10T19:00:00.0000000', timeZone: 'UTC' },
+        }),
+      ],
+    };
+
+    const result = await fetchOutlookCalendarMeetings({
+      accessToken: 'token-1',
+      start: new Date('2026-07-01T00:00:00.000Z'),
+      end: new Date('2026-07-10T15:00:00.000Z'),
+      maxPages: 5,
+      baseUrl,
+    });
+
+    assert.equal(requests.length, 2);
+    assert.match(requests[0], /^\/v1\.0\/me\/calendarView\?startDateTime=2026-07-01/);
+    assert.match(requests[0], /Bearer token-1$/);
+    assert.equal(result.eventsSeen, 5);
+    assert.deepEqual(result.meetings.map((meeting) => meeting.graphEventId), ['evt-1']);
+    assert.equal(result.meetings[0].start.toISOString(), '2026-07-08T16:00:00.000Z');
+    assert.deepEqual(result.meetings[0].attendees.map((attendee) => attendee.email), [
+      MAILBOX,
+      'pat@acmelogistics.com',
+      'analyst@levelcre.com',
+    ]);
+  });
+});
+
+test('stages external meetings for review with a suggested prospect match', () => {
+  const meeting = parseGraphCalendarEvent(graphEvent());
+  assert.ok(meeting);
+
+  const event = buildCalendarMeetingEvent({
+    meeting,
+    mailboxEmail: MAILBOX,
+    candidates: [
+      { id: 'prospect-acme', name: 'Acme Logistics', contactEmail: 'pat@acmelogistics.com' },
+      { id: 'prospect-other', name: 'Other Co', contactEmail: 'ops@other.com' },
+    ],
+  });
+
+  assert.ok(event);
+  assert.equal(event.eventType, 'meeting');
+  assert.equal(event.matchStatus, 'needs_review');
+  assert.equal(event.prospectId, 'prospect-acme');
+  assert.equal(event.matchReason, 'exact_contact_email');
+  assert.equal(event.direction, 'outbound');
+  assert.equal(event.email, 'pat@acmelogistics.com');
+  assert.equal(event.externalEventId, 'outlook-calendar:evt-1');
+  assert.deepEqual(event.sourceMetadata.calendar.attendees, [{ email: 'pat@acmelogistics.com', name: 'Pat Lee' }]);
+});
+
+test('matches site visits on the meeting location and skips internal meetings', () => {
+  const siteVisit = parseGraphCalendarEvent(graphEvent({
+    subject: 'Site visit',
+    attendees: [],
+    organizer: { emailAddress: { address: MAILBOX, name: 'Broker' } },
+  }));
+  assert.ok(siteVisit);
+  const visitEvent = buildCalendarMeetingEvent({
+    meeting: siteVisit,
+    mailboxEmail: MAILBOX,
+    candidates: [{ id: 'prospect-site', name: 'Industrial bay', address: '10735 214 St NW, Edmonton' }],
+  });
+  assert.equal(visitEvent?.prospectId, 'prospect-site');
+  assert.equal(visitEvent?.matchReason, 'unique_exact_address');
+
+  const teamMeeting = parseGraphCalendarEvent(graphEvent({
+    subject: 'Pipeline review',
+    location: { displayName: 'Boardroom' },
+    attendees: [{ type: 'required', emailAddress: { address: 'analyst@levelcre.com', name: 'Analyst' } }],
+  }));
+  assert.ok(teamMeeting);
+  assert.equal(buildCalendarMeetingEvent({ meeting: teamMeeting, mailboxEmail: MAILBOX, candidates: [] }), null);
+});
@@ -0,0 +1,301 @@
+import type { Pool } from 'pg';
+
+import { ActivityEventBatchSchema, importActivityEventBatch } from './activityEventService';
+import {
+  resolveEmailProspectMatch,
+  type EmailProspectCandidate,
+  type EmailProspectMatchDecision,
+} from './emailProspectMatching';
+import { graphGet, microsoftGraphBaseUrl } from './microsoftGraph';
+
+export const OUTLOOK_CALENDAR_SOURCE = 'outlook_calendar';
+export const OUTLOOK_CALENDAR_SCOPE = 'Calendars.Read';
+
+const FREE_EMAIL_DOMAINS = new Set([
+  'gmail.com',
+  'hotmail.com',
+  'icloud.com',
+  'live.com',
+  'outlook.com',
+  'yahoo.ca',
+  'yahoo.com',
+]);
+
+const CALENDAR_EVENT_SELECT = [
+  'id',
+  'iCalUId',
+  'subject',
+  'start',
+  'end',
+  'location',
+  'organizer',
+  'attendees',
+  'isAllDay',
+  'isCancelled',
+  'isOnlineMeeting',
+  'responseStatus',
+  'showAs',
+  'type',
+  'webLink',
+];
+
+export type OutlookCalendarAttendee = {
+  email: string;
+  name: string | null;
+};
+
+export type OutlookCalendarMeeting = {
+  graphEventId: string;
+  iCalUId: string | null;
+  subject: string;
+  start: Date;
+  end: Date;
+  location: string | null;
+  organizerEmail: string | null;
+  organizerName: string | null;
+  attendees: OutlookCalendarAttendee[];
+  isOnlineMeeting: boolean;
+  webLink: string | null;
+};
+
+export type OutlookCalendarCaptureSummary = {
+  eventsSeen: number;
+  meetingsStaged: number;
+  meetingsUpdated: number;
+  suggestedMatches: number;
+  skipped: number;
+  errors: number;
+};
+
+function normalizeEmail(value: unknown): string {
+  const email = String(value || '').trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) ? email : '';
+}
+
+function emailDomain(email: string): string {
+  return email.split('@')[1] || '';
+}
+
+// calendarView returns wall-clock UTC without an offset unless the request
+// asks for another zone.
+function parseGraphDateTime(value: any): Date | null {
+  const raw = String(value?.dateTime || '').trim();
+  if (!raw) return null;
+  const zone = String(value?.timeZone || 'UTC').toUpperCase();
+  const hasOffset = /(?:z|[+-]\d{2}:?\d{2})$/i.test(raw);
+  const date = new Date(hasOffset || zone !== 'UTC' ? raw : `${raw}Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Normalizes one calendarView entry, dropping anything that was not a real
+ * meeting the broker attended: cancellations, declines, all-day blocks,
+ * free-time holds and recurring series masters.
+ */
+export function parseGraphCalendarEvent(event: any): OutlookCalendarMeeting | null {
+  if (!event?.id || event.isCancelled || event.isAllDay) return null;
+  if (event.type === 'seriesMaster') return null;
+  if (String(event.responseStatus?.response || '').toLowerCase() === 'declined') return null;
+  if (String(event.showAs || '').toLowerCase() === 'free') return null;
+  const start = parseGraphDateTime(event.start);
+  const end = parseGraphDateTime(event.end);
+  if (!start || !end) return null;
+
+  const attendees = new Map<string, OutlookCalendarAttendee>();
+  for (const attendee of Array.isArray(event.attendees) ? event.attendees : []) {
+    if (String(attendee?.type || '').toLowerCase() === 'resource') continue;
+    const email = normalizeEmail(attendee?.emailAddress?.address);
+    if (!email || attendees.has(email)) continue;
+    attendees.set(email, { email, name: String(attendee?.emailAddress?.name || '').trim() || null });
+  }
+
+  return {
+    graphEventId: String(event.id),
+    iCalUId: event.iCalUId ? String(event.iCalUId) : null,
+    subject: String(event.subject || '').trim(),
+    start,
+    end,
+    location: String(event.location?.displayName || '').trim() || null,
+    organizerEmail: normalizeEmail(event.organizer?.emailAddress?.address) || null,
+    organizerName: String(event.organizer?.emailAddress?.name || '').trim() || null,
+    attendees: Array.from(attendees.values()),
+    isOnlineMeeting: Boolean(event.isOnlineMeeting),
+    webLink: typeof event.webLink === 'string' ? event.webLink : null,
+  };
+}
+
+/** Attendees outside the broker's own mailbox and, for company domains, outside their firm. */
+export function externalCalendarAttendees(meeting: OutlookCalendarMeeting, mailboxEmail: string | null | undefined): OutlookCalendarAttendee[] {
+  const mailbox = normalizeEmail(mailboxEmail);
+  const mailboxDomain = emailDomain(mailbox);
+  const internalDomain = mailboxDomain && !FREE_EMAIL_DOMAINS.has(mailboxDomain) ? mailboxDomain : '';
+  const people = [...meeting.attendees];
+  if (meeting.organizerEmail && !people.some((attendee) => attendee.email === meeting.organizerEmail)) {
+    people.push({ email: meeting.organizerEmail, name: meeting.organizerName });
+  }
+  return people.filter((attendee) => (
+    attendee.email !== mailbox
+    && (!internalDomain || emailDomain(attendee.email) !== internalDomain)
+  ));
+}
+
+export function calendarMeetingExternalId(meeting: OutlookCalendarMeeting): string {
+  return `outlook-calendar:${meeting.graphEventId}`;
+}
+
+export function matchCalendarMeeting(
+  meeting: OutlookCalendarMeeting,
+  mailboxEmail: string | null | undefined,
+  candidates: EmailProspectCandidate[],
+): EmailProspectMatchDecision {
+  // A meeting reads like an email the broker sent to every attendee, with the
+  // location standing in for the body so site visits match on address.
+  return resolveEmailProspectMatch({
+    direction: 'sent',
+    subject: meeting.subject,
+    snippet: meeting.location,
+    senderEmail: mailboxEmail,
+    recipientEmails: externalCalendarAttendees(meeting, mailboxEmail).map((attendee) => attendee.email),
+    ccEmails: [],
+  }, candidates);
+}
+
+/**
+ * Stages a held meeting as a `meeting` activity event for broker review, or
+ * returns null for internal meetings that name no prospect. Matches are only
+ * suggestions: every meeting waits in `needs_review` until the broker
+ * confirms it, which is what logs the interaction and awards XP.
+ */
+export function buildCalendarMeetingEvent(params: {
+  meeting: OutlookCalendarMeeting;
+  mailboxEmail: string | null | undefined;
+  candidates: EmailProspectCandidate[];
+}) {
+  const { meeting } = params;
+  const external = externalCalendarAttendees(meeting, params.mailboxEmail);
+  const decision = matchCalendarMeeting(meeting, params.mailboxEmail, params.candidates);
+  if (external.length === 0 && !decision.prospectId) return null;
+
+  const mailbox = normalizeEmail(params.mailboxEmail);
+  const primary = external[0] || null;
+  const attendeeLabels = external.map((attendee) => attendee.name || attendee.email);
+  const summary = [
+    meeting.location ? `Location: ${meeting.location}` : null,
+    attendeeLabels.length ? `With: ${attendeeLabels.join(', ')}` : null,
+    ...decision.evidence,
+  ].filter(Boolean).join('\n');
+
+  return {
+    externalEventId: calendarMeetingExternalId(meeting),
+    eventType: 'meeting' as const,
+    direction: meeting.organizerEmail && meeting.organizerEmail === mailbox ? 'outbound' as const : 'inbound' as const,
+    evidenceStatus: 'observed' as const,
+    occurredAt: meeting.start,
+    contactName: primary?.name || null,
+    email: primary?.email || null,
+    subject: meeting.subject || 'Meeting',
+    summary: summary.slice(0, 2000) || null,
+    confidence: decision.confidence,
+    matchStatus: 'needs_review' as const,
+    matchReason: decision.reason,
+    prospectId: decision.prospectId,
+    evidenceUrl: meeting.webLink,
+    sourceMetadata: {
+      calendar: {
+        graphEventId: meeting.graphEventId,
+        iCalUId: meeting.iCalUId,
+        startAt: meeting.start.toISOString(),
+        endAt: meeting.end.toISOString(),
+        location: meeting.location,
+        isOnlineMeeting: meeting.isOnlineMeeting,
+        organizerEmail: meeting.organizerEmail,
+        attendees: external.slice(0, 25),
+      },
+      match: {
+        status: decision.status,
+        reason: decision.reason,
+        evidence: decision.evidence,
+        suggestedProspectId: decision.prospectId,
+      },
+    },
+  };
+}
+
+export async function fetchOutlookCalendarMeetings(params: {
+  accessToken: string;
+  start: Date;
+  end: Date;
+  maxPages: number;
+  baseUrl?: string;
+}): Promise<{ eventsSeen: number; meetings: OutlookCalendarMeeting[] }> {
+  const url = new URL(`${params.baseUrl || microsoftGraphBaseUrl()}/me/calendarView`);
+  url.searchParams.set('startDateTime', params.start.toISOString());
+  url.searchParams.set('endDateTime', params.end.toISOString());
+  url.searchParams.set('$select', CALENDAR_EVENT_SELECT.join(','));
+  url.searchParams.set('$orderby', 'start/dateTime');
+
+  let eventsSeen = 0;
+  const meetings: OutlookCalendarMeeting[] = [];
+  let nextUrl: string | null = url.toString();
+  for (let page = 0; nextUrl && page < params.maxPages; page += 1) {
+    const data = await graphGet(params.accessToken, nextUrl, { maxPageSize: 100 });
+    nextUrl = typeof data['@odata.nextLink'] === 'string' ? data['@odata.nextLink'] : null;
+    for (const event of Array.isArray(data.value) ? data.value : []) {
+      eventsSeen += 1;
+      const meeting = parseGraphCalendarEvent(event);
+      // Only meetings that have already ended are evidence of a conversation.
+      if (meeting && meeting.end.getTime() <= params.end.getTime()) meetings.push(meeting);
+    }
+  }
+  return { eventsSeen, meetings };
+}
+
+export async function captureOutlookCalendarMeetings(params: {
+  pool: Pool;
+  userId: string;
+  accessToken: string;
+  mailboxEmail: string | null;
+  candidates: EmailProspectCandidate[];
+  days: number;
+  maxPages: number;
+  now?: Date;
+}): Promise<OutlookCalendarCaptureSummary> {
+  const end = params.now ?? new Date();
+  const start = new Date(end.getTime() - params.days * 24 * 60 * 60 * 1000);
+  const { eventsSeen, meetings } = await fetchOutlookCalendarMeetings({
+    accessToken: params.accessToken,
+    start,
+    end,
+    maxPages: params.maxPages,
+  });
+  const events = meetings
+    .map((meeting) => buildCalendarMeetingEvent({
+      meeting,
+      mailboxEmail: params.mailboxEmail,
+      candidates: params.candidates,
+    }))
+    .filter((event): event is NonNullable<typeof event> => Boolean(event));
+
+  const summary: OutlookCalendarCaptureSummary = {
+    eventsSeen,
+    meetingsStaged: 0,
+    meetingsUpdated: 0,
+    suggestedMatches: events.filter((event) => event.prospectId).length,
+    skipped: eventsSeen - events.length,
+    errors: 0,
+  };
+  for (let index = 0; index < events.length; index += 500) {
+    const batch = await importActivityEventBatch({
+      pool: params.pool,
+      userId: params.userId,
+      payload: ActivityEventBatchSchema.parse({
+        source: OUTLOOK_CALENDAR_SOURCE,
+        events: events.slice(index, index + 500),
+      }),
+    });
+    summary.meetingsStaged += batch.inserted;
+    summary.meetingsUpdated += batch.duplicates;
+    summary.errors += batch.errors;
+  }
+  return summary;
+}
@@ -0,0 +1,113 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { GraphRequestError } from './microsoftGraph';
+import {
+  buildOutlookDeltaUrl,
+  parseOutlookSyncCursor,
+  runOutlookFolderDelta,
+  summarizeOutlookDeltaModes,
+} from './outlookDeltaSync';
+
+const NOW = new Date('2026-07-10T15:00:00.000Z');
+const DELTA_LINK = 'https://graph.microsoft.com/v1.0/me/mailFolders/inbox/messages/delta?$deltatoken=abc';
+
+test('starts a bounded first round and stores the delta link Graph returns', async () => {
+  const requested: string[] = [];
+  const seen: string[] = [];
+  const result = await runOutlookFolderDelta({
+    folderId: 'inbox',
+    resyncDays: 30,
+    maxPages: 5,
+    now: NOW,
+    fetchPage: async (url) => {
+      requested.push(url);
+      if (requested.length === 1) {
+        return {
+          value: [{ id: 'm1' }, { id: 'gone', '@removed': { reason: 'deleted' } }],
+          '@odata.nextLink': 'https://graph.microsoft.com/v1.0/me/mailFolders/inbox/messages/delta?$skiptoken=p2',
+        };
+      }
+      return { value: [{ id: 'm2' }], '@odata.deltaLink': DELTA_LINK };
+    },
+    onPage: async (messages) => {
+      seen.push(...messages.map((message) => message.id));
+    },
+  });
+
+  assert.equal(new URL(requested[0]).searchParams.get('$filter'), 'receivedDateTime ge 2026-06-10T15:00:00.000Z');
+  assert.deepEqual(seen, ['m1', 'm2']);
+  assert.equal(result.mode, 'full');
+  assert.equal(result.removed, 1);
+  assert.equal(result.complete, true);
+  assert.equal(result.cursor.deltaLink, DELTA_LINK);
+  assert.equal(result.cursor.nextLink, null);
+});
+
+test('resumes from a stored next link when the page budget ran out', async () => {
+  const nextLink = 'https://graph.microsoft.com/v1.0/me/mailFolders/inbox/messages/delta?$skiptoken=p3';
+  const requested: string[] = [];
+  const result = await runOutlookFolderDelta({
+    folderId: 'inbox',
+    cursor: { deltaLink: null, nextLink, syncedAt: null, resyncedAt: null },
+    resyncDays: 30,
+    maxPages: 1,
+    now: NOW,
+    fetchPage: async (url) => {
+      requested.push(url);
+      return { value: [{ id: 'm3' }], '@odata.nextLink': `${nextLink}4` };
+    },
+    onPage: async () => {},
+  });
+
+  assert.deepEqual(requested, [nextLink]);
+  assert.equal(result.mode, 'delta');
+  assert.equal(result.complete, false);
+  assert.equal(result.cursor.nextLink, `${nextLink}4`);
+});
+
+test('falls back to a bounded resync once when the cursor has expired', async () => {
+  const requested: string[] = [];
+  const result = await runOutlookFolderDelta({
+    folderId: 'sentitems',
+    cursor: { deltaLink: DELTA_LINK, nextLink: null, syncedAt: null, resyncedAt: null },
+    resyncDays: 7,
+    maxPages: 3,
+    now: NOW,
+    fetchPage: async (url) => {
+      requested.push(url);
+      if (url === DELTA_LINK) throw new GraphRequestError(410, 'Sync state expired', 'syncStateNotFound');
+      return { value: [], '@odata.deltaLink': `${DELTA_LINK}-fresh` };
+    },
+    onPage: async () => {},
+  });
+
+  assert.equal(requested.length, 2);
+  assert.equal(requested[1], buildOutlookDeltaUrl({ folderId: 'sentitems', since: new Date('2026-07-03T15:00:00.000Z') }));
+  assert.equal(result.mode, 'resync');
+  assert.equal(result.cursor.deltaLink, `${DELTA_LINK}-fresh`);
+  assert.equal(result.cursor.resyncedAt, NOW.toISOString());
+
+  await assert.rejects(runOutlookFolderDelta({
+    folderId: 'inbox',
+    cursor: { deltaLink: DELTA_LINK, nextLink: null, syncedAt: null, resyncedAt: null },
+    resyncDays: 7,
+    maxPages: 3,
+    now: NOW,
+    fetchPage: async () => {
+      throw new GraphRequestError(401, 'Token expired', 'InvalidAuthenticationToken');
+    },
+    onPage: async () => {},
+  }), /Token expired/);
+});
+
+test('ignores unreadable cursors and ranks run modes', () => {
+  assert.deepEqual(parseOutlookSyncCursor('not json'), {});
+  assert.deepEqual(parseOutlookSyncCursor(JSON.stringify({ inbox: { deltaLink: 'javascript:alert(1)' } })), {});
+  assert.deepEqual(parseOutlookSyncCursor(JSON.stringify({ inbox: { deltaLink: DELTA_LINK } })), {
+    inbox: { deltaLink: DELTA_LINK, nextLink: null, syncedAt: null, resyncedAt: null },
+  });
+  assert.equal(summarizeOutlookDeltaModes(['delta', 'delta']), 'delta');
+  assert.equal(summarizeOutlookDeltaModes(['delta', 'full']), 'full');
+  assert.equal(summarizeOutlookDeltaModes(['full', 'resync']), 'resync');
+});
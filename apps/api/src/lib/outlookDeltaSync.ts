@@ -0,0 +1,216 @@
+import type { Pool } from 'pg';
+
+import { GraphRequestError, microsoftGraphBaseUrl } from './microsoftGraph';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Graph answers an expired or invalidated delta token with 410 and one of
+// these codes; every one of them means "start the round over".
+const EXPIRED_SYNC_STATE_CODES = new Set([
+  'syncstatenotfound',
+  'syncstateinvalid',
+  'resyncrequired',
+  'invaliddeltatoken',
+]);
+
+export const OUTLOOK_MESSAGE_SELECT = [
+  'id',
+  'internetMessageId',
+  'conversationId',
+  'subject',
+  'from',
+  'toRecipients',
+  'ccRecipients',
+  'bccRecipients',
+  'sentDateTime',
+  'receivedDateTime',
+  'webLink',
+  'hasAttachments',
+];
+
+export type OutlookFolderCursor = {
+  deltaLink: string | null;
+  nextLink: string | null;
+  syncedAt: string | null;
+  resyncedAt: string | null;
+};
+
+/** Stored in `email_connections.sync_cursor`, keyed by folder and consumer. */
+export type OutlookSyncCursor = Record<string, OutlookFolderCursor>;
+
+export type OutlookDeltaMode = 'delta' | 'full' | 'resync';
+
+export type OutlookFolderDeltaResult = {
+  cursor: OutlookFolderCursor;
+  mode: OutlookDeltaMode;
+  pages: number;
+  messagesSeen: number;
+  removed: number;
+  complete: boolean;
+};
+
+export function isExpiredGraphSyncState(error: unknown): boolean {
+  if (!(error instanceof GraphRequestError)) return false;
+  if (error.code && EXPIRED_SYNC_STATE_CODES.has(error.code.toLowerCase())) return true;
+  return error.status === 410;
+}
+
+function readLink(value: unknown): string | null {
+  return typeof value === 'string' && /^https?:\/\//.test(value) ? value : null;
+}
+
+export function parseOutlookSyncCursor(raw: unknown): OutlookSyncCursor {
+  let parsed: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return {};
+    }
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+
+  const cursor: OutlookSyncCursor = {};
+  for (const [key, value] of Object.entries(parsed as Record<string, any>)) {
+    if (!value || typeof value !== 'object') continue;
+    const deltaLink = readLink(value.deltaLink);
+    const nextLink = readLink(value.nextLink);
+    if (!deltaLink && !nextLink) continue;
+    cursor[key] = {
+      deltaLink,
+      nextLink,
+      syncedAt: typeof value.syncedAt === 'string' ? value.syncedAt : null,
+      resyncedAt: typeof value.resyncedAt === 'string' ? value.resyncedAt : null,
+    };
+  }
+  return cursor;
+}
+
+/**
+ * The first request of a delta round. The receivedDateTime filter bounds how
+ * far back a first sync or a resync after token expiry reaches; the deltaLink
+ * Graph hands back at the end of the round carries that filter forward.
+ */
+export function buildOutlookDeltaUrl(params: { folderId: string; since: Date; select?: string[] }): string {
+  const url = new URL(`${microsoftGraphBaseUrl()}/me/mailFolders/${params.folderId}/messages/delta`);
+  url.searchParams.set('$select', (params.select || OUTLOOK_MESSAGE_SELECT).join(','));
+  url.searchParams.set('$filter', `receivedDateTime ge ${params.since.toISOString()}`);
+  return url.toString();
+}
+
+/**
+ * Walks one folder's delta pages from the stored cursor. A round that runs out
+ * of page budget keeps its nextLink so the next call resumes mid-round instead
+ * of starting over; an expired cursor restarts once as a bounded resync.
+ * Removed entries are counted but left in place, since captured mail stays
+ * evidence even after the broker files or deletes it in Outlook.
+ */
+export async function runOutlookFolderDelta(params: {
+  folderId: string;
+  cursor?: OutlookFolderCursor | null;
+  resyncDays: number;
+  maxPages: number;
+  now?: Date;
+  select?: string[];
+  fetchPage: (url: string) => Promise<any>;
+  onPage: (messages: any[], page: number) => Promise<void>;
+}): Promise<OutlookFolderDeltaResult> {
+  const now = params.now ?? new Date();
+  const freshUrl = () => buildOutlookDeltaUrl({
+    folderId: params.folderId,
+    since: new Date(now.getTime() - params.resyncDays * DAY_MS),
+    select: params.select,
+  });
+
+  const stored = params.cursor || null;
+  let mode: OutlookDeltaMode = stored?.nextLink || stored?.deltaLink ? 'delta' : 'full';
+  let nextUrl: string | null = stored?.nextLink || stored?.deltaLink || freshUrl();
+  let deltaLink = stored?.deltaLink || null;
+  let resyncedAt = stored?.resyncedAt || null;
+  let pages = 0;
+  let messagesSeen = 0;
+  let removed = 0;
+
+  while (nextUrl && pages < params.maxPages) {
+    let data: any;
+    try {
+      data = await params.fetchPage(nextUrl);
+    } catch (error) {
+      if (mode !== 'delta' || !isExpiredGraphSyncState(error)) throw error;
+      mode = 'resync';
+      deltaLink = null;
+      resyncedAt = now.toISOString();
+      nextUrl = freshUrl();
+      continue;
+    }
+
+    pages += 1;
+    const entries = Array.isArray(data?.value) ? data.value : [];
+    const messages = entries.filter((entry: any) => !entry?.['@removed']);
+    removed += entries.length - messages.length;
+    messagesSeen += messages.length;
+    await params.onPage(messages, pages);
+
+    nextUrl = readLink(data?.['@odata.nextLink']);
+    if (!nextUrl) deltaLink = readLink(data?.['@odata.deltaLink']) || deltaLink;
+  }
+
+  return {
+    cursor: {
+      deltaLink,
+      nextLink: nextUrl,
+      syncedAt: now.toISOString(),
+      resyncedAt,
+    },
+    mode,
+    pages,
+    messagesSeen,
+    removed,
+    complete: !nextUrl,
+  };
+}
+
+export async function loadOutlookSyncCursor(params: {
+  pool: Pool;
+  userId: string;
+  connectionId: string;
+}): Promise<OutlookSyncCursor> {
+  const { rows } = await params.pool.query(
+    `SELECT sync_cursor FROM public.email_connections WHERE id = $1 AND user_id = $2`,
+    [params.connectionId, params.userId],
+  );
+  return parseOutlookSyncCursor(rows[0]?.sync_cursor);
+}
+
+/**
+ * Merges one folder's cursor into the stored map, so the mailbox sync and the
+ * BCC sync can each advance their own sent-items cursor without clobbering
+ * the other's.
+ */
+export async function saveOutlookFolderCursor(params: {
+  pool: Pool;
+  userId: string;
+  connectionId: string;
+  key: string;
+  cursor: OutlookFolderCursor;
+}): Promise<void> {
+  await params.pool.query(
+    `
+      UPDATE public.email_connections
+      SET sync_cursor = (
+            CASE WHEN sync_cursor ~ '^\\s*\\{' THEN sync_cursor::jsonb ELSE '{}'::jsonb END
+            || jsonb_build_object($3::text, $4::jsonb)
+          )::text,
+          updated_at = now()
+      WHERE id = $1 AND user_id = $2
+    `,
+    [params.connectionId, params.userId, params.key, JSON.stringify(params.cursor)],
+  );
+}
+
+/** Reports the least incremental mode any folder needed during one run. */
+export function summarizeOutlookDeltaModes(modes: OutlookDeltaMode[]): OutlookDeltaMode {
+  if (modes.includes('resync')) return 'resync';
+  if (modes.includes('full')) return 'full';
+  return 'delta';
+}
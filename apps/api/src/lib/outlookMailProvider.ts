@@ -0,0 +1,106 @@
+import { EMAIL_ATTACHMENT_MAX_BYTES } from '../modules/industrial-intel/emailAttachments';
+import type { EmailSyncProvider, SyncedEmailMessage } from './emailSyncProvider';
+import { fetchGraphFileAttachments, graphGet } from './microsoftGraph';
+import {
+  parseOutlookSyncCursor,
+  runOutlookFolderDelta,
+  summarizeOutlookDeltaModes,
+  type OutlookDeltaMode,
+} from './outlookDeltaSync';
+
+const OUTLOOK_MAILBOX_FOLDERS = [
+  { id: 'inbox', mailbox: 'inbox', direction: 'received' },
+  { id: 'sentitems', mailbox: 'sent', direction: 'sent' },
+] as const;
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+/**
+ * Prefers the RFC 822 Message-ID so a message keeps one identity across
+ * folders and the inbound-forward copy of the same email.
+ */
+export function stableOutlookMessageId(message: any): string {
+  const internetMessageId = String(message?.internetMessageId || '').trim();
+  return internetMessageId ? `internet-message:${internetMessageId}` : String(message?.id || '').trim();
+}
+
+// Display names sometimes carry the real address ("jane@x.com via Teams"),
+// so both the address and any address inside the name are kept.
+export function parseGraphRecipientEmails(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.flatMap((recipient: any) => {
+    const address = String(recipient?.emailAddress?.address || '').trim().toLowerCase();
+    const nameEmails = String(recipient?.emailAddress?.name || '')
+      .split(/[;,]/)
+      .map((part) => (part.match(/<([^>]+)>/)?.[1] || part).trim().toLowerCase());
+    return [address, ...nameEmails].filter((part) => EMAIL_PATTERN.test(part));
+  })));
+}
+
+export function parseOutlookMessage(
+  message: any,
+  folder: { mailbox: 'inbox' | 'sent'; direction: 'received' | 'sent' },
+): SyncedEmailMessage {
+  const sender = message?.from?.emailAddress || {};
+  const bccEmails = parseGraphRecipientEmails(message?.bccRecipients);
+  return {
+    providerMessageId: stableOutlookMessageId(message),
+    providerThreadId: message?.conversationId || null,
+    mailbox: folder.mailbox,
+    direction: folder.direction,
+    subject: message?.subject || '',
+    senderEmail: sender.address || '',
+    senderName: sender.name || '',
+    recipientEmails: parseGraphRecipientEmails(message?.toRecipients),
+    ccEmails: parseGraphRecipientEmails(message?.ccRecipients),
+    bccEmails,
+    sentAt: message?.sentDateTime ? new Date(message.sentDateTime) : null,
+    receivedAt: message?.receivedDateTime ? new Date(message.receivedDateTime) : null,
+    snippet: '',
+    attachmentNames: [],
+    hasAttachments: Boolean(message?.hasAttachments),
+    sourceUrl: message?.webLink || '',
+    rawMetadata: {
+      hasAttachments: Boolean(message?.hasAttachments),
+      folder: folder.mailbox,
+      bccRecipients: bccEmails,
+      graphMessageId: message?.id,
+      internetMessageId: message?.internetMessageId || null,
+    },
+  };
+}
+
+/** Inbox and sent items through Graph delta queries, one cursor per folder. */
+export function createOutlookMailProvider(params: { accessToken: string }): EmailSyncProvider {
+  return {
+    provider: 'outlook',
+    async syncMailbox({ cursor, days, maxPages, onMessages, saveCursor }) {
+      const storedCursor = parseOutlookSyncCursor(cursor);
+      const modes: OutlookDeltaMode[] = [];
+      let pages = 0;
+      let removed = 0;
+      let complete = true;
+      for (const folder of OUTLOOK_MAILBOX_FOLDERS) {
+        const delta = await runOutlookFolderDelta({
+          folderId: folder.id,
+          cursor: storedCursor[folder.id],
+          resyncDays: days,
+          maxPages,
+          fetchPage: (url) => graphGet(params.accessToken, url, { maxPageSize: 100 }),
+          onPage: (messages) => onMessages(messages.map((message) => parseOutlookMessage(message, folder))),
+        });
+        await saveCursor(folder.id, delta.cursor);
+        modes.push(delta.mode);
+        pages += delta.pages;
+        removed += delta.removed;
+        complete = complete && delta.complete;
+      }
+      return { mode: summarizeOutlookDeltaModes(modes), pages, removed, complete };
+    },
+    async fetchAttachments(message) {
+      const graphMessageId = String(message.rawMetadata.graphMessageId || '');
+      if (!graphMessageId) return [];
+      return fetchGraphFileAttachments(params.accessToken, graphMessageId, { maxBytes: EMAIL_ATTACHMENT_MAX_BYTES });
+    },
+  };
+}
@@ -0,0 +1,61 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { buildOwnerPortfolios, ownerPortfolioKey, type OwnerHolding } from './ownerPortfolio'
+
+function holding(overrides: Partial<OwnerHolding> & Pick<OwnerHolding, 'sourceType' | 'sourceId' | 'ownerName'>): OwnerHolding {
+  return {
+    label: overrides.sourceId,
+    address: null,
+    latitude: null,
+    longitude: null,
+    prospectId: null,
+    dossierId: null,
+    ...overrides,
+  }
+}
+
+test('keys owners by their normalized registered name', () => {
+  assert.equal(ownerPortfolioKey('ACME Holdings Limited'), 'acme holdings ltd')
+  assert.equal(ownerPortfolioKey('Acme Holdings Ltd.\nOF: 100 MAIN ST'), 'acme holdings ltd')
+  assert.equal(ownerPortfolioKey('  '), '')
+})
+
+test('groups dossiers, prospects and deals on the same property under one owner', () => {
+  const portfolios = buildOwnerPortfolios([
+    holding({ sourceType: 'dossier', sourceId: 'd1', dossierId: 'd1', prospectId: 'p1', ownerName: 'ACME HOLDINGS LTD.', label: '100 Main St' }),
+    holding({ sourceType: 'prospect', sourceId: 'p1', prospectId: 'p1', ownerName: 'Acme Holdings Limited', label: 'Main St Warehouse', latitude: 51.1, longitude: -114.1, prospectStatus: 'contacted' }),
+    holding({ sourceType: 'deal', sourceId: 'deal-1', dossierId: 'd1', ownerName: 'Acme Holdings Ltd', label: 'Main St sale', closedDate: '2022-04-01' }),
+    holding({ sourceType: 'prospect', sourceId: 'p2', prospectId: 'p2', ownerName: 'Acme Holdings Ltd', label: 'Bay 4', latitude: 51.0, longitude: -114.0 }),
+    holding({ sourceType: 'prospect', sourceId: 'p3', prospectId: 'p3', ownerName: 'Solo Owner Inc', label: 'Lonely lot' }),
+  ])
+
+  assert.equal(portfolios.length, 1)
+  const [acme] = portfolios
+  assert.equal(acme.ownerKey, 'acme holdings ltd')
+  assert.equal(acme.ownerName, 'ACME HOLDINGS LTD.')
+  assert.equal(acme.ownerEntityType, 'corporation')
+  assert.equal(acme.propertyCount, 2)
+  assert.equal(acme.dossierCount, 1)
+  assert.equal(acme.dealCount, 1)
+  assert.deepEqual(acme.properties.map((property) => [property.label, property.prospectId, property.dossierId, property.sources]), [
+    ['Bay 4', 'p2', null, ['prospect']],
+    ['Main St Warehouse', 'p1', 'd1', ['dossier', 'prospect', 'deal']],
+  ])
+  assert.equal(acme.properties[1].lastClosedDate, '2022-04-01')
+  assert.deepEqual(acme.bounds, { north: 51.1, south: 51.0, east: -114.0, west: -114.1 })
+})
+
+test('can include single-property owners and orders larger portfolios first', () => {
+  const portfolios = buildOwnerPortfolios([
+    holding({ sourceType: 'prospect', sourceId: 'p1', prospectId: 'p1', ownerName: 'Beta Corp' }),
+    holding({ sourceType: 'deal', sourceId: 'deal-1', ownerName: 'Alpha Inc' }),
+    holding({ sourceType: 'deal', sourceId: 'deal-2', ownerName: 'Alpha Incorporated' }),
+  ], { minProperties: 1 })
+
+  assert.deepEqual(portfolios.map((portfolio) => [portfolio.ownerName, portfolio.propertyCount]), [
+    ['Alpha Inc', 2],
+    ['Beta Corp', 1],
+  ])
+  assert.equal(portfolios[1].bounds, null)
+})
@@ -0,0 +1,160 @@
+import {
+  classifyOwnerEntity,
+  normalizeOwnerName,
+  registeredOwnerName,
+  type OwnerEntityType,
+} from './dossierOwnership'
+
+export type OwnerHoldingSource = 'dossier' | 'prospect' | 'deal'
+
+export type OwnerHolding = {
+  sourceType: OwnerHoldingSource
+  sourceId: string
+  ownerName: string
+  label: string
+  address: string | null
+  latitude: number | null
+  longitude: number | null
+  prospectId: string | null
+  dossierId: string | null
+  prospectStatus?: string | null
+  closedDate?: string | null
+}
+
+export type OwnerPortfolioProperty = {
+  key: string
+  label: string
+  address: string | null
+  latitude: number | null
+  longitude: number | null
+  prospectId: string | null
+  dossierId: string | null
+  prospectStatus: string | null
+  dealIds: string[]
+  lastClosedDate: string | null
+  sources: OwnerHoldingSource[]
+}
+
+export type OwnerPortfolioBounds = { north: number; south: number; east: number; west: number }
+
+export type OwnerPortfolio = {
+  ownerKey: string
+  ownerName: string
+  ownerEntityType: OwnerEntityType
+  propertyCount: number
+  dossierCount: number
+  prospectCount: number
+  dealCount: number
+  properties: OwnerPortfolioProperty[]
+  bounds: OwnerPortfolioBounds | null
+}
+
+export function ownerPortfolioKey(ownerName: string | null | undefined) {
+  return normalizeOwnerName(registeredOwnerName(ownerName))
+}
+
+// Titles are the authority on legal names, so a dossier's spelling wins over prospect notes and deal records.
+const NAME_SOURCE_RANK: Record<OwnerHoldingSource, number> = { dossier: 0, deal: 1, prospect: 2 }
+
+function displayName(holdings: OwnerHolding[]) {
+  const counts = new Map<string, { count: number; rank: number }>()
+  for (const holding of holdings) {
+    const name = registeredOwnerName(holding.ownerName)
+    const current = counts.get(name) || { count: 0, rank: NAME_SOURCE_RANK[holding.sourceType] }
+    counts.set(name, { count: current.count + 1, rank: Math.min(current.rank, NAME_SOURCE_RANK[holding.sourceType]) })
+  }
+  return Array.from(counts.entries())
+    .sort(([leftName, left], [rightName, right]) => left.rank - right.rank || right.count - left.count || leftName.localeCompare(rightName))[0][0]
+}
+
+function portfolioBounds(properties: OwnerPortfolioProperty[]): OwnerPortfolioBounds | null {
+  const located = properties.filter((property) => property.latitude != null && property.longitude != null)
+  if (!located.length) return null
+  const latitudes = located.map((property) => property.latitude as number)
+  const longitudes = located.map((property) => property.longitude as number)
+  return {
+    north: Math.max(...latitudes),
+    south: Math.min(...latitudes),
+    east: Math.max(...longitudes),
+    west: Math.min(...longitudes),
+  }
+}
+
+export function buildOwnerPortfolios(holdings: OwnerHolding[], options: { minProperties?: number } = {}): OwnerPortfolio[] {
+  const minProperties = options.minProperties ?? 2
+  // A dossier that represents a prospect is the same property, as is a deal on either of them.
+  const dossierProspect = new Map<string, string>()
+  for (const holding of holdings) {
+    if (holding.dossierId && holding.prospectId) dossierProspect.set(holding.dossierId, holding.prospectId)
+  }
+  const propertyKey = (holding: OwnerHolding) => {
+    const prospectId = holding.prospectId || (holding.dossierId ? dossierProspect.get(holding.dossierId) : null)
+    if (prospectId) return `prospect:${prospectId}`
+    if (holding.dossierId) return `dossier:${holding.dossierId}`
+    return `${holding.sourceType}:${holding.sourceId}`
+  }
+
+  const byOwner = new Map<string, OwnerHolding[]>()
+  for (const holding of holdings) {
+    const ownerKey = ownerPortfolioKey(holding.ownerName)
+    if (!ownerKey) continue
+    byOwner.set(ownerKey, [...(byOwner.get(ownerKey) || []), holding])
+  }
+
+  const portfolios: OwnerPortfolio[] = []
+  byOwner.forEach((ownerHoldings, ownerKey) => {
+    const properties = new Map<string, OwnerPortfolioProperty>()
+    for (const holding of ownerHoldings) {
+      const key = propertyKey(holding)
+      const property = properties.get(key) || {
+        key,
+        label: holding.label,
+        address: null,
+        latitude: null,
+        longitude: null,
+        prospectId: null,
+        dossierId: null,
+        prospectStatus: null,
+        dealIds: [],
+        lastClosedDate: null,
+        sources: [],
+      }
+      property.address = property.address || holding.address
+      if (property.latitude == null && holding.latitude != null && holding.longitude != null) {
+        property.latitude = holding.latitude
+        property.longitude = holding.longitude
+      }
+      property.prospectId = property.prospectId || holding.prospectId || (holding.dossierId ? dossierProspect.get(holding.dossierId) || null : null)
+      property.dossierId = property.dossierId || holding.dossierId
+      if (holding.sourceType === 'prospect') {
+        property.label = holding.label
+        property.prospectStatus = holding.prospectStatus || null
+      }
+      if (holding.sourceType === 'deal') {
+        property.dealIds.push(holding.sourceId)
+        if (holding.closedDate && (!property.lastClosedDate || holding.closedDate > property.lastClosedDate)) {
+          property.lastClosedDate = holding.closedDate
+        }
+      }
+      if (!property.sources.includes(holding.sourceType)) property.sources.push(holding.sourceType)
+      properties.set(key, property)
+    }
+    if (properties.size < minProperties) return
+
+    const rows = Array.from(properties.values()).sort((left, right) => left.label.localeCompare(right.label))
+    const ownerName = displayName(ownerHoldings)
+    portfolios.push({
+      ownerKey,
+      ownerName,
+      ownerEntityType: classifyOwnerEntity(ownerName),
+      propertyCount: rows.length,
+      dossierCount: rows.filter((property) => property.dossierId).length,
+      prospectCount: rows.filter((property) => property.prospectId).length,
+      dealCount: rows.reduce((total, property) => total + property.dealIds.length, 0),
+      properties: rows,
+      bounds: portfolioBounds(rows),
+    })
+  })
+
+  return portfolios.sort((left, right) => right.propertyCount - left.propertyCount || left.ownerName.localeCompare(right.ownerName))
+}
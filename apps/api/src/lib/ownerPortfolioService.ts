@@ -0,0 +1,309 @@
+import { randomUUID } from 'crypto'
+import type { Pool, PoolClient } from 'pg'
+import { z } from 'zod'
+
+import { buildOwnershipHistory, type OwnerEntityType, type OwnershipRecord } from './dossierOwnership'
+import { insertOpportunity } from './opportunityService'
+import { buildOwnerPortfolios, type OwnerHolding, type OwnerPortfolio } from './ownerPortfolio'
+
+type Queryable = Pool | PoolClient
+
+export const OWNER_PORTFOLIO_SOURCE = 'owner_portfolio'
+
+export const OwnerPortfolioQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  minProperties: z.coerce.number().int().min(1).max(50).optional().default(2),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+})
+
+export const OwnerPortfolioPitchSchema = z.object({
+  // Defaults to every property in the portfolio; a subset lets the broker leave out holdings they already work.
+  propertyKeys: z.array(z.string().trim().min(1)).max(200).optional(),
+  notes: z.string().trim().max(5000).nullable().optional(),
+})
+
+export type OwnerPortfolioQuery = z.infer<typeof OwnerPortfolioQuerySchema>
+export type OwnerPortfolioPitchInput = z.infer<typeof OwnerPortfolioPitchSchema>
+
+export class OwnerPortfolioError extends Error {
+  status: number
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = 'OwnerPortfolioError'
+    this.status = status
+  }
+}
+
+type Coordinates = { latitude: number | string | null; longitude: number | string | null }
+
+function coordinate(value: number | string | null) {
+  if (value == null) return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function dateText(value: Date | string | null) {
+  if (!value) return null
+  if (typeof value === 'string') return value.slice(0, 10)
+  const month = String(value.getMonth() + 1).padStart(2, '0')
+  const day = String(value.getDate()).padStart(2, '0')
+  return `${value.getFullYear()}-${month}-${day}`
+}
+
+function located<T extends Coordinates>(row: T) {
+  const latitude = coordinate(row.latitude)
+  const longitude = coordinate(row.longitude)
+  return latitude == null || longitude == null ? { latitude: null, longitude: null } : { latitude, longitude }
+}
+
+async function ownershipRecordsAvailable(db: Queryable) {
+  const { rows } = await db.query(`SELECT to_regclass('public.intel_dossier_ownership_records') IS NOT NULL AS available`)
+  return rows[0]?.available === true
+}
+
+// A dossier belongs to whoever its ownership chain ends at, not to every owner that was ever on title.
+async function loadDossierHoldings(db: Queryable, userId: string): Promise<OwnerHolding[]> {
+  if (!await ownershipRecordsAvailable(db)) return []
+  const { rows } = await db.query<Coordinates & {
+    id: string
+    dossier_id: string
+    owner_name: string
+    normalized_owner_name: string
+    owner_entity_type: OwnerEntityType
+    title_number: string | null
+    linc: string | null
+    transfer_date: Date | string | null
+    title_pulled_date: Date | string | null
+    confidence: number | string
+    source: string
+    title: string
+    address: string | null
+    prospect_id: string | null
+  }>(`
+    SELECT records.id, records.dossier_id, records.owner_name, records.normalized_owner_name,
+           records.owner_entity_type, records.title_number, records.linc, records.transfer_date,
+           records.title_pulled_date, records.confidence, records.source,
+           dossiers.title, dossiers.address, dossiers.prospect_id,
+           dossiers.lat AS latitude, dossiers.lng AS longitude
+    FROM public.intel_dossier_ownership_records records
+    INNER JOIN public.intel_property_dossiers dossiers ON dossiers.id = records.dossier_id
+    WHERE records.user_id = $1
+      AND dossiers.created_by_user_id = $1
+      AND dossiers.status <> 'archived'
+    ORDER BY records.dossier_id, records.transfer_date ASC NULLS FIRST,
+             records.title_pulled_date ASC NULLS FIRST, records.created_at ASC
+  `, [userId])
+
+  const byDossier = new Map<string, typeof rows>()
+  for (const row of rows) byDossier.set(row.dossier_id, [...(byDossier.get(row.dossier_id) || []), row])
+
+  const holdings: OwnerHolding[] = []
+  byDossier.forEach((dossierRows, dossierId) => {
+    const records: OwnershipRecord[] = dossierRows.map((row) => ({
+      id: row.id,
+      ownerName: row.owner_name,
+      normalizedOwnerName: row.normalized_owner_name,
+      ownerEntityType: row.owner_entity_type,
+      titleNumber: row.title_number,
+      linc: row.linc,
+      transferDate: dateText(row.transfer_date),
+      titlePulledDate: dateText(row.title_pulled_date),
+      confidence: Number(row.confidence),
+      source: row.source,
+      evidence: [],
+    }))
+    const current = buildOwnershipHistory(dossierId, records).currentOwner
+    if (!current) return
+    const [dossier] = dossierRows
+    holdings.push({
+      sourceType: 'dossier',
+      sourceId: dossierId,
+      ownerName: current.ownerName,
+      label: dossier.title,
+      address: dossier.address,
+      ...located(dossier),
+      prospectId: dossier.prospect_id,
+      dossierId,
+    })
+  })
+  return holdings
+}
+
+async function loadProspectHoldings(db: Queryable, userId: string): Promise<OwnerHolding[]> {
+  const { rows } = await db.query<Coordinates & {
+    id: string
+    name: string
+    status: string
+    address: string | null
+    contact_company: string
+  }>(`
+    SELECT id, name, status, address, contact_company,
+           COALESCE(location_lat,
+             CASE WHEN geometry IS NULL OR ST_IsEmpty(geometry) THEN NULL ELSE ST_Y(ST_Centroid(geometry)) END) AS latitude,
+           COALESCE(location_lng,
+             CASE WHEN geometry IS NULL OR ST_IsEmpty(geometry) THEN NULL ELSE ST_X(ST_Centroid(geometry)) END) AS longitude
+    FROM public.prospects
+    WHERE user_id = $1
+      AND merged_into_prospect_id IS NULL
+      AND NULLIF(btrim(contact_company), '') IS NOT NULL
+  `, [userId])
+  return rows.map((row) => ({
+    sourceType: 'prospect',
+    sourceId: row.id,
+    ownerName: row.contact_company,
+    label: row.name,
+    address: row.address,
+    ...located(row),
+    prospectId: row.id,
+    dossierId: null,
+    prospectStatus: row.status,
+  }))
+}
+
+// Only deals where the client ended up holding the property say anything about ownership:
+// landlord reps act for the owner, and buyer reps for the purchaser.
+async function loadDealHoldings(db: Queryable, userId: string): Promise<OwnerHolding[]> {
+  const { rows } = await db.query<Coordinates & {
+    id: string
+    title: string
+    address: string
+    client_name: string
+    closed_date: Date | string | null
+    prospect_id: string | null
+    intel_dossier_id: string | null
+  }>(`
+    SELECT deals.id, deals.title, deals.address, deals.client_name, deals.closed_date,
+           prospects.id AS prospect_id, deals.intel_dossier_id,
+           COALESCE(prospects.location_lat, dossiers.lat) AS latitude,
+           COALESCE(prospects.location_lng, dossiers.lng) AS longitude
+    FROM public.deals deals
+    LEFT JOIN public.prospects prospects
+      ON prospects.id = deals.prospect_id AND prospects.user_id = deals.user_id AND prospects.merged_into_prospect_id IS NULL
+    LEFT JOIN public.intel_property_dossiers dossiers
+      ON dossiers.id = deals.intel_dossier_id AND dossiers.created_by_user_id = deals.user_id
+    WHERE deals.user_id = $1
+      AND deals.role IN ('landlord_rep', 'buyer_rep')
+      AND NULLIF(btrim(deals.client_name), '') IS NOT NULL
+  `, [userId])
+  return rows.map((row) => ({
+    sourceType: 'deal',
+    sourceId: row.id,
+    ownerName: row.client_name,
+    label: row.title,
+    address: row.address,
+    ...located(row),
+    prospectId: row.prospect_id,
+    dossierId: row.intel_dossier_id,
+    closedDate: dateText(row.closed_date),
+  }))
+}
+
+async function loadOwnerPortfolios(db: Queryable, userId: string, minProperties: number) {
+  const dossiers = await loadDossierHoldings(db, userId)
+  const prospects = await loadProspectHoldings(db, userId)
+  const deals = await loadDealHoldings(db, userId)
+  return buildOwnerPortfolios([...dossiers, ...prospects, ...deals], { minProperties })
+}
+
+export async function listOwnerPortfolios(params: {
+  pool: Pool
+  userId: string
+  query: OwnerPortfolioQuery
+}): Promise<OwnerPortfolio[]> {
+  const portfolios = await loadOwnerPortfolios(params.pool, params.userId, params.query.minProperties)
+  const search = params.query.q?.toLowerCase()
+  return portfolios
+    .filter((portfolio) => !search || portfolio.ownerName.toLowerCase().includes(search) || portfolio.ownerKey.includes(search))
+    .slice(0, params.query.limit)
+}
+
+async function requirePortfolio(db: Queryable, userId: string, ownerKey: string) {
+  const portfolio = (await loadOwnerPortfolios(db, userId, 1)).find((candidate) => candidate.ownerKey === ownerKey)
+  if (!portfolio) throw new OwnerPortfolioError('Owner portfolio not found', 404)
+  return portfolio
+}
+
+export async function getOwnerPortfolio(params: {
+  pool: Pool
+  userId: string
+  ownerKey: string
+}): Promise<OwnerPortfolio> {
+  return requirePortfolio(params.pool, params.userId, params.ownerKey)
+}
+
+// Pitching a portfolio opens one listing pursuit per holding, tied together by a shared portfolio id
+// so the pipeline can show them as a set. Holdings already under an active pursuit are left alone.
+export async function pitchOwnerPortfolio(params: {
+  pool: Pool
+  userId: string
+  ownerKey: string
+  input: OwnerPortfolioPitchInput
+}) {
+  const client = await params.pool.connect()
+  try {
+    await client.query('BEGIN')
+    const portfolio = await requirePortfolio(client, params.userId, params.ownerKey)
+    const selected = params.input.propertyKeys
+      ? portfolio.properties.filter((property) => params.input.propertyKeys?.includes(property.key))
+      : portfolio.properties
+    if (!selected.length) throw new OwnerPortfolioError('Select at least one property from the portfolio to pitch')
+
+    const { rows: active } = await client.query<{ id: string; prospect_id: string | null; dossier_id: string | null }>(`
+      SELECT id, prospect_id, metadata->>'dossierId' AS dossier_id
+      FROM public.opportunities
+      WHERE user_id = $1
+        AND type = 'listing_pursuit'
+        AND status = 'active'
+        AND archived_at IS NULL
+        AND (prospect_id = ANY($2::varchar[]) OR metadata->>'dossierId' = ANY($3::varchar[]))
+    `, [
+      params.userId,
+      selected.map((property) => property.prospectId).filter((id): id is string => Boolean(id)),
+      selected.map((property) => property.dossierId).filter((id): id is string => Boolean(id)),
+    ])
+
+    const portfolioId = randomUUID()
+    const created: Array<{ propertyKey: string; opportunityId: string }> = []
+    const skipped: Array<{ propertyKey: string; opportunityId: string }> = []
+    for (const property of selected) {
+      const existing = active.find((row) => (
+        (property.prospectId && row.prospect_id === property.prospectId)
+        || (property.dossierId && row.dossier_id === property.dossierId)
+      ))
+      if (existing) {
+        skipped.push({ propertyKey: property.key, opportunityId: existing.id })
+        continue
+      }
+      const opportunity = await insertOpportunity(client, {
+        userId: params.userId,
+        input: {
+          type: 'listing_pursuit',
+          title: `${property.label} (${portfolio.ownerName} portfolio)`,
+          company: portfolio.ownerName,
+          propertyAddress: property.address,
+          prospectId: property.prospectId,
+          confidence: 100,
+          source: OWNER_PORTFOLIO_SOURCE,
+          notes: params.input.notes || null,
+          metadata: {
+            portfolioId,
+            portfolioOwnerKey: portfolio.ownerKey,
+            portfolioOwnerName: portfolio.ownerName,
+            portfolioSize: selected.length,
+            propertyKey: property.key,
+            dossierId: property.dossierId,
+          },
+        },
+      })
+      created.push({ propertyKey: property.key, opportunityId: opportunity.id })
+    }
+    await client.query('COMMIT')
+    return { portfolioId, ownerKey: portfolio.ownerKey, ownerName: portfolio.ownerName, created, skipped }
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { deflateSync, inflateSync } from 'zlib';
+import { PdfDocument, measureText, parseJpeg, parsePng, wrapText } from './pdfWriter';
+
+function pngChunk(type: string, body: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(body.length);
+  // Readers used here do not verify CRCs, so a zero checksum keeps the fixture small.
+  return Buffer.concat([length, Buffer.from(type, 'latin1'), body, Buffer.alloc(4)]);
+}
+
+function png(width: number, height: number, colorType: number, rows: Buffer[]): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;
+  header[9] = colorType;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(Buffer.concat(rows))),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+test('text metrics follow the Helvetica widths and wrap on word boundaries', () => {
+  assert.equal(measureText('Dock', 10), 22.78);
+  assert.equal(measureText('Dock', 10, 'bold'), 24.45);
+  assert.deepEqual(wrapText('Fenced yard with two grade doors', 10, 'regular', 80), ['Fenced yard with', 'two grade doors']);
+  assert.deepEqual(wrapText('Line one\nLine two', 10, 'regular', 200), ['Line one', 'Line two']);
+});
+
+test('documents serialize with a cross-reference table that points at each object', () => {
+  const document = new PdfDocument(792, 612, { title: 'Survey' });
+  document.addPage().text('Option 1', 40, 40, { font: 'bold' });
+  document.addPage().rect(40, 40, 100, 50, { fill: [29, 78, 216] });
+  const pdf = document.toBuffer();
+  const source = pdf.toString('latin1');
+
+  assert.ok(source.startsWith('%PDF-1.4'));
+  assert.ok(source.trimEnd().endsWith('%%EOF'));
+  assert.match(source, /\/Type \/Pages \/Kids \[[^\]]+\] \/Count 2/);
+
+  const startxref = Number(/startxref\n(\d+)/.exec(source)?.[1]);
+  assert.equal(source.slice(startxref, startxref + 4), 'xref');
+  const offsets = Array.from(source.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm), (match) => Number(match[1]));
+  offsets.forEach((offset, index) => {
+    assert.equal(source.slice(offset, offset + `${index + 1} 0 obj`.length), `${index + 1} 0 obj`);
+  });
+});
+
+test('images are read from JPEG frame headers and PNG chunks', () => {
+  const jpeg = Buffer.from([
+    0xff, 0xd8, 0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+    0xff, 0xc0, 0x00, 0x0b, 0x08, 0x01, 0x2c, 0x01, 0x90, 0x03, 0x01, 0x11, 0x00,
+  ]);
+  assert.deepEqual(
+    (({ width, height, colorSpace, filter }) => ({ width, height, colorSpace, filter }))(parseJpeg(jpeg)!),
+    { width: 400, height: 300, colorSpace: '/DeviceRGB', filter: 'DCTDecode' },
+  );
+
+  const opaque = parsePng(png(2, 1, 2, [Buffer.from([0, 255, 0, 0, 0, 255, 0])]));
+  assert.equal(opaque?.filter, 'FlateDecode');
+  assert.match(opaque?.decodeParms || '', /\/Predictor 15 \/Colors 3/);
+  assert.equal(opaque?.alpha, undefined);
+
+  // Sub-filtered RGBA row: the second pixel is stored as a delta from the first.
+  const translucent = parsePng(png(2, 1, 6, [Buffer.from([1, 10, 20, 30, 128, 5, 5, 5, 127])]));
+  assert.equal(translucent?.colorSpace, '/DeviceRGB');
+  assert.deepEqual(Array.from(inflateSync(translucent!.data)), [10, 20, 30, 15, 25, 35]);
+  assert.deepEqual(Array.from(inflateSync(translucent!.alpha!)), [128, 255]);
+
+  assert.equal(parseJpeg(Buffer.from('not an image')), null);
+  assert.equal(parsePng(Buffer.from('not an image')), null);
+});
@@ -0,0 +1,476 @@
+import { deflateSync, inflateSync } from 'zlib';
+
+// A small PDF 1.4 writer for server-rendered documents. It only uses the base
+// Helvetica fonts every viewer ships with and embeds images as bytes, so the
+// output never reaches for a network resource when it is opened.
+
+export type PdfColor = [number, number, number];
+export type PdfFont = 'regular' | 'bold';
+
+export type PdfImage = {
+  width: number;
+  height: number;
+  colorSpace: string;
+  bitsPerComponent: number;
+  filter: 'DCTDecode' | 'FlateDecode';
+  decodeParms?: string;
+  decode?: string;
+  data: Buffer;
+  alpha?: Buffer;
+};
+
+type TextOptions = {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+  align?: 'left' | 'right' | 'center';
+  maxWidth?: number;
+};
+
+type ShapeOptions = {
+  fill?: PdfColor;
+  stroke?: PdfColor;
+  lineWidth?: number;
+};
+
+// Advance widths (1/1000 em) for WinAnsi codes 32-126, from the standard AFM metrics.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const WIN_ANSI_EXTRAS: Record<string, [number, number]> = {
+  '–': [0x96, 556],
+  '—': [0x97, 1000],
+  '‘': [0x91, 222],
+  '’': [0x92, 222],
+  '“': [0x93, 333],
+  '”': [0x94, 333],
+  '•': [0x95, 350],
+  '…': [0x85, 1000],
+  '€': [0x80, 556],
+};
+
+function encodeChar(char: string, font: PdfFont): [number, number] {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) {
+    return [code, (font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32]];
+  }
+  if (code >= 160 && code <= 255) return [code, 556];
+  const extra = WIN_ANSI_EXTRAS[char];
+  if (extra) return extra;
+  if (char === '\n' || char === '\t') return [32, 278];
+  return [63, font === 'bold' ? 611 : 556];
+}
+
+export function measureText(text: string, size: number, font: PdfFont = 'regular'): number {
+  let width = 0;
+  for (const char of Array.from(text)) width += encodeChar(char, font)[1];
+  return (width * size) / 1000;
+}
+
+/** Cuts text to fit, ending in an ellipsis when anything was dropped. */
+export function fitText(text: string, size: number, font: PdfFont, maxWidth: number): string {
+  if (measureText(text, size, font) <= maxWidth) return text;
+  const chars = Array.from(text);
+  while (chars.length > 0 && measureText(`${chars.join('').trimEnd()}…`, size, font) > maxWidth) chars.pop();
+  return chars.length > 0 ? `${chars.join('').trimEnd()}…` : '';
+}
+
+/** Greedy word wrap; a single word wider than the line is cut to fit. */
+export function wrapText(text: string, size: number, font: PdfFont, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.replace(/\r\n?/g, '\n').split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, size, font) <= maxWidth) {
+        line = candidate;
+      } else {
+        if (line) lines.push(line);
+        line = fitText(word, size, font, maxWidth);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function hexText(text: string, font: PdfFont): string {
+  return Array.from(text)
+    .map((char) => encodeChar(char, font)[0].toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function num(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2).replace(/\.?0+$/, '');
+}
+
+function colorOp(color: PdfColor, stroke: boolean): string {
+  return `${color.map((channel) => num(channel / 255)).join(' ')} ${stroke ? 'RG' : 'rg'}`;
+}
+
+function pdfTextString(text: string): string {
+  const utf16 = Buffer.from(text, 'utf16le');
+  for (let index = 0; index < utf16.length; index += 2) {
+    const low = utf16[index];
+    utf16[index] = utf16[index + 1];
+    utf16[index + 1] = low;
+  }
+  return `<FEFF${utf16.toString('hex')}>`;
+}
+
+export class PdfPage {
+  readonly operations: string[] = [];
+
+  constructor(
+    readonly width: number,
+    readonly height: number,
+    private readonly registerImage: (image: PdfImage) => string,
+  ) {}
+
+  /** Draws text with its baseline `y` points from the top of the page. */
+  text(value: string, x: number, y: number, options: TextOptions = {}): number {
+    const size = options.size ?? 10;
+    const font = options.font ?? 'regular';
+    const content = options.maxWidth ? fitText(value, size, font, options.maxWidth) : value;
+    if (!content) return 0;
+    const width = measureText(content, size, font);
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+    this.operations.push(
+      `BT ${colorOp(options.color ?? [15, 23, 42], false)} /${font === 'bold' ? 'F2' : 'F1'} ${num(size)} Tf ${num(left)} ${num(this.height - y)} Td <${hexText(content, font)}> Tj ET`,
+    );
+    return width;
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: ShapeOptions): void {
+    this.paint(`${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re`, options);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfColor, lineWidth = 0.75): void {
+    this.paint(`${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l`, { stroke: color, lineWidth });
+  }
+
+  circle(cx: number, cy: number, radius: number, options: ShapeOptions): void {
+    // Four Bezier quarter arcs; 0.5523 is the usual control-point ratio.
+    const k = radius * 0.5523;
+    const y = this.height - cy;
+    this.paint(
+      [
+        `${num(cx + radius)} ${num(y)} m`,
+        `${num(cx + radius)} ${num(y + k)} ${num(cx + k)} ${num(y + radius)} ${num(cx)} ${num(y + radius)} c`,
+        `${num(cx - k)} ${num(y + radius)} ${num(cx - radius)} ${num(y + k)} ${num(cx - radius)} ${num(y)} c`,
+        `${num(cx - radius)} ${num(y - k)} ${num(cx - k)} ${num(y - radius)} ${num(cx)} ${num(y - radius)} c`,
+        `${num(cx + k)} ${num(y - radius)} ${num(cx + radius)} ${num(y - k)} ${num(cx + radius)} ${num(y)} c`,
+      ].join(' '),
+      options,
+    );
+  }
+
+  image(image: PdfImage, x: number, y: number, width: number, height: number): void {
+    const name = this.registerImage(image);
+    this.operations.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(this.height - y - height)} cm /${name} Do Q`);
+  }
+
+  private paint(path: string, options: ShapeOptions): void {
+    const ops = ['q'];
+    if (options.fill) ops.push(colorOp(options.fill, false));
+    if (options.stroke) ops.push(colorOp(options.stroke, true), `${num(options.lineWidth ?? 0.75)} w`);
+    ops.push(path, options.fill && options.stroke ? 'B' : options.fill ? 'f' : 'S', 'Q');
+    this.operations.push(ops.join(' '));
+  }
+}
+
+export class PdfDocument {
+  private readonly pages: PdfPage[] = [];
+  private readonly images: PdfImage[] = [];
+
+  constructor(
+    private readonly pageWidth = 612,
+    private readonly pageHeight = 792,
+    private readonly info: { title?: string; author?: string } = {},
+  ) {}
+
+  addPage(): PdfPage {
+    const page = new PdfPage(this.pageWidth, this.pageHeight, (image) => {
+      let index = this.images.indexOf(image);
+      if (index < 0) index = this.images.push(image) - 1;
+      return `Im${index + 1}`;
+    });
+    this.pages.push(page);
+    return page;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  toBuffer(): Buffer {
+    const objects: Array<Buffer | string> = [];
+    const reserve = () => objects.push('');
+    const set = (id: number, value: Buffer | string) => {
+      objects[id - 1] = value;
+    };
+    const stream = (dictionary: string, data: Buffer) =>
+      Buffer.concat([Buffer.from(`<< ${dictionary} /Length ${data.length} >>\nstream\n`, 'latin1'), data, Buffer.from('\nendstream', 'latin1')]);
+
+    const catalogId = reserve();
+    const pagesId = reserve();
+    const regularFontId = reserve();
+    const boldFontId = reserve();
+    const infoId = reserve();
+    set(regularFontId, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    set(boldFontId, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    set(
+      infoId,
+      `<< /Producer ${pdfTextString('Level CRE')}${this.info.title ? ` /Title ${pdfTextString(this.info.title)}` : ''}${
+        this.info.author ? ` /Author ${pdfTextString(this.info.author)}` : ''
+      } >>`,
+    );
+
+    const imageRefs = this.images.map((image, index) => {
+      let smask = '';
+      if (image.alpha) {
+        const alphaId = reserve();
+        set(
+          alphaId,
+          stream(
+            `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode`,
+            image.alpha,
+          ),
+        );
+        smask = ` /SMask ${alphaId} 0 R`;
+      }
+      const imageId = reserve();
+      set(
+        imageId,
+        stream(
+          `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace ${image.colorSpace} /BitsPerComponent ${image.bitsPerComponent} /Filter /${image.filter}${
+            image.decodeParms ? ` /DecodeParms ${image.decodeParms}` : ''
+          }${image.decode ? ` /Decode ${image.decode}` : ''}${smask}`,
+          image.data,
+        ),
+      );
+      return `/Im${index + 1} ${imageId} 0 R`;
+    });
+    const resources = `<< /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >>${
+      imageRefs.length > 0 ? ` /XObject << ${imageRefs.join(' ')} >>` : ''
+    } >>`;
+
+    const pageIds = this.pages.map((page) => {
+      const contentId = reserve();
+      set(contentId, stream('/Filter /FlateDecode', deflateSync(Buffer.from(page.operations.join('\n'), 'latin1'))));
+      const pageId = reserve();
+      set(
+        pageId,
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] /Resources ${resources} /Contents ${contentId} 0 R >>`,
+      );
+      return pageId;
+    });
+    set(pagesId, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    let offset = chunks[0].length;
+    const offsets: number[] = [];
+    objects.forEach((object, index) => {
+      const body = typeof object === 'string' ? Buffer.from(object, 'latin1') : object;
+      const chunk = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+      offsets.push(offset);
+      offset += chunk.length;
+      chunks.push(chunk);
+    });
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map((value) => `${String(value).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+      'startxref',
+      String(offset),
+      '%%EOF',
+      '',
+    ].join('\n');
+    chunks.push(Buffer.from(xref, 'latin1'));
+    return Buffer.concat(chunks);
+  }
+}
+
+const JPEG_SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+/** JPEG bytes embed as-is; only the frame header is read for size and channels. */
+export function parseJpeg(buffer: Buffer): PdfImage | null {
+  if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== 0xd8) return null;
+  let offset = 2;
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) return null;
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    const length = buffer.readUInt16BE(offset + 2);
+    if (JPEG_SOF_MARKERS.has(marker)) {
+      const height = buffer.readUInt16BE(offset + 5);
+      const width = buffer.readUInt16BE(offset + 7);
+      const components = buffer[offset + 9];
+      const colorSpace = components === 1 ? '/DeviceGray' : components === 3 ? '/DeviceRGB' : components === 4 ? '/DeviceCMYK' : null;
+      if (!colorSpace || width === 0 || height === 0) return null;
+      return {
+        width,
+        height,
+        colorSpace,
+        bitsPerComponent: 8,
+        filter: 'DCTDecode',
+        // Adobe writes CMYK JPEGs inverted.
+        decode: components === 4 ? '[1 0 1 0 1 0 1 0]' : undefined,
+        data: buffer,
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const toLeft = Math.abs(estimate - left);
+  const toUp = Math.abs(estimate - up);
+  const toUpLeft = Math.abs(estimate - upLeft);
+  if (toLeft <= toUp && toLeft <= toUpLeft) return left;
+  return toUp <= toUpLeft ? up : upLeft;
+}
+
+function unfilterPng(data: Buffer, width: number, height: number, bytesPerPixel: number): Buffer | null {
+  const stride = width * bytesPerPixel;
+  const output = Buffer.alloc(stride * height);
+  let input = 0;
+  for (let row = 0; row < height; row += 1) {
+    const filter = data[input];
+    input += 1;
+    const start = row * stride;
+    for (let column = 0; column < stride; column += 1) {
+      const raw = data[input + column];
+      const left = column >= bytesPerPixel ? output[start + column - bytesPerPixel] : 0;
+      const up = row > 0 ? output[start - stride + column] : 0;
+      const upLeft = row > 0 && column >= bytesPerPixel ? output[start - stride + column - bytesPerPixel] : 0;
+      let value: number;
+      if (filter === 0) value = raw;
+      else if (filter === 1) value = raw + left;
+      else if (filter === 2) value = raw + up;
+      else if (filter === 3) value = raw + Math.floor((left + up) / 2);
+      else if (filter === 4) value = raw + paeth(left, up, upLeft);
+      else return null;
+      output[start + column] = value & 0xff;
+    }
+    input += stride;
+  }
+  return output;
+}
+
+/**
+ * Opaque PNGs pass their compressed data straight through with a PNG
+ * predictor; 8-bit PNGs with alpha are decoded so alpha can become a soft mask.
+ * Interlaced files are not supported.
+ */
+export function parsePng(buffer: Buffer): PdfImage | null {
+  if (buffer.length < 33 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) return null;
+  let offset = 8;
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Buffer | null = null;
+  const idat: Buffer[] = [];
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const body = buffer.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      bitDepth = body[8];
+      colorType = body[9];
+      interlace = body[12];
+    } else if (type === 'PLTE') {
+      palette = Buffer.from(body);
+    } else if (type === 'IDAT') {
+      idat.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+  if (!width || !height || interlace !== 0 || idat.length === 0) return null;
+  const compressed = Buffer.concat(idat);
+
+  if (colorType === 0 || colorType === 2 || colorType === 3) {
+    const colors = colorType === 2 ? 3 : 1;
+    let colorSpace = colorType === 2 ? '/DeviceRGB' : '/DeviceGray';
+    if (colorType === 3) {
+      if (!palette) return null;
+      colorSpace = `[/Indexed /DeviceRGB ${palette.length / 3 - 1} <${palette.toString('hex')}>]`;
+    }
+    return {
+      width,
+      height,
+      colorSpace,
+      bitsPerComponent: bitDepth,
+      filter: 'FlateDecode',
+      decodeParms: `<< /Predictor 15 /Colors ${colors} /BitsPerComponent ${bitDepth} /Columns ${width} >>`,
+      data: compressed,
+    };
+  }
+
+  if ((colorType === 4 || colorType === 6) && bitDepth === 8) {
+    const channels = colorType === 6 ? 4 : 2;
+    let pixels: Buffer | null;
+    try {
+      pixels = unfilterPng(inflateSync(compressed), width, height, channels);
+    } catch {
+      return null;
+    }
+    if (!pixels) return null;
+    const colorChannels = channels - 1;
+    const color = Buffer.alloc(width * height * colorChannels);
+    const alpha = Buffer.alloc(width * height);
+    for (let pixel = 0; pixel < width * height; pixel += 1) {
+      pixels.copy(color, pixel * colorChannels, pixel * channels, pixel * channels + colorChannels);
+      alpha[pixel] = pixels[pixel * channels + colorChannels];
+    }
+    return {
+      width,
+      height,
+      colorSpace: colorType === 6 ? '/DeviceRGB' : '/DeviceGray',
+      bitsPerComponent: 8,
+      filter: 'FlateDecode',
+      data: deflateSync(color),
+      alpha: deflateSync(alpha),
+    };
+  }
+
+  return null;
+}
+
+export function parsePdfImage(buffer: Buffer, contentType: string): PdfImage | null {
+  const type = contentType.toLowerCase();
+  if (type === 'image/jpeg' || type === 'image/jpg') return parseJpeg(buffer);
+  if (type === 'image/png') return parsePng(buffer);
+  return parseJpeg(buffer) ?? parsePng(buffer);
+}
@@ -54,6 +54,7 @@ type AuditTitle = {
   ats_reference?: string | null;
   municipality?: string | null;
   registered_owner?: string | null;
+  transfer_registration_date?: string | null;
   title_pulled_date?: string | null;
   legal_lookup_status?: string | null;
   municipal_address?: string | null;
@@ -357,6 +358,8 @@ function titleMetadata(auditCase: AuditCase, title: AuditTitle) {
     block: text(title.block),
     lot: text(title.lot),
     municipality: text(title.municipality),
+    titlePulledDate: text(title.title_pulled_date),
+    transferRegistrationDate: text(title.transfer_registration_date),
     legalLookupStatus: text(title.legal_lookup_status),
     verifiedAddressStatus: text(auditCase.property_address_status),
     municipalAddress: text(title.municipal_address),
@@ -0,0 +1,85 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildRenewalRadar, leaseExpiryFromCommencement } from './renewalRadar';
+import { syncRenewalRadar } from './renewalRadarService';
+
+const now = new Date('2026-03-15T12:00:00Z');
+
+test('lease comps expire the day before the term anniversary', () => {
+  assert.equal(leaseExpiryFromCommencement('2021-01-01', 60), '2025-12-31');
+  assert.equal(leaseExpiryFromCommencement('2020-08-31', 6), '2021-02-28');
+  assert.equal(leaseExpiryFromCommencement('not a date', 60), null);
+  assert.equal(leaseExpiryFromCommencement('2021-01-01', 0), null);
+});
+
+test('radar marks leases inside the lead window as due and prefers deals over matching comps', () => {
+  const items = buildRenewalRadar({
+    leadMonths: 18,
+    now,
+    deals: [
+      { id: 'deal-1', title: 'Acheson DC', address: '26 Acheson Rd', clientName: 'Northwind', dealType: 'lease', leaseExpiryDate: '2027-06-30', renewalNoticeDate: '2026-05-01' },
+      { id: 'deal-2', title: 'Nisku Sale', address: '703 23 Ave', dealType: 'sale', leaseExpiryDate: '2026-12-31' },
+      { id: 'deal-3', title: 'Far Out', address: '1 Far Rd', dealType: 'renewal', leaseExpiryDate: '2030-01-31' },
+    ],
+    comps: [
+      { id: 'comp-1', address: '26 ACHESON RD.', tenant: 'Northwind', dealType: 'lease', commencement: '2022-07-01', termMonths: 60 },
+      { id: 'comp-2', address: '9 Yellowhead Tr', tenant: 'Contoso', dealType: 'lease', commencement: '2021-04-01', termMonths: 60, buildingSize: '40,000' },
+      { id: 'comp-3', address: '5 Old Rd', tenant: 'Gone', dealType: 'lease', commencement: '2015-01-01', termMonths: 60 },
+    ],
+  });
+
+  assert.deepEqual(items.map((item) => item.key), [
+    'comp:comp-2:2026-03-31',
+    'deal:deal-1:2027-06-30',
+    'deal:deal-3:2030-01-31',
+  ]);
+  const [contoso, northwind, farOut] = items;
+  assert.equal(contoso.isDue, true);
+  assert.equal(contoso.sizeSf, 40000);
+  assert.equal(northwind.isDue, true);
+  assert.equal(northwind.triggerDate, '2025-12-30');
+  assert.equal(northwind.noticeSoon, true);
+  assert.equal(farOut.isDue, false);
+});
+
+test('syncing proposes each due lease once and skips addresses with an active renewal pursuit', async () => {
+  const queries: Array<{ sql: string; params: unknown[] }> = [];
+  const pool = {
+    query: async (sql: string, params: unknown[] = []) => {
+      queries.push({ sql, params });
+      if (sql.includes('renewal_lead_months')) return { rows: [{ renewal_lead_months: 12 }] };
+      if (sql.includes('FROM public.deals')) {
+        return {
+          rows: [
+            { id: 'deal-1', title: 'Acheson DC', address: '26 Acheson Rd', client_name: 'Northwind', deal_type: 'lease', lease_expiry_date: '2026-09-30', renewal_notice_date: null },
+            { id: 'deal-2', title: 'Pursued', address: '9 Yellowhead Tr', client_name: 'Contoso', deal_type: 'lease', lease_expiry_date: '2026-10-31', renewal_notice_date: null },
+            { id: 'deal-3', title: 'Reviewed', address: '5 Old Rd', client_name: 'Fabrikam', deal_type: 'lease', lease_expiry_date: '2026-11-30', renewal_notice_date: null },
+          ],
+        };
+      }
+      if (sql.includes('FROM public.market_comps')) return { rows: [] };
+      if (sql.includes('FROM public.activity_events')) {
+        return { rows: [{ id: 'event-old', external_event_id: 'renewal-radar:deal:deal-3:2026-11-30', match_status: 'ignored', opportunity_id: null }] };
+      }
+      if (sql.includes('FROM public.opportunities')) return { rows: [{ id: 'opportunity-1', property_address: '9 Yellowhead Tr.' }] };
+      if (sql.includes('INSERT INTO public.activity_events')) return { rows: [{ id: 'event-new', inserted: true }] };
+      return { rows: [] };
+    },
+    connect: async () => ({ query: (sql: string, params?: unknown[]) => pool.query(sql, params), release: () => undefined }),
+  } as any;
+
+  const result = await syncRenewalRadar({ pool, userId: 'user-1', now });
+
+  assert.equal(result.leadMonths, 12);
+  assert.equal(result.proposed, 1);
+  const inserts = queries.filter((query) => query.sql.includes('INSERT INTO public.activity_events'));
+  assert.equal(inserts.length, 1);
+  assert.equal(inserts[0].params[3], 'renewal-radar:deal:deal-1:2026-09-30');
+  assert.equal(queries.some((query) => query.sql.includes("'{proposal,sourceEventId}'")), true);
+  assert.deepEqual(result.items.map((item) => [item.sourceId, item.proposalStatus, item.opportunityId]), [
+    ['deal-1', 'needs_review', null],
+    ['deal-2', null, 'opportunity-1'],
+    ['deal-3', 'ignored', null],
+  ]);
+});
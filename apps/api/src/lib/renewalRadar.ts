@@ -0,0 +1,172 @@
+export const DEFAULT_RENEWAL_LEAD_MONTHS = 18;
+export const MIN_RENEWAL_LEAD_MONTHS = 1;
+export const MAX_RENEWAL_LEAD_MONTHS = 60;
+
+// Expiries this far past are still worth a call (holdovers, late renewals);
+// anything older is history rather than work.
+const EXPIRED_GRACE_DAYS = 90;
+const NOTICE_SOON_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type RenewalRadarDeal = {
+  id: string;
+  title: string;
+  address: string;
+  clientName?: string | null;
+  dealType: string;
+  sizeSf?: number | null;
+  leaseExpiryDate?: string | null;
+  renewalNoticeDate?: string | null;
+  prospectId?: string | null;
+};
+
+export type RenewalRadarComp = {
+  id: string;
+  address: string;
+  tenant?: string | null;
+  dealType: string;
+  buildingSize?: string | null;
+  commencement?: string | null;
+  termMonths?: number | null;
+};
+
+export type RenewalRadarItem = {
+  key: string;
+  sourceType: 'deal' | 'comp';
+  sourceId: string;
+  title: string;
+  address: string;
+  tenant: string | null;
+  sizeSf: number | null;
+  expiryDate: string;
+  noticeDate: string | null;
+  triggerDate: string;
+  daysUntilExpiry: number;
+  isDue: boolean;
+  noticeSoon: boolean;
+  prospectId: string | null;
+};
+
+function parseDay(value: string | null | undefined): Date | null {
+  const day = String(value || '').trim().slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) return null;
+  const date = new Date(`${day}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// Clamps to the last day of the target month so Aug 31 minus six months is
+// Feb 28/29 rather than rolling into March.
+export function addMonthsUtc(date: Date, months: number): Date {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+}
+
+/** A lease commencing Jan 1 for 60 months ends Dec 31 five years later. */
+export function leaseExpiryFromCommencement(commencement: string | null | undefined, termMonths: number | null | undefined): string | null {
+  const start = parseDay(commencement);
+  if (!start || !termMonths || termMonths <= 0) return null;
+  return formatDay(addMonthsUtc(new Date(start.getTime() - DAY_MS), termMonths));
+}
+
+function normalizeAddress(address: string): string {
+  return address.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function parseSize(value: string | null | undefined): number | null {
+  const parsed = Number(String(value || '').replace(/[,\s]|sf$/gi, ''));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+export function normalizeRenewalLeadMonths(value: unknown): number {
+  const parsed = Math.round(Number(value));
+  if (!Number.isFinite(parsed)) return DEFAULT_RENEWAL_LEAD_MONTHS;
+  return Math.min(MAX_RENEWAL_LEAD_MONTHS, Math.max(MIN_RENEWAL_LEAD_MONTHS, parsed));
+}
+
+/**
+ * Turns lease expiries from closed deals and lease comps into a dated radar.
+ * An item is due once today is inside the lead window before expiry. When a
+ * deal and a comp describe the same lease (same address and expiry month) the
+ * deal wins, since it carries the broker's own notice date and prospect link.
+ */
+export function buildRenewalRadar(params: {
+  deals: RenewalRadarDeal[];
+  comps: RenewalRadarComp[];
+  leadMonths: number;
+  now?: Date;
+}): RenewalRadarItem[] {
+  const today = startOfUtcDay(params.now ?? new Date());
+  const leadMonths = normalizeRenewalLeadMonths(params.leadMonths);
+  const byLease = new Map<string, RenewalRadarItem>();
+
+  const consider = (item: Omit<RenewalRadarItem, 'triggerDate' | 'daysUntilExpiry' | 'isDue' | 'noticeSoon' | 'key'>) => {
+    const expiry = parseDay(item.expiryDate);
+    if (!expiry) return;
+    const daysUntilExpiry = Math.round((expiry.getTime() - today.getTime()) / DAY_MS);
+    if (daysUntilExpiry < -EXPIRED_GRACE_DAYS) return;
+
+    const trigger = addMonthsUtc(expiry, -leadMonths);
+    const notice = parseDay(item.noticeDate);
+    const daysUntilNotice = notice ? Math.round((notice.getTime() - today.getTime()) / DAY_MS) : null;
+    const leaseKey = `${normalizeAddress(item.address)}|${item.expiryDate.slice(0, 7)}`;
+    if (byLease.has(leaseKey) && byLease.get(leaseKey)!.sourceType === 'deal') return;
+
+    byLease.set(leaseKey, {
+      ...item,
+      key: `${item.sourceType}:${item.sourceId}:${item.expiryDate}`,
+      triggerDate: formatDay(trigger),
+      daysUntilExpiry,
+      isDue: trigger.getTime() <= today.getTime(),
+      noticeSoon: daysUntilNotice !== null && daysUntilNotice >= 0 && daysUntilNotice <= NOTICE_SOON_DAYS,
+    });
+  };
+
+  for (const deal of params.deals) {
+    if (deal.dealType !== 'lease' && deal.dealType !== 'renewal') continue;
+    if (!deal.leaseExpiryDate) continue;
+    consider({
+      sourceType: 'deal',
+      sourceId: deal.id,
+      title: deal.clientName ? `${deal.clientName} renewal` : `${deal.title} renewal`,
+      address: deal.address,
+      tenant: deal.clientName || null,
+      sizeSf: deal.sizeSf ?? null,
+      expiryDate: deal.leaseExpiryDate.slice(0, 10),
+      noticeDate: deal.renewalNoticeDate ? deal.renewalNoticeDate.slice(0, 10) : null,
+      prospectId: deal.prospectId || null,
+    });
+  }
+
+  for (const comp of params.comps) {
+    if (comp.dealType !== 'lease') continue;
+    const expiryDate = leaseExpiryFromCommencement(comp.commencement, comp.termMonths);
+    if (!expiryDate) continue;
+    consider({
+      sourceType: 'comp',
+      sourceId: comp.id,
+      title: comp.tenant ? `${comp.tenant} lease expiry` : `Lease expiry at ${comp.address}`,
+      address: comp.address,
+      tenant: comp.tenant || null,
+      sizeSf: parseSize(comp.buildingSize),
+      expiryDate,
+      noticeDate: null,
+      prospectId: null,
+    });
+  }
+
+  return Array.from(byLease.values()).sort((left, right) => left.expiryDate.localeCompare(right.expiryDate));
+}
+
+export function renewalRadarAddressKey(address: string | null | undefined): string {
+  return normalizeAddress(String(address || ''));
+}
@@ -0,0 +1,239 @@
+import type { Pool } from 'pg';
+import { z } from 'zod';
+
+import { ActivityEventBatchSchema, importActivityEventBatch } from './activityEventService';
+import {
+  MAX_RENEWAL_LEAD_MONTHS,
+  MIN_RENEWAL_LEAD_MONTHS,
+  buildRenewalRadar,
+  normalizeRenewalLeadMonths,
+  renewalRadarAddressKey,
+  type RenewalRadarItem,
+} from './renewalRadar';
+
+export const RENEWAL_RADAR_SOURCE = 'renewal_radar';
+
+export const RenewalRadarSettingsSchema = z.object({
+  leadMonths: z.number().int().min(MIN_RENEWAL_LEAD_MONTHS).max(MAX_RENEWAL_LEAD_MONTHS),
+});
+
+export type RenewalRadarEntry = RenewalRadarItem & {
+  proposalId: string | null;
+  proposalStatus: 'needs_review' | 'matched' | 'ignored' | null;
+  opportunityId: string | null;
+};
+
+export type RenewalRadarResponse = {
+  leadMonths: number;
+  proposed: number;
+  items: RenewalRadarEntry[];
+};
+
+function externalIdFor(item: RenewalRadarItem): string {
+  return `renewal-radar:${item.key}`;
+}
+
+function proposalReason(item: RenewalRadarItem, leadMonths: number): string {
+  const parts = [
+    `Lease at ${item.address} expires ${item.expiryDate}`,
+    item.noticeDate ? `renewal notice due ${item.noticeDate}` : null,
+    `inside the ${leadMonths}-month renewal window`,
+  ].filter(Boolean);
+  const source = item.sourceType === 'deal' ? 'from your closed deal' : 'from a lease comp';
+  return `${parts.join(', ')} (${source}).`;
+}
+
+export async function getRenewalLeadMonths(params: { pool: Pool; userId: string }): Promise<number> {
+  const { rows } = await params.pool.query(
+    `SELECT renewal_lead_months FROM public.profiles WHERE id = $1 LIMIT 1`,
+    [params.userId],
+  );
+  return normalizeRenewalLeadMonths(rows[0]?.renewal_lead_months);
+}
+
+export async function updateRenewalLeadMonths(params: { pool: Pool; userId: string; leadMonths: number }): Promise<number> {
+  const { rows } = await params.pool.query(
+    `
+      UPDATE public.profiles
+      SET renewal_lead_months = $2, updated_at = now()
+      WHERE id = $1
+      RETURNING renewal_lead_months
+    `,
+    [params.userId, params.leadMonths],
+  );
+  return normalizeRenewalLeadMonths(rows[0]?.renewal_lead_months ?? params.leadMonths);
+}
+
+/**
+ * Builds the radar from the broker's deals and lease comps and queues an
+ * `opportunity_promotion_proposed` event for each newly due lease, so renewals
+ * are reviewed through the same approve/ignore flow as agent proposals.
+ * Proposals are keyed by source and expiry, so re-reading the radar never
+ * re-opens one the broker already approved or ignored.
+ */
+export async function syncRenewalRadar(params: { pool: Pool; userId: string; now?: Date }): Promise<RenewalRadarResponse> {
+  const leadMonths = await getRenewalLeadMonths(params);
+  const [deals, comps, proposals, opportunities] = await Promise.all([
+    params.pool.query(
+      `
+        SELECT id, title, address, client_name, deal_type, size_sf, prospect_id,
+          to_char(lease_expiry_date, 'YYYY-MM-DD') AS lease_expiry_date,
+          to_char(renewal_notice_date, 'YYYY-MM-DD') AS renewal_notice_date
+        FROM public.deals
+        WHERE user_id = $1 AND lease_expiry_date IS NOT NULL
+      `,
+      [params.userId],
+    ),
+    params.pool.query(
+      `
+        SELECT id, address, tenant, deal_type, building_size, commencement, term_months
+        FROM public.market_comps
+        WHERE user_id = $1 AND deal_type = 'lease' AND commencement IS NOT NULL AND term_months IS NOT NULL
+      `,
+      [params.userId],
+    ),
+    params.pool.query(
+      `
+        SELECT id, external_event_id, match_status, opportunity_id
+        FROM public.activity_events
+        WHERE user_id = $1 AND source = $2 AND event_type = 'opportunity_promotion_proposed'
+      `,
+      [params.userId, RENEWAL_RADAR_SOURCE],
+    ),
+    params.pool.query(
+      `
+        SELECT id, property_address
+        FROM public.opportunities
+        WHERE user_id = $1 AND type = 'renewal_relocation' AND status = 'active' AND property_address IS NOT NULL
+      `,
+      [params.userId],
+    ),
+  ]);
+
+  const radar = buildRenewalRadar({
+    leadMonths,
+    now: params.now,
+    deals: deals.rows.map((row) => ({
+      id: row.id,
+      title: row.title,
+      address: row.address,
+      clientName: row.client_name,
+      dealType: row.deal_type,
+      sizeSf: row.size_sf == null ? null : Number(row.size_sf),
+      leaseExpiryDate: row.lease_expiry_date,
+      renewalNoticeDate: row.renewal_notice_date,
+      prospectId: row.prospect_id,
+    })),
+    comps: comps.rows.map((row) => ({
+      id: row.id,
+      address: row.address,
+      tenant: row.tenant,
+      dealType: row.deal_type,
+      buildingSize: row.building_size,
+      commencement: row.commencement,
+      termMonths: row.term_months,
+    })),
+  });
+
+  const proposalsByExternalId = new Map(proposals.rows.map((row) => [row.external_event_id, row]));
+  const opportunityByAddress = new Map(opportunities.rows.map((row) => [renewalRadarAddressKey(row.property_address), row.id]));
+
+  const toPropose = radar.filter((item) => (
+    item.isDue
+    && !proposalsByExternalId.has(externalIdFor(item))
+    && !opportunityByAddress.has(renewalRadarAddressKey(item.address))
+  ));
+
+  let proposed = 0;
+  if (toPropose.length > 0) {
+    const summary = await importActivityEventBatch({
+      pool: params.pool,
+      userId: params.userId,
+      payload: ActivityEventBatchSchema.parse({
+        source: RENEWAL_RADAR_SOURCE,
+        events: toPropose.map((item) => ({
+          externalEventId: externalIdFor(item),
+          eventType: 'opportunity_promotion_proposed',
+          direction: 'internal',
+          evidenceStatus: 'observed',
+          occurredAt: params.now ?? new Date(),
+          company: item.tenant,
+          subject: `Proposed opportunity: ${item.title}`,
+          summary: proposalReason(item, leadMonths),
+          propertyAddress: item.address,
+          confidence: item.sourceType === 'deal' ? 90 : 70,
+          matchStatus: 'needs_review',
+          matchReason: 'renewal_radar_lead_window',
+          prospectId: item.prospectId,
+          sourceMetadata: {
+            proposal: {
+              // Replaced with this event's own id below; the event is the
+              // evidence the approve flow links the new opportunity to.
+              sourceEventId: 'pending',
+              externalId: externalIdFor(item),
+              type: 'renewal_relocation',
+              title: item.title,
+              company: item.tenant,
+              propertyAddress: item.address,
+              prospectId: item.prospectId,
+              confidence: item.sourceType === 'deal' ? 90 : 70,
+              reason: proposalReason(item, leadMonths),
+              source: RENEWAL_RADAR_SOURCE,
+              metadata: {
+                renewalRadar: {
+                  sourceType: item.sourceType,
+                  sourceId: item.sourceId,
+                  expiryDate: item.expiryDate,
+                  noticeDate: item.noticeDate,
+                  leadMonths,
+                },
+              },
+            },
+          },
+        })),
+      }),
+    });
+
+    proposed = summary.inserted;
+    const insertedIds = summary.results
+      .filter((result) => result.inserted && result.eventId)
+      .map((result) => result.eventId as string);
+    if (insertedIds.length > 0) {
+      await params.pool.query(
+        `
+          UPDATE public.activity_events
+          SET source_metadata = jsonb_set(source_metadata, '{proposal,sourceEventId}', to_jsonb(id::text))
+          WHERE user_id = $1 AND id = ANY($2::varchar[])
+        `,
+        [params.userId, insertedIds],
+      );
+    }
+    for (const result of summary.results) {
+      if (result.eventId && result.externalEventId) {
+        proposalsByExternalId.set(result.externalEventId, {
+          id: result.eventId,
+          external_event_id: result.externalEventId,
+          match_status: 'needs_review',
+          opportunity_id: null,
+        });
+      }
+    }
+    if (summary.errors > 0) {
+      console.error('Renewal radar could not queue some proposals:', summary.results.filter((result) => result.error));
+    }
+  }
+
+  return {
+    leadMonths,
+    proposed,
+    items: radar.map((item) => {
+      const proposal = proposalsByExternalId.get(externalIdFor(item));
+      return {
+        ...item,
+        proposalId: proposal?.id ?? null,
+        proposalStatus: proposal?.match_status ?? null,
+        opportunityId: proposal?.opportunity_id ?? opportunityByAddress.get(renewalRadarAddressKey(item.address)) ?? null,
+      };
+    }),
+  };
+}
@@ -0,0 +1,128 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+
+import {
+  SHARE_ITEM_OPENED_ACTION,
+  SHARE_SETTINGS_ACTION,
+  SHARE_VIEW_ACTION,
+  checkShareLinkAccess,
+  createShareAccessGrant,
+  createShareUnlockThrottle,
+  createShareWriteLimiter,
+  hashSharePasscode,
+  readShareAccessGrant,
+  summarizeShareEngagement,
+  verifyShareAccessGrant,
+  verifySharePasscode,
+} from './shareLinkAccess';
+
+test('share passcodes are salted hashes that verify only the original passcode', () => {
+  const hash = hashSharePasscode('west-valley');
+  assert.match(hash, /^scrypt\$/);
+  assert.notEqual(hash, hashSharePasscode('west-valley'));
+  assert.equal(verifySharePasscode('west-valley', hash), true);
+  assert.equal(verifySharePasscode('West-Valley', hash), false);
+  assert.equal(verifySharePasscode('west-valley', null), false);
+  assert.equal(verifySharePasscode('west-valley', 'plain-text'), false);
+});
+
+test('access grants expire, are bound to the token and die with the passcode', () => {
+  const now = new Date('2026-05-01T12:00:00.000Z');
+  const hash = hashSharePasscode('1234');
+  const grant = createShareAccessGrant('token-a', hash, now);
+
+  assert.equal(grant.expiresAt, '2026-05-02T00:00:00.000Z');
+  assert.equal(verifyShareAccessGrant(grant.access, 'token-a', hash, now), true);
+  assert.equal(verifyShareAccessGrant(grant.access, 'token-b', hash, now), false);
+  assert.equal(verifyShareAccessGrant(grant.access, 'token-a', hashSharePasscode('1234'), now), false);
+  assert.equal(verifyShareAccessGrant(grant.access, 'token-a', hash, new Date('2026-05-02T00:00:01.000Z')), false);
+
+  const [expires] = grant.access.split('.');
+  const tampered = `${Number(expires) + 60_000}.${grant.access.split('.')[1]}`;
+  assert.equal(verifyShareAccessGrant(tampered, 'token-a', hash, now), false);
+});
+
+test('expired links never prompt for a passcode', () => {
+  const now = new Date('2026-05-01T12:00:00.000Z');
+  const passcodeHash = hashSharePasscode('1234');
+  const grant = createShareAccessGrant('token', passcodeHash, now).access;
+
+  assert.equal(checkShareLinkAccess({ expiresAt: null, passcodeHash: null }, 'token', null, now), 'open');
+  assert.equal(checkShareLinkAccess({ expiresAt: '2026-05-01T11:59:59.000Z', passcodeHash }, 'token', grant, now), 'expired');
+  assert.equal(checkShareLinkAccess({ expiresAt: '2026-06-01T00:00:00.000Z', passcodeHash }, 'token', null, now), 'passcode_required');
+  assert.equal(checkShareLinkAccess({ expiresAt: null, passcodeHash }, 'token', grant, now), 'open');
+
+  assert.equal(readShareAccessGrant(' header ', 'query'), 'header');
+  assert.equal(readShareAccessGrant(undefined, 'query'), 'query');
+  assert.equal(readShareAccessGrant('', ['a', 'b']), null);
+});
+
+test('engagement folds views and opened items and ignores other events', () => {
+  const engagement = summarizeShareEngagement([
+    { action: SHARE_VIEW_ACTION, createdAt: '2026-05-03T10:00:00.000Z', payload: {} },
+    { action: SHARE_ITEM_OPENED_ACTION, createdAt: '2026-05-03T10:01:00.000Z', payload: { itemId: 'b' } },
+    { action: SHARE_VIEW_ACTION, createdAt: '2026-05-01T09:00:00.000Z', payload: {} },
+    { action: SHARE_ITEM_OPENED_ACTION, createdAt: '2026-05-01T09:05:00.000Z', payload: { itemId: 'a' } },
+    { action: SHARE_ITEM_OPENED_ACTION, createdAt: '2026-05-02T09:05:00.000Z', payload: { itemId: 'a' } },
+    { action: SHARE_ITEM_OPENED_ACTION, createdAt: '2026-05-02T09:06:00.000Z', payload: {} },
+    { action: SHARE_SETTINGS_ACTION, createdAt: '2026-05-04T00:00:00.000Z', payload: {} },
+  ]);
+
+  assert.equal(engagement.viewCount, 2);
+  assert.equal(engagement.firstViewedAt, '2026-05-01T09:00:00.000Z');
+  assert.equal(engagement.lastViewedAt, '2026-05-03T10:00:00.000Z');
+  assert.deepEqual(engagement.openedItems, [
+    { itemId: 'a', openCount: 2, lastOpenedAt: '2026-05-02T09:05:00.000Z' },
+    { itemId: 'b', openCount: 1, lastOpenedAt: '2026-05-03T10:01:00.000Z' },
+  ]);
+});
+
+test('wrong passcodes lock out the address with growing lockouts, never the link', () => {
+  const throttle = createShareUnlockThrottle({ perIp: 3, perTokenAlert: 5 });
+  const start = Date.parse('2026-05-01T12:00:00.000Z');
+  const attacker = { token: 'token-a', ip: '203.0.113.9' };
+  const client = { token: 'token-a', ip: '198.51.100.7' };
+
+  assert.equal(throttle.recordFailure(attacker, start).lockedForSeconds, 0);
+  assert.equal(throttle.recordFailure(attacker, start + 1_000).lockedForSeconds, 0);
+  assert.equal(throttle.retryAfterSeconds(attacker, start + 2_000), 0);
+  assert.deepEqual(throttle.recordFailure(attacker, start + 2_000), { lockedForSeconds: 15 * 60, linkFailures: 3, linkUnderAttack: false });
+  assert.equal(throttle.retryAfterSeconds(attacker, start + 62_000), 14 * 60);
+  // The locked-out address is held back on every link, but the real client can still unlock.
+  assert.ok(throttle.retryAfterSeconds({ token: 'token-b', ip: attacker.ip }, start + 62_000) > 0);
+  assert.equal(throttle.retryAfterSeconds(client, start + 62_000), 0);
+
+  // Enough failures from anywhere flag the link for the broker without blocking it.
+  throttle.recordFailure(client, start + 63_000);
+  const flagged = throttle.recordFailure({ token: 'token-a', ip: '192.0.2.44' }, start + 64_000);
+  assert.deepEqual(flagged, { lockedForSeconds: 0, linkFailures: 5, linkUnderAttack: true });
+  assert.equal(throttle.retryAfterSeconds(client, start + 65_000), 0);
+  assert.equal(throttle.retryAfterSeconds({ token: 'token-a', ip: null }, start + 65_000), 0);
+
+  // The address's second lockout lasts twice as long as the first.
+  const afterLock = start + 2_000 + 15 * 60 * 1000;
+  assert.equal(throttle.retryAfterSeconds(attacker, afterLock), 0);
+  throttle.recordFailure(attacker, afterLock);
+  throttle.recordFailure(attacker, afterLock);
+  assert.equal(throttle.recordFailure(attacker, afterLock).lockedForSeconds, 30 * 60);
+
+  throttle.recordSuccess(attacker);
+  assert.equal(throttle.retryAfterSeconds(attacker, afterLock + 1_000), 0);
+});
+
+test('public share writes are budgeted per address and per link', () => {
+  const limiter = createShareWriteLimiter({ perToken: 4, perIp: 2, windowMs: 60_000 });
+  const start = Date.parse('2026-05-01T12:00:00.000Z');
+  const client = { token: 'token-a', ip: '203.0.113.9' };
+
+  assert.equal(limiter.take(client, start), 0);
+  assert.equal(limiter.take(client, start + 1_000), 0);
+  assert.equal(limiter.take(client, start + 2_000), 58);
+  // Refused writes do not spend the link's budget.
+  assert.equal(limiter.take(client, start + 3_000), 57);
+  assert.equal(limiter.take({ token: 'token-a', ip: '198.51.100.7' }, start + 3_000), 0);
+  assert.equal(limiter.take({ token: 'token-a', ip: '192.0.2.44' }, start + 3_000), 0);
+  assert.equal(limiter.take({ token: 'token-a', ip: '192.0.2.45' }, start + 3_000), 57);
+
+  assert.equal(limiter.take(client, start + 60_000), 0);
+});
@@ -0,0 +1,276 @@
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+
+// Client share links (survey links and pursuit activity links) can carry an
+// expiry and a passcode. A correct passcode is exchanged for a short-lived
+// access grant signed with the stored passcode hash, so changing or clearing
+// the passcode invalidates every grant already handed out.
+
+export type ShareLinkSettings = {
+  expiresAt: string | Date | null;
+  passcodeHash: string | null;
+};
+
+export type ShareLinkAccess = 'open' | 'expired' | 'passcode_required';
+
+export const SHARE_CREATED_ACTION = 'share.created';
+export const SHARE_REVOKED_ACTION = 'share.revoked';
+export const SHARE_SETTINGS_ACTION = 'share.settings_updated';
+export const SHARE_VIEW_ACTION = 'client.view';
+export const SHARE_ITEM_OPENED_ACTION = 'client.item_opened';
+export const SHARE_UNLOCK_FAILED_ACTION = 'client.unlock_failed';
+
+const PASSCODE_KEY_LENGTH = 32;
+const ACCESS_GRANT_TTL_MS = 12 * 60 * 60 * 1000;
+
+function safeEquals(left: Buffer, right: Buffer): boolean {
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function hashSharePasscode(passcode: string): string {
+  const salt = randomBytes(16);
+  const hash = scryptSync(passcode, salt, PASSCODE_KEY_LENGTH);
+  return `scrypt$${salt.toString('base64url')}$${hash.toString('base64url')}`;
+}
+
+export function verifySharePasscode(passcode: string, stored: string | null): boolean {
+  const [scheme, salt, hash] = (stored || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'base64url');
+  return safeEquals(scryptSync(passcode, Buffer.from(salt, 'base64url'), expected.length || PASSCODE_KEY_LENGTH), expected);
+}
+
+function signAccess(token: string, passcodeHash: string, expiresAtMs: number): string {
+  return createHmac('sha256', passcodeHash).update(`${token}.${expiresAtMs}`).digest('base64url');
+}
+
+export function createShareAccessGrant(token: string, passcodeHash: string, now = new Date()): { access: string; expiresAt: string } {
+  const expiresAtMs = now.getTime() + ACCESS_GRANT_TTL_MS;
+  return {
+    access: `${expiresAtMs}.${signAccess(token, passcodeHash, expiresAtMs)}`,
+    expiresAt: new Date(expiresAtMs).toISOString(),
+  };
+}
+
+export function verifyShareAccessGrant(access: string | null, token: string, passcodeHash: string, now = new Date()): boolean {
+  const [expiresText, signature] = (access || '').split('.');
+  const expiresAtMs = Number(expiresText);
+  if (!signature || !Number.isFinite(expiresAtMs) || expiresAtMs <= now.getTime()) return false;
+  return safeEquals(Buffer.from(signature), Buffer.from(signAccess(token, passcodeHash, expiresAtMs)));
+}
+
+export function isShareLinkExpired(expiresAt: string | Date | null, now = new Date()): boolean {
+  if (!expiresAt) return false;
+  const time = new Date(expiresAt).getTime();
+  return Number.isFinite(time) && time <= now.getTime();
+}
+
+/** Expiry wins over the passcode so an expired link never prompts for one. */
+export function checkShareLinkAccess(
+  settings: ShareLinkSettings,
+  token: string,
+  access: string | null,
+  now = new Date(),
+): ShareLinkAccess {
+  if (isShareLinkExpired(settings.expiresAt, now)) return 'expired';
+  if (settings.passcodeHash && !verifyShareAccessGrant(access, token, settings.passcodeHash, now)) return 'passcode_required';
+  return 'open';
+}
+
+/** Grants arrive as a header from fetches and as `?access=` on plain download links. */
+export function readShareAccessGrant(header: unknown, query: unknown): string | null {
+  if (typeof header === 'string' && header.trim()) return header.trim();
+  if (typeof query === 'string' && query.trim()) return query.trim();
+  return null;
+}
+
+export type ShareUnlockAttempt = {
+  token: string;
+  ip: string | null;
+};
+
+export type ShareUnlockFailure = {
+  /** How long the caller's address is now locked out, in seconds (0 if not). */
+  lockedForSeconds: number;
+  /** Wrong passcodes on this link from any address in the current window. */
+  linkFailures: number;
+  /** The link has seen enough failures that the broker should change its passcode. */
+  linkUnderAttack: boolean;
+};
+
+export type ShareUnlockThrottle = {
+  /** Seconds until this address may try again; 0 when it may try now. */
+  retryAfterSeconds(attempt: ShareUnlockAttempt, now?: number): number;
+  /** Counts a wrong passcode against the address and the link. */
+  recordFailure(attempt: ShareUnlockAttempt, now?: number): ShareUnlockFailure;
+  recordSuccess(attempt: ShareUnlockAttempt): void;
+};
+
+type ThrottleEntry = { failures: number; windowStartedAt: number; lockouts: number; lockedUntil: number };
+
+const UNLOCK_WINDOW_MS = 15 * 60 * 1000;
+const UNLOCK_LOCK_MS = 15 * 60 * 1000;
+const UNLOCK_MAX_LOCK_MS = 24 * 60 * 60 * 1000;
+const UNLOCK_MAX_ENTRIES = 10_000;
+
+/**
+ * Passcodes can be as short as four characters, so each client address gets a
+ * few tries before it is locked out, and each lockout doubles the last, up to
+ * a day. Failures are also counted per link, but only to flag a link under
+ * attack: locking the link itself would let anyone holding the URL lock the
+ * real client out. State lives in this process only.
+ */
+export function createShareUnlockThrottle(limits: { perIp: number; perTokenAlert: number } = { perIp: 10, perTokenAlert: 25 }): ShareUnlockThrottle {
+  const addresses = new Map<string, ThrottleEntry>();
+  const links = new Map<string, { failures: number; windowStartedAt: number }>();
+
+  const prune = (now: number) => {
+    if (addresses.size >= UNLOCK_MAX_ENTRIES) {
+      for (const [key, entry] of Array.from(addresses.entries())) {
+        if (entry.lockedUntil <= now && now - entry.windowStartedAt > UNLOCK_WINDOW_MS) addresses.delete(key);
+      }
+    }
+    if (links.size >= UNLOCK_MAX_ENTRIES) {
+      for (const [key, entry] of Array.from(links.entries())) {
+        if (now - entry.windowStartedAt > UNLOCK_WINDOW_MS) links.delete(key);
+      }
+    }
+  };
+
+  return {
+    retryAfterSeconds(attempt, now = Date.now()) {
+      const lockedUntil = attempt.ip ? addresses.get(attempt.ip)?.lockedUntil ?? 0 : 0;
+      return lockedUntil > now ? Math.ceil((lockedUntil - now) / 1000) : 0;
+    },
+    recordFailure(attempt, now = Date.now()) {
+      prune(now);
+      let lockMs = 0;
+      if (attempt.ip) {
+        const entry = addresses.get(attempt.ip) || { failures: 0, windowStartedAt: now, lockouts: 0, lockedUntil: 0 };
+        if (now - entry.windowStartedAt > UNLOCK_WINDOW_MS) {
+          entry.failures = 0;
+          entry.windowStartedAt = now;
+        }
+        entry.failures += 1;
+        if (entry.failures >= limits.perIp) {
+          lockMs = Math.min(UNLOCK_LOCK_MS * 2 ** entry.lockouts, UNLOCK_MAX_LOCK_MS);
+          entry.lockouts += 1;
+          entry.lockedUntil = now + lockMs;
+          entry.failures = 0;
+          entry.windowStartedAt = now;
+        }
+        addresses.set(attempt.ip, entry);
+      }
+
+      const link = links.get(attempt.token);
+      const current = link && now - link.windowStartedAt <= UNLOCK_WINDOW_MS ? link : { failures: 0, windowStartedAt: now };
+      current.failures += 1;
+      links.set(attempt.token, current);
+
+      return {
+        lockedForSeconds: Math.ceil(lockMs / 1000),
+        linkFailures: current.failures,
+        linkUnderAttack: current.failures >= limits.perTokenAlert,
+      };
+    },
+    recordSuccess(attempt) {
+      if (attempt.ip) addresses.delete(attempt.ip);
+    },
+  };
+}
+
+export function describeShareUnlockFailure(failure: ShareUnlockFailure): string {
+  if (failure.linkUnderAttack) return `${failure.linkFailures} wrong passcodes on this link recently; consider changing the passcode`;
+  if (failure.lockedForSeconds > 0) return 'Wrong passcode entered; that address is locked out for now';
+  return 'Wrong passcode entered';
+}
+
+export type ShareWriteLimiter = {
+  /** Counts one write and returns 0, or the seconds to wait when the caller is over its budget. */
+  take(caller: ShareUnlockAttempt, now?: number): number;
+};
+
+/**
+ * Share links need no login, so every view or feedback write is budgeted per
+ * client address and per link over a fixed window. A refused write is not
+ * counted, so a flood from one address does not spend the link's budget.
+ */
+export function createShareWriteLimiter(limits: { perToken: number; perIp: number; windowMs: number }): ShareWriteLimiter {
+  const windows = new Map<string, { count: number; startedAt: number }>();
+
+  return {
+    take(caller, now = Date.now()) {
+      if (windows.size >= UNLOCK_MAX_ENTRIES) {
+        for (const [key, window] of Array.from(windows.entries())) {
+          if (now - window.startedAt >= limits.windowMs) windows.delete(key);
+        }
+      }
+      const keys: Array<[string, number]> = [[`token:${caller.token}`, limits.perToken]];
+      if (caller.ip) keys.push([`ip:${caller.ip}`, limits.perIp]);
+      const current = keys.map(([key, limit]) => {
+        const window = windows.get(key);
+        return { key, limit, window: window && now - window.startedAt < limits.windowMs ? window : { count: 0, startedAt: now } };
+      });
+      const waitMs = Math.max(0, ...current
+        .filter(({ window, limit }) => window.count >= limit)
+        .map(({ window }) => window.startedAt + limits.windowMs - now));
+      if (waitMs > 0) return Math.ceil(waitMs / 1000);
+      for (const { key, window } of current) {
+        window.count += 1;
+        windows.set(key, window);
+      }
+      return 0;
+    },
+  };
+}
+
+export type ShareEngagementEvent = {
+  action: string;
+  createdAt: string | null;
+  payload: Record<string, unknown>;
+};
+
+export type ShareEngagement = {
+  viewCount: number;
+  firstViewedAt: string | null;
+  lastViewedAt: string | null;
+  openedItems: Array<{ itemId: string; openCount: number; lastOpenedAt: string | null }>;
+};
+
+/** Folds view and item-open events into counts; opened items are listed most-opened first. */
+export function summarizeShareEngagement(events: ShareEngagementEvent[]): ShareEngagement {
+  let viewCount = 0;
+  let firstViewedAt: string | null = null;
+  let lastViewedAt: string | null = null;
+  const opened = new Map<string, { itemId: string; openCount: number; lastOpenedAt: string | null }>();
+
+  for (const event of events) {
+    if (event.action === SHARE_VIEW_ACTION) {
+      viewCount += 1;
+      if (event.createdAt && (!firstViewedAt || event.createdAt < firstViewedAt)) firstViewedAt = event.createdAt;
+      if (event.createdAt && (!lastViewedAt || event.createdAt > lastViewedAt)) lastViewedAt = event.createdAt;
+    } else if (event.action === SHARE_ITEM_OPENED_ACTION && typeof event.payload.itemId === 'string') {
+      const current = opened.get(event.payload.itemId) || { itemId: event.payload.itemId, openCount: 0, lastOpenedAt: null };
+      current.openCount += 1;
+      if (event.createdAt && (!current.lastOpenedAt || event.createdAt > current.lastOpenedAt)) current.lastOpenedAt = event.createdAt;
+      opened.set(event.payload.itemId, current);
+    }
+  }
+
+  return {
+    viewCount,
+    firstViewedAt,
+    lastViewedAt,
+    openedItems: Array.from(opened.values()).sort(
+      (a, b) => b.openCount - a.openCount || (b.lastOpenedAt || '').localeCompare(a.lastOpenedAt || ''),
+    ),
+  };
+}
+
+// Shared by the survey and pursuit unlock routes so one address has one budget.
+export const shareUnlockThrottle = createShareUnlockThrottle();
+
+const SHARE_WRITE_WINDOW_MS = 10 * 60 * 1000;
+
+// A client paging through a survey opens many options; feedback is rarer.
+export const shareViewLimiter = createShareWriteLimiter({ perToken: 600, perIp: 120, windowMs: SHARE_WRITE_WINDOW_MS });
+export const shareFeedbackLimiter = createShareWriteLimiter({ perToken: 200, perIp: 40, windowMs: SHARE_WRITE_WINDOW_MS });
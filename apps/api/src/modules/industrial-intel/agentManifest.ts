@@ -70,6 +70,8 @@ export const industrialIntelAgentManifest = {
         { method: "POST", path: "/api/intel/dossiers/:id/map-proposal", description: "Send a geocoded dossier to the Daily Desk Review queue; it does not create a map record until broker approval." },
         { method: "POST", path: "/api/intel/dossiers/:id/facts", description: "Create or upsert one proposed/approved/rejected fact." },
         { method: "PATCH", path: "/api/intel/dossiers/:id/facts/:factId", description: "Patch a dossier fact after review." },
+        { method: "GET", path: "/api/intel/dossiers/:id/ownership", description: "Read the registered ownership chain, current owner, and title evidence for a dossier." },
+        { method: "POST", path: "/api/intel/dossiers/:id/ownership/refresh", description: "Pull owner_identified title-audit events for the dossier's linked prospects into its ownership chain." },
       ],
     },
     sourceAssets: {
@@ -108,11 +110,11 @@ export const industrialIntelAgentManifest = {
     requirements: {
       endpoints: [
         { method: "GET", path: "/api/intel/requirements", description: "List requirements." },
-        { method: "POST", path: "/api/intel/requirements", description: "Create a structured requirement." },
+        { method: "POST", path: "/api/intel/requirements", description: "Create a structured requirement, optionally with searchAreas (polygon rings or radius around a [lng, lat] center)." },
         { method: "GET", path: "/api/intel/requirements/:id", description: "Read requirement detail." },
         { method: "GET", path: "/api/intel/requirements/:id/matches", description: "Rank live inventory as strong, possible, or stretch matches with explainable reasons and gaps." },
         { method: "PATCH", path: "/api/intel/requirements/:id", description: "Patch requirement fields." },
-        { method: "PUT", path: "/api/intel/requirements/:id/preferences", description: "Replace structured requirement preferences." },
+        { method: "PUT", path: "/api/intel/requirements/:id/preferences", description: "Replace weighted requirement preferences (operator required/preferred/avoid/note, comparator gte/lte/eq/neq/contains) used in match scoring." },
       ],
     },
     surveys: {
@@ -129,6 +131,23 @@ export const industrialIntelAgentManifest = {
         { method: "DELETE", path: "/api/intel/surveys/:id/share", description: "Disable shared survey access." },
         { method: "GET", path: "/api/intel/surveys/share/:token", description: "Read client-facing shared survey without auth." },
         { method: "GET", path: "/api/intel/surveys/share/:token/assets", description: "Read client-facing shared survey assets without auth." },
+        { method: "GET", path: "/api/intel/surveys/:id/pdf", description: "Download the client survey book as a PDF; hidden options and brokerNotes are excluded." },
+        { method: "GET", path: "/api/intel/surveys/share/:token/pdf", description: "Download the client survey book PDF without auth." },
+        { method: "GET", path: "/api/intel/surveys/:id/comparison", description: "Compare visible survey options by approved dossier facts, with best/worst and requirement pass/fail per cell." },
+        { method: "PUT", path: "/api/intel/surveys/:id/comparison", description: "Choose which comparison fact keys the client sees (clientFactKeys, or null for the standard set)." },
+        { method: "GET", path: "/api/intel/surveys/share/:token/comparison", description: "Read the client-visible comparison rows without auth." },
+        { method: "GET", path: "/api/intel/surveys/:id/tour", description: "Read the planned tour (stop order, arrival times, drive estimates, tour notes) and the suggested stops from client responses." },
+        { method: "PUT", path: "/api/intel/surveys/:id/tour", description: "Plan a tour: itemIds, start location and time, minutesPerStop; stops are ordered by straight-line drive estimates unless optimize is false." },
+        { method: "PUT", path: "/api/intel/surveys/:id/tour/stops/:itemId/notes", description: "Record broker-only post-tour notes for a stop; null clears them." },
+        { method: "GET", path: "/api/intel/surveys/:id/tour/ics", description: "Download the tour as an ICS calendar with one event per stop." },
+        { method: "GET", path: "/api/intel/surveys/share/:token/tour", description: "Read the client itinerary without auth; tour notes are never included." },
+        { method: "GET", path: "/api/intel/surveys/share/:token/tour/ics", description: "Download the client itinerary as an ICS calendar without auth." },
+        { method: "GET", path: "/api/intel/surveys/:id/engagement", description: "Client engagement for the survey link: view count, first/last viewed, opened options and link history." },
+        { method: "PUT", path: "/api/intel/surveys/:id/share/settings", description: "Set the client link expiry (expiresAt) and passcode; null clears either." },
+        { method: "POST", path: "/api/intel/surveys/share/:token/unlock", description: "Exchange the link passcode for a short-lived access grant, sent back as the X-Share-Access header or ?access=." },
+        { method: "POST", path: "/api/intel/surveys/share/:token/views", description: "Record a client view, or an opened option when itemId is set." },
+        { method: "GET", path: "/api/intel/surveys/:id/feedback", description: "Read client responses and comments with the unread count." },
+        { method: "POST", path: "/api/intel/surveys/:id/feedback/read", description: "Mark client feedback on a survey as read." },
       ],
     },
   },
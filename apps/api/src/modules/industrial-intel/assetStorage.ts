@@ -55,6 +55,19 @@ export async function createIntelAssetSignedUpload(path: string) {
   };
 }
 
+// Server-side upload for files that reach the API directly, such as email
+// attachments, rather than through a browser signed upload.
+export async function uploadIntelAsset(path: string, content: Buffer, contentType: string) {
+  const supabase = getSupabaseAdmin();
+  if (!supabase) {
+    throw new Error("Supabase Storage is not configured");
+  }
+  const bucket = await ensureIntelAssetBucket();
+  const { data, error } = await supabase.storage.from(bucket).upload(path, content, { contentType, upsert: true });
+  if (error || !data) throw error || new Error("Failed to upload asset");
+  return { bucket, path: data.path };
+}
+
 export async function signIntelListingAsset(asset: IntelListingAsset) {
   const supabase = getSupabaseAdmin();
   if (!supabase) return { ...asset, signedUrl: null };
@@ -0,0 +1,77 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  EMAIL_ATTACHMENT_MAX_BYTES,
+  classifyEmailAttachment,
+  matchEmailAttachmentDossier,
+  uniqueEmailAttachmentFileNames,
+} from "./emailAttachments";
+
+test("classifyEmailAttachment files brochures for extraction and keeps other documents as evidence", () => {
+  assert.deepEqual(
+    classifyEmailAttachment({ fileName: "Acheson_Crossdock_Brochure.pdf", contentType: "application/pdf", size: 1024 }),
+    { supported: true, contentType: "application/pdf", assetType: "brochure", extractFacts: true },
+  );
+  assert.deepEqual(
+    classifyEmailAttachment({ fileName: "12345 Yellowhead OM.pdf", contentType: "application/octet-stream", size: 1024 }),
+    { supported: true, contentType: "application/pdf", assetType: "brochure", extractFacts: true },
+  );
+  assert.deepEqual(
+    classifyEmailAttachment({ fileName: "site-plan.pdf", contentType: "application/pdf", size: 1024 }),
+    { supported: true, contentType: "application/pdf", assetType: "site_plan", extractFacts: false },
+  );
+  assert.deepEqual(
+    classifyEmailAttachment({ fileName: "scan0042.pdf", contentType: "application/pdf", size: 1024 }),
+    { supported: true, contentType: "application/pdf", assetType: "other", extractFacts: false },
+  );
+  assert.deepEqual(
+    classifyEmailAttachment({ fileName: "dock-doors.JPG", contentType: "", size: 1024 }),
+    { supported: true, contentType: "image/jpeg", assetType: "photo", extractFacts: false },
+  );
+});
+
+test("classifyEmailAttachment skips signature images, unsupported files and oversized attachments", () => {
+  assert.deepEqual(
+    classifyEmailAttachment({ fileName: "logo.png", contentType: "image/png", size: 2048, inline: true }),
+    { supported: false, reason: "inline" },
+  );
+  assert.deepEqual(
+    classifyEmailAttachment({ fileName: "rent roll.xlsx", contentType: "application/vnd.ms-excel", size: 2048 }),
+    { supported: false, reason: "unsupported_type" },
+  );
+  assert.deepEqual(
+    classifyEmailAttachment({ fileName: "brochure.pdf", contentType: "application/pdf", size: EMAIL_ATTACHMENT_MAX_BYTES + 1 }),
+    { supported: false, reason: "too_large" },
+  );
+  assert.equal(
+    classifyEmailAttachment({ fileName: "brochure.pdf", contentType: "application/pdf", size: 2048, inline: true }).supported,
+    true,
+  );
+});
+
+test("matchEmailAttachmentDossier prefers the prospect address, then an address named in the email", () => {
+  const dossiers = [
+    { id: "dossier-1", address: "12345 Yellowhead Trail NW", normalizedAddress: null, status: "active" as const },
+    { id: "dossier-2", address: "2020 Acheson Road", normalizedAddress: "2020 acheson road", status: "active" as const },
+    { id: "dossier-3", address: "9 Lot", normalizedAddress: null, status: "active" as const },
+    { id: "dossier-4", address: "77 Old Yard Way", normalizedAddress: null, status: "archived" as const },
+  ];
+
+  assert.equal(
+    matchEmailAttachmentDossier(dossiers, { prospectAddress: "12345 Yellowhead Trail NW", subject: "2020 Acheson Road brochure" }),
+    "dossier-1",
+  );
+  assert.equal(matchEmailAttachmentDossier(dossiers, { subject: "FW: Brochure - 2020 Acheson Road, Acheson AB" }), "dossier-2");
+  assert.equal(matchEmailAttachmentDossier(dossiers, { subject: "Photos from 9 Lot" }), null);
+  assert.equal(matchEmailAttachmentDossier(dossiers, { snippet: "See attached for 77 Old Yard Way" }), null);
+  assert.equal(matchEmailAttachmentDossier(dossiers, { subject: "12020 Acheson Road" }), null);
+});
+
+test("uniqueEmailAttachmentFileNames numbers repeated names so one email never overwrites its own files", () => {
+  assert.deepEqual(
+    uniqueEmailAttachmentFileNames(["Plan.pdf", "Brochure.pdf", "Plan.pdf", "Plan (2).pdf", "Plan.pdf", "notes"]),
+    ["Plan.pdf", "Brochure.pdf", "Plan (2).pdf", "Plan (2) (2).pdf", "Plan (3).pdf", "notes"],
+  );
+  assert.deepEqual(uniqueEmailAttachmentFileNames(["notes", "notes"]), ["notes", "notes (2)"]);
+});
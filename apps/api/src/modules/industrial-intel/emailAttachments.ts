@@ -0,0 +1,149 @@
+import type { IntelListingAssetType, IntelPropertyDossierListItem } from "./repo";
+
+// Matches the bucket limits set in ensureIntelAssetBucket.
+export const EMAIL_ATTACHMENT_MAX_BYTES = 25 * 1024 * 1024;
+
+const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+};
+
+const SUPPORTED_CONTENT_TYPES = new Set(Object.values(EXTENSION_CONTENT_TYPES));
+
+// Dossier addresses shorter than this ("Unit 4", "Lot 2") are too generic to
+// find inside a subject line.
+const MIN_MENTIONED_ADDRESS_LENGTH = 8;
+
+export type EmailAttachmentInput = {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+  inline?: boolean;
+};
+
+export type EmailAttachmentSkipReason = "inline" | "unsupported_type" | "too_large" | "empty";
+
+export type EmailAttachmentClassification =
+  | { supported: true; contentType: string; assetType: IntelListingAssetType; extractFacts: boolean }
+  | { supported: false; reason: EmailAttachmentSkipReason };
+
+export type EmailAttachmentCaptureSummary = {
+  stored: number;
+  duplicates: number;
+  skipped: number;
+  extractionsQueued: number;
+  dossierId: string | null;
+  storageConfigured: boolean;
+};
+
+function fileExtension(fileName: string): string {
+  const match = /\.([a-z0-9]+)$/i.exec(fileName.trim());
+  return match ? match[1].toLowerCase() : "";
+}
+
+/**
+ * Mail clients often label attachments `application/octet-stream`, so the
+ * file extension decides whenever the declared type is not one the asset
+ * bucket accepts.
+ */
+export function resolveEmailAttachmentContentType(fileName: string, contentType: string | null | undefined): string {
+  const declared = String(contentType || "").split(";")[0].trim().toLowerCase();
+  if (SUPPORTED_CONTENT_TYPES.has(declared)) return declared;
+  return EXTENSION_CONTENT_TYPES[fileExtension(fileName)] || declared;
+}
+
+function assetTypeFromName(fileName: string, isPdf: boolean): IntelListingAssetType {
+  const name = fileName.toLowerCase().replace(/[_.-]+/g, " ");
+  if (/\bsite\s*plan\b/.test(name)) return "site_plan";
+  if (/\baerial\b/.test(name)) return "aerial";
+  if (!isPdf) return "photo";
+  if (/\b(flyer|one\s*pager|sell\s*sheet)\b/.test(name)) return "flyer";
+  if (/\b(brochure|om|offering|memorandum|marketing|package|teaser|listing)\b/.test(name)) return "brochure";
+  return "other";
+}
+
+/**
+ * Decides whether an attachment is kept as an intel asset and how it is
+ * filed. Only named brochures and flyers go through fact extraction; a PDF
+ * called "scan.pdf" is kept as evidence but not read for listing facts.
+ */
+export function classifyEmailAttachment(attachment: {
+  fileName: string;
+  contentType: string | null | undefined;
+  size: number;
+  inline?: boolean;
+}): EmailAttachmentClassification {
+  const contentType = resolveEmailAttachmentContentType(attachment.fileName, attachment.contentType);
+  const isPdf = contentType === "application/pdf";
+  // Inline images are signature logos and tracking pixels; an inline PDF is
+  // still a document someone meant to send.
+  if (attachment.inline && !isPdf) return { supported: false, reason: "inline" };
+  if (!SUPPORTED_CONTENT_TYPES.has(contentType)) return { supported: false, reason: "unsupported_type" };
+  if (attachment.size <= 0) return { supported: false, reason: "empty" };
+  if (attachment.size > EMAIL_ATTACHMENT_MAX_BYTES) return { supported: false, reason: "too_large" };
+
+  const assetType = assetTypeFromName(attachment.fileName, isPdf);
+  return {
+    supported: true,
+    contentType,
+    assetType,
+    extractFacts: isPdf && (assetType === "brochure" || assetType === "flyer"),
+  };
+}
+
+function normalizeAddressText(value: string | null | undefined): string {
+  return String(value || "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/**
+ * Picks the dossier an email is about: first by the matched prospect's
+ * address, then by a dossier address quoted in the subject or body. Archived
+ * dossiers are never chosen.
+ */
+export function matchEmailAttachmentDossier(
+  dossiers: Pick<IntelPropertyDossierListItem, "id" | "address" | "normalizedAddress" | "status">[],
+  email: { prospectAddress?: string | null; subject?: string | null; snippet?: string | null },
+): string | null {
+  const candidates = dossiers
+    .filter((dossier) => dossier.status !== "archived")
+    .map((dossier) => ({ id: dossier.id, address: normalizeAddressText(dossier.normalizedAddress || dossier.address) }))
+    .filter((dossier) => dossier.address);
+
+  const prospectAddress = normalizeAddressText(email.prospectAddress);
+  if (prospectAddress) {
+    const byProspect = candidates.find((dossier) => dossier.address === prospectAddress);
+    if (byProspect) return byProspect.id;
+  }
+
+  const text = ` ${normalizeAddressText([email.subject, email.snippet].filter(Boolean).join(" "))} `;
+  const mentioned = candidates
+    .filter((dossier) => dossier.address.length >= MIN_MENTIONED_ADDRESS_LENGTH && text.includes(` ${dossier.address} `))
+    .sort((left, right) => right.address.length - left.address.length);
+  return mentioned[0]?.id || null;
+}
+
+export function emailAttachmentStoragePath(userId: string, emailMessageId: string, fileName: string): string {
+  return `email/${userId}/${emailMessageId}/${fileName}`;
+}
+
+/**
+ * Gives repeated file names within one email their own storage paths:
+ * "Plan.pdf", "Plan.pdf" becomes "Plan.pdf", "Plan (2).pdf". Numbering
+ * follows attachment order, so a re-sync lands on the same paths.
+ */
+export function uniqueEmailAttachmentFileNames(fileNames: string[]): string[] {
+  const taken = new Set<string>();
+  return fileNames.map((fileName) => {
+    const extension = /\.[^.]{1,10}$/.exec(fileName)?.[0] ?? "";
+    const stem = fileName.slice(0, fileName.length - extension.length);
+    let candidate = fileName;
+    for (let copy = 2; taken.has(candidate); copy += 1) {
+      candidate = `${stem} (${copy})${extension}`;
+    }
+    taken.add(candidate);
+    return candidate;
+  });
+}
@@ -1,4 +1,6 @@
+import type { PoolClient } from 'pg';
 import { pool } from '../../../db';
+import { describeFieldChanges, diffListingSnapshots, snapshotFromRecord, type IntelListingSnapshot } from './listingDiff';
 import type { IntelSourceRunContext, IntelSourceRunResult, NormalizedIntelListingRecord } from './types';
 
 export type ApplyNormalizedRecordsResult = {
@@ -14,6 +16,13 @@ type ExistingListingRow = {
   source_record_key: string;
   content_hash: string;
   removed_at: Date | null;
+  available_sf: number | string | null;
+  total_price: number | string | null;
+  price_per_acre: number | string | null;
+  lease_rate_psf: number | string | null;
+  clear_height_ft: number | string | null;
+  status: string | null;
+  brochure_url: string | null;
 };
 
 function normalizeListingType(value?: string | null): string {
@@ -51,6 +60,55 @@ function changeSummaryFor(record: NormalizedIntelListingRecord, changeType: stri
   }
 }
 
+function snapshotFromExisting(row: ExistingListingRow): IntelListingSnapshot {
+  return {
+    availableSf: row.available_sf,
+    totalPrice: row.total_price,
+    pricePerAcre: row.price_per_acre,
+    leaseRatePsf: row.lease_rate_psf,
+    clearHeightFt: row.clear_height_ft,
+    status: row.status,
+    brochureUrl: row.brochure_url,
+  };
+}
+
+async function insertObservation(
+  client: PoolClient,
+  listingId: string,
+  runId: string,
+  observationType: string,
+  triggerType: string,
+  snapshot: IntelListingSnapshot,
+): Promise<void> {
+  await client.query(
+    `
+      INSERT INTO public.intel_listing_observations (
+        listing_id,
+        ingest_run_id,
+        observation_type,
+        trigger_type,
+        status,
+        available_sf,
+        total_price,
+        price_per_acre,
+        lease_rate_psf,
+        observed_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, now())
+    `,
+    [
+      listingId,
+      runId,
+      observationType,
+      triggerType,
+      snapshot.status,
+      snapshot.availableSf,
+      snapshot.totalPrice,
+      snapshot.pricePerAcre,
+      snapshot.leaseRatePsf,
+    ],
+  );
+}
+
 function normalizeAddress(value?: string | null): string | null {
   const normalized = String(value || '').trim().replace(/\s+/g, ' ');
   return normalized || null;
@@ -81,6 +139,7 @@ export async function applyNormalizedRecords(
   result: IntelSourceRunResult,
 ): Promise<ApplyNormalizedRecordsResult> {
   const client = await pool.connect();
+  const triggerType = context.triggerType ?? 'manual';
 
   try {
     await client.query('BEGIN');
@@ -96,14 +155,25 @@ export async function applyNormalizedRecords(
         ) VALUES ($1, $2, 'running', now(), $3)
         RETURNING id
       `,
-      [context.sourceId, context.triggerType ?? 'manual', context.initiatedByUserId ?? null],
+      [context.sourceId, triggerType, context.initiatedByUserId ?? null],
     );
 
     const runId = runInsert.rows[0].id;
 
     const existing = await client.query<ExistingListingRow>(
       `
-        SELECT id, source_record_key, content_hash, removed_at
+        SELECT
+          id,
+          source_record_key,
+          content_hash,
+          removed_at,
+          available_sf,
+          total_price,
+          price_per_acre,
+          raw_payload->>'leaseRatePsf' AS lease_rate_psf,
+          clear_height_ft,
+          status,
+          brochure_url
         FROM public.intel_listings
         WHERE source_id = $1
       `,
@@ -208,6 +278,14 @@ export async function applyNormalizedRecords(
           `,
           [inserted.rows[0].id, runId, changeSummaryFor(record, 'new'), record.contentHash],
         );
+        await insertObservation(
+          client,
+          inserted.rows[0].id,
+          runId,
+          'new',
+          triggerType,
+          snapshotFromRecord(record, normalizeStatus(record.status)),
+        );
 
         recordsNew += 1;
         continue;
@@ -283,6 +361,11 @@ export async function applyNormalizedRecords(
         );
 
         const changeType = wasRemoved ? 'reactivated' : 'updated';
+        const nextSnapshot = snapshotFromRecord(record, normalizeStatus(record.status));
+        const fieldChanges = diffListingSnapshots(snapshotFromExisting(current), nextSnapshot);
+        const changeSummary = fieldChanges.length
+          ? `${changeSummaryFor(record, changeType)} (${describeFieldChanges(fieldChanges)})`
+          : changeSummaryFor(record, changeType);
         await client.query(
           `
             INSERT INTO public.intel_listing_changes (
@@ -292,18 +375,23 @@ export async function applyNormalizedRecords(
               change_summary,
               previous_hash,
               new_hash,
+              field_changes,
               observed_at
-            ) VALUES ($1, $2, $3, $4, $5, $6, now())
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, now())
           `,
           [
             current.id,
             runId,
             changeType,
-            changeSummaryFor(record, changeType),
+            changeSummary,
             current.content_hash,
             record.contentHash,
+            JSON.stringify(fieldChanges),
           ],
         );
+        if (wasRemoved || fieldChanges.length) {
+          await insertObservation(client, current.id, runId, changeType, triggerType, nextSnapshot);
+        }
 
         recordsUpdated += 1;
       } else {
@@ -350,6 +438,7 @@ export async function applyNormalizedRecords(
           `,
           [current.id, runId, `Removed listing: ${listingTitle}`, current.content_hash],
         );
+        await insertObservation(client, current.id, runId, 'removed', triggerType, snapshotFromExisting(current));
 
         recordsRemoved += 1;
       }
@@ -0,0 +1,57 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { describeFieldChanges, diffListingSnapshots, fieldChangesMatchSignal, snapshotFromRecord } from './listingDiff';
+
+const record = {
+  sourceRecordKey: 'cbre:1',
+  title: 'Kingsway Warehouse',
+  availableSf: 32000,
+  totalPrice: null,
+  pricePerAcre: null,
+  clearHeightFt: 28,
+  brochureUrl: 'https://example.com/brochure-v2.pdf',
+  rawPayload: { leaseRatePsf: 9.75 },
+  contentHash: 'hash-2',
+};
+
+test('diffListingSnapshots reports tracked field moves with direction', () => {
+  const changes = diffListingSnapshots(
+    {
+      availableSf: '30500',
+      totalPrice: null,
+      pricePerAcre: null,
+      leaseRatePsf: '10.5',
+      clearHeightFt: '28.00',
+      status: 'active',
+      brochureUrl: 'https://example.com/brochure.pdf',
+    },
+    snapshotFromRecord(record, 'pending'),
+  );
+
+  assert.deepEqual(changes, [
+    { field: 'availableSf', before: 30500, after: 32000, direction: 'increase' },
+    { field: 'leaseRatePsf', before: 10.5, after: 9.75, direction: 'decrease' },
+    { field: 'status', before: 'active', after: 'pending', direction: 'changed' },
+    {
+      field: 'brochureUrl',
+      before: 'https://example.com/brochure.pdf',
+      after: 'https://example.com/brochure-v2.pdf',
+      direction: 'changed',
+    },
+  ]);
+  assert.equal(
+    describeFieldChanges(changes),
+    'Available SF 30,500 → 32,000; Lease rate $10.50/SF → $9.75/SF; Status active → pending; Brochure updated',
+  );
+});
+
+test('fieldChangesMatchSignal groups price fields and SF direction', () => {
+  const priceDrop = [{ field: 'totalPrice' as const, before: 5350000, after: 4995000, direction: 'decrease' as const }];
+  const sfAdded = [{ field: 'availableSf' as const, before: null, after: 12000, direction: 'added' as const }];
+
+  assert.equal(fieldChangesMatchSignal(priceDrop, 'price_drop'), true);
+  assert.equal(fieldChangesMatchSignal(priceDrop, 'price_increase'), false);
+  assert.equal(fieldChangesMatchSignal(sfAdded, 'sf_increase'), true);
+  assert.equal(fieldChangesMatchSignal(sfAdded, 'status_change'), false);
+});
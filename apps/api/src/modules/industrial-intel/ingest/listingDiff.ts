@@ -0,0 +1,134 @@
+import type { NormalizedIntelListingRecord } from './types';
+
+// Fields whose movement brokers act on. Everything else that changes a listing
+// (description copy, raw payload noise) still produces an `updated` change row,
+// just without a structured entry.
+export const INTEL_DIFF_FIELDS = [
+  'availableSf',
+  'totalPrice',
+  'pricePerAcre',
+  'leaseRatePsf',
+  'clearHeightFt',
+  'status',
+  'brochureUrl',
+] as const;
+
+export type IntelDiffField = (typeof INTEL_DIFF_FIELDS)[number];
+
+export type IntelFieldChangeDirection = 'increase' | 'decrease' | 'added' | 'removed' | 'changed';
+
+export type IntelListingFieldChange = {
+  field: IntelDiffField;
+  before: number | string | null;
+  after: number | string | null;
+  direction: IntelFieldChangeDirection;
+};
+
+export type IntelListingSnapshot = Record<IntelDiffField, number | string | null>;
+
+// Named filters exposed on /api/intel/changes and the watchlist.
+export const INTEL_CHANGE_SIGNALS = {
+  price_drop: { fields: ['totalPrice', 'pricePerAcre', 'leaseRatePsf'], directions: ['decrease'] },
+  price_increase: { fields: ['totalPrice', 'pricePerAcre', 'leaseRatePsf'], directions: ['increase'] },
+  sf_increase: { fields: ['availableSf'], directions: ['increase', 'added'] },
+  sf_decrease: { fields: ['availableSf'], directions: ['decrease', 'removed'] },
+  status_change: { fields: ['status'], directions: null },
+  brochure_update: { fields: ['brochureUrl'], directions: null },
+} as const satisfies Record<string, { fields: readonly IntelDiffField[]; directions: readonly IntelFieldChangeDirection[] | null }>;
+
+export type IntelChangeSignal = keyof typeof INTEL_CHANGE_SIGNALS;
+
+const NUMERIC_FIELDS = new Set<IntelDiffField>(['availableSf', 'totalPrice', 'pricePerAcre', 'leaseRatePsf', 'clearHeightFt']);
+
+const FIELD_LABELS: Record<IntelDiffField, string> = {
+  availableSf: 'Available SF',
+  totalPrice: 'Price',
+  pricePerAcre: 'Price/acre',
+  leaseRatePsf: 'Lease rate',
+  clearHeightFt: 'Clear height',
+  status: 'Status',
+  brochureUrl: 'Brochure',
+};
+
+function numberOrNull(value: unknown): number | null {
+  if (value == null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function textOrNull(value: unknown): string | null {
+  const text = value == null ? '' : String(value).trim();
+  return text || null;
+}
+
+export function snapshotFromRecord(record: NormalizedIntelListingRecord, status: string): IntelListingSnapshot {
+  return {
+    availableSf: numberOrNull(record.availableSf),
+    totalPrice: numberOrNull(record.totalPrice),
+    pricePerAcre: numberOrNull(record.pricePerAcre),
+    leaseRatePsf: numberOrNull(record.rawPayload?.leaseRatePsf),
+    clearHeightFt: numberOrNull(record.clearHeightFt),
+    status,
+    brochureUrl: textOrNull(record.brochureUrl),
+  };
+}
+
+export function diffListingSnapshots(
+  before: Partial<IntelListingSnapshot>,
+  after: Partial<IntelListingSnapshot>,
+): IntelListingFieldChange[] {
+  const changes: IntelListingFieldChange[] = [];
+
+  for (const field of INTEL_DIFF_FIELDS) {
+    if (NUMERIC_FIELDS.has(field)) {
+      const previous = numberOrNull(before[field]);
+      const next = numberOrNull(after[field]);
+      if (previous == null && next == null) continue;
+      // numeric(…, 2) columns round-trip as strings; ignore sub-cent noise.
+      if (previous != null && next != null && Math.abs(previous - next) < 0.005) continue;
+      const direction: IntelFieldChangeDirection =
+        previous == null ? 'added' : next == null ? 'removed' : next > previous ? 'increase' : 'decrease';
+      changes.push({ field, before: previous, after: next, direction });
+      continue;
+    }
+
+    const previous = textOrNull(before[field]);
+    const next = textOrNull(after[field]);
+    if (previous === next) continue;
+    const direction: IntelFieldChangeDirection = previous == null ? 'added' : next == null ? 'removed' : 'changed';
+    changes.push({ field, before: previous, after: next, direction });
+  }
+
+  return changes;
+}
+
+function formatValue(field: IntelDiffField, value: number | string | null): string {
+  if (value == null) return 'none';
+  if (typeof value !== 'number') return field === 'brochureUrl' ? 'link' : value;
+  if (field === 'totalPrice' || field === 'pricePerAcre') return `$${Math.round(value).toLocaleString('en-US')}`;
+  if (field === 'leaseRatePsf') return `$${value.toFixed(2)}/SF`;
+  if (field === 'clearHeightFt') return `${value} ft`;
+  return value.toLocaleString('en-US');
+}
+
+export function describeFieldChanges(changes: IntelListingFieldChange[]): string {
+  return changes
+    .map((change) =>
+      change.field === 'brochureUrl'
+        ? `Brochure ${change.direction === 'added' ? 'added' : change.direction === 'removed' ? 'removed' : 'updated'}`
+        : `${FIELD_LABELS[change.field]} ${formatValue(change.field, change.before)} → ${formatValue(change.field, change.after)}`,
+    )
+    .join('; ');
+}
+
+export function isIntelChangeSignal(value: string): value is IntelChangeSignal {
+  return Object.prototype.hasOwnProperty.call(INTEL_CHANGE_SIGNALS, value);
+}
+
+export function fieldChangesMatchSignal(changes: IntelListingFieldChange[], signal: IntelChangeSignal): boolean {
+  const filter: { fields: readonly IntelDiffField[]; directions: readonly IntelFieldChangeDirection[] | null } =
+    INTEL_CHANGE_SIGNALS[signal];
+  return changes.some(
+    (change) => filter.fields.includes(change.field) && (!filter.directions || filter.directions.includes(change.direction)),
+  );
+}
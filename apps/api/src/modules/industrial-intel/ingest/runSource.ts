@@ -1,6 +1,18 @@
 import { createHash } from 'node:crypto';
-import type { IntelSourceAdapterSlug, IntelSourceRunContext, IntelSourceRunResult, NormalizedIntelListingRecord } from './types';
+import type {
+  IntelSourceAdapterSlug,
+  IntelSourceRunContext,
+  IntelSourceRunResult,
+  NormalizedIntelListingRecord,
+  SourceListingRecord,
+} from './types';
+import { runAvisonYoungSource } from './sources/avisonYoung';
+import { runCbreSource } from './sources/cbre';
+import { runColliersSource } from './sources/colliers';
 import { runCwedmSource } from './sources/cwedm';
+import { runFeedSource } from './sources/feed';
+import { runJllSource } from './sources/jll';
+import { runNaiEdmontonSource } from './sources/naiEdmonton';
 
 export function ensureContentHash(record: Omit<NormalizedIntelListingRecord, 'contentHash'> & { contentHash?: string | null }): NormalizedIntelListingRecord {
   const contentHash = record.contentHash || createHash('sha256').update(JSON.stringify(record.rawPayload || {})).digest('hex');
@@ -10,23 +22,44 @@ export function ensureContentHash(record: Omit<NormalizedIntelListingRecord, 'co
   };
 }
 
+type BrokerSiteAdapterSlug = Exclude<IntelSourceAdapterSlug, 'mapped_feed' | 'manual_url' | 'manual_upload'>;
+
+const BROKER_SITE_ADAPTERS: Record<BrokerSiteAdapterSlug, () => Promise<SourceListingRecord[]>> = {
+  cwedm: runCwedmSource,
+  nai_edmonton: runNaiEdmontonSource,
+  avison_young: runAvisonYoungSource,
+  jll: runJllSource,
+  cbre: runCbreSource,
+  colliers: runColliersSource,
+};
+
 export async function runSourceAdapter(
   slug: IntelSourceAdapterSlug,
-  _context: IntelSourceRunContext,
+  context: IntelSourceRunContext,
 ): Promise<IntelSourceRunResult> {
   switch (slug) {
-    case 'cwedm': {
-      const records = await runCwedmSource();
+    case 'cwedm':
+    case 'nai_edmonton':
+    case 'avison_young':
+    case 'jll':
+    case 'cbre':
+    case 'colliers': {
+      const records = await BROKER_SITE_ADAPTERS[slug]();
+      return {
+        sourceSlug: slug,
+        records: records.map((record) => ensureContentHash(record)),
+      };
+    }
+    case 'mapped_feed': {
+      if (!context.feed) {
+        throw new Error('Mapped feed sources require a feed URL and field mapping');
+      }
+      const records = await runFeedSource(context.feed);
       return {
         sourceSlug: slug,
         records: records.map((record) => ensureContentHash(record)),
       };
     }
-    case 'nai_edmonton':
-    case 'avison_young':
-    case 'jll':
-    case 'cbre':
-    case 'colliers':
     case 'manual_url':
     case 'manual_upload':
       throw new Error(`Source adapter not implemented yet for ${slug}`);
@@ -0,0 +1,40 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+
+import { parseAvisonYoungSearchPage } from './avisonYoung';
+
+const fixture = readFileSync(new URL('./fixtures/avison-young-search.html', import.meta.url), 'utf8');
+
+test('parseAvisonYoungSearchPage reads the JSON-LD item list and skips retail results', () => {
+  const records = parseAvisonYoungSearchPage(fixture);
+
+  assert.deepEqual(
+    records.map((record) => record.sourceRecordKey),
+    ['ay:AY-EDM-22871', 'ay:AY-EDM-23010'],
+  );
+});
+
+test('parseAvisonYoungSearchPage normalizes lease bays with relative urls', () => {
+  const [bay] = parseAvisonYoungSearchPage(fixture);
+
+  assert.equal(bay.address, '9927 178 Street NW, Edmonton, AB');
+  assert.equal(bay.listingType, 'lease');
+  assert.equal(bay.availableSf, 12102);
+  assert.equal(bay.minDivisibleSf, 6050);
+  assert.equal(bay.clearHeightFt, 28);
+  assert.equal(bay.rawPayload.leaseRatePsf, 11.75);
+  assert.equal(bay.sourceUrl, 'https://www.avisonyoung.ca/en_CA/web/edmonton/property/westpoint-business-park-bay-140');
+  assert.equal(bay.brochureUrl, 'https://assets.avisonyoung.ca/brochures/AY-EDM-22871.pdf');
+});
+
+test('parseAvisonYoungSearchPage converts metric floor sizes and keeps sale prices', () => {
+  const sale = parseAvisonYoungSearchPage(fixture)[1];
+
+  assert.equal(sale.listingType, 'sale');
+  assert.equal(sale.market, 'Acheson');
+  assert.equal(sale.availableSf, 44993);
+  assert.equal(sale.landAcres, 6.2);
+  assert.equal(sale.totalPrice, 9850000);
+  assert.equal(sale.lat, 53.5524);
+});
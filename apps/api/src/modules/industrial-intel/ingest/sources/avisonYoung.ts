@@ -0,0 +1,185 @@
+import type { SourceListingRecord } from '../types';
+import {
+  absoluteUrl,
+  cleanText,
+  coordinateOrNull,
+  fetchSourceText,
+  inferAssetType,
+  inferCity,
+  inferListingType,
+  inferStatus,
+  isIndustrial,
+  parseAvailableSf,
+  parseClearHeightFt,
+  parseLandAcres,
+  parseLeaseRatePsf,
+  parseNumber,
+  withCity,
+} from './shared';
+
+// Avison Young's property search renders every result card from a schema.org
+// ItemList embedded as JSON-LD, which is more stable than the card markup.
+const BASE_URL = 'https://www.avisonyoung.ca';
+const SEARCH_URL = `${BASE_URL}/en_CA/web/edmonton/properties`;
+const MAX_PAGES = 10;
+
+type JsonLdValue = { value?: number | string | null; unitCode?: string | null; unitText?: string | null };
+
+type AvisonYoungJsonLdListing = {
+  '@type'?: string;
+  identifier?: string | number | null;
+  name?: string | null;
+  url?: string | null;
+  description?: string | null;
+  category?: string | null;
+  address?: {
+    streetAddress?: string | null;
+    addressLocality?: string | null;
+    addressRegion?: string | null;
+  } | null;
+  geo?: { latitude?: number | string | null; longitude?: number | string | null } | null;
+  floorSize?: JsonLdValue | null;
+  offers?: {
+    businessFunction?: string | null;
+    price?: number | string | null;
+    availability?: string | null;
+    priceSpecification?: { price?: number | string | null; unitText?: string | null } | null;
+  } | null;
+  additionalProperty?: Array<{ name?: string | null; value?: string | number | null }> | null;
+  subjectOf?: { url?: string | null } | null;
+};
+
+type JsonLdItemList = {
+  '@type'?: string;
+  itemListElement?: Array<{ item?: AvisonYoungJsonLdListing | null }>;
+};
+
+function readJsonLdBlocks(html: string): unknown[] {
+  const blocks: unknown[] = [];
+  const pattern = /<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+  for (const match of Array.from(html.matchAll(pattern))) {
+    try {
+      blocks.push(JSON.parse(match[1]));
+    } catch {
+      // Malformed blocks are skipped; the remaining blocks still describe results.
+    }
+  }
+  return blocks;
+}
+
+function listingsFromHtml(html: string): AvisonYoungJsonLdListing[] {
+  const listings: AvisonYoungJsonLdListing[] = [];
+  for (const block of readJsonLdBlocks(html)) {
+    const candidates = Array.isArray(block) ? block : [block];
+    for (const candidate of candidates as JsonLdItemList[]) {
+      if (candidate?.['@type'] !== 'ItemList') continue;
+      for (const element of candidate.itemListElement || []) {
+        if (element?.item) listings.push(element.item);
+      }
+    }
+  }
+  return listings;
+}
+
+function propertyValue(listing: AvisonYoungJsonLdListing, name: RegExp): string {
+  const match = (listing.additionalProperty || []).find((property) => name.test(String(property.name || '')));
+  return match?.value == null ? '' : String(match.value);
+}
+
+function listingTypeFor(listing: AvisonYoungJsonLdListing, title: string, description: string): string {
+  const businessFunction = String(listing.offers?.businessFunction || '').toLowerCase();
+  if (/sublease/.test(`${title} ${description}`.toLowerCase())) return 'sublease';
+  if (businessFunction.includes('sell')) return 'sale';
+  if (businessFunction.includes('leaseout')) return 'lease';
+  return inferListingType(title, description);
+}
+
+function floorSizeSf(size?: JsonLdValue | null): number | null {
+  const value = parseNumber(size?.value ?? null);
+  if (value == null) return null;
+  // UN/CEFACT FTK is square feet; MTK is square metres.
+  if (String(size?.unitCode || '').toUpperCase() === 'MTK') return Math.round(value * 10.7639);
+  return value;
+}
+
+export function parseAvisonYoungSearchPage(html: string): SourceListingRecord[] {
+  const records: SourceListingRecord[] = [];
+
+  for (const listing of listingsFromHtml(html)) {
+    const title = cleanText(listing.name);
+    const description = cleanText(listing.description);
+    const category = cleanText(listing.category);
+    if (!/industrial/i.test(category) && !isIndustrial(title, description)) continue;
+
+    const identifier = String(listing.identifier || listing.url || title).trim();
+    if (!identifier) continue;
+
+    const city = cleanText(listing.address?.addressLocality) || inferCity(title, description);
+    const address = withCity(listing.address?.streetAddress, city);
+    const listingType = listingTypeFor(listing, title, description);
+    const assetType = /land/i.test(category) ? 'land' : inferAssetType(title, description);
+    const availability = String(listing.offers?.availability || '').toLowerCase();
+    const status = availability.includes('soldout') ? 'sold' : inferStatus(title, description);
+    const priceUnit = String(listing.offers?.priceSpecification?.unitText || '').toLowerCase();
+    const leaseRatePsf =
+      /sf|sq/.test(priceUnit) ? parseNumber(listing.offers?.priceSpecification?.price ?? null) : parseLeaseRatePsf(description);
+    const availableSf = floorSizeSf(listing.floorSize) ?? parseAvailableSf(description);
+    const landAcres = parseNumber(propertyValue(listing, /land|site/i).replace(/acres?/i, '')) ?? parseLandAcres(description);
+    const clearHeightFt = parseClearHeightFt(`clear height ${propertyValue(listing, /clear/i)}`) ?? parseClearHeightFt(description);
+
+    records.push({
+      sourceRecordKey: `ay:${identifier}`,
+      externalId: identifier,
+      status,
+      listingType,
+      assetType,
+      title: title || address || identifier,
+      address,
+      market: city,
+      submarket: city,
+      lat: coordinateOrNull(listing.geo?.latitude),
+      lng: coordinateOrNull(listing.geo?.longitude),
+      availableSf,
+      landAcres,
+      totalPrice: listingType === 'sale' ? parseNumber(listing.offers?.price ?? null) : null,
+      pricePerAcre: null,
+      minDivisibleSf: parseNumber(propertyValue(listing, /divisible/i).replace(/sf|sq\.?\s*ft/i, '')),
+      clearHeightFt,
+      brochureUrl: absoluteUrl(listing.subjectOf?.url, BASE_URL),
+      sourceUrl: absoluteUrl(listing.url, BASE_URL),
+      rawPayload: {
+        discovery: 'json_ld_item_list',
+        identifier,
+        title,
+        description,
+        category: category || null,
+        address,
+        city,
+        availableSf,
+        leaseRatePsf,
+        clearHeightFt,
+        listingType,
+        assetType,
+        status,
+      },
+    });
+  }
+
+  return records;
+}
+
+export async function runAvisonYoungSource(): Promise<SourceListingRecord[]> {
+  const byKey = new Map<string, SourceListingRecord>();
+
+  for (let page = 1; page <= MAX_PAGES; page += 1) {
+    const html = await fetchSourceText(`${SEARCH_URL}?propertyType=industrial&page=${page}`);
+    const records = parseAvisonYoungSearchPage(html);
+    const before = byKey.size;
+    for (const record of records) {
+      byKey.set(record.sourceRecordKey, record);
+    }
+    if (records.length === 0 || byKey.size === before) break;
+  }
+
+  return Array.from(byKey.values());
+}
@@ -0,0 +1,41 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+
+import { parseCbreQueryResponse, type CbreQueryResponse } from './cbre';
+
+const fixture = JSON.parse(readFileSync(new URL('./fixtures/cbre-query.json', import.meta.url), 'utf8')) as CbreQueryResponse;
+
+test('parseCbreQueryResponse keeps industrial documents only', () => {
+  const records = parseCbreQueryResponse(fixture);
+
+  assert.deepEqual(
+    records.map((record) => record.sourceRecordKey),
+    ['cbre:CA-SMPL-103477', 'cbre:CA-SMPL-104002'],
+  );
+});
+
+test('parseCbreQueryResponse reads lease charges, divisibility and brochures', () => {
+  const [warehouse] = parseCbreQueryResponse(fixture);
+
+  assert.equal(warehouse.title, 'Kingsway Warehouse with Dock Loading');
+  assert.equal(warehouse.address, '11810 Kingsway NW, Edmonton, AB');
+  assert.equal(warehouse.listingType, 'lease');
+  assert.equal(warehouse.availableSf, 30500);
+  assert.equal(warehouse.minDivisibleSf, 15000);
+  assert.equal(warehouse.clearHeightFt, 26);
+  assert.equal(warehouse.rawPayload.leaseRatePsf, 10.5);
+  assert.equal(warehouse.brochureUrl, 'https://www.cbre.ca/resources/fileassets/CA-SMPL-103477/brochure.pdf');
+});
+
+test('parseCbreQueryResponse converts metric sale documents under offer', () => {
+  const sale = parseCbreQueryResponse(fixture)[1];
+
+  assert.equal(sale.listingType, 'sale');
+  assert.equal(sale.status, 'pending');
+  assert.equal(sale.availableSf, 10764);
+  assert.equal(sale.landAcres, 2.97);
+  assert.equal(sale.totalPrice, 4250000);
+  assert.equal(sale.lat, null);
+  assert.equal(sale.sourceUrl, 'https://www.cbre.ca/properties/industrial/CA-SMPL-104002');
+});
@@ -0,0 +1,193 @@
+import type { SourceListingRecord } from '../types';
+import {
+  cleanText,
+  coordinateOrNull,
+  fetchSourceJson,
+  inferAssetType,
+  inferCity,
+  inferStatus,
+  isIndustrial,
+  parseClearHeightFt,
+  parseNumber,
+  withCity,
+} from './shared';
+
+// CBRE's listing site is backed by a public property-listings query API that
+// returns "Common."-prefixed documents grouped one listing per inner array.
+const QUERY_URL = 'https://www.cbre.ca/property-api/propertylistings/query';
+const PAGE_SIZE = 100;
+const MAX_PAGES = 10;
+const SOURCE_BASE_URL = 'https://www.cbre.ca/properties/industrial';
+
+type CbreSize = { 'Common.Units'?: string | null; 'Common.Size'?: number | string | null };
+type CbreCharge = {
+  'Common.ChargeKind'?: string | null;
+  'Common.Amount'?: number | string | null;
+  'Common.PerUnit'?: string | null;
+  'Common.Interval'?: string | null;
+};
+
+export type CbreDocument = {
+  'Common.PrimaryKey': string;
+  'Common.UsageType'?: string | null;
+  'Common.Aspects'?: string[] | null;
+  'Common.ListingStatus'?: string | null;
+  'Common.ActualAddress'?: {
+    'Common.Line1'?: string | null;
+    'Common.Locality'?: string | null;
+    'Common.Region'?: string | null;
+  } | null;
+  'Common.Coordinate'?: { lat?: number | string | null; lon?: number | string | null } | null;
+  'Common.Strapline'?: Array<{ 'Common.Text'?: string | null }> | null;
+  'Common.LongDescription'?: Array<{ 'Common.Text'?: string | null }> | null;
+  'Common.TotalSize'?: CbreSize[] | null;
+  'Common.MinimumSize'?: CbreSize[] | null;
+  'Common.SiteSize'?: CbreSize[] | null;
+  'Common.Charges'?: CbreCharge[] | null;
+  'Common.LeaseCharges'?: CbreCharge[] | null;
+  'Common.ClearHeight'?: string | number | null;
+  'Common.Brochures'?: Array<{ 'Common.Uri'?: string | null }> | null;
+  'Common.PropertyUrl'?: string | null;
+};
+
+export type CbreQueryResponse = {
+  DocumentCount?: number;
+  Documents?: CbreDocument[][];
+};
+
+function firstText(values?: Array<{ 'Common.Text'?: string | null }> | null): string {
+  return cleanText(values?.find((value) => value['Common.Text'])?.['Common.Text']);
+}
+
+function sizeFor(sizes: CbreSize[] | null | undefined, unit: 'sqft' | 'acre'): number | null {
+  for (const size of sizes || []) {
+    const units = String(size['Common.Units'] || '').toLowerCase();
+    const value = parseNumber(size['Common.Size'] ?? null);
+    if (value == null) continue;
+    if (unit === 'sqft') {
+      if (units === 'sqft') return value;
+      if (units === 'sqm') return Math.round(value * 10.7639);
+    } else {
+      if (units === 'acre' || units === 'acres') return value;
+      if (units === 'hectare' || units === 'ha') return Math.round(value * 2.47105 * 100) / 100;
+      if (units === 'sqft') return Math.round((value / 43560) * 100) / 100;
+    }
+  }
+  return null;
+}
+
+function chargeAmount(charges: CbreCharge[] | null | undefined, predicate: (charge: CbreCharge) => boolean): number | null {
+  const charge = (charges || []).find(predicate);
+  return charge ? parseNumber(charge['Common.Amount'] ?? null) : null;
+}
+
+function listingTypeFor(aspects: string[]): string {
+  const normalized = aspects.map((aspect) => aspect.toLowerCase());
+  if (normalized.includes('issublease') || normalized.includes('issubletting')) return 'sublease';
+  if (normalized.includes('issale') && !normalized.includes('isletting')) return 'sale';
+  return 'lease';
+}
+
+export function parseCbreQueryResponse(payload: CbreQueryResponse): SourceListingRecord[] {
+  const records: SourceListingRecord[] = [];
+
+  for (const group of payload.Documents || []) {
+    const document = group?.[0];
+    if (!document?.['Common.PrimaryKey']) continue;
+
+    const key = document['Common.PrimaryKey'];
+    const title = firstText(document['Common.Strapline']);
+    const description = firstText(document['Common.LongDescription']);
+    const usageType = String(document['Common.UsageType'] || '');
+    if (!/industrial/i.test(usageType) && !isIndustrial(title, description)) continue;
+
+    const city = cleanText(document['Common.ActualAddress']?.['Common.Locality']) || inferCity(title, description);
+    const address = withCity(document['Common.ActualAddress']?.['Common.Line1'], city);
+    const listingType = listingTypeFor(document['Common.Aspects'] || []);
+    const assetType = /land/i.test(usageType) ? 'land' : inferAssetType(title, description);
+    const listingStatus = String(document['Common.ListingStatus'] || '').toLowerCase();
+    const status = listingStatus === 'underoffer' ? 'pending' : inferStatus(title, listingStatus);
+    const leaseRatePsf = chargeAmount(
+      document['Common.LeaseCharges'],
+      (charge) => String(charge['Common.PerUnit'] || '').toLowerCase() === 'sqft',
+    );
+    const totalPrice = chargeAmount(
+      document['Common.Charges'],
+      (charge) => String(charge['Common.ChargeKind'] || '').toLowerCase() === 'saleprice',
+    );
+    const pricePerAcre = chargeAmount(
+      document['Common.Charges'],
+      (charge) => String(charge['Common.PerUnit'] || '').toLowerCase() === 'acre',
+    );
+    const availableSf = sizeFor(document['Common.TotalSize'], 'sqft');
+    const minimumSf = sizeFor(document['Common.MinimumSize'], 'sqft');
+    const clearHeight = document['Common.ClearHeight'];
+    const clearHeightFt =
+      typeof clearHeight === 'number' ? clearHeight : parseClearHeightFt(`clear height ${clearHeight || ''}`) ?? parseClearHeightFt(description);
+
+    records.push({
+      sourceRecordKey: `cbre:${key}`,
+      externalId: key,
+      status,
+      listingType,
+      assetType,
+      title: title || address || key,
+      address,
+      market: city,
+      submarket: city,
+      lat: coordinateOrNull(document['Common.Coordinate']?.lat),
+      lng: coordinateOrNull(document['Common.Coordinate']?.lon),
+      availableSf,
+      landAcres: sizeFor(document['Common.SiteSize'], 'acre'),
+      totalPrice: listingType === 'sale' ? totalPrice : null,
+      pricePerAcre,
+      minDivisibleSf: minimumSf != null && availableSf != null && minimumSf < availableSf ? minimumSf : null,
+      clearHeightFt,
+      brochureUrl: document['Common.Brochures']?.find((brochure) => brochure['Common.Uri'])?.['Common.Uri'] || null,
+      sourceUrl: document['Common.PropertyUrl'] || `${SOURCE_BASE_URL}/${encodeURIComponent(key)}`,
+      rawPayload: {
+        discovery: 'property_listings_query',
+        primaryKey: key,
+        title,
+        description,
+        usageType: usageType || null,
+        aspects: document['Common.Aspects'] || [],
+        address,
+        city,
+        availableSf,
+        leaseRatePsf,
+        clearHeightFt,
+        listingType,
+        assetType,
+        status,
+      },
+    });
+  }
+
+  return records;
+}
+
+export async function runCbreSource(): Promise<SourceListingRecord[]> {
+  const byKey = new Map<string, SourceListingRecord>();
+
+  for (let page = 1; page <= MAX_PAGES; page += 1) {
+    const params = new URLSearchParams({
+      Site: 'ca-comm',
+      CurrencyCode: 'CAD',
+      Unit: 'sqft',
+      Interval: 'Annually',
+      Common_UsageType: 'Industrial',
+      Common_HomeSite: 'ca-comm',
+      PolygonFilters: '[[["53.71,-113.71","53.71,-113.27","53.39,-113.27","53.39,-113.71"]]]',
+      PageSize: String(PAGE_SIZE),
+      Page: String(page),
+    });
+    const payload = await fetchSourceJson<CbreQueryResponse>(`${QUERY_URL}?${params.toString()}`);
+    for (const record of parseCbreQueryResponse(payload)) {
+      byKey.set(record.sourceRecordKey, record);
+    }
+    if ((payload.Documents?.length || 0) < PAGE_SIZE) break;
+  }
+
+  return Array.from(byKey.values());
+}
@@ -0,0 +1,42 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+
+import { parseColliersSearchPage } from './colliers';
+
+const fixture = readFileSync(new URL('./fixtures/colliers-search.html', import.meta.url), 'utf8');
+
+test('parseColliersSearchPage reads industrial property cards and skips retail', () => {
+  const records = parseColliersSearchPage(fixture);
+
+  assert.deepEqual(
+    records.map((record) => record.sourceRecordKey),
+    ['colliers:COL-EDM-5521', 'colliers:COL-EDM-5604'],
+  );
+});
+
+test('parseColliersSearchPage normalizes sublease specs from the card list', () => {
+  const [sublease] = parseColliersSearchPage(fixture);
+
+  assert.equal(sublease.listingType, 'sublease');
+  assert.equal(sublease.address, '6316 Roper Road NW, Edmonton, AB');
+  assert.equal(sublease.availableSf, 10420);
+  assert.equal(sublease.clearHeightFt, 24);
+  assert.equal(sublease.rawPayload.leaseRatePsf, 7.95);
+  assert.equal(sublease.lat, 53.50321);
+  assert.equal(sublease.sourceUrl, 'https://www.collierscanada.com/en-ca/properties/6316-roper-road-sublease');
+  assert.equal(sublease.brochureUrl, 'https://www.collierscanada.com/-/media/files/edmonton/6316-roper.pdf');
+});
+
+test('parseColliersSearchPage maps sold land cards without coordinates', () => {
+  const land = parseColliersSearchPage(fixture)[1];
+
+  assert.equal(land.listingType, 'sale');
+  assert.equal(land.assetType, 'land');
+  assert.equal(land.status, 'sold');
+  assert.equal(land.market, 'Fort Saskatchewan');
+  assert.equal(land.landAcres, 9.8);
+  assert.equal(land.totalPrice, 2450000);
+  assert.equal(land.lat, null);
+  assert.equal(land.brochureUrl, null);
+});
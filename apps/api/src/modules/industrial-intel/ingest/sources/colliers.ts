@@ -0,0 +1,136 @@
+import type { SourceListingRecord } from '../types';
+import {
+  absoluteUrl,
+  cleanText,
+  coordinateOrNull,
+  decodeHtml,
+  fetchSourceText,
+  inferAssetType,
+  inferCity,
+  inferListingType,
+  inferStatus,
+  isIndustrial,
+  parseAvailableSf,
+  parseClearHeightFt,
+  parseCurrency,
+  parseLandAcres,
+  parseLeaseRatePsf,
+  parsePricePerAcre,
+  withCity,
+} from './shared';
+
+// Colliers renders its property search server-side as <article> cards with the
+// listing id and coordinates in data attributes and specs as a plain list.
+const BASE_URL = 'https://www.collierscanada.com';
+const SEARCH_URL = `${BASE_URL}/en-ca/properties?city=edmonton&propertyType=industrial`;
+const MAX_PAGES = 10;
+
+function attribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\b${name}=["']([^"']*)["']`, 'i'));
+  return match ? decodeHtml(match[1]) : null;
+}
+
+function elementText(html: string, className: string): string {
+  const match = html.match(new RegExp(`<[a-z0-9]+[^>]*class=["'][^"']*\\b${className}\\b[^"']*["'][^>]*>([\\s\\S]*?)<\\/[a-z0-9]+>`, 'i'));
+  return cleanText(match?.[1]);
+}
+
+function specValue(specs: string[], label: RegExp): string {
+  const spec = specs.find((value) => label.test(value));
+  return spec ? spec.replace(/^[^:]*:\s*/, '') : '';
+}
+
+function readCards(html: string): Array<{ openTag: string; body: string }> {
+  const cards: Array<{ openTag: string; body: string }> = [];
+  const pattern = /(<article[^>]*class=["'][^"']*\bproperty-card\b[^"']*["'][^>]*>)([\s\S]*?)<\/article>/gi;
+  for (const match of Array.from(html.matchAll(pattern))) {
+    cards.push({ openTag: match[1], body: match[2] });
+  }
+  return cards;
+}
+
+export function parseColliersSearchPage(html: string): SourceListingRecord[] {
+  const records: SourceListingRecord[] = [];
+
+  for (const card of readCards(html)) {
+    const listingId = attribute(card.openTag, 'data-listing-id');
+    if (!listingId) continue;
+
+    const title = elementText(card.body, 'property-card__title');
+    const street = elementText(card.body, 'property-card__address');
+    const typeLabel = elementText(card.body, 'property-card__type');
+    const description = elementText(card.body, 'property-card__summary');
+    const specs = Array.from(card.body.matchAll(/<li[^>]*>([\s\S]*?)<\/li>/gi)).map((match) => cleanText(match[1]));
+    const specText = specs.join(' ');
+    if (!/industrial/i.test(typeLabel) && !isIndustrial(title, description)) continue;
+
+    const city = attribute(card.openTag, 'data-city') || inferCity(street, title, description);
+    const address = withCity(street, city);
+    const listingType = inferListingType(typeLabel, `${title} ${description}`);
+    const assetType = /land/i.test(typeLabel) ? 'land' : inferAssetType(title, `${typeLabel} ${description}`);
+    const statusLabel = elementText(card.body, 'property-card__status');
+    const status = inferStatus(statusLabel, '');
+    const sizeText = specValue(specs, /^size|^available/i);
+    const availableSf = parseAvailableSf(`available ${sizeText}`) ?? parseAvailableSf(description);
+    const minDivisibleText = specValue(specs, /divisible/i);
+    const leaseRatePsf = parseLeaseRatePsf(specValue(specs, /rate/i)) ?? parseLeaseRatePsf(description);
+    const priceText = specValue(specs, /price/i);
+    const href = card.body.match(/<a[^>]*class=["'][^"']*\bproperty-card__link\b[^"']*["'][^>]*>/i)?.[0];
+    const brochureHref = card.body.match(/<a[^>]*class=["'][^"']*\bproperty-card__brochure\b[^"']*["'][^>]*>/i)?.[0];
+
+    records.push({
+      sourceRecordKey: `colliers:${listingId}`,
+      externalId: listingId,
+      status,
+      listingType,
+      assetType,
+      title: title || address || `Colliers listing ${listingId}`,
+      address,
+      market: city,
+      submarket: city,
+      lat: coordinateOrNull(attribute(card.openTag, 'data-lat')),
+      lng: coordinateOrNull(attribute(card.openTag, 'data-lng')),
+      availableSf,
+      landAcres: parseLandAcres(specValue(specs, /land|site/i)),
+      totalPrice: listingType === 'sale' && priceText ? parseCurrency(`price ${priceText}`) : null,
+      pricePerAcre: parsePricePerAcre(priceText),
+      minDivisibleSf: minDivisibleText ? parseAvailableSf(`available ${minDivisibleText}`) : null,
+      clearHeightFt: parseClearHeightFt(specText) ?? parseClearHeightFt(description),
+      brochureUrl: brochureHref ? absoluteUrl(attribute(brochureHref, 'href'), BASE_URL) : null,
+      sourceUrl: href ? absoluteUrl(attribute(href, 'href'), BASE_URL) : null,
+      rawPayload: {
+        discovery: 'search_cards',
+        listingId,
+        title,
+        description,
+        typeLabel,
+        specs,
+        address,
+        city,
+        availableSf,
+        leaseRatePsf,
+        listingType,
+        assetType,
+        status,
+      },
+    });
+  }
+
+  return records;
+}
+
+export async function runColliersSource(): Promise<SourceListingRecord[]> {
+  const byKey = new Map<string, SourceListingRecord>();
+
+  for (let page = 1; page <= MAX_PAGES; page += 1) {
+    const html = await fetchSourceText(`${SEARCH_URL}&page=${page}`);
+    const records = parseColliersSearchPage(html);
+    const before = byKey.size;
+    for (const record of records) {
+      byKey.set(record.sourceRecordKey, record);
+    }
+    if (records.length === 0 || byKey.size === before || !/rel=["']next["']/i.test(html)) break;
+  }
+
+  return Array.from(byKey.values());
+}
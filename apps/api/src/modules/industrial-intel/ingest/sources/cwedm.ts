@@ -1,33 +1,22 @@
 import type { NormalizedIntelListingRecord } from '../types';
+import {
+  cleanText,
+  fetchSourceJson,
+  inferAddress,
+  inferAssetType,
+  inferCity,
+  inferListingType,
+  inferStatus,
+  isIndustrial,
+  parseAvailableSf,
+  parseCurrency,
+  parseLandAcres,
+  parsePricePerAcre,
+} from './shared';
 
-const USER_AGENT = 'Mozilla/5.0 (compatible; VialIndustrialIntel/1.0)';
-const TIMEOUT_MS = 30000;
 const SEARCH_URL = 'https://cwedm.com/wp-json/wp/v2/search';
 const DETAIL_URL = 'https://cwedm.com/wp-json/wp/v2/properties';
 const INDUSTRIAL_SEARCH_TERMS = ['industrial', 'warehouse', 'shop', 'yard'];
-const CITY_LABELS = [
-  'Fort Saskatchewan',
-  'Sherwood Park',
-  'Strathcona County',
-  'Sturgeon County',
-  'Leduc County',
-  'Grande Prairie',
-  'Fort McMurray',
-  'Red Deer',
-  'Edmonton',
-  'Acheson',
-  'Nisku',
-  'Leduc',
-  'Edson',
-  'Barrhead',
-  'Morinville',
-  'Bonnyville',
-  'Warburg',
-  'High Prairie',
-  'Cold Lake',
-  'Camrose',
-  'Lloydminster',
-] as const;
 
 type CwedmSearchResult = {
   id: number;
@@ -51,203 +40,6 @@ type CwedmPropertyDetail = {
   };
 };
 
-function decodeHtml(text?: string | null): string {
-  if (!text) return '';
-  return text
-    .replace(/&#(\d+);/g, (_match, code) => String.fromCharCode(Number(code)))
-    .replace(/&#x([0-9a-f]+);/gi, (_match, code) => String.fromCharCode(parseInt(code, 16)))
-    .replace(/&amp;/g, '&')
-    .replace(/&nbsp;/g, ' ')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'")
-    .replace(/&rsquo;/g, "'")
-    .replace(/&lsquo;/g, "'")
-    .replace(/&rdquo;/g, '"')
-    .replace(/&ldquo;/g, '"')
-    .replace(/&ndash;/g, '-')
-    .replace(/&mdash;/g, '-');
-}
-
-function cleanText(text?: string | null): string {
-  return decodeHtml(text)
-    .replace(/<script[\s\S]*?<\/script>/gi, ' ')
-    .replace(/<style[\s\S]*?<\/style>/gi, ' ')
-    .replace(/<[^>]+>/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim();
-}
-
-function parseNumber(value?: string | null): number | null {
-  if (!value) return null;
-  const num = Number(value.replace(/,/g, ''));
-  return Number.isFinite(num) ? num : null;
-}
-
-function parseAvailableSf(text: string): number | null {
-  const patterns = [
-    /available(?:\s+size|\s+sf|\s+\(sf\))?\s*[:\-]?\s*([0-9][0-9,]*)\s*(?:sf|sq\.?\s*ft)/i,
-    /building(?:\s+size|\s+total)?\s*[:\-]?\s*([0-9][0-9,]*)\s*(?:sf|sq\.?\s*ft)/i,
-    /features\s+([0-9][0-9,]*)\s*(?:sf|sq\.?\s*ft)/i,
-    /([0-9][0-9,]*)\s*(?:sf|sq\.?\s*ft)/i,
-  ];
-
-  for (const pattern of patterns) {
-    const match = text.match(pattern);
-    const parsed = parseNumber(match?.[1]);
-    if (parsed) return parsed;
-  }
-  return null;
-}
-
-function parseLandAcres(text: string): number | null {
-  const patterns = [
-    /land\s+size\s*\(?acres?\)?\s*[:\-]?\s*([0-9]+(?:\.[0-9]+)?)/i,
-    /site\s+size\s*[:\-]?\s*([0-9]+(?:\.[0-9]+)?)\s*acres?/i,
-    /on\s+([0-9]+(?:\.[0-9]+)?)\s*acres?/i,
-    /([0-9]+(?:\.[0-9]+)?)\s*acres?/i,
-  ];
-
-  for (const pattern of patterns) {
-    const match = text.match(pattern);
-    const parsed = parseNumber(match?.[1]);
-    if (parsed) return parsed;
-  }
-  return null;
-}
-
-function parseCurrency(text: string): number | null {
-  const patterns = [
-    /price\s*[:\-]?\s*\$\s*([0-9][0-9,]*(?:\.[0-9]{1,2})?)/i,
-    /sale\s+price\s*[:\-]?\s*\$\s*([0-9][0-9,]*(?:\.[0-9]{1,2})?)/i,
-    /\$\s*([0-9][0-9,]{4,}(?:\.[0-9]{1,2})?)/i,
-  ];
-
-  for (const pattern of patterns) {
-    const match = text.match(pattern);
-    const parsed = parseNumber(match?.[1]);
-    if (parsed) return parsed;
-  }
-  return null;
-}
-
-function parsePricePerAcre(text: string): number | null {
-  const match = text.match(/\$\s*([0-9][0-9,]*(?:\.[0-9]{1,2})?)\s*(?:\/|per\s+)acre/i);
-  return parseNumber(match?.[1]);
-}
-
-function inferCity(...parts: Array<string | null | undefined>): string | null {
-  const combined = parts.filter(Boolean).join(' ').toLowerCase();
-  for (const label of CITY_LABELS) {
-    if (combined.includes(label.toLowerCase())) return label;
-  }
-  return null;
-}
-
-function inferListingType(title: string, description: string): string {
-  const combined = `${title} ${description}`.toLowerCase();
-  if (combined.includes('sublease') || combined.includes('sub-lease')) return 'sublease';
-  if (combined.includes('lease') && combined.includes('sale')) return 'sale';
-  if (combined.includes('sale')) return 'sale';
-  return 'lease';
-}
-
-function inferStatus(title: string, description: string): string {
-  const combined = `${title} ${description}`.toLowerCase();
-  if (combined.includes('leased')) return 'leased';
-  if (combined.includes('sold')) return 'sold';
-  if (combined.includes('pending')) return 'pending';
-  return 'active';
-}
-
-function inferAssetType(title: string, description: string): string {
-  const combined = `${title} ${description}`.toLowerCase();
-  if (combined.includes('industrial land') || combined.includes('development land') || combined.includes('land for')) {
-    return 'land';
-  }
-  if (/\b(building|warehouse|bay|bays|shop|office)\b/.test(combined)) return 'building';
-  if (combined.includes('yard') && !combined.includes('building')) return 'yard';
-  return 'building';
-}
-
-function isIndustrial(title: string, description: string): boolean {
-  const normalizedTitle = title.toLowerCase();
-  const combined = `${title} ${description}`.toLowerCase();
-  const titleHasIndustrialSignal = [
-    /\bindustrial\b/,
-    /\bwarehouse\b/,
-    /\boffice\s*\/\s*warehouse\b/,
-    /\bshop\b/,
-    /\byard\b/,
-    /\bmanufacturing\b/,
-    /\bdistribution\b/,
-    /\blogistics\b/,
-  ].some((pattern) => pattern.test(normalizedTitle));
-  const hasSecondarySignal = [/\bfacility\b/, /\bbay\b/, /\bbays\b/, /\bflex\b/, /\bfreestanding\b/].some((pattern) =>
-    pattern.test(normalizedTitle),
-  );
-  const descriptionHasIndustrialSignal = [
-    /\bindustrial\b/,
-    /\bwarehouse\b/,
-    /\bshop\b/,
-    /\byard\b/,
-    /\bmanufacturing\b/,
-    /\bdistribution\b/,
-  ].some((pattern) => pattern.test(combined));
-  const hasNonIndustrialTitleSignal = [
-    /\bretail\b/,
-    /\bmedical\b/,
-    /\brestaurant\b/,
-    /\bmultifamily\b/,
-    /\bmulti-family\b/,
-    /\bresidential\b/,
-    /\bapartment\b/,
-    /\bhotel\b/,
-    /\bmotel\b/,
-    /\bdaycare\b/,
-  ].some((pattern) => pattern.test(normalizedTitle));
-  const isOfficeOnlyTitle =
-    /\boffice\s+(?:space|condo|building|tower)\b/.test(normalizedTitle) &&
-    !/\b(warehouse|shop|bay|bays)\b/.test(normalizedTitle);
-
-  if (hasNonIndustrialTitleSignal && !titleHasIndustrialSignal) return false;
-  if (hasNonIndustrialTitleSignal || isOfficeOnlyTitle) return false;
-  return titleHasIndustrialSignal || (hasSecondarySignal && descriptionHasIndustrialSignal);
-}
-
-function inferAddress(title: string, description: string, city: string | null): string | null {
-  const streetPattern =
-    /\b([0-9][0-9A-Za-z /-]*\s+(?:Street|St\.?|Avenue|Ave\.?|Road|Rd\.?|Drive|Dr\.?|Trail|Way|Crescent|Cres\.?|Boulevard|Blvd\.?|Close|Place|Lane|Range Road|RGE RD)(?:\s+(?:NW|NE|SW|SE|N|S|E|W))?)\b/i;
-  const explicitAddress =
-    title.match(streetPattern)?.[1] ||
-    description.match(/\bat\s+([0-9][A-Za-z0-9 .#'&/-]+?)\s+in\s+[A-Z][A-Za-z .'-]+/i)?.[1] ||
-    description.match(streetPattern)?.[1];
-
-  if (explicitAddress) {
-    const cleaned = cleanText(explicitAddress).replace(/[,.]$/, '');
-    if (cleaned.length > 80) return null;
-    return city && !cleaned.toLowerCase().includes(city.toLowerCase()) ? `${cleaned}, ${city}, AB` : cleaned;
-  }
-
-  return null;
-}
-
-async function fetchJson<T>(url: string): Promise<T> {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), TIMEOUT_MS);
-  try {
-    const response = await fetch(url, {
-      headers: { 'User-Agent': USER_AGENT, Accept: 'application/json' },
-      signal: controller.signal,
-    });
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status} for ${url}`);
-    }
-    return (await response.json()) as T;
-  } finally {
-    clearTimeout(timeout);
-  }
-}
-
 async function discoverIndustrialProperties(): Promise<CwedmSearchResult[]> {
   const byId = new Map<number, CwedmSearchResult>();
 
@@ -256,7 +48,7 @@ async function discoverIndustrialProperties(): Promise<CwedmSearchResult[]> {
       const url = `${SEARCH_URL}?search=${encodeURIComponent(term)}&subtype=rem_property&per_page=100&page=${page}`;
       let results: CwedmSearchResult[];
       try {
-        results = await fetchJson<CwedmSearchResult[]>(url);
+        results = await fetchSourceJson<CwedmSearchResult[]>(url);
       } catch (error) {
         if (page > 1) break;
         throw error;
@@ -276,7 +68,7 @@ async function discoverIndustrialProperties(): Promise<CwedmSearchResult[]> {
 }
 
 async function fetchPropertyDetail(id: number): Promise<CwedmPropertyDetail> {
-  return fetchJson<CwedmPropertyDetail>(`${DETAIL_URL}/${id}`);
+  return fetchSourceJson<CwedmPropertyDetail>(`${DETAIL_URL}/${id}`);
 }
 
 function toRecord(detail: CwedmPropertyDetail, fallback: CwedmSearchResult): Omit<NormalizedIntelListingRecord, 'contentHash'> | null {
@@ -0,0 +1,86 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+
+import {
+  IntelFeedMappingError,
+  mapFeedRows,
+  normalizeIntelFeedFieldMapping,
+  parseFeedCsv,
+  readFeedRows,
+} from './feed';
+
+const csvFixture = readFileSync(new URL('./fixtures/landlord-feed.csv', import.meta.url), 'utf8');
+const jsonFixture = readFileSync(new URL('./fixtures/landlord-feed.json', import.meta.url), 'utf8');
+
+test('parseFeedCsv handles quoted commas, escaped quotes and multi-line cells', () => {
+  const rows = parseFeedCsv(csvFixture);
+
+  assert.equal(rows.length, 3);
+  assert.equal(rows[0]['Street Address'], '17820 111 Avenue NW, Edmonton');
+  assert.equal(rows[0].Notes, 'Dock loading, "cross-dock" ready');
+  assert.equal(rows[2].Notes, 'Fenced yard\nwith gravel surface');
+});
+
+test('mapFeedRows converts metric areas, heights and monthly rent for CSV feeds', () => {
+  const mapping = normalizeIntelFeedFieldMapping({
+    recordKey: ['Building', 'Unit'],
+    title: 'Building',
+    address: 'Street Address',
+    market: 'City',
+    listingType: 'Deal',
+    availableSf: { source: 'Area (sqm)', unit: 'sqm' },
+    clearHeightFt: { source: 'Clear (m)', unit: 'm' },
+    leaseRatePsf: { source: 'Monthly Rent', unit: 'total_monthly' },
+  });
+  const [unit100, unit200, yard] = mapFeedRows(readFeedRows(csvFixture, 'csv_url', mapping), mapping);
+
+  assert.equal(unit100.sourceRecordKey, 'westpoint-logistics|100');
+  assert.equal(unit100.listingType, 'lease');
+  assert.equal(unit100.availableSf, 26910);
+  assert.equal(unit100.clearHeightFt, 29.9);
+  assert.equal(unit100.rawPayload.leaseRatePsf, 10.03);
+  assert.equal(unit200.listingType, 'sublease');
+  assert.equal(yard.listingType, 'sale');
+  assert.equal(yard.market, 'Nisku');
+});
+
+test('mapFeedRows follows nested JSON paths and derives price per acre', () => {
+  const mapping = normalizeIntelFeedFieldMapping({
+    recordsPath: 'data.listings',
+    externalId: 'id',
+    title: 'name',
+    address: 'location.street',
+    market: 'location.city',
+    lat: 'location.lat',
+    lng: 'location.lng',
+    assetType: 'type',
+    listingType: 'offer',
+    landAcres: { source: 'site.hectares', unit: 'hectares' },
+    availableSf: 'sizeSf',
+    totalPrice: 'askingPrice',
+    leaseRatePsf: 'netRate',
+    sourceUrl: 'links.web',
+  });
+  const [land, flex] = mapFeedRows(readFeedRows(jsonFixture, 'json_url', mapping), mapping);
+
+  assert.equal(land.sourceRecordKey, 'ach-44');
+  assert.equal(land.assetType, 'land');
+  assert.equal(land.landAcres, 9.88);
+  assert.equal(land.pricePerAcre, 126518.22);
+  assert.equal(land.lng, -113.7651);
+  assert.equal(land.sourceUrl, 'https://landlord.example.com/properties/ach-44');
+  assert.equal(flex.assetType, 'building');
+  assert.equal(flex.availableSf, 18400);
+  assert.equal(flex.rawPayload.leaseRatePsf, 13.5);
+});
+
+test('normalizeIntelFeedFieldMapping keeps flat mappings and rejects unknown units', () => {
+  const mapping = normalizeIntelFeedFieldMapping({ title: 'listing_title', availableSf: 'available_sf', ignored: 'x' });
+
+  assert.deepEqual(mapping.fields, { title: { source: 'listing_title' }, availableSf: { source: 'available_sf' } });
+  assert.throws(
+    () => normalizeIntelFeedFieldMapping({ title: 'Name', availableSf: { source: 'Area', unit: 'hectares' } }),
+    IntelFeedMappingError,
+  );
+});
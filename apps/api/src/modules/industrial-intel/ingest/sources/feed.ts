@@ -0,0 +1,374 @@
+import type { IntelFeedKind, IntelFeedSourceConfig, SourceListingRecord } from '../types';
+import { cleanText, fetchSourceText, inferCity, parseNumber } from './shared';
+
+// Generic landlord/broker feed adapter. The source row's `field_mapping` says
+// which feed column fills each normalized listing field and, where the feed
+// publishes a different unit, how to convert it. Example:
+//
+//   {
+//     "recordsPath": "data.listings",
+//     "recordKey": ["Building", "Unit"],
+//     "title": "Building",
+//     "availableSf": { "source": "Area (acres)", "unit": "acres" },
+//     "leaseRatePsf": { "source": "Monthly Rent", "unit": "total_monthly" }
+//   }
+
+export const INTEL_FEED_TARGET_FIELDS = [
+  'externalId',
+  'title',
+  'address',
+  'market',
+  'submarket',
+  'status',
+  'listingType',
+  'assetType',
+  'lat',
+  'lng',
+  'availableSf',
+  'minDivisibleSf',
+  'landAcres',
+  'totalPrice',
+  'pricePerAcre',
+  'leaseRatePsf',
+  'clearHeightFt',
+  'brochureUrl',
+  'sourceUrl',
+] as const;
+
+export type IntelFeedTargetField = (typeof INTEL_FEED_TARGET_FIELDS)[number];
+
+// Units a feed column can be published in, per target field. The first unit is
+// the normalized unit and needs no conversion.
+export const INTEL_FEED_FIELD_UNITS: Partial<Record<IntelFeedTargetField, readonly string[]>> = {
+  availableSf: ['sf', 'sqm', 'acres'],
+  minDivisibleSf: ['sf', 'sqm', 'acres'],
+  landAcres: ['acres', 'sf', 'sqm', 'hectares'],
+  totalPrice: ['total', 'psf', 'per_acre'],
+  pricePerAcre: ['per_acre', 'total', 'psf'],
+  leaseRatePsf: ['psf', 'psf_monthly', 'total_annual', 'total_monthly'],
+  clearHeightFt: ['ft', 'm'],
+};
+
+export type IntelFeedFieldRule = {
+  source: string;
+  unit?: string | null;
+};
+
+export type IntelFeedFieldMapping = {
+  recordsPath?: string | null;
+  recordKey?: string | string[] | null;
+  fields: Partial<Record<IntelFeedTargetField, IntelFeedFieldRule>>;
+};
+
+export class IntelFeedMappingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IntelFeedMappingError';
+  }
+}
+
+type FeedRow = Record<string, unknown>;
+
+const SF_PER_ACRE = 43560;
+const SF_PER_SQM = 10.7639;
+const ACRES_PER_HECTARE = 2.47105;
+const FT_PER_M = 3.28084;
+
+export function isIntelFeedKind(kind: string | null | undefined): kind is IntelFeedKind {
+  return kind === 'csv_url' || kind === 'json_url';
+}
+
+function isTargetField(value: string): value is IntelFeedTargetField {
+  return (INTEL_FEED_TARGET_FIELDS as readonly string[]).includes(value);
+}
+
+// Accepts the stored jsonb as-is. Plain string values are the original
+// `{ field: "Column" }` shape used by seeded sources.
+export function normalizeIntelFeedFieldMapping(raw: unknown): IntelFeedFieldMapping {
+  const input = raw && typeof raw === 'object' && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  const fields: IntelFeedFieldMapping['fields'] = {};
+
+  for (const [key, value] of Object.entries(input)) {
+    if (!isTargetField(key)) continue;
+    const rule =
+      typeof value === 'string'
+        ? { source: value }
+        : value && typeof value === 'object'
+          ? { source: String((value as Record<string, unknown>).source || ''), unit: (value as Record<string, unknown>).unit }
+          : null;
+    if (!rule?.source.trim()) continue;
+
+    const unit = typeof rule.unit === 'string' && rule.unit.trim() ? rule.unit.trim() : null;
+    const allowedUnits = INTEL_FEED_FIELD_UNITS[key];
+    if (unit && !allowedUnits?.includes(unit)) {
+      throw new IntelFeedMappingError(`Unit "${unit}" is not supported for ${key}`);
+    }
+    fields[key] = unit ? { source: rule.source.trim(), unit } : { source: rule.source.trim() };
+  }
+
+  const recordKey = Array.isArray(input.recordKey)
+    ? input.recordKey.map((value) => String(value).trim()).filter(Boolean)
+    : typeof input.recordKey === 'string' && input.recordKey.trim()
+      ? input.recordKey.trim()
+      : null;
+
+  return {
+    recordsPath: typeof input.recordsPath === 'string' && input.recordsPath.trim() ? input.recordsPath.trim() : null,
+    recordKey: Array.isArray(recordKey) && recordKey.length === 0 ? null : recordKey,
+    fields,
+  };
+}
+
+export function parseFeedCsv(text: string): FeedRow[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^﻿/, '');
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index];
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') index += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter((values) => values.some((value) => value.trim()));
+  if (!header) return [];
+  const columns = header.map((column) => column.trim());
+  return body.map((values) => Object.fromEntries(columns.map((column, index) => [column, values[index]?.trim() ?? ''])));
+}
+
+function readPath(value: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((current, segment) => {
+    if (current && typeof current === 'object') return (current as Record<string, unknown>)[segment];
+    return undefined;
+  }, value);
+}
+
+export function readFeedRows(body: string, kind: IntelFeedKind, mapping: IntelFeedFieldMapping): FeedRow[] {
+  if (kind === 'csv_url') return parseFeedCsv(body);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new IntelFeedMappingError('Feed did not return valid JSON');
+  }
+  const records = mapping.recordsPath ? readPath(parsed, mapping.recordsPath) : parsed;
+  if (!Array.isArray(records)) {
+    throw new IntelFeedMappingError(
+      mapping.recordsPath ? `No array found at "${mapping.recordsPath}"` : 'JSON feed must be an array or set recordsPath',
+    );
+  }
+  return records.filter((record): record is FeedRow => Boolean(record) && typeof record === 'object' && !Array.isArray(record));
+}
+
+export function feedColumns(rows: FeedRow[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows.slice(0, 25)) {
+    Object.keys(row).forEach((column) => columns.add(column));
+  }
+  return Array.from(columns);
+}
+
+function rawValue(row: FeedRow, source: string): unknown {
+  return source in row ? row[source] : readPath(row, source);
+}
+
+function textValue(row: FeedRow, rule?: IntelFeedFieldRule): string | null {
+  if (!rule) return null;
+  const value = rawValue(row, rule.source);
+  if (value == null) return null;
+  const text = cleanText(String(value));
+  return text || null;
+}
+
+function numberValue(row: FeedRow, rule?: IntelFeedFieldRule): number | null {
+  if (!rule) return null;
+  const value = rawValue(row, rule.source);
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  return parseNumber(value.replace(/[^0-9.\-]/g, ''));
+}
+
+function round(value: number | null, digits = 2): number | null {
+  if (value == null || !Number.isFinite(value)) return null;
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function toSquareFeet(value: number | null, unit?: string | null): number | null {
+  if (value == null) return null;
+  if (unit === 'sqm') return Math.round(value * SF_PER_SQM);
+  if (unit === 'acres') return Math.round(value * SF_PER_ACRE);
+  return Math.round(value);
+}
+
+function toAcres(value: number | null, unit?: string | null): number | null {
+  if (value == null) return null;
+  if (unit === 'sf') return round(value / SF_PER_ACRE);
+  if (unit === 'sqm') return round((value * SF_PER_SQM) / SF_PER_ACRE);
+  if (unit === 'hectares') return round(value * ACRES_PER_HECTARE);
+  return round(value);
+}
+
+function divide(value: number | null, by: number | null): number | null {
+  return value != null && by ? value / by : null;
+}
+
+function normalizeChoice(value: string | null, choices: Record<string, RegExp>): string | null {
+  if (!value) return null;
+  for (const [choice, pattern] of Object.entries(choices)) {
+    if (pattern.test(value)) return choice;
+  }
+  return value.toLowerCase();
+}
+
+function buildRecordKey(row: FeedRow, mapping: IntelFeedFieldMapping, fallback: string[], index: number): string {
+  const keyColumns = mapping.recordKey ? ([] as string[]).concat(mapping.recordKey) : [];
+  const parts = keyColumns.length
+    ? keyColumns.map((column) => String(rawValue(row, column) ?? '').trim())
+    : fallback;
+  const key = parts
+    .filter(Boolean)
+    .join('|')
+    .toLowerCase()
+    .replace(/[^a-z0-9|_-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return key || `row-${index + 1}`;
+}
+
+export function mapFeedRow(row: FeedRow, mapping: IntelFeedFieldMapping, index: number): SourceListingRecord | null {
+  const { fields } = mapping;
+  const title = textValue(row, fields.title);
+  const address = textValue(row, fields.address);
+  if (!title && !address) return null;
+
+  const availableSf = toSquareFeet(numberValue(row, fields.availableSf), fields.availableSf?.unit);
+  const minDivisibleSf = toSquareFeet(numberValue(row, fields.minDivisibleSf), fields.minDivisibleSf?.unit);
+  const landAcres = toAcres(numberValue(row, fields.landAcres), fields.landAcres?.unit);
+
+  const priceValue = numberValue(row, fields.totalPrice);
+  const totalPrice = round(
+    fields.totalPrice?.unit === 'psf'
+      ? priceValue != null && availableSf ? priceValue * availableSf : null
+      : fields.totalPrice?.unit === 'per_acre'
+        ? priceValue != null && landAcres ? priceValue * landAcres : null
+        : priceValue,
+  );
+
+  const perAcreValue = numberValue(row, fields.pricePerAcre);
+  const pricePerAcre = round(
+    fields.pricePerAcre?.unit === 'total'
+      ? divide(perAcreValue, landAcres)
+      : fields.pricePerAcre?.unit === 'psf'
+        ? perAcreValue != null ? perAcreValue * SF_PER_ACRE : null
+        : perAcreValue ?? divide(totalPrice, landAcres),
+  );
+
+  const rateValue = numberValue(row, fields.leaseRatePsf);
+  const rateUnit = fields.leaseRatePsf?.unit;
+  const leaseRatePsf = round(
+    rateUnit === 'psf_monthly'
+      ? rateValue != null ? rateValue * 12 : null
+      : rateUnit === 'total_annual'
+        ? divide(rateValue, availableSf)
+        : rateUnit === 'total_monthly'
+          ? divide(rateValue != null ? rateValue * 12 : null, availableSf)
+          : rateValue,
+  );
+
+  const heightValue = numberValue(row, fields.clearHeightFt);
+  const clearHeightFt = round(fields.clearHeightFt?.unit === 'm' && heightValue != null ? heightValue * FT_PER_M : heightValue, 1);
+
+  const market = textValue(row, fields.market) || inferCity(address, title);
+  const listingType =
+    normalizeChoice(textValue(row, fields.listingType), { sublease: /sub-?lease/i, sale: /sale|sell/i, lease: /lease|rent/i }) ||
+    'lease';
+  const assetType =
+    normalizeChoice(textValue(row, fields.assetType), { land: /land/i, yard: /yard/i, building: /building|warehouse|industrial/i }) ||
+    (landAcres && !availableSf ? 'land' : 'building');
+  const externalId = textValue(row, fields.externalId);
+  const lat = numberValue(row, fields.lat);
+  const lng = numberValue(row, fields.lng);
+
+  return {
+    sourceRecordKey: buildRecordKey(row, mapping, externalId ? [externalId] : [address || '', title || '', listingType], index),
+    externalId,
+    status: normalizeChoice(textValue(row, fields.status), { active: /active|available/i }) || 'active',
+    listingType,
+    assetType,
+    title: title || address || `Feed row ${index + 1}`,
+    address,
+    market,
+    submarket: textValue(row, fields.submarket) || market,
+    lat: lat || null,
+    lng: lng || null,
+    availableSf,
+    landAcres,
+    totalPrice,
+    pricePerAcre,
+    minDivisibleSf,
+    clearHeightFt,
+    brochureUrl: textValue(row, fields.brochureUrl),
+    sourceUrl: textValue(row, fields.sourceUrl),
+    rawPayload: {
+      discovery: 'mapped_feed',
+      feedRow: index + 1,
+      leaseRatePsf,
+      row,
+    },
+  };
+}
+
+export function mapFeedRows(rows: FeedRow[], mapping: IntelFeedFieldMapping): SourceListingRecord[] {
+  if (!mapping.fields.title && !mapping.fields.address) {
+    throw new IntelFeedMappingError('Field mapping must map at least title or address');
+  }
+
+  const byKey = new Map<string, SourceListingRecord>();
+  rows.forEach((row, index) => {
+    const record = mapFeedRow(row, mapping, index);
+    if (record) byKey.set(record.sourceRecordKey, record);
+  });
+  return Array.from(byKey.values());
+}
+
+export async function fetchFeedRows(config: IntelFeedSourceConfig): Promise<{ mapping: IntelFeedFieldMapping; rows: FeedRow[] }> {
+  const mapping = normalizeIntelFeedFieldMapping(config.fieldMapping);
+  const body = await fetchSourceText(config.feedUrl);
+  return { mapping, rows: readFeedRows(body, config.kind, mapping) };
+}
+
+export async function runFeedSource(config: IntelFeedSourceConfig): Promise<SourceListingRecord[]> {
+  const { mapping, rows } = await fetchFeedRows(config);
+  return mapFeedRows(rows, mapping);
+}
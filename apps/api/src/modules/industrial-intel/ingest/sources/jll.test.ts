@@ -0,0 +1,42 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+
+import { jllSearchPageCount, parseJllSearchPage } from './jll';
+
+const fixture = readFileSync(new URL('./fixtures/jll-search.html', import.meta.url), 'utf8');
+
+test('parseJllSearchPage reads __NEXT_DATA__ results and skips office listings', () => {
+  const records = parseJllSearchPage(fixture);
+
+  assert.deepEqual(
+    records.map((record) => record.sourceRecordKey),
+    ['jll:CA-P-88231', 'jll:CA-P-90114', 'jll:CA-P-77450'],
+  );
+  assert.equal(jllSearchPageCount(fixture), 3);
+});
+
+test('parseJllSearchPage keeps size ranges and lease rates', () => {
+  const [logistics] = parseJllSearchPage(fixture);
+
+  assert.equal(logistics.address, '12920 170 Street NW, Edmonton, AB');
+  assert.equal(logistics.availableSf, 88000);
+  assert.equal(logistics.minDivisibleSf, 24000);
+  assert.equal(logistics.clearHeightFt, 32);
+  assert.equal(logistics.rawPayload.leaseRatePsf, 12.25);
+  assert.equal(logistics.sourceUrl, 'https://property.jll.ca/en/listings/yellowhead-logistics-centre');
+});
+
+test('parseJllSearchPage flags subleases under offer and converts hectares of land', () => {
+  const [, sublease, land] = parseJllSearchPage(fixture);
+
+  assert.equal(sublease.listingType, 'sublease');
+  assert.equal(sublease.status, 'pending');
+  assert.equal(sublease.availableSf, 6997);
+  assert.equal(sublease.minDivisibleSf, null);
+
+  assert.equal(land.listingType, 'sale');
+  assert.equal(land.assetType, 'land');
+  assert.equal(land.landAcres, 9.88);
+  assert.equal(land.totalPrice, 3100000);
+});
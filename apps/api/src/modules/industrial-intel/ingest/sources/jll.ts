@@ -0,0 +1,181 @@
+import type { SourceListingRecord } from '../types';
+import {
+  absoluteUrl,
+  cleanText,
+  coordinateOrNull,
+  fetchSourceText,
+  inferAssetType,
+  inferCity,
+  inferListingType,
+  inferStatus,
+  isIndustrial,
+  parseAvailableSf,
+  parseClearHeightFt,
+  parseNumber,
+  withCity,
+} from './shared';
+
+// JLL's property search is a Next.js page; the first render ships the result
+// set in the __NEXT_DATA__ script, so no client-side API calls are needed.
+const BASE_URL = 'https://property.jll.ca';
+const SEARCH_URL = `${BASE_URL}/en/search?tenureType=rent,sale&propertyType=industrial&city=edmonton`;
+const MAX_PAGES = 10;
+
+type JllSize = { min?: number | string | null; max?: number | string | null; unit?: string | null } | null;
+
+export type JllSearchProperty = {
+  id: string | number;
+  title?: string | null;
+  description?: string | null;
+  status?: string | null;
+  propertyTypes?: string[] | null;
+  transactionType?: string | null;
+  address?: { line1?: string | null; city?: string | null; province?: string | null } | null;
+  coordinates?: { lat?: number | string | null; lng?: number | string | null } | null;
+  size?: JllSize;
+  landSize?: JllSize;
+  price?: { amount?: number | string | null; unit?: string | null } | null;
+  features?: Array<{ label?: string | null; value?: string | null }> | null;
+  url?: string | null;
+  brochureUrl?: string | null;
+};
+
+type JllNextData = {
+  props?: {
+    pageProps?: {
+      searchResults?: {
+        properties?: JllSearchProperty[];
+        totalCount?: number;
+        pageSize?: number;
+      };
+    };
+  };
+};
+
+function readNextData(html: string): JllNextData | null {
+  const match = html.match(/<script[^>]+id=["']__NEXT_DATA__["'][^>]*>([\s\S]*?)<\/script>/i);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[1]) as JllNextData;
+  } catch {
+    return null;
+  }
+}
+
+function sizeInSf(size: JllSize): { min: number | null; max: number | null } {
+  const unit = String(size?.unit || 'sqft').toLowerCase();
+  const factor = unit === 'sqm' ? 10.7639 : 1;
+  const convert = (value: number | string | null | undefined) => {
+    const parsed = parseNumber(value ?? null);
+    return parsed == null ? null : Math.round(parsed * factor);
+  };
+  return { min: convert(size?.min), max: convert(size?.max) };
+}
+
+function sizeInAcres(size: JllSize): number | null {
+  const value = parseNumber(size?.max ?? size?.min ?? null);
+  if (value == null) return null;
+  const unit = String(size?.unit || 'acres').toLowerCase();
+  if (unit === 'ha' || unit === 'hectares') return Math.round(value * 2.47105 * 100) / 100;
+  if (unit === 'sqft') return Math.round((value / 43560) * 100) / 100;
+  return value;
+}
+
+function featureValue(property: JllSearchProperty, label: RegExp): string {
+  return (property.features || []).find((feature) => label.test(String(feature.label || '')))?.value || '';
+}
+
+function listingTypeFor(property: JllSearchProperty, title: string, description: string): string {
+  const transaction = String(property.transactionType || '').toLowerCase();
+  if (transaction.includes('sublease')) return 'sublease';
+  if (transaction === 'sale' || transaction === 'buy') return 'sale';
+  if (transaction === 'lease' || transaction === 'rent') return inferListingType(title, description) === 'sublease' ? 'sublease' : 'lease';
+  return inferListingType(title, description);
+}
+
+export function parseJllSearchPage(html: string): SourceListingRecord[] {
+  const data = readNextData(html);
+  const properties = data?.props?.pageProps?.searchResults?.properties || [];
+  const records: SourceListingRecord[] = [];
+
+  for (const property of properties) {
+    const title = cleanText(property.title);
+    const description = cleanText(property.description);
+    const types = (property.propertyTypes || []).join(' ');
+    if (!/industrial/i.test(types) && !isIndustrial(title, description)) continue;
+
+    const city = cleanText(property.address?.city) || inferCity(title, description);
+    const address = withCity(property.address?.line1, city);
+    const listingType = listingTypeFor(property, title, description);
+    const assetType = /land/i.test(types) ? 'land' : inferAssetType(title, description);
+    const size = sizeInSf(property.size ?? null);
+    const priceUnit = String(property.price?.unit || '').toLowerCase();
+    const priceAmount = parseNumber(property.price?.amount ?? null);
+    const leaseRatePsf = priceUnit === 'psf' || priceUnit === 'sqft' ? priceAmount : null;
+    const availableSf = size.max ?? size.min ?? parseAvailableSf(description);
+    const clearHeightFt = parseClearHeightFt(`clear height ${featureValue(property, /clear/i)}`) ?? parseClearHeightFt(description);
+    const status = String(property.status || '').toLowerCase() === 'under offer' ? 'pending' : inferStatus(title, description);
+
+    records.push({
+      sourceRecordKey: `jll:${property.id}`,
+      externalId: String(property.id),
+      status,
+      listingType,
+      assetType,
+      title: title || address || `JLL listing ${property.id}`,
+      address,
+      market: city,
+      submarket: city,
+      lat: coordinateOrNull(property.coordinates?.lat),
+      lng: coordinateOrNull(property.coordinates?.lng),
+      availableSf,
+      landAcres: sizeInAcres(property.landSize ?? null),
+      totalPrice: listingType === 'sale' && priceUnit !== 'psf' ? priceAmount : null,
+      pricePerAcre: priceUnit === 'acre' ? priceAmount : null,
+      minDivisibleSf: size.min != null && size.max != null && size.min < size.max ? size.min : null,
+      clearHeightFt,
+      brochureUrl: absoluteUrl(property.brochureUrl, BASE_URL),
+      sourceUrl: absoluteUrl(property.url, BASE_URL),
+      rawPayload: {
+        discovery: 'next_data_search',
+        jllId: property.id,
+        title,
+        description,
+        propertyTypes: property.propertyTypes || [],
+        address,
+        city,
+        availableSf,
+        leaseRatePsf,
+        clearHeightFt,
+        listingType,
+        assetType,
+        status,
+      },
+    });
+  }
+
+  return records;
+}
+
+export function jllSearchPageCount(html: string): number {
+  const results = readNextData(html)?.props?.pageProps?.searchResults;
+  const total = Number(results?.totalCount || 0);
+  const pageSize = Number(results?.pageSize || results?.properties?.length || 0);
+  if (!total || !pageSize) return 1;
+  return Math.min(MAX_PAGES, Math.ceil(total / pageSize));
+}
+
+export async function runJllSource(): Promise<SourceListingRecord[]> {
+  const firstPage = await fetchSourceText(SEARCH_URL);
+  const byKey = new Map(parseJllSearchPage(firstPage).map((record) => [record.sourceRecordKey, record]));
+  const pageCount = jllSearchPageCount(firstPage);
+
+  for (let page = 2; page <= pageCount; page += 1) {
+    const html = await fetchSourceText(`${SEARCH_URL}&page=${page}`);
+    for (const record of parseJllSearchPage(html)) {
+      byKey.set(record.sourceRecordKey, record);
+    }
+  }
+
+  return Array.from(byKey.values());
+}
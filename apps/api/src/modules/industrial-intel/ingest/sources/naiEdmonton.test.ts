@@ -0,0 +1,49 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+
+import { parseNaiInventory, type NaiBuildoutInventoryPage } from './naiEdmonton';
+
+const fixture = JSON.parse(
+  readFileSync(new URL('./fixtures/nai-edmonton-inventory.json', import.meta.url), 'utf8'),
+) as NaiBuildoutInventoryPage;
+
+test('parseNaiInventory keeps industrial Buildout listings and drops office inventory', () => {
+  const records = parseNaiInventory(fixture);
+
+  assert.deepEqual(
+    records.map((record) => record.sourceRecordKey),
+    ['buildout:481204', 'buildout:479911'],
+  );
+});
+
+test('parseNaiInventory normalizes lease economics, size and brochure links', () => {
+  const [shop] = parseNaiInventory(fixture);
+
+  assert.equal(shop.title, 'Freestanding Shop & Yard on 2.5 Acres');
+  assert.equal(shop.address, '10230 180 Street NW, Edmonton, AB');
+  assert.equal(shop.listingType, 'lease');
+  assert.equal(shop.assetType, 'building');
+  assert.equal(shop.availableSf, 12400);
+  assert.equal(shop.minDivisibleSf, 6200);
+  assert.equal(shop.landAcres, 2.5);
+  assert.equal(shop.clearHeightFt, 24);
+  assert.equal(shop.lat, 53.548912);
+  assert.equal(shop.brochureUrl, 'https://buildout.com/website_assets/481204/lease-brochure.pdf');
+  assert.equal(shop.rawPayload.leaseRatePsf, 13.5);
+  assert.equal(shop.totalPrice, null);
+});
+
+test('parseNaiInventory maps sale land and under-contract status', () => {
+  const land = parseNaiInventory(fixture)[1];
+
+  assert.equal(land.listingType, 'sale');
+  assert.equal(land.assetType, 'land');
+  assert.equal(land.status, 'pending');
+  assert.equal(land.market, 'Nisku');
+  assert.equal(land.totalPrice, 1850000);
+  assert.equal(land.pricePerAcre, 370000);
+  assert.equal(land.landAcres, 5);
+  assert.equal(land.lng, -113.52541);
+  assert.equal(land.brochureUrl, 'https://buildout.com/website_assets/479911/sale-brochure.pdf');
+});
@@ -0,0 +1,148 @@
+import type { SourceListingRecord } from '../types';
+import {
+  cleanText,
+  coordinateOrNull,
+  fetchSourceJson,
+  inferAssetType,
+  inferCity,
+  inferStatus,
+  isIndustrial,
+  parseAvailableSf,
+  parseClearHeightFt,
+  parseLandAcres,
+  parseLeaseRatePsf,
+  parseNumber,
+  withCity,
+} from './shared';
+
+// NAI Commercial Edmonton publishes inventory through its Buildout plugin,
+// which serves the full brokerage inventory as paged JSON.
+const INVENTORY_URL = 'https://buildout.com/plugins/naiedmonton/naiedmonton.com/inventory';
+const PAGE_SIZE = 100;
+const MAX_PAGES = 10;
+
+export type NaiBuildoutProperty = {
+  id: number;
+  name?: string | null;
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  latitude?: number | string | null;
+  longitude?: number | string | null;
+  property_type_label?: string | null;
+  property_sub_type_name?: string | null;
+  sale?: boolean | null;
+  lease?: boolean | null;
+  sublease?: boolean | null;
+  status?: string | null;
+  sale_price_dollars?: number | string | null;
+  price_per_acre?: number | string | null;
+  lease_rate?: string | null;
+  building_size_sf?: number | string | null;
+  available_sf?: number | string | null;
+  min_divisible_sf?: number | string | null;
+  lot_size_acres?: number | string | null;
+  clear_height?: string | null;
+  description?: string | null;
+  show_link?: string | null;
+  sale_pdf_url?: string | null;
+  lease_pdf_url?: string | null;
+  updated_at?: string | null;
+};
+
+export type NaiBuildoutInventoryPage = {
+  inventory?: NaiBuildoutProperty[];
+  total_count?: number;
+};
+
+function listingTypeFor(property: NaiBuildoutProperty): string {
+  if (property.sublease) return 'sublease';
+  if (property.sale && !property.lease) return 'sale';
+  return 'lease';
+}
+
+function statusFor(property: NaiBuildoutProperty, title: string, description: string): string {
+  const status = String(property.status || '').trim().toLowerCase().replace(/\s+/g, '_');
+  if (status === 'under_contract' || status === 'pending') return 'pending';
+  if (status === 'sold' || status === 'leased') return status;
+  return inferStatus(title, description);
+}
+
+export function parseNaiInventory(page: NaiBuildoutInventoryPage): SourceListingRecord[] {
+  const records: SourceListingRecord[] = [];
+
+  for (const property of page.inventory || []) {
+    const title = cleanText(property.name);
+    const description = cleanText(property.description);
+    const typeLabel = [property.property_type_label, property.property_sub_type_name].filter(Boolean).join(' ');
+    const isIndustrialType = /industrial|warehouse|flex|land/i.test(typeLabel);
+    if (!isIndustrialType && !isIndustrial(title, description)) continue;
+
+    const city = cleanText(property.city) || inferCity(title, property.address, description);
+    const address = withCity(property.address, city);
+    const listingType = listingTypeFor(property);
+    const assetType = /land/i.test(typeLabel) ? 'land' : inferAssetType(title, `${typeLabel} ${description}`);
+    const status = statusFor(property, title, description);
+    const availableSf =
+      parseNumber(property.available_sf) ?? parseNumber(property.building_size_sf) ?? parseAvailableSf(description);
+    const landAcres = parseNumber(property.lot_size_acres) ?? (assetType === 'land' ? parseLandAcres(description) : null);
+    const leaseRatePsf = parseLeaseRatePsf(property.lease_rate || '') ?? parseLeaseRatePsf(description);
+    const clearHeightFt = parseClearHeightFt(`clear height ${property.clear_height || ''}`) ?? parseClearHeightFt(description);
+    const brochureUrl = (listingType === 'sale' ? property.sale_pdf_url : property.lease_pdf_url) || property.sale_pdf_url || property.lease_pdf_url || null;
+
+    records.push({
+      sourceRecordKey: `buildout:${property.id}`,
+      externalId: String(property.id),
+      status,
+      listingType,
+      assetType,
+      title: title || address || `NAI listing ${property.id}`,
+      address,
+      market: city,
+      submarket: city,
+      lat: coordinateOrNull(property.latitude),
+      lng: coordinateOrNull(property.longitude),
+      availableSf,
+      landAcres,
+      totalPrice: listingType === 'sale' ? parseNumber(property.sale_price_dollars) : null,
+      pricePerAcre: parseNumber(property.price_per_acre),
+      minDivisibleSf: parseNumber(property.min_divisible_sf),
+      clearHeightFt,
+      brochureUrl,
+      sourceUrl: property.show_link || null,
+      rawPayload: {
+        discovery: 'buildout_inventory',
+        buildoutId: property.id,
+        updatedAt: property.updated_at ?? null,
+        title,
+        description,
+        address,
+        city,
+        propertyType: typeLabel || null,
+        availableSf,
+        landAcres,
+        leaseRatePsf,
+        clearHeightFt,
+        listingType,
+        assetType,
+        status,
+      },
+    });
+  }
+
+  return records;
+}
+
+export async function runNaiEdmontonSource(): Promise<SourceListingRecord[]> {
+  const byKey = new Map<string, SourceListingRecord>();
+
+  for (let page = 1; page <= MAX_PAGES; page += 1) {
+    const payload = await fetchSourceJson<NaiBuildoutInventoryPage>(`${INVENTORY_URL}?page=${page}&per_page=${PAGE_SIZE}`);
+    for (const record of parseNaiInventory(payload)) {
+      byKey.set(record.sourceRecordKey, record);
+    }
+    if ((payload.inventory?.length || 0) < PAGE_SIZE) break;
+  }
+
+  return Array.from(byKey.values());
+}
@@ -0,0 +1,283 @@
+// Parsing and fetch helpers shared by the broker-site adapters. Each adapter
+// owns its discovery and page shape; these helpers only normalize the text and
+// numbers those pages publish.
+
+export const USER_AGENT = 'Mozilla/5.0 (compatible; VialIndustrialIntel/1.0)';
+const TIMEOUT_MS = 30000;
+
+export const CITY_LABELS = [
+  'Fort Saskatchewan',
+  'Sherwood Park',
+  'Strathcona County',
+  'Sturgeon County',
+  'Leduc County',
+  'Parkland County',
+  'Grande Prairie',
+  'Fort McMurray',
+  'Spruce Grove',
+  'Stony Plain',
+  'St. Albert',
+  'Red Deer',
+  'Edmonton',
+  'Acheson',
+  'Nisku',
+  'Leduc',
+  'Edson',
+  'Barrhead',
+  'Morinville',
+  'Bonnyville',
+  'Warburg',
+  'High Prairie',
+  'Cold Lake',
+  'Camrose',
+  'Lloydminster',
+] as const;
+
+async function fetchWithTimeout(url: string, accept: string): Promise<Response> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': USER_AGENT, Accept: accept },
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} for ${url}`);
+    }
+    return response;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export async function fetchSourceJson<T>(url: string): Promise<T> {
+  const response = await fetchWithTimeout(url, 'application/json');
+  return (await response.json()) as T;
+}
+
+export async function fetchSourceText(url: string): Promise<string> {
+  const response = await fetchWithTimeout(url, 'text/html,application/xhtml+xml');
+  return response.text();
+}
+
+export function decodeHtml(text?: string | null): string {
+  if (!text) return '';
+  return text
+    .replace(/&#(\d+);/g, (_match, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_match, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, '&')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&rsquo;/g, "'")
+    .replace(/&lsquo;/g, "'")
+    .replace(/&rdquo;/g, '"')
+    .replace(/&ldquo;/g, '"')
+    .replace(/&ndash;/g, '-')
+    .replace(/&mdash;/g, '-');
+}
+
+export function cleanText(text?: string | null): string {
+  return decodeHtml(text)
+    .replace(/<script[\s\S]*?<\/script>/gi, ' ')
+    .replace(/<style[\s\S]*?<\/style>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function parseNumber(value?: string | number | null): number | null {
+  if (value == null || value === '') return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const num = Number(value.replace(/[$,\s]/g, ''));
+  return Number.isFinite(num) ? num : null;
+}
+
+export function parseAvailableSf(text: string): number | null {
+  const patterns = [
+    /available(?:\s+size|\s+sf|\s+\(sf\))?\s*[:\-]?\s*([0-9][0-9,]*)\s*(?:sf|sq\.?\s*ft)/i,
+    /building(?:\s+size|\s+total)?\s*[:\-]?\s*([0-9][0-9,]*)\s*(?:sf|sq\.?\s*ft)/i,
+    /features\s+([0-9][0-9,]*)\s*(?:sf|sq\.?\s*ft)/i,
+    /([0-9][0-9,]*)\s*(?:sf|sq\.?\s*ft)/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    const parsed = parseNumber(match?.[1]);
+    if (parsed) return parsed;
+  }
+  return null;
+}
+
+export function parseLandAcres(text: string): number | null {
+  const patterns = [
+    /land\s+size\s*\(?acres?\)?\s*[:\-]?\s*([0-9]+(?:\.[0-9]+)?)/i,
+    /site\s+size\s*[:\-]?\s*([0-9]+(?:\.[0-9]+)?)\s*acres?/i,
+    /on\s+([0-9]+(?:\.[0-9]+)?)\s*acres?/i,
+    /([0-9]+(?:\.[0-9]+)?)\s*acres?/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    const parsed = parseNumber(match?.[1]);
+    if (parsed) return parsed;
+  }
+  return null;
+}
+
+export function parseCurrency(text: string): number | null {
+  const patterns = [
+    /price\s*[:\-]?\s*\$\s*([0-9][0-9,]*(?:\.[0-9]{1,2})?)/i,
+    /sale\s+price\s*[:\-]?\s*\$\s*([0-9][0-9,]*(?:\.[0-9]{1,2})?)/i,
+    /\$\s*([0-9][0-9,]{4,}(?:\.[0-9]{1,2})?)/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    const parsed = parseNumber(match?.[1]);
+    if (parsed) return parsed;
+  }
+  return null;
+}
+
+export function parsePricePerAcre(text: string): number | null {
+  const match = text.match(/\$\s*([0-9][0-9,]*(?:\.[0-9]{1,2})?)\s*(?:\/|per\s+)acre/i);
+  return parseNumber(match?.[1]);
+}
+
+export function parseLeaseRatePsf(text: string): number | null {
+  const match = text.match(
+    /\$\s*([0-9]{1,3}(?:\.[0-9]{1,2})?)\s*(?:\/\s*sf|\/\s*sq\.?\s*ft|psf|per\s+sq\.?\s*ft|per\s+square\s+foot|sf\/yr|\/\s*sf\s*\/\s*yr)/i,
+  );
+  return parseNumber(match?.[1]);
+}
+
+export function parseClearHeightFt(text: string): number | null {
+  const patterns = [
+    /clear(?:\s+ceiling)?\s+height\s*[:\-]?\s*([0-9]{1,2}(?:\.[0-9]+)?)\s*(?:'|ft|feet|’)/i,
+    /([0-9]{1,2}(?:\.[0-9]+)?)\s*(?:'|ft|feet|’)\s*clear/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    const parsed = parseNumber(match?.[1]);
+    if (parsed) return parsed;
+  }
+  return null;
+}
+
+export function inferCity(...parts: Array<string | null | undefined>): string | null {
+  const combined = parts.filter(Boolean).join(' ').toLowerCase();
+  for (const label of CITY_LABELS) {
+    if (combined.includes(label.toLowerCase())) return label;
+  }
+  return null;
+}
+
+export function inferListingType(title: string, description: string): string {
+  const combined = `${title} ${description}`.toLowerCase();
+  if (combined.includes('sublease') || combined.includes('sub-lease')) return 'sublease';
+  if (combined.includes('lease') && combined.includes('sale')) return 'sale';
+  if (combined.includes('sale')) return 'sale';
+  return 'lease';
+}
+
+export function inferStatus(title: string, description: string): string {
+  const combined = `${title} ${description}`.toLowerCase();
+  if (combined.includes('leased')) return 'leased';
+  if (combined.includes('sold')) return 'sold';
+  if (combined.includes('pending')) return 'pending';
+  return 'active';
+}
+
+export function inferAssetType(title: string, description: string): string {
+  const combined = `${title} ${description}`.toLowerCase();
+  if (combined.includes('industrial land') || combined.includes('development land') || combined.includes('land for')) {
+    return 'land';
+  }
+  if (/\b(building|warehouse|bay|bays|shop|office)\b/.test(combined)) return 'building';
+  if (combined.includes('yard') && !combined.includes('building')) return 'yard';
+  return 'building';
+}
+
+export function isIndustrial(title: string, description: string): boolean {
+  const normalizedTitle = title.toLowerCase();
+  const combined = `${title} ${description}`.toLowerCase();
+  const titleHasIndustrialSignal = [
+    /\bindustrial\b/,
+    /\bwarehouse\b/,
+    /\boffice\s*\/\s*warehouse\b/,
+    /\bshop\b/,
+    /\byard\b/,
+    /\bmanufacturing\b/,
+    /\bdistribution\b/,
+    /\blogistics\b/,
+  ].some((pattern) => pattern.test(normalizedTitle));
+  const hasSecondarySignal = [/\bfacility\b/, /\bbay\b/, /\bbays\b/, /\bflex\b/, /\bfreestanding\b/].some((pattern) =>
+    pattern.test(normalizedTitle),
+  );
+  const descriptionHasIndustrialSignal = [
+    /\bindustrial\b/,
+    /\bwarehouse\b/,
+    /\bshop\b/,
+    /\byard\b/,
+    /\bmanufacturing\b/,
+    /\bdistribution\b/,
+  ].some((pattern) => pattern.test(combined));
+  const hasNonIndustrialTitleSignal = [
+    /\bretail\b/,
+    /\bmedical\b/,
+    /\brestaurant\b/,
+    /\bmultifamily\b/,
+    /\bmulti-family\b/,
+    /\bresidential\b/,
+    /\bapartment\b/,
+    /\bhotel\b/,
+    /\bmotel\b/,
+    /\bdaycare\b/,
+  ].some((pattern) => pattern.test(normalizedTitle));
+  const isOfficeOnlyTitle =
+    /\boffice\s+(?:space|condo|building|tower)\b/.test(normalizedTitle) &&
+    !/\b(warehouse|shop|bay|bays)\b/.test(normalizedTitle);
+
+  if (hasNonIndustrialTitleSignal && !titleHasIndustrialSignal) return false;
+  if (hasNonIndustrialTitleSignal || isOfficeOnlyTitle) return false;
+  return titleHasIndustrialSignal || (hasSecondarySignal && descriptionHasIndustrialSignal);
+}
+
+export function inferAddress(title: string, description: string, city: string | null): string | null {
+  const streetPattern =
+    /\b([0-9][0-9A-Za-z /-]*\s+(?:Street|St\.?|Avenue|Ave\.?|Road|Rd\.?|Drive|Dr\.?|Trail|Way|Crescent|Cres\.?|Boulevard|Blvd\.?|Close|Place|Lane|Range Road|RGE RD)(?:\s+(?:NW|NE|SW|SE|N|S|E|W))?)\b/i;
+  const explicitAddress =
+    title.match(streetPattern)?.[1] ||
+    description.match(/\bat\s+([0-9][A-Za-z0-9 .#'&/-]+?)\s+in\s+[A-Z][A-Za-z .'-]+/i)?.[1] ||
+    description.match(streetPattern)?.[1];
+
+  if (explicitAddress) {
+    return withCity(cleanText(explicitAddress).replace(/[,.]$/, ''), city);
+  }
+
+  return null;
+}
+
+// Appends the city to a street line when the source keeps them in separate
+// fields, so normalized addresses line up with geocoded and manual rows.
+export function withCity(street: string | null | undefined, city: string | null): string | null {
+  const cleaned = cleanText(street).replace(/[,.]$/, '');
+  if (!cleaned || cleaned.length > 80) return null;
+  return city && !cleaned.toLowerCase().includes(city.toLowerCase()) ? `${cleaned}, ${city}, AB` : cleaned;
+}
+
+export function absoluteUrl(href: string | null | undefined, baseUrl: string): string | null {
+  if (!href) return null;
+  try {
+    return new URL(decodeHtml(href), baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+export function coordinateOrNull(value: unknown): number | null {
+  const parsed = parseNumber(typeof value === 'number' || typeof value === 'string' ? value : null);
+  return parsed != null && parsed !== 0 ? parsed : null;
+}
@@ -5,6 +5,7 @@ export type IntelSourceAdapterSlug =
   | 'jll'
   | 'cbre'
   | 'colliers'
+  | 'mapped_feed'
   | 'manual_url'
   | 'manual_upload';
 
@@ -32,12 +33,26 @@ export type NormalizedIntelListingRecord = {
   contentHash: string;
 };
 
+// Shape returned by individual source adapters; `ensureContentHash` derives the
+// hash before the records reach `applyNormalizedRecords`.
+export type SourceListingRecord = Omit<NormalizedIntelListingRecord, 'contentHash'>;
+
+export type IntelFeedKind = 'csv_url' | 'json_url';
+
+// Row-level settings for `mapped_feed` sources, read from `intel_sources`.
+export type IntelFeedSourceConfig = {
+  kind: IntelFeedKind;
+  feedUrl: string;
+  fieldMapping: unknown;
+};
+
 export type IntelSourceRunContext = {
   sourceId: string;
   sourceSlug: IntelSourceAdapterSlug;
   triggerType?: string;
   initiatedByUserId?: string | null;
   preserveMissing?: boolean;
+  feed?: IntelFeedSourceConfig;
 };
 
 export type IntelSourceRunResult = {
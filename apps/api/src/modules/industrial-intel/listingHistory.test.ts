@@ -0,0 +1,63 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { summarizeListingHistory, type IntelListingObservationPoint } from "./listingHistory";
+
+function point(
+  observedAt: string,
+  observationType: IntelListingObservationPoint["observationType"],
+  values: Partial<IntelListingObservationPoint> = {},
+): IntelListingObservationPoint {
+  return {
+    observedAt,
+    observationType,
+    triggerType: "scheduled",
+    status: "active",
+    availableSf: 32000,
+    totalPrice: null,
+    pricePerAcre: null,
+    leaseRatePsf: 10.5,
+    ...values,
+  };
+}
+
+test("summarizeListingHistory skips off-market gaps and counts re-listings", () => {
+  const summary = summarizeListingHistory({
+    firstSeenAt: "2026-06-01T00:00:00Z",
+    removedAt: null,
+    now: new Date("2026-08-10T00:00:00Z"),
+    observations: [
+      point("2026-06-01T00:00:00Z", "new"),
+      point("2026-06-21T00:00:00Z", "removed"),
+      point("2026-07-21T00:00:00Z", "reactivated"),
+    ],
+  });
+
+  assert.equal(summary.daysOnMarket, 40);
+  assert.equal(summary.relistings, 1);
+  assert.equal(summary.lastChangedAt, "2026-07-21T00:00:00Z");
+});
+
+test("summarizeListingHistory reports asking-rate cuts and increases in order", () => {
+  const summary = summarizeListingHistory({
+    firstSeenAt: "2026-06-01T00:00:00Z",
+    removedAt: "2026-09-01T00:00:00Z",
+    now: new Date("2026-10-01T00:00:00Z"),
+    observations: [
+      point("2026-06-01T00:00:00Z", "baseline"),
+      point("2026-07-01T00:00:00Z", "updated", { leaseRatePsf: 9.75 }),
+      point("2026-07-15T00:00:00Z", "updated", { leaseRatePsf: 9.75, availableSf: 28000 }),
+      point("2026-08-01T00:00:00Z", "updated", { leaseRatePsf: 10 }),
+    ],
+  });
+
+  assert.equal(summary.askingField, "leaseRatePsf");
+  assert.equal(summary.daysOnMarket, 92);
+  assert.deepEqual(summary.priceCuts, [
+    { observedAt: "2026-07-01T00:00:00Z", field: "leaseRatePsf", before: 10.5, after: 9.75, percentChange: -7.1 },
+  ]);
+  assert.deepEqual(
+    summary.priceIncreases.map((move) => [move.before, move.after]),
+    [[9.75, 10]],
+  );
+});
@@ -0,0 +1,124 @@
+export type IntelListingObservationType = "baseline" | "new" | "updated" | "reactivated" | "removed";
+
+export type IntelListingObservationPoint = {
+  observedAt: string;
+  observationType: IntelListingObservationType;
+  triggerType: string | null;
+  status: string | null;
+  availableSf: number | null;
+  totalPrice: number | null;
+  pricePerAcre: number | null;
+  leaseRatePsf: number | null;
+};
+
+export type IntelAskingPriceField = "leaseRatePsf" | "totalPrice" | "pricePerAcre";
+
+export type IntelAskingPriceMove = {
+  observedAt: string;
+  field: IntelAskingPriceField;
+  before: number;
+  after: number;
+  percentChange: number;
+};
+
+export type IntelListingHistorySummary = {
+  daysOnMarket: number;
+  relistings: number;
+  askingField: IntelAskingPriceField | null;
+  priceCuts: IntelAskingPriceMove[];
+  priceIncreases: IntelAskingPriceMove[];
+  lastChangedAt: string | null;
+};
+
+export type IntelListingHistory = {
+  listingId: string;
+  title: string;
+  firstSeenAt: string | null;
+  removedAt: string | null;
+  observations: IntelListingObservationPoint[];
+  summary: IntelListingHistorySummary;
+};
+
+// Lease rate wins when a listing carries more than one price; it is what
+// tenants compare on.
+const ASKING_PRICE_FIELDS: IntelAskingPriceField[] = ["leaseRatePsf", "totalPrice", "pricePerAcre"];
+const DAY_MS = 24 * 60 * 60_000;
+
+function timeOf(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isFinite(time) ? time : null;
+}
+
+/**
+ * Observations must be sorted oldest first. Days on market only counts the
+ * stretches a listing was live, so a listing pulled for a month and re-listed
+ * does not accrue that month.
+ */
+export function summarizeListingHistory(input: {
+  firstSeenAt: string | null;
+  removedAt: string | null;
+  observations: IntelListingObservationPoint[];
+  now?: Date;
+}): IntelListingHistorySummary {
+  const now = (input.now ?? new Date()).getTime();
+  const { observations } = input;
+
+  let onMarketSince = timeOf(input.firstSeenAt) ?? timeOf(observations[0]?.observedAt);
+  let onMarketMs = 0;
+  let relistings = 0;
+
+  for (const observation of observations) {
+    const observedAt = timeOf(observation.observedAt);
+    if (observedAt == null) continue;
+    if (observation.observationType === "removed" && onMarketSince != null) {
+      onMarketMs += Math.max(0, observedAt - onMarketSince);
+      onMarketSince = null;
+    } else if (observation.observationType === "reactivated") {
+      relistings += 1;
+      onMarketSince = observedAt;
+    }
+  }
+
+  if (onMarketSince != null) {
+    // Listings removed before observations were recorded have no `removed` point.
+    const end = timeOf(input.removedAt) ?? now;
+    onMarketMs += Math.max(0, end - onMarketSince);
+  }
+
+  const askingField = ASKING_PRICE_FIELDS.find((field) => observations.some((point) => point[field] != null)) ?? null;
+  const priceCuts: IntelAskingPriceMove[] = [];
+  const priceIncreases: IntelAskingPriceMove[] = [];
+
+  for (const field of ASKING_PRICE_FIELDS) {
+    let previous: number | null = null;
+    for (const observation of observations) {
+      const value = observation[field];
+      if (value == null) continue;
+      if (previous != null && Math.abs(value - previous) >= 0.005) {
+        const move = {
+          observedAt: observation.observedAt,
+          field,
+          before: previous,
+          after: value,
+          percentChange: previous ? Math.round(((value - previous) / previous) * 1000) / 10 : 0,
+        };
+        (value < previous ? priceCuts : priceIncreases).push(move);
+      }
+      previous = value;
+    }
+  }
+
+  const byTime = (left: IntelAskingPriceMove, right: IntelAskingPriceMove) =>
+    (timeOf(left.observedAt) ?? 0) - (timeOf(right.observedAt) ?? 0);
+  const changed = observations.filter((point) => point.observationType !== "baseline" && point.observationType !== "new");
+
+  return {
+    daysOnMarket: Math.floor(onMarketMs / DAY_MS),
+    relistings,
+    askingField,
+    priceCuts: priceCuts.sort(byTime),
+    priceIncreases: priceIncreases.sort(byTime),
+    lastChangedAt: changed.length ? changed[changed.length - 1].observedAt : null,
+  };
+}
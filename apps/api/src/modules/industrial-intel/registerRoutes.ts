@@ -1,10 +1,23 @@
-import type { Express, Request } from "express";
+import type { Express, Request, Response } from "express";
 import { randomBytes, randomUUID } from "crypto";
 import { z } from "zod";
 import { getUserId, requireAuth, requireBrokerAuth, requireMarketRecordProposalAuth } from "../../auth";
 import { ensureUser } from "../../ensureUser";
 import { industrialIntelAgentManifest } from "./agentManifest";
 import { industrialIntelService } from "./service";
+import { IntelFeedMappingError } from "./ingest/sources/feed";
+import { INTEL_CHANGE_SIGNALS, INTEL_DIFF_FIELDS, type IntelChangeSignal } from "./ingest/listingDiff";
+import { SURVEY_CLIENT_RESPONSES } from "./surveyClientFeedback";
+import { surveyPdfFileName } from "./surveyPdf";
+import { surveyTourIcsFileName } from "./surveyTour";
+import {
+  readShareAccessGrant,
+  shareFeedbackLimiter,
+  shareUnlockThrottle,
+  shareViewLimiter,
+  type ShareWriteLimiter,
+} from "../../lib/shareLinkAccess";
+import { LEASE_ESCALATION_KINDS, REQUIREMENT_PREFERENCE_COMPARATORS } from "@level-cre/shared";
 import { pool } from "../../db";
 import {
   MarketRecordProposalInputSchema,
@@ -61,6 +74,27 @@ import {
   PursuitHistoryBackfillPlanQuerySchema,
 } from "../../lib/pursuitHistoryBackfillService";
 import { getCaptureHealth } from "../../lib/captureHealthService";
+import {
+  DossierOwnershipError,
+  getDossierOwnershipHistory,
+  refreshDossierOwnership,
+} from "../../lib/dossierOwnershipService";
+
+const lngLatSchema = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]);
+
+const intelRequirementSearchAreaSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("polygon"),
+    label: z.string().trim().max(120).nullable().optional(),
+    coordinates: z.array(z.array(lngLatSchema).min(4)).min(1),
+  }),
+  z.object({
+    kind: z.literal("radius"),
+    label: z.string().trim().max(120).nullable().optional(),
+    center: lngLatSchema,
+    radiusKm: z.number().positive().max(250),
+  }),
+]);
 
 const intelRequirementSchema = z.object({
   title: z.string().trim().min(1),
@@ -81,13 +115,15 @@ const intelRequirementSchema = z.object({
   timingNotes: z.string().trim().nullable().optional(),
   specialNotes: z.string().trim().nullable().optional(),
   isOffMarketSearchEnabled: z.boolean().nullable().optional(),
+  searchAreas: z.array(intelRequirementSearchAreaSchema).max(10).nullable().optional(),
 });
 
 const intelRequirementUpdateSchema = intelRequirementSchema.partial();
 
 const intelRequirementPreferenceSchema = z.object({
   key: z.string().trim().min(1),
-  operator: z.string().trim().min(1).nullable().optional(),
+  operator: z.enum(["required", "preferred", "avoid", "note"]).nullable().optional(),
+  comparator: z.enum(REQUIREMENT_PREFERENCE_COMPARATORS).nullable().optional(),
   valueText: z.string().trim().nullable().optional(),
   valueNumber: z.number().nullable().optional(),
   valueBoolean: z.boolean().nullable().optional(),
@@ -130,6 +166,61 @@ const intelManualUploadSchema = z.object({
   records: z.array(intelManualUploadListingSchema).min(1).max(500),
 });
 
+const intelFeedFieldRuleSchema = z.union([
+  z.string().trim().min(1),
+  z.object({
+    source: z.string().trim().min(1),
+    unit: z.string().trim().min(1).nullable().optional(),
+  }),
+]);
+
+const intelFeedFieldMappingSchema = z
+  .object({
+    recordsPath: z.string().trim().min(1).nullable().optional(),
+    recordKey: z.union([z.string().trim().min(1), z.array(z.string().trim().min(1)).min(1)]).nullable().optional(),
+  })
+  .catchall(intelFeedFieldRuleSchema.nullable());
+
+const intelFeedSourceSchema = z.object({
+  name: z.string().trim().min(1),
+  kind: z.enum(["csv_url", "json_url"]),
+  feedUrl: z.string().trim().url(),
+  fieldMapping: intelFeedFieldMappingSchema,
+  isActive: z.boolean().nullable().optional(),
+});
+
+const intelFeedSourceUpdateSchema = intelFeedSourceSchema.partial();
+
+const intelSourceScheduleSchema = z.object({
+  // Hourly at most, weekly at least; null leaves the source to manual runs.
+  scheduleIntervalMinutes: z.number().int().min(60).max(7 * 24 * 60).nullable(),
+});
+
+const intelFeedPreviewSchema = intelFeedSourceSchema.pick({ kind: true, feedUrl: true, fieldMapping: true });
+
+const intelChangeSignalSchema = z.enum(Object.keys(INTEL_CHANGE_SIGNALS) as [IntelChangeSignal, ...IntelChangeSignal[]]);
+
+const intelChangesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(250).optional(),
+  days: z.coerce.number().int().min(1).max(365).optional(),
+  changeType: z.enum(["new", "updated", "removed", "reactivated"]).optional(),
+  signal: intelChangeSignalSchema.optional(),
+  field: z.enum(INTEL_DIFF_FIELDS).optional(),
+  direction: z.enum(["increase", "decrease", "added", "removed", "changed"]).optional(),
+  listingId: z.string().trim().min(1).optional(),
+});
+
+const intelRequirementAlertsQuerySchema = z.object({
+  requirementId: z.string().trim().min(1).optional(),
+  unread: z.enum(["true", "false"]).optional(),
+  limit: z.coerce.number().int().min(1).max(250).optional(),
+});
+
+const intelRequirementAlertsReadSchema = z.object({
+  requirementId: z.string().trim().min(1).nullable().optional(),
+  alertIds: z.array(z.string().trim().min(1)).max(250).nullable().optional(),
+});
+
 const intelManualListingPreviewSchema = z.object({
   sourceUrl: z.string().trim().url(),
 });
@@ -156,6 +247,27 @@ const intelSurveyUpdateSchema = intelSurveySchema.partial().extend({
   shareToken: z.string().trim().min(1).nullable().optional(),
 });
 
+const intelLeaseTermsSchema = z.object({
+  termMonths: z.number().int().positive().max(600).nullable().optional(),
+  areaSf: z.number().positive().nullable().optional(),
+  baseRatePsf: z.number().nonnegative().nullable().optional(),
+  escalation: z.object({
+    kind: z.enum(LEASE_ESCALATION_KINDS),
+    amount: z.number(),
+    everyMonths: z.number().int().positive().nullable().optional(),
+  }).nullable().optional(),
+  rentSteps: z.array(z.object({
+    fromMonth: z.number().int().positive(),
+    ratePsf: z.number().nonnegative(),
+  })).max(60).nullable().optional(),
+  freeRentMonths: z.number().nonnegative().nullable().optional(),
+  freeRentIncludesAdditionalRent: z.boolean().nullable().optional(),
+  tiAllowancePsf: z.number().nonnegative().nullable().optional(),
+  additionalRentPsf: z.number().nonnegative().nullable().optional(),
+  commissionPct: z.number().nonnegative().max(100).nullable().optional(),
+  discountRatePct: z.number().nonnegative().max(100).nullable().optional(),
+});
+
 const intelSurveyItemSchema = z.object({
   listingId: z.string().trim().min(1),
   sortOrder: z.number().int().nonnegative().nullable().optional(),
@@ -163,10 +275,53 @@ const intelSurveyItemSchema = z.object({
   brokerNotes: z.string().trim().nullable().optional(),
   clientNotes: z.string().trim().nullable().optional(),
   hidden: z.boolean().nullable().optional(),
+  leaseTerms: intelLeaseTermsSchema.nullable().optional(),
 });
 
 const intelSurveyItemUpdateSchema = intelSurveyItemSchema.omit({ listingId: true }).partial();
 
+const intelSurveyClientFeedbackSchema = z
+  .object({
+    itemId: z.string().trim().min(1),
+    response: z.enum(SURVEY_CLIENT_RESPONSES).nullable().optional(),
+    comment: z.string().trim().max(2000).nullable().optional(),
+    authorName: z.string().trim().max(120).nullable().optional(),
+  })
+  .refine((value) => value.response !== undefined || Boolean(value.comment), {
+    message: "Send a response or a comment",
+  });
+
+const intelSurveyComparisonSchema = z.object({
+  clientFactKeys: z.array(z.string().trim().min(1).max(120)).max(100).nullable(),
+});
+
+const intelSurveyTourSchema = z.object({
+  itemIds: z.array(z.string().trim().min(1)).min(1).max(25),
+  startLabel: z.string().trim().max(300).nullable().optional(),
+  startLatitude: z.number().min(-90).max(90),
+  startLongitude: z.number().min(-180).max(180),
+  startAt: z.string().datetime({ offset: true }),
+  minutesPerStop: z.number().int().min(5).max(240),
+  optimize: z.boolean().optional(),
+});
+
+const intelSurveyTourNotesSchema = z.object({
+  notes: z.string().max(5000).nullable(),
+});
+
+const intelSurveyShareUnlockSchema = z.object({
+  passcode: z.string().min(1).max(200),
+});
+
+const intelSurveyShareViewSchema = z.object({
+  itemId: z.string().trim().min(1).nullable().optional(),
+});
+
+const intelSurveyShareSettingsSchema = z.object({
+  expiresAt: z.string().datetime({ offset: true }).nullable().optional(),
+  passcode: z.string().trim().min(4).max(200).nullable().optional(),
+});
+
 const intelSurveyItemReorderSchema = z.object({
   orderedItemIds: z.array(z.string().trim().min(1)).min(1).max(250),
 });
@@ -296,6 +451,42 @@ function getSurveyShareBlockingReasons(survey: SurveyShareReadinessSurvey, asset
   return Array.from(missing).map((reason) => `Missing ${reason}.`);
 }
 
+// Every public survey route goes through this first. It answers 404, 410 or
+// 401 itself and hands back the token only when the link may be read.
+async function sharedSurveyToken(req: Request, res: Response): Promise<string | null> {
+  const token = String(req.params.token || "").trim();
+  if (!token) {
+    res.status(400).json({ message: "Missing survey share token" });
+    return null;
+  }
+  const access = await industrialIntelService.getSharedSurveyAccess(
+    token,
+    readShareAccessGrant(req.headers["x-share-access"], req.query.access),
+  );
+  if (!access) {
+    res.status(404).json({ message: "Industrial intel shared survey not found" });
+    return null;
+  }
+  if (access === "expired") {
+    res.status(410).json({ message: "This survey link has expired", reason: "expired" });
+    return null;
+  }
+  if (access === "passcode_required") {
+    res.status(401).json({ message: "Enter the passcode to view this survey", reason: "passcode_required" });
+    return null;
+  }
+  return token;
+}
+
+// Public writes are budgeted before they reach the database.
+function allowSharedSurveyWrite(limiter: ShareWriteLimiter, req: Request, res: Response): boolean {
+  const retryAfter = limiter.take({ token: String(req.params.token || "").trim(), ip: req.ip || null });
+  if (retryAfter === 0) return true;
+  res.setHeader("Retry-After", String(retryAfter));
+  res.status(429).json({ message: "Too many requests for this survey. Try again later.", reason: "rate_limited", retryAfterSeconds: retryAfter });
+  return false;
+}
+
 async function ensureIntelActor(req: Request) {
   if (req.headers["x-demo-mode"] === "true") return;
   await ensureUser(getUserId(req), (req as any)?.user?.email || null);
@@ -401,6 +592,80 @@ export function registerIndustrialIntelRoutes(app: Express): void {
     }
   });
 
+  app.post("/api/intel/sources", requireAuth, async (req, res) => {
+    try {
+      const parsed = intelFeedSourceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid industrial intel feed source", issues: parsed.error.flatten() });
+      }
+      const source = await industrialIntelService.createFeedSource(parsed.data);
+      res.status(201).json(source);
+    } catch (error) {
+      if (error instanceof IntelFeedMappingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating industrial intel feed source:", error);
+      res.status(500).json({ message: "Failed to create industrial intel feed source" });
+    }
+  });
+
+  app.patch("/api/intel/sources/:id", requireAuth, async (req, res) => {
+    try {
+      const parsed = intelFeedSourceUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid industrial intel feed source", issues: parsed.error.flatten() });
+      }
+      const source = await industrialIntelService.updateFeedSource(req.params.id, parsed.data);
+      if (!source) {
+        return res.status(404).json({ message: "Feed source not found" });
+      }
+      res.json(source);
+    } catch (error) {
+      if (error instanceof IntelFeedMappingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error updating industrial intel feed source:", error);
+      res.status(500).json({ message: "Failed to update industrial intel feed source" });
+    }
+  });
+
+  app.patch("/api/intel/sources/:id/schedule", requireAuth, async (req, res) => {
+    try {
+      const parsed = intelSourceScheduleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid industrial intel source schedule", issues: parsed.error.flatten() });
+      }
+      const source = await industrialIntelService.updateSourceSchedule(req.params.id, parsed.data.scheduleIntervalMinutes);
+      if (!source) {
+        return res.status(404).json({ message: "Source not found" });
+      }
+      res.json(source);
+    } catch (error) {
+      console.error("Error updating industrial intel source schedule:", error);
+      res.status(500).json({ message: "Failed to update industrial intel source schedule" });
+    }
+  });
+
+  app.post("/api/intel/sources/feed-preview", requireAuth, async (req, res) => {
+    try {
+      const parsed = intelFeedPreviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid industrial intel feed preview", issues: parsed.error.flatten() });
+      }
+      const preview = await industrialIntelService.previewFeedSource(parsed.data);
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof IntelFeedMappingError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error previewing industrial intel feed source:", error);
+      res.status(500).json({
+        message: "Failed to preview industrial intel feed source",
+        detail: String((error as Error)?.message || error || "Unknown feed preview failure"),
+      });
+    }
+  });
+
   app.get("/api/intel/runs", requireAuth, async (_req, res) => {
     try {
       const runs = await industrialIntelService.getRuns();
@@ -421,9 +686,17 @@ export function registerIndustrialIntelRoutes(app: Express): void {
     }
   });
 
-  app.get("/api/intel/changes", requireAuth, async (_req, res) => {
+  app.get("/api/intel/changes", requireAuth, async (req, res) => {
     try {
-      const changes = await industrialIntelService.getRecentChanges();
+      const parsed = intelChangesQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid industrial intel change filters", issues: parsed.error.flatten() });
+      }
+      const { limit, days, ...filters } = parsed.data;
+      const changes = await industrialIntelService.getRecentChanges(limit ?? 10, {
+        ...filters,
+        since: days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : null,
+      });
       res.json(changes);
     } catch (error) {
       console.error("Error fetching industrial intel changes:", error);
@@ -583,6 +856,33 @@ export function registerIndustrialIntelRoutes(app: Express): void {
     }
   });
 
+  app.get("/api/intel/dossiers/:id/ownership", requireAuth, async (req, res) => {
+    try {
+      const ownership = await getDossierOwnershipHistory({ pool, userId: getUserId(req), dossierId: req.params.id });
+      res.json(ownership);
+    } catch (error) {
+      if (error instanceof DossierOwnershipError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error fetching industrial intel dossier ownership:", error);
+      res.status(500).json({ message: "Failed to fetch industrial intel dossier ownership" });
+    }
+  });
+
+  app.post("/api/intel/dossiers/:id/ownership/refresh", requireAuth, async (req, res) => {
+    try {
+      await ensureIntelActor(req);
+      const result = await refreshDossierOwnership({ pool, userId: getUserId(req), dossierId: req.params.id });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof DossierOwnershipError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error refreshing industrial intel dossier ownership:", error);
+      res.status(500).json({ message: "Failed to refresh industrial intel dossier ownership" });
+    }
+  });
+
   app.post("/api/intel/listings/duplicates/archive", requireAuth, async (req, res) => {
     try {
       const parsed = intelArchiveDuplicatesSchema.safeParse(req.body);
@@ -598,6 +898,19 @@ export function registerIndustrialIntelRoutes(app: Express): void {
     }
   });
 
+  app.get("/api/intel/listings/:id/history", requireAuth, async (req, res) => {
+    try {
+      const history = await industrialIntelService.getListingHistory(req.params.id);
+      if (!history) {
+        return res.status(404).json({ message: "Industrial intel listing not found" });
+      }
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching industrial intel listing history:", error);
+      res.status(500).json({ message: "Failed to fetch listing history" });
+    }
+  });
+
   app.get("/api/intel/listings/:id/public-links", requireAuth, async (req, res) => {
     try {
       const candidates = await industrialIntelService.getPublicLinkCandidates(req.params.id);
@@ -757,10 +1070,8 @@ export function registerIndustrialIntelRoutes(app: Express): void {
 
   app.get("/api/intel/surveys/share/:token", async (req, res) => {
     try {
-      const token = String(req.params.token || "").trim();
-      if (!token) {
-        return res.status(400).json({ message: "Missing survey share token" });
-      }
+      const token = await sharedSurveyToken(req, res);
+      if (!token) return;
       const survey = await industrialIntelService.getSurveyByShareToken(token);
       if (!survey) {
         return res.status(404).json({ message: "Industrial intel shared survey not found" });
@@ -772,12 +1083,66 @@ export function registerIndustrialIntelRoutes(app: Express): void {
     }
   });
 
-  app.get("/api/intel/surveys/share/:token/assets", async (req, res) => {
+  app.post("/api/intel/surveys/share/:token/unlock", async (req, res) => {
     try {
       const token = String(req.params.token || "").trim();
-      if (!token) {
-        return res.status(400).json({ message: "Missing survey share token" });
+      const parsed = intelSurveyShareUnlockSchema.safeParse(req.body);
+      if (!token || !parsed.success) {
+        return res.status(400).json({ message: "Enter the survey passcode" });
+      }
+      const access = await industrialIntelService.getSharedSurveyAccess(token, null);
+      if (!access) {
+        return res.status(404).json({ message: "Industrial intel shared survey not found" });
+      }
+      if (access === "expired") {
+        return res.status(410).json({ message: "This survey link has expired", reason: "expired" });
+      }
+      if (access === "open") {
+        return res.json({ access: null, expiresAt: null });
       }
+      const attempt = { token, ip: req.ip || null };
+      const retryAfter = shareUnlockThrottle.retryAfterSeconds(attempt);
+      if (retryAfter > 0) {
+        res.setHeader("Retry-After", String(retryAfter));
+        return res.status(429).json({ message: "Too many wrong passcodes. Try again later.", reason: "locked", retryAfterSeconds: retryAfter });
+      }
+      const grant = await industrialIntelService.unlockSharedSurvey(token, parsed.data.passcode);
+      if (!grant) {
+        await industrialIntelService.recordFailedSurveyUnlock(token, shareUnlockThrottle.recordFailure(attempt));
+        return res.status(401).json({ message: "That passcode is not right", reason: "passcode_required" });
+      }
+      shareUnlockThrottle.recordSuccess(attempt);
+      res.json(grant);
+    } catch (error) {
+      console.error("Error unlocking shared industrial intel survey:", error);
+      res.status(500).json({ message: "Failed to unlock survey" });
+    }
+  });
+
+  app.post("/api/intel/surveys/share/:token/views", async (req, res) => {
+    try {
+      if (!allowSharedSurveyWrite(shareViewLimiter, req, res)) return;
+      const token = await sharedSurveyToken(req, res);
+      if (!token) return;
+      const parsed = intelSurveyShareViewSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid survey view", issues: parsed.error.flatten() });
+      }
+      const recorded = await industrialIntelService.recordSharedSurveyView(token, parsed.data.itemId ?? null);
+      if (!recorded) {
+        return res.status(404).json({ message: "Industrial intel shared survey option not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error recording shared industrial intel survey view:", error);
+      res.status(500).json({ message: "Failed to record survey view" });
+    }
+  });
+
+  app.get("/api/intel/surveys/share/:token/assets", async (req, res) => {
+    try {
+      const token = await sharedSurveyToken(req, res);
+      if (!token) return;
       const assets = await industrialIntelService.getSharedSurveyAssets(token);
       res.json(assets);
     } catch (error) {
@@ -786,6 +1151,109 @@ export function registerIndustrialIntelRoutes(app: Express): void {
     }
   });
 
+  app.get("/api/intel/surveys/share/:token/pdf", async (req, res) => {
+    try {
+      const token = await sharedSurveyToken(req, res);
+      if (!token) return;
+      const result = await industrialIntelService.getSharedSurveyPdf(token);
+      if (!result) {
+        return res.status(404).json({ message: "Industrial intel shared survey not found" });
+      }
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${surveyPdfFileName(result.survey.title)}"`);
+      res.send(result.pdf);
+    } catch (error) {
+      console.error("Error rendering shared industrial intel survey PDF:", error);
+      res.status(500).json({ message: "Failed to render survey PDF" });
+    }
+  });
+
+  app.get("/api/intel/surveys/share/:token/comparison", async (req, res) => {
+    try {
+      const token = await sharedSurveyToken(req, res);
+      if (!token) return;
+      const comparison = await industrialIntelService.getSharedSurveyComparison(token);
+      if (!comparison) {
+        return res.status(404).json({ message: "Industrial intel shared survey not found" });
+      }
+      res.json(comparison);
+    } catch (error) {
+      console.error("Error fetching shared industrial intel survey comparison:", error);
+      res.status(500).json({ message: "Failed to fetch survey comparison" });
+    }
+  });
+
+  app.get("/api/intel/surveys/share/:token/tour", async (req, res) => {
+    try {
+      const token = await sharedSurveyToken(req, res);
+      if (!token) return;
+      const shared = await industrialIntelService.getSharedSurveyTour(token);
+      if (!shared) {
+        return res.status(404).json({ message: "No tour has been planned for this survey" });
+      }
+      res.json({
+        survey: {
+          title: shared.survey.title,
+          clientName: shared.survey.clientName,
+          requirementTitle: shared.survey.requirementTitle,
+        },
+        tour: shared.tour,
+      });
+    } catch (error) {
+      console.error("Error fetching shared industrial intel survey tour:", error);
+      res.status(500).json({ message: "Failed to fetch survey tour" });
+    }
+  });
+
+  app.get("/api/intel/surveys/share/:token/tour/ics", async (req, res) => {
+    try {
+      const token = await sharedSurveyToken(req, res);
+      if (!token) return;
+      const result = await industrialIntelService.getSharedSurveyTourIcs(token);
+      if (!result) {
+        return res.status(404).json({ message: "No tour has been planned for this survey" });
+      }
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${surveyTourIcsFileName(result.survey.title)}"`);
+      res.send(result.ics);
+    } catch (error) {
+      console.error("Error rendering shared industrial intel survey tour calendar:", error);
+      res.status(500).json({ message: "Failed to render tour calendar" });
+    }
+  });
+
+  app.get("/api/intel/surveys/share/:token/feedback", async (req, res) => {
+    try {
+      const token = await sharedSurveyToken(req, res);
+      if (!token) return;
+      const events = await industrialIntelService.getSharedSurveyClientFeedback(token);
+      res.json(events);
+    } catch (error) {
+      console.error("Error fetching shared industrial intel survey feedback:", error);
+      res.status(500).json({ message: "Failed to fetch survey feedback" });
+    }
+  });
+
+  app.post("/api/intel/surveys/share/:token/feedback", async (req, res) => {
+    try {
+      if (!allowSharedSurveyWrite(shareFeedbackLimiter, req, res)) return;
+      const token = await sharedSurveyToken(req, res);
+      if (!token) return;
+      const parsed = intelSurveyClientFeedbackSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid survey feedback", issues: parsed.error.flatten() });
+      }
+      const survey = await industrialIntelService.recordSurveyClientFeedback(token, parsed.data);
+      if (!survey) {
+        return res.status(404).json({ message: "Industrial intel shared survey option not found" });
+      }
+      res.status(201).json(survey);
+    } catch (error) {
+      console.error("Error recording shared industrial intel survey feedback:", error);
+      res.status(500).json({ message: "Failed to record survey feedback" });
+    }
+  });
+
   app.post("/api/intel/surveys/:id/share", requireAuth, async (req, res) => {
     try {
       await ensureIntelActor(req);
@@ -866,6 +1334,187 @@ export function registerIndustrialIntelRoutes(app: Express): void {
     }
   });
 
+  app.get("/api/intel/surveys/:id/pdf", requireAuth, async (req, res) => {
+    try {
+      const result = await industrialIntelService.getSurveyPdf(getUserId(req), req.params.id);
+      if (!result) {
+        return res.status(404).json({ message: "Industrial intel survey not found" });
+      }
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${surveyPdfFileName(result.survey.title)}"`);
+      res.send(result.pdf);
+    } catch (error) {
+      console.error("Error rendering industrial intel survey PDF:", error);
+      res.status(500).json({ message: "Failed to render industrial intel survey PDF" });
+    }
+  });
+
+  app.get("/api/intel/surveys/:id/comparison", requireAuth, async (req, res) => {
+    try {
+      const comparison = await industrialIntelService.getSurveyComparison(getUserId(req), req.params.id);
+      if (!comparison) {
+        return res.status(404).json({ message: "Industrial intel survey not found" });
+      }
+      res.json(comparison);
+    } catch (error) {
+      console.error("Error fetching industrial intel survey comparison:", error);
+      res.status(500).json({ message: "Failed to fetch industrial intel survey comparison" });
+    }
+  });
+
+  app.put("/api/intel/surveys/:id/comparison", requireAuth, async (req, res) => {
+    try {
+      const parsed = intelSurveyComparisonSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid survey comparison settings", issues: parsed.error.flatten() });
+      }
+      await ensureIntelActor(req);
+      const comparison = await industrialIntelService.updateSurveyComparison(
+        getUserId(req),
+        req.params.id,
+        parsed.data.clientFactKeys,
+      );
+      if (!comparison) {
+        return res.status(404).json({ message: "Industrial intel survey not found" });
+      }
+      res.json(comparison);
+    } catch (error) {
+      console.error("Error updating industrial intel survey comparison:", error);
+      res.status(500).json({ message: "Failed to update industrial intel survey comparison" });
+    }
+  });
+
+  app.get("/api/intel/surveys/:id/tour", requireAuth, async (req, res) => {
+    try {
+      const planner = await industrialIntelService.getSurveyTour(getUserId(req), req.params.id);
+      if (!planner) {
+        return res.status(404).json({ message: "Industrial intel survey not found" });
+      }
+      res.json(planner);
+    } catch (error) {
+      console.error("Error fetching industrial intel survey tour:", error);
+      res.status(500).json({ message: "Failed to fetch industrial intel survey tour" });
+    }
+  });
+
+  app.put("/api/intel/surveys/:id/tour", requireAuth, async (req, res) => {
+    try {
+      const parsed = intelSurveyTourSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid survey tour", issues: parsed.error.flatten() });
+      }
+      await ensureIntelActor(req);
+      const planner = await industrialIntelService.planSurveyTour(getUserId(req), req.params.id, {
+        ...parsed.data,
+        startLabel: parsed.data.startLabel || null,
+        optimize: parsed.data.optimize ?? true,
+      });
+      if (!planner) {
+        return res.status(404).json({ message: "Industrial intel survey tour stops not found" });
+      }
+      res.json(planner);
+    } catch (error) {
+      console.error("Error planning industrial intel survey tour:", error);
+      res.status(500).json({ message: "Failed to plan industrial intel survey tour" });
+    }
+  });
+
+  app.put("/api/intel/surveys/:id/tour/stops/:itemId/notes", requireAuth, async (req, res) => {
+    try {
+      const parsed = intelSurveyTourNotesSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid tour notes", issues: parsed.error.flatten() });
+      }
+      await ensureIntelActor(req);
+      const planner = await industrialIntelService.recordSurveyTourStopNotes(
+        getUserId(req),
+        req.params.id,
+        req.params.itemId,
+        parsed.data.notes,
+      );
+      if (!planner) {
+        return res.status(404).json({ message: "Industrial intel survey item not found" });
+      }
+      res.json(planner);
+    } catch (error) {
+      console.error("Error saving industrial intel survey tour notes:", error);
+      res.status(500).json({ message: "Failed to save tour notes" });
+    }
+  });
+
+  app.get("/api/intel/surveys/:id/tour/ics", requireAuth, async (req, res) => {
+    try {
+      const result = await industrialIntelService.getSurveyTourIcs(getUserId(req), req.params.id);
+      if (!result) {
+        return res.status(404).json({ message: "Industrial intel survey tour not found" });
+      }
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${surveyTourIcsFileName(result.survey.title)}"`);
+      res.send(result.ics);
+    } catch (error) {
+      console.error("Error rendering industrial intel survey tour calendar:", error);
+      res.status(500).json({ message: "Failed to render tour calendar" });
+    }
+  });
+
+  app.get("/api/intel/surveys/:id/engagement", requireAuth, async (req, res) => {
+    try {
+      const engagement = await industrialIntelService.getSurveyEngagement(getUserId(req), req.params.id);
+      if (!engagement) {
+        return res.status(404).json({ message: "Industrial intel survey not found" });
+      }
+      res.json(engagement);
+    } catch (error) {
+      console.error("Error fetching industrial intel survey engagement:", error);
+      res.status(500).json({ message: "Failed to fetch industrial intel survey engagement" });
+    }
+  });
+
+  app.put("/api/intel/surveys/:id/share/settings", requireAuth, async (req, res) => {
+    try {
+      const parsed = intelSurveyShareSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid survey link settings", issues: parsed.error.flatten() });
+      }
+      await ensureIntelActor(req);
+      const settings = await industrialIntelService.updateSurveyShareSettings(getUserId(req), req.params.id, parsed.data);
+      if (!settings) {
+        return res.status(404).json({ message: "Industrial intel survey not found" });
+      }
+      res.json(settings);
+    } catch (error) {
+      console.error("Error updating industrial intel survey link settings:", error);
+      res.status(500).json({ message: "Failed to update industrial intel survey link settings" });
+    }
+  });
+
+  app.get("/api/intel/surveys/:id/feedback", requireAuth, async (req, res) => {
+    try {
+      const feedback = await industrialIntelService.getSurveyClientFeedback(getUserId(req), req.params.id);
+      if (!feedback) {
+        return res.status(404).json({ message: "Industrial intel survey not found" });
+      }
+      res.json(feedback);
+    } catch (error) {
+      console.error("Error fetching industrial intel survey feedback:", error);
+      res.status(500).json({ message: "Failed to fetch industrial intel survey feedback" });
+    }
+  });
+
+  app.post("/api/intel/surveys/:id/feedback/read", requireAuth, async (req, res) => {
+    try {
+      await ensureIntelActor(req);
+      const feedback = await industrialIntelService.markSurveyClientFeedbackRead(getUserId(req), req.params.id);
+      if (!feedback) {
+        return res.status(404).json({ message: "Industrial intel survey not found" });
+      }
+      res.json(feedback);
+    } catch (error) {
+      console.error("Error marking industrial intel survey feedback read:", error);
+      res.status(500).json({ message: "Failed to mark industrial intel survey feedback read" });
+    }
+  });
+
   app.patch("/api/intel/surveys/:id", requireAuth, async (req, res) => {
     try {
       const parsed = intelSurveyUpdateSchema.safeParse(req.body);
@@ -1010,6 +1659,38 @@ export function registerIndustrialIntelRoutes(app: Express): void {
     }
   });
 
+  app.get("/api/intel/requirement-alerts", requireAuth, async (req, res) => {
+    try {
+      const parsed = intelRequirementAlertsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid requirement alert query", issues: parsed.error.flatten() });
+      }
+      const digest = await industrialIntelService.getRequirementAlertDigest(getUserId(req), {
+        requirementId: parsed.data.requirementId ?? null,
+        unreadOnly: parsed.data.unread === "true",
+        limit: parsed.data.limit ?? 100,
+      });
+      res.json(digest);
+    } catch (error) {
+      console.error("Error fetching industrial intel requirement alerts:", error);
+      res.status(500).json({ message: "Failed to fetch requirement alerts" });
+    }
+  });
+
+  app.post("/api/intel/requirement-alerts/read", requireAuth, async (req, res) => {
+    try {
+      const parsed = intelRequirementAlertsReadSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid requirement alert update", issues: parsed.error.flatten() });
+      }
+      const updated = await industrialIntelService.markRequirementAlertsRead(getUserId(req), parsed.data);
+      res.json({ updated });
+    } catch (error) {
+      console.error("Error updating industrial intel requirement alerts:", error);
+      res.status(500).json({ message: "Failed to update requirement alerts" });
+    }
+  });
+
   app.post("/api/intel/requirements", requireAuth, async (req, res) => {
     try {
       const parsed = intelRequirementSchema.safeParse(req.body);
@@ -1452,7 +2133,13 @@ export function registerIndustrialIntelRoutes(app: Express): void {
       const terms = typeof req.query.terms === "string"
         ? req.query.terms.split(",").map((term) => term.trim()).filter(Boolean)
         : [];
-      const result = await industrialIntelService.getWatchlistSignals(getUserId(req), { days, limit, terms });
+      const signal = intelChangeSignalSchema.safeParse(req.query.signal);
+      const result = await industrialIntelService.getWatchlistSignals(getUserId(req), {
+        days,
+        limit,
+        terms,
+        signal: signal.success ? signal.data : null,
+      });
       res.json(result);
     } catch (error) {
       console.error("Error building industrial intel watchlist:", error);
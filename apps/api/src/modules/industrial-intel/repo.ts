@@ -1,5 +1,37 @@
+import type { LeaseEconomics, LeaseTerms, RequirementSearchArea } from "@level-cre/shared";
 import { pool } from "../../db";
 import { getIndustrialIntelSeedPreview } from "./seed";
+import {
+  INTEL_CHANGE_SIGNALS,
+  fieldChangesMatchSignal,
+  type IntelChangeSignal,
+  type IntelDiffField,
+  type IntelFieldChangeDirection,
+  type IntelListingFieldChange,
+} from "./ingest/listingDiff";
+import type { IntelListingHistory, IntelListingObservationPoint, IntelListingObservationType } from "./listingHistory";
+import type { IntelRequirementAlertType, PlannedRequirementAlert } from "./requirementAlerts";
+import { DEFAULT_SOURCE_INTERVAL_MINUTES, isIntelSourceStale } from "./sourceSchedule";
+import {
+  clientResponseDecision,
+  clientResponseLabel,
+  summarizeUnreadClientFeedback,
+  SURVEY_CLIENT_COMMENT_ACTION,
+  SURVEY_CLIENT_RESPONSE_ACTION,
+  type IntelSurveyClientResponse,
+} from "./surveyClientFeedback";
+import type { SurveyComparisonFact } from "./surveyComparison";
+import {
+  SHARE_CREATED_ACTION,
+  SHARE_ITEM_OPENED_ACTION,
+  SHARE_REVOKED_ACTION,
+  SHARE_SETTINGS_ACTION,
+  SHARE_UNLOCK_FAILED_ACTION,
+  SHARE_VIEW_ACTION,
+  describeShareUnlockFailure,
+  type ShareUnlockFailure,
+} from "../../lib/shareLinkAccess";
+import { normalizeSurveyLeaseTerms, surveyItemLeaseEconomics } from "./surveyLeaseTerms";
 
 export type IntelSummary = {
   activeListings: number;
@@ -15,10 +47,28 @@ export type IntelSourceListItem = {
   slug: string;
   kind: string;
   feedUrl: string | null;
+  fieldMapping: Record<string, unknown>;
   isActive: boolean;
   updatedAt: string | null;
+  scheduleIntervalMinutes: number | null;
+  nextRunAt: string | null;
+  lastSuccessAt: string | null;
+  consecutiveFailures: number;
+  isStale: boolean;
 };
 
+export type CreateIntelFeedSourceInput = {
+  name: string;
+  kind: "csv_url" | "json_url";
+  feedUrl: string;
+  fieldMapping: Record<string, unknown>;
+  isActive?: boolean | null;
+  scheduleIntervalMinutes?: number | null;
+};
+
+// Cadence changes go through `updateSourceSchedule` so `next_run_at` is recomputed.
+export type UpdateIntelFeedSourceInput = Partial<Omit<CreateIntelFeedSourceInput, "scheduleIntervalMinutes">>;
+
 export type IntelRunListItem = {
   id: string;
   sourceId: string | null;
@@ -58,6 +108,8 @@ export type IntelListingListItem = {
   pricePerAcre: number | null;
   leaseRatePsf: number | null;
   clearHeightFt?: number | null;
+  dockDoors?: number | null;
+  yardAcres?: number | null;
   brochureUrl: string | null;
   sourceUrl: string | null;
   lastSeenAt: string | null;
@@ -109,9 +161,20 @@ export type IntelChangeListItem = {
   sourceName: string | null;
   changeType: string;
   changeSummary: string | null;
+  fieldChanges: IntelListingFieldChange[];
   observedAt: string | null;
 };
 
+export type IntelChangeFilters = {
+  changeType?: string | null;
+  signal?: IntelChangeSignal | null;
+  field?: IntelDiffField | null;
+  direction?: IntelFieldChangeDirection | null;
+  listingId?: string | null;
+  ingestRunId?: string | null;
+  since?: Date | null;
+};
+
 export type IntelRequirementListItem = {
   id: string;
   title: string;
@@ -123,6 +186,7 @@ export type IntelRequirementListItem = {
   minSf: number | null;
   maxSf: number | null;
   isOffMarketSearchEnabled: boolean;
+  searchAreas: RequirementSearchArea[];
   updatedAt: string | null;
   archivedAt: string | null;
 };
@@ -132,6 +196,7 @@ export type IntelRequirementPreference = {
   requirementId: string;
   key: string;
   operator: string;
+  comparator: string | null;
   valueText: string | null;
   valueNumber: number | null;
   valueBoolean: boolean | null;
@@ -173,6 +238,7 @@ export type CreateIntelRequirementInput = {
   timingNotes?: string | null;
   specialNotes?: string | null;
   isOffMarketSearchEnabled?: boolean | null;
+  searchAreas?: RequirementSearchArea[] | null;
 };
 
 export type UpdateIntelRequirementInput = Partial<CreateIntelRequirementInput>;
@@ -180,6 +246,7 @@ export type UpdateIntelRequirementInput = Partial<CreateIntelRequirementInput>;
 export type ReplaceIntelRequirementPreferencesInput = Array<{
   key: string;
   operator?: string | null;
+  comparator?: string | null;
   valueText?: string | null;
   valueNumber?: number | null;
   valueBoolean?: boolean | null;
@@ -188,6 +255,29 @@ export type ReplaceIntelRequirementPreferencesInput = Array<{
 
 export type IntelRequirementListingDecisionValue = "shortlist" | "maybe" | "rejected";
 
+export type IntelRequirementAlert = {
+  id: string;
+  requirementId: string;
+  requirementTitle: string;
+  clientName: string | null;
+  listingId: string;
+  listingTitle: string;
+  changeId: string | null;
+  alertType: IntelRequirementAlertType;
+  tier: string | null;
+  score: number | null;
+  summary: string;
+  reasons: string[];
+  readAt: string | null;
+  createdAt: string | null;
+};
+
+export type IntelRequirementAlertFilters = {
+  requirementId?: string | null;
+  unreadOnly?: boolean;
+  limit?: number;
+};
+
 export type IntelRequirementListingDecision = {
   requirementId: string;
   listingId: string;
@@ -216,6 +306,7 @@ export type IntelSurveyListItem = {
   shareToken: string | null;
   itemCount: number;
   visibleItemCount: number;
+  unreadClientFeedbackCount: number;
   createdByUserId: string | null;
   createdAt: string | null;
   updatedAt: string | null;
@@ -311,6 +402,13 @@ export type IntelSurveyItem = {
   brokerNotes: string | null;
   clientNotes: string | null;
   hidden: boolean;
+  leaseTerms: LeaseTerms | null;
+  leaseEconomics: LeaseEconomics | null;
+  clientResponse: IntelSurveyClientResponse | null;
+  clientResponseAt: string | null;
+  // Broker-only post-tour notes, like brokerNotes.
+  tourNotes: string | null;
+  touredAt: string | null;
   createdAt: string | null;
   updatedAt: string | null;
   listing: IntelSurveyListingBrief;
@@ -320,7 +418,7 @@ export type IntelSurveyDetail = IntelSurveyListItem & {
   items: IntelSurveyItem[];
 };
 
-export type IntelSurveyEventActorType = "user" | "agent" | "system";
+export type IntelSurveyEventActorType = "user" | "agent" | "system" | "client";
 
 export type IntelSurveyEvent = {
   id: string;
@@ -333,6 +431,44 @@ export type IntelSurveyEvent = {
   createdAt: string | null;
 };
 
+export type IntelSurveyClientFeedback = {
+  readAt: string | null;
+  unreadCount: number;
+  unreadItemIds: string[];
+  events: IntelSurveyEvent[];
+};
+
+export type IntelSurveyPreparer = {
+  name: string | null;
+  company: string | null;
+  email: string | null;
+};
+
+export type IntelSurveyShareGate = {
+  surveyId: string;
+  expiresAt: string | null;
+  passcodeHash: string | null;
+};
+
+export type IntelSurveyShareSettings = {
+  enabled: boolean;
+  expiresAt: string | null;
+  hasPasscode: boolean;
+};
+
+export type UpdateIntelSurveyShareSettingsInput = {
+  expiresAt?: string | null;
+  // Already hashed; undefined leaves the current passcode alone, null clears it.
+  passcodeHash?: string | null;
+};
+
+export type RecordIntelSurveyClientFeedbackInput = {
+  itemId: string;
+  response?: IntelSurveyClientResponse | null;
+  comment?: string | null;
+  authorName?: string | null;
+};
+
 export type IntelListingAssetType = "brochure" | "flyer" | "aerial" | "site_plan" | "photo" | "survey_page" | "other";
 export type IntelListingAssetStatus = "pending" | "active" | "failed" | "archived";
 
@@ -342,6 +478,8 @@ export type IntelListingAsset = {
   listingId: string | null;
   surveyId: string | null;
   surveyItemId: string | null;
+  prospectId: string | null;
+  emailMessageId: string | null;
   assetType: IntelListingAssetType;
   fileName: string;
   contentType: string;
@@ -377,6 +515,11 @@ export type CreateIntelListingAssetInput = {
   isPrimary?: boolean | null;
 };
 
+export type CreateIntelEmailAttachmentAssetInput = CreateIntelListingAssetInput & {
+  prospectId: string | null;
+  emailMessageId: string;
+};
+
 export type CreateIntelSurveyEventInput = {
   surveyId: string;
   actorType?: IntelSurveyEventActorType;
@@ -438,10 +581,25 @@ export type CreateIntelSurveyItemInput = {
   brokerNotes?: string | null;
   clientNotes?: string | null;
   hidden?: boolean | null;
+  leaseTerms?: LeaseTerms | null;
 };
 
 export type UpdateIntelSurveyItemInput = Partial<Omit<CreateIntelSurveyItemInput, "listingId">>;
 
+export type IntelSurveyTourSettings = {
+  surveyId: string;
+  startLabel: string | null;
+  startLatitude: number;
+  startLongitude: number;
+  startAt: string;
+  minutesPerStop: number;
+  // Stop order as planned; items removed from the survey since are skipped on read.
+  itemIds: string[];
+  updatedAt: string | null;
+};
+
+export type SaveIntelSurveyTourInput = Omit<IntelSurveyTourSettings, "surveyId" | "updatedAt">;
+
 const CORE_TABLES = [
   "intel_sources",
   "intel_listings",
@@ -509,6 +667,10 @@ function boolOrFalse(value: unknown): boolean {
   return value === true || value === 'true' || value === 1 || value === '1';
 }
 
+function searchAreasOrEmpty(value: unknown): RequirementSearchArea[] {
+  return Array.isArray(value) ? (value as RequirementSearchArea[]) : [];
+}
+
 function boolOrNull(value: unknown): boolean | null {
   if (value === null || value === undefined) return null;
   if (value === true || value === 'true' || value === 1 || value === '1') return true;
@@ -516,12 +678,76 @@ function boolOrNull(value: unknown): boolean | null {
   return null;
 }
 
+function filterSampleChanges(filters: IntelChangeFilters): IntelChangeListItem[] {
+  return getIndustrialIntelSeedPreview().changes.filter((change) => {
+    if (filters.changeType && change.changeType !== filters.changeType) return false;
+    if (filters.listingId && change.listingId !== filters.listingId) return false;
+    // Sample changes are not tied to real ingest runs.
+    if (filters.ingestRunId) return false;
+    if (filters.since && (!change.observedAt || new Date(change.observedAt) < filters.since)) return false;
+    if (filters.signal && !fieldChangesMatchSignal(change.fieldChanges, filters.signal)) return false;
+    if (filters.field && !change.fieldChanges.some((fieldChange) => fieldChange.field === filters.field)) return false;
+    if (filters.direction && !change.fieldChanges.some((fieldChange) => fieldChange.direction === filters.direction)) return false;
+    return true;
+  });
+}
+
+type IntelSourceRow = {
+  id: string;
+  name: string;
+  slug: string;
+  kind: string;
+  feed_url: string | null;
+  field_mapping: Record<string, unknown> | null;
+  is_active: boolean;
+  updated_at: Date | null;
+  schedule_interval_minutes: number | null;
+  next_run_at: Date | null;
+  last_success_at: Date | null;
+  consecutive_failures: number | null;
+};
+
+function sourceFromRow(row: IntelSourceRow): IntelSourceListItem {
+  const scheduleIntervalMinutes = intOrNull(row.schedule_interval_minutes);
+  return {
+    id: row.id,
+    name: row.name,
+    slug: row.slug,
+    kind: row.kind,
+    feedUrl: row.feed_url,
+    fieldMapping: row.field_mapping ?? {},
+    isActive: Boolean(row.is_active),
+    updatedAt: isoOrNull(row.updated_at),
+    scheduleIntervalMinutes,
+    nextRunAt: isoOrNull(row.next_run_at),
+    lastSuccessAt: isoOrNull(row.last_success_at),
+    consecutiveFailures: intOrZero(row.consecutive_failures),
+    isStale: Boolean(row.is_active) && isIntelSourceStale({
+      now: new Date(),
+      intervalMinutes: scheduleIntervalMinutes,
+      lastSuccessAt: row.last_success_at,
+    }),
+  };
+}
+
+function sourceSlugFromName(name: string): string {
+  const slug = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return slug || "feed";
+}
+
 function listingAssetFromRow(row: {
   id: string;
   dossier_id?: string | null;
   listing_id: string | null;
   survey_id: string | null;
   survey_item_id: string | null;
+  prospect_id?: string | null;
+  email_message_id?: string | null;
   asset_type: IntelListingAssetType;
   file_name: string;
   content_type: string;
@@ -541,6 +767,8 @@ function listingAssetFromRow(row: {
     listingId: row.listing_id,
     surveyId: row.survey_id,
     surveyItemId: row.survey_item_id,
+    prospectId: row.prospect_id || null,
+    emailMessageId: row.email_message_id || null,
     assetType: row.asset_type,
     fileName: row.file_name,
     contentType: row.content_type,
@@ -556,6 +784,30 @@ function listingAssetFromRow(row: {
   };
 }
 
+type SurveyEventRow = {
+  id: string;
+  survey_id: string;
+  actor_type: IntelSurveyEventActorType;
+  actor_id: string | null;
+  action: string;
+  summary: string | null;
+  payload: Record<string, unknown> | null;
+  created_at: Date | null;
+};
+
+function surveyEventFromRow(row: SurveyEventRow): IntelSurveyEvent {
+  return {
+    id: row.id,
+    surveyId: row.survey_id,
+    actorType: row.actor_type,
+    actorId: row.actor_id,
+    action: row.action,
+    summary: row.summary,
+    payload: row.payload || {},
+    createdAt: isoOrNull(row.created_at),
+  };
+}
+
 function dossierFromRow(row: {
   id: string;
   canonical_listing_id: string | null;
@@ -908,6 +1160,19 @@ export class IndustrialIntelRepository {
       CREATE INDEX IF NOT EXISTS idx_intel_listing_assets_dossier
         ON public.intel_listing_assets (dossier_id)
     `);
+    await pool.query(`
+      ALTER TABLE public.intel_listing_assets
+      ADD COLUMN IF NOT EXISTS prospect_id varchar REFERENCES public.prospects(id) ON DELETE SET NULL,
+      ADD COLUMN IF NOT EXISTS email_message_id varchar REFERENCES public.email_messages(id) ON DELETE SET NULL
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_intel_listing_assets_prospect
+        ON public.intel_listing_assets (prospect_id)
+    `);
+    await pool.query(`
+      CREATE INDEX IF NOT EXISTS idx_intel_listing_assets_email_message
+        ON public.intel_listing_assets (email_message_id)
+    `);
     await pool.query(`ALTER TABLE public.intel_property_dossiers ENABLE ROW LEVEL SECURITY`);
     await pool.query(`ALTER TABLE public.intel_dossier_facts ENABLE ROW LEVEL SECURITY`);
   }
@@ -1052,6 +1317,57 @@ export class IndustrialIntelRepository {
       CREATE INDEX IF NOT EXISTS idx_intel_survey_items_sort
         ON public.intel_survey_items (survey_id, sort_order)
     `);
+    await pool.query(`
+      ALTER TABLE public.intel_survey_items
+      ADD COLUMN IF NOT EXISTS lease_terms jsonb
+    `);
+    await pool.query(`
+      ALTER TABLE public.intel_survey_items
+      ADD COLUMN IF NOT EXISTS client_response varchar,
+      ADD COLUMN IF NOT EXISTS client_response_at timestamp
+    `);
+    await pool.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_intel_survey_items_client_response') THEN
+          ALTER TABLE public.intel_survey_items
+            ADD CONSTRAINT chk_intel_survey_items_client_response
+            CHECK (client_response IS NULL OR client_response IN ('interested', 'not_interested', 'tour'));
+        END IF;
+      END $$
+    `);
+    await pool.query(`
+      ALTER TABLE public.intel_surveys
+      ADD COLUMN IF NOT EXISTS client_feedback_read_at timestamp
+    `);
+    await pool.query(`
+      ALTER TABLE public.intel_surveys
+      ADD COLUMN IF NOT EXISTS client_comparison_fact_keys jsonb
+    `);
+    await pool.query(`
+      ALTER TABLE public.intel_surveys
+      ADD COLUMN IF NOT EXISTS share_expires_at timestamptz,
+      ADD COLUMN IF NOT EXISTS share_passcode_hash varchar
+    `);
+    await pool.query(`
+      ALTER TABLE public.intel_survey_items
+      ADD COLUMN IF NOT EXISTS tour_notes text,
+      ADD COLUMN IF NOT EXISTS toured_at timestamp
+    `);
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS public.intel_survey_tours (
+        survey_id varchar PRIMARY KEY REFERENCES public.intel_surveys(id) ON DELETE CASCADE,
+        start_label varchar,
+        start_latitude numeric NOT NULL,
+        start_longitude numeric NOT NULL,
+        start_at timestamptz NOT NULL,
+        minutes_per_stop integer NOT NULL DEFAULT 30,
+        item_ids jsonb NOT NULL DEFAULT '[]'::jsonb,
+        created_by_user_id varchar REFERENCES public.users(id) ON DELETE SET NULL,
+        created_at timestamp DEFAULT now(),
+        updated_at timestamp DEFAULT now()
+      )
+    `);
 
     await pool.query(`
       CREATE TABLE IF NOT EXISTS public.intel_survey_events (
@@ -1064,9 +1380,25 @@ export class IndustrialIntelRepository {
         payload jsonb NOT NULL DEFAULT '{}'::jsonb,
         created_at timestamp DEFAULT now(),
         CONSTRAINT chk_intel_survey_events_actor_type
-          CHECK (actor_type IN ('user', 'agent', 'system'))
+          CHECK (actor_type IN ('user', 'agent', 'system', 'client'))
       )
     `);
+    await pool.query(`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1
+          FROM pg_constraint
+          WHERE conname = 'chk_intel_survey_events_actor_type'
+            AND pg_get_constraintdef(oid) LIKE '%client%'
+        ) THEN
+          ALTER TABLE public.intel_survey_events DROP CONSTRAINT IF EXISTS chk_intel_survey_events_actor_type;
+          ALTER TABLE public.intel_survey_events
+            ADD CONSTRAINT chk_intel_survey_events_actor_type
+            CHECK (actor_type IN ('user', 'agent', 'system', 'client'));
+        END IF;
+      END $$
+    `);
 
     await pool.query(`
       CREATE INDEX IF NOT EXISTS idx_intel_survey_events_survey
@@ -1162,37 +1494,14 @@ export class IndustrialIntelRepository {
         return SHOULD_USE_SAMPLE_FALLBACK ? getIndustrialIntelSeedPreview().sources : [];
       }
 
-      const result = await pool.query<{
-        id: string;
-        name: string;
-        slug: string;
-        kind: string;
-        feed_url: string | null;
-        is_active: boolean;
-        updated_at: Date | null;
-      }>(`
-        SELECT id, name, slug, kind, feed_url, is_active, updated_at
+      const result = await pool.query<IntelSourceRow>(`
+        SELECT id, name, slug, kind, feed_url, field_mapping, is_active, updated_at,
+          schedule_interval_minutes, next_run_at, last_success_at, consecutive_failures
         FROM public.intel_sources
         ORDER BY updated_at DESC NULLS LAST, created_at DESC NULLS LAST
       `);
 
-      return result.rows.map((row: {
-        id: string;
-        name: string;
-        slug: string;
-        kind: string;
-        feed_url: string | null;
-        is_active: boolean;
-        updated_at: Date | null;
-      }) => ({
-        id: row.id,
-        name: row.name,
-        slug: row.slug,
-        kind: row.kind,
-        feedUrl: row.feed_url,
-        isActive: Boolean(row.is_active),
-        updatedAt: isoOrNull(row.updated_at),
-      }));
+      return result.rows.map(sourceFromRow);
     } catch (error) {
       if (isRecoverableIntelSchemaError(error)) {
         return SHOULD_USE_SAMPLE_FALLBACK ? getIndustrialIntelSeedPreview().sources : [];
@@ -1201,6 +1510,104 @@ export class IndustrialIntelRepository {
     }
   }
 
+  async getSourceById(id: string): Promise<IntelSourceListItem | null> {
+    const result = await pool.query<IntelSourceRow>(
+      `
+        SELECT id, name, slug, kind, feed_url, field_mapping, is_active, updated_at,
+          schedule_interval_minutes, next_run_at, last_success_at, consecutive_failures
+        FROM public.intel_sources
+        WHERE id = $1
+        LIMIT 1
+      `,
+      [id],
+    );
+    return result.rows[0] ? sourceFromRow(result.rows[0]) : null;
+  }
+
+  async createFeedSource(input: CreateIntelFeedSourceInput): Promise<IntelSourceListItem> {
+    const baseSlug = sourceSlugFromName(input.name);
+    const taken = await pool.query<{ slug: string }>(
+      "SELECT slug FROM public.intel_sources WHERE slug = $1 OR slug LIKE $1 || '-%'",
+      [baseSlug],
+    );
+    const takenSlugs = new Set(taken.rows.map((row) => row.slug));
+    let slug = baseSlug;
+    for (let suffix = 2; takenSlugs.has(slug); suffix += 1) {
+      slug = `${baseSlug}-${suffix}`;
+    }
+
+    const result = await pool.query<IntelSourceRow>(
+      `
+        INSERT INTO public.intel_sources (
+          name, slug, kind, feed_url, field_mapping, is_active, schedule_interval_minutes, updated_at
+        )
+        VALUES ($1, $2, $3, $4, $5::jsonb, COALESCE($6, true), $7, now())
+        RETURNING id, name, slug, kind, feed_url, field_mapping, is_active, updated_at,
+          schedule_interval_minutes, next_run_at, last_success_at, consecutive_failures
+      `,
+      [
+        input.name,
+        slug,
+        input.kind,
+        input.feedUrl,
+        JSON.stringify(input.fieldMapping),
+        input.isActive ?? null,
+        input.scheduleIntervalMinutes === undefined ? DEFAULT_SOURCE_INTERVAL_MINUTES : input.scheduleIntervalMinutes,
+      ],
+    );
+    return sourceFromRow(result.rows[0]);
+  }
+
+  async updateFeedSource(id: string, input: UpdateIntelFeedSourceInput): Promise<IntelSourceListItem | null> {
+    const current = await this.getSourceById(id);
+    if (!current || (current.kind !== "csv_url" && current.kind !== "json_url")) return null;
+
+    const result = await pool.query<IntelSourceRow>(
+      `
+        UPDATE public.intel_sources
+        SET
+          name = $2,
+          kind = $3,
+          feed_url = $4,
+          field_mapping = $5::jsonb,
+          is_active = $6,
+          updated_at = now()
+        WHERE id = $1
+        RETURNING id, name, slug, kind, feed_url, field_mapping, is_active, updated_at,
+          schedule_interval_minutes, next_run_at, last_success_at, consecutive_failures
+      `,
+      [
+        id,
+        input.name ?? current.name,
+        input.kind ?? current.kind,
+        input.feedUrl ?? current.feedUrl,
+        JSON.stringify(input.fieldMapping ?? current.fieldMapping),
+        input.isActive ?? current.isActive,
+      ],
+    );
+    return result.rows[0] ? sourceFromRow(result.rows[0]) : null;
+  }
+
+  async updateSourceSchedule(id: string, scheduleIntervalMinutes: number | null): Promise<IntelSourceListItem | null> {
+    const result = await pool.query<IntelSourceRow>(
+      `
+        UPDATE public.intel_sources
+        SET
+          schedule_interval_minutes = $2::integer,
+          next_run_at = CASE
+            WHEN $2::integer IS NULL THEN NULL
+            ELSE COALESCE(last_success_at, now()) + make_interval(mins => $2::integer)
+          END,
+          updated_at = now()
+        WHERE id = $1
+        RETURNING id, name, slug, kind, feed_url, field_mapping, is_active, updated_at,
+          schedule_interval_minutes, next_run_at, last_success_at, consecutive_failures
+      `,
+      [id, scheduleIntervalMinutes],
+    );
+    return result.rows[0] ? sourceFromRow(result.rows[0]) : null;
+  }
+
   async getRuns(limit = 20): Promise<IntelRunListItem[]> {
     try {
       if (!(await this.hasCoreTables())) {
@@ -1515,6 +1922,79 @@ export class IndustrialIntelRepository {
     };
   }
 
+  async getListingHistory(listingId: string): Promise<Omit<IntelListingHistory, "summary"> | null> {
+    if (!(await this.hasCoreTables())) return null;
+
+    const listingResult = await pool.query<{
+      id: string;
+      title: string;
+      first_seen_at: Date | null;
+      removed_at: Date | null;
+    }>(
+      `
+        SELECT id, title, first_seen_at, removed_at
+        FROM public.intel_listings
+        WHERE id = $1
+        LIMIT 1
+      `,
+      [listingId],
+    );
+
+    const listing = listingResult.rows[0];
+    if (!listing) return null;
+
+    let observations: IntelListingObservationPoint[] = [];
+    try {
+      const result = await pool.query<{
+        observed_at: Date | null;
+        observation_type: IntelListingObservationType;
+        trigger_type: string | null;
+        status: string | null;
+        available_sf: number | null;
+        total_price: string | null;
+        price_per_acre: string | null;
+        lease_rate_psf: string | null;
+      }>(
+        `
+          SELECT
+            observed_at,
+            observation_type,
+            trigger_type,
+            status,
+            available_sf,
+            total_price,
+            price_per_acre,
+            lease_rate_psf
+          FROM public.intel_listing_observations
+          WHERE listing_id = $1
+          ORDER BY observed_at ASC, id ASC
+        `,
+        [listingId],
+      );
+
+      observations = result.rows.map((row) => ({
+        observedAt: isoOrNull(row.observed_at) || "",
+        observationType: row.observation_type,
+        triggerType: row.trigger_type,
+        status: row.status,
+        availableSf: intOrNull(row.available_sf),
+        totalPrice: numOrNull(row.total_price),
+        pricePerAcre: numOrNull(row.price_per_acre),
+        leaseRatePsf: numOrNull(row.lease_rate_psf),
+      }));
+    } catch (error) {
+      if (!isRecoverableIntelSchemaError(error)) throw error;
+    }
+
+    return {
+      listingId: listing.id,
+      title: listing.title,
+      firstSeenAt: isoOrNull(listing.first_seen_at),
+      removedAt: isoOrNull(listing.removed_at),
+      observations,
+    };
+  }
+
   async createAgentEvent(input: CreateIntelAgentEventInput): Promise<IntelAgentEvent | null> {
     try {
       await this.ensureAgentEventTables();
@@ -1873,6 +2353,101 @@ export class IndustrialIntelRepository {
     return listingAssetFromRow(result.rows[0]);
   }
 
+  async getListingAssetByStoragePath(userId: string, storagePath: string): Promise<IntelListingAsset | null> {
+    await this.ensureDossierTables();
+    const result = await pool.query(
+      `
+        SELECT *
+        FROM public.intel_listing_assets
+        WHERE storage_path = $1 AND created_by_user_id = $2
+        LIMIT 1
+      `,
+      [storagePath, userId],
+    );
+    return result.rows[0] ? listingAssetFromRow(result.rows[0]) : null;
+  }
+
+  // Email attachments arrive already uploaded, so they are stored active. The
+  // storage path is derived from the message, which makes redelivery of the
+  // same email a no-op rather than a second asset.
+  async createEmailAttachmentAsset(
+    userId: string,
+    input: CreateIntelEmailAttachmentAssetInput,
+  ): Promise<{ asset: IntelListingAsset; created: boolean }> {
+    await this.ensureDossierTables();
+    const result = await pool.query(
+      `
+        INSERT INTO public.intel_listing_assets (
+          id,
+          dossier_id,
+          listing_id,
+          prospect_id,
+          email_message_id,
+          asset_type,
+          file_name,
+          content_type,
+          file_size,
+          storage_bucket,
+          storage_path,
+          source,
+          status,
+          is_primary,
+          created_by_user_id,
+          updated_at
+        ) VALUES (
+          $1, $2, $3, $4, $5, COALESCE($6, 'other'), $7, $8, $9, $10, $11,
+          'email', 'active', false, $12, now()
+        )
+        ON CONFLICT (storage_path) DO NOTHING
+        RETURNING *
+      `,
+      [
+        input.id,
+        input.dossierId ?? null,
+        input.listingId ?? null,
+        input.prospectId,
+        input.emailMessageId,
+        input.assetType ?? null,
+        input.fileName,
+        input.contentType,
+        input.fileSize,
+        input.storageBucket,
+        input.storagePath,
+        userId,
+      ],
+    );
+
+    if (result.rows[0]) {
+      if (input.dossierId) {
+        await pool.query(`UPDATE public.intel_property_dossiers SET updated_at = now() WHERE id = $1`, [input.dossierId]);
+      }
+      return { asset: listingAssetFromRow(result.rows[0]), created: true };
+    }
+
+    const existing = await this.getListingAssetByStoragePath(userId, input.storagePath);
+    if (!existing) throw new Error("Email attachment asset path is owned by another user");
+    return { asset: existing, created: false };
+  }
+
+  async linkEmailAttachmentAssetsToProspect(
+    userId: string,
+    emailMessageId: string,
+    prospectId: string | null,
+  ): Promise<number> {
+    await this.ensureDossierTables();
+    const result = await pool.query(
+      `
+        UPDATE public.intel_listing_assets
+        SET prospect_id = $3, updated_at = now()
+        WHERE email_message_id = $1
+          AND created_by_user_id = $2
+          AND prospect_id IS DISTINCT FROM $3
+      `,
+      [emailMessageId, userId, prospectId],
+    );
+    return result.rowCount ?? 0;
+  }
+
   async getDossierAssets(userId: string, dossierId: string): Promise<IntelListingAsset[]> {
     await this.ensureDossierTables();
     const result = await pool.query(
@@ -1906,14 +2481,106 @@ export class IndustrialIntelRepository {
     return result.rows[0] ? listingAssetFromRow(result.rows[0]) : null;
   }
 
-  async getDossierFacts(userId: string, dossierId: string): Promise<IntelDossierFact[]> {
-    await this.ensureDossierTables();
-    const dossier = await pool.query(
-      `SELECT id FROM public.intel_property_dossiers WHERE id = $1 AND created_by_user_id = $2 LIMIT 1`,
-      [dossierId, userId],
-    );
-    if (!dossier.rows[0]) return [];
-    const result = await pool.query(
+  // Approved dossier facts for the user's dossiers, grouped by canonical
+  // listing so the requirement matcher can test preferences against them.
+  async getApprovedListingFacts(userId: string): Promise<Map<string, Record<string, string | number | boolean | null>>> {
+    const factsByListing = new Map<string, Record<string, string | number | boolean | null>>();
+    try {
+      if (!(await this.hasDossierTables())) return factsByListing;
+
+      const result = await pool.query<{
+        listing_id: string;
+        fact_key: string;
+        value_text: string | null;
+        value_number: string | null;
+        value_boolean: boolean | null;
+      }>(
+        `
+          SELECT
+            dossiers.canonical_listing_id AS listing_id,
+            facts.fact_key,
+            facts.value_text,
+            facts.value_number,
+            facts.value_boolean
+          FROM public.intel_dossier_facts facts
+          INNER JOIN public.intel_property_dossiers dossiers ON dossiers.id = facts.dossier_id
+          WHERE dossiers.created_by_user_id = $1
+            AND dossiers.canonical_listing_id IS NOT NULL
+            AND facts.status = 'approved'
+          ORDER BY facts.updated_at ASC NULLS FIRST
+        `,
+        [userId],
+      );
+
+      for (const row of result.rows) {
+        const facts = factsByListing.get(row.listing_id) || {};
+        facts[row.fact_key] = numOrNull(row.value_number) ?? boolOrNull(row.value_boolean) ?? row.value_text;
+        factsByListing.set(row.listing_id, facts);
+      }
+      return factsByListing;
+    } catch (error) {
+      if (isRecoverableIntelSchemaError(error)) return factsByListing;
+      throw error;
+    }
+  }
+
+  // Latest approved fact per key for the given listings, with labels, for the
+  // survey comparison matrix.
+  async getListingComparisonFacts(userId: string, listingIds: string[]): Promise<Map<string, SurveyComparisonFact[]>> {
+    const factsByListing = new Map<string, SurveyComparisonFact[]>();
+    try {
+      if (listingIds.length === 0 || !(await this.hasDossierTables())) return factsByListing;
+
+      const result = await pool.query<{
+        listing_id: string;
+        fact_key: string;
+        label: string;
+        value_text: string | null;
+        value_number: string | null;
+        value_boolean: boolean | null;
+      }>(
+        `
+          SELECT DISTINCT ON (dossiers.canonical_listing_id, facts.fact_key)
+            dossiers.canonical_listing_id AS listing_id,
+            facts.fact_key,
+            facts.label,
+            facts.value_text,
+            facts.value_number,
+            facts.value_boolean
+          FROM public.intel_dossier_facts facts
+          INNER JOIN public.intel_property_dossiers dossiers ON dossiers.id = facts.dossier_id
+          WHERE dossiers.created_by_user_id = $1
+            AND dossiers.canonical_listing_id = ANY($2::varchar[])
+            AND facts.status = 'approved'
+          ORDER BY dossiers.canonical_listing_id, facts.fact_key, facts.updated_at DESC NULLS LAST
+        `,
+        [userId, listingIds],
+      );
+
+      for (const row of result.rows) {
+        const facts = factsByListing.get(row.listing_id) || [];
+        facts.push({
+          factKey: row.fact_key,
+          label: row.label,
+          value: numOrNull(row.value_number) ?? boolOrNull(row.value_boolean) ?? row.value_text,
+        });
+        factsByListing.set(row.listing_id, facts);
+      }
+      return factsByListing;
+    } catch (error) {
+      if (isRecoverableIntelSchemaError(error)) return factsByListing;
+      throw error;
+    }
+  }
+
+  async getDossierFacts(userId: string, dossierId: string): Promise<IntelDossierFact[]> {
+    await this.ensureDossierTables();
+    const dossier = await pool.query(
+      `SELECT id FROM public.intel_property_dossiers WHERE id = $1 AND created_by_user_id = $2 LIMIT 1`,
+      [dossierId, userId],
+    );
+    if (!dossier.rows[0]) return [];
+    const result = await pool.query(
       `
         SELECT *
         FROM public.intel_dossier_facts
@@ -2394,12 +3061,22 @@ export class IndustrialIntelRepository {
     return { archived: result.rowCount || 0 };
   }
 
-  async getRecentChanges(limit = 10): Promise<IntelChangeListItem[]> {
+  async getRecentChanges(limit = 10, filters: IntelChangeFilters = {}): Promise<IntelChangeListItem[]> {
     try {
       if (!(await this.hasCoreTables())) {
-        return SHOULD_USE_SAMPLE_FALLBACK ? getIndustrialIntelSeedPreview().changes.slice(0, limit) : [];
+        return SHOULD_USE_SAMPLE_FALLBACK ? filterSampleChanges(filters).slice(0, limit) : [];
       }
 
+      // A signal expands to a field/direction set; an explicit field or
+      // direction narrows it further.
+      const signal = filters.signal ? INTEL_CHANGE_SIGNALS[filters.signal] : null;
+      const fields: string[] | null = filters.field ? [filters.field] : signal ? [...signal.fields] : null;
+      const directions: string[] | null = filters.direction
+        ? [filters.direction]
+        : signal?.directions
+          ? [...signal.directions]
+          : null;
+
       const result = await pool.query<{
         id: string;
         listing_id: string;
@@ -2407,6 +3084,7 @@ export class IndustrialIntelRepository {
         source_name: string | null;
         change_type: string;
         change_summary: string | null;
+        field_changes: IntelListingFieldChange[] | null;
         observed_at: Date | null;
       }>(
         `
@@ -2417,36 +3095,51 @@ export class IndustrialIntelRepository {
             sources.name AS source_name,
             changes.change_type,
             changes.change_summary,
+            changes.field_changes,
             changes.observed_at
           FROM public.intel_listing_changes changes
           INNER JOIN public.intel_listings listings ON listings.id = changes.listing_id
           LEFT JOIN public.intel_sources sources ON sources.id = listings.source_id
+          WHERE ($2::varchar IS NULL OR changes.change_type = $2)
+            AND ($3::varchar IS NULL OR changes.listing_id = $3)
+            AND ($4::timestamp IS NULL OR changes.observed_at >= $4)
+            AND ($7::varchar IS NULL OR changes.ingest_run_id = $7)
+            AND (
+              ($5::text[] IS NULL AND $6::text[] IS NULL)
+              OR EXISTS (
+                SELECT 1
+                FROM jsonb_array_elements(changes.field_changes) AS field_change
+                WHERE ($5::text[] IS NULL OR field_change->>'field' = ANY($5::text[]))
+                  AND ($6::text[] IS NULL OR field_change->>'direction' = ANY($6::text[]))
+              )
+            )
           ORDER BY changes.observed_at DESC NULLS LAST
           LIMIT $1
         `,
-        [limit],
+        [
+          limit,
+          filters.changeType ?? null,
+          filters.listingId ?? null,
+          filters.since ?? null,
+          fields,
+          directions,
+          filters.ingestRunId ?? null,
+        ],
       );
 
-      return result.rows.map((row: {
-        id: string;
-        listing_id: string;
-        listing_title: string;
-        source_name: string | null;
-        change_type: string;
-        change_summary: string | null;
-        observed_at: Date | null;
-      }) => ({
+      return result.rows.map((row) => ({
         id: row.id,
         listingId: row.listing_id,
         listingTitle: row.listing_title,
         sourceName: row.source_name,
         changeType: row.change_type,
         changeSummary: row.change_summary,
+        fieldChanges: Array.isArray(row.field_changes) ? row.field_changes : [],
         observedAt: isoOrNull(row.observed_at),
       }));
     } catch (error) {
       if (isRecoverableIntelSchemaError(error)) {
-        return SHOULD_USE_SAMPLE_FALLBACK ? getIndustrialIntelSeedPreview().changes.slice(0, limit) : [];
+        return SHOULD_USE_SAMPLE_FALLBACK ? filterSampleChanges(filters).slice(0, limit) : [];
       }
       throw error;
     }
@@ -2469,6 +3162,7 @@ export class IndustrialIntelRepository {
         min_sf: string | null;
         max_sf: string | null;
         is_off_market_search_enabled: boolean;
+        search_areas: unknown;
         updated_at: Date | null;
         archived_at: Date | null;
       }>(
@@ -2484,6 +3178,7 @@ export class IndustrialIntelRepository {
             min_sf,
             max_sf,
             is_off_market_search_enabled,
+            search_areas,
             updated_at,
             archived_at
           FROM public.intel_requirements
@@ -2504,6 +3199,7 @@ export class IndustrialIntelRepository {
         minSf: intOrNull(row.min_sf),
         maxSf: intOrNull(row.max_sf),
         isOffMarketSearchEnabled: boolOrFalse(row.is_off_market_search_enabled),
+        searchAreas: searchAreasOrEmpty(row.search_areas),
         updatedAt: isoOrNull(row.updated_at),
         archivedAt: isoOrNull(row.archived_at),
       }));
@@ -2542,6 +3238,7 @@ export class IndustrialIntelRepository {
         timing_notes: string | null;
         special_notes: string | null;
         is_off_market_search_enabled: boolean;
+        search_areas: unknown;
         created_at: Date | null;
         updated_at: Date | null;
         archived_at: Date | null;
@@ -2581,6 +3278,7 @@ export class IndustrialIntelRepository {
         timingNotes: row.timing_notes,
         specialNotes: row.special_notes,
         isOffMarketSearchEnabled: boolOrFalse(row.is_off_market_search_enabled),
+        searchAreas: searchAreasOrEmpty(row.search_areas),
         createdAt: isoOrNull(row.created_at),
         updatedAt: isoOrNull(row.updated_at),
         archivedAt: isoOrNull(row.archived_at),
@@ -2617,10 +3315,11 @@ export class IndustrialIntelRepository {
           timing_notes,
           special_notes,
           is_off_market_search_enabled,
+          search_areas,
           updated_at
         ) VALUES (
           $1, $2, $3, COALESCE($4, 'draft'), COALESCE($5, 'lease'), $6, $7, $8, $9, $10,
-          $11, $12, $13, $14, $15, $16, $17, $18, COALESCE($19, false), now()
+          $11, $12, $13, $14, $15, $16, $17, $18, COALESCE($19, false), COALESCE($20::jsonb, '[]'::jsonb), now()
         )
         RETURNING id
       `,
@@ -2644,6 +3343,7 @@ export class IndustrialIntelRepository {
         input.timingNotes ?? null,
         input.specialNotes ?? null,
         input.isOffMarketSearchEnabled ?? null,
+        input.searchAreas ? JSON.stringify(input.searchAreas) : null,
       ],
     );
 
@@ -2678,6 +3378,7 @@ export class IndustrialIntelRepository {
           timing_notes = $18,
           special_notes = $19,
           is_off_market_search_enabled = $20,
+          search_areas = $21::jsonb,
           updated_at = now()
         WHERE created_by_user_id = $1 AND id = $2
       `,
@@ -2702,6 +3403,7 @@ export class IndustrialIntelRepository {
         input.timingNotes ?? current.timingNotes,
         input.specialNotes ?? current.specialNotes,
         input.isOffMarketSearchEnabled ?? current.isOffMarketSearchEnabled,
+        JSON.stringify(input.searchAreas ?? current.searchAreas),
       ],
     );
 
@@ -2724,6 +3426,7 @@ export class IndustrialIntelRepository {
       requirement_id: string;
       key: string;
       operator: string;
+      comparator: string | null;
       value_text: string | null;
       value_number: string | null;
       value_boolean: boolean | null;
@@ -2731,7 +3434,7 @@ export class IndustrialIntelRepository {
       updated_at: Date | null;
     }>(
       `
-        SELECT id, requirement_id, key, operator, value_text, value_number, value_boolean, weight, updated_at
+        SELECT id, requirement_id, key, operator, comparator, value_text, value_number, value_boolean, weight, updated_at
         FROM public.intel_requirement_preferences
         WHERE requirement_id = $1
         ORDER BY weight DESC, updated_at DESC NULLS LAST, created_at DESC NULLS LAST
@@ -2744,8 +3447,9 @@ export class IndustrialIntelRepository {
       requirementId: row.requirement_id,
       key: row.key,
       operator: row.operator,
+      comparator: row.comparator,
       valueText: row.value_text,
-      valueNumber: intOrNull(row.value_number),
+      valueNumber: numOrNull(row.value_number),
       valueBoolean: boolOrNull(row.value_boolean),
       weight: intOrZero(row.weight),
       updatedAt: isoOrNull(row.updated_at),
@@ -2769,17 +3473,19 @@ export class IndustrialIntelRepository {
             requirement_id,
             key,
             operator,
+            comparator,
             value_text,
             value_number,
             value_boolean,
             weight,
             updated_at
-          ) VALUES ($1, $2, COALESCE($3, 'preferred'), $4, $5, $6, COALESCE($7, 1), now())
+          ) VALUES ($1, $2, COALESCE($3, 'preferred'), $4, $5, $6, $7, COALESCE($8, 1), now())
         `,
         [
           requirementId,
           pref.key,
           pref.operator ?? null,
+          pref.comparator ?? null,
           pref.valueText ?? null,
           pref.valueNumber ?? null,
           pref.valueBoolean ?? null,
@@ -2899,6 +3605,171 @@ export class IndustrialIntelRepository {
     };
   }
 
+  async getActiveRequirementRefs(): Promise<Array<{ id: string; createdByUserId: string }>> {
+    try {
+      if (!(await this.hasRequirementTables())) return [];
+
+      const result = await pool.query<{ id: string; created_by_user_id: string }>(
+        `
+          SELECT id, created_by_user_id
+          FROM public.intel_requirements
+          WHERE status = 'active' AND archived_at IS NULL
+        `,
+      );
+      return result.rows.map((row) => ({ id: row.id, createdByUserId: row.created_by_user_id }));
+    } catch (error) {
+      if (isRecoverableIntelSchemaError(error)) return [];
+      throw error;
+    }
+  }
+
+  async insertRequirementAlerts(ingestRunId: string | null, alerts: PlannedRequirementAlert[]): Promise<number> {
+    let inserted = 0;
+    for (const alert of alerts) {
+      const result = await pool.query(
+        `
+          INSERT INTO public.intel_requirement_alerts (
+            requirement_id,
+            listing_id,
+            change_id,
+            ingest_run_id,
+            alert_type,
+            tier,
+            score,
+            summary,
+            reasons
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9::jsonb)
+          ON CONFLICT DO NOTHING
+        `,
+        [
+          alert.requirementId,
+          alert.listingId,
+          alert.changeId,
+          ingestRunId,
+          alert.alertType,
+          alert.tier,
+          alert.score,
+          alert.summary,
+          JSON.stringify(alert.reasons),
+        ],
+      );
+      inserted += result.rowCount ?? 0;
+    }
+    return inserted;
+  }
+
+  async getRequirementAlerts(userId: string, filters: IntelRequirementAlertFilters = {}): Promise<IntelRequirementAlert[]> {
+    try {
+      const result = await pool.query<{
+        id: string;
+        requirement_id: string;
+        requirement_title: string;
+        client_name: string | null;
+        listing_id: string;
+        listing_title: string;
+        change_id: string | null;
+        alert_type: IntelRequirementAlertType;
+        tier: string | null;
+        score: number | null;
+        summary: string;
+        reasons: string[] | null;
+        read_at: Date | null;
+        created_at: Date | null;
+      }>(
+        `
+          SELECT
+            alerts.id,
+            alerts.requirement_id,
+            requirements.title AS requirement_title,
+            requirements.client_name,
+            alerts.listing_id,
+            listings.title AS listing_title,
+            alerts.change_id,
+            alerts.alert_type,
+            alerts.tier,
+            alerts.score,
+            alerts.summary,
+            alerts.reasons,
+            alerts.read_at,
+            alerts.created_at
+          FROM public.intel_requirement_alerts alerts
+          INNER JOIN public.intel_requirements requirements ON requirements.id = alerts.requirement_id
+          INNER JOIN public.intel_listings listings ON listings.id = alerts.listing_id
+          WHERE requirements.created_by_user_id = $1
+            AND ($2::varchar IS NULL OR alerts.requirement_id = $2)
+            AND (NOT $3::boolean OR alerts.read_at IS NULL)
+          ORDER BY alerts.created_at DESC NULLS LAST
+          LIMIT $4
+        `,
+        [userId, filters.requirementId ?? null, Boolean(filters.unreadOnly), filters.limit ?? 100],
+      );
+
+      return result.rows.map((row) => ({
+        id: row.id,
+        requirementId: row.requirement_id,
+        requirementTitle: row.requirement_title,
+        clientName: row.client_name,
+        listingId: row.listing_id,
+        listingTitle: row.listing_title,
+        changeId: row.change_id,
+        alertType: row.alert_type,
+        tier: row.tier,
+        score: intOrNull(row.score),
+        summary: row.summary,
+        reasons: Array.isArray(row.reasons) ? row.reasons : [],
+        readAt: isoOrNull(row.read_at),
+        createdAt: isoOrNull(row.created_at),
+      }));
+    } catch (error) {
+      if (isRecoverableIntelSchemaError(error)) return [];
+      throw error;
+    }
+  }
+
+  async getRequirementAlertUnreadCounts(userId: string): Promise<Record<string, number>> {
+    try {
+      const result = await pool.query<{ requirement_id: string; unread: string }>(
+        `
+          SELECT alerts.requirement_id, COUNT(*) AS unread
+          FROM public.intel_requirement_alerts alerts
+          INNER JOIN public.intel_requirements requirements ON requirements.id = alerts.requirement_id
+          WHERE requirements.created_by_user_id = $1 AND alerts.read_at IS NULL
+          GROUP BY alerts.requirement_id
+        `,
+        [userId],
+      );
+      return Object.fromEntries(result.rows.map((row) => [row.requirement_id, intOrZero(row.unread)]));
+    } catch (error) {
+      if (isRecoverableIntelSchemaError(error)) return {};
+      throw error;
+    }
+  }
+
+  async markRequirementAlertsRead(
+    userId: string,
+    input: { requirementId?: string | null; alertIds?: string[] | null },
+  ): Promise<number> {
+    try {
+      const result = await pool.query(
+        `
+          UPDATE public.intel_requirement_alerts alerts
+          SET read_at = now()
+          FROM public.intel_requirements requirements
+          WHERE requirements.id = alerts.requirement_id
+            AND requirements.created_by_user_id = $1
+            AND alerts.read_at IS NULL
+            AND ($2::varchar IS NULL OR alerts.requirement_id = $2)
+            AND ($3::varchar[] IS NULL OR alerts.id = ANY($3::varchar[]))
+        `,
+        [userId, input.requirementId ?? null, input.alertIds?.length ? input.alertIds : null],
+      );
+      return result.rowCount ?? 0;
+    } catch (error) {
+      if (isRecoverableIntelSchemaError(error)) return 0;
+      throw error;
+    }
+  }
+
   async getSurveys(userId: string): Promise<IntelSurveyListItem[]> {
     try {
       if (!(await this.hasSurveyTables())) return [];
@@ -2913,6 +3784,7 @@ export class IndustrialIntelRepository {
         share_token: string | null;
         item_count: string | number | null;
         visible_item_count: string | number | null;
+        unread_client_feedback_count: string | number | null;
         created_by_user_id: string | null;
         created_at: Date | null;
         updated_at: Date | null;
@@ -2928,6 +3800,14 @@ export class IndustrialIntelRepository {
             surveys.share_token,
             COUNT(items.id)::int AS item_count,
             COUNT(items.id) FILTER (WHERE items.hidden = false)::int AS visible_item_count,
+            (
+              SELECT COUNT(*)::int
+              FROM public.intel_survey_events events
+              WHERE events.survey_id = surveys.id
+                AND events.actor_type = 'client'
+                AND events.action IN ('client.response', 'client.comment')
+                AND (surveys.client_feedback_read_at IS NULL OR events.created_at > surveys.client_feedback_read_at)
+            ) AS unread_client_feedback_count,
             surveys.created_by_user_id,
             surveys.created_at,
             surveys.updated_at
@@ -2951,6 +3831,7 @@ export class IndustrialIntelRepository {
         shareToken: row.share_token,
         itemCount: intOrZero(row.item_count),
         visibleItemCount: intOrZero(row.visible_item_count),
+        unreadClientFeedbackCount: intOrZero(row.unread_client_feedback_count),
         createdByUserId: row.created_by_user_id,
         createdAt: isoOrNull(row.created_at),
         updatedAt: isoOrNull(row.updated_at),
@@ -2975,6 +3856,7 @@ export class IndustrialIntelRepository {
         share_token: string | null;
         item_count: string | number | null;
         visible_item_count: string | number | null;
+        unread_client_feedback_count: string | number | null;
         created_by_user_id: string | null;
         created_at: Date | null;
         updated_at: Date | null;
@@ -2990,6 +3872,14 @@ export class IndustrialIntelRepository {
             surveys.share_token,
             COUNT(items.id)::int AS item_count,
             COUNT(items.id) FILTER (WHERE items.hidden = false)::int AS visible_item_count,
+            (
+              SELECT COUNT(*)::int
+              FROM public.intel_survey_events events
+              WHERE events.survey_id = surveys.id
+                AND events.actor_type = 'client'
+                AND events.action IN ('client.response', 'client.comment')
+                AND (surveys.client_feedback_read_at IS NULL OR events.created_at > surveys.client_feedback_read_at)
+            ) AS unread_client_feedback_count,
             surveys.created_by_user_id,
             surveys.created_at,
             surveys.updated_at
@@ -3015,6 +3905,11 @@ export class IndustrialIntelRepository {
         broker_notes: string | null;
         client_notes: string | null;
         hidden: boolean;
+        lease_terms: LeaseTerms | null;
+        client_response: IntelSurveyClientResponse | null;
+        client_response_at: Date | null;
+        tour_notes: string | null;
+        toured_at: Date | null;
         item_created_at: Date | null;
         item_updated_at: Date | null;
         source_id: string;
@@ -3037,6 +3932,7 @@ export class IndustrialIntelRepository {
         land_acres: string | null;
         total_price: string | null;
         price_per_acre: string | null;
+        clear_height_ft: string | null;
         raw_payload: Record<string, unknown> | null;
         brochure_url: string | null;
         source_url: string | null;
@@ -3053,6 +3949,11 @@ export class IndustrialIntelRepository {
             items.broker_notes,
             items.client_notes,
             items.hidden,
+            items.lease_terms,
+            items.client_response,
+            items.client_response_at,
+            items.tour_notes,
+            items.toured_at,
             items.created_at AS item_created_at,
             items.updated_at AS item_updated_at,
             listings.source_id,
@@ -3075,6 +3976,7 @@ export class IndustrialIntelRepository {
             listings.land_acres,
             listings.total_price,
             listings.price_per_acre,
+            listings.clear_height_ft,
             listings.raw_payload,
             listings.brochure_url,
             listings.source_url,
@@ -3089,18 +3991,8 @@ export class IndustrialIntelRepository {
         [id],
       );
 
-      const items = itemResult.rows.map((row) => ({
-        id: row.item_id,
-        surveyId: row.survey_id,
-        listingId: row.listing_id,
-        sortOrder: intOrZero(row.sort_order),
-        recommendationLabel: row.recommendation_label,
-        brokerNotes: row.broker_notes,
-        clientNotes: row.client_notes,
-        hidden: Boolean(row.hidden),
-        createdAt: isoOrNull(row.item_created_at),
-        updatedAt: isoOrNull(row.item_updated_at),
-        listing: {
+      const items = itemResult.rows.map((row) => {
+        const listing = {
           id: row.listing_id,
           sourceId: row.source_id,
           sourceName: row.source_name,
@@ -3123,12 +4015,34 @@ export class IndustrialIntelRepository {
           totalPrice: numOrNull(row.total_price),
           pricePerAcre: numOrNull(row.price_per_acre),
           leaseRatePsf: numOrNull(row.raw_payload?.leaseRatePsf),
+          clearHeightFt: numOrNull(row.clear_height_ft),
+          dockDoors: numOrNull(row.raw_payload?.dockDoors),
+          yardAcres: numOrNull(row.raw_payload?.yardAcres),
           brochureUrl: row.brochure_url,
           sourceUrl: row.source_url,
           lastSeenAt: isoOrNull(row.last_seen_at),
           removedAt: isoOrNull(row.removed_at),
-        },
-      }));
+        };
+        return {
+          id: row.item_id,
+          surveyId: row.survey_id,
+          listingId: row.listing_id,
+          sortOrder: intOrZero(row.sort_order),
+          recommendationLabel: row.recommendation_label,
+          brokerNotes: row.broker_notes,
+          clientNotes: row.client_notes,
+          hidden: Boolean(row.hidden),
+          leaseTerms: row.lease_terms,
+          leaseEconomics: surveyItemLeaseEconomics(row.lease_terms, listing),
+          clientResponse: row.client_response,
+          clientResponseAt: isoOrNull(row.client_response_at),
+          tourNotes: row.tour_notes,
+          touredAt: isoOrNull(row.toured_at),
+          createdAt: isoOrNull(row.item_created_at),
+          updatedAt: isoOrNull(row.item_updated_at),
+          listing,
+        };
+      });
 
       return {
         id: survey.id,
@@ -3140,6 +4054,7 @@ export class IndustrialIntelRepository {
         shareToken: survey.share_token,
         itemCount: intOrZero(survey.item_count),
         visibleItemCount: intOrZero(survey.visible_item_count),
+        unreadClientFeedbackCount: intOrZero(survey.unread_client_feedback_count),
         createdByUserId: survey.created_by_user_id,
         createdAt: isoOrNull(survey.created_at),
         updatedAt: isoOrNull(survey.updated_at),
@@ -3164,6 +4079,7 @@ export class IndustrialIntelRepository {
           FROM public.intel_surveys
           WHERE share_token = $1
             AND status = 'shared'
+            AND (share_expires_at IS NULL OR share_expires_at > now())
           LIMIT 1
         `,
         [token],
@@ -3182,6 +4098,7 @@ export class IndustrialIntelRepository {
           .map((item) => ({
             ...item,
             brokerNotes: null,
+            tourNotes: null,
             hidden: false,
           })),
       };
@@ -3191,22 +4108,351 @@ export class IndustrialIntelRepository {
     }
   }
 
-  async getSurveyEvents(userId: string, surveyId: string, limit = 30): Promise<IntelSurveyEvent[]> {
+  // Expired links are still returned so the route can tell the client the
+  // link expired rather than that it never existed.
+  async getSurveyShareGate(token: string): Promise<IntelSurveyShareGate | null> {
+    try {
+      if (!(await this.hasSurveyTables())) return null;
+      await this.ensureSurveyTables();
+
+      const result = await pool.query<{ id: string; share_expires_at: Date | null; share_passcode_hash: string | null }>(
+        `
+          SELECT id, share_expires_at, share_passcode_hash
+          FROM public.intel_surveys
+          WHERE share_token = $1
+            AND status = 'shared'
+          LIMIT 1
+        `,
+        [token],
+      );
+      const row = result.rows[0];
+      if (!row) return null;
+      return {
+        surveyId: row.id,
+        expiresAt: isoOrNull(row.share_expires_at),
+        passcodeHash: row.share_passcode_hash,
+      };
+    } catch (error) {
+      if (isRecoverableIntelSchemaError(error)) return null;
+      throw error;
+    }
+  }
+
+  async getSurveyShareSettings(userId: string, surveyId: string): Promise<IntelSurveyShareSettings | null> {
+    await this.ensureSurveyTables();
+
+    const result = await pool.query<{
+      share_token: string | null;
+      status: string;
+      share_expires_at: Date | null;
+      share_passcode_hash: string | null;
+    }>(
+      `
+        SELECT share_token, status, share_expires_at, share_passcode_hash
+        FROM public.intel_surveys
+        WHERE id = $1 AND created_by_user_id = $2
+        LIMIT 1
+      `,
+      [surveyId, userId],
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+    return {
+      enabled: Boolean(row.share_token) && row.status === "shared",
+      expiresAt: isoOrNull(row.share_expires_at),
+      hasPasscode: Boolean(row.share_passcode_hash),
+    };
+  }
+
+  async updateSurveyShareSettings(
+    userId: string,
+    surveyId: string,
+    input: UpdateIntelSurveyShareSettingsInput,
+  ): Promise<IntelSurveyShareSettings | null> {
+    await this.ensureSurveyTables();
+
+    const result = await pool.query(
+      `
+        UPDATE public.intel_surveys
+        SET
+          share_expires_at = CASE WHEN $3 THEN $4::timestamptz ELSE share_expires_at END,
+          share_passcode_hash = CASE WHEN $5 THEN $6 ELSE share_passcode_hash END,
+          updated_at = now()
+        WHERE id = $1 AND created_by_user_id = $2
+      `,
+      [
+        surveyId,
+        userId,
+        input.expiresAt !== undefined,
+        input.expiresAt ?? null,
+        input.passcodeHash !== undefined,
+        input.passcodeHash ?? null,
+      ],
+    );
+    if (!result.rowCount) return null;
+
+    const settings = await this.getSurveyShareSettings(userId, surveyId);
+    const passcode = input.passcodeHash === undefined ? "unchanged" : input.passcodeHash ? "set" : "cleared";
+    const changes = [
+      input.expiresAt === undefined ? null : input.expiresAt ? `expires ${input.expiresAt.slice(0, 10)}` : "expiry removed",
+      passcode === "unchanged" ? null : `passcode ${passcode}`,
+    ].filter(Boolean);
+    await this.logSurveyEvent({
+      surveyId,
+      actorId: userId,
+      action: SHARE_SETTINGS_ACTION,
+      summary: changes.length > 0 ? `Client link ${changes.join(", ")}` : "Updated client link settings",
+      payload: { expiresAt: settings?.expiresAt ?? null, passcode },
+    });
+    return settings;
+  }
+
+  /** Logs a share-link page view, or an option being opened when itemId is set. */
+  async recordSurveyShareView(token: string, itemId: string | null): Promise<boolean> {
+    const survey = await this.getSurveyByShareToken(token);
+    if (!survey) return false;
+    const item = itemId ? survey.items.find((candidate) => candidate.id === itemId) : null;
+    if (itemId && !item) return false;
+
+    await this.logSurveyEvent({
+      surveyId: survey.id,
+      actorType: "client",
+      action: item ? SHARE_ITEM_OPENED_ACTION : SHARE_VIEW_ACTION,
+      summary: item ? `Client opened ${item.listing.title}` : "Client viewed the survey",
+      payload: item ? { itemId: item.id, listingId: item.listingId } : {},
+    });
+    return true;
+  }
+
+  async recordSurveyShareUnlockFailure(token: string, failure: ShareUnlockFailure): Promise<void> {
+    const gate = await this.getSurveyShareGate(token);
+    if (!gate) return;
+    await this.logSurveyEvent({
+      surveyId: gate.surveyId,
+      actorType: "client",
+      action: SHARE_UNLOCK_FAILED_ACTION,
+      summary: describeShareUnlockFailure(failure),
+      payload: failure,
+    });
+  }
+
+  async getSurveyEngagementEvents(userId: string, surveyId: string): Promise<IntelSurveyEvent[]> {
     try {
       const survey = await this.getSurveyById(userId, surveyId);
       if (!survey) return [];
       await this.ensureSurveyTables();
 
+      const result = await pool.query<SurveyEventRow>(
+        `
+          SELECT id, survey_id, actor_type, actor_id, action, summary, payload, created_at
+          FROM public.intel_survey_events
+          WHERE survey_id = $1
+            AND action = ANY($2::varchar[])
+          ORDER BY created_at DESC NULLS LAST
+          LIMIT 2000
+        `,
+        [
+          surveyId,
+          [
+            SHARE_VIEW_ACTION,
+            SHARE_ITEM_OPENED_ACTION,
+            SHARE_CREATED_ACTION,
+            SHARE_REVOKED_ACTION,
+            SHARE_SETTINGS_ACTION,
+            SHARE_UNLOCK_FAILED_ACTION,
+          ],
+        ],
+      );
+      return result.rows.map(surveyEventFromRow);
+    } catch (error) {
+      if (isRecoverableIntelSchemaError(error)) return [];
+      throw error;
+    }
+  }
+
+  async getSurveyPreparer(userId: string): Promise<IntelSurveyPreparer | null> {
+    try {
+      const result = await pool.query<{
+        name: string | null;
+        first_name: string | null;
+        last_name: string | null;
+        company: string | null;
+        email: string | null;
+      }>(
+        `SELECT name, first_name, last_name, company, email FROM public.profiles WHERE id = $1 LIMIT 1`,
+        [userId],
+      );
+      const row = result.rows[0];
+      if (!row) return null;
+      return {
+        name: row.name || [row.first_name, row.last_name].filter(Boolean).join(" ") || null,
+        company: row.company,
+        email: row.email,
+      };
+    } catch (error) {
+      if (isRecoverableIntelSchemaError(error)) return null;
+      throw error;
+    }
+  }
+
+  async getSurveyClientFactKeys(surveyId: string): Promise<string[] | null> {
+    try {
+      const result = await pool.query<{ client_comparison_fact_keys: unknown }>(
+        `SELECT client_comparison_fact_keys FROM public.intel_surveys WHERE id = $1`,
+        [surveyId],
+      );
+      const keys = result.rows[0]?.client_comparison_fact_keys;
+      return Array.isArray(keys) ? keys.filter((key): key is string => typeof key === "string") : null;
+    } catch (error) {
+      if (isRecoverableIntelSchemaError(error)) return null;
+      throw error;
+    }
+  }
+
+  async updateSurveyClientFactKeys(userId: string, surveyId: string, keys: string[] | null): Promise<boolean> {
+    await this.ensureSurveyTables();
+
+    const result = await pool.query(
+      `
+        UPDATE public.intel_surveys
+        SET client_comparison_fact_keys = $3::jsonb, updated_at = now()
+        WHERE id = $1 AND created_by_user_id = $2
+      `,
+      [surveyId, userId, keys === null ? null : JSON.stringify(keys)],
+    );
+    if (!result.rowCount) return false;
+
+    await this.logSurveyEvent({
+      surveyId,
+      actorId: userId,
+      action: "survey.comparison_updated",
+      summary: keys === null ? "Reset client comparison to the standard facts" : `Showing ${keys.length} comparison facts to the client`,
+      payload: { clientFactKeys: keys },
+    });
+    return true;
+  }
+
+  async getSurveyTour(surveyId: string): Promise<IntelSurveyTourSettings | null> {
+    try {
       const result = await pool.query<{
-        id: string;
         survey_id: string;
-        actor_type: IntelSurveyEventActorType;
-        actor_id: string | null;
-        action: string;
-        summary: string | null;
-        payload: Record<string, unknown> | null;
-        created_at: Date | null;
+        start_label: string | null;
+        start_latitude: string;
+        start_longitude: string;
+        start_at: Date;
+        minutes_per_stop: number;
+        item_ids: unknown;
+        updated_at: Date | null;
       }>(
+        `
+          SELECT survey_id, start_label, start_latitude, start_longitude, start_at, minutes_per_stop, item_ids, updated_at
+          FROM public.intel_survey_tours
+          WHERE survey_id = $1
+        `,
+        [surveyId],
+      );
+      const row = result.rows[0];
+      if (!row) return null;
+      return {
+        surveyId: row.survey_id,
+        startLabel: row.start_label,
+        startLatitude: Number(row.start_latitude),
+        startLongitude: Number(row.start_longitude),
+        startAt: isoOrNull(row.start_at) ?? new Date(0).toISOString(),
+        minutesPerStop: intOrZero(row.minutes_per_stop),
+        itemIds: Array.isArray(row.item_ids) ? row.item_ids.filter((id): id is string => typeof id === "string") : [],
+        updatedAt: isoOrNull(row.updated_at),
+      };
+    } catch (error) {
+      if (isRecoverableIntelSchemaError(error)) return null;
+      throw error;
+    }
+  }
+
+  async saveSurveyTour(userId: string, surveyId: string, input: SaveIntelSurveyTourInput): Promise<IntelSurveyTourSettings | null> {
+    await this.ensureSurveyTables();
+
+    const survey = await this.getSurveyById(userId, surveyId);
+    if (!survey) return null;
+
+    await pool.query(
+      `
+        INSERT INTO public.intel_survey_tours (
+          survey_id, start_label, start_latitude, start_longitude, start_at, minutes_per_stop, item_ids, created_by_user_id
+        ) VALUES ($1, $2, $3, $4, $5::timestamptz, $6, $7::jsonb, $8)
+        ON CONFLICT (survey_id) DO UPDATE SET
+          start_label = EXCLUDED.start_label,
+          start_latitude = EXCLUDED.start_latitude,
+          start_longitude = EXCLUDED.start_longitude,
+          start_at = EXCLUDED.start_at,
+          minutes_per_stop = EXCLUDED.minutes_per_stop,
+          item_ids = EXCLUDED.item_ids,
+          updated_at = now()
+      `,
+      [
+        surveyId,
+        input.startLabel,
+        input.startLatitude,
+        input.startLongitude,
+        input.startAt,
+        input.minutesPerStop,
+        JSON.stringify(input.itemIds),
+        userId,
+      ],
+    );
+
+    await this.logSurveyEvent({
+      surveyId,
+      actorId: userId,
+      action: "tour.planned",
+      summary: `Planned a ${input.itemIds.length}-stop tour starting ${input.startAt.slice(0, 10)}`,
+      payload: { ...input },
+    });
+    return this.getSurveyTour(surveyId);
+  }
+
+  /** Saves what the broker saw at a stop; clearing the notes also clears the toured mark. */
+  async recordSurveyTourStopNotes(
+    userId: string,
+    surveyId: string,
+    itemId: string,
+    notes: string | null,
+  ): Promise<IntelSurveyDetail | null> {
+    await this.ensureSurveyTables();
+
+    const survey = await this.getSurveyById(userId, surveyId);
+    const item = survey?.items.find((candidate) => candidate.id === itemId);
+    if (!survey || !item) return null;
+
+    await pool.query(
+      `
+        UPDATE public.intel_survey_items
+        SET
+          tour_notes = $3,
+          toured_at = CASE WHEN $3::text IS NULL THEN NULL ELSE COALESCE(toured_at, now()) END,
+          updated_at = now()
+        WHERE survey_id = $1 AND id = $2
+      `,
+      [surveyId, itemId, notes],
+    );
+
+    await this.logSurveyEvent({
+      surveyId,
+      actorId: userId,
+      action: "tour.stop_noted",
+      summary: notes ? `Added tour notes for ${item.listing.title}` : `Cleared tour notes for ${item.listing.title}`,
+      payload: { itemId, listingId: item.listingId, before: item.tourNotes, after: notes },
+    });
+    return this.getSurveyById(userId, surveyId);
+  }
+
+  async getSurveyEvents(userId: string, surveyId: string, limit = 30): Promise<IntelSurveyEvent[]> {
+    try {
+      const survey = await this.getSurveyById(userId, surveyId);
+      if (!survey) return [];
+      await this.ensureSurveyTables();
+
+      const result = await pool.query<SurveyEventRow>(
         `
           SELECT id, survey_id, actor_type, actor_id, action, summary, payload, created_at
           FROM public.intel_survey_events
@@ -3217,22 +4463,171 @@ export class IndustrialIntelRepository {
         [surveyId, limit],
       );
 
-      return result.rows.map((row) => ({
-        id: row.id,
-        surveyId: row.survey_id,
-        actorType: row.actor_type,
-        actorId: row.actor_id,
-        action: row.action,
-        summary: row.summary,
-        payload: row.payload || {},
-        createdAt: isoOrNull(row.created_at),
-      }));
+      return result.rows.map(surveyEventFromRow);
     } catch (error) {
       if (isRecoverableIntelSchemaError(error)) return [];
       throw error;
     }
   }
 
+  private async getClientSurveyEvents(surveyId: string, limit: number): Promise<IntelSurveyEvent[]> {
+    const result = await pool.query<SurveyEventRow>(
+      `
+        SELECT id, survey_id, actor_type, actor_id, action, summary, payload, created_at
+        FROM public.intel_survey_events
+        WHERE survey_id = $1
+          AND actor_type = 'client'
+          AND action IN ($3, $4)
+        ORDER BY created_at DESC NULLS LAST
+        LIMIT $2
+      `,
+      [surveyId, limit, SURVEY_CLIENT_RESPONSE_ACTION, SURVEY_CLIENT_COMMENT_ACTION],
+    );
+    return result.rows.map(surveyEventFromRow);
+  }
+
+  async getSurveyClientFeedback(userId: string, surveyId: string): Promise<IntelSurveyClientFeedback | null> {
+    try {
+      const survey = await this.getSurveyById(userId, surveyId);
+      if (!survey) return null;
+      await this.ensureSurveyTables();
+
+      const readResult = await pool.query<{ client_feedback_read_at: Date | null }>(
+        `SELECT client_feedback_read_at FROM public.intel_surveys WHERE id = $1`,
+        [surveyId],
+      );
+      const readAt = isoOrNull(readResult.rows[0]?.client_feedback_read_at ?? null);
+      const events = await this.getClientSurveyEvents(surveyId, 200);
+      return {
+        readAt,
+        ...summarizeUnreadClientFeedback(events, readAt),
+        events,
+      };
+    } catch (error) {
+      if (isRecoverableIntelSchemaError(error)) return null;
+      throw error;
+    }
+  }
+
+  async markSurveyClientFeedbackRead(userId: string, surveyId: string): Promise<IntelSurveyClientFeedback | null> {
+    await this.ensureSurveyTables();
+
+    const result = await pool.query(
+      `
+        UPDATE public.intel_surveys
+        SET client_feedback_read_at = now()
+        WHERE id = $1 AND created_by_user_id = $2
+      `,
+      [surveyId, userId],
+    );
+    if (!result.rowCount) return null;
+    return this.getSurveyClientFeedback(userId, surveyId);
+  }
+
+  /** Client-authored events for the options still visible on the share link. */
+  async getSharedSurveyClientFeedback(token: string): Promise<IntelSurveyEvent[]> {
+    try {
+      const survey = await this.getSurveyByShareToken(token);
+      if (!survey) return [];
+      await this.ensureSurveyTables();
+
+      const visibleItemIds = new Set(survey.items.map((item) => item.id));
+      const events = await this.getClientSurveyEvents(survey.id, 200);
+      return events.filter((event) => typeof event.payload.itemId === "string" && visibleItemIds.has(event.payload.itemId));
+    } catch (error) {
+      if (isRecoverableIntelSchemaError(error)) return [];
+      throw error;
+    }
+  }
+
+  async recordSurveyClientFeedback(
+    token: string,
+    input: RecordIntelSurveyClientFeedbackInput,
+  ): Promise<IntelSurveyDetail | null> {
+    await this.ensureSurveyTables();
+
+    const survey = await this.getSurveyByShareToken(token);
+    if (!survey) return null;
+    const item = survey.items.find((candidate) => candidate.id === input.itemId);
+    if (!item) return null;
+
+    const authorName = input.authorName?.trim() || null;
+    const author = authorName || survey.clientName || "Client";
+    const comment = input.comment?.trim() || null;
+
+    if (input.response !== undefined && input.response !== item.clientResponse) {
+      await pool.query(
+        `
+          UPDATE public.intel_survey_items
+          SET client_response = $3, client_response_at = now()
+          WHERE survey_id = $1 AND id = $2
+        `,
+        [survey.id, item.id, input.response],
+      );
+      await this.logSurveyEvent({
+        surveyId: survey.id,
+        actorType: "client",
+        action: SURVEY_CLIENT_RESPONSE_ACTION,
+        summary: input.response
+          ? `${author} marked ${item.listing.title} as ${clientResponseLabel(input.response)}`
+          : `${author} cleared their response on ${item.listing.title}`,
+        payload: {
+          itemId: item.id,
+          listingId: item.listingId,
+          response: input.response,
+          previousResponse: item.clientResponse,
+          authorName,
+        },
+      });
+      if (input.response && survey.requirementId) {
+        await this.mirrorClientResponseDecision(survey.requirementId, item.listingId, input.response);
+      }
+    }
+
+    if (comment) {
+      await this.logSurveyEvent({
+        surveyId: survey.id,
+        actorType: "client",
+        action: SURVEY_CLIENT_COMMENT_ACTION,
+        summary: `${author} commented on ${item.listing.title}`,
+        payload: {
+          itemId: item.id,
+          listingId: item.listingId,
+          comment,
+          authorName,
+        },
+      });
+    }
+
+    return this.getSurveyByShareToken(token);
+  }
+
+  // Broker notes and sort order on an existing decision are left alone; only
+  // the decision follows the client.
+  private async mirrorClientResponseDecision(
+    requirementId: string,
+    listingId: string,
+    response: IntelSurveyClientResponse,
+  ): Promise<void> {
+    if (!(await this.hasRequirementDecisionTables())) return;
+    await pool.query(
+      `
+        INSERT INTO public.intel_requirement_listing_decisions (
+          requirement_id,
+          listing_id,
+          decision,
+          sort_order,
+          updated_at
+        ) VALUES ($1, $2, $3, 0, now())
+        ON CONFLICT (requirement_id, listing_id)
+        DO UPDATE SET
+          decision = EXCLUDED.decision,
+          updated_at = now()
+      `,
+      [requirementId, listingId, clientResponseDecision(response)],
+    );
+  }
+
   private async logSurveyEvent(input: CreateIntelSurveyEventInput): Promise<void> {
     await pool.query(
       `
@@ -3352,6 +4747,25 @@ export class IndustrialIntelRepository {
           patch: input,
         },
       });
+      if (updated.shareToken !== current.shareToken) {
+        if (current.shareToken) {
+          await this.logSurveyEvent({
+            surveyId: id,
+            actorId: userId,
+            action: SHARE_REVOKED_ACTION,
+            summary: updated.shareToken ? "Client link replaced" : "Client link revoked",
+            payload: { reason: updated.shareToken ? "rotated" : "disabled" },
+          });
+        }
+        if (updated.shareToken) {
+          await this.logSurveyEvent({
+            surveyId: id,
+            actorId: userId,
+            action: SHARE_CREATED_ACTION,
+            summary: "Client link created",
+          });
+        }
+      }
     }
     return updated;
   }
@@ -3369,6 +4783,7 @@ export class IndustrialIntelRepository {
     const nextSortOrder =
       input.sortOrder ??
       (survey.items.length > 0 ? Math.max(...survey.items.map((item) => item.sortOrder)) + 10 : 10);
+    const addedLeaseTerms = normalizeSurveyLeaseTerms(input.leaseTerms);
 
     await pool.query(
       `
@@ -3380,8 +4795,9 @@ export class IndustrialIntelRepository {
           broker_notes,
           client_notes,
           hidden,
+          lease_terms,
           updated_at
-        ) VALUES ($1, $2, $3, $4, $5, $6, COALESCE($7, false), now())
+        ) VALUES ($1, $2, $3, $4, $5, $6, COALESCE($7, false), $8::jsonb, now())
         ON CONFLICT (survey_id, listing_id)
         DO UPDATE SET
           hidden = false,
@@ -3389,6 +4805,7 @@ export class IndustrialIntelRepository {
           recommendation_label = COALESCE(EXCLUDED.recommendation_label, public.intel_survey_items.recommendation_label),
           broker_notes = COALESCE(EXCLUDED.broker_notes, public.intel_survey_items.broker_notes),
           client_notes = COALESCE(EXCLUDED.client_notes, public.intel_survey_items.client_notes),
+          lease_terms = COALESCE(EXCLUDED.lease_terms, public.intel_survey_items.lease_terms),
           updated_at = now()
       `,
       [
@@ -3399,6 +4816,7 @@ export class IndustrialIntelRepository {
         input.brokerNotes ?? null,
         input.clientNotes ?? null,
         input.hidden ?? null,
+        addedLeaseTerms ? JSON.stringify(addedLeaseTerms) : null,
       ],
     );
 
@@ -3432,6 +4850,7 @@ export class IndustrialIntelRepository {
     if (!survey) return null;
     const current = survey.items.find((item) => item.id === itemId);
     if (!current) return null;
+    const leaseTerms = input.leaseTerms === undefined ? current.leaseTerms : normalizeSurveyLeaseTerms(input.leaseTerms);
 
     await pool.query(
       `
@@ -3442,6 +4861,7 @@ export class IndustrialIntelRepository {
           broker_notes = $5,
           client_notes = $6,
           hidden = $7,
+          lease_terms = $8::jsonb,
           updated_at = now()
         WHERE survey_id = $1 AND id = $2
       `,
@@ -3453,6 +4873,7 @@ export class IndustrialIntelRepository {
         input.brokerNotes === undefined ? current.brokerNotes : input.brokerNotes,
         input.clientNotes === undefined ? current.clientNotes : input.clientNotes,
         input.hidden === undefined ? current.hidden : input.hidden,
+        leaseTerms ? JSON.stringify(leaseTerms) : null,
       ],
     );
 
@@ -3473,6 +4894,7 @@ export class IndustrialIntelRepository {
           brokerNotes: current.brokerNotes,
           clientNotes: current.clientNotes,
           hidden: current.hidden,
+          leaseTerms: current.leaseTerms,
         },
         after: next
           ? {
@@ -3481,6 +4903,7 @@ export class IndustrialIntelRepository {
               brokerNotes: next.brokerNotes,
               clientNotes: next.clientNotes,
               hidden: next.hidden,
+              leaseTerms: next.leaseTerms,
             }
           : null,
         patch: input,
@@ -0,0 +1,56 @@
+import type { RequirementFactValue } from "@level-cre/shared";
+import { industrialIntelRepository, type IntelListingListItem, type IntelRequirementDetail } from "./repo";
+import { planRequirementAlerts } from "./requirementAlerts";
+
+/**
+ * Scores the listings touched by an ingest run against every active
+ * requirement and queues alerts for new fits and shortlist changes. Failures
+ * are logged, never thrown: a broken alert pass must not fail the ingest.
+ */
+export async function queueRequirementAlertsForRun(runId: string): Promise<{ queued: number }> {
+  try {
+    const changes = await industrialIntelRepository.getRecentChanges(1000, { ingestRunId: runId });
+    if (changes.length === 0) return { queued: 0 };
+
+    const refs = await industrialIntelRepository.getActiveRequirementRefs();
+    if (refs.length === 0) return { queued: 0 };
+
+    const requirements: IntelRequirementDetail[] = [];
+    const shortlistedByRequirement = new Map<string, Set<string>>();
+    const factsByOwner = new Map<string, Map<string, Record<string, RequirementFactValue>>>();
+    const listingFactsByRequirement = new Map<string, Map<string, Record<string, RequirementFactValue>>>();
+    for (const ref of refs) {
+      const requirement = await industrialIntelRepository.getRequirementById(ref.createdByUserId, ref.id);
+      if (!requirement) continue;
+      requirements.push(requirement);
+      if (!factsByOwner.has(ref.createdByUserId)) {
+        factsByOwner.set(ref.createdByUserId, await industrialIntelRepository.getApprovedListingFacts(ref.createdByUserId));
+      }
+      listingFactsByRequirement.set(ref.id, factsByOwner.get(ref.createdByUserId)!);
+      const decisions = await industrialIntelRepository.getRequirementListingDecisions(ref.createdByUserId, ref.id);
+      shortlistedByRequirement.set(
+        ref.id,
+        new Set(decisions.filter((decision) => decision.decision === "shortlist").map((decision) => decision.listingId)),
+      );
+    }
+
+    const listingsById = new Map<string, IntelListingListItem>();
+    for (const listingId of Array.from(new Set(changes.map((change) => change.listingId)))) {
+      const listing = await industrialIntelRepository.getListingById(listingId);
+      if (listing) listingsById.set(listingId, listing);
+    }
+
+    const planned = planRequirementAlerts({
+      requirements,
+      changes,
+      listingsById,
+      shortlistedByRequirement,
+      listingFactsByRequirement,
+    });
+    if (planned.length === 0) return { queued: 0 };
+    return { queued: await industrialIntelRepository.insertRequirementAlerts(runId, planned) };
+  } catch (error) {
+    console.error(`Failed to queue requirement alerts for ingest run ${runId}:`, error);
+    return { queued: 0 };
+  }
+}
@@ -0,0 +1,112 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { rankRequirementListings, type ListingForRequirementMatching } from "@level-cre/shared";
+import { planRequirementAlerts } from "./requirementAlerts";
+
+const requirement = {
+  id: "req-1",
+  title: "Acheson distribution",
+  dealType: "lease",
+  submarket: "Acheson",
+  minSf: 20000,
+  maxSf: 40000,
+};
+
+const listing: ListingForRequirementMatching = {
+  id: "listing-1",
+  title: "Acheson Crossdock",
+  submarket: "Acheson",
+  listingType: "lease",
+  assetType: "building",
+  status: "active",
+  availableSf: 32000,
+  sourceUrl: "https://example.com/acheson",
+};
+
+const reviewListing: ListingForRequirementMatching = { ...listing, id: "listing-2", title: "Acheson Flex", sourceUrl: null, dataQualityStatus: "review" };
+
+test("planRequirementAlerts announces new fits once, not every update to a listing that already fit", () => {
+  const alerts = planRequirementAlerts({
+    requirements: [requirement],
+    listingsById: new Map([[listing.id, listing], [reviewListing.id, reviewListing]]),
+    shortlistedByRequirement: new Map(),
+    changes: [
+      { id: "change-1", listingId: listing.id, changeType: "new", changeSummary: null, fieldChanges: [] },
+      {
+        id: "change-2",
+        listingId: listing.id,
+        changeType: "updated",
+        changeSummary: null,
+        fieldChanges: [{ field: "availableSf", before: 30000, after: 32000, direction: "increase" }],
+      },
+      {
+        id: "change-3",
+        listingId: reviewListing.id,
+        changeType: "updated",
+        changeSummary: null,
+        fieldChanges: [{ field: "availableSf", before: 80000, after: 32000, direction: "decrease" }],
+      },
+    ],
+  });
+
+  assert.deepEqual(
+    alerts.map((alert) => [alert.changeId, alert.alertType, alert.tier, alert.summary]),
+    [
+      ["change-1", "new_match", "strong", "New strong match: Acheson Crossdock (80)"],
+      ["change-3", "new_match", "possible", "Now a possible match: Acheson Flex (68)"],
+    ],
+  );
+});
+
+test("planRequirementAlerts flags material changes and removals on shortlisted listings", () => {
+  const alerts = planRequirementAlerts({
+    requirements: [requirement],
+    listingsById: new Map([[listing.id, listing], [reviewListing.id, { ...reviewListing, removedAt: "2026-10-01T00:00:00Z" }]]),
+    shortlistedByRequirement: new Map([["req-1", new Set([listing.id])]]),
+    changes: [
+      {
+        id: "change-4",
+        listingId: listing.id,
+        changeType: "updated",
+        changeSummary: "Updated listing: Acheson Crossdock (Lease rate $10.50/SF → $9.75/SF)",
+        fieldChanges: [{ field: "leaseRatePsf", before: 10.5, after: 9.75, direction: "decrease" }],
+      },
+      { id: "change-5", listingId: listing.id, changeType: "updated", changeSummary: null, fieldChanges: [] },
+      { id: "change-6", listingId: reviewListing.id, changeType: "removed", changeSummary: null, fieldChanges: [] },
+    ],
+  });
+
+  assert.equal(alerts.length, 1);
+  assert.equal(alerts[0].alertType, "shortlist_change");
+  assert.equal(alerts[0].summary, "Shortlisted Acheson Crossdock: Updated listing: Acheson Crossdock (Lease rate $10.50/SF → $9.75/SF)");
+});
+
+test("planRequirementAlerts scores fact-backed preferences the same way the matches page does", () => {
+  const factRequirement = {
+    ...requirement,
+    preferences: [{ key: "dock_doors", operator: "required", comparator: "gte", valueNumber: 4, weight: 5 }],
+  };
+  const facts = { dock_doors: 6 };
+  const [fromMatchesPage] = rankRequirementListings(factRequirement, [{ ...listing, facts }]);
+  const change = { id: "change-7", listingId: listing.id, changeType: "new", changeSummary: null, fieldChanges: [] };
+
+  const [alert] = planRequirementAlerts({
+    requirements: [factRequirement],
+    listingsById: new Map([[listing.id, listing]]),
+    shortlistedByRequirement: new Map(),
+    listingFactsByRequirement: new Map([["req-1", new Map([[listing.id, facts]])]]),
+    changes: [change],
+  });
+  assert.equal(alert.score, fromMatchesPage.score);
+  assert.equal(alert.tier, fromMatchesPage.tier);
+  assert.ok(fromMatchesPage.reasons.includes("Must-have met: dock_doors >= 4"));
+
+  const [withoutFacts] = planRequirementAlerts({
+    requirements: [factRequirement],
+    listingsById: new Map([[listing.id, listing]]),
+    shortlistedByRequirement: new Map(),
+    changes: [change],
+  });
+  assert.notEqual(withoutFacts.score, fromMatchesPage.score);
+});
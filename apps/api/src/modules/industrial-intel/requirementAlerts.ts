@@ -0,0 +1,125 @@
+import {
+  scoreRequirementListing,
+  type ListingForRequirementMatching,
+  type RequirementFactValue,
+  type RequirementForMatching,
+  type RequirementMatch,
+} from "@level-cre/shared";
+import type { IntelListingFieldChange } from "./ingest/listingDiff";
+
+export type IntelRequirementAlertType = "new_match" | "shortlist_change";
+
+export type RequirementAlertChange = {
+  id: string;
+  listingId: string;
+  changeType: string;
+  changeSummary: string | null;
+  fieldChanges: IntelListingFieldChange[];
+};
+
+export type PlannedRequirementAlert = {
+  requirementId: string;
+  listingId: string;
+  changeId: string;
+  alertType: IntelRequirementAlertType;
+  tier: RequirementMatch["tier"] | null;
+  score: number | null;
+  summary: string;
+  reasons: string[];
+};
+
+const ALERT_TIERS = new Set<RequirementMatch["tier"]>(["strong", "possible"]);
+
+function isOffMarket(listing: ListingForRequirementMatching) {
+  return Boolean(listing.removedAt) || listing.status === "removed";
+}
+
+/**
+ * Rebuilds the listing as it looked before an `updated` change so a listing
+ * that already fit is not announced again when an unrelated field moves.
+ */
+export function listingBeforeChange<TListing extends ListingForRequirementMatching>(
+  listing: TListing,
+  fieldChanges: IntelListingFieldChange[],
+): TListing {
+  const previous: Record<string, unknown> = { ...listing };
+  for (const change of fieldChanges) {
+    const before = change.before;
+    switch (change.field) {
+      case "status":
+      case "brochureUrl":
+        previous[change.field] = before == null ? null : String(before);
+        break;
+      default:
+        previous[change.field] = before == null ? null : Number(before);
+    }
+  }
+  return previous as TListing;
+}
+
+export function planRequirementAlerts<TListing extends ListingForRequirementMatching>(input: {
+  requirements: Array<RequirementForMatching & { id: string }>;
+  changes: RequirementAlertChange[];
+  listingsById: Map<string, TListing>;
+  shortlistedByRequirement: Map<string, Set<string>>;
+  // Approved dossier facts by listing, keyed by requirement: each requirement
+  // is scored with its owner's facts, as on the matches page.
+  listingFactsByRequirement?: Map<string, Map<string, Record<string, RequirementFactValue>>>;
+}): PlannedRequirementAlert[] {
+  const alerts: PlannedRequirementAlert[] = [];
+
+  for (const change of input.changes) {
+    const changedListing = input.listingsById.get(change.listingId);
+    if (!changedListing) continue;
+
+    for (const requirement of input.requirements) {
+      const facts = input.listingFactsByRequirement?.get(requirement.id)?.get(changedListing.id);
+      const listing = facts ? { ...changedListing, facts } : changedListing;
+      const shortlisted = input.shortlistedByRequirement.get(requirement.id)?.has(listing.id) ?? false;
+
+      if (shortlisted) {
+        const material = change.changeType === "removed" || change.changeType === "reactivated" || change.fieldChanges.length > 0;
+        if (!material) continue;
+        const match = isOffMarket(listing) ? null : scoreRequirementListing(requirement, listing);
+        alerts.push({
+          requirementId: requirement.id,
+          listingId: listing.id,
+          changeId: change.id,
+          alertType: "shortlist_change",
+          tier: match?.tier ?? null,
+          score: match?.score ?? null,
+          summary: `Shortlisted ${listing.title}: ${change.changeSummary || change.changeType}`,
+          reasons: match?.warnings.slice(0, 3) ?? [],
+        });
+        continue;
+      }
+
+      if (change.changeType === "removed" || isOffMarket(listing)) continue;
+
+      const match = scoreRequirementListing(requirement, listing);
+      if (!ALERT_TIERS.has(match.tier)) continue;
+      if (change.changeType === "updated") {
+        const previous = scoreRequirementListing(requirement, listingBeforeChange(listing, change.fieldChanges));
+        if (ALERT_TIERS.has(previous.tier)) continue;
+      }
+
+      const lead = change.changeType === "new"
+        ? `New ${match.tier} match`
+        : change.changeType === "reactivated"
+          ? `Re-listed ${match.tier} match`
+          : `Now a ${match.tier} match`;
+      alerts.push({
+        requirementId: requirement.id,
+        listingId: listing.id,
+        changeId: change.id,
+        alertType: "new_match",
+        tier: match.tier,
+        score: match.score,
+        summary: `${lead}: ${listing.title} (${match.score})`,
+        reasons: match.reasons.slice(0, 4),
+      });
+    }
+  }
+
+  return alerts;
+}
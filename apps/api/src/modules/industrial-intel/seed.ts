@@ -1,4 +1,5 @@
 import { pool } from "../../db";
+import type { IntelListingFieldChange } from "./ingest/listingDiff";
 
 export type IndustrialIntelSeedPreview = {
   summary: {
@@ -14,8 +15,14 @@ export type IndustrialIntelSeedPreview = {
     slug: string;
     kind: string;
     feedUrl: string | null;
+    fieldMapping: Record<string, unknown>;
     isActive: boolean;
     updatedAt: string | null;
+    scheduleIntervalMinutes: number | null;
+    nextRunAt: string | null;
+    lastSuccessAt: string | null;
+    consecutiveFailures: number;
+    isStale: boolean;
   }>;
   runs: Array<{
     id: string;
@@ -66,6 +73,7 @@ export type IndustrialIntelSeedPreview = {
     sourceName: string | null;
     changeType: string;
     changeSummary: string | null;
+    fieldChanges: IntelListingFieldChange[];
     observedAt: string | null;
   }>;
 };
@@ -171,6 +179,7 @@ type ChangeSeed = {
   changeSummary: string;
   previousHash: string | null;
   newHash: string | null;
+  fieldChanges?: IntelListingFieldChange[];
   observedAt: Date;
 };
 
@@ -408,6 +417,14 @@ function buildSeedData() {
       changeSummary: "Sale listing updated with revised pricing package and refreshed brochure link.",
       previousHash: "seed-hash-sherwood-v2",
       newHash: "seed-hash-sherwood-v3",
+      fieldChanges: [
+        {
+          field: "brochureUrl",
+          before: "https://example.com/brochures/sherwood-bay-draft.pdf",
+          after: "https://example.com/brochures/sherwood-bay.pdf",
+          direction: "changed",
+        },
+      ],
       observedAt: oneHourAgo,
     },
     {
@@ -464,8 +481,14 @@ export function getIndustrialIntelSeedPreview(): IndustrialIntelSeedPreview {
       slug: source.slug,
       kind: source.kind,
       feedUrl: source.feedUrl,
+      fieldMapping: source.fieldMapping,
       isActive: source.isActive,
       updatedAt: new Date().toISOString(),
+      scheduleIntervalMinutes: source.kind === "manual_upload" ? null : 1440,
+      nextRunAt: null,
+      lastSuccessAt: null,
+      consecutiveFailures: 0,
+      isStale: false,
     })),
     runs: runs
       .slice()
@@ -525,6 +548,7 @@ export function getIndustrialIntelSeedPreview(): IndustrialIntelSeedPreview {
         sourceName: sourceNameById.get(listingById.get(change.listingId)?.sourceId ?? "") ?? null,
         changeType: change.changeType,
         changeSummary: change.changeSummary,
+        fieldChanges: change.fieldChanges ?? [],
         observedAt: isoOrNull(change.observedAt),
       })),
   };
@@ -673,9 +697,9 @@ export async function seedIndustrialIntelCore(): Promise<IndustrialIntelSeedResu
         `
           INSERT INTO public.intel_listing_changes (
             id, listing_id, ingest_run_id, change_type, change_summary,
-            previous_hash, new_hash, observed_at
+            previous_hash, new_hash, field_changes, observed_at
           )
-          VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb, $9)
           ON CONFLICT (id) DO UPDATE SET
             listing_id = EXCLUDED.listing_id,
             ingest_run_id = EXCLUDED.ingest_run_id,
@@ -683,6 +707,7 @@ export async function seedIndustrialIntelCore(): Promise<IndustrialIntelSeedResu
             change_summary = EXCLUDED.change_summary,
             previous_hash = EXCLUDED.previous_hash,
             new_hash = EXCLUDED.new_hash,
+            field_changes = EXCLUDED.field_changes,
             observed_at = EXCLUDED.observed_at
         `,
         [
@@ -693,6 +718,7 @@ export async function seedIndustrialIntelCore(): Promise<IndustrialIntelSeedResu
           change.changeSummary,
           change.previousHash,
           change.newHash,
+          JSON.stringify(change.fieldChanges ?? []),
           change.observedAt,
         ],
       );
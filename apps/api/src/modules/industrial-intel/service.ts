@@ -1,23 +1,28 @@
 import {
   type CreateIntelAgentEventInput,
+  type CreateIntelFeedSourceInput,
   type CreateIntelListingAssetInput,
   type CreateIntelPropertyDossierInput,
   type CreateIntelRequirementInput,
   type CreateIntelSurveyInput,
   type CreateIntelSurveyItemInput,
+  type IntelChangeFilters,
   type IntelChangeListItem,
   type IntelAgentEvent,
+  type IntelRequirementAlertFilters,
   type IntelRequirementDetail,
   type IntelRequirementListItem,
   type IntelRequirementPreference,
   type IntelRequirementListingDecision,
   type IntelPublicLinkCandidate,
+  type IntelSurveyClientFeedback,
   type IntelSurveyDetail,
   type IntelSurveyEvent,
   type IntelSurveyListItem,
   type UpsertIntelRequirementListingDecisionInput,
   industrialIntelRepository,
   type IntelListingListItem,
+  type IntelListingAsset,
   type IntelListingAssetWithUrl,
   type IntelListingAssetType,
   type IntelPropertyDossierDetail,
@@ -26,7 +31,11 @@ import {
   type IntelRunListItem,
   type IntelSourceListItem,
   type IntelSummary,
+  type IntelSurveyShareSettings,
+  type IntelSurveyTourSettings,
+  type RecordIntelSurveyClientFeedbackInput,
   type ReplaceIntelRequirementPreferencesInput,
+  type UpdateIntelFeedSourceInput,
   type UpdateIntelRequirementInput,
   type UpdateIntelPropertyDossierInput,
   type UpdateIntelSurveyInput,
@@ -43,16 +52,93 @@ import {
 } from "./manualIngest";
 import { previewManualIntelListing } from "./manualPreview";
 import { resolvePublicLinkCandidates } from "./publicLinkResolver";
+import { summarizeListingHistory, type IntelListingHistory } from "./listingHistory";
+import { queueRequirementAlertsForRun } from "./requirementAlertQueue";
 import { runIndustrialIntelSource } from "./sourceRegistry";
+import { feedColumns, fetchFeedRows, mapFeedRows, normalizeIntelFeedFieldMapping } from "./ingest/sources/feed";
+import type { IntelChangeSignal } from "./ingest/listingDiff";
+import type { IntelFeedSourceConfig, SourceListingRecord } from "./ingest/types";
 import {
   createIntelAssetSignedUpload,
   downloadIntelListingAsset,
   getIntelAssetBucket,
+  isIntelAssetStorageConfigured,
   signIntelListingAssets,
+  uploadIntelAsset,
 } from "./assetStorage";
+import {
+  classifyEmailAttachment,
+  emailAttachmentStoragePath,
+  matchEmailAttachmentDossier,
+  uniqueEmailAttachmentFileNames,
+  type EmailAttachmentCaptureSummary,
+  type EmailAttachmentInput,
+} from "./emailAttachments";
 import { extractSurveyFactsFromBuffer, type SurveySyncExtractionResult } from "./surveySyncExtraction";
+import { pickSurveyOptionImage, renderSurveyPdf, surveyPdfOptions } from "./surveyPdf";
+import {
+  buildSurveyComparison,
+  clientSurveyComparison,
+  normalizeSurveyClientFactKeys,
+  type SurveyComparisonMatrix,
+} from "./surveyComparison";
+import {
+  orderSurveyTourStops,
+  renderSurveyTourIcs,
+  scheduleSurveyTour,
+  type SurveyTourSchedule,
+  type SurveyTourStop,
+} from "./surveyTour";
+import { parsePdfImage, type PdfImage } from "../../lib/pdfWriter";
+import {
+  checkShareLinkAccess,
+  createShareAccessGrant,
+  hashSharePasscode,
+  SHARE_ITEM_OPENED_ACTION,
+  SHARE_VIEW_ACTION,
+  summarizeShareEngagement,
+  verifySharePasscode,
+  type ShareEngagement,
+  type ShareLinkAccess,
+  type ShareUnlockFailure,
+} from "../../lib/shareLinkAccess";
 import { rankRequirementListings, scoreRequirementListing } from "@level-cre/shared";
 
+export type IntelSurveyEngagement = Omit<ShareEngagement, "openedItems"> & {
+  share: IntelSurveyShareSettings;
+  openedItems: Array<ShareEngagement["openedItems"][number] & { title: string | null }>;
+  history: IntelSurveyEvent[];
+};
+
+export type UpdateSurveyShareSettingsInput = {
+  expiresAt?: string | null;
+  passcode?: string | null;
+};
+
+export type IntelSurveyTour = {
+  settings: IntelSurveyTourSettings;
+  schedule: Omit<SurveyTourSchedule, "stops"> & {
+    stops: Array<SurveyTourStop & { tourNotes: string | null; touredAt: string | null }>;
+  };
+};
+
+export type IntelSurveyTourPlanner = {
+  tour: IntelSurveyTour | null;
+  // Options the client asked to tour or liked; the default stop picks for a new tour.
+  suggestedItemIds: string[];
+};
+
+export type PlanSurveyTourInput = {
+  itemIds: string[];
+  startLabel: string | null;
+  startLatitude: number;
+  startLongitude: number;
+  startAt: string;
+  minutesPerStop: number;
+  // False keeps the broker's stop order instead of re-optimizing it.
+  optimize: boolean;
+};
+
 export type CreateSurveyItemAssetUploadInput = {
   fileName: string;
   contentType: string;
@@ -68,6 +154,12 @@ export type CreateManualPublicLinkInput = {
 
 export type CreateDossierAssetUploadInput = CreateSurveyItemAssetUploadInput;
 
+export type IntelFeedPreview = {
+  columns: string[];
+  totalRows: number;
+  records: SourceListingRecord[];
+};
+
 export type SurveySyncDossierAssetExtraction = {
   assetId: string;
   dossierId: string;
@@ -136,6 +228,17 @@ export type SurveySyncAgentJobResult = {
   nextActions: string[];
 };
 
+export type CaptureEmailAttachmentsInput = {
+  emailMessageId: string;
+  prospect: { id: string; name?: string | null; address?: string | null } | null;
+  subject?: string | null;
+  snippet?: string | null;
+  attachments: EmailAttachmentInput[];
+};
+
+// Larger photos are left out of the survey book rather than bloating it.
+const SURVEY_PDF_MAX_IMAGE_BYTES = 12 * 1024 * 1024;
+
 function sanitizeFileName(fileName: string) {
   return fileName
     .trim()
@@ -159,6 +262,29 @@ export class IndustrialIntelService {
     return industrialIntelRepository.getSources();
   }
 
+  async createFeedSource(input: CreateIntelFeedSourceInput): Promise<IntelSourceListItem> {
+    normalizeIntelFeedFieldMapping(input.fieldMapping);
+    return industrialIntelRepository.createFeedSource(input);
+  }
+
+  async updateFeedSource(id: string, input: UpdateIntelFeedSourceInput): Promise<IntelSourceListItem | null> {
+    if (input.fieldMapping) normalizeIntelFeedFieldMapping(input.fieldMapping);
+    return industrialIntelRepository.updateFeedSource(id, input);
+  }
+
+  async updateSourceSchedule(id: string, scheduleIntervalMinutes: number | null): Promise<IntelSourceListItem | null> {
+    return industrialIntelRepository.updateSourceSchedule(id, scheduleIntervalMinutes);
+  }
+
+  async previewFeedSource(config: IntelFeedSourceConfig, limit = 10): Promise<IntelFeedPreview> {
+    const { mapping, rows } = await fetchFeedRows(config);
+    return {
+      columns: feedColumns(rows),
+      totalRows: rows.length,
+      records: mapping.fields.title || mapping.fields.address ? mapFeedRows(rows.slice(0, limit), mapping) : [],
+    };
+  }
+
   async getRuns(): Promise<IntelRunListItem[]> {
     return industrialIntelRepository.getRuns();
   }
@@ -543,10 +669,118 @@ export class IndustrialIntelService {
     };
   }
 
+  /**
+   * Files an email's attachments as intel assets linked to the email, its
+   * matched prospect and the dossier it is about. A brochure with no dossier
+   * to land in opens a draft one, so its extracted facts still have a home
+   * as proposed facts for the broker to review.
+   */
+  async captureEmailAttachments(userId: string, input: CaptureEmailAttachmentsInput): Promise<EmailAttachmentCaptureSummary> {
+    const summary: EmailAttachmentCaptureSummary = {
+      stored: 0,
+      duplicates: 0,
+      skipped: 0,
+      extractionsQueued: 0,
+      dossierId: null,
+      storageConfigured: isIntelAssetStorageConfigured(),
+    };
+
+    const fileNames = uniqueEmailAttachmentFileNames(
+      input.attachments.map((attachment) => sanitizeFileName(attachment.fileName)),
+    );
+    const pending = [];
+    for (let index = 0; index < input.attachments.length; index += 1) {
+      const attachment = input.attachments[index];
+      const classification = classifyEmailAttachment({
+        fileName: attachment.fileName,
+        contentType: attachment.contentType,
+        size: attachment.content.length,
+        inline: attachment.inline,
+      });
+      if (!classification.supported || !summary.storageConfigured) {
+        summary.skipped += 1;
+        continue;
+      }
+      const fileName = fileNames[index];
+      const storagePath = emailAttachmentStoragePath(userId, input.emailMessageId, fileName);
+      if (await industrialIntelRepository.getListingAssetByStoragePath(userId, storagePath)) {
+        summary.duplicates += 1;
+        continue;
+      }
+      pending.push({ attachment, classification, fileName, storagePath });
+    }
+    if (pending.length === 0) return summary;
+
+    const dossiers = await industrialIntelRepository.getDossiers(userId, 500);
+    let dossierId = matchEmailAttachmentDossier(dossiers, {
+      prospectAddress: input.prospect?.address,
+      subject: input.subject,
+      snippet: input.snippet,
+    });
+    let canonicalListingId = dossiers.find((dossier) => dossier.id === dossierId)?.canonicalListingId ?? null;
+    const firstBrochure = pending.find((item) => item.classification.extractFacts);
+    if (!dossierId && firstBrochure) {
+      const draft = await industrialIntelRepository.createDossier(userId, {
+        title: input.prospect?.name || firstBrochure.fileName.replace(/\.pdf$/i, ""),
+        address: input.prospect?.address || null,
+        normalizedAddress: normalizeSurveySyncAddress(input.prospect?.address),
+        status: "draft",
+      });
+      dossierId = draft.id;
+      canonicalListingId = draft.canonicalListingId;
+    }
+    summary.dossierId = dossierId;
+
+    for (const item of pending) {
+      const upload = await uploadIntelAsset(item.storagePath, item.attachment.content, item.classification.contentType);
+      const { asset, created } = await industrialIntelRepository.createEmailAttachmentAsset(userId, {
+        id: randomUUID(),
+        dossierId,
+        listingId: canonicalListingId,
+        prospectId: input.prospect?.id || null,
+        emailMessageId: input.emailMessageId,
+        assetType: item.classification.assetType,
+        fileName: item.fileName,
+        contentType: item.classification.contentType,
+        fileSize: item.attachment.content.length,
+        storageBucket: upload.bucket,
+        storagePath: upload.path || item.storagePath,
+      });
+      if (!created) {
+        summary.duplicates += 1;
+        continue;
+      }
+      summary.stored += 1;
+      if (item.classification.extractFacts && dossierId) {
+        this.queueEmailBrochureExtraction(userId, dossierId, asset.id);
+        summary.extractionsQueued += 1;
+      }
+    }
+    return summary;
+  }
+
+  // Extraction reads the whole PDF, so it runs after the capture returns and
+  // only logs failures; the stored asset can be re-extracted from the dossier.
+  private queueEmailBrochureExtraction(userId: string, dossierId: string, assetId: string) {
+    void this.extractDossierAsset(userId, dossierId, assetId).catch((error) => {
+      console.error(`Failed to extract facts from emailed brochure ${assetId}:`, error);
+    });
+  }
+
+  async linkEmailAttachmentsToProspect(userId: string, emailMessageId: string, prospectId: string | null) {
+    return industrialIntelRepository.linkEmailAttachmentAssetsToProspect(userId, emailMessageId, prospectId);
+  }
+
   async archiveDuplicateListings(keepId: string, duplicateIds: string[]) {
     return industrialIntelRepository.archiveDuplicateListings(keepId, duplicateIds);
   }
 
+  async getListingHistory(listingId: string): Promise<IntelListingHistory | null> {
+    const history = await industrialIntelRepository.getListingHistory(listingId);
+    if (!history) return null;
+    return { ...history, summary: summarizeListingHistory(history) };
+  }
+
   async getPublicLinkCandidates(listingId: string): Promise<IntelPublicLinkCandidate[]> {
     return industrialIntelRepository.getPublicLinkCandidates(listingId);
   }
@@ -602,8 +836,8 @@ export class IndustrialIntelService {
     return industrialIntelRepository.updatePublicLinkCandidateStatus(listingId, candidateId, "rejected");
   }
 
-  async getRecentChanges(limit = 10): Promise<IntelChangeListItem[]> {
-    return industrialIntelRepository.getRecentChanges(limit);
+  async getRecentChanges(limit = 10, filters: IntelChangeFilters = {}): Promise<IntelChangeListItem[]> {
+    return industrialIntelRepository.getRecentChanges(limit, filters);
   }
 
   async getRequirements(userId: string): Promise<IntelRequirementListItem[]> {
@@ -617,13 +851,19 @@ export class IndustrialIntelService {
   async getRequirementMatches(userId: string, id: string, limit = 100) {
     const requirement = await industrialIntelRepository.getRequirementById(userId, id);
     if (!requirement) return null;
-    const listings = await industrialIntelRepository.getListings(500);
-    const rankedMatches = rankRequirementListings(requirement, listings);
+    const [listings, factsByListing] = await Promise.all([
+      industrialIntelRepository.getListings(500),
+      industrialIntelRepository.getApprovedListingFacts(userId),
+    ]);
+    const rankedMatches = rankRequirementListings(
+      requirement,
+      listings.map((listing) => ({ ...listing, facts: factsByListing.get(listing.id) })),
+    );
     const matches = rankedMatches.slice(0, limit);
     return {
       requirement,
       generatedAt: new Date().toISOString(),
-      scoringVersion: "2026-08-08",
+      scoringVersion: "2026-10-19",
       matches,
       summary: {
         activeListings: rankedMatches.length,
@@ -636,7 +876,7 @@ export class IndustrialIntelService {
 
   async getWatchlistSignals(
     userId: string,
-    options: { days?: number; limit?: number; terms?: string[] } = {},
+    options: { days?: number; limit?: number; terms?: string[]; signal?: IntelChangeSignal | null } = {},
   ) {
     const days = Math.min(Math.max(options.days || 30, 1), 180);
     const limit = Math.min(Math.max(options.limit || 12, 1), 50);
@@ -647,10 +887,11 @@ export class IndustrialIntelService {
       .slice(0, 25);
     const requirementRows = (await industrialIntelRepository.getRequirements(userId))
       .filter((requirement) => requirement.status === "active" && !requirement.archivedAt);
-    const [requirements, listings, changes] = await Promise.all([
+    const [requirements, listings, changes, factsByListing] = await Promise.all([
       Promise.all(requirementRows.map((requirement) => industrialIntelRepository.getRequirementById(userId, requirement.id))),
       industrialIntelRepository.getListings(750),
-      industrialIntelRepository.getRecentChanges(250),
+      industrialIntelRepository.getRecentChanges(250, { signal: options.signal ?? null }),
+      industrialIntelRepository.getApprovedListingFacts(userId),
     ]);
     const activeRequirements = requirements.filter((requirement): requirement is IntelRequirementDetail => Boolean(requirement));
     const listingsById = new Map(listings.map((listing) => [listing.id, listing]));
@@ -662,17 +903,22 @@ export class IndustrialIntelService {
       const searchable = [listing.title, listing.address, listing.market, listing.submarket, change.changeSummary]
         .filter(Boolean).join(" ").toLowerCase();
       const matchedTerms = terms.filter((term) => searchable.includes(term));
+      // Scored with the same approved facts as the matches page so tiers agree.
+      const scoredListing = { ...listing, facts: factsByListing.get(listing.id) };
       const requirementMatches = activeRequirements
-        .map((requirement) => ({ requirement, match: scoreRequirementListing(requirement, listing) }))
+        .map((requirement) => ({ requirement, match: scoreRequirementListing(requirement, scoredListing) }))
         .sort((left, right) => right.match.score - left.match.score);
       const best = requirementMatches[0] || null;
       if (matchedTerms.length === 0 && (!best || best.match.score < 45)) return [];
       const summary = (change.changeSummary || "").toLowerCase();
+      const changedFields = new Set(change.fieldChanges.map((fieldChange) => fieldChange.field));
       const signalKinds = [
-        summary.includes("brochure") ? "brochure" : null,
-        summary.includes("availab") || change.changeType === "removed" || change.changeType === "reactivated" ? "availability" : null,
+        summary.includes("brochure") || changedFields.has("brochureUrl") ? "brochure" : null,
+        summary.includes("availab") || changedFields.has("availableSf") || changedFields.has("status")
+          || change.changeType === "removed" || change.changeType === "reactivated" ? "availability" : null,
         summary.includes("occup") || summary.includes("tenant") ? "occupancy" : null,
-        summary.includes("rate") || summary.includes("price") ? "pricing" : null,
+        summary.includes("rate") || summary.includes("price")
+          || changedFields.has("totalPrice") || changedFields.has("pricePerAcre") || changedFields.has("leaseRatePsf") ? "pricing" : null,
       ].filter((kind): kind is string => Boolean(kind));
       if (signalKinds.length === 0) signalKinds.push("listing");
       const priorityScore = Math.min(100, (best?.match.score || 45)
@@ -704,6 +950,7 @@ export class IndustrialIntelService {
       generatedAt: new Date().toISOString(),
       days,
       terms,
+      signal: options.signal ?? null,
       implicitWatchlist: activeRequirements.map((requirement) => ({
         id: requirement.id,
         title: requirement.title,
@@ -766,10 +1013,189 @@ export class IndustrialIntelService {
     return industrialIntelRepository.getSurveyByShareToken(token);
   }
 
+  /** null when the token does not belong to a shared survey. */
+  async getSharedSurveyAccess(token: string, access: string | null): Promise<ShareLinkAccess | null> {
+    const gate = await industrialIntelRepository.getSurveyShareGate(token);
+    return gate ? checkShareLinkAccess(gate, token, access) : null;
+  }
+
+  async unlockSharedSurvey(token: string, passcode: string): Promise<{ access: string; expiresAt: string } | null> {
+    const gate = await industrialIntelRepository.getSurveyShareGate(token);
+    if (!gate?.passcodeHash || !verifySharePasscode(passcode, gate.passcodeHash)) return null;
+    return createShareAccessGrant(token, gate.passcodeHash);
+  }
+
+  async recordFailedSurveyUnlock(token: string, failure: ShareUnlockFailure): Promise<void> {
+    await industrialIntelRepository.recordSurveyShareUnlockFailure(token, failure);
+  }
+
+  async recordSharedSurveyView(token: string, itemId: string | null): Promise<boolean> {
+    return industrialIntelRepository.recordSurveyShareView(token, itemId);
+  }
+
+  async getSurveyShareSettings(userId: string, surveyId: string): Promise<IntelSurveyShareSettings | null> {
+    return industrialIntelRepository.getSurveyShareSettings(userId, surveyId);
+  }
+
+  async updateSurveyShareSettings(
+    userId: string,
+    surveyId: string,
+    input: UpdateSurveyShareSettingsInput,
+  ): Promise<IntelSurveyShareSettings | null> {
+    return industrialIntelRepository.updateSurveyShareSettings(userId, surveyId, {
+      expiresAt: input.expiresAt,
+      passcodeHash: input.passcode === undefined ? undefined : input.passcode ? hashSharePasscode(input.passcode) : null,
+    });
+  }
+
+  async getSurveyEngagement(userId: string, surveyId: string): Promise<IntelSurveyEngagement | null> {
+    const [survey, share] = await Promise.all([
+      industrialIntelRepository.getSurveyById(userId, surveyId),
+      industrialIntelRepository.getSurveyShareSettings(userId, surveyId),
+    ]);
+    if (!survey || !share) return null;
+    const events = await industrialIntelRepository.getSurveyEngagementEvents(userId, surveyId);
+    const engagement = summarizeShareEngagement(events);
+    const titles = new Map(survey.items.map((item) => [item.id, item.listing.title]));
+    return {
+      ...engagement,
+      share,
+      openedItems: engagement.openedItems.map((item) => ({ ...item, title: titles.get(item.itemId) ?? null })),
+      history: events.filter((event) => event.action !== SHARE_VIEW_ACTION && event.action !== SHARE_ITEM_OPENED_ACTION).slice(0, 20),
+    };
+  }
+
+  async getSurveyTour(userId: string, surveyId: string): Promise<IntelSurveyTourPlanner | null> {
+    const survey = await industrialIntelRepository.getSurveyById(userId, surveyId);
+    if (!survey) return null;
+    const settings = await industrialIntelRepository.getSurveyTour(surveyId);
+    const visible = survey.items.filter((item) => !item.hidden).sort((a, b) => a.sortOrder - b.sortOrder);
+    const wanted = visible.filter((item) => item.clientResponse === "tour" || item.clientResponse === "interested");
+    return {
+      tour: settings ? this.buildSurveyTour(survey, settings) : null,
+      suggestedItemIds: (wanted.length > 0 ? wanted : visible).map((item) => item.id),
+    };
+  }
+
+  async planSurveyTour(userId: string, surveyId: string, input: PlanSurveyTourInput): Promise<IntelSurveyTourPlanner | null> {
+    const survey = await industrialIntelRepository.getSurveyById(userId, surveyId);
+    if (!survey) return null;
+    const itemsById = new Map(survey.items.filter((item) => !item.hidden).map((item) => [item.id, item]));
+    const itemIds = Array.from(new Set(input.itemIds));
+    if (itemIds.length === 0 || itemIds.some((itemId) => !itemsById.has(itemId))) return null;
+
+    const start = { latitude: input.startLatitude, longitude: input.startLongitude };
+    const ordered = input.optimize
+      ? orderSurveyTourStops(
+          start,
+          itemIds.map((itemId) => this.surveyTourStopInput(itemsById.get(itemId)!)),
+        )
+      : itemIds;
+    const saved = await industrialIntelRepository.saveSurveyTour(userId, surveyId, {
+      startLabel: input.startLabel,
+      startLatitude: input.startLatitude,
+      startLongitude: input.startLongitude,
+      startAt: input.startAt,
+      minutesPerStop: input.minutesPerStop,
+      itemIds: ordered,
+    });
+    if (!saved) return null;
+    return this.getSurveyTour(userId, surveyId);
+  }
+
+  async recordSurveyTourStopNotes(
+    userId: string,
+    surveyId: string,
+    itemId: string,
+    notes: string | null,
+  ): Promise<IntelSurveyTourPlanner | null> {
+    const updated = await industrialIntelRepository.recordSurveyTourStopNotes(userId, surveyId, itemId, notes?.trim() || null);
+    if (!updated) return null;
+    return this.getSurveyTour(userId, surveyId);
+  }
+
+  async getSharedSurveyTour(token: string): Promise<{ survey: IntelSurveyDetail; tour: IntelSurveyTour } | null> {
+    const survey = await industrialIntelRepository.getSurveyByShareToken(token);
+    if (!survey) return null;
+    const settings = await industrialIntelRepository.getSurveyTour(survey.id);
+    if (!settings) return null;
+    // The share view has already dropped hidden options and tour notes.
+    return { survey, tour: this.buildSurveyTour(survey, settings) };
+  }
+
+  async getSurveyTourIcs(userId: string, surveyId: string): Promise<{ survey: IntelSurveyDetail; ics: string } | null> {
+    const survey = await industrialIntelRepository.getSurveyById(userId, surveyId);
+    const settings = survey ? await industrialIntelRepository.getSurveyTour(surveyId) : null;
+    if (!survey || !settings) return null;
+    const { schedule } = this.buildSurveyTour(survey, settings);
+    return { survey, ics: renderSurveyTourIcs({ surveyId, title: survey.title, schedule }) };
+  }
+
+  async getSharedSurveyTourIcs(token: string): Promise<{ survey: IntelSurveyDetail; ics: string } | null> {
+    const shared = await this.getSharedSurveyTour(token);
+    if (!shared) return null;
+    return {
+      survey: shared.survey,
+      ics: renderSurveyTourIcs({ surveyId: shared.survey.id, title: shared.survey.title, schedule: shared.tour.schedule }),
+    };
+  }
+
+  private surveyTourStopInput(item: IntelSurveyDetail["items"][number]) {
+    return {
+      itemId: item.id,
+      title: item.listing.title,
+      address: item.listing.normalizedAddress || item.listing.address,
+      latitude: item.listing.latitude,
+      longitude: item.listing.longitude,
+    };
+  }
+
+  // Stops follow the saved order; options hidden or removed since planning drop out.
+  private buildSurveyTour(survey: IntelSurveyDetail, settings: IntelSurveyTourSettings): IntelSurveyTour {
+    const itemsById = new Map(survey.items.filter((item) => !item.hidden).map((item) => [item.id, item]));
+    const items = settings.itemIds.flatMap((itemId) => itemsById.get(itemId) ?? []);
+    const schedule = scheduleSurveyTour({
+      start: { label: settings.startLabel, latitude: settings.startLatitude, longitude: settings.startLongitude },
+      startAt: new Date(settings.startAt),
+      minutesPerStop: settings.minutesPerStop,
+      stops: items.map((item) => this.surveyTourStopInput(item)),
+    });
+    return {
+      settings,
+      schedule: {
+        ...schedule,
+        stops: schedule.stops.map((stop, index) => ({
+          ...stop,
+          tourNotes: items[index].tourNotes,
+          touredAt: items[index].touredAt,
+        })),
+      },
+    };
+  }
+
   async getSurveyEvents(userId: string, surveyId: string): Promise<IntelSurveyEvent[]> {
     return industrialIntelRepository.getSurveyEvents(userId, surveyId);
   }
 
+  async getSurveyClientFeedback(userId: string, surveyId: string): Promise<IntelSurveyClientFeedback | null> {
+    return industrialIntelRepository.getSurveyClientFeedback(userId, surveyId);
+  }
+
+  async markSurveyClientFeedbackRead(userId: string, surveyId: string): Promise<IntelSurveyClientFeedback | null> {
+    return industrialIntelRepository.markSurveyClientFeedbackRead(userId, surveyId);
+  }
+
+  async getSharedSurveyClientFeedback(token: string): Promise<IntelSurveyEvent[]> {
+    return industrialIntelRepository.getSharedSurveyClientFeedback(token);
+  }
+
+  async recordSurveyClientFeedback(
+    token: string,
+    input: RecordIntelSurveyClientFeedbackInput,
+  ): Promise<IntelSurveyDetail | null> {
+    return industrialIntelRepository.recordSurveyClientFeedback(token, input);
+  }
+
   async createSurvey(userId: string, input: CreateIntelSurveyInput): Promise<IntelSurveyDetail> {
     return industrialIntelRepository.createSurvey(userId, input);
   }
@@ -860,12 +1286,123 @@ export class IndustrialIntelService {
     return signIntelListingAssets(assets);
   }
 
+  async getSurveyComparison(userId: string, surveyId: string): Promise<SurveyComparisonMatrix | null> {
+    const survey = await industrialIntelRepository.getSurveyById(userId, surveyId);
+    if (!survey) return null;
+    return this.buildSurveyComparison(userId, survey);
+  }
+
+  async getSharedSurveyComparison(token: string): Promise<SurveyComparisonMatrix | null> {
+    const survey = await industrialIntelRepository.getSurveyByShareToken(token);
+    if (!survey?.createdByUserId) return null;
+    return clientSurveyComparison(await this.buildSurveyComparison(survey.createdByUserId, survey));
+  }
+
+  async updateSurveyComparison(
+    userId: string,
+    surveyId: string,
+    clientFactKeys: string[] | null,
+  ): Promise<SurveyComparisonMatrix | null> {
+    const updated = await industrialIntelRepository.updateSurveyClientFactKeys(
+      userId,
+      surveyId,
+      normalizeSurveyClientFactKeys(clientFactKeys),
+    );
+    if (!updated) return null;
+    return this.getSurveyComparison(userId, surveyId);
+  }
+
+  // Facts and requirement targets are read as the survey owner, so the share
+  // link sees the same matrix the broker released.
+  private async buildSurveyComparison(ownerUserId: string, survey: IntelSurveyDetail): Promise<SurveyComparisonMatrix> {
+    const items = survey.items.filter((item) => !item.hidden).sort((a, b) => a.sortOrder - b.sortOrder);
+    const [factsByListing, requirement, clientFactKeys] = await Promise.all([
+      industrialIntelRepository.getListingComparisonFacts(ownerUserId, items.map((item) => item.listingId)),
+      survey.requirementId ? industrialIntelRepository.getRequirementById(ownerUserId, survey.requirementId) : Promise.resolve(null),
+      industrialIntelRepository.getSurveyClientFactKeys(survey.id),
+    ]);
+    return buildSurveyComparison({
+      options: items.map((item) => ({
+        itemId: item.id,
+        listingId: item.listingId,
+        title: item.listing.title,
+        clearHeightFt: item.listing.clearHeightFt,
+        dockDoors: item.listing.dockDoors,
+        yardAcres: item.listing.yardAcres,
+      })),
+      factsByListing,
+      requirement,
+      clientFactKeys,
+    });
+  }
+
+  async getSurveyPdf(userId: string, surveyId: string): Promise<{ survey: IntelSurveyDetail; pdf: Buffer } | null> {
+    const survey = await industrialIntelRepository.getSurveyById(userId, surveyId);
+    if (!survey) return null;
+    const assets = await industrialIntelRepository.getSurveyAssets(userId, surveyId);
+    return { survey, pdf: await this.renderSurveyPdf(survey, assets) };
+  }
+
+  async getSharedSurveyPdf(token: string): Promise<{ survey: IntelSurveyDetail; pdf: Buffer } | null> {
+    const survey = await industrialIntelRepository.getSurveyByShareToken(token);
+    if (!survey) return null;
+    const assets = await industrialIntelRepository.getSharedSurveyAssets(token);
+    return { survey, pdf: await this.renderSurveyPdf(survey, assets) };
+  }
+
+  private async renderSurveyPdf(survey: IntelSurveyDetail, assets: IntelListingAsset[]): Promise<Buffer> {
+    const options = surveyPdfOptions(survey);
+    const images = new Map<string, PdfImage>();
+    if (isIntelAssetStorageConfigured()) {
+      for (const item of survey.items.filter((candidate) => !candidate.hidden)) {
+        const asset = pickSurveyOptionImage({ itemId: item.id, listingId: item.listingId }, assets);
+        if (!asset || asset.fileSize > SURVEY_PDF_MAX_IMAGE_BYTES) continue;
+        try {
+          const image = parsePdfImage(await downloadIntelListingAsset(asset), asset.contentType);
+          if (image) images.set(item.id, image);
+        } catch (error) {
+          console.warn(`Skipping survey PDF image ${asset.id}:`, error);
+        }
+      }
+    }
+
+    return renderSurveyPdf({
+      title: survey.title,
+      clientName: survey.clientName,
+      requirementTitle: survey.requirementTitle,
+      preparedBy: survey.createdByUserId ? await industrialIntelRepository.getSurveyPreparer(survey.createdByUserId) : null,
+      generatedAt: new Date(),
+      options,
+      images,
+    });
+  }
+
   async ingestManualListing(_userId: string, input: ManualIntelListingInput) {
-    return ingestManualIntelListing(null, input);
+    const result = await ingestManualIntelListing(null, input);
+    await queueRequirementAlertsForRun(result.runId);
+    return result;
   }
 
   async ingestManualListingUpload(_userId: string, input: ManualIntelListingUploadInput) {
-    return ingestManualIntelListingUpload(null, input);
+    const result = await ingestManualIntelListingUpload(null, input);
+    await queueRequirementAlertsForRun(result.runId);
+    return result;
+  }
+
+  async getRequirementAlertDigest(userId: string, filters: IntelRequirementAlertFilters = {}) {
+    const [alerts, unreadByRequirement] = await Promise.all([
+      industrialIntelRepository.getRequirementAlerts(userId, filters),
+      industrialIntelRepository.getRequirementAlertUnreadCounts(userId),
+    ]);
+    return {
+      alerts,
+      unreadByRequirement,
+      unreadTotal: Object.values(unreadByRequirement).reduce((total, count) => total + count, 0),
+    };
+  }
+
+  async markRequirementAlertsRead(userId: string, input: { requirementId?: string | null; alertIds?: string[] | null }) {
+    return industrialIntelRepository.markRequirementAlertsRead(userId, input);
   }
 
   async previewManualListing(sourceUrl: string) {
@@ -1,7 +1,9 @@
 import { pool } from '../../db';
 import { applyNormalizedRecords, type ApplyNormalizedRecordsResult } from './ingest/applyNormalizedRecords';
 import { runSourceAdapter } from './ingest/runSource';
-import type { IntelSourceAdapterSlug } from './ingest/types';
+import type { IntelFeedSourceConfig, IntelSourceAdapterSlug } from './ingest/types';
+import { queueRequirementAlertsForRun } from './requirementAlertQueue';
+import { DEFAULT_SOURCE_INTERVAL_MINUTES, nextSourceRunAt } from './sourceSchedule';
 
 export type RunnableIntelSourceSlug = Exclude<IntelSourceAdapterSlug, 'manual_url'>;
 
@@ -67,6 +69,42 @@ export function resolveRunnableIntelSource(value: string): IntelSourceConfig | n
   );
 }
 
+type MappedFeedSource = {
+  id: string;
+  slug: string;
+  // Null until the row has a feed URL; the run fails (and backs off) on it.
+  feed: IntelFeedSourceConfig | null;
+};
+
+// Landlord and broker feeds added through the sources UI have no adapter of
+// their own; they run through `mapped_feed` using the row's field mapping.
+async function loadMappedFeedSource(slug: string): Promise<MappedFeedSource | null> {
+  const result = await pool.query<{
+    id: string;
+    slug: string;
+    kind: 'csv_url' | 'json_url';
+    feed_url: string | null;
+    field_mapping: unknown;
+  }>(
+    `
+      select id, slug, kind, feed_url, field_mapping
+      from public.intel_sources
+      where slug = $1 and kind in ('csv_url', 'json_url')
+      limit 1
+    `,
+    [slug.trim().toLowerCase()],
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+  return {
+    id: row.id,
+    slug: row.slug,
+    feed: row.feed_url
+      ? { kind: row.kind, feedUrl: row.feed_url, fieldMapping: row.field_mapping ?? {} }
+      : null,
+  };
+}
+
 export async function ensureIntelSource(config: IntelSourceConfig): Promise<string> {
   const existing = await pool.query<{ id: string }>(
     'select id from public.intel_sources where slug = $1 limit 1',
@@ -76,11 +114,11 @@ export async function ensureIntelSource(config: IntelSourceConfig): Promise<stri
 
   const inserted = await pool.query<{ id: string }>(
     `
-      insert into public.intel_sources (name, slug, kind, feed_url, field_mapping, is_active)
-      values ($1, $2, $3, $4, '{}'::jsonb, true)
+      insert into public.intel_sources (name, slug, kind, feed_url, field_mapping, is_active, schedule_interval_minutes)
+      values ($1, $2, $3, $4, '{}'::jsonb, true, $5)
       returning id
     `,
-    [config.name, config.dbSlug, config.kind, config.feedUrl],
+    [config.name, config.dbSlug, config.kind, config.feedUrl, DEFAULT_SOURCE_INTERVAL_MINUTES],
   );
   return inserted.rows[0].id;
 }
@@ -112,42 +150,85 @@ async function recordFailedRun(params: {
   );
 }
 
+// Keeps the scheduler's bookkeeping in step with every run, whatever triggered
+// it, so a manual refresh also resets backoff and the stale flag.
+async function recordSourceOutcome(sourceId: string, succeeded: boolean) {
+  try {
+    const current = await pool.query<{ schedule_interval_minutes: number | null; consecutive_failures: number | null }>(
+      'select schedule_interval_minutes, consecutive_failures from public.intel_sources where id = $1 limit 1',
+      [sourceId],
+    );
+    const row = current.rows[0];
+    if (!row) return;
+
+    const consecutiveFailures = succeeded ? 0 : Number(row.consecutive_failures || 0) + 1;
+    const nextRunAt = nextSourceRunAt({
+      now: new Date(),
+      intervalMinutes: row.schedule_interval_minutes,
+      consecutiveFailures,
+    });
+    await pool.query(
+      `
+        update public.intel_sources
+        set
+          consecutive_failures = $2,
+          next_run_at = $3,
+          last_success_at = case when $4 then now() else last_success_at end
+        where id = $1
+      `,
+      [sourceId, consecutiveFailures, nextRunAt, succeeded],
+    );
+  } catch (error) {
+    console.error('Failed to record industrial intel source schedule state:', error);
+  }
+}
+
 export async function runIndustrialIntelSource(
   sourceSlug: string,
   options: { triggerType?: string; initiatedByUserId?: string | null } = {},
 ): Promise<ApplyNormalizedRecordsResult & { sourceSlug: RunnableIntelSourceSlug; sourceId: string }> {
   const config = resolveRunnableIntelSource(sourceSlug);
-  if (!config) {
+  const mappedFeed = config ? null : await loadMappedFeedSource(sourceSlug);
+  if (!config && !mappedFeed) {
     throw new Error(`Unsupported industrial intel source: ${sourceSlug}`);
   }
 
+  const adapterSlug: RunnableIntelSourceSlug = config?.adapterSlug ?? 'mapped_feed';
   const triggerType = options.triggerType ?? 'manual_ui';
-  let sourceId: string | null = null;
+  let sourceId: string | null = mappedFeed?.id ?? null;
 
   try {
-    sourceId = await ensureIntelSource(config);
-    const result = await runSourceAdapter(config.adapterSlug, {
+    sourceId = config ? await ensureIntelSource(config) : mappedFeed!.id;
+    if (mappedFeed && !mappedFeed.feed) {
+      throw new Error(`Industrial intel source ${mappedFeed.slug} has no feed URL`);
+    }
+    const result = await runSourceAdapter(adapterSlug, {
       sourceId,
-      sourceSlug: config.adapterSlug,
+      sourceSlug: adapterSlug,
       triggerType,
       initiatedByUserId: options.initiatedByUserId ?? null,
+      feed: mappedFeed?.feed ?? undefined,
     });
     const applied = await applyNormalizedRecords(
       {
         sourceId,
-        sourceSlug: config.adapterSlug,
+        sourceSlug: adapterSlug,
         triggerType,
         initiatedByUserId: options.initiatedByUserId ?? null,
       },
       result,
     );
 
+    await recordSourceOutcome(sourceId, true);
+    await queueRequirementAlertsForRun(applied.runId);
+
     return {
       ...applied,
-      sourceSlug: config.adapterSlug,
+      sourceSlug: adapterSlug,
       sourceId,
     };
   } catch (error) {
+    if (sourceId) await recordSourceOutcome(sourceId, false);
     await recordFailedRun({
       sourceId,
       triggerType,
@@ -0,0 +1,33 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+import { isIntelSourceStale, nextSourceRunAt, sourceRetryDelayMinutes } from "./sourceSchedule";
+
+const now = new Date("2026-10-01T06:00:00Z");
+
+test("nextSourceRunAt waits a full interval after a success and skips manual-only sources", () => {
+  assert.equal(
+    nextSourceRunAt({ now, intervalMinutes: 1440, consecutiveFailures: 0 })?.toISOString(),
+    "2026-10-02T06:00:00.000Z",
+  );
+  assert.equal(nextSourceRunAt({ now, intervalMinutes: null, consecutiveFailures: 0 }), null);
+});
+
+test("failing sources back off exponentially up to a week", () => {
+  assert.deepEqual(
+    [1, 2, 3, 4].map((failures) => sourceRetryDelayMinutes(failures)),
+    [30, 60, 120, 240],
+  );
+  assert.equal(sourceRetryDelayMinutes(20), 7 * 24 * 60);
+  assert.equal(
+    nextSourceRunAt({ now, intervalMinutes: 1440, consecutiveFailures: 2 })?.toISOString(),
+    "2026-10-01T07:00:00.000Z",
+  );
+});
+
+test("isIntelSourceStale flags sources that missed a full cycle or never succeeded", () => {
+  assert.equal(isIntelSourceStale({ now, intervalMinutes: 1440, lastSuccessAt: "2026-09-30T07:00:00Z" }), false);
+  assert.equal(isIntelSourceStale({ now, intervalMinutes: 1440, lastSuccessAt: "2026-09-29T05:00:00Z" }), true);
+  assert.equal(isIntelSourceStale({ now, intervalMinutes: 1440, lastSuccessAt: null }), true);
+  assert.equal(isIntelSourceStale({ now, intervalMinutes: null, lastSuccessAt: null }), false);
+});
@@ -0,0 +1,44 @@
+export const SCHEDULED_INTEL_SOURCE_KINDS = ["broker_site", "csv_url", "json_url"] as const;
+
+export const DEFAULT_SOURCE_INTERVAL_MINUTES = 24 * 60;
+
+const RETRY_BASE_MINUTES = 30;
+const MAX_RETRY_MINUTES = 7 * 24 * 60;
+// A source is stale once it has missed a full cycle beyond its own cadence.
+const STALE_INTERVAL_MULTIPLIER = 2;
+
+export function isScheduledIntelSourceKind(kind: string): boolean {
+  return (SCHEDULED_INTEL_SOURCE_KINDS as readonly string[]).includes(kind);
+}
+
+// Retries double from 30 minutes after each consecutive failure, capped at a
+// week, so a broken feed stops being hit every tick without being forgotten.
+export function sourceRetryDelayMinutes(consecutiveFailures: number): number {
+  if (consecutiveFailures <= 0) return 0;
+  return Math.min(RETRY_BASE_MINUTES * 2 ** (consecutiveFailures - 1), MAX_RETRY_MINUTES);
+}
+
+export function nextSourceRunAt(params: {
+  now: Date;
+  intervalMinutes: number | null;
+  consecutiveFailures: number;
+}): Date | null {
+  if (!params.intervalMinutes || params.intervalMinutes <= 0) return null;
+  const delayMinutes =
+    params.consecutiveFailures > 0
+      ? sourceRetryDelayMinutes(params.consecutiveFailures)
+      : params.intervalMinutes;
+  return new Date(params.now.getTime() + delayMinutes * 60_000);
+}
+
+export function isIntelSourceStale(params: {
+  now: Date;
+  intervalMinutes: number | null;
+  lastSuccessAt: Date | string | null;
+}): boolean {
+  if (!params.intervalMinutes || params.intervalMinutes <= 0) return false;
+  if (!params.lastSuccessAt) return true;
+  const lastSuccess = new Date(params.lastSuccessAt).getTime();
+  if (Number.isNaN(lastSuccess)) return true;
+  return params.now.getTime() - lastSuccess > params.intervalMinutes * STALE_INTERVAL_MULTIPLIER * 60_000;
+}
@@ -0,0 +1,91 @@
+import { pool } from "../../db";
+import { runIndustrialIntelSource } from "./sourceRegistry";
+import { SCHEDULED_INTEL_SOURCE_KINDS } from "./sourceSchedule";
+
+const DEFAULT_TICK_MS = 5 * 60_000;
+const STARTUP_DELAY_MS = 60_000;
+const SOURCES_PER_TICK = 5;
+// Claimed sources are pushed out by this much so a second API instance, or a
+// run that crashes the process, cannot start the same source again right away.
+const CLAIM_LEASE_MINUTES = 60;
+
+type DueIntelSource = { id: string; slug: string };
+
+async function claimDueIntelSources(limit: number): Promise<DueIntelSource[]> {
+  const result = await pool.query<DueIntelSource>(
+    `
+      UPDATE public.intel_sources
+      SET next_run_at = now() + make_interval(mins => $3::integer)
+      WHERE id IN (
+        SELECT id
+        FROM public.intel_sources
+        WHERE is_active = true
+          AND schedule_interval_minutes IS NOT NULL
+          AND kind = ANY($1::varchar[])
+          AND (next_run_at IS NULL OR next_run_at <= now())
+        ORDER BY next_run_at NULLS FIRST
+        LIMIT $2
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, slug
+    `,
+    [SCHEDULED_INTEL_SOURCE_KINDS, limit, CLAIM_LEASE_MINUTES],
+  );
+  return result.rows;
+}
+
+export async function runDueIntelSources(limit = SOURCES_PER_TICK): Promise<{ attempted: number; failed: number }> {
+  const due = await claimDueIntelSources(limit);
+  let failed = 0;
+
+  // Sequential on purpose: broker sites are slow and rate-limit parallel fetches.
+  for (const source of due) {
+    try {
+      await runIndustrialIntelSource(source.slug, { triggerType: "scheduled" });
+    } catch (error) {
+      failed += 1;
+      console.error(`Scheduled industrial intel run failed for ${source.slug}:`, (error as Error)?.message || error);
+    }
+  }
+
+  return { attempted: due.length, failed };
+}
+
+function isSchedulerEnabled(): boolean {
+  const setting = process.env.INTEL_SOURCE_SCHEDULER?.trim().toLowerCase();
+  if (setting === "off" || setting === "false") return false;
+  if (setting === "on" || setting === "true") return true;
+  return process.env.NODE_ENV === "production";
+}
+
+export function startIntelSourceScheduler(): (() => void) | null {
+  if (!process.env.DATABASE_URL || !isSchedulerEnabled()) return null;
+
+  const tickMs = Number(process.env.INTEL_SOURCE_SCHEDULER_TICK_MS) || DEFAULT_TICK_MS;
+  let ticking = false;
+  const tick = async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      const result = await runDueIntelSources();
+      if (result.attempted > 0) {
+        console.log(`[intel-scheduler] ran ${result.attempted} source(s), ${result.failed} failed`);
+      }
+    } catch (error) {
+      console.error("[intel-scheduler] tick failed:", (error as Error)?.message || error);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  const startup = setTimeout(tick, STARTUP_DELAY_MS);
+  const interval = setInterval(tick, tickMs);
+  startup.unref();
+  interval.unref();
+  console.log(`[intel-scheduler] checking for due sources every ${Math.round(tickMs / 1000)}s`);
+
+  return () => {
+    clearTimeout(startup);
+    clearInterval(interval);
+  };
+}
@@ -0,0 +1,29 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { clientResponseDecision, clientResponseLabel, summarizeUnreadClientFeedback } from "./surveyClientFeedback";
+
+test("client survey responses mirror onto the requirement shortlist", () => {
+  assert.equal(clientResponseDecision("interested"), "shortlist");
+  assert.equal(clientResponseDecision("tour"), "shortlist");
+  assert.equal(clientResponseDecision("not_interested"), "rejected");
+  assert.equal(clientResponseLabel("not_interested"), "not interested");
+});
+
+test("unread client feedback counts events after the broker's read mark", () => {
+  const events = [
+    { createdAt: "2026-03-04T16:00:00.000Z", payload: { itemId: "item-b" } },
+    { createdAt: "2026-03-04T15:00:00.000Z", payload: { itemId: "item-a" } },
+    { createdAt: "2026-03-04T14:30:00.000Z", payload: { itemId: "item-b" } },
+    { createdAt: "2026-03-02T09:00:00.000Z", payload: { itemId: "item-c" } },
+  ];
+
+  assert.deepEqual(summarizeUnreadClientFeedback(events, "2026-03-03T00:00:00.000Z"), {
+    unreadCount: 3,
+    unreadItemIds: ["item-b", "item-a"],
+  });
+  assert.deepEqual(summarizeUnreadClientFeedback(events, null).unreadCount, 4);
+  assert.deepEqual(summarizeUnreadClientFeedback(events, "2026-03-04T16:00:00.000Z"), {
+    unreadCount: 0,
+    unreadItemIds: [],
+  });
+});
@@ -0,0 +1,52 @@
+export const SURVEY_CLIENT_RESPONSES = ["interested", "not_interested", "tour"] as const;
+export type IntelSurveyClientResponse = (typeof SURVEY_CLIENT_RESPONSES)[number];
+
+export const SURVEY_CLIENT_RESPONSE_ACTION = "client.response";
+export const SURVEY_CLIENT_COMMENT_ACTION = "client.comment";
+
+const RESPONSE_LABELS: Record<IntelSurveyClientResponse, string> = {
+  interested: "interested",
+  not_interested: "not interested",
+  tour: "wants a tour",
+};
+
+export function clientResponseLabel(response: IntelSurveyClientResponse): string {
+  return RESPONSE_LABELS[response];
+}
+
+/**
+ * A tour request is a stronger signal than "interested", so both land on the
+ * requirement shortlist; a pass rejects the listing for that requirement.
+ */
+export function clientResponseDecision(response: IntelSurveyClientResponse): "shortlist" | "rejected" {
+  return response === "not_interested" ? "rejected" : "shortlist";
+}
+
+export type IntelSurveyFeedbackEventRef = {
+  createdAt: string | null;
+  payload: Record<string, unknown>;
+};
+
+export type IntelSurveyFeedbackUnread = {
+  unreadCount: number;
+  unreadItemIds: string[];
+};
+
+/** Client events newer than the broker's last read mark; everything is unread until the first mark. */
+export function summarizeUnreadClientFeedback(
+  events: IntelSurveyFeedbackEventRef[],
+  readAt: string | null,
+): IntelSurveyFeedbackUnread {
+  const readTime = readAt ? new Date(readAt).getTime() : Number.NEGATIVE_INFINITY;
+  const unread = events.filter((event) => {
+    const time = event.createdAt ? new Date(event.createdAt).getTime() : Number.NaN;
+    return Number.isFinite(time) && time > readTime;
+  });
+  const itemIds = unread
+    .map((event) => event.payload.itemId)
+    .filter((itemId): itemId is string => typeof itemId === "string" && itemId.length > 0);
+  return {
+    unreadCount: unread.length,
+    unreadItemIds: Array.from(new Set(itemIds)),
+  };
+}
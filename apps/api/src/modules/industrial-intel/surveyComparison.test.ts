@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  buildSurveyComparison,
+  clientSurveyComparison,
+  normalizeSurveyClientFactKeys,
+  requiredPowerAmps,
+  type SurveyComparisonFact,
+} from "./surveyComparison";
+
+const options = [
+  { itemId: "item-a", listingId: "listing-a", title: "Acheson DC", clearHeightFt: 28, dockDoors: 4, yardAcres: null },
+  { itemId: "item-b", listingId: "listing-b", title: "Nisku Flex", clearHeightFt: 32, dockDoors: null, yardAcres: 2 },
+  { itemId: "item-c", listingId: "listing-c", title: "Leduc Yard", clearHeightFt: 24, dockDoors: null, yardAcres: null },
+];
+
+const factsByListing = new Map<string, SurveyComparisonFact[]>([
+  [
+    "listing-a",
+    [
+      { factKey: "dock_doors", label: "Dock doors", value: 6 },
+      { factKey: "power_amps", label: "Power", value: 1200 },
+      { factKey: "zoning", label: "Zoning", value: "IM" },
+      { factKey: "rail_served", label: "Rail served", value: true },
+    ],
+  ],
+  [
+    "listing-b",
+    [
+      { factKey: "dock_doors", label: "Dock doors", value: 2 },
+      { factKey: "power_amps", label: "Power", value: 2000 },
+      { factKey: "zoning", label: "Zoning", value: "IH" },
+    ],
+  ],
+  ["listing-c", [{ factKey: "dock_doors", label: "Dock doors", value: 3 }]],
+]);
+
+const requirement = {
+  minClearHeightFt: 28,
+  requiredDockDoors: 4,
+  requiredGradeDoors: null,
+  minYardAcres: null,
+  powerNotes: "Needs 1,600A at 600V",
+  preferences: [
+    { key: "zoning", operator: "avoid", comparator: "eq", valueText: "IH" },
+    { key: "rail_served", operator: "preferred", valueBoolean: true },
+  ],
+};
+
+function row(matrix: ReturnType<typeof buildSurveyComparison>, factKey: string) {
+  const found = matrix.rows.find((candidate) => candidate.factKey === factKey);
+  assert.ok(found, `missing ${factKey} row`);
+  return found;
+}
+
+test("comparison rows highlight best and worst and test each cell against the requirement", () => {
+  const matrix = buildSurveyComparison({ options, factsByListing, requirement, clientFactKeys: null });
+
+  assert.deepEqual(
+    matrix.rows.map((candidate) => candidate.factKey),
+    ["clear_height_ft", "dock_doors", "power_amps", "zoning", "yard_acres", "rail_served"],
+  );
+
+  const clear = row(matrix, "clear_height_ft");
+  assert.equal(clear.requirement, ">= 28");
+  assert.deepEqual(
+    clear.cells.map((cell) => [cell.value, cell.source, cell.highlight, cell.requirement]),
+    [
+      [28, "listing", null, "pass"],
+      [32, "listing", "best", "pass"],
+      [24, "listing", "worst", "fail"],
+    ],
+  );
+
+  // Approved dossier facts win over the listing's own dock door count.
+  const docks = row(matrix, "dock_doors");
+  assert.deepEqual(
+    docks.cells.map((cell) => [cell.value, cell.source, cell.highlight, cell.requirement]),
+    [
+      [6, "dossier", "best", "pass"],
+      [2, "dossier", "worst", "fail"],
+      [3, "dossier", null, "fail"],
+    ],
+  );
+
+  const power = row(matrix, "power_amps");
+  assert.equal(power.requirement, ">= 1,600");
+  assert.deepEqual(power.cells.map((cell) => cell.requirement), ["fail", "pass", null]);
+
+  const zoning = row(matrix, "zoning");
+  assert.equal(zoning.requirement, "avoid = IH");
+  assert.deepEqual(zoning.cells.map((cell) => [cell.highlight, cell.requirement]), [[null, "pass"], [null, "fail"], [null, null]]);
+
+  const rail = row(matrix, "rail_served");
+  assert.equal(rail.label, "Rail served");
+  assert.equal(rail.clientVisible, false);
+  assert.deepEqual(rail.cells.map((cell) => cell.requirement), ["pass", null, null]);
+
+  assert.deepEqual(matrix.options.map((option) => option.number), [1, 2, 3]);
+});
+
+test("clients only see the facts the broker released", () => {
+  const standard = clientSurveyComparison(buildSurveyComparison({ options, factsByListing, requirement: null, clientFactKeys: null }));
+  assert.deepEqual(
+    standard.rows.map((candidate) => candidate.factKey),
+    ["clear_height_ft", "dock_doors", "power_amps", "zoning", "yard_acres"],
+  );
+
+  const chosen = clientSurveyComparison(
+    buildSurveyComparison({ options, factsByListing, requirement: null, clientFactKeys: ["rail_served", "dock_doors"] }),
+  );
+  assert.deepEqual(chosen.rows.map((candidate) => candidate.factKey), ["dock_doors", "rail_served"]);
+  assert.deepEqual(chosen.clientFactKeys, ["dock_doors", "rail_served"]);
+  assert.equal(chosen.usesStandardClientFacts, false);
+  assert.equal(standard.usesStandardClientFacts, true);
+});
+
+test("requirement power notes and broker fact selections are normalized", () => {
+  assert.equal(requiredPowerAmps("2000 amps, 347/600V"), 2000);
+  assert.equal(requiredPowerAmps("3-phase preferred"), null);
+  assert.deepEqual(normalizeSurveyClientFactKeys([" zoning ", "zoning", "", "dock_doors"]), ["zoning", "dock_doors"]);
+  assert.deepEqual(normalizeSurveyClientFactKeys([]), []);
+  assert.equal(normalizeSurveyClientFactKeys(null), null);
+});
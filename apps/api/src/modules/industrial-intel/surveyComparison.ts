@@ -0,0 +1,258 @@
+import {
+  evaluateRequirementPreference,
+  type RequirementFactValue,
+  type RequirementPreferenceForMatching,
+  type RequirementPreferenceOutcome,
+} from "@level-cre/shared";
+
+export type SurveyComparisonFact = {
+  factKey: string;
+  label: string;
+  value: RequirementFactValue;
+};
+
+export type SurveyComparisonOptionInput = {
+  itemId: string;
+  listingId: string;
+  title: string;
+  clearHeightFt?: number | null;
+  dockDoors?: number | null;
+  yardAcres?: number | null;
+};
+
+export type SurveyComparisonRequirement = {
+  minClearHeightFt: number | null;
+  requiredDockDoors: number | null;
+  requiredGradeDoors: number | null;
+  minYardAcres: number | null;
+  powerNotes: string | null;
+  preferences: RequirementPreferenceForMatching[];
+};
+
+export type SurveyComparisonCell = {
+  itemId: string;
+  value: RequirementFactValue;
+  source: "dossier" | "listing" | null;
+  highlight: "best" | "worst" | null;
+  requirement: Exclude<RequirementPreferenceOutcome, "unknown"> | null;
+};
+
+export type SurveyComparisonRow = {
+  factKey: string;
+  label: string;
+  unit: string | null;
+  requirement: string | null;
+  clientVisible: boolean;
+  cells: SurveyComparisonCell[];
+};
+
+export type SurveyComparisonMatrix = {
+  options: Array<{ itemId: string; number: number; title: string }>;
+  rows: SurveyComparisonRow[];
+  // Keys released to the client; the standard set until the broker picks one.
+  clientFactKeys: string[];
+  usesStandardClientFacts: boolean;
+};
+
+type ComparisonFactDefinition = {
+  key: string;
+  label: string;
+  unit: string | null;
+  better: "higher" | "lower" | null;
+  listingValue?: (option: SurveyComparisonOptionInput) => number | null | undefined;
+  minimum?: (requirement: SurveyComparisonRequirement) => number | null;
+};
+
+/** Requirement power notes are free text; the first amperage mentioned ("2,000A", "800 amps") is the target. */
+export function requiredPowerAmps(notes: string | null | undefined): number | null {
+  const match = /(\d[\d,]*)\s*(?:a|amps?)\b/i.exec(notes || "");
+  if (!match) return null;
+  const amps = Number(match[1].replace(/,/g, ""));
+  return Number.isFinite(amps) && amps > 0 ? amps : null;
+}
+
+// The standard industrial comparison, in display order. These are also the
+// facts a client sees until the broker picks a different set.
+const COMPARISON_FACTS: ComparisonFactDefinition[] = [
+  { key: "building_size_sf", label: "Building size", unit: "SF", better: null },
+  {
+    key: "clear_height_ft",
+    label: "Clear height",
+    unit: "ft",
+    better: "higher",
+    listingValue: (option) => option.clearHeightFt,
+    minimum: (requirement) => requirement.minClearHeightFt,
+  },
+  {
+    key: "dock_doors",
+    label: "Dock doors",
+    unit: null,
+    better: "higher",
+    listingValue: (option) => option.dockDoors,
+    minimum: (requirement) => requirement.requiredDockDoors,
+  },
+  {
+    key: "grade_doors",
+    label: "Grade doors",
+    unit: null,
+    better: "higher",
+    minimum: (requirement) => requirement.requiredGradeDoors,
+  },
+  {
+    key: "power_amps",
+    label: "Power",
+    unit: "A",
+    better: "higher",
+    minimum: (requirement) => requiredPowerAmps(requirement.powerNotes),
+  },
+  { key: "zoning", label: "Zoning", unit: null, better: null },
+  { key: "office_pct", label: "Office", unit: "%", better: null },
+  {
+    key: "yard_acres",
+    label: "Yard",
+    unit: "ac",
+    better: "higher",
+    listingValue: (option) => option.yardAcres,
+    minimum: (requirement) => requirement.minYardAcres,
+  },
+];
+
+export const DEFAULT_SURVEY_CLIENT_FACT_KEYS = COMPARISON_FACTS.map((fact) => fact.key);
+
+const COMPARATOR_SYMBOLS: Record<string, string> = { gte: ">=", lte: "<=", eq: "=", neq: "!=", contains: "includes" };
+
+function normalizeFactKey(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function rowChecks(
+  definition: ComparisonFactDefinition | undefined,
+  factKey: string,
+  requirement: SurveyComparisonRequirement | null,
+): RequirementPreferenceForMatching[] {
+  if (!requirement) return [];
+  const checks: RequirementPreferenceForMatching[] = [];
+  const minimum = definition?.minimum?.(requirement);
+  if (minimum != null) checks.push({ key: factKey, operator: "required", comparator: "gte", valueNumber: minimum });
+  for (const preference of requirement.preferences) {
+    if (preference.operator === "note" || normalizeFactKey(preference.key) !== normalizeFactKey(factKey)) continue;
+    checks.push({ ...preference, key: factKey });
+  }
+  return checks;
+}
+
+function describeCheck(check: RequirementPreferenceForMatching) {
+  const comparator = check.comparator || (check.valueNumber != null ? "gte" : check.valueBoolean != null ? "eq" : "contains");
+  const target = check.valueNumber ?? check.valueBoolean ?? check.valueText ?? "";
+  const text = `${COMPARATOR_SYMBOLS[comparator] || comparator} ${typeof target === "number" ? target.toLocaleString("en-CA") : String(target)}`;
+  return check.operator === "avoid" ? `avoid ${text}` : text;
+}
+
+function checkOutcome(checks: RequirementPreferenceForMatching[], factKey: string, value: RequirementFactValue) {
+  if (checks.length === 0 || value == null) return null;
+  const listing = { id: "", title: "", listingType: "", assetType: "", facts: { [factKey]: value } };
+  let passed = false;
+  for (const check of checks) {
+    const outcome = evaluateRequirementPreference(check, listing);
+    if (outcome === "unknown") continue;
+    // An avoid preference is met when the value does NOT match it.
+    const met = check.operator === "avoid" ? outcome === "fail" : outcome === "pass";
+    if (!met) return "fail" as const;
+    passed = true;
+  }
+  return passed ? ("pass" as const) : null;
+}
+
+function highlightCells(cells: SurveyComparisonCell[], better: "higher" | "lower") {
+  const numbers = cells.map((cell) => cell.value).filter((value): value is number => typeof value === "number");
+  if (new Set(numbers).size < 2) return;
+  const best = better === "higher" ? Math.max(...numbers) : Math.min(...numbers);
+  const worst = better === "higher" ? Math.min(...numbers) : Math.max(...numbers);
+  for (const cell of cells) {
+    if (cell.value === best) cell.highlight = "best";
+    else if (cell.value === worst) cell.highlight = "worst";
+  }
+}
+
+/**
+ * Rows are fact keys and columns are survey options. Approved dossier facts
+ * win; a few standard rows fall back to the listing record. Rows with no
+ * values are dropped unless the requirement sets a target for them.
+ */
+export function buildSurveyComparison(input: {
+  options: SurveyComparisonOptionInput[];
+  factsByListing: Map<string, SurveyComparisonFact[]>;
+  requirement: SurveyComparisonRequirement | null;
+  clientFactKeys: string[] | null;
+}): SurveyComparisonMatrix {
+  const labels = new Map<string, string>();
+  const valuesByListing = new Map<string, Map<string, RequirementFactValue>>();
+  for (const [listingId, facts] of Array.from(input.factsByListing.entries())) {
+    const values = new Map<string, RequirementFactValue>();
+    for (const fact of facts) {
+      if (fact.value == null) continue;
+      values.set(fact.factKey, fact.value);
+      labels.set(fact.factKey, fact.label);
+    }
+    valuesByListing.set(listingId, values);
+  }
+
+  const standardKeys = new Set(DEFAULT_SURVEY_CLIENT_FACT_KEYS);
+  const extraKeys = Array.from(labels.keys())
+    .filter((key) => !standardKeys.has(key))
+    .sort((a, b) => (labels.get(a) || a).localeCompare(labels.get(b) || b));
+  const clientFactKeys = input.clientFactKeys ?? DEFAULT_SURVEY_CLIENT_FACT_KEYS;
+  const clientKeys = new Set(clientFactKeys);
+
+  const rows: SurveyComparisonRow[] = [];
+  for (const factKey of [...DEFAULT_SURVEY_CLIENT_FACT_KEYS, ...extraKeys]) {
+    const definition = COMPARISON_FACTS.find((fact) => fact.key === factKey);
+    const checks = rowChecks(definition, factKey, input.requirement);
+    const cells: SurveyComparisonCell[] = input.options.map((option) => {
+      const factValue = valuesByListing.get(option.listingId)?.get(factKey);
+      const listingValue = definition?.listingValue?.(option);
+      const value = factValue ?? listingValue ?? null;
+      return {
+        itemId: option.itemId,
+        value,
+        source: factValue != null ? "dossier" : listingValue != null ? "listing" : null,
+        highlight: null,
+        requirement: checkOutcome(checks, factKey, value),
+      };
+    });
+    if (checks.length === 0 && cells.every((cell) => cell.value == null)) continue;
+    if (definition?.better) highlightCells(cells, definition.better);
+
+    rows.push({
+      factKey,
+      label: definition?.label || labels.get(factKey) || factKey,
+      unit: definition?.unit ?? null,
+      requirement: checks.length > 0 ? checks.map(describeCheck).join("; ") : null,
+      clientVisible: clientKeys.has(factKey),
+      cells,
+    });
+  }
+
+  return {
+    options: input.options.map((option, index) => ({ itemId: option.itemId, number: index + 1, title: option.title })),
+    rows,
+    clientFactKeys,
+    usesStandardClientFacts: input.clientFactKeys === null,
+  };
+}
+
+/** The share-link view: only the rows the broker released. */
+export function clientSurveyComparison(matrix: SurveyComparisonMatrix): SurveyComparisonMatrix {
+  const rows = matrix.rows.filter((row) => row.clientVisible);
+  return {
+    ...matrix,
+    rows,
+    clientFactKeys: rows.map((row) => row.factKey),
+  };
+}
+
+/** Trims, dedupes and caps the broker's chosen fact keys; an empty selection is kept so every row can be hidden. */
+export function normalizeSurveyClientFactKeys(keys: string[] | null | undefined): string[] | null {
+  if (!keys) return null;
+  return Array.from(new Set(keys.map((key) => key.trim()).filter(Boolean))).slice(0, 100);
+}
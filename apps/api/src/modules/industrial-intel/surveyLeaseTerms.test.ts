@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { normalizeSurveyLeaseTerms, surveyItemLeaseEconomics } from "./surveyLeaseTerms";
+
+const listing = { listingType: "lease", availableSf: 20_000, leaseRatePsf: 11 };
+
+test("survey lease economics fall back to the listing's asking rate and area", () => {
+  const economics = surveyItemLeaseEconomics({ termMonths: 60, freeRentMonths: 6 }, listing);
+  assert.equal(economics?.startingRatePsf, 11);
+  assert.equal(economics?.netEffectiveRatePsf, 9.9);
+  assert.equal(economics?.totals?.totalConsideration, 990_000);
+
+  const override = surveyItemLeaseEconomics({ termMonths: 60, baseRatePsf: 10, areaSf: 15_000 }, listing);
+  assert.equal(override?.netEffectiveRatePsf, 10);
+  assert.equal(override?.areaSf, 15_000);
+
+  assert.equal(surveyItemLeaseEconomics(null, listing), null);
+  assert.equal(surveyItemLeaseEconomics({ termMonths: 60 }, { ...listing, leaseRatePsf: null }), null);
+  assert.equal(surveyItemLeaseEconomics({ termMonths: 60 }, { ...listing, listingType: "sale" }), null);
+});
+
+test("survey lease terms with nothing entered are stored as null", () => {
+  assert.equal(normalizeSurveyLeaseTerms({ termMonths: null, rentSteps: [] }), null);
+  assert.deepEqual(normalizeSurveyLeaseTerms({ termMonths: 60, tiAllowancePsf: null }), { termMonths: 60 });
+});
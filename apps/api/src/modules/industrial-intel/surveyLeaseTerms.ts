@@ -0,0 +1,29 @@
+import { computeLeaseEconomics, type LeaseEconomics, type LeaseTerms } from "@level-cre/shared";
+
+export type SurveyLeaseListing = {
+  listingType: string;
+  availableSf: number | null;
+  leaseRatePsf: number | null;
+};
+
+// Terms saved on the item are broker assumptions; the listing supplies the
+// asking rate and available area unless the broker has overridden them.
+export function surveyItemLeaseEconomics(
+  terms: LeaseTerms | null | undefined,
+  listing: SurveyLeaseListing,
+): LeaseEconomics | null {
+  if (!terms) return null;
+  if (listing.listingType === "sale" && terms.baseRatePsf == null && !terms.rentSteps?.length) return null;
+  return computeLeaseEconomics({
+    ...terms,
+    baseRatePsf: terms.baseRatePsf ?? listing.leaseRatePsf,
+    areaSf: terms.areaSf ?? listing.availableSf,
+  });
+}
+
+/** Drops empty fields so an item with nothing entered stores null rather than {}. */
+export function normalizeSurveyLeaseTerms(terms: LeaseTerms | null | undefined): LeaseTerms | null {
+  if (!terms) return null;
+  const entries = Object.entries(terms).filter(([, value]) => value !== null && value !== undefined && !(Array.isArray(value) && value.length === 0));
+  return entries.length > 0 ? (Object.fromEntries(entries) as LeaseTerms) : null;
+}
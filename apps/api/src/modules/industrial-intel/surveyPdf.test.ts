@@ -0,0 +1,170 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import { inflateSync } from "zlib";
+import type { IntelListingAsset, IntelSurveyDetail, IntelSurveyItem } from "./repo";
+import { pickSurveyOptionImage, renderSurveyPdf, surveyPdfFileName, surveyPdfOptions } from "./surveyPdf";
+
+function surveyItem(id: string, sortOrder: number, overrides: Partial<IntelSurveyItem> = {}): IntelSurveyItem {
+  return {
+    id,
+    surveyId: "survey-1",
+    listingId: `listing-${id}`,
+    sortOrder,
+    recommendationLabel: null,
+    brokerNotes: null,
+    clientNotes: null,
+    hidden: false,
+    leaseTerms: null,
+    leaseEconomics: null,
+    clientResponse: null,
+    clientResponseAt: null,
+    tourNotes: null,
+    touredAt: null,
+    createdAt: null,
+    updatedAt: null,
+    listing: {
+      id: `listing-${id}`,
+      sourceId: "source-1",
+      sourceName: null,
+      title: `Building ${id}`,
+      address: `${sortOrder + 100} Industrial Way`,
+      normalizedAddress: null,
+      market: "Phoenix",
+      submarket: "Southwest Valley",
+      status: "active",
+      listingType: "lease",
+      assetType: "industrial",
+      latitude: 33.4 + sortOrder / 100,
+      longitude: -112.2 - sortOrder / 100,
+      geocodeStatus: null,
+      geocodeConfidence: null,
+      geocodeSource: null,
+      dataQualityStatus: null,
+      availableSf: 42000,
+      landAcres: null,
+      totalPrice: null,
+      pricePerAcre: null,
+      leaseRatePsf: 1.15,
+      clearHeightFt: 32,
+      dockDoors: 6,
+      yardAcres: 1.5,
+      brochureUrl: null,
+      sourceUrl: null,
+      lastSeenAt: null,
+      removedAt: null,
+    },
+    ...overrides,
+  };
+}
+
+function pdfText(pdf: Buffer): string[] {
+  const source = pdf.toString("latin1");
+  const text: string[] = [];
+  for (const match of source.matchAll(/stream\n([\s\S]*?)\nendstream/g)) {
+    let content: string;
+    try {
+      content = inflateSync(Buffer.from(match[1], "latin1")).toString("latin1");
+    } catch {
+      continue;
+    }
+    for (const run of content.matchAll(/<([0-9A-Fa-f]*)> Tj/g)) {
+      text.push(Buffer.from(run[1], "hex").toString("latin1"));
+    }
+  }
+  return text;
+}
+
+const survey: IntelSurveyDetail = {
+  id: "survey-1",
+  requirementId: null,
+  requirementTitle: "40k SF distribution",
+  title: "Acme Logistics - West Valley",
+  clientName: "Acme Logistics",
+  status: "shared",
+  shareToken: "token",
+  itemCount: 3,
+  visibleItemCount: 2,
+  unreadClientFeedbackCount: 0,
+  createdByUserId: "user-1",
+  createdAt: null,
+  updatedAt: null,
+  items: [
+    surveyItem("b", 2, { clientNotes: "Closest to the 303" }),
+    surveyItem("a", 1, { brokerNotes: "Landlord will take 10% less", recommendationLabel: "Top pick" }),
+    surveyItem("c", 3, { hidden: true }),
+  ],
+};
+
+test("survey books leave out hidden options and broker-only notes", () => {
+  const options = surveyPdfOptions(survey);
+  assert.deepEqual(
+    options.map((option) => [option.number, option.itemId]),
+    [
+      [1, "a"],
+      [2, "b"],
+    ],
+  );
+  assert.ok(options.every((option) => !("brokerNotes" in option)));
+
+  const pdf = renderSurveyPdf({
+    title: survey.title,
+    clientName: survey.clientName,
+    requirementTitle: survey.requirementTitle,
+    preparedBy: { name: "Jordan Broker", company: "Level CRE", email: null },
+    generatedAt: new Date("2026-03-04T16:00:00.000Z"),
+    options,
+    images: new Map(),
+  });
+  const source = pdf.toString("latin1");
+  const text = pdfText(pdf).join("\n");
+
+  // Cover, one summary page, the map and a page per visible option.
+  assert.match(source, /\/Type \/Pages \/Kids \[[^\]]+\] \/Count 5/);
+  assert.match(text, /Acme Logistics - West Valley/);
+  assert.match(text, /Closest to the 303/);
+  assert.match(text, /Top pick/);
+  assert.doesNotMatch(text, /Landlord will take/);
+  assert.doesNotMatch(text, /Building c/);
+});
+
+test("option images prefer survey uploads, then primary listing photos", () => {
+  const asset = (id: string, overrides: Partial<IntelListingAsset>): IntelListingAsset => ({
+    id,
+    dossierId: null,
+    listingId: "listing-a",
+    surveyId: null,
+    surveyItemId: null,
+    prospectId: null,
+    emailMessageId: null,
+    assetType: "photo",
+    fileName: `${id}.jpg`,
+    contentType: "image/jpeg",
+    fileSize: 1000,
+    storageBucket: "intel",
+    storagePath: `${id}.jpg`,
+    source: "upload",
+    status: "active",
+    isPrimary: false,
+    createdByUserId: null,
+    createdAt: null,
+    updatedAt: null,
+    ...overrides,
+  });
+  const option = { itemId: "a", listingId: "listing-a" };
+
+  const plan = asset("plan", { assetType: "site_plan", isPrimary: true });
+  const photo = asset("photo", {});
+  const primaryPhoto = asset("primary-photo", { isPrimary: true });
+  const brochure = asset("brochure", { assetType: "brochure", contentType: "application/pdf", isPrimary: true });
+  const upload = asset("upload", { surveyItemId: "a", assetType: "other" });
+  const otherItem = asset("other-item", { surveyItemId: "b", isPrimary: true });
+
+  assert.equal(pickSurveyOptionImage(option, [photo, plan, primaryPhoto, brochure])?.id, "primary-photo");
+  assert.equal(pickSurveyOptionImage(option, [primaryPhoto, upload, otherItem])?.id, "upload");
+  assert.equal(pickSurveyOptionImage(option, [brochure, otherItem, asset("archived", { status: "archived" })]), null);
+});
+
+test("survey PDF file names are slugged from the title", () => {
+  assert.equal(surveyPdfFileName("Acme Logistics - West Valley (Q2)"), "acme-logistics-west-valley-q2.pdf");
+  assert.equal(surveyPdfFileName("  ***  "), "survey.pdf");
+});
@@ -0,0 +1,406 @@
+import { PdfDocument, wrapText, type PdfColor, type PdfImage, type PdfPage } from "../../lib/pdfWriter";
+import type { IntelListingAsset, IntelSurveyDetail, IntelSurveyPreparer } from "./repo";
+
+// Survey books are client-facing. Options are copied field by field so that
+// broker-only data (brokerNotes, hidden options) can never reach the PDF.
+export type SurveyPdfOption = {
+  itemId: string;
+  number: number;
+  title: string;
+  address: string | null;
+  area: string | null;
+  listingType: string;
+  availableSf: number | null;
+  landAcres: number | null;
+  clearHeightFt: number | null;
+  dockDoors: number | null;
+  yardAcres: number | null;
+  leaseRatePsf: number | null;
+  netEffectiveRatePsf: number | null;
+  totalPrice: number | null;
+  recommendationLabel: string | null;
+  clientNotes: string | null;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+export type SurveyPdfInput = {
+  title: string;
+  clientName: string | null;
+  requirementTitle: string | null;
+  preparedBy: IntelSurveyPreparer | null;
+  generatedAt: Date;
+  options: SurveyPdfOption[];
+  images: Map<string, PdfImage>;
+};
+
+export function surveyPdfOptions(survey: IntelSurveyDetail): SurveyPdfOption[] {
+  return [...survey.items]
+    .filter((item) => !item.hidden)
+    .sort((a, b) => a.sortOrder - b.sortOrder)
+    .map((item, index) => ({
+      itemId: item.id,
+      number: index + 1,
+      title: item.listing.title,
+      address: item.listing.normalizedAddress || item.listing.address,
+      area: item.listing.submarket || item.listing.market,
+      listingType: item.listing.listingType,
+      availableSf: item.listing.availableSf,
+      landAcres: item.listing.landAcres,
+      clearHeightFt: item.listing.clearHeightFt ?? null,
+      dockDoors: item.listing.dockDoors ?? null,
+      yardAcres: item.listing.yardAcres ?? null,
+      leaseRatePsf: item.listing.leaseRatePsf,
+      netEffectiveRatePsf: item.leaseEconomics?.netEffectiveRatePsf ?? null,
+      totalPrice: item.listing.totalPrice,
+      recommendationLabel: item.recommendationLabel,
+      clientNotes: item.clientNotes,
+      latitude: item.listing.latitude,
+      longitude: item.listing.longitude,
+    }));
+}
+
+const IMAGE_CONTENT_TYPES = new Set(["image/jpeg", "image/jpg", "image/png"]);
+const IMAGE_ASSET_RANK: Record<string, number> = { photo: 0, aerial: 1, site_plan: 2, flyer: 3, other: 4 };
+
+/** Picks the asset to show on an option's page: item uploads over listing uploads, primary first, photos before plans. */
+export function pickSurveyOptionImage(
+  option: { itemId: string; listingId: string },
+  assets: IntelListingAsset[],
+): IntelListingAsset | null {
+  const candidates = assets.filter(
+    (asset) =>
+      asset.status === "active" &&
+      IMAGE_CONTENT_TYPES.has(asset.contentType.toLowerCase()) &&
+      (asset.surveyItemId === option.itemId || (!asset.surveyItemId && asset.listingId === option.listingId)),
+  );
+  const score = (asset: IntelListingAsset) =>
+    (asset.surveyItemId === option.itemId ? 0 : 100) + (asset.isPrimary ? 0 : 10) + (IMAGE_ASSET_RANK[asset.assetType] ?? 5);
+  return candidates.sort((a, b) => score(a) - score(b))[0] || null;
+}
+
+const PAGE_WIDTH = 792;
+const PAGE_HEIGHT = 612;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BRAND: PdfColor = [29, 78, 216];
+const INK: PdfColor = [15, 23, 42];
+const MUTED: PdfColor = [100, 116, 139];
+const RULE: PdfColor = [226, 232, 240];
+const PANEL: PdfColor = [248, 250, 252];
+const TABLE_ROWS_PER_PAGE = 18;
+
+function formatNumber(value: number, maximumFractionDigits = 0): string {
+  return value.toLocaleString("en-CA", { maximumFractionDigits });
+}
+
+function formatSf(value: number | null): string {
+  return value ? `${formatNumber(value)} SF` : "-";
+}
+
+function formatAcres(value: number | null): string {
+  return value ? `${formatNumber(value, 2)} ac` : "-";
+}
+
+function formatClearHeight(value: number | null): string {
+  return value ? `${formatNumber(value, 1)}'` : "-";
+}
+
+function formatPsf(value: number | null): string {
+  return value ? `$${value.toLocaleString("en-CA", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} / SF` : "-";
+}
+
+function formatPrice(value: number | null): string {
+  return value ? `$${formatNumber(value)}` : "-";
+}
+
+function optionRate(option: SurveyPdfOption): string {
+  if (option.leaseRatePsf) return formatPsf(option.leaseRatePsf);
+  if (option.totalPrice) return formatPrice(option.totalPrice);
+  return "-";
+}
+
+function optionYard(option: SurveyPdfOption): string {
+  return option.yardAcres ? formatAcres(option.yardAcres) : "-";
+}
+
+function drawPageHeader(page: PdfPage, eyebrow: string, title: string) {
+  page.rect(0, 0, PAGE_WIDTH, 6, { fill: BRAND });
+  page.text(eyebrow.toUpperCase(), MARGIN, 40, { size: 8, font: "bold", color: BRAND });
+  page.text(title, MARGIN, 64, { size: 18, font: "bold", maxWidth: CONTENT_WIDTH });
+}
+
+function drawCover(page: PdfPage, input: SurveyPdfInput) {
+  page.rect(0, 0, PAGE_WIDTH, 200, { fill: BRAND });
+  page.text("INDUSTRIAL SURVEY", MARGIN, 70, { size: 10, font: "bold", color: [191, 219, 254] });
+  const titleLines = wrapText(input.title, 30, "bold", CONTENT_WIDTH).slice(0, 2);
+  titleLines.forEach((line, index) => {
+    page.text(line, MARGIN, 112 + index * 36, { size: 30, font: "bold", color: [255, 255, 255] });
+  });
+
+  let y = 250;
+  if (input.clientName) {
+    page.text("Prepared for", MARGIN, y, { size: 9, color: MUTED });
+    page.text(input.clientName, MARGIN, y + 20, { size: 16, font: "bold", maxWidth: CONTENT_WIDTH });
+    y += 52;
+  }
+  if (input.requirementTitle) {
+    page.text("Requirement", MARGIN, y, { size: 9, color: MUTED });
+    page.text(input.requirementTitle, MARGIN, y + 18, { size: 12, maxWidth: CONTENT_WIDTH });
+    y += 46;
+  }
+
+  const mapped = input.options.filter((option) => option.latitude !== null && option.longitude !== null).length;
+  const facts = [
+    { label: "Options", value: String(input.options.length) },
+    { label: "Mapped", value: `${mapped} / ${input.options.length}` },
+    { label: "Date", value: input.generatedAt.toLocaleDateString("en-CA", { year: "numeric", month: "long", day: "numeric" }) },
+  ];
+  const factWidth = CONTENT_WIDTH / facts.length;
+  facts.forEach((fact, index) => {
+    const x = MARGIN + index * factWidth;
+    page.rect(x, y + 8, factWidth - 12, 58, { fill: PANEL, stroke: RULE });
+    page.text(fact.label, x + 12, y + 28, { size: 8, font: "bold", color: MUTED });
+    page.text(fact.value, x + 12, y + 52, { size: 16, font: "bold", maxWidth: factWidth - 36 });
+  });
+
+  const preparer = input.preparedBy;
+  const preparerLines = [preparer?.name, preparer?.company, preparer?.email].filter((line): line is string => Boolean(line));
+  if (preparerLines.length > 0) {
+    page.line(MARGIN, 500, PAGE_WIDTH - MARGIN, 500, RULE);
+    page.text("Prepared by", MARGIN, 524, { size: 9, color: MUTED });
+    preparerLines.forEach((line, index) => {
+      page.text(line, MARGIN, 544 + index * 16, { size: index === 0 ? 12 : 10, font: index === 0 ? "bold" : "regular" });
+    });
+  }
+}
+
+const SUMMARY_COLUMNS: Array<{ label: string; width: number; align?: "right"; value: (option: SurveyPdfOption) => string }> = [
+  { label: "#", width: 26, value: (option) => String(option.number) },
+  { label: "Property", width: 214, value: (option) => option.title },
+  { label: "Area", width: 110, value: (option) => option.area || "-" },
+  { label: "Available", width: 82, align: "right", value: (option) => formatSf(option.availableSf) },
+  { label: "Clear", width: 56, align: "right", value: (option) => formatClearHeight(option.clearHeightFt) },
+  { label: "Rate / Price", width: 100, align: "right", value: optionRate },
+  { label: "Doors", width: 54, align: "right", value: (option) => (option.dockDoors ? formatNumber(option.dockDoors) : "-") },
+  { label: "Yard", width: 70, align: "right", value: optionYard },
+];
+
+function drawSummaryTable(page: PdfPage, options: SurveyPdfOption[], continued: boolean) {
+  drawPageHeader(page, "Summary", continued ? "Comparison (continued)" : "Comparison");
+  let y = 96;
+  page.rect(MARGIN, y, CONTENT_WIDTH, 24, { fill: PANEL });
+  let x = MARGIN;
+  for (const column of SUMMARY_COLUMNS) {
+    const textX = column.align === "right" ? x + column.width - 8 : x + 8;
+    page.text(column.label, textX, y + 16, { size: 8, font: "bold", color: MUTED, align: column.align });
+    x += column.width;
+  }
+  y += 24;
+  for (const option of options) {
+    x = MARGIN;
+    for (const column of SUMMARY_COLUMNS) {
+      const textX = column.align === "right" ? x + column.width - 8 : x + 8;
+      page.text(column.value(option), textX, y + 16, {
+        size: 9,
+        font: column.label === "Property" ? "bold" : "regular",
+        align: column.align,
+        maxWidth: column.width - 16,
+      });
+      x += column.width;
+    }
+    y += 24;
+    page.line(MARGIN, y, PAGE_WIDTH - MARGIN, y, RULE, 0.5);
+  }
+}
+
+const GRID_STEPS = [0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5];
+const SCALE_BAR_KM = [0.5, 1, 2, 5, 10, 20, 50, 100, 200];
+const KM_PER_DEGREE_LAT = 111.32;
+
+/**
+ * The map is drawn as vectors from option coordinates rather than fetched
+ * tiles, so the book renders with no map service available.
+ */
+function drawMap(page: PdfPage, options: SurveyPdfOption[]) {
+  drawPageHeader(page, "Map", "Option locations");
+  const frame = { x: MARGIN, y: 92, width: 480, height: 460 };
+  page.rect(frame.x, frame.y, frame.width, frame.height, { fill: PANEL, stroke: RULE });
+
+  const mapped = options.filter(
+    (option): option is SurveyPdfOption & { latitude: number; longitude: number } =>
+      option.latitude !== null && option.longitude !== null,
+  );
+  if (mapped.length === 0) {
+    page.text("No options have coordinates yet.", frame.x + frame.width / 2, frame.y + frame.height / 2, {
+      size: 11,
+      color: MUTED,
+      align: "center",
+    });
+  } else {
+    const lats = mapped.map((option) => option.latitude);
+    const lngs = mapped.map((option) => option.longitude);
+    const midLat = (Math.min(...lats) + Math.max(...lats)) / 2;
+    const lngFactor = Math.cos((midLat * Math.PI) / 180);
+    const latSpan = Math.max(Math.max(...lats) - Math.min(...lats), 0.01) * 1.3;
+    const lngSpan = Math.max(Math.max(...lngs) - Math.min(...lngs), 0.01) * 1.3;
+    const midLng = (Math.min(...lngs) + Math.max(...lngs)) / 2;
+    const scale = Math.min(frame.width / (lngSpan * lngFactor), frame.height / latSpan);
+    const project = (lat: number, lng: number) => ({
+      x: frame.x + frame.width / 2 + (lng - midLng) * lngFactor * scale,
+      y: frame.y + frame.height / 2 - (lat - midLat) * scale,
+    });
+    const north = midLat + frame.height / 2 / scale;
+    const south = midLat - frame.height / 2 / scale;
+    const west = midLng - frame.width / 2 / (lngFactor * scale);
+    const east = midLng + frame.width / 2 / (lngFactor * scale);
+
+    const step = GRID_STEPS.find((candidate) => (north - south) / candidate <= 6) ?? 10;
+    const decimals = step < 0.01 ? 3 : step < 0.1 ? 2 : 1;
+    for (let lat = Math.ceil(south / step) * step; lat < north; lat += step) {
+      const y = project(lat, midLng).y;
+      page.line(frame.x, y, frame.x + frame.width, y, RULE, 0.5);
+      page.text(`${lat.toFixed(decimals)}°`, frame.x + 4, y - 3, { size: 7, color: MUTED });
+    }
+    const lngStep = GRID_STEPS.find((candidate) => (east - west) / candidate <= 6) ?? 10;
+    for (let lng = Math.ceil(west / lngStep) * lngStep; lng < east; lng += lngStep) {
+      const x = project(midLat, lng).x;
+      page.line(x, frame.y, x, frame.y + frame.height, RULE, 0.5);
+      page.text(`${lng.toFixed(decimals)}°`, x + 3, frame.y + frame.height - 4, { size: 7, color: MUTED });
+    }
+
+    const pointsPerKm = scale / KM_PER_DEGREE_LAT;
+    const barKm = [...SCALE_BAR_KM].reverse().find((km) => km * pointsPerKm <= 140) ?? SCALE_BAR_KM[0];
+    const barWidth = barKm * pointsPerKm;
+    const barX = frame.x + frame.width - barWidth - 14;
+    const barY = frame.y + 20;
+    page.rect(barX - 6, barY - 12, barWidth + 12, 22, { fill: [255, 255, 255] });
+    page.line(barX, barY + 4, barX + barWidth, barY + 4, INK, 1.5);
+    page.text(`${formatNumber(barKm, 1)} km`, barX + barWidth / 2, barY, { size: 7, align: "center" });
+
+    for (const option of mapped) {
+      const point = project(option.latitude, option.longitude);
+      page.circle(point.x, point.y, 10, { fill: BRAND, stroke: [255, 255, 255], lineWidth: 1.5 });
+      page.text(String(option.number), point.x, point.y + 3.5, { size: 9, font: "bold", color: [255, 255, 255], align: "center" });
+    }
+  }
+
+  const legendX = frame.x + frame.width + 24;
+  const legendWidth = PAGE_WIDTH - MARGIN - legendX;
+  let y = frame.y + 12;
+  for (const option of options) {
+    if (y > frame.y + frame.height - 10) {
+      page.text(`+${options.length - option.number + 1} more in the summary table`, legendX, y, { size: 8, color: MUTED });
+      break;
+    }
+    page.circle(legendX + 8, y - 3, 8, { fill: option.latitude !== null ? BRAND : MUTED });
+    page.text(String(option.number), legendX + 8, y, { size: 8, font: "bold", color: [255, 255, 255], align: "center" });
+    page.text(option.title, legendX + 24, y, { size: 9, font: "bold", maxWidth: legendWidth - 24 });
+    page.text(
+      option.latitude !== null ? option.area || option.address || "" : "Location pending",
+      legendX + 24,
+      y + 12,
+      { size: 8, color: MUTED, maxWidth: legendWidth - 24 },
+    );
+    y += 30;
+  }
+}
+
+function drawOptionPage(page: PdfPage, option: SurveyPdfOption, image: PdfImage | null) {
+  drawPageHeader(page, `Option ${option.number}`, option.title);
+  page.text(option.address || "Address pending", MARGIN, 82, { size: 10, color: MUTED, maxWidth: CONTENT_WIDTH - 160 });
+  if (option.recommendationLabel) {
+    page.text(option.recommendationLabel, PAGE_WIDTH - MARGIN, 40, { size: 9, font: "bold", color: BRAND, align: "right", maxWidth: 200 });
+  }
+
+  const box = { x: MARGIN, y: 100, width: 440, height: 290 };
+  if (image) {
+    const fit = Math.min(box.width / image.width, box.height / image.height);
+    const width = image.width * fit;
+    const height = image.height * fit;
+    page.rect(box.x, box.y, box.width, box.height, { fill: PANEL });
+    page.image(image, box.x + (box.width - width) / 2, box.y + (box.height - height) / 2, width, height);
+  } else {
+    page.rect(box.x, box.y, box.width, box.height, { fill: PANEL, stroke: RULE });
+    page.text("No photo on file", box.x + box.width / 2, box.y + box.height / 2, { size: 10, color: MUTED, align: "center" });
+  }
+
+  const factsX = box.x + box.width + 24;
+  const factsWidth = PAGE_WIDTH - MARGIN - factsX;
+  const facts = [
+    { label: "Available", value: formatSf(option.availableSf) },
+    { label: "Land", value: formatAcres(option.landAcres) },
+    { label: "Clear height", value: formatClearHeight(option.clearHeightFt) },
+    { label: "Dock doors", value: option.dockDoors ? formatNumber(option.dockDoors) : "-" },
+    { label: "Yard", value: optionYard(option) },
+    { label: "Asking rate", value: formatPsf(option.leaseRatePsf) },
+    ...(option.netEffectiveRatePsf ? [{ label: "Net effective", value: formatPsf(option.netEffectiveRatePsf) }] : []),
+    { label: "Sale price", value: formatPrice(option.totalPrice) },
+    { label: "Offering", value: option.listingType === "sale" ? "For sale" : option.listingType === "lease" ? "For lease" : option.listingType },
+    { label: "Area", value: option.area || "-" },
+  ];
+  let y = box.y;
+  for (const fact of facts) {
+    page.text(fact.label, factsX, y + 15, { size: 9, color: MUTED });
+    page.text(fact.value, factsX + factsWidth, y + 15, { size: 10, font: "bold", align: "right", maxWidth: factsWidth - 90 });
+    y += 26;
+    page.line(factsX, y, factsX + factsWidth, y, RULE, 0.5);
+  }
+
+  if (option.clientNotes) {
+    const notesTop = box.y + box.height + 28;
+    page.text("Notes", MARGIN, notesTop, { size: 9, font: "bold", color: MUTED });
+    const maxLines = Math.floor((PAGE_HEIGHT - 56 - notesTop) / 14);
+    const lines = wrapText(option.clientNotes, 10, "regular", CONTENT_WIDTH);
+    const shown = lines.slice(0, maxLines);
+    if (lines.length > maxLines && shown.length > 0) shown[shown.length - 1] = `${shown[shown.length - 1]}…`;
+    shown.forEach((line, index) => page.text(line, MARGIN, notesTop + 18 + index * 14, { size: 10, maxWidth: CONTENT_WIDTH }));
+  }
+}
+
+function drawFooter(page: PdfPage, input: SurveyPdfInput, pageNumber: number, pageCount: number) {
+  const y = PAGE_HEIGHT - 24;
+  page.line(MARGIN, y - 14, PAGE_WIDTH - MARGIN, y - 14, RULE, 0.5);
+  const left = [input.title, input.clientName ? `Prepared for ${input.clientName}` : null, input.preparedBy?.company]
+    .filter(Boolean)
+    .join("  •  ");
+  page.text(left, MARGIN, y, { size: 8, color: MUTED, maxWidth: CONTENT_WIDTH - 80 });
+  page.text(`Page ${pageNumber} of ${pageCount}`, PAGE_WIDTH - MARGIN, y, { size: 8, color: MUTED, align: "right" });
+}
+
+export function renderSurveyPdf(input: SurveyPdfInput): Buffer {
+  const document = new PdfDocument(PAGE_WIDTH, PAGE_HEIGHT, {
+    title: input.title,
+    author: input.preparedBy?.company || input.preparedBy?.name || undefined,
+  });
+  const pages: PdfPage[] = [];
+  const addPage = () => {
+    const page = document.addPage();
+    pages.push(page);
+    return page;
+  };
+
+  drawCover(addPage(), input);
+  for (let start = 0; start < Math.max(input.options.length, 1); start += TABLE_ROWS_PER_PAGE) {
+    drawSummaryTable(addPage(), input.options.slice(start, start + TABLE_ROWS_PER_PAGE), start > 0);
+  }
+  drawMap(addPage(), input.options);
+  for (const option of input.options) {
+    drawOptionPage(addPage(), option, input.images.get(option.itemId) || null);
+  }
+
+  pages.forEach((page, index) => {
+    if (index > 0) drawFooter(page, input, index + 1, pages.length);
+  });
+  return document.toBuffer();
+}
+
+export function surveyPdfFileName(title: string): string {
+  const slug = title
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+  return `${slug || "survey"}.pdf`;
+}
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import test from "node:test";
+import {
+  orderSurveyTourStops,
+  renderSurveyTourIcs,
+  scheduleSurveyTour,
+  SURVEY_TOUR_UNKNOWN_LEG_MINUTES,
+  surveyTourIcsFileName,
+  travelMinutesForKm,
+} from "./surveyTour";
+
+// Roughly along Yellowhead Trail, west to east from the office.
+const office = { label: "Office", latitude: 53.5461, longitude: -113.4938 };
+const stops = [
+  { itemId: "far-east", title: "Sherwood Park DC", address: "100 Streambank Ave", latitude: 53.545, longitude: -113.3 },
+  { itemId: "near", title: "Downtown Flex", address: "10150 104 St", latitude: 53.546, longitude: -113.48 },
+  { itemId: "unmapped", title: "Pending address", address: null, latitude: null, longitude: null },
+  { itemId: "mid-east", title: "Clareview Yard", address: "4000 137 Ave", latitude: 53.545, longitude: -113.4 },
+];
+
+test("tour stops are ordered by drive estimate with unmapped stops last", () => {
+  assert.deepEqual(orderSurveyTourStops(office, stops), ["near", "mid-east", "far-east", "unmapped"]);
+
+  // 2-opt removes the crossing a greedy pass leaves behind on a zig-zag.
+  const zigzag = [
+    { itemId: "a", title: "A", address: null, latitude: 53.55, longitude: -113.45 },
+    { itemId: "b", title: "B", address: null, latitude: 53.55, longitude: -113.2 },
+    { itemId: "c", title: "C", address: null, latitude: 53.55, longitude: -113.55 },
+  ];
+  assert.deepEqual(orderSurveyTourStops(office, zigzag), ["c", "a", "b"]);
+});
+
+test("schedules add drive time and minutes per stop from the start time", () => {
+  const ordered = ["near", "mid-east", "unmapped"].map((itemId) => stops.find((stop) => stop.itemId === itemId)!);
+  const schedule = scheduleSurveyTour({
+    start: office,
+    startAt: new Date("2026-06-02T15:00:00.000Z"),
+    minutesPerStop: 30,
+    stops: ordered,
+  });
+
+  const [near, mid, unmapped] = schedule.stops;
+  assert.deepEqual(schedule.stops.map((stop) => stop.number), [1, 2, 3]);
+  assert.equal(near.travelMinutes, travelMinutesForKm(near.travelKm!));
+  assert.equal(Date.parse(near.arriveAt), Date.parse(schedule.startAt) + near.travelMinutes * 60_000);
+  assert.equal(Date.parse(near.departAt) - Date.parse(near.arriveAt), 30 * 60_000);
+  assert.equal(Date.parse(mid.arriveAt), Date.parse(near.departAt) + mid.travelMinutes * 60_000);
+  assert.ok(mid.travelKm! > near.travelKm!);
+
+  assert.equal(unmapped.travelKm, null);
+  assert.equal(unmapped.travelMinutes, SURVEY_TOUR_UNKNOWN_LEG_MINUTES);
+  assert.equal(schedule.endAt, unmapped.departAt);
+  assert.deepEqual(schedule.unmappedItemIds, ["unmapped"]);
+  assert.equal(schedule.totalTravelMinutes, near.travelMinutes + mid.travelMinutes + SURVEY_TOUR_UNKNOWN_LEG_MINUTES);
+});
+
+test("tour calendars hold one escaped, folded event per stop", () => {
+  const schedule = scheduleSurveyTour({
+    start: office,
+    startAt: new Date("2026-06-02T15:00:00.000Z"),
+    minutesPerStop: 45,
+    stops: [
+      { ...stops[1], title: "Downtown Flex; Bay 4, North Building with a very long descriptive name for folding" },
+      stops[3],
+    ],
+  });
+  const ics = renderSurveyTourIcs({
+    surveyId: "survey-1",
+    title: "Acme Tour",
+    schedule,
+    generatedAt: new Date("2026-06-01T00:00:00.000Z"),
+  });
+
+  assert.match(ics, /^BEGIN:VCALENDAR\r\n/);
+  assert.match(ics, /END:VCALENDAR\r\n$/);
+  assert.equal(ics.match(/BEGIN:VEVENT/g)?.length, 2);
+  assert.match(ics, /UID:survey-1-near@level-cre/);
+  assert.match(ics, /DTSTAMP:20260601T000000Z/);
+  assert.match(ics, new RegExp(`DTSTART:${schedule.stops[0].arriveAt.replace(/[-:]/g, "").replace(/\.\d{3}/, "")}`));
+  assert.match(ics, /SUMMARY:Tour stop 1: Downtown Flex\\; Bay 4\\, North/);
+  assert.ok(ics.split("\r\n").every((line) => Buffer.byteLength(line) <= 75));
+  assert.match(ics, /\r\n /);
+
+  assert.equal(surveyTourIcsFileName("Acme Logistics - West Valley"), "acme-logistics-west-valley-tour.ics");
+  assert.equal(surveyTourIcsFileName("***"), "survey-tour.ics");
+});
@@ -0,0 +1,200 @@
+import { haversineDistanceKm } from "@level-cre/shared";
+
+export type SurveyTourStart = {
+  label: string | null;
+  latitude: number;
+  longitude: number;
+};
+
+export type SurveyTourStopInput = {
+  itemId: string;
+  title: string;
+  address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+};
+
+export type SurveyTourStop = SurveyTourStopInput & {
+  number: number;
+  // Null when either end of the leg has no coordinates.
+  travelKm: number | null;
+  travelMinutes: number;
+  arriveAt: string;
+  departAt: string;
+};
+
+export type SurveyTourSchedule = {
+  startAt: string;
+  endAt: string;
+  totalKm: number;
+  totalTravelMinutes: number;
+  stops: SurveyTourStop[];
+  unmappedItemIds: string[];
+};
+
+// Straight-line distance understates driving, so legs are stretched by a road
+// factor and driven at a city/highway blend. Good enough to space a schedule.
+export const SURVEY_TOUR_ROAD_FACTOR = 1.3;
+export const SURVEY_TOUR_AVERAGE_SPEED_KMH = 45;
+// Legs we cannot measure still need time in the schedule.
+export const SURVEY_TOUR_UNKNOWN_LEG_MINUTES = 15;
+
+type Point = { latitude: number; longitude: number };
+
+function hasPoint<T extends { latitude: number | null; longitude: number | null }>(stop: T): stop is T & Point {
+  return typeof stop.latitude === "number" && typeof stop.longitude === "number";
+}
+
+function legKm(from: Point, to: Point) {
+  return haversineDistanceKm([from.longitude, from.latitude], [to.longitude, to.latitude]) * SURVEY_TOUR_ROAD_FACTOR;
+}
+
+export function travelMinutesForKm(km: number): number {
+  return Math.ceil((km / SURVEY_TOUR_AVERAGE_SPEED_KMH) * 60);
+}
+
+function pathKm(start: Point, stops: Point[]) {
+  let total = 0;
+  let previous = start;
+  for (const stop of stops) {
+    total += legKm(previous, stop);
+    previous = stop;
+  }
+  return total;
+}
+
+/**
+ * Orders stops for an open tour that leaves from `start` and ends at the last
+ * stop: nearest neighbour first, then 2-opt swaps until no reversal shortens
+ * the drive. Stops without coordinates keep their given order at the end.
+ */
+export function orderSurveyTourStops(start: Point, stops: SurveyTourStopInput[]): string[] {
+  const remaining = stops.filter(hasPoint);
+  const unmapped = stops.filter((stop) => !hasPoint(stop));
+  const route: Array<SurveyTourStopInput & Point> = [];
+  let current: Point = start;
+  while (remaining.length > 0) {
+    let nearest = 0;
+    for (let index = 1; index < remaining.length; index += 1) {
+      if (legKm(current, remaining[index]) < legKm(current, remaining[nearest])) nearest = index;
+    }
+    const [next] = remaining.splice(nearest, 1);
+    route.push(next);
+    current = next;
+  }
+
+  let improved = route.length > 2;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < route.length - 1; i += 1) {
+      for (let j = i + 1; j < route.length; j += 1) {
+        const candidate = [...route.slice(0, i), ...route.slice(i, j + 1).reverse(), ...route.slice(j + 1)];
+        if (pathKm(start, candidate) < pathKm(start, route) - 1e-9) {
+          route.splice(0, route.length, ...candidate);
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return [...route, ...unmapped].map((stop) => stop.itemId);
+}
+
+/** Times each stop in the given order: drive, then `minutesPerStop` on site. */
+export function scheduleSurveyTour(input: {
+  start: SurveyTourStart;
+  startAt: Date;
+  minutesPerStop: number;
+  stops: SurveyTourStopInput[];
+}): SurveyTourSchedule {
+  let clock = input.startAt.getTime();
+  let previous: Point | null = input.start;
+  let totalKm = 0;
+  let totalTravelMinutes = 0;
+
+  const stops = input.stops.map((stop, index): SurveyTourStop => {
+    const km = previous && hasPoint(stop) ? legKm(previous, stop) : null;
+    const travelMinutes = km === null ? SURVEY_TOUR_UNKNOWN_LEG_MINUTES : travelMinutesForKm(km);
+    const arriveAt = clock + travelMinutes * 60_000;
+    const departAt = arriveAt + input.minutesPerStop * 60_000;
+    clock = departAt;
+    previous = hasPoint(stop) ? stop : null;
+    totalKm += km ?? 0;
+    totalTravelMinutes += travelMinutes;
+    return {
+      ...stop,
+      number: index + 1,
+      travelKm: km === null ? null : Math.round(km * 10) / 10,
+      travelMinutes,
+      arriveAt: new Date(arriveAt).toISOString(),
+      departAt: new Date(departAt).toISOString(),
+    };
+  });
+
+  return {
+    startAt: input.startAt.toISOString(),
+    endAt: new Date(clock).toISOString(),
+    totalKm: Math.round(totalKm * 10) / 10,
+    totalTravelMinutes,
+    stops,
+    unmappedItemIds: input.stops.filter((stop) => !hasPoint(stop)).map((stop) => stop.itemId),
+  };
+}
+
+function icsText(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/\r?\n/g, "\\n").replace(/([,;])/g, "\\$1");
+}
+
+function icsTime(value: string) {
+  return value.replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// RFC 5545 caps content lines at 75 octets; continuation lines start with a space.
+function foldIcsLine(line: string) {
+  const parts: string[] = [];
+  let rest = line;
+  while (Buffer.byteLength(rest, "utf8") > 75) {
+    let cut = 75;
+    while (Buffer.byteLength(rest.slice(0, cut), "utf8") > 75) cut -= 1;
+    parts.push(rest.slice(0, cut));
+    rest = ` ${rest.slice(cut)}`;
+  }
+  parts.push(rest);
+  return parts.join("\r\n");
+}
+
+/** One calendar event per stop so each visit lands in the client's calendar with its address. */
+export function renderSurveyTourIcs(input: {
+  surveyId: string;
+  title: string;
+  schedule: SurveyTourSchedule;
+  generatedAt?: Date;
+}): string {
+  const stamp = icsTime((input.generatedAt ?? new Date()).toISOString());
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//Level CRE//Survey Tour//EN", "CALSCALE:GREGORIAN", "METHOD:PUBLISH"];
+  lines.push(`X-WR-CALNAME:${icsText(input.title)}`);
+  for (const stop of input.schedule.stops) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${input.surveyId}-${stop.itemId}@level-cre`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsTime(stop.arriveAt)}`,
+      `DTEND:${icsTime(stop.departAt)}`,
+      `SUMMARY:${icsText(`Tour stop ${stop.number}: ${stop.title}`)}`,
+    );
+    if (stop.address) lines.push(`LOCATION:${icsText(stop.address)}`);
+    if (stop.latitude !== null && stop.longitude !== null) lines.push(`GEO:${stop.latitude};${stop.longitude}`);
+    lines.push(`DESCRIPTION:${icsText(`${input.title} - stop ${stop.number} of ${input.schedule.stops.length}`)}`, "END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldIcsLine).join("\r\n")}\r\n`;
+}
+
+export function surveyTourIcsFileName(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+  return `${slug || "survey"}-tour.ics`;
+}
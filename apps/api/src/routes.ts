@@ -51,6 +51,8 @@ import path from 'path';
 import { XP_VALUES, actionForInteractionType, xpForInteractionType } from './lib/gamification';
 import { ProspectReferenceError, requireActiveOwnedProspect } from './lib/prospectReferenceService';
 import { registerIndustrialIntelRoutes } from './modules/industrial-intel/registerRoutes';
+import { industrialIntelService } from './modules/industrial-intel/service';
+import { EMAIL_ATTACHMENT_MAX_BYTES, type EmailAttachmentInput } from './modules/industrial-intel/emailAttachments';
 import {
   buildDataQualityReview,
   buildFollowUpReview,
@@ -92,6 +94,23 @@ import {
   createPursuitShareToken,
   isValidPursuitShareToken,
 } from './lib/pursuitPublicShareService';
+import {
+  SHARE_CREATED_ACTION,
+  SHARE_ITEM_OPENED_ACTION,
+  SHARE_REVOKED_ACTION,
+  SHARE_SETTINGS_ACTION,
+  SHARE_UNLOCK_FAILED_ACTION,
+  SHARE_VIEW_ACTION,
+  checkShareLinkAccess,
+  createShareAccessGrant,
+  describeShareUnlockFailure,
+  hashSharePasscode,
+  readShareAccessGrant,
+  shareUnlockThrottle,
+  shareViewLimiter,
+  summarizeShareEngagement,
+  verifySharePasscode,
+} from './lib/shareLinkAccess';
 import { buildAutomationReconciliation } from './lib/automationReconciliation';
 import { rankEmailCleanup, rankFollowUpReminder } from './lib/salesBriefRanking';
 import { findSupabaseAuthUserByEmail } from './lib/supabaseAuthUsers';
@@ -113,6 +132,93 @@ import {
   listOpportunities,
   recordOpportunityPlaybookStep,
 } from './lib/opportunityService';
+import {
+  CompAnalyticsQuerySchema,
+  compAnalyticsRowsFromComps,
+  loadCompAnalyticsRows,
+  summarizeCompAnalytics,
+} from './lib/compAnalyticsService';
+import {
+  OwnerPortfolioError,
+  OwnerPortfolioPitchSchema,
+  OwnerPortfolioQuerySchema,
+  getOwnerPortfolio,
+  listOwnerPortfolios,
+  pitchOwnerPortfolio,
+} from './lib/ownerPortfolioService';
+import {
+  DealCreateSchema,
+  DealImportSchema,
+  DealListQuerySchema,
+  DealServiceError,
+  DealUpdateSchema,
+  createDeal,
+  deleteDeal,
+  getTrackRecordSummary,
+  importDeals,
+  listDeals,
+  updateDeal,
+} from './lib/dealService';
+import {
+  BovCandidateQuerySchema,
+  BovWorksheetCreateSchema,
+  BovWorksheetError,
+  BovWorksheetListQuerySchema,
+  BovWorksheetVersionSchema,
+  createBovWorksheet,
+  deleteBovWorksheet,
+  exportBovWorksheetCsv,
+  getBovWorksheet,
+  listBovWorksheets,
+  saveBovWorksheetVersion,
+  searchBovCandidates,
+} from './lib/bovWorksheetService';
+import {
+  ContactCreateSchema,
+  ContactDirectoryError,
+  ContactLinkSchema,
+  ContactListQuerySchema,
+  ContactUpdateSchema,
+  backfillContactDirectory,
+  createContact,
+  getCompanyDetail,
+  getContactDetail,
+  linkContact,
+  listContacts,
+  unlinkContact,
+  updateContact,
+} from './lib/contactDirectoryService';
+import { emptyTrackRecordMetrics, getLifetimeProductionBadge } from './lib/trackRecordMetrics';
+import { DEFAULT_RENEWAL_LEAD_MONTHS } from './lib/renewalRadar';
+import { RenewalRadarSettingsSchema, syncRenewalRadar, updateRenewalLeadMonths } from './lib/renewalRadarService';
+import { fetchGraphFileAttachments, graphGet, microsoftGraphBaseUrl } from './lib/microsoftGraph';
+import {
+  OUTLOOK_CALENDAR_SCOPE,
+  OUTLOOK_CALENDAR_SOURCE,
+  captureOutlookCalendarMeetings,
+} from './lib/outlookCalendarCapture';
+import {
+  loadOutlookSyncCursor,
+  runOutlookFolderDelta,
+  saveOutlookFolderCursor,
+} from './lib/outlookDeltaSync';
+import {
+  EMAIL_SYNC_PROVIDERS,
+  EmailConnectionAuthError,
+  isEmailConnectionAuthFailure,
+  isEmailSyncProvider,
+  loadEmailSyncCursor,
+  normalizeEmailAddress,
+  saveEmailSyncCursorEntry,
+  type EmailSyncMode,
+  type EmailSyncProvider,
+  type EmailSyncProviderName,
+  type SyncedEmailMessage,
+} from './lib/emailSyncProvider';
+import { createOutlookMailProvider, parseGraphRecipientEmails, stableOutlookMessageId } from './lib/outlookMailProvider';
+import { GMAIL_SCOPES, createGmailMailProvider, gmailApiBaseUrl, gmailGet } from './lib/gmailMailProvider';
+import { ImapCredentialsSchema, connectImapMailbox, createImapMailProvider } from './lib/imapMailProvider';
+import { ImapLoginError } from './lib/imapClient';
 import { resolveMarketEntitiesForUser } from './lib/marketEntityResolver';
 import {
   MarketRecordProposalInputSchema,
@@ -168,6 +274,11 @@ const PursuitBulkImportSchema = z.object({
   records: z.array(PursuitBulkImportRecordSchema).min(1).max(200),
 });
 
+const PursuitShareSettingsSchema = z.object({
+  expiresAt: z.string().datetime({ offset: true }).nullable().optional(),
+  passcode: z.string().trim().min(4).max(200).nullable().optional(),
+});
+
 function normalizeImportedProspectAddress(value: unknown): string {
   const firstLine = String(value ?? '').split(',')[0] || '';
   return firstLine
@@ -354,6 +465,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         CREATE UNIQUE INDEX IF NOT EXISTS "UQ_listing_public_shares_token"
           ON public.listing_public_shares(token);
       `);
+      await pool.query(`
+        ALTER TABLE public.listing_public_shares
+          ADD COLUMN IF NOT EXISTS expires_at timestamp with time zone,
+          ADD COLUMN IF NOT EXISTS passcode_hash varchar;
+      `);
+      // Same shape as intel_survey_events, keyed by listing instead of survey.
+      await pool.query(`
+        CREATE TABLE IF NOT EXISTS public.listing_public_share_events (
+          id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+          listing_id varchar NOT NULL REFERENCES public.listings(id) ON DELETE CASCADE,
+          actor_type varchar NOT NULL DEFAULT 'user',
+          actor_user_id varchar,
+          action varchar NOT NULL,
+          summary text,
+          payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+          created_at timestamp with time zone NOT NULL DEFAULT now()
+        );
+      `);
+      await pool.query(`
+        CREATE INDEX IF NOT EXISTS "IDX_listing_public_share_events_listing"
+          ON public.listing_public_share_events(listing_id, created_at DESC);
+      `);
     } catch (error: any) {
       console.error('Failed to ensure listing_public_shares table:', error?.message || error);
     }
@@ -361,6 +494,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   await ensureListingPublicSharesTable();
 
+  async function logListingShareEvent(
+    listingId: string,
+    actor: { type: 'user' | 'client'; userId: string | null },
+    action: string,
+    summary: string | null,
+    payload: Record<string, unknown> = {},
+  ): Promise<void> {
+    await pool.query(`
+      INSERT INTO public.listing_public_share_events (listing_id, actor_type, actor_user_id, action, summary, payload)
+      VALUES ($1, $2, $3, $4, $5, $6::jsonb)
+    `, [listingId, actor.type, actor.userId, action, summary, JSON.stringify(payload)]);
+  }
+
+  // Resolves an enabled pursuit link and checks its expiry and passcode.
+  // Archived pursuits read as missing, the same as a revoked link.
+  async function getListingPublicShareAccess(token: unknown, access: string | null) {
+    if (!isValidPursuitShareToken(token)) return null;
+    const result = await pool.query(`
+      SELECT share.listing_id, share.expires_at, share.passcode_hash
+      FROM public.listing_public_shares share
+      INNER JOIN public.listings l ON l.id = share.listing_id
+      WHERE share.token = $1
+        AND share.enabled = true
+        AND l.archived_at IS NULL
+      LIMIT 1
+    `, [token]);
+    const row = result.rows[0];
+    if (!row) return null;
+    return {
+      listingId: String(row.listing_id),
+      passcodeHash: (row.passcode_hash as string | null) || null,
+      access: checkShareLinkAccess({ expiresAt: row.expires_at, passcodeHash: row.passcode_hash || null }, token, access),
+    };
+  }
+
+  function formatListingShareRow(row: any) {
+    return {
+      enabled: Boolean(row?.enabled),
+      token: row?.enabled ? row.token : null,
+      expiresAt: row?.expires_at || null,
+      hasPasscode: Boolean(row?.passcode_hash),
+      createdAt: row?.created_at || null,
+      updatedAt: row?.updated_at || null,
+    };
+  }
+
   async function ensureEmailIntegrationTables(): Promise<void> {
     try {
       const candidatePaths = [
@@ -409,7 +588,127 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   await ensureActivityEventTables();
 
-  const OUTLOOK_SCOPES = ['offline_access', 'User.Read', 'Mail.Read'];
+  async function ensureDealTables(): Promise<void> {
+    try {
+      const candidatePaths = [
+        path.resolve(process.cwd(), 'drizzle/0026_track_record_deals.sql'),
+        path.resolve(process.cwd(), '../../drizzle/0026_track_record_deals.sql'),
+      ];
+      const migrationPath = candidatePaths.find((candidate) => fs.existsSync(candidate));
+      if (!migrationPath) return;
+      await pool.query(fs.readFileSync(migrationPath, 'utf8'));
+    } catch (error: any) {
+      console.error('Failed to ensure track record deal tables:', error?.message || error);
+    }
+  }
+
+  await ensureDealTables();
+
+  async function ensureRenewalRadarColumns(): Promise<void> {
+    try {
+      const candidatePaths = [
+        path.resolve(process.cwd(), 'drizzle/0027_renewal_radar.sql'),
+        path.resolve(process.cwd(), '../../drizzle/0027_renewal_radar.sql'),
+      ];
+      const migrationPath = candidatePaths.find((candidate) => fs.existsSync(candidate));
+      if (!migrationPath) return;
+      await pool.query(fs.readFileSync(migrationPath, 'utf8'));
+    } catch (error: any) {
+      console.error('Failed to ensure renewal radar columns:', error?.message || error);
+    }
+  }
+
+  await ensureRenewalRadarColumns();
+
+  async function ensureOutlookDeltaSyncColumns(): Promise<void> {
+    try {
+      const candidatePaths = [
+        path.resolve(process.cwd(), 'drizzle/0028_outlook_delta_sync.sql'),
+        path.resolve(process.cwd(), '../../drizzle/0028_outlook_delta_sync.sql'),
+      ];
+      const migrationPath = candidatePaths.find((candidate) => fs.existsSync(candidate));
+      if (!migrationPath) return;
+      await pool.query(fs.readFileSync(migrationPath, 'utf8'));
+    } catch (error: any) {
+      console.error('Failed to ensure Outlook delta sync columns:', error?.message || error);
+    }
+  }
+
+  await ensureOutlookDeltaSyncColumns();
+
+  async function ensureContactDirectoryTables(): Promise<void> {
+    try {
+      const candidatePaths = [
+        path.resolve(process.cwd(), 'drizzle/0030_contacts_companies.sql'),
+        path.resolve(process.cwd(), '../../drizzle/0030_contacts_companies.sql'),
+      ];
+      const migrationPath = candidatePaths.find((candidate) => fs.existsSync(candidate));
+      if (!migrationPath) return;
+      await pool.query(fs.readFileSync(migrationPath, 'utf8'));
+    } catch (error: any) {
+      console.error('Failed to ensure contact directory tables:', error?.message || error);
+    }
+  }
+
+  await ensureContactDirectoryTables();
+
+  async function ensureMarketCompEconomicsColumns(): Promise<void> {
+    try {
+      const candidatePaths = [
+        path.resolve(process.cwd(), 'drizzle/0032_market_comp_economics.sql'),
+        path.resolve(process.cwd(), '../../drizzle/0032_market_comp_economics.sql'),
+      ];
+      const migrationPath = candidatePaths.find((candidate) => fs.existsSync(candidate));
+      if (!migrationPath) return;
+      await pool.query(fs.readFileSync(migrationPath, 'utf8'));
+    } catch (error: any) {
+      console.error('Failed to ensure market comp economics columns:', error?.message || error);
+    }
+  }
+
+  await ensureMarketCompEconomicsColumns();
+
+  async function ensureMarketCompLeaseEconomicsColumns(): Promise<void> {
+    try {
+      const candidatePaths = [
+        path.resolve(process.cwd(), 'drizzle/0034_market_comp_lease_economics.sql'),
+        path.resolve(process.cwd(), '../../drizzle/0034_market_comp_lease_economics.sql'),
+      ];
+      const migrationPath = candidatePaths.find((candidate) => fs.existsSync(candidate));
+      if (!migrationPath) return;
+      await pool.query(fs.readFileSync(migrationPath, 'utf8'));
+    } catch (error: any) {
+      console.error('Failed to ensure market comp lease economics columns:', error?.message || error);
+    }
+  }
+
+  await ensureMarketCompLeaseEconomicsColumns();
+
+  async function ensureBovWorksheetTables(): Promise<void> {
+    try {
+      const candidatePaths = [
+        path.resolve(process.cwd(), 'drizzle/0033_bov_worksheets.sql'),
+        path.resolve(process.cwd(), '../../drizzle/0033_bov_worksheets.sql'),
+      ];
+      const migrationPath = candidatePaths.find((candidate) => fs.existsSync(candidate));
+      if (!migrationPath) return;
+      await pool.query(fs.readFileSync(migrationPath, 'utf8'));
+    } catch (error: any) {
+      console.error('Failed to ensure BOV worksheet tables:', error?.message || error);
+    }
+  }
+
+  await ensureBovWorksheetTables();
+
+  // Calendar access is an explicit second consent, so mail connections made
+  // before calendar sync existed keep refreshing with the scopes they granted.
+  const OUTLOOK_MAIL_SCOPES = ['offline_access', 'User.Read', 'Mail.Read'];
+  const OUTLOOK_CALENDAR_SCOPES = [...OUTLOOK_MAIL_SCOPES, OUTLOOK_CALENDAR_SCOPE];
+
+  function grantedOutlookScopes(scopes: unknown): string[] {
+    const granted = Array.isArray(scopes) ? scopes.filter((scope): scope is string => typeof scope === 'string') : [];
+    return granted.length > 0 ? granted : OUTLOOK_MAIL_SCOPES;
+  }
 
   function getOutlookConfig(req?: Request) {
     const tenantId = process.env.OUTLOOK_TENANT_ID || process.env.MICROSOFT_TENANT_ID || 'common';
@@ -433,6 +732,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     };
   }
 
+  function getGmailConfig(req?: Request) {
+    const clientId = process.env.GMAIL_CLIENT_ID || process.env.GOOGLE_CLIENT_ID || '';
+    const clientSecret = process.env.GMAIL_CLIENT_SECRET || process.env.GOOGLE_CLIENT_SECRET || '';
+    const baseUrl =
+      process.env.GMAIL_REDIRECT_BASE_URL ||
+      process.env.EMAIL_OAUTH_REDIRECT_BASE_URL ||
+      process.env.PUBLIC_APP_URL ||
+      (req ? `${req.protocol}://${req.get('host')}` : '');
+    return {
+      clientId,
+      clientSecret,
+      configured: Boolean(clientId && clientSecret && baseUrl),
+      redirectUri: `${String(baseUrl).replace(/\/$/, '')}/api/email/gmail/callback`,
+      authorizeUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+      tokenUrl: 'https://oauth2.googleapis.com/token',
+    };
+  }
+
+  type EmailOAuthProvider = 'outlook' | 'gmail';
+
+  const EMAIL_OAUTH_LABELS: Record<EmailOAuthProvider, string> = { outlook: 'Outlook', gmail: 'Gmail' };
+
+  function getEmailOAuthConfig(provider: EmailOAuthProvider, req?: Request) {
+    return provider === 'gmail' ? getGmailConfig(req) : getOutlookConfig(req);
+  }
+
   function getEmailTokenKey() {
     const raw =
       process.env.EMAIL_TOKEN_ENCRYPTION_KEY ||
@@ -488,53 +813,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return parsed;
   }
 
-  async function exchangeOutlookCode(req: Request, code: string) {
-    const config = getOutlookConfig(req);
+  // Microsoft wants the scopes repeated on every token request, and rejects a
+  // refresh that asks for more than the user consented to; Google keeps the
+  // ones granted at consent.
+  async function requestEmailOAuthToken(
+    provider: EmailOAuthProvider,
+    grant: Record<string, string>,
+    scopes: string[],
+    req?: Request,
+  ) {
+    const config = getEmailOAuthConfig(provider, req);
     const body = new URLSearchParams({
       client_id: config.clientId,
       client_secret: config.clientSecret,
-      code,
-      redirect_uri: config.redirectUri,
-      grant_type: 'authorization_code',
-      scope: OUTLOOK_SCOPES.join(' '),
+      ...grant,
     });
+    if (provider === 'outlook') body.set('scope', scopes.join(' '));
     const response = await fetch(config.tokenUrl, {
       method: 'POST',
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
       body,
     });
     const json = await response.json();
-    if (!response.ok) throw new Error(json.error_description || json.error || 'Outlook token exchange failed');
+    if (!response.ok) {
+      const action = grant.grant_type === 'refresh_token' ? 'refresh' : 'exchange';
+      const message = json.error_description || json.error || `${EMAIL_OAUTH_LABELS[provider]} token ${action} failed`;
+      // 400 and 401 are the OAuth verdicts on the grant itself (invalid_grant, revoked consent).
+      if (response.status === 400 || response.status === 401) throw new EmailConnectionAuthError(message);
+      throw new Error(message);
+    }
     return json;
   }
 
-  async function refreshOutlookToken(connectionId: string, userId: string) {
+  async function exchangeEmailOAuthCode(provider: EmailOAuthProvider, req: Request, code: string, scopes = OUTLOOK_MAIL_SCOPES) {
+    return requestEmailOAuthToken(provider, {
+      code,
+      redirect_uri: getEmailOAuthConfig(provider, req).redirectUri,
+      grant_type: 'authorization_code',
+    }, scopes, req);
+  }
+
+  async function refreshEmailAccessToken(connectionId: string, userId: string, provider: EmailOAuthProvider) {
+    const label = EMAIL_OAUTH_LABELS[provider];
     const { rows } = await pool.query(`
-      SELECT token_ciphertext FROM public.email_connections
-      WHERE id = $1 AND user_id = $2 AND provider = 'outlook'
-    `, [connectionId, userId]);
+      SELECT token_ciphertext, scopes FROM public.email_connections
+      WHERE id = $1 AND user_id = $2 AND provider = $3
+    `, [connectionId, userId, provider]);
     const connection = rows[0];
-    if (!connection?.token_ciphertext) throw new Error('Outlook connection has no stored token');
+    if (!connection?.token_ciphertext) throw new EmailConnectionAuthError(`${label} connection has no stored token`);
     const tokens = decryptJson<any>(connection.token_ciphertext);
     if (tokens.access_token && tokens.expires_at && Number(tokens.expires_at) - Date.now() > 60_000) {
       return tokens.access_token as string;
     }
-    if (!tokens.refresh_token) throw new Error('Outlook connection needs reauthorization');
-    const config = getOutlookConfig();
-    const body = new URLSearchParams({
-      client_id: config.clientId,
-      client_secret: config.clientSecret,
+    if (!tokens.refresh_token) throw new EmailConnectionAuthError(`${label} connection needs reauthorization`);
+    const json = await requestEmailOAuthToken(provider, {
       refresh_token: tokens.refresh_token,
       grant_type: 'refresh_token',
-      scope: OUTLOOK_SCOPES.join(' '),
-    });
-    const response = await fetch(config.tokenUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      body,
-    });
-    const json = await response.json();
-    if (!response.ok) throw new Error(json.error_description || json.error || 'Outlook token refresh failed');
+    }, grantedOutlookScopes(connection.scopes));
     const nextTokens = {
       ...tokens,
       ...json,
@@ -549,23 +884,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return nextTokens.access_token as string;
   }
 
-  async function graphGet(accessToken: string, url: string) {
-    const response = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        Prefer: 'IdType="ImmutableId"',
-      },
-    });
-    const json = await response.json();
-    if (!response.ok) throw new Error(json.error?.message || json.error_description || 'Microsoft Graph request failed');
-    return json;
-  }
-
-  function stableOutlookMessageId(message: any): string {
-    const internetMessageId = String(message?.internetMessageId || '').trim();
-    return internetMessageId ? `internet-message:${internetMessageId}` : String(message?.id || '').trim();
-  }
-
   async function reconcileCapturedEmailWithCodex(
     userId: string,
     emailMessageId: string,
@@ -1099,6 +1417,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return { emailMessageId, inserted: isNewMessage, ...processed };
   }
 
+  // Attachment capture never fails the email it came with: the message and
+  // its match are already stored, and a storage outage only costs the files.
+  async function captureEmailMessageAttachments(
+    userId: string,
+    emailMessageId: string,
+    messageData: any,
+    attachments: EmailAttachmentInput[],
+  ) {
+    if (attachments.length === 0) return null;
+    try {
+      const { rows } = await pool.query(`
+        SELECT p.id, p.name, p.address
+        FROM public.email_prospect_matches epm
+        JOIN public.prospects p ON p.id = epm.prospect_id AND p.user_id = epm.user_id
+        WHERE epm.user_id = $1 AND epm.email_message_id = $2 AND p.merged_into_prospect_id IS NULL
+        ORDER BY (epm.interaction_id IS NOT NULL) DESC, epm.updated_at DESC NULLS LAST
+        LIMIT 1
+      `, [userId, emailMessageId]);
+      return await industrialIntelService.captureEmailAttachments(userId, {
+        emailMessageId,
+        prospect: rows[0] || null,
+        subject: messageData.subject,
+        snippet: messageData.snippet,
+        attachments,
+      });
+    } catch (error: any) {
+      console.error('Failed to capture email attachments:', error?.message || error);
+      return null;
+    }
+  }
+
   function getInboundWebhookSecret() {
     return process.env.EMAIL_INBOUND_WEBHOOK_SECRET || process.env.INBOUND_EMAIL_WEBHOOK_SECRET || '';
   }
@@ -1158,15 +1507,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       .filter((part) => /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(part))));
   }
 
-  function parseGraphRecipientEmails(value: unknown): string[] {
-    if (!Array.isArray(value)) return [];
-    return Array.from(new Set(value.flatMap((recipient: any) => {
-      const address = String(recipient?.emailAddress?.address || '').trim().toLowerCase();
-      const nameEmails = parseEmailAddresses(recipient?.emailAddress?.name);
-      return [address, ...nameEmails].filter((part) => /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(part));
-    })));
-  }
-
   function parsePostmarkAddressList(value: unknown): string[] {
     if (!Array.isArray(value)) return [];
     return Array.from(new Set(value
@@ -1270,11 +1610,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const connectionResult = await pool.query(`
         SELECT user_id AS id FROM public.email_connections
-        WHERE provider = 'outlook'
+        WHERE provider = ANY($2::varchar[])
           AND lower(email_address) = $1
         ORDER BY updated_at DESC NULLS LAST, created_at DESC NULLS LAST
         LIMIT 1
-      `, [normalized]);
+      `, [normalized, EMAIL_SYNC_PROVIDERS]);
       return connectionResult.rows[0]?.id || '';
     } catch (error) {
       console.warn('Inbound sender lookup against email_connections failed', {
@@ -1285,14 +1625,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   }
 
-  async function findSoleConnectedOutlookUserId() {
+  async function findSoleConnectedMailboxUserId() {
     const result = await pool.query(`
       SELECT DISTINCT user_id AS id
       FROM public.email_connections
-      WHERE provider = 'outlook'
+      WHERE provider = ANY($1::varchar[])
         AND status = 'connected'
       LIMIT 2
-    `);
+    `, [EMAIL_SYNC_PROVIDERS]);
     return result.rows.length === 1 ? result.rows[0].id : '';
   }
 
@@ -1333,7 +1673,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const soleUserId = await findSoleLevelCreUserId();
       if (soleUserId) return soleUserId;
     }
-    return await findSoleConnectedOutlookUserId();
+    return await findSoleConnectedMailboxUserId();
   }
 
   function normalizeInboundPayload(payload: any, userId: string) {
@@ -1382,6 +1722,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
     };
   }
 
+  function parseInboundAttachments(payload: any): EmailAttachmentInput[] {
+    const items = Array.isArray(payload?.Attachments) ? payload.Attachments
+      : Array.isArray(payload?.attachments) ? payload.attachments
+        : [];
+    return items
+      .map((item: any) => {
+        const content = typeof (item?.Content ?? item?.content) === 'string' ? item.Content ?? item.content : '';
+        return {
+          fileName: String(item?.Name || item?.name || item?.filename || '').trim(),
+          contentType: String(item?.ContentType || item?.contentType || item?.type || ''),
+          content: Buffer.from(content, 'base64'),
+          inline: Boolean(item?.ContentID || item?.contentId),
+        };
+      })
+      .filter((item: EmailAttachmentInput) => item.fileName && item.content.length > 0);
+  }
+
   function mapProspectRow(row: any) {
     const parsedSize = row.building_sf !== null && row.building_sf !== undefined && row.building_sf !== ''
       ? Number(row.building_sf)
@@ -3187,21 +3544,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       await requireOwnerAccess(req, req.params.id);
       if (isDemo(req)) {
-        return res.json({ enabled: false, token: null, createdAt: null, updatedAt: null });
+        return res.json({ enabled: false, token: null, expiresAt: null, hasPasscode: false, createdAt: null, updatedAt: null });
       }
       const result = await pool.query(`
-        SELECT token, enabled, created_at, updated_at
+        SELECT token, enabled, expires_at, passcode_hash, created_at, updated_at
         FROM public.listing_public_shares
         WHERE listing_id = $1
         LIMIT 1
       `, [req.params.id]);
-      const row = result.rows[0];
-      res.json({
-        enabled: Boolean(row?.enabled),
-        token: row?.enabled ? row.token : null,
-        createdAt: row?.created_at || null,
-        updatedAt: row?.updated_at || null,
-      });
+      res.json(formatListingShareRow(result.rows[0]));
     } catch (error: any) {
       const status = (error && typeof error === 'object' && error.status) || 500;
       if (status !== 500) return res.status(status).json({ message: 'Forbidden' });
@@ -3235,15 +3586,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
           token = EXCLUDED.token,
           enabled = true,
           updated_at = now()
-        RETURNING token, enabled, created_at, updated_at
+        RETURNING token, enabled, expires_at, passcode_hash, created_at, updated_at
       `, [req.params.id, token, getUserId(req)]);
-      const row = result.rows[0];
-      res.status(existingRow ? 200 : 201).json({
-        enabled: true,
-        token: row.token,
-        createdAt: row.created_at,
-        updatedAt: row.updated_at,
-      });
+      if (token !== existingRow?.token) {
+        const actor = { type: 'user' as const, userId: getUserId(req) };
+        if (existingRow?.enabled) {
+          await logListingShareEvent(req.params.id, actor, SHARE_REVOKED_ACTION, 'Client link replaced', { reason: 'rotated' });
+        }
+        await logListingShareEvent(req.params.id, actor, SHARE_CREATED_ACTION, 'Client link created');
+      }
+      res.status(existingRow ? 200 : 201).json(formatListingShareRow(result.rows[0]));
     } catch (error: any) {
       const status = (error && typeof error === 'object' && error.status) || 500;
       if (status !== 500) return res.status(status).json({ message: 'Forbidden' });
@@ -3256,11 +3608,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       await requireOwnerAccess(req, req.params.id);
       if (isDemo(req)) return res.status(204).send();
-      await pool.query(`
+      const revoked = await pool.query(`
         UPDATE public.listing_public_shares
         SET enabled = false, token = $2, updated_at = now()
         WHERE listing_id = $1
+          AND enabled = true
       `, [req.params.id, createPursuitShareToken()]);
+      if (revoked.rowCount) {
+        await logListingShareEvent(
+          req.params.id,
+          { type: 'user', userId: getUserId(req) },
+          SHARE_REVOKED_ACTION,
+          'Client link revoked',
+          { reason: 'revoked' },
+        );
+      }
       res.status(204).send();
     } catch (error: any) {
       const status = (error && typeof error === 'object' && error.status) || 500;
@@ -3270,10 +3632,178 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.put('/api/listings/:id/public-share/settings', requireAuth, async (req, res) => {
+    try {
+      await requireOwnerAccess(req, req.params.id);
+      if (isDemo(req)) {
+        return res.status(400).json({ message: 'Client activity links are unavailable in demo mode.' });
+      }
+      const parsed = PursuitShareSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid link settings', error: parsed.error.errors });
+      }
+      const { expiresAt, passcode } = parsed.data;
+      const result = await pool.query(`
+        UPDATE public.listing_public_shares
+        SET
+          expires_at = CASE WHEN $2::boolean THEN $3::timestamptz ELSE expires_at END,
+          passcode_hash = CASE WHEN $4::boolean THEN $5 ELSE passcode_hash END,
+          updated_at = now()
+        WHERE listing_id = $1
+        RETURNING token, enabled, expires_at, passcode_hash, created_at, updated_at
+      `, [
+        req.params.id,
+        expiresAt !== undefined,
+        expiresAt ?? null,
+        passcode !== undefined,
+        passcode ? hashSharePasscode(passcode) : null,
+      ]);
+      if (!result.rows[0]) return res.status(404).json({ message: 'Client activity link not found' });
+      const passcodeChange = passcode === undefined ? 'unchanged' : passcode ? 'set' : 'cleared';
+      const changes = [
+        expiresAt === undefined ? null : expiresAt ? `expires ${expiresAt.slice(0, 10)}` : 'expiry removed',
+        passcodeChange === 'unchanged' ? null : `passcode ${passcodeChange}`,
+      ].filter(Boolean);
+      await logListingShareEvent(
+        req.params.id,
+        { type: 'user', userId: getUserId(req) },
+        SHARE_SETTINGS_ACTION,
+        changes.length > 0 ? `Client link ${changes.join(', ')}` : 'Updated client link settings',
+        { expiresAt: result.rows[0].expires_at ?? null, passcode: passcodeChange },
+      );
+      res.json(formatListingShareRow(result.rows[0]));
+    } catch (error: any) {
+      const status = (error && typeof error === 'object' && error.status) || 500;
+      if (status !== 500) return res.status(status).json({ message: 'Forbidden' });
+      console.error('Error updating pursuit public share settings:', error);
+      res.status(500).json({ message: 'Failed to update client activity link' });
+    }
+  });
+
+  app.get('/api/listings/:id/public-share/engagement', requireAuth, async (req, res) => {
+    try {
+      await requireOwnerAccess(req, req.params.id);
+      if (isDemo(req)) {
+        return res.json({ viewCount: 0, firstViewedAt: null, lastViewedAt: null, openedItems: [], history: [] });
+      }
+      const [eventResult, prospectResult] = await Promise.all([
+        pool.query(`
+          SELECT id, action, summary, payload, created_at
+          FROM public.listing_public_share_events
+          WHERE listing_id = $1
+          ORDER BY created_at DESC
+          LIMIT 2000
+        `, [req.params.id]),
+        pool.query(`
+          SELECT p.id, COALESCE(NULLIF(p.business_name, ''), NULLIF(p.contact_company, ''), p.name) AS name
+          FROM public.listing_prospects lp
+          INNER JOIN public.prospects p ON p.id = lp.prospect_id
+          WHERE lp.listing_id = $1
+        `, [req.params.id]),
+      ]);
+      const events = eventResult.rows.map((row: any) => ({
+        id: String(row.id),
+        action: String(row.action),
+        summary: row.summary || null,
+        payload: row.payload && typeof row.payload === 'object' ? row.payload : {},
+        createdAt: row.created_at ? new Date(row.created_at).toISOString() : null,
+      }));
+      const names = new Map<string, string>(prospectResult.rows.map((row: any) => [String(row.id), row.name || 'Prospect']));
+      const engagement = summarizeShareEngagement(events);
+      res.json({
+        ...engagement,
+        openedItems: engagement.openedItems.map((item) => ({ ...item, title: names.get(item.itemId) ?? null })),
+        history: events.filter((event) => event.action !== SHARE_VIEW_ACTION && event.action !== SHARE_ITEM_OPENED_ACTION).slice(0, 20),
+      });
+    } catch (error: any) {
+      const status = (error && typeof error === 'object' && error.status) || 500;
+      if (status !== 500) return res.status(status).json({ message: 'Forbidden' });
+      console.error('Error fetching pursuit public share engagement:', error);
+      res.status(500).json({ message: 'Failed to fetch client activity link engagement' });
+    }
+  });
+
+  app.post('/api/public/pursuits/:token/unlock', async (req, res) => {
+    try {
+      const share = await getListingPublicShareAccess(req.params.token, null);
+      if (!share) return res.status(404).json({ message: 'Activity link not found' });
+      if (share.access === 'expired') {
+        return res.status(410).json({ message: 'This activity link has expired', reason: 'expired' });
+      }
+      if (!share.passcodeHash) return res.json({ access: null, expiresAt: null });
+      const attempt = { token: req.params.token, ip: req.ip || null };
+      const retryAfter = shareUnlockThrottle.retryAfterSeconds(attempt);
+      if (retryAfter > 0) {
+        res.setHeader('Retry-After', String(retryAfter));
+        return res.status(429).json({ message: 'Too many wrong passcodes. Try again later.', reason: 'locked', retryAfterSeconds: retryAfter });
+      }
+      const passcode = typeof req.body?.passcode === 'string' ? req.body.passcode : '';
+      if (!passcode || !verifySharePasscode(passcode, share.passcodeHash)) {
+        const failure = shareUnlockThrottle.recordFailure(attempt);
+        await logListingShareEvent(
+          share.listingId,
+          { type: 'client', userId: null },
+          SHARE_UNLOCK_FAILED_ACTION,
+          describeShareUnlockFailure(failure),
+          failure,
+        );
+        return res.status(401).json({ message: 'That passcode is not right', reason: 'passcode_required' });
+      }
+      shareUnlockThrottle.recordSuccess(attempt);
+      res.json(createShareAccessGrant(req.params.token, share.passcodeHash));
+    } catch (error) {
+      console.error('Error unlocking public pursuit activity:', error);
+      res.status(500).json({ message: 'Failed to unlock pursuit activity' });
+    }
+  });
+
+  app.post('/api/public/pursuits/:token/views', async (req, res) => {
+    try {
+      const retryAfter = shareViewLimiter.take({ token: String(req.params.token || ''), ip: req.ip || null });
+      if (retryAfter > 0) {
+        res.setHeader('Retry-After', String(retryAfter));
+        return res.status(429).json({ message: 'Too many requests for this link. Try again later.', reason: 'rate_limited', retryAfterSeconds: retryAfter });
+      }
+      const share = await getListingPublicShareAccess(
+        req.params.token,
+        readShareAccessGrant(req.headers['x-share-access'], req.query.access),
+      );
+      if (!share || share.access !== 'open') return res.status(404).json({ message: 'Activity link not found' });
+      const prospectId = typeof req.body?.itemId === 'string' ? req.body.itemId.trim() : '';
+      if (!prospectId) {
+        await logListingShareEvent(share.listingId, { type: 'client', userId: null }, SHARE_VIEW_ACTION, 'Client viewed activity');
+        return res.status(204).send();
+      }
+      const linked = await pool.query(`
+        SELECT 1 FROM public.listing_prospects WHERE listing_id = $1 AND prospect_id = $2 LIMIT 1
+      `, [share.listingId, prospectId]);
+      if (!linked.rowCount) return res.status(404).json({ message: 'Prospect not found' });
+      await logListingShareEvent(
+        share.listingId,
+        { type: 'client', userId: null },
+        SHARE_ITEM_OPENED_ACTION,
+        'Client opened a prospect',
+        { itemId: prospectId },
+      );
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error recording public pursuit view:', error);
+      res.status(500).json({ message: 'Failed to record pursuit view' });
+    }
+  });
+
   app.get('/api/public/pursuits/:token', async (req, res) => {
     try {
-      if (!isValidPursuitShareToken(req.params.token)) {
-        return res.status(404).json({ message: 'Activity link not found' });
+      const share = await getListingPublicShareAccess(
+        req.params.token,
+        readShareAccessGrant(req.headers['x-share-access'], req.query.access),
+      );
+      if (!share) return res.status(404).json({ message: 'Activity link not found' });
+      if (share.access === 'expired') {
+        return res.status(410).json({ message: 'This activity link has expired', reason: 'expired' });
+      }
+      if (share.access === 'passcode_required') {
+        return res.status(401).json({ message: 'Enter the passcode to view this activity', reason: 'passcode_required' });
       }
       const listingResult = await pool.query(`
         SELECT
@@ -4015,6 +4545,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/market-comps/analytics', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = CompAnalyticsQuerySchema.safeParse(req.query || {});
+      if (!parsed.success) return res.status(400).json({ message: 'Invalid comp analytics query', error: parsed.error.errors });
+      const rows = isDemo(req)
+        ? compAnalyticsRowsFromComps(await demo.getMarketComps(userId))
+        : await loadCompAnalyticsRows({ pool, userId });
+      res.json(summarizeCompAnalytics(rows, parsed.data));
+    } catch (error) {
+      console.error('Error building comp analytics:', error);
+      res.status(500).json({ message: 'Failed to build comp analytics' });
+    }
+  });
+
   app.post('/api/market-comps', requireAuth, async (req, res) => {
     try {
       const userId = getUserId(req);
@@ -4040,6 +4585,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           rateType: req.body.rateType ?? null,
           commencement: req.body.commencement ?? null,
           concessions: req.body.concessions ?? null,
+          escalationKind: req.body.escalationKind ?? null,
+          escalationAmount: req.body.escalationAmount ?? null,
+          freeRentMonths: req.body.freeRentMonths ?? null,
+          tiAllowancePsf: req.body.tiAllowancePsf ?? null,
+          additionalRentPsf: req.body.additionalRentPsf ?? null,
+          commissionPct: req.body.commissionPct ?? null,
           saleDate: req.body.saleDate ?? null,
           buyer: req.body.buyer ?? null,
           seller: req.body.seller ?? null,
@@ -4972,12 +5523,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/activity-events/:id/review', requireAuth, async (req, res) => {
-    try {
-      if (rejectAgentBrokerDecision(req, res, '/api/agent/activity-events/batch')) return;
-      const review = ActivityEventReviewSchema.safeParse(req.body || {});
-      if (!review.success) {
-        return res.status(400).json({ message: 'Invalid activity evidence review', error: review.error.errors });
+  // Confirming a staged Outlook meeting is the broker's sign-off that it
+  // happened, so it becomes a logged meeting interaction with its XP.
+  async function logConfirmedCalendarMeeting(userId: string, eventId: string) {
+    const { rows } = await pool.query(`
+      SELECT id, external_event_id, occurred_at, subject, prospect_id, listing_id, interaction_id, source_metadata
+      FROM public.activity_events
+      WHERE id = $1 AND user_id = $2 AND source = $3 AND event_type = 'meeting'
+    `, [eventId, userId, OUTLOOK_CALENDAR_SOURCE]);
+    const event = rows[0];
+    if (!event?.prospect_id) return null;
+    if (event.interaction_id) return { interactionId: event.interaction_id, duplicate: true, newXpGained: 0 };
+
+    const existing = await pool.query(`
+      SELECT id FROM public.contact_interactions
+      WHERE user_id = $1
+        AND source_provider = $2
+        AND source_message_id = $3
+        AND prospect_id = $4
+      LIMIT 1
+    `, [userId, OUTLOOK_CALENDAR_SOURCE, event.external_event_id, event.prospect_id]);
+    let interactionId: string = existing.rows[0]?.id;
+    const duplicate = Boolean(interactionId);
+    if (!interactionId) {
+      const calendar = event.source_metadata?.calendar || {};
+      const attendees = Array.isArray(calendar.attendees) ? calendar.attendees : [];
+      const notes = [
+        event.subject ? `Meeting: ${event.subject}` : 'Meeting',
+        calendar.location ? `Location: ${calendar.location}` : '',
+        attendees.length ? `With: ${attendees.map((attendee: any) => attendee.name || attendee.email).join(', ')}` : '',
+      ].filter(Boolean).join('\n');
+      const interactionIso = new Date(event.occurred_at).toISOString();
+      const nextFollowUpIso = addDaysAtNoonUtc(new Date(event.occurred_at), 14);
+      const interaction = await storage.createContactInteraction({
+        userId,
+        prospectId: event.prospect_id,
+        listingId: event.listing_id || null,
+        date: interactionIso,
+        type: 'meeting',
+        outcome: 'contacted',
+        notes,
+        nextFollowUp: nextFollowUpIso,
+        sourceProvider: OUTLOOK_CALENDAR_SOURCE,
+        sourceMessageId: event.external_event_id,
+        sourceThreadId: calendar.iCalUId || null,
+        sourceMetadata: {
+          activityEventId: event.id,
+          graphEventId: calendar.graphEventId || null,
+          defaultFollowUpDays: 14,
+        },
+      });
+      interactionId = interaction.id;
+      await pool.query(`
+        UPDATE public.prospects
+        SET
+          last_contact_date = CASE
+            WHEN last_contact_date IS NULL OR last_contact_date < $3 THEN $3
+            ELSE last_contact_date
+          END,
+          follow_up_due_date = COALESCE(follow_up_due_date, $4),
+          status = CASE WHEN status = 'prospect' THEN 'contacted' ELSE status END,
+          updated_at = now()
+        WHERE id = $1 AND user_id = $2 AND merged_into_prospect_id IS NULL
+      `, [event.prospect_id, userId, interactionIso, nextFollowUpIso]);
+    }
+    await pool.query(`
+      UPDATE public.activity_events
+      SET interaction_id = $3, evidence_status = 'confirmed', updated_at = now()
+      WHERE id = $1 AND user_id = $2
+    `, [eventId, userId, interactionId]);
+    return { interactionId, duplicate, newXpGained: duplicate ? 0 : xpForInteractionType('meeting') };
+  }
+
+  app.patch('/api/activity-events/:id/review', requireAuth, async (req, res) => {
+    try {
+      if (rejectAgentBrokerDecision(req, res, '/api/agent/activity-events/batch')) return;
+      const review = ActivityEventReviewSchema.safeParse(req.body || {});
+      if (!review.success) {
+        return res.status(400).json({ message: 'Invalid activity evidence review', error: review.error.errors });
       }
       if (isDemo(req)) return res.json({ id: req.params.id, ...review.data, skipped: true, reason: 'demo_mode' });
       const result = await reviewActivityEvent({
@@ -4987,7 +5610,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         review: review.data,
       });
       if (!result) return res.status(404).json({ message: 'Activity evidence was not found or was already reviewed' });
-      res.json(result);
+      const meetingLog = result.action === 'link' ? await logConfirmedCalendarMeeting(getUserId(req), result.id) : null;
+      res.json(meetingLog ? { ...result, ...meetingLog } : result);
     } catch (error) {
       if (sendProspectReferenceError(res, error)) return;
       const message = error instanceof Error ? error.message : 'Failed to review activity evidence';
@@ -5064,6 +5688,375 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Owner portfolios: everything a normalized owner holds across dossiers, prospects and closed deals
+  app.get('/api/owner-portfolios', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = OwnerPortfolioQuerySchema.safeParse(req.query || {});
+      if (!parsed.success) return res.status(400).json({ message: 'Invalid owner portfolio query', error: parsed.error.errors });
+      if (isDemo(req)) return res.json({ rows: [] });
+      const rows = await listOwnerPortfolios({ pool, userId, query: parsed.data });
+      res.json({ rows });
+    } catch (error) {
+      console.error('Error getting owner portfolios:', error);
+      res.status(500).json({ message: 'Failed to get owner portfolios' });
+    }
+  });
+
+  app.get('/api/owner-portfolios/:ownerKey', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      if (isDemo(req)) return res.status(404).json({ message: 'Owner portfolio not found' });
+      const portfolio = await getOwnerPortfolio({ pool, userId, ownerKey: req.params.ownerKey });
+      res.json(portfolio);
+    } catch (error) {
+      if (error instanceof OwnerPortfolioError) return res.status(error.status).json({ message: error.message });
+      console.error('Error getting owner portfolio:', error);
+      res.status(500).json({ message: 'Failed to get owner portfolio' });
+    }
+  });
+
+  app.post('/api/owner-portfolios/:ownerKey/pitch', requireAuth, async (req, res) => {
+    try {
+      if (rejectAgentBrokerDecision(req, res, '/api/agent/opportunity-proposals')) return;
+      const userId = getUserId(req);
+      const parsed = OwnerPortfolioPitchSchema.safeParse(req.body || {});
+      if (!parsed.success) return res.status(400).json({ message: 'Invalid portfolio pitch', error: parsed.error.errors });
+      if (isDemo(req)) return res.status(201).json({ portfolioId: randomUUID(), ownerKey: req.params.ownerKey, created: [], skipped: [] });
+      const result = await pitchOwnerPortfolio({ pool, userId, ownerKey: req.params.ownerKey, input: parsed.data });
+      res.status(201).json(result);
+    } catch (error) {
+      if (sendProspectReferenceError(res, error)) return;
+      if (error instanceof OwnerPortfolioError) return res.status(error.status).json({ message: error.message });
+      if (error instanceof OpportunityServiceError) return res.status(error.status).json({ message: error.message });
+      console.error('Error pitching owner portfolio:', error);
+      res.status(500).json({ message: 'Failed to pitch owner portfolio' });
+    }
+  });
+
+  // Closed deal track record
+  app.get('/api/deals', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = DealListQuerySchema.safeParse(req.query || {});
+      if (!parsed.success) return res.status(400).json({ message: 'Invalid deal query', error: parsed.error.errors });
+      if (isDemo(req)) return res.json({ rows: [] });
+      const rows = await listDeals({ pool, userId, scope: parsed.data.scope });
+      res.json({ rows });
+    } catch (error) {
+      console.error('Error getting deals:', error);
+      res.status(500).json({ message: 'Failed to get deals' });
+    }
+  });
+
+  app.get('/api/deals/metrics', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      if (isDemo(req)) {
+        const metrics = emptyTrackRecordMetrics();
+        return res.json({ metrics, productionBadge: getLifetimeProductionBadge(metrics) });
+      }
+      res.json(await getTrackRecordSummary({ pool, userId }));
+    } catch (error) {
+      console.error('Error getting track record metrics:', error);
+      res.status(500).json({ message: 'Failed to get track record metrics' });
+    }
+  });
+
+  app.post('/api/deals', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = DealCreateSchema.safeParse(req.body || {});
+      if (!parsed.success) return res.status(400).json({ message: 'Invalid deal', error: parsed.error.errors });
+      if (isDemo(req)) return res.status(201).json({ id: randomUUID(), ...parsed.data, skipped: true });
+      const deal = await createDeal({ pool, userId, input: parsed.data });
+      res.status(201).json(deal);
+    } catch (error) {
+      if (sendProspectReferenceError(res, error)) return;
+      if (error instanceof DealServiceError) return res.status(error.status).json({ message: error.message });
+      console.error('Error creating deal:', error);
+      res.status(500).json({ message: 'Failed to create deal' });
+    }
+  });
+
+  app.post('/api/deals/import', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = DealImportSchema.safeParse(req.body || {});
+      if (!parsed.success) return res.status(400).json({ message: 'Invalid deal import', error: parsed.error.errors });
+      if (isDemo(req)) return res.json({ imported: [], skipped: parsed.data.deals.length });
+      res.json(await importDeals({ pool, userId, input: parsed.data }));
+    } catch (error) {
+      if (error instanceof DealServiceError) return res.status(error.status).json({ message: error.message });
+      console.error('Error importing deals:', error);
+      res.status(500).json({ message: 'Failed to import deals' });
+    }
+  });
+
+  app.patch('/api/deals/:id', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = DealUpdateSchema.safeParse(req.body || {});
+      if (!parsed.success) return res.status(400).json({ message: 'Invalid deal update', error: parsed.error.errors });
+      if (isDemo(req)) return res.json({ id: req.params.id, ...parsed.data, skipped: true });
+      const deal = await updateDeal({ pool, userId, dealId: req.params.id, input: parsed.data });
+      res.json(deal);
+    } catch (error) {
+      if (sendProspectReferenceError(res, error)) return;
+      if (error instanceof DealServiceError) return res.status(error.status).json({ message: error.message });
+      console.error('Error updating deal:', error);
+      res.status(500).json({ message: 'Failed to update deal' });
+    }
+  });
+
+  app.delete('/api/deals/:id', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      if (isDemo(req)) return res.status(204).send();
+      await deleteDeal({ pool, userId, dealId: req.params.id });
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof DealServiceError) return res.status(error.status).json({ message: error.message });
+      console.error('Error deleting deal:', error);
+      res.status(500).json({ message: 'Failed to delete deal' });
+    }
+  });
+
+  // Broker opinion of value worksheets for listing proposals
+  app.get('/api/bov-worksheets', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = BovWorksheetListQuerySchema.safeParse(req.query || {});
+      if (!parsed.success) return res.status(400).json({ message: 'Invalid BOV worksheet query', error: parsed.error.errors });
+      if (isDemo(req)) return res.json({ rows: [] });
+      res.json({ rows: await listBovWorksheets({ pool, userId, query: parsed.data }) });
+    } catch (error) {
+      console.error('Error listing BOV worksheets:', error);
+      res.status(500).json({ message: 'Failed to list BOV worksheets' });
+    }
+  });
+
+  app.get('/api/bov-worksheets/candidates', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = BovCandidateQuerySchema.safeParse(req.query || {});
+      if (!parsed.success) return res.status(400).json({ message: 'Invalid comp search', error: parsed.error.errors });
+      if (isDemo(req)) return res.json({ rows: [] });
+      res.json({ rows: await searchBovCandidates({ pool, userId, query: parsed.data }) });
+    } catch (error) {
+      console.error('Error searching BOV comps:', error);
+      res.status(500).json({ message: 'Failed to search comps' });
+    }
+  });
+
+  app.post('/api/bov-worksheets', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = BovWorksheetCreateSchema.safeParse(req.body || {});
+      if (!parsed.success) return res.status(400).json({ message: 'Invalid BOV worksheet', error: parsed.error.errors });
+      if (isDemo(req)) return res.status(400).json({ message: 'BOV worksheets are disabled in demo mode' });
+      res.status(201).json(await createBovWorksheet({ pool, userId, input: parsed.data }));
+    } catch (error) {
+      if (error instanceof BovWorksheetError) return res.status(error.status).json({ message: error.message });
+      console.error('Error creating BOV worksheet:', error);
+      res.status(500).json({ message: 'Failed to create BOV worksheet' });
+    }
+  });
+
+  app.get('/api/bov-worksheets/:id', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const version = req.query.version === undefined ? undefined : Number(req.query.version);
+      if (version !== undefined && !Number.isInteger(version)) return res.status(400).json({ message: 'Invalid version' });
+      if (isDemo(req)) return res.status(404).json({ message: 'BOV worksheet not found' });
+      res.json(await getBovWorksheet({ pool, userId, worksheetId: req.params.id, version }));
+    } catch (error) {
+      if (error instanceof BovWorksheetError) return res.status(error.status).json({ message: error.message });
+      console.error('Error getting BOV worksheet:', error);
+      res.status(500).json({ message: 'Failed to get BOV worksheet' });
+    }
+  });
+
+  app.post('/api/bov-worksheets/:id/versions', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = BovWorksheetVersionSchema.safeParse(req.body || {});
+      if (!parsed.success) return res.status(400).json({ message: 'Invalid BOV worksheet version', error: parsed.error.errors });
+      if (isDemo(req)) return res.status(400).json({ message: 'BOV worksheets are disabled in demo mode' });
+      res.status(201).json(await saveBovWorksheetVersion({ pool, userId, worksheetId: req.params.id, input: parsed.data }));
+    } catch (error) {
+      if (error instanceof BovWorksheetError) return res.status(error.status).json({ message: error.message });
+      console.error('Error saving BOV worksheet version:', error);
+      res.status(500).json({ message: 'Failed to save BOV worksheet' });
+    }
+  });
+
+  app.get('/api/bov-worksheets/:id/export.csv', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const version = req.query.version === undefined ? undefined : Number(req.query.version);
+      if (version !== undefined && !Number.isInteger(version)) return res.status(400).json({ message: 'Invalid version' });
+      if (isDemo(req)) return res.status(404).json({ message: 'BOV worksheet not found' });
+      const { filename, csv } = await exportBovWorksheetCsv({ pool, userId, worksheetId: req.params.id, version });
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(csv);
+    } catch (error) {
+      if (error instanceof BovWorksheetError) return res.status(error.status).json({ message: error.message });
+      console.error('Error exporting BOV worksheet:', error);
+      res.status(500).json({ message: 'Failed to export BOV worksheet' });
+    }
+  });
+
+  app.delete('/api/bov-worksheets/:id', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      if (isDemo(req)) return res.status(204).send();
+      await deleteBovWorksheet({ pool, userId, worksheetId: req.params.id });
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof BovWorksheetError) return res.status(error.status).json({ message: error.message });
+      console.error('Error deleting BOV worksheet:', error);
+      res.status(500).json({ message: 'Failed to delete BOV worksheet' });
+    }
+  });
+
+  // Contact directory: people and companies clustered out of the contact
+  // strings on prospects, opportunities and activity.
+  app.get('/api/contacts', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = ContactListQuerySchema.safeParse(req.query || {});
+      if (!parsed.success) return res.status(400).json({ message: 'Invalid contact query', error: parsed.error.errors });
+      if (isDemo(req)) return res.json({ rows: [] });
+      res.json({ rows: await listContacts({ pool, userId, query: parsed.data }) });
+    } catch (error) {
+      console.error('Error getting contacts:', error);
+      res.status(500).json({ message: 'Failed to get contacts' });
+    }
+  });
+
+  app.post('/api/contacts', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = ContactCreateSchema.safeParse(req.body || {});
+      if (!parsed.success) return res.status(400).json({ message: 'Invalid contact', error: parsed.error.errors });
+      if (isDemo(req)) return res.status(201).json({ id: randomUUID(), ...parsed.data, skipped: true });
+      res.status(201).json(await createContact({ pool, userId, input: parsed.data }));
+    } catch (error) {
+      if (error instanceof ContactDirectoryError) return res.status(error.status).json({ message: error.message });
+      console.error('Error creating contact:', error);
+      res.status(500).json({ message: 'Failed to create contact' });
+    }
+  });
+
+  app.post('/api/contacts/backfill', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      if (isDemo(req)) {
+        return res.json({ sourcesScanned: 0, companiesCreated: 0, companiesUpdated: 0, contactsCreated: 0, contactsUpdated: 0, linksCreated: 0 });
+      }
+      res.json(await backfillContactDirectory({ pool, userId }));
+    } catch (error) {
+      console.error('Error backfilling contacts:', error);
+      res.status(500).json({ message: 'Failed to backfill contacts' });
+    }
+  });
+
+  app.get('/api/contacts/:id', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      if (isDemo(req)) return res.status(404).json({ message: 'Contact not found' });
+      res.json(await getContactDetail({ pool, userId, contactId: req.params.id }));
+    } catch (error) {
+      if (error instanceof ContactDirectoryError) return res.status(error.status).json({ message: error.message });
+      console.error('Error getting contact:', error);
+      res.status(500).json({ message: 'Failed to get contact' });
+    }
+  });
+
+  app.patch('/api/contacts/:id', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = ContactUpdateSchema.safeParse(req.body || {});
+      if (!parsed.success) return res.status(400).json({ message: 'Invalid contact update', error: parsed.error.errors });
+      if (isDemo(req)) return res.json({ id: req.params.id, ...parsed.data, skipped: true });
+      res.json(await updateContact({ pool, userId, contactId: req.params.id, input: parsed.data }));
+    } catch (error) {
+      if (error instanceof ContactDirectoryError) return res.status(error.status).json({ message: error.message });
+      console.error('Error updating contact:', error);
+      res.status(500).json({ message: 'Failed to update contact' });
+    }
+  });
+
+  app.post('/api/contacts/:id/links', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      const parsed = ContactLinkSchema.safeParse(req.body || {});
+      if (!parsed.success) return res.status(400).json({ message: 'Invalid contact link', error: parsed.error.errors });
+      if (isDemo(req)) return res.status(201).json({ links: [] });
+      res.status(201).json({ links: await linkContact({ pool, userId, contactId: req.params.id, input: parsed.data }) });
+    } catch (error) {
+      if (sendProspectReferenceError(res, error)) return;
+      if (error instanceof ContactDirectoryError) return res.status(error.status).json({ message: error.message });
+      console.error('Error linking contact:', error);
+      res.status(500).json({ message: 'Failed to link contact' });
+    }
+  });
+
+  app.delete('/api/contacts/:id/links/:linkId', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      if (isDemo(req)) return res.status(204).send();
+      await unlinkContact({ pool, userId, contactId: req.params.id, linkId: req.params.linkId });
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof ContactDirectoryError) return res.status(error.status).json({ message: error.message });
+      console.error('Error unlinking contact:', error);
+      res.status(500).json({ message: 'Failed to unlink contact' });
+    }
+  });
+
+  app.get('/api/companies/:id', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      if (isDemo(req)) return res.status(404).json({ message: 'Company not found' });
+      res.json(await getCompanyDetail({ pool, userId, companyId: req.params.id }));
+    } catch (error) {
+      if (error instanceof ContactDirectoryError) return res.status(error.status).json({ message: error.message });
+      console.error('Error getting company:', error);
+      res.status(500).json({ message: 'Failed to get company' });
+    }
+  });
+
+  // Renewal radar: lease expiries from deals and comps. Reading it queues
+  // renewal_relocation proposals for leases that entered the lead window.
+  app.get('/api/renewal-radar', requireAuth, async (req, res) => {
+    try {
+      const userId = getUserId(req);
+      if (isDemo(req)) return res.json({ leadMonths: DEFAULT_RENEWAL_LEAD_MONTHS, proposed: 0, items: [] });
+      res.json(await syncRenewalRadar({ pool, userId }));
+    } catch (error) {
+      console.error('Error getting renewal radar:', error);
+      res.status(500).json({ message: 'Failed to get renewal radar' });
+    }
+  });
+
+  app.patch('/api/renewal-radar/settings', requireAuth, async (req, res) => {
+    try {
+      if (rejectAgentBrokerDecision(req, res, '/api/agent/opportunity-proposals')) return;
+      const userId = getUserId(req);
+      const parsed = RenewalRadarSettingsSchema.safeParse(req.body || {});
+      if (!parsed.success) return res.status(400).json({ message: 'Invalid renewal radar settings', error: parsed.error.errors });
+      if (isDemo(req)) return res.json({ ...parsed.data, skipped: true });
+      const leadMonths = await updateRenewalLeadMonths({ pool, userId, leadMonths: parsed.data.leadMonths });
+      res.json({ leadMonths });
+    } catch (error) {
+      console.error('Error updating renewal radar settings:', error);
+      res.status(500).json({ message: 'Failed to update renewal radar settings' });
+    }
+  });
+
   // Contact interactions routes
   app.get('/api/interactions', requireAuth, async (req, res) => {
     try {
@@ -5146,7 +6139,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       const userId = getUserId(req);
       const { rows } = await pool.query(`
-        SELECT id, email_address, display_name, status, last_synced_at, error_message
+        SELECT id, email_address, display_name, status, scopes, last_synced_at, error_message
         FROM public.email_connections
         WHERE user_id = $1 AND provider = 'outlook'
         ORDER BY created_at DESC
@@ -5157,7 +6150,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         configured: config.configured,
         connected: connection?.status === 'connected',
         redirectUri: config.redirectUri,
-        scopes: OUTLOOK_SCOPES,
+        scopes: OUTLOOK_MAIL_SCOPES,
+        calendarScopes: OUTLOOK_CALENDAR_SCOPES,
         connection: connection ? {
           id: connection.id,
           emailAddress: connection.email_address,
@@ -5165,6 +6159,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           status: connection.status,
           lastSyncedAt: connection.last_synced_at ? new Date(connection.last_synced_at).toISOString() : null,
           errorMessage: connection.error_message || null,
+          calendarEnabled: (connection.scopes || []).includes(OUTLOOK_CALENDAR_SCOPE),
         } : null,
       });
     } catch (error) {
@@ -5186,11 +6181,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       (error as any).redirectUri = config.redirectUri;
       throw error;
     }
+    // `?calendar=1` is the re-consent flow behind "Allow calendar access".
+    const scopes = req.query.calendar === '1' ? OUTLOOK_CALENDAR_SCOPES : OUTLOOK_MAIL_SCOPES;
     const state = signEmailState({
       provider: 'outlook',
       userId: getUserId(req),
       iat: Date.now(),
       returnTo: typeof req.query.returnTo === 'string' ? req.query.returnTo : '/app/inbox',
+      scopes,
       nonce: randomUUID(),
     });
     const authorizeUrl = new URL(config.authorizeUrl);
@@ -5198,7 +6196,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     authorizeUrl.searchParams.set('response_type', 'code');
     authorizeUrl.searchParams.set('redirect_uri', config.redirectUri);
     authorizeUrl.searchParams.set('response_mode', 'query');
-    authorizeUrl.searchParams.set('scope', OUTLOOK_SCOPES.join(' '));
+    authorizeUrl.searchParams.set('scope', scopes.join(' '));
     authorizeUrl.searchParams.set('state', state);
     authorizeUrl.searchParams.set('prompt', 'select_account');
     return authorizeUrl.toString();
@@ -5240,10 +6238,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       returnTo = typeof state.returnTo === 'string' ? state.returnTo : returnTo;
       const code = typeof req.query.code === 'string' ? req.query.code : '';
       if (!code) throw new Error(String(req.query.error_description || req.query.error || 'Missing authorization code'));
-      const token = await exchangeOutlookCode(req, code);
+      const scopes = Array.isArray(state.scopes) && state.scopes.includes(OUTLOOK_CALENDAR_SCOPE)
+        ? OUTLOOK_CALENDAR_SCOPES
+        : OUTLOOK_MAIL_SCOPES;
+      const token = await exchangeEmailOAuthCode('outlook', req, code, scopes);
       const expiresAt = Date.now() + Math.max(Number(token.expires_in || 3600) - 60, 60) * 1000;
       const accessToken = token.access_token as string;
-      const profile = await graphGet(accessToken, 'https://graph.microsoft.com/v1.0/me?$select=id,displayName,mail,userPrincipalName');
+      const profile = await graphGet(accessToken, `${microsoftGraphBaseUrl()}/me?$select=id,displayName,mail,userPrincipalName`);
       const emailAddress = profile.mail || profile.userPrincipalName || null;
       const encrypted = encryptJson({ ...token, expires_at: expiresAt });
       await pool.query(`
@@ -5267,85 +6268,437 @@ export async function registerRoutes(app: Express): Promise<Server> {
         profile.id,
         emailAddress,
         profile.displayName || emailAddress || 'Outlook',
-        OUTLOOK_SCOPES,
+        scopes,
         encrypted,
         new Date(expiresAt),
       ]);
-      res.redirect(`${returnTo}?outlook=connected`);
+      res.redirect(`${returnTo}?outlook=connected`);
+    } catch (error: any) {
+      console.error('Error completing Outlook OAuth:', error?.message || error);
+      res.redirect(`${returnTo}?outlook=error`);
+    }
+  });
+
+  app.get('/api/email/gmail/auth-url', requireAuth, async (req, res) => {
+    try {
+      if (isDemo(req)) return res.status(400).json({ message: 'Email connection is disabled in demo mode' });
+      const config = getGmailConfig(req);
+      if (!config.configured) {
+        return res.status(400).json({ message: 'Gmail OAuth is not configured', redirectUri: config.redirectUri });
+      }
+      const state = signEmailState({
+        provider: 'gmail',
+        userId: getUserId(req),
+        iat: Date.now(),
+        returnTo: typeof req.query.returnTo === 'string' ? req.query.returnTo : '/app/profile',
+        nonce: randomUUID(),
+      });
+      const authorizeUrl = new URL(config.authorizeUrl);
+      authorizeUrl.searchParams.set('client_id', config.clientId);
+      authorizeUrl.searchParams.set('response_type', 'code');
+      authorizeUrl.searchParams.set('redirect_uri', config.redirectUri);
+      authorizeUrl.searchParams.set('scope', GMAIL_SCOPES.join(' '));
+      authorizeUrl.searchParams.set('state', state);
+      // Google only issues a refresh token on a fresh consent, and the sync
+      // runs long after the broker has closed the tab.
+      authorizeUrl.searchParams.set('access_type', 'offline');
+      authorizeUrl.searchParams.set('prompt', 'consent');
+      res.json({ url: authorizeUrl.toString() });
+    } catch (error: any) {
+      console.error('Error building Gmail OAuth URL:', error);
+      res.status(500).json({ message: error?.message || 'Failed to start Gmail connection' });
+    }
+  });
+
+  app.get('/api/email/gmail/callback', async (req, res) => {
+    let returnTo = '/app/profile';
+    try {
+      const state = verifyEmailState(req.query.state);
+      if (state.provider !== 'gmail') throw new Error('Invalid OAuth provider');
+      returnTo = typeof state.returnTo === 'string' ? state.returnTo : returnTo;
+      const code = typeof req.query.code === 'string' ? req.query.code : '';
+      if (!code) throw new Error(String(req.query.error_description || req.query.error || 'Missing authorization code'));
+      const token = await exchangeEmailOAuthCode('gmail', req, code);
+      const expiresAt = Date.now() + Math.max(Number(token.expires_in || 3600) - 60, 60) * 1000;
+      const profile = await gmailGet(token.access_token as string, `${gmailApiBaseUrl()}/users/me/profile`);
+      const emailAddress = normalizeEmailAddress(profile.emailAddress);
+      if (!emailAddress) throw new Error('Gmail profile did not include an email address');
+      await pool.query(`
+        INSERT INTO public.email_connections (
+          user_id, provider, provider_account_id, email_address, display_name, status, scopes,
+          token_ciphertext, token_expires_at, error_message, updated_at
+        )
+        VALUES ($1, 'gmail', $2, $2, $2, 'connected', $3, $4, $5, NULL, now())
+        ON CONFLICT (user_id, provider, provider_account_id) WHERE provider_account_id IS NOT NULL
+        DO UPDATE SET
+          email_address = EXCLUDED.email_address,
+          status = 'connected',
+          scopes = EXCLUDED.scopes,
+          token_ciphertext = EXCLUDED.token_ciphertext,
+          token_expires_at = EXCLUDED.token_expires_at,
+          error_message = NULL,
+          updated_at = now()
+      `, [
+        state.userId,
+        emailAddress,
+        GMAIL_SCOPES,
+        encryptJson({ ...token, expires_at: expiresAt }),
+        new Date(expiresAt),
+      ]);
+      res.redirect(`${returnTo}?gmail=connected`);
+    } catch (error: any) {
+      console.error('Error completing Gmail OAuth:', error?.message || error);
+      res.redirect(`${returnTo}?gmail=error`);
+    }
+  });
+
+  // A plain IMAP mailbox has no OAuth; the login itself is the token, so it
+  // is verified against the server before it is stored.
+  app.post('/api/email/imap/connect', requireAuth, async (req, res) => {
+    try {
+      if (isDemo(req)) return res.status(400).json({ message: 'Email connection is disabled in demo mode' });
+      const parsed = ImapCredentialsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid IMAP settings', error: parsed.error.errors });
+      }
+      const credentials = parsed.data;
+      try {
+        const client = await connectImapMailbox(credentials);
+        await client.logout();
+      } catch (error: any) {
+        // Socket and DNS details stay in the log: echoing them would map out
+        // which hosts and ports the API server can reach.
+        console.warn('IMAP sign-in check failed:', error?.code || error?.message || error);
+        const rejectedLogin = error instanceof ImapLoginError;
+        return res.status(400).json({
+          message: rejectedLogin
+            ? 'The IMAP server rejected that username or password'
+            : 'Could not connect to that IMAP server. Check the server name and use port 993, or 143 with STARTTLS.',
+        });
+      }
+      const emailAddress = normalizeEmailAddress(credentials.username) || null;
+      const { rows } = await pool.query(`
+        INSERT INTO public.email_connections (
+          user_id, provider, provider_account_id, email_address, display_name, status, scopes,
+          token_ciphertext, token_expires_at, error_message, updated_at
+        )
+        VALUES ($1, 'imap', $2, $3, $4, 'connected', ARRAY[]::varchar[], $5, NULL, NULL, now())
+        ON CONFLICT (user_id, provider, provider_account_id) WHERE provider_account_id IS NOT NULL
+        DO UPDATE SET
+          email_address = EXCLUDED.email_address,
+          display_name = EXCLUDED.display_name,
+          status = 'connected',
+          token_ciphertext = EXCLUDED.token_ciphertext,
+          error_message = NULL,
+          updated_at = now()
+        RETURNING id, provider, email_address, display_name, status
+      `, [
+        getUserId(req),
+        `${credentials.host}:${credentials.username}`.toLowerCase(),
+        emailAddress,
+        emailAddress || credentials.username,
+        encryptJson(credentials),
+      ]);
+      res.status(201).json({
+        id: rows[0].id,
+        provider: rows[0].provider,
+        emailAddress: rows[0].email_address,
+        displayName: rows[0].display_name,
+        status: rows[0].status,
+      });
     } catch (error: any) {
-      console.error('Error completing Outlook OAuth:', error?.message || error);
-      res.redirect(`${returnTo}?outlook=error`);
+      console.error('Error connecting IMAP mailbox:', error);
+      res.status(500).json({ message: error?.message || 'Failed to connect IMAP mailbox' });
     }
   });
 
-  async function syncOutlookMessagesForConnection(userId: string, connectionId: string, days: number) {
-    const accessToken = await refreshOutlookToken(connectionId, userId);
-    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
-    const folders = [
-      { id: 'inbox', mailbox: 'inbox', direction: 'received', dateField: 'receivedDateTime' },
-      { id: 'sentitems', mailbox: 'sent', direction: 'sent', dateField: 'sentDateTime' },
-    ];
-    let messagesSeen = 0;
-    let messagesStored = 0;
-    let matchesCreated = 0;
-    let duplicatesSuppressed = 0;
-    let autoLogged = 0;
+  type EmailSyncProgress = {
+    messagesSeen: number;
+    messagesStored: number;
+    matchesCreated: number;
+    autoLogged: number;
+    duplicatesSuppressed: number;
+    attachmentsStored: number;
+    pagesFetched: number;
+    messagesRemoved: number;
+    mode: EmailSyncMode;
+    cursorReset: boolean;
+    complete: boolean;
+  };
+
+  function emptyEmailSyncProgress(): EmailSyncProgress {
+    return {
+      messagesSeen: 0,
+      messagesStored: 0,
+      matchesCreated: 0,
+      autoLogged: 0,
+      duplicatesSuppressed: 0,
+      attachmentsStored: 0,
+      pagesFetched: 0,
+      messagesRemoved: 0,
+      mode: 'delta',
+      cursorReset: false,
+      complete: true,
+    };
+  }
+
+  async function recordEmailSyncRunProgress(runId: string, userId: string, progress: EmailSyncProgress) {
+    await pool.query(`
+      UPDATE public.email_sync_runs
+      SET messages_seen = $3, messages_stored = $4, matches_created = $5, pages_fetched = $6,
+          messages_removed = $7, sync_mode = $8, cursor_reset = $9
+      WHERE id = $1 AND user_id = $2
+    `, [
+      runId,
+      userId,
+      progress.messagesSeen,
+      progress.messagesStored,
+      progress.matchesCreated,
+      progress.pagesFetched,
+      progress.messagesRemoved,
+      progress.mode,
+      progress.cursorReset,
+    ]);
+  }
+
+  async function runEmailSync<T extends EmailSyncProgress>(
+    userId: string,
+    connection: { id: string; provider: EmailSyncProviderName },
+    scope: 'mailbox' | 'bcc' | 'calendar',
+    sync: (runId: string) => Promise<T>,
+  ) {
+    const run = await pool.query(`
+      INSERT INTO public.email_sync_runs (user_id, connection_id, provider, scope, status, started_at)
+      VALUES ($1, $2, $3, $4, 'running', now())
+      RETURNING id
+    `, [userId, connection.id, connection.provider, scope]);
+    const runId = run.rows[0].id;
+    try {
+      const result = await sync(runId);
+      await recordEmailSyncRunProgress(runId, userId, result);
+      await pool.query(`
+        UPDATE public.email_sync_runs
+        SET status = 'completed', completed_at = now()
+        WHERE id = $1 AND user_id = $2
+      `, [runId, userId]);
+      await pool.query(`
+        UPDATE public.email_connections
+        SET last_synced_at = now(), status = 'connected', error_message = NULL, updated_at = now()
+        WHERE id = $1 AND user_id = $2
+      `, [connection.id, userId]);
+      return { runId, ...result };
+    } catch (error: any) {
+      await pool.query(`
+        UPDATE public.email_sync_runs
+        SET status = 'failed', completed_at = now(), error_message = $3
+        WHERE id = $1 AND user_id = $2
+      `, [runId, userId, error?.message || String(error)]);
+      // Every sync endpoint only picks up connected accounts, so a throttled or
+      // failed run must not take the connection down with it.
+      if (isEmailConnectionAuthFailure(error)) {
+        await pool.query(`
+          UPDATE public.email_connections
+          SET status = 'error', error_message = $3, updated_at = now()
+          WHERE id = $1 AND user_id = $2
+        `, [connection.id, userId, error?.message || String(error)]);
+      }
+      throw error;
+    }
+  }
+
+  // Providers only flag that a message has attachments; the files themselves
+  // are fetched once, when the message is first stored.
+  async function captureFetchedEmailAttachments(
+    userId: string,
+    emailMessageId: string,
+    messageData: any,
+    fetchAttachments: () => Promise<EmailAttachmentInput[]>,
+  ) {
+    let attachments;
+    try {
+      attachments = await fetchAttachments();
+    } catch (error: any) {
+      console.error(`Failed to fetch ${messageData.provider} attachments:`, error?.message || error);
+      return 0;
+    }
+    if (attachments.length === 0) return 0;
+    await pool.query(`
+      UPDATE public.email_messages
+      SET attachment_names = $3::varchar[], updated_at = now()
+      WHERE id = $1 AND user_id = $2
+    `, [emailMessageId, userId, attachments.map((attachment) => attachment.fileName)]);
+    const captured = await captureEmailMessageAttachments(userId, emailMessageId, messageData, attachments);
+    return captured?.stored || 0;
+  }
+
+  async function storeSyncedEmailMessage(
+    userId: string,
+    connection: { id: string; provider: EmailSyncProviderName },
+    message: SyncedEmailMessage,
+  ) {
+    const messageData = { ...message, provider: connection.provider };
+    const inserted = await pool.query(`
+      INSERT INTO public.email_messages (
+        user_id, connection_id, provider, provider_message_id, provider_thread_id, mailbox, direction,
+        subject, sender_email, sender_name, recipient_emails, cc_emails, sent_at, received_at,
+        snippet, attachment_names, source_url, raw_metadata, updated_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, now())
+      ON CONFLICT (user_id, provider, provider_message_id)
+      DO UPDATE SET
+        provider_thread_id = EXCLUDED.provider_thread_id,
+        mailbox = EXCLUDED.mailbox,
+        direction = EXCLUDED.direction,
+        subject = EXCLUDED.subject,
+        sender_email = EXCLUDED.sender_email,
+        sender_name = EXCLUDED.sender_name,
+        recipient_emails = EXCLUDED.recipient_emails,
+        cc_emails = EXCLUDED.cc_emails,
+        sent_at = EXCLUDED.sent_at,
+        received_at = EXCLUDED.received_at,
+        snippet = EXCLUDED.snippet,
+        source_url = EXCLUDED.source_url,
+        raw_metadata = EXCLUDED.raw_metadata,
+        updated_at = now()
+      RETURNING id, (xmax = 0) AS inserted
+    `, [
+      userId,
+      connection.id,
+      messageData.provider,
+      messageData.providerMessageId,
+      messageData.providerThreadId,
+      messageData.mailbox,
+      messageData.direction,
+      messageData.subject,
+      messageData.senderEmail,
+      messageData.senderName,
+      messageData.recipientEmails,
+      messageData.ccEmails,
+      messageData.sentAt,
+      messageData.receivedAt,
+      messageData.snippet,
+      messageData.attachmentNames,
+      messageData.sourceUrl,
+      JSON.stringify(messageData.rawMetadata),
+    ]);
+    return {
+      emailMessageId: inserted.rows[0].id as string,
+      isNewMessage: Boolean(inserted.rows[0].inserted),
+      messageData,
+    };
+  }
+
+  async function createEmailSyncProviderForConnection(
+    userId: string,
+    connection: { id: string; provider: EmailSyncProviderName; token_ciphertext?: string | null },
+  ): Promise<EmailSyncProvider> {
+    if (connection.provider === 'imap') {
+      if (!connection.token_ciphertext) throw new EmailConnectionAuthError('IMAP connection has no stored credentials');
+      const credentials = ImapCredentialsSchema.parse(decryptJson(connection.token_ciphertext));
+      return createImapMailProvider({ credentials });
+    }
+    const accessToken = await refreshEmailAccessToken(connection.id, userId, connection.provider);
+    return connection.provider === 'gmail'
+      ? createGmailMailProvider({ accessToken })
+      : createOutlookMailProvider({ accessToken });
+  }
+
+  // Each provider resumes from its own cursor entries; `days` only bounds the
+  // first read and any resync after the provider expires a cursor.
+  async function syncEmailConnectionMailbox(
+    userId: string,
+    connection: { id: string; provider: EmailSyncProviderName; token_ciphertext?: string | null },
+    options: { runId: string; days: number; reset: boolean },
+  ) {
+    const provider = await createEmailSyncProviderForConnection(userId, connection);
+    const progress = emptyEmailSyncProgress();
+    const prospects = await loadEmailProspectCandidates(userId);
+    const cursor = options.reset ? {} : await loadEmailSyncCursor({ pool, userId, connectionId: connection.id });
+    const maxPages = Math.min(
+      Math.max(Number(process.env.EMAIL_SYNC_MAX_PAGES || process.env.OUTLOOK_SYNC_MAX_PAGES || 10), 1),
+      50,
+    );
+
+    const result = await provider.syncMailbox({
+      cursor,
+      days: options.days,
+      maxPages,
+      onMessages: async (messages) => {
+        for (const message of messages) {
+          progress.messagesSeen += 1;
+          const { emailMessageId, isNewMessage, messageData } = await storeSyncedEmailMessage(userId, connection, message);
+          if (isNewMessage) progress.messagesStored += 1;
+          const processed = await processCapturedEmailMessage({
+            userId,
+            emailMessageId,
+            isNewMessage,
+            messageData,
+            prospects,
+          });
+          progress.matchesCreated += processed.matchesCreated || 0;
+          if (processed.duplicateSuppressed) progress.duplicatesSuppressed += 1;
+          if (processed.matchStatus === 'auto_logged') progress.autoLogged += 1;
+          const fetchAttachments = provider.fetchAttachments;
+          if (isNewMessage && message.hasAttachments && fetchAttachments) {
+            progress.attachmentsStored += await captureFetchedEmailAttachments(
+              userId,
+              emailMessageId,
+              messageData,
+              () => fetchAttachments(message),
+            );
+          }
+        }
+        progress.pagesFetched += 1;
+        await recordEmailSyncRunProgress(options.runId, userId, progress);
+      },
+      saveCursor: (key, value) => saveEmailSyncCursorEntry({ pool, userId, connectionId: connection.id, key, value }),
+    });
+    progress.messagesRemoved = result.removed;
+    progress.mode = result.mode;
+    progress.cursorReset = options.reset || result.mode === 'resync';
+    progress.complete = result.complete;
+    return progress;
+  }
+
+  // Shares the sent-items folder with the mailbox sync but keeps its own
+  // cursor, so either endpoint can run without skipping the other's messages.
+  async function syncOutlookBccCapturesForConnection(
+    userId: string,
+    connectionId: string,
+    options: { runId: string; days: number; reset: boolean },
+  ) {
+    const accessToken = await refreshEmailAccessToken(connectionId, userId, 'outlook');
+    const cursorKey = 'sentitems:bcc';
+    const progress = emptyEmailSyncProgress();
+    let bccCapturesSeen = 0;
     const prospects = await loadEmailProspectCandidates(userId);
+    const storedCursor = options.reset ? {} : await loadOutlookSyncCursor({ pool, userId, connectionId });
+
+    const maxPages = Math.min(Math.max(Number(process.env.OUTLOOK_BCC_SYNC_MAX_PAGES || 5), 1), 20);
+    const delta = await runOutlookFolderDelta({
+      folderId: 'sentitems',
+      cursor: storedCursor[cursorKey],
+      resyncDays: options.days,
+      maxPages,
+      fetchPage: (url) => graphGet(accessToken, url, { maxPageSize: 50 }),
+      onPage: async (messages) => {
+        for (const message of messages) {
+          progress.messagesSeen += 1;
+          const bccRecipients = parseGraphRecipientEmails(message.bccRecipients);
+          const capturedByBcc = bccRecipients.some((email: string) => isConfiguredInboundAddress(email));
+          if (!capturedByBcc) continue;
 
-    const maxPagesPerFolder = Math.min(Math.max(Number(process.env.OUTLOOK_SYNC_MAX_PAGES || 5), 1), 20);
-    for (const folder of folders) {
-      const url = new URL(`https://graph.microsoft.com/v1.0/me/mailFolders/${folder.id}/messages`);
-      url.searchParams.set('$top', '100');
-      url.searchParams.set('$orderby', `${folder.dateField} desc`);
-      url.searchParams.set('$filter', `${folder.dateField} ge ${cutoff}`);
-      url.searchParams.set('$select', [
-        'id',
-        'internetMessageId',
-        'conversationId',
-        'subject',
-        'from',
-        'toRecipients',
-        'ccRecipients',
-        'bccRecipients',
-        'sentDateTime',
-        'receivedDateTime',
-        'webLink',
-        'hasAttachments',
-      ].join(','));
-      let nextUrl: string | null = url.toString();
-      for (let page = 0; nextUrl && page < maxPagesPerFolder; page += 1) {
-        const data = await graphGet(accessToken, nextUrl);
-        nextUrl = typeof data['@odata.nextLink'] === 'string' ? data['@odata.nextLink'] : null;
-        for (const message of data.value || []) {
-          messagesSeen += 1;
+          bccCapturesSeen += 1;
           const sender = message.from?.emailAddress || {};
           const recipients = parseGraphRecipientEmails(message.toRecipients);
           const ccRecipients = parseGraphRecipientEmails(message.ccRecipients);
-          const bccRecipients = parseGraphRecipientEmails(message.bccRecipients);
-          const messageData = {
-            provider: 'outlook',
-            providerMessageId: stableOutlookMessageId(message),
-            providerThreadId: message.conversationId || null,
-            mailbox: folder.mailbox,
-            direction: folder.direction,
-            subject: message.subject || '',
-            senderEmail: sender.address || '',
-            senderName: sender.name || '',
-            recipientEmails: recipients,
-            ccEmails: ccRecipients,
-            sentAt: message.sentDateTime ? new Date(message.sentDateTime) : null,
-            receivedAt: message.receivedDateTime ? new Date(message.receivedDateTime) : null,
-            snippet: '',
-            attachmentNames: [],
-            sourceUrl: message.webLink || '',
-          };
           const inserted = await pool.query(`
             INSERT INTO public.email_messages (
               user_id, connection_id, provider, provider_message_id, provider_thread_id, mailbox, direction,
               subject, sender_email, sender_name, recipient_emails, cc_emails, sent_at, received_at,
               snippet, attachment_names, source_url, raw_metadata, updated_at
             )
-            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, now())
+            VALUES ($1, $2, 'outlook', $3, $4, 'sent', 'sent', $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, now())
             ON CONFLICT (user_id, provider, provider_message_id)
             DO UPDATE SET
               provider_thread_id = EXCLUDED.provider_thread_id,
@@ -5366,32 +6719,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
           `, [
             userId,
             connectionId,
-            messageData.provider,
-            messageData.providerMessageId,
-            messageData.providerThreadId,
-            messageData.mailbox,
-            messageData.direction,
-            messageData.subject,
-            messageData.senderEmail,
-            messageData.senderName,
-            messageData.recipientEmails,
-            messageData.ccEmails,
-            messageData.sentAt,
-            messageData.receivedAt,
-            messageData.snippet,
-            messageData.attachmentNames,
-            messageData.sourceUrl,
+            stableOutlookMessageId(message),
+            message.conversationId || null,
+            message.subject || '',
+            sender.address || '',
+            sender.name || '',
+            recipients,
+            ccRecipients,
+            message.sentDateTime ? new Date(message.sentDateTime) : null,
+            message.receivedDateTime ? new Date(message.receivedDateTime) : null,
+            '',
+            [],
+            message.webLink || '',
             JSON.stringify({
               hasAttachments: Boolean(message.hasAttachments),
-              folder: folder.mailbox,
+              folder: 'sent',
               bccRecipients,
+              captureSource: 'outlook-bcc-fallback',
               graphMessageId: message.id,
               internetMessageId: message.internetMessageId || null,
             }),
           ]);
           const emailMessageId = inserted.rows[0].id;
-          const isNewMessage = Boolean(inserted.rows[0].inserted);
-          if (isNewMessage) messagesStored += 1;
+          const isNewMessage = Boolean(inserted.rows[0]?.inserted);
+          if (isNewMessage) progress.messagesStored += 1;
+          const messageData = {
+            provider: 'outlook',
+            providerMessageId: stableOutlookMessageId(message),
+            providerThreadId: message.conversationId || null,
+            mailbox: 'sent',
+            direction: 'sent',
+            subject: message.subject || '',
+            senderEmail: sender.address || '',
+            senderName: sender.name || '',
+            recipientEmails: recipients,
+            ccEmails: ccRecipients,
+            sentAt: message.sentDateTime ? new Date(message.sentDateTime) : null,
+            receivedAt: message.receivedDateTime ? new Date(message.receivedDateTime) : null,
+            snippet: '',
+            attachmentNames: [],
+            sourceUrl: message.webLink || '',
+          };
           const processed = await processCapturedEmailMessage({
             userId,
             emailMessageId,
@@ -5399,158 +6767,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
             messageData,
             prospects,
           });
-          matchesCreated += processed.matchesCreated || 0;
-          if (processed.duplicateSuppressed) duplicatesSuppressed += 1;
-          if (processed.matchStatus === 'auto_logged') autoLogged += 1;
+          progress.matchesCreated += processed.matchesCreated || 0;
+          if (processed.duplicateSuppressed) progress.duplicatesSuppressed += 1;
+          if (processed.matchStatus === 'auto_logged') progress.autoLogged += 1;
+          if (isNewMessage && message.hasAttachments) {
+            progress.attachmentsStored += await captureFetchedEmailAttachments(
+              userId,
+              emailMessageId,
+              messageData,
+              () => fetchGraphFileAttachments(accessToken, message.id, { maxBytes: EMAIL_ATTACHMENT_MAX_BYTES }),
+            );
+          }
         }
-      }
-    }
-    await pool.query(`
-      UPDATE public.email_connections
-      SET last_synced_at = now(), status = 'connected', error_message = NULL, updated_at = now()
-      WHERE id = $1 AND user_id = $2
-    `, [connectionId, userId]);
-    return { messagesSeen, messagesStored, matchesCreated, autoLogged, duplicatesSuppressed };
-  }
-
-  async function syncOutlookBccCapturesForConnection(userId: string, connectionId: string, days: number) {
-    const accessToken = await refreshOutlookToken(connectionId, userId);
-    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
-    let messagesSeen = 0;
-    let bccCapturesSeen = 0;
-    let messagesStored = 0;
-    let matchesCreated = 0;
-    let duplicatesSuppressed = 0;
-    let autoLogged = 0;
-    const prospects = await loadEmailProspectCandidates(userId);
-
-    const maxPages = Math.min(Math.max(Number(process.env.OUTLOOK_BCC_SYNC_MAX_PAGES || 2), 1), 10);
-    const url = new URL('https://graph.microsoft.com/v1.0/me/mailFolders/sentitems/messages');
-    url.searchParams.set('$top', '50');
-    url.searchParams.set('$orderby', 'sentDateTime desc');
-    url.searchParams.set('$filter', `sentDateTime ge ${cutoff}`);
-    url.searchParams.set('$select', [
-      'id',
-      'internetMessageId',
-      'conversationId',
-      'subject',
-      'from',
-      'toRecipients',
-      'ccRecipients',
-      'bccRecipients',
-      'sentDateTime',
-      'receivedDateTime',
-      'webLink',
-      'hasAttachments',
-    ].join(','));
-    let nextUrl: string | null = url.toString();
-    for (let page = 0; nextUrl && page < maxPages; page += 1) {
-      const data = await graphGet(accessToken, nextUrl);
-      nextUrl = typeof data['@odata.nextLink'] === 'string' ? data['@odata.nextLink'] : null;
-      for (const message of data.value || []) {
-        messagesSeen += 1;
-        const bccRecipients = parseGraphRecipientEmails(message.bccRecipients);
-        const capturedByBcc = bccRecipients.some((email: string) => isConfiguredInboundAddress(email));
-        if (!capturedByBcc) continue;
-
-        bccCapturesSeen += 1;
-        const sender = message.from?.emailAddress || {};
-        const recipients = parseGraphRecipientEmails(message.toRecipients);
-        const ccRecipients = parseGraphRecipientEmails(message.ccRecipients);
-        const inserted = await pool.query(`
-          INSERT INTO public.email_messages (
-            user_id, connection_id, provider, provider_message_id, provider_thread_id, mailbox, direction,
-            subject, sender_email, sender_name, recipient_emails, cc_emails, sent_at, received_at,
-            snippet, attachment_names, source_url, raw_metadata, updated_at
-          )
-          VALUES ($1, $2, 'outlook', $3, $4, 'sent', 'sent', $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, now())
-          ON CONFLICT (user_id, provider, provider_message_id)
-          DO UPDATE SET
-            provider_thread_id = EXCLUDED.provider_thread_id,
-            mailbox = EXCLUDED.mailbox,
-            direction = EXCLUDED.direction,
-            subject = EXCLUDED.subject,
-            sender_email = EXCLUDED.sender_email,
-            sender_name = EXCLUDED.sender_name,
-            recipient_emails = EXCLUDED.recipient_emails,
-            cc_emails = EXCLUDED.cc_emails,
-            sent_at = EXCLUDED.sent_at,
-            received_at = EXCLUDED.received_at,
-            snippet = EXCLUDED.snippet,
-            source_url = EXCLUDED.source_url,
-            raw_metadata = EXCLUDED.raw_metadata,
-            updated_at = now()
-          RETURNING id, (xmax = 0) AS inserted
-        `, [
-          userId,
-          connectionId,
-          stableOutlookMessageId(message),
-          message.conversationId || null,
-          message.subject || '',
-          sender.address || '',
-          sender.name || '',
-          recipients,
-          ccRecipients,
-          message.sentDateTime ? new Date(message.sentDateTime) : null,
-          message.receivedDateTime ? new Date(message.receivedDateTime) : null,
-          '',
-          [],
-          message.webLink || '',
-          JSON.stringify({
-            hasAttachments: Boolean(message.hasAttachments),
-            folder: 'sent',
-            bccRecipients,
-            captureSource: 'outlook-bcc-fallback',
-            graphMessageId: message.id,
-            internetMessageId: message.internetMessageId || null,
-          }),
-        ]);
-        const emailMessageId = inserted.rows[0].id;
-        const isNewMessage = Boolean(inserted.rows[0]?.inserted);
-        if (isNewMessage) messagesStored += 1;
-        const messageData = {
-          provider: 'outlook',
-          providerMessageId: stableOutlookMessageId(message),
-          providerThreadId: message.conversationId || null,
-          mailbox: 'sent',
-          direction: 'sent',
-          subject: message.subject || '',
-          senderEmail: sender.address || '',
-          senderName: sender.name || '',
-          recipientEmails: recipients,
-          ccEmails: ccRecipients,
-          sentAt: message.sentDateTime ? new Date(message.sentDateTime) : null,
-          receivedAt: message.receivedDateTime ? new Date(message.receivedDateTime) : null,
-          snippet: '',
-          attachmentNames: [],
-          sourceUrl: message.webLink || '',
-        };
-        const processed = await processCapturedEmailMessage({
-          userId,
-          emailMessageId,
-          isNewMessage,
-          messageData,
-          prospects,
-        });
-        matchesCreated += processed.matchesCreated || 0;
-        if (processed.duplicateSuppressed) duplicatesSuppressed += 1;
-        if (processed.matchStatus === 'auto_logged') autoLogged += 1;
-      }
-    }
-
-    await pool.query(`
-      UPDATE public.email_connections
-      SET last_synced_at = now(), status = 'connected', error_message = NULL, updated_at = now()
-      WHERE id = $1 AND user_id = $2
-    `, [connectionId, userId]);
-    return {
-      messagesSeen,
-      bccCapturesSeen,
-      messagesStored,
-      matchesCreated,
-      autoLogged,
-      duplicatesSuppressed,
-    };
+        progress.pagesFetched += 1;
+        await recordEmailSyncRunProgress(options.runId, userId, progress);
+      },
+    });
+    await saveOutlookFolderCursor({ pool, userId, connectionId, key: cursorKey, cursor: delta.cursor });
+    progress.messagesRemoved = delta.removed;
+    progress.mode = delta.mode;
+    progress.cursorReset = options.reset || delta.mode === 'resync';
+    progress.complete = delta.complete;
+    return { ...progress, bccCapturesSeen };
   }
 
   app.post('/api/email/outlook/sync-bcc', requireAuth, async (req, res) => {
@@ -5558,6 +6796,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (isDemo(req)) return res.status(400).json({ message: 'Email sync is disabled in demo mode' });
       const userId = getUserId(req);
       const days = Math.min(Math.max(Number(req.body?.days || 14), 1), 30);
+      const reset = req.body?.reset === true;
       const connectionResult = await pool.query(`
         SELECT id FROM public.email_connections
         WHERE user_id = $1 AND provider = 'outlook' AND status = 'connected'
@@ -5566,7 +6805,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       `, [userId]);
       const connectionId = connectionResult.rows[0]?.id;
       if (!connectionId) return res.status(400).json({ message: 'Connect Outlook before syncing BCC captures' });
-      const result = await syncOutlookBccCapturesForConnection(userId, connectionId, days);
+      const result = await runEmailSync(userId, { id: connectionId, provider: 'outlook' }, 'bcc', (runId) => (
+        syncOutlookBccCapturesForConnection(userId, connectionId, { runId, days, reset })
+      ));
       res.json(result);
     } catch (error: any) {
       console.error('Error syncing Outlook BCC captures:', error);
@@ -5579,47 +6820,158 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (isDemo(req)) return res.status(400).json({ message: 'Email sync is disabled in demo mode' });
       const userId = getUserId(req);
       const days = Math.min(Math.max(Number(req.body?.days || 90), 1), 365);
+      const reset = req.body?.reset === true;
       const connectionResult = await pool.query(`
-        SELECT id FROM public.email_connections
+        SELECT id, provider FROM public.email_connections
         WHERE user_id = $1 AND provider = 'outlook' AND status = 'connected'
         ORDER BY created_at DESC
         LIMIT 1
       `, [userId]);
-      const connectionId = connectionResult.rows[0]?.id;
-      if (!connectionId) return res.status(400).json({ message: 'Connect Outlook before syncing email' });
-      const run = await pool.query(`
-        INSERT INTO public.email_sync_runs (user_id, connection_id, provider, status, started_at)
-        VALUES ($1, $2, 'outlook', 'running', now())
-        RETURNING id
-      `, [userId, connectionId]);
-      const runId = run.rows[0].id;
-      try {
-        const result = await syncOutlookMessagesForConnection(userId, connectionId, days);
-        await pool.query(`
-          UPDATE public.email_sync_runs
-          SET status = 'completed', completed_at = now(), messages_seen = $3, messages_stored = $4, matches_created = $5
-          WHERE id = $1 AND user_id = $2
-        `, [runId, userId, result.messagesSeen, result.messagesStored, result.matchesCreated]);
-        res.json({ runId, ...result });
-      } catch (error: any) {
-        await pool.query(`
-          UPDATE public.email_sync_runs
-          SET status = 'failed', completed_at = now(), error_message = $3
-          WHERE id = $1 AND user_id = $2
-        `, [runId, userId, error?.message || String(error)]);
-        await pool.query(`
-          UPDATE public.email_connections
-          SET status = 'error', error_message = $3, updated_at = now()
-          WHERE id = $1 AND user_id = $2
-        `, [connectionId, userId, error?.message || String(error)]);
-        throw error;
-      }
+      const connection = connectionResult.rows[0];
+      if (!connection) return res.status(400).json({ message: 'Connect Outlook before syncing email' });
+      const result = await runEmailSync(userId, connection, 'mailbox', (runId) => (
+        syncEmailConnectionMailbox(userId, connection, { runId, days, reset })
+      ));
+      res.json(result);
     } catch (error) {
       console.error('Error syncing Outlook email:', error);
       res.status(500).json({ message: 'Failed to sync Outlook email' });
     }
   });
 
+  app.post('/api/email/outlook/sync-calendar', requireAuth, async (req, res) => {
+    try {
+      if (isDemo(req)) return res.status(400).json({ message: 'Calendar sync is disabled in demo mode' });
+      const userId = getUserId(req);
+      const days = Math.min(Math.max(Number(req.body?.days || 14), 1), 60);
+      const connectionResult = await pool.query(`
+        SELECT id, email_address, scopes FROM public.email_connections
+        WHERE user_id = $1 AND provider = 'outlook' AND status = 'connected'
+        ORDER BY created_at DESC
+        LIMIT 1
+      `, [userId]);
+      const connection = connectionResult.rows[0];
+      if (!connection) return res.status(400).json({ message: 'Connect Outlook before syncing your calendar' });
+      if (!(connection.scopes || []).includes(OUTLOOK_CALENDAR_SCOPE)) {
+        return res.status(400).json({ message: 'Reconnect Outlook to allow calendar access' });
+      }
+      const maxPages = Math.min(Math.max(Number(process.env.OUTLOOK_CALENDAR_SYNC_MAX_PAGES || 5), 1), 20);
+      const result = await runEmailSync(userId, { id: connection.id, provider: 'outlook' }, 'calendar', async () => {
+        const accessToken = await refreshEmailAccessToken(connection.id, userId, 'outlook');
+        const summary = await captureOutlookCalendarMeetings({
+          pool,
+          userId,
+          accessToken,
+          mailboxEmail: connection.email_address,
+          candidates: await loadEmailProspectCandidates(userId),
+          days,
+          maxPages,
+        });
+        return {
+          ...emptyEmailSyncProgress(),
+          ...summary,
+          mode: 'full' as const,
+          messagesSeen: summary.eventsSeen,
+          messagesStored: summary.meetingsStaged,
+          matchesCreated: summary.suggestedMatches,
+        };
+      });
+      res.json(result);
+    } catch (error: any) {
+      console.error('Error syncing Outlook calendar:', error);
+      res.status(500).json({ message: error?.message || 'Failed to sync Outlook calendar' });
+    }
+  });
+
+  app.get('/api/email/connections', requireAuth, async (req, res) => {
+    try {
+      const gmailConfig = getGmailConfig(req);
+      const providers = {
+        outlook: { configured: getOutlookConfig(req).configured },
+        gmail: { configured: gmailConfig.configured, redirectUri: gmailConfig.redirectUri },
+        imap: { configured: true },
+      };
+      if (isDemo(req)) return res.json({ providers, connections: [], reason: 'demo_mode' });
+      const { rows } = await pool.query(`
+        SELECT c.id, c.provider, c.email_address, c.display_name, c.status, c.last_synced_at, c.error_message,
+               run.status AS last_run_status, run.sync_mode AS last_run_mode, run.messages_stored AS last_run_stored
+        FROM public.email_connections c
+        LEFT JOIN LATERAL (
+          SELECT status, sync_mode, messages_stored
+          FROM public.email_sync_runs
+          WHERE connection_id = c.id AND scope = 'mailbox'
+          ORDER BY started_at DESC
+          LIMIT 1
+        ) run ON true
+        WHERE c.user_id = $1 AND c.provider = ANY($2::varchar[]) AND c.status <> 'disabled'
+        ORDER BY c.created_at ASC
+      `, [getUserId(req), EMAIL_SYNC_PROVIDERS]);
+      res.json({
+        providers,
+        connections: rows.map((row) => ({
+          id: row.id,
+          provider: row.provider,
+          emailAddress: row.email_address,
+          displayName: row.display_name,
+          status: row.status,
+          lastSyncedAt: row.last_synced_at ? new Date(row.last_synced_at).toISOString() : null,
+          errorMessage: row.error_message || null,
+          lastRun: row.last_run_status ? {
+            status: row.last_run_status,
+            mode: row.last_run_mode,
+            messagesStored: Number(row.last_run_stored || 0),
+          } : null,
+        })),
+      });
+    } catch (error) {
+      console.error('Error listing email connections:', error);
+      res.status(500).json({ message: 'Failed to list email connections' });
+    }
+  });
+
+  app.post('/api/email/connections/:id/sync', requireAuth, async (req, res) => {
+    try {
+      if (isDemo(req)) return res.status(400).json({ message: 'Email sync is disabled in demo mode' });
+      const userId = getUserId(req);
+      const days = Math.min(Math.max(Number(req.body?.days || 90), 1), 365);
+      const reset = req.body?.reset === true;
+      const { rows } = await pool.query(`
+        SELECT id, provider, token_ciphertext FROM public.email_connections
+        WHERE id = $1 AND user_id = $2 AND status <> 'disabled'
+      `, [req.params.id, userId]);
+      const connection = rows[0];
+      if (!connection) return res.status(404).json({ message: 'Email connection not found' });
+      if (!isEmailSyncProvider(connection.provider)) {
+        return res.status(400).json({ message: `Unsupported email provider: ${connection.provider}` });
+      }
+      const result = await runEmailSync(userId, connection, 'mailbox', (runId) => (
+        syncEmailConnectionMailbox(userId, connection, { runId, days, reset })
+      ));
+      res.json(result);
+    } catch (error: any) {
+      console.error('Error syncing email connection:', error);
+      res.status(500).json({ message: error?.message || 'Failed to sync email connection' });
+    }
+  });
+
+  // Disconnecting drops the stored token but keeps the captured messages and
+  // the review history they fed.
+  app.delete('/api/email/connections/:id', requireAuth, async (req, res) => {
+    try {
+      if (isDemo(req)) return res.status(400).json({ message: 'Email connection is disabled in demo mode' });
+      const { rowCount } = await pool.query(`
+        UPDATE public.email_connections
+        SET status = 'disabled', token_ciphertext = NULL, token_expires_at = NULL, updated_at = now()
+        WHERE id = $1 AND user_id = $2
+      `, [req.params.id, getUserId(req)]);
+      if (!rowCount) return res.status(404).json({ message: 'Email connection not found' });
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error disconnecting email connection:', error);
+      res.status(500).json({ message: 'Failed to disconnect email connection' });
+    }
+  });
+
   app.get('/api/email/inbound/config', requireAuth, async (req, res) => {
     try {
       const userId = getUserId(req);
@@ -5676,7 +7028,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         authMode: authorizedBySecret ? 'secret' : 'recipient',
       } as any;
       const result = await storeInboundEmailForReview(userId, messageData);
-      res.json({ ok: true, provider: 'inbound', ...result });
+      const attachments = await captureEmailMessageAttachments(
+        userId,
+        result.emailMessageId,
+        messageData,
+        parseInboundAttachments(payload),
+      );
+      res.json({ ok: true, provider: 'inbound', ...result, attachments });
     } catch (error) {
       console.error('Error processing inbound email webhook:', error);
       res.status(500).json({ message: 'Failed to process inbound email' });
@@ -5844,7 +7202,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             reviewed_by_user_id = CASE WHEN $3 IS NULL THEN reviewed_by_user_id ELSE $2 END,
             updated_at = now()
           WHERE id = $1 AND user_id = $2
-          RETURNING id
+          RETURNING id, email_message_id
         `, [
           req.params.id,
           userId,
@@ -5865,6 +7223,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         client.release();
       }
       if (result.rowCount === 0) return res.status(404).json({ message: 'Email match not found' });
+      if (Object.prototype.hasOwnProperty.call(update, 'prospectId')) {
+        await industrialIntelService
+          .linkEmailAttachmentsToProspect(userId, result.rows[0].email_message_id, update.prospectId || null)
+          .catch((error: any) => console.error('Failed to relink email attachments:', error?.message || error));
+      }
       res.json({ id: req.params.id });
     } catch (error) {
       if (sendProspectReferenceError(res, error)) return;
@@ -20,6 +20,7 @@ import { randomUUID } from "crypto";
 import { XP_VALUES, actionForInteractionType, inferInteractionTypeFromNote, xpForInteractionType } from "./lib/gamification";
 import { ProspectReferenceError } from "./lib/prospectReferenceService";
 import { buildLeaderboardIdentities } from "./lib/leaderboardIdentity";
+import { normalizeCompEconomics, type CompEconomicsSource, type CompEconomicsStatus } from "./lib/compEconomics";
 
 type ProspectCreateInput = Omit<
   InsertProspect,
@@ -65,6 +66,79 @@ type ProspectUpdateInput = Omit<
   marketContextStatus?: string | null;
 };
 
+function numericOrNull(value: string | null): number | null {
+  if (value === null) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function numericText(value: number | null): string | null {
+  return value === null ? null : String(value);
+}
+
+// Comp economics are re-parsed from the text fields on every write, so the numeric
+// columns never drift from what the broker typed.
+function marketCompEconomicsColumns(comp: CompEconomicsSource) {
+  const economics = normalizeCompEconomics(comp);
+  return {
+    buildingSizeSf: numericText(economics.buildingSizeSf),
+    landSizeAcres: numericText(economics.landSizeAcres),
+    ratePsf: numericText(economics.ratePsf),
+    priceAmount: numericText(economics.priceAmount),
+    pricePerSfAmount: numericText(economics.pricePerSfAmount),
+    pricePerAcreAmount: numericText(economics.pricePerAcreAmount),
+    compDate: economics.compDate,
+    netEffectiveRatePsf: numericText(economics.netEffectiveRatePsf),
+    economicsStatus: economics.economicsStatus,
+    economicsIssues: economics.economicsIssues,
+  };
+}
+
+function toMarketComp(result: typeof marketComps.$inferSelect): MarketComp {
+  return {
+    id: result.id,
+    userId: result.userId,
+    address: result.address,
+    submarket: result.submarket || undefined,
+    assetType: result.assetType as any,
+    buildingSize: result.buildingSize || undefined,
+    landSize: result.landSize || undefined,
+    sourceLink: result.sourceLink || undefined,
+    notes: result.notes || undefined,
+    dealType: result.dealType as any,
+    tenant: result.tenant || undefined,
+    termMonths: result.termMonths || undefined,
+    rate: result.rate || undefined,
+    rateType: result.rateType as any || undefined,
+    commencement: result.commencement || undefined,
+    concessions: result.concessions || undefined,
+    escalationKind: result.escalationKind as any || null,
+    escalationAmount: numericOrNull(result.escalationAmount),
+    freeRentMonths: numericOrNull(result.freeRentMonths),
+    tiAllowancePsf: numericOrNull(result.tiAllowancePsf),
+    additionalRentPsf: numericOrNull(result.additionalRentPsf),
+    commissionPct: numericOrNull(result.commissionPct),
+    saleDate: result.saleDate || undefined,
+    buyer: result.buyer || undefined,
+    seller: result.seller || undefined,
+    price: result.price || undefined,
+    pricePerSf: result.pricePerSf || undefined,
+    pricePerAcre: result.pricePerAcre || undefined,
+    buildingSizeSf: numericOrNull(result.buildingSizeSf),
+    landSizeAcres: numericOrNull(result.landSizeAcres),
+    ratePsf: numericOrNull(result.ratePsf),
+    priceAmount: numericOrNull(result.priceAmount),
+    pricePerSfAmount: numericOrNull(result.pricePerSfAmount),
+    pricePerAcreAmount: numericOrNull(result.pricePerAcreAmount),
+    compDate: result.compDate,
+    netEffectiveRatePsf: numericOrNull(result.netEffectiveRatePsf),
+    economicsStatus: result.economicsStatus as CompEconomicsStatus,
+    economicsIssues: result.economicsIssues || [],
+    createdAt: result.createdAt?.toISOString(),
+    updatedAt: result.updatedAt?.toISOString(),
+  };
+}
+
 // Updated interface with user-specific CRUD methods
 export interface IStorage {
   // Listings (workspace)
@@ -575,62 +649,12 @@ export class DatabaseStorage implements IStorage {
   async getMarketComp(id: string, userId: string): Promise<MarketComp | undefined> {
     const [result] = await db.select().from(marketComps).where(and(eq(marketComps.id, id), eq(marketComps.userId, userId)));
     if (!result) return undefined;
-    return {
-      id: result.id,
-      userId: result.userId,
-      address: result.address,
-      submarket: result.submarket || undefined,
-      assetType: result.assetType as any,
-      buildingSize: result.buildingSize || undefined,
-      landSize: result.landSize || undefined,
-      sourceLink: result.sourceLink || undefined,
-      notes: result.notes || undefined,
-      dealType: result.dealType as any,
-      tenant: result.tenant || undefined,
-      termMonths: result.termMonths || undefined,
-      rate: result.rate || undefined,
-      rateType: result.rateType as any || undefined,
-      commencement: result.commencement || undefined,
-      concessions: result.concessions || undefined,
-      saleDate: result.saleDate || undefined,
-      buyer: result.buyer || undefined,
-      seller: result.seller || undefined,
-      price: result.price || undefined,
-      pricePerSf: result.pricePerSf || undefined,
-      pricePerAcre: result.pricePerAcre || undefined,
-      createdAt: result.createdAt?.toISOString(),
-      updatedAt: result.updatedAt?.toISOString(),
-    };
+    return toMarketComp(result);
   }
 
   async getAllMarketComps(userId: string): Promise<MarketComp[]> {
     const results = await db.select().from(marketComps).where(eq(marketComps.userId, userId));
-    return results.map(result => ({
-      id: result.id,
-      userId: result.userId,
-      address: result.address,
-      submarket: result.submarket || undefined,
-      assetType: result.assetType as any,
-      buildingSize: result.buildingSize || undefined,
-      landSize: result.landSize || undefined,
-      sourceLink: result.sourceLink || undefined,
-      notes: result.notes || undefined,
-      dealType: result.dealType as any,
-      tenant: result.tenant || undefined,
-      termMonths: result.termMonths || undefined,
-      rate: result.rate || undefined,
-      rateType: result.rateType as any || undefined,
-      commencement: result.commencement || undefined,
-      concessions: result.concessions || undefined,
-      saleDate: result.saleDate || undefined,
-      buyer: result.buyer || undefined,
-      seller: result.seller || undefined,
-      price: result.price || undefined,
-      pricePerSf: result.pricePerSf || undefined,
-      pricePerAcre: result.pricePerAcre || undefined,
-      createdAt: result.createdAt?.toISOString(),
-      updatedAt: result.updatedAt?.toISOString(),
-    }));
+    return results.map(toMarketComp);
   }
 
   async createMarketComp(insertComp: InsertMarketComp & { userId: string }): Promise<MarketComp> {
@@ -650,12 +674,19 @@ export class DatabaseStorage implements IStorage {
       rateType: insertComp.rateType,
       commencement: insertComp.commencement,
       concessions: insertComp.concessions,
+      escalationKind: insertComp.escalationKind ?? null,
+      escalationAmount: numericText(insertComp.escalationAmount ?? null),
+      freeRentMonths: numericText(insertComp.freeRentMonths ?? null),
+      tiAllowancePsf: numericText(insertComp.tiAllowancePsf ?? null),
+      additionalRentPsf: numericText(insertComp.additionalRentPsf ?? null),
+      commissionPct: numericText(insertComp.commissionPct ?? null),
       saleDate: insertComp.saleDate,
       buyer: insertComp.buyer,
       seller: insertComp.seller,
       price: insertComp.price,
       pricePerSf: insertComp.pricePerSf,
       pricePerAcre: insertComp.pricePerAcre,
+      ...marketCompEconomicsColumns(insertComp),
     }).returning();
 
     // Award XP for market knowledge
@@ -668,35 +699,12 @@ export class DatabaseStorage implements IStorage {
       multiplier: 1,
     });
 
-    return {
-      id: result.id,
-      userId: result.userId,
-      address: result.address,
-      submarket: result.submarket || undefined,
-      assetType: result.assetType as any,
-      buildingSize: result.buildingSize || undefined,
-      landSize: result.landSize || undefined,
-      sourceLink: result.sourceLink || undefined,
-      notes: result.notes || undefined,
-      dealType: result.dealType as any,
-      tenant: result.tenant || undefined,
-      termMonths: result.termMonths || undefined,
-      rate: result.rate || undefined,
-      rateType: result.rateType as any || undefined,
-      commencement: result.commencement || undefined,
-      concessions: result.concessions || undefined,
-      saleDate: result.saleDate || undefined,
-      buyer: result.buyer || undefined,
-      seller: result.seller || undefined,
-      price: result.price || undefined,
-      pricePerSf: result.pricePerSf || undefined,
-      pricePerAcre: result.pricePerAcre || undefined,
-      createdAt: result.createdAt?.toISOString(),
-      updatedAt: result.updatedAt?.toISOString(),
-    };
+    return toMarketComp(result);
   }
 
   async updateMarketComp(id: string, userId: string, updates: Partial<MarketComp>): Promise<MarketComp | undefined> {
+    const existing = await this.getMarketComp(id, userId);
+    if (!existing) return undefined;
     const [result] = await db.update(marketComps)
       .set({
         ...(updates.address !== undefined && { address: updates.address }),
@@ -713,44 +721,26 @@ export class DatabaseStorage implements IStorage {
         ...(updates.rateType !== undefined && { rateType: updates.rateType }),
         ...(updates.commencement !== undefined && { commencement: updates.commencement }),
         ...(updates.concessions !== undefined && { concessions: updates.concessions }),
+        ...(updates.escalationKind !== undefined && { escalationKind: updates.escalationKind }),
+        ...(updates.escalationAmount !== undefined && { escalationAmount: numericText(updates.escalationAmount) }),
+        ...(updates.freeRentMonths !== undefined && { freeRentMonths: numericText(updates.freeRentMonths) }),
+        ...(updates.tiAllowancePsf !== undefined && { tiAllowancePsf: numericText(updates.tiAllowancePsf) }),
+        ...(updates.additionalRentPsf !== undefined && { additionalRentPsf: numericText(updates.additionalRentPsf) }),
+        ...(updates.commissionPct !== undefined && { commissionPct: numericText(updates.commissionPct) }),
         ...(updates.saleDate !== undefined && { saleDate: updates.saleDate }),
         ...(updates.buyer !== undefined && { buyer: updates.buyer }),
         ...(updates.seller !== undefined && { seller: updates.seller }),
         ...(updates.price !== undefined && { price: updates.price }),
         ...(updates.pricePerSf !== undefined && { pricePerSf: updates.pricePerSf }),
         ...(updates.pricePerAcre !== undefined && { pricePerAcre: updates.pricePerAcre }),
+        ...marketCompEconomicsColumns({ ...existing, ...updates }),
         updatedAt: new Date(),
       })
       .where(and(eq(marketComps.id, id), eq(marketComps.userId, userId)))
       .returning();
 
     if (!result) return undefined;
-    return {
-      id: result.id,
-      userId: result.userId,
-      address: result.address,
-      submarket: result.submarket || undefined,
-      assetType: result.assetType as any,
-      buildingSize: result.buildingSize || undefined,
-      landSize: result.landSize || undefined,
-      sourceLink: result.sourceLink || undefined,
-      notes: result.notes || undefined,
-      dealType: result.dealType as any,
-      tenant: result.tenant || undefined,
-      termMonths: result.termMonths || undefined,
-      rate: result.rate || undefined,
-      rateType: result.rateType as any || undefined,
-      commencement: result.commencement || undefined,
-      concessions: result.concessions || undefined,
-      saleDate: result.saleDate || undefined,
-      buyer: result.buyer || undefined,
-      seller: result.seller || undefined,
-      price: result.price || undefined,
-      pricePerSf: result.pricePerSf || undefined,
-      pricePerAcre: result.pricePerAcre || undefined,
-      createdAt: result.createdAt?.toISOString(),
-      updatedAt: result.updatedAt?.toISOString(),
-    };
+    return toMarketComp(result);
   }
 
   async deleteMarketComp(id: string, userId: string): Promise<boolean> {
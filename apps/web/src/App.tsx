@@ -41,6 +41,11 @@ const Leaderboard = lazy(() => import("./pages/leaderboard"));
 const Badges = lazy(() => import("./pages/badges"));
 const TrackRecord = lazy(() => import("./pages/track-record"));
 const PublicPursuit = lazy(() => import("./pages/public-pursuit"));
+const Contacts = lazy(() => import("./pages/contacts"));
+const ContactDetail = lazy(() => import("./pages/contact-detail"));
+const BovWorksheets = lazy(() => import("./pages/bov-worksheets"));
+const BovWorksheet = lazy(() => import("./pages/bov-worksheet"));
+const BovWorksheetPrint = lazy(() => import("./pages/bov-worksheet-print"));
 import { useAuth } from "@/contexts/AuthContext";
 import { useEffect } from "react";
 import { useLocation, useRoute } from "wouter";
@@ -317,6 +322,62 @@ function Router() {
         </ProtectedRoute>
       </Route>
 
+      <Route path="/app/contacts">
+        <ProtectedRoute>
+          <OnboardingCheck>
+            <AppLayout>
+              <Suspense fallback={<Spinner />}>
+                <Contacts />
+              </Suspense>
+            </AppLayout>
+          </OnboardingCheck>
+        </ProtectedRoute>
+      </Route>
+
+      <Route path="/app/contacts/:id">
+        <ProtectedRoute>
+          <OnboardingCheck>
+            <AppLayout>
+              <Suspense fallback={<Spinner />}>
+                <ContactDetail />
+              </Suspense>
+            </AppLayout>
+          </OnboardingCheck>
+        </ProtectedRoute>
+      </Route>
+
+      <Route path="/app/bov">
+        <ProtectedRoute>
+          <OnboardingCheck>
+            <AppLayout>
+              <Suspense fallback={<Spinner />}>
+                <BovWorksheets />
+              </Suspense>
+            </AppLayout>
+          </OnboardingCheck>
+        </ProtectedRoute>
+      </Route>
+
+      <Route path="/app/bov/:id/print">
+        <ProtectedRoute>
+          <Suspense fallback={<Spinner />}>
+            <BovWorksheetPrint />
+          </Suspense>
+        </ProtectedRoute>
+      </Route>
+
+      <Route path="/app/bov/:id">
+        <ProtectedRoute>
+          <OnboardingCheck>
+            <AppLayout>
+              <Suspense fallback={<Spinner />}>
+                <BovWorksheet />
+              </Suspense>
+            </AppLayout>
+          </OnboardingCheck>
+        </ProtectedRoute>
+      </Route>
+
       <Route path="/app/workspaces">
         <ProtectedRoute>
           <OnboardingCheck>
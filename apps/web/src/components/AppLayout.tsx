@@ -4,6 +4,7 @@ import {
   Activity,
   BarChart3,
   Bot,
+  Calculator,
   ChartSpline,
   ChevronDown,
   ClipboardList,
@@ -16,6 +17,7 @@ import {
   Target,
   Trophy,
   User,
+  Users,
   type LucideIcon,
 } from 'lucide-react'
 
@@ -71,6 +73,8 @@ export function AppLayout({ children }: AppLayoutProps) {
 
   const secondaryNav = [
     { label: 'Requirements', href: '/app/requirements', icon: ClipboardList },
+    { label: 'Contacts', href: '/app/contacts', icon: Users },
+    { label: 'BOV worksheets', href: '/app/bov', icon: Calculator },
     { label: 'Market memory', href: '/app/knowledge', icon: Database },
   ]
 
@@ -0,0 +1,214 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { AlertTriangle, TrendingUp } from 'lucide-react'
+import { Area, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from 'recharts'
+
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  compAnalyticsUrl,
+  compChartPoints,
+  formatPsf,
+  type CompAnalyticsFilters,
+  type CompAnalyticsResponse,
+  type CompSeries,
+} from '@/lib/compAnalyticsChart'
+
+const ANY = 'any'
+
+const GROUP_LABELS: Record<CompAnalyticsFilters['groupBy'], string> = {
+  all: 'All comps',
+  submarket: 'Submarket',
+  assetType: 'Asset type',
+  sizeBand: 'Size band',
+}
+
+const chartConfig: ChartConfig = {
+  median: { label: 'Median', color: 'hsl(221 83% 53%)' },
+  quartiles: { label: 'P25-P75', color: 'hsl(221 83% 53%)' },
+}
+
+function CompTrendChart({ title, series, emptyLabel }: { title: string; series: CompSeries[]; emptyLabel: string }) {
+  const [selectedGroup, setSelectedGroup] = useState<string | null>(null)
+  const active = series.find((item) => item.group === selectedGroup) || series[0]
+  const points = compChartPoints(active)
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-base">{title}</CardTitle>
+          {series.length > 1 && (
+            <Select value={active?.group} onValueChange={setSelectedGroup}>
+              <SelectTrigger className="h-8 w-[200px] text-xs"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {series.map((item) => (
+                  <SelectItem key={item.group} value={item.group}>{item.group} ({item.overall.count})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!active ? (
+          <p className="py-8 text-center text-sm text-gray-500">{emptyLabel}</p>
+        ) : (
+          <>
+            <ChartContainer config={chartConfig} className="aspect-auto h-[220px] w-full">
+              <ComposedChart data={points} margin={{ left: 4, right: 12, top: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="period" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={(value: number) => `$${value}`} />
+                <ChartTooltip
+                  content={(
+                    <ChartTooltipContent
+                      formatter={(value, name, item) => (
+                        name === 'quartiles' && Array.isArray(value)
+                          ? `P25-P75 ${formatPsf(Number(value[0]))} - ${formatPsf(Number(value[1]))}`
+                          : `Median ${formatPsf(Number(value))} · ${item.payload.count} comp${item.payload.count === 1 ? '' : 's'}`
+                      )}
+                    />
+                  )}
+                />
+                <Area dataKey="quartiles" type="monotone" stroke="none" fill="var(--color-quartiles)" fillOpacity={0.15} />
+                <Line dataKey="median" type="monotone" stroke="var(--color-median)" strokeWidth={2} dot={{ r: 3 }} />
+              </ComposedChart>
+            </ChartContainer>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead className="text-left text-gray-500">
+                  <tr>
+                    <th className="py-1 pr-2 font-medium">Group</th>
+                    <th className="py-1 pr-2 text-right font-medium">Comps</th>
+                    <th className="py-1 pr-2 text-right font-medium">P25</th>
+                    <th className="py-1 pr-2 text-right font-medium">Median</th>
+                    <th className="py-1 text-right font-medium">P75</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 tabular-nums text-gray-800">
+                  {series.map((item) => (
+                    <tr key={item.group} className={item.group === active.group ? 'font-semibold' : undefined}>
+                      <td className="py-1 pr-2">{item.group}</td>
+                      <td className="py-1 pr-2 text-right">{item.overall.count}</td>
+                      <td className="py-1 pr-2 text-right">{formatPsf(item.overall.p25)}</td>
+                      <td className="py-1 pr-2 text-right">{formatPsf(item.overall.median)}</td>
+                      <td className="py-1 text-right">{formatPsf(item.overall.p75)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function CompAnalyticsPanel() {
+  const [filters, setFilters] = useState<CompAnalyticsFilters>({ groupBy: 'all', interval: 'quarter' })
+  const url = useMemo(() => compAnalyticsUrl(filters), [filters])
+  const { data, isLoading } = useQuery<CompAnalyticsResponse>({ queryKey: [url] })
+  const flagged = data?.excluded.unparseable || 0
+
+  // A filter value can disappear once the comps behind it are edited or deleted.
+  useEffect(() => {
+    if (!data) return
+    setFilters((current) => {
+      const stale = (current.submarket && !data.filters.submarkets.includes(current.submarket))
+        || (current.assetType && !data.filters.assetTypes.includes(current.assetType))
+        || (current.sizeBand && !data.filters.sizeBands.includes(current.sizeBand))
+      if (!stale) return current
+      return {
+        ...current,
+        submarket: current.submarket && data.filters.submarkets.includes(current.submarket) ? current.submarket : undefined,
+        assetType: current.assetType && data.filters.assetTypes.includes(current.assetType) ? current.assetType : undefined,
+        sizeBand: current.sizeBand && data.filters.sizeBands.includes(current.sizeBand) ? current.sizeBand : undefined,
+      }
+    })
+  }, [data])
+
+  const filterSelect = (key: 'submarket' | 'assetType' | 'sizeBand', label: string, options: string[]) => (
+    <Select value={filters[key] || ANY} onValueChange={(value) => setFilters((current) => ({ ...current, [key]: value === ANY ? undefined : value }))}>
+      <SelectTrigger className="h-9 text-xs" aria-label={`Filter by ${label.toLowerCase()}`}><SelectValue /></SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>Any {label.toLowerCase()}</SelectItem>
+        {options.map((option) => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <section className="mb-8 space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 className="flex items-center gap-2 text-xl font-semibold text-gray-900 dark:text-white"><TrendingUp className="h-5 w-5 text-blue-600" />Comp analytics</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-300">Median and interquartile net rent and sale $/SF over time.</p>
+        </div>
+        {flagged > 0 && (
+          <Badge variant="outline" className="gap-1 border-amber-300 bg-amber-50 text-amber-800">
+            <AlertTriangle className="h-3.5 w-3.5" />
+            {flagged} comp{flagged === 1 ? '' : 's'} with unreadable economics left out
+          </Badge>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 md:grid-cols-5">
+        <Select value={filters.groupBy} onValueChange={(value) => setFilters((current) => ({ ...current, groupBy: value as CompAnalyticsFilters['groupBy'] }))}>
+          <SelectTrigger className="h-9 text-xs" aria-label="Group comps by"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {Object.entries(GROUP_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{value === 'all' ? label : `By ${label.toLowerCase()}`}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.interval} onValueChange={(value) => setFilters((current) => ({ ...current, interval: value as CompAnalyticsFilters['interval'] }))}>
+          <SelectTrigger className="h-9 text-xs" aria-label="Time interval"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="quarter">Quarterly</SelectItem>
+            <SelectItem value="year">Yearly</SelectItem>
+          </SelectContent>
+        </Select>
+        {filterSelect('submarket', 'Submarket', data?.filters.submarkets || [])}
+        {filterSelect('assetType', 'Asset type', data?.filters.assetTypes || [])}
+        {filterSelect('sizeBand', 'Size band', data?.filters.sizeBands || [])}
+      </div>
+
+      {isLoading ? (
+        <div className="py-8 text-center text-sm text-gray-500">Loading comp analytics...</div>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+          <CompTrendChart
+            key={`rent-${url}`}
+            title="Net rent ($/SF/yr)"
+            series={data?.netRent || []}
+            emptyLabel="No dated net lease comps match these filters."
+          />
+          <CompTrendChart
+            key={`sale-${url}`}
+            title="Sale price ($/SF)"
+            series={data?.salePricePerSf || []}
+            emptyLabel="No dated building sale comps match these filters."
+          />
+        </div>
+      )}
+      {data && (data.excluded.undated > 0 || data.excluded.grossRent > 0) && (
+        <p className="text-xs text-gray-500">
+          {[
+            data.excluded.undated ? `${data.excluded.undated} undated comp${data.excluded.undated === 1 ? '' : 's'}` : null,
+            data.excluded.grossRent ? `${data.excluded.grossRent} gross lease${data.excluded.grossRent === 1 ? '' : 's'}` : null,
+          ].filter(Boolean).join(' and ')} not charted.
+        </p>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,236 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { RefreshCcw, Unplug } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useToast } from '@/hooks/use-toast'
+import { apiRequest } from '@/lib/queryClient'
+
+type EmailProvider = 'outlook' | 'gmail' | 'imap'
+
+type EmailConnection = {
+  id: string
+  provider: EmailProvider
+  emailAddress: string | null
+  displayName: string | null
+  status: string
+  lastSyncedAt: string | null
+  errorMessage: string | null
+  lastRun: null | { status: string; mode: string | null; messagesStored: number }
+}
+
+type EmailConnectionsResponse = {
+  providers: Record<EmailProvider, { configured: boolean; redirectUri?: string }>
+  connections: EmailConnection[]
+}
+
+type ImapForm = {
+  host: string
+  port: '993' | '143'
+  username: string
+  password: string
+  sentFolder: string
+}
+
+const EMAIL_CONNECTIONS_KEY = ['/api/email/connections']
+const PROVIDER_LABELS: Record<EmailProvider, string> = { outlook: 'Outlook', gmail: 'Gmail', imap: 'IMAP' }
+const EMPTY_IMAP_FORM: ImapForm = { host: '', port: '993', username: '', password: '', sentFolder: '' }
+
+function describeSync(connection: EmailConnection) {
+  if (!connection.lastSyncedAt) return 'Not synced yet'
+  const synced = new Date(connection.lastSyncedAt).toLocaleString()
+  return connection.lastRun ? `Synced ${synced} · ${connection.lastRun.messagesStored} new` : `Synced ${synced}`
+}
+
+export function EmailConnectionsPanel() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const connectionsQuery = useQuery<EmailConnectionsResponse>({ queryKey: EMAIL_CONNECTIONS_KEY })
+  const [showImapForm, setShowImapForm] = useState(false)
+  const [imapForm, setImapForm] = useState<ImapForm>(EMPTY_IMAP_FORM)
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: EMAIL_CONNECTIONS_KEY })
+    queryClient.invalidateQueries({ queryKey: ['/api/email/outlook/config'] })
+  }
+
+  const connectGmailMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('GET', '/api/email/gmail/auth-url?returnTo=/app/profile')
+      return response.json() as Promise<{ url: string }>
+    },
+    onSuccess: ({ url }) => window.location.assign(url),
+    onError: (error: Error) => {
+      toast({ title: 'Could not start the Gmail connection', description: error.message, variant: 'destructive' })
+    },
+  })
+
+  const connectImapMutation = useMutation({
+    mutationFn: async (form: ImapForm) => {
+      const response = await apiRequest('POST', '/api/email/imap/connect', {
+        host: form.host.trim(),
+        port: Number(form.port),
+        username: form.username.trim(),
+        password: form.password,
+        sentFolder: form.sentFolder.trim() || null,
+      })
+      return response.json()
+    },
+    onSuccess: () => {
+      invalidate()
+      setImapForm(EMPTY_IMAP_FORM)
+      setShowImapForm(false)
+      toast({ title: 'IMAP mailbox connected', description: 'Run a sync to pull recent mail into review.' })
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not connect the mailbox', description: error.message, variant: 'destructive' })
+    },
+  })
+
+  const syncMutation = useMutation({
+    mutationFn: async (connection: EmailConnection) => {
+      const response = await apiRequest('POST', `/api/email/connections/${connection.id}/sync`, { days: 30 })
+      return response.json() as Promise<{ messagesStored: number; matchesCreated: number }>
+    },
+    onSuccess: (result, connection) => {
+      invalidate()
+      queryClient.invalidateQueries({ queryKey: ['/api/email/review'] })
+      queryClient.invalidateQueries({ queryKey: ['/api/email/review/counts'] })
+      toast({
+        title: `${PROVIDER_LABELS[connection.provider]} sync complete`,
+        description: `${result.messagesStored} new messages, ${result.matchesCreated} prospect matches.`,
+      })
+    },
+    onError: (error: Error) => {
+      invalidate()
+      toast({ title: 'Sync failed', description: error.message, variant: 'destructive' })
+    },
+  })
+
+  const disconnectMutation = useMutation({
+    mutationFn: async (connection: EmailConnection) => {
+      await apiRequest('DELETE', `/api/email/connections/${connection.id}`)
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      toast({ title: 'Could not disconnect', description: error.message, variant: 'destructive' })
+    },
+  })
+
+  const providers = connectionsQuery.data?.providers
+  const connections = connectionsQuery.data?.connections || []
+  const updateImapForm = (patch: Partial<ImapForm>) => setImapForm((current) => ({ ...current, ...patch }))
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-slate-50 p-4 lg:col-span-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <div className="text-sm font-semibold text-slate-950">Connected mailboxes</div>
+          <p className="mt-1 text-sm text-slate-600">
+            Gmail and IMAP mailboxes feed the same email review queue as Outlook.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            disabled={!providers?.gmail.configured || connectGmailMutation.isPending}
+            title={providers && !providers.gmail.configured ? `Redirect URI: ${providers.gmail.redirectUri || ''}` : undefined}
+            onClick={() => connectGmailMutation.mutate()}
+          >
+            {connectGmailMutation.isPending ? 'Connecting...' : 'Connect Gmail'}
+          </Button>
+          <Button variant="outline" onClick={() => setShowImapForm((current) => !current)}>
+            {showImapForm ? 'Cancel' : 'Connect IMAP'}
+          </Button>
+        </div>
+      </div>
+
+      {showImapForm ? (
+        <form
+          className="mt-3 grid gap-3 rounded-md border border-slate-200 bg-white p-3 sm:grid-cols-2"
+          onSubmit={(event) => {
+            event.preventDefault()
+            connectImapMutation.mutate(imapForm)
+          }}
+        >
+          <div className="space-y-1">
+            <Label htmlFor="imap-host">Server</Label>
+            <Input id="imap-host" placeholder="imap.example.com" value={imapForm.host} onChange={(event) => updateImapForm({ host: event.target.value })} required />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="imap-port">Port</Label>
+            <select
+              id="imap-port"
+              className="flex h-10 w-full rounded-md border border-slate-200 bg-white px-3 py-2 text-sm"
+              value={imapForm.port}
+              onChange={(event) => updateImapForm({ port: event.target.value as ImapForm['port'] })}
+            >
+              <option value="993">993 (TLS)</option>
+              <option value="143">143 (STARTTLS)</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="imap-username">Username</Label>
+            <Input id="imap-username" autoComplete="username" value={imapForm.username} onChange={(event) => updateImapForm({ username: event.target.value })} required />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="imap-password">Password or app password</Label>
+            <Input id="imap-password" type="password" autoComplete="current-password" value={imapForm.password} onChange={(event) => updateImapForm({ password: event.target.value })} required />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="imap-sent-folder">Sent folder</Label>
+            <Input id="imap-sent-folder" placeholder="Detected automatically" value={imapForm.sentFolder} onChange={(event) => updateImapForm({ sentFolder: event.target.value })} />
+          </div>
+          <div className="flex items-end justify-end">
+            <Button type="submit" disabled={connectImapMutation.isPending}>
+              {connectImapMutation.isPending ? 'Checking login...' : 'Save mailbox'}
+            </Button>
+          </div>
+        </form>
+      ) : null}
+
+      {connections.length > 0 ? (
+        <ul className="mt-3 divide-y divide-slate-200 rounded-md border border-slate-200 bg-white">
+          {connections.map((connection) => (
+            <li key={connection.id} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 text-sm font-medium text-slate-900">
+                  <Badge variant="outline">{PROVIDER_LABELS[connection.provider]}</Badge>
+                  <span className="truncate">{connection.emailAddress || connection.displayName}</span>
+                </div>
+                <p className={connection.errorMessage ? 'mt-1 text-xs text-red-600' : 'mt-1 text-xs text-slate-500'}>
+                  {connection.errorMessage || describeSync(connection)}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={syncMutation.isPending && syncMutation.variables?.id === connection.id}
+                  onClick={() => syncMutation.mutate(connection)}
+                >
+                  <RefreshCcw className="mr-2 h-4 w-4" />
+                  {syncMutation.isPending && syncMutation.variables?.id === connection.id ? 'Syncing...' : 'Sync'}
+                </Button>
+                {connection.provider !== 'outlook' ? (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    aria-label={`Disconnect ${connection.emailAddress || connection.displayName || 'mailbox'}`}
+                    disabled={disconnectMutation.isPending}
+                    onClick={() => disconnectMutation.mutate(connection)}
+                  >
+                    <Unplug className="h-4 w-4" />
+                  </Button>
+                ) : null}
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import type { LeaseEconomics } from '@level-cre/shared'
+
+import { cn } from '@/lib/utils'
+
+function formatRate(value: number) {
+  return `$${value.toLocaleString('en-CA', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+function formatDollars(value: number) {
+  return `$${Math.round(value).toLocaleString('en-CA')}`
+}
+
+type LeaseEconomicsSummaryProps = {
+  economics: LeaseEconomics | null
+  // Landlord NPV is broker context; client-facing views leave it out.
+  showLandlord?: boolean
+  className?: string
+}
+
+export function LeaseEconomicsSummary({ economics, showLandlord = true, className }: LeaseEconomicsSummaryProps) {
+  if (!economics) {
+    return <p className={cn('text-xs text-slate-500', className)}>Add a rate and term to see net effective rent.</p>
+  }
+
+  const { totals } = economics
+  const rows = [
+    { label: 'Net effective', value: `${formatRate(economics.netEffectiveRatePsf)} / SF / yr` },
+    { label: 'Average face rent', value: `${formatRate(economics.averageRatePsf)} / SF / yr` },
+    {
+      label: 'Total consideration',
+      value: totals ? formatDollars(totals.totalConsideration) : `${formatRate(economics.totalConsiderationPsf)} / SF`,
+    },
+    ...(showLandlord
+      ? [{
+          label: `Landlord NPV @ ${economics.discountRatePct}%`,
+          value: totals ? formatDollars(totals.landlordNpv) : `${formatRate(economics.landlordNpvPsf)} / SF`,
+        }]
+      : []),
+  ]
+
+  return (
+    <dl className={cn('grid grid-cols-2 gap-x-4 gap-y-1 text-xs', className)}>
+      {rows.map((row) => (
+        <div key={row.label} className="contents">
+          <dt className="text-slate-500">{row.label}</dt>
+          <dd className="text-right font-medium tabular-nums text-slate-900">{row.value}</dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
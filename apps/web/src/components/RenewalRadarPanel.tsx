@@ -0,0 +1,187 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Link } from 'wouter'
+import { Archive, BriefcaseBusiness, CalendarClock } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import { apiRequest } from '@/lib/queryClient'
+import { cn } from '@/lib/utils'
+
+type RenewalRadarItem = {
+  key: string
+  sourceType: 'deal' | 'comp'
+  sourceId: string
+  title: string
+  address: string
+  tenant: string | null
+  sizeSf: number | null
+  expiryDate: string
+  noticeDate: string | null
+  triggerDate: string
+  daysUntilExpiry: number
+  isDue: boolean
+  noticeSoon: boolean
+  proposalId: string | null
+  proposalStatus: 'needs_review' | 'matched' | 'ignored' | null
+  opportunityId: string | null
+}
+
+type RenewalRadarResponse = {
+  leadMonths: number
+  proposed: number
+  items: RenewalRadarItem[]
+}
+
+const RENEWAL_RADAR_KEY = ['/api/renewal-radar']
+const LEAD_MONTH_OPTIONS = [6, 9, 12, 18, 24, 36]
+const MAX_VISIBLE_ITEMS = 6
+
+function formatExpiry(item: RenewalRadarItem) {
+  if (item.daysUntilExpiry < 0) return `Expired ${item.expiryDate}`
+  const months = Math.round(item.daysUntilExpiry / 30.4)
+  return months >= 1 ? `Expires ${item.expiryDate} (${months} mo)` : `Expires ${item.expiryDate} (${item.daysUntilExpiry} d)`
+}
+
+export function RenewalRadarPanel() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const radarQuery = useQuery<RenewalRadarResponse>({ queryKey: RENEWAL_RADAR_KEY })
+
+  const settingsMutation = useMutation({
+    mutationFn: async (leadMonths: number) => {
+      const response = await apiRequest('PATCH', '/api/renewal-radar/settings', { leadMonths })
+      return response.json()
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: RENEWAL_RADAR_KEY }),
+    onError: (error: Error) => {
+      toast({ title: 'Could not update the renewal window', description: error.message, variant: 'destructive' })
+    },
+  })
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ proposalId, action }: { proposalId: string; action: 'approve' | 'ignore' }) => {
+      const response = await apiRequest('PATCH', `/api/opportunity-proposals/${proposalId}`, { action })
+      return response.json()
+    },
+    onSuccess: (_result, variables) => {
+      queryClient.invalidateQueries({ queryKey: RENEWAL_RADAR_KEY })
+      queryClient.invalidateQueries({ queryKey: ['/api/opportunities'] })
+      toast({
+        title: variables.action === 'approve' ? 'Renewal pursuit created' : 'Renewal archived',
+        description: variables.action === 'approve'
+          ? 'The lease is now a renewal / relocation opportunity at Target.'
+          : 'This expiry will not be proposed again.',
+      })
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not review the renewal', description: error.message, variant: 'destructive' })
+    },
+  })
+
+  const leadMonths = radarQuery.data?.leadMonths ?? 18
+  const dueItems = (radarQuery.data?.items || []).filter((item) => item.isDue && item.proposalStatus !== 'ignored')
+  const upcomingCount = (radarQuery.data?.items || []).filter((item) => !item.isDue).length
+  const nextUpcoming = (radarQuery.data?.items || []).find((item) => !item.isDue)
+
+  return (
+    <section className="rounded-md border border-slate-200 bg-white p-5 shadow-sm" aria-label="Renewal radar">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="h-4 w-4 text-violet-600" />
+          <h2 className="text-sm font-semibold text-slate-950">Renewal radar</h2>
+        </div>
+        <Select
+          value={String(leadMonths)}
+          onValueChange={(value) => settingsMutation.mutate(Number(value))}
+          disabled={settingsMutation.isPending}
+        >
+          <SelectTrigger className="h-8 w-[112px] text-xs" aria-label="Renewal lead time">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LEAD_MONTH_OPTIONS.map((months) => (
+              <SelectItem key={months} value={String(months)}>{months} months</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="mt-2 text-xs leading-5 text-slate-500">
+        Lease expiries from your track record and lease comps, proposed as renewal pursuits {leadMonths} months out.
+      </p>
+
+      <div className="mt-3 divide-y divide-slate-100 border-y border-slate-100">
+        {radarQuery.isLoading ? (
+          <div className="space-y-2 py-3">
+            <div className="h-3 w-3/4 animate-pulse rounded bg-slate-100" />
+            <div className="h-3 w-1/2 animate-pulse rounded bg-slate-100" />
+          </div>
+        ) : null}
+        {dueItems.slice(0, MAX_VISIBLE_ITEMS).map((item) => (
+          <article key={item.key} className="py-3">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="truncate text-xs font-semibold text-slate-900">{item.title}</p>
+                <p className="truncate text-[11px] text-slate-500">{item.address}</p>
+              </div>
+              <Badge variant="outline" className="shrink-0 rounded text-[10px]">
+                {item.sourceType === 'deal' ? 'Deal' : 'Comp'}
+              </Badge>
+            </div>
+            <p className={cn('mt-1 text-[11px] font-medium', item.daysUntilExpiry < 180 ? 'text-red-700' : 'text-amber-700')}>
+              {formatExpiry(item)}
+              {item.noticeDate ? ` / notice ${item.noticeDate}` : ''}
+            </p>
+            {item.opportunityId ? (
+              <p className="mt-2 text-[11px] font-medium text-emerald-700">Renewal pursuit open</p>
+            ) : item.proposalId && item.proposalStatus === 'needs_review' ? (
+              <div className="mt-2 flex gap-2">
+                <Button
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={reviewMutation.isPending}
+                  onClick={() => reviewMutation.mutate({ proposalId: item.proposalId!, action: 'approve' })}
+                >
+                  <BriefcaseBusiness className="h-3.5 w-3.5" />
+                  Create pursuit
+                </Button>
+                <Button
+                  size="icon"
+                  variant="outline"
+                  className="h-7 w-7"
+                  title="Archive this renewal"
+                  aria-label="Archive this renewal"
+                  disabled={reviewMutation.isPending}
+                  onClick={() => reviewMutation.mutate({ proposalId: item.proposalId!, action: 'ignore' })}
+                >
+                  <Archive className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ) : null}
+          </article>
+        ))}
+        {!radarQuery.isLoading && dueItems.length === 0 ? (
+          <p className="py-4 text-xs text-slate-500">
+            No leases inside the window. Add lease expiries to your <Link href="/track-record" className="font-medium text-violet-700 hover:underline">track record</Link> or comps.
+          </p>
+        ) : null}
+      </div>
+
+      {dueItems.length > MAX_VISIBLE_ITEMS ? (
+        <p className="mt-3 text-[11px] text-slate-500">{dueItems.length - MAX_VISIBLE_ITEMS} more due renewals</p>
+      ) : null}
+      {upcomingCount > 0 && nextUpcoming ? (
+        <p className="mt-3 text-[11px] text-slate-500">
+          {upcomingCount} later expir{upcomingCount === 1 ? 'y' : 'ies'}; next enters the window {nextUpcoming.triggerDate}.
+        </p>
+      ) : null}
+    </section>
+  )
+}
@@ -0,0 +1,170 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+export type ShareLinkEngagementData = {
+  viewCount: number;
+  firstViewedAt: string | null;
+  lastViewedAt: string | null;
+  openedItems: Array<{ itemId: string; openCount: number; lastOpenedAt: string | null; title: string | null }>;
+  history: Array<{ id: string; action: string; summary: string | null; createdAt: string | null }>;
+};
+
+export type ShareLinkSettingsInput = {
+  expiresAt?: string | null;
+  passcode?: string | null;
+};
+
+type ShareLinkEngagementProps = {
+  engagement: ShareLinkEngagementData | undefined;
+  expiresAt: string | null;
+  hasPasscode: boolean;
+  linkActive: boolean;
+  // What the client opens on the shared page, e.g. "options" or "prospects".
+  itemNoun: string;
+  saving: boolean;
+  onSaveSettings: (input: ShareLinkSettingsInput) => void;
+};
+
+function formatDateTime(value: string | null) {
+  if (!value) return '-';
+  return new Date(value).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function toDateInput(value: string | null) {
+  if (!value) return '';
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+}
+
+export function ShareLinkEngagement({
+  engagement,
+  expiresAt,
+  hasPasscode,
+  linkActive,
+  itemNoun,
+  saving,
+  onSaveSettings,
+}: ShareLinkEngagementProps) {
+  const [expiryDate, setExpiryDate] = useState(toDateInput(expiresAt));
+  const [passcode, setPasscode] = useState('');
+  const expired = Boolean(expiresAt && new Date(expiresAt).getTime() <= Date.now());
+
+  useEffect(() => {
+    setExpiryDate(toDateInput(expiresAt));
+  }, [expiresAt]);
+
+  const saveExpiry = () => {
+    // The link stays open through the end of the chosen day in the broker's time zone.
+    onSaveSettings({ expiresAt: expiryDate ? new Date(`${expiryDate}T23:59:59`).toISOString() : null });
+  };
+
+  const savePasscode = () => {
+    onSaveSettings({ passcode: passcode.trim() });
+    setPasscode('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="rounded-md border border-slate-200 bg-slate-50 px-3 py-2">
+          <p className="text-xs uppercase tracking-wide text-slate-500">Views</p>
+          <p className="text-lg font-semibold text-slate-900">{engagement?.viewCount ?? 0}</p>
+        </div>
+        <div className="rounded-md border border-slate-200 bg-slate-50 px-3 py-2">
+          <p className="text-xs uppercase tracking-wide text-slate-500">First viewed</p>
+          <p className="text-sm font-semibold text-slate-900">{formatDateTime(engagement?.firstViewedAt ?? null)}</p>
+        </div>
+        <div className="rounded-md border border-slate-200 bg-slate-50 px-3 py-2">
+          <p className="text-xs uppercase tracking-wide text-slate-500">Last viewed</p>
+          <p className="text-sm font-semibold text-slate-900">{formatDateTime(engagement?.lastViewedAt ?? null)}</p>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium text-slate-900">Opened {itemNoun}</p>
+        {!engagement || engagement.openedItems.length === 0 ? (
+          <p className="mt-1 text-sm text-slate-500">The client has not opened any {itemNoun} yet.</p>
+        ) : (
+          <ul className="mt-2 space-y-1">
+            {engagement.openedItems.slice(0, 10).map((item) => (
+              <li key={item.itemId} className="flex items-center justify-between gap-3 text-sm">
+                <span className="truncate text-slate-700">{item.title || 'Removed'}</span>
+                <span className="shrink-0 text-xs text-slate-500">
+                  {item.openCount}x, last {formatDateTime(item.lastOpenedAt)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="share-link-expiry">Link expires</Label>
+          <div className="flex gap-2">
+            <Input
+              id="share-link-expiry"
+              type="date"
+              value={expiryDate}
+              disabled={!linkActive || saving}
+              onChange={(event) => setExpiryDate(event.target.value)}
+            />
+            <Button type="button" variant="outline" disabled={!linkActive || saving || expiryDate === toDateInput(expiresAt)} onClick={saveExpiry}>
+              {expiryDate ? 'Save' : 'Clear'}
+            </Button>
+          </div>
+          <p className={`text-xs ${expired ? 'text-rose-700' : 'text-slate-500'}`}>
+            {expired ? 'Expired; the client sees an expiry notice.' : expiresAt ? `Open until ${formatDateTime(expiresAt)}.` : 'No expiry.'}
+          </p>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="share-link-passcode">Passcode</Label>
+          <div className="flex gap-2">
+            <Input
+              id="share-link-passcode"
+              type="password"
+              autoComplete="new-password"
+              placeholder={hasPasscode ? 'Set a new passcode' : 'At least 4 characters'}
+              value={passcode}
+              disabled={!linkActive || saving}
+              onChange={(event) => setPasscode(event.target.value)}
+            />
+            <Button type="button" variant="outline" disabled={!linkActive || saving || passcode.trim().length < 4} onClick={savePasscode}>
+              Set
+            </Button>
+          </div>
+          <div className="flex items-center justify-between gap-2 text-xs text-slate-500">
+            <span>{hasPasscode ? 'Clients must enter the passcode.' : 'Anyone with the link can open it.'}</span>
+            {hasPasscode && (
+              <button
+                type="button"
+                className="font-medium text-rose-700 hover:underline disabled:opacity-50"
+                disabled={!linkActive || saving}
+                onClick={() => onSaveSettings({ passcode: null })}
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {engagement && engagement.history.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-slate-900">Link history</p>
+          <ul className="mt-2 space-y-1">
+            {engagement.history.map((event) => (
+              <li key={event.id} className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-slate-700">{event.summary || event.action}</span>
+                <span className="shrink-0 text-xs text-slate-500">{formatDateTime(event.createdAt)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useState, type FormEvent } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { apiUrl } from '@/lib/api';
+import { storeShareAccess, type ShareAccessGrant } from '@/lib/shareLinkAccess';
+
+type SharePasscodePromptProps = {
+  token: string;
+  // Public unlock endpoint, e.g. /api/public/pursuits/:token/unlock.
+  unlockPath: string;
+  title: string;
+  onUnlocked: () => void;
+};
+
+export function SharePasscodePrompt({ token, unlockPath, title, onUnlocked }: SharePasscodePromptProps) {
+  const [passcode, setPasscode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!passcode.trim()) return;
+    setPending(true);
+    setError(null);
+    try {
+      const response = await fetch(apiUrl(unlockPath), {
+        method: 'POST',
+        headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+        body: JSON.stringify({ passcode }),
+      });
+      if (response.status === 401) {
+        setError('That passcode is not right. Check with the broker who sent the link.');
+        return;
+      }
+      if (response.status === 429) {
+        setError('Too many wrong passcodes. Wait a few minutes, then try again.');
+        return;
+      }
+      if (!response.ok) {
+        setError(response.status === 410 ? 'This link has expired.' : 'Could not unlock the link. Try again.');
+        return;
+      }
+      storeShareAccess(token, (await response.json()) as ShareAccessGrant);
+      onUnlocked();
+    } catch {
+      setError('Could not unlock the link. Try again.');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-slate-100 px-6">
+      <form onSubmit={submit} className="w-full max-w-sm rounded-lg border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex items-center gap-2 text-slate-950">
+          <Lock className="h-4 w-4 text-blue-700" />
+          <p className="text-lg font-semibold">{title}</p>
+        </div>
+        <p className="mt-2 text-sm text-slate-600">This link is passcode protected. Enter the passcode the broker shared with you.</p>
+        <Input
+          type="password"
+          autoFocus
+          autoComplete="off"
+          className="mt-4"
+          aria-label="Passcode"
+          value={passcode}
+          onChange={(event) => setPasscode(event.target.value)}
+        />
+        {error && <p className="mt-2 text-sm text-rose-700">{error}</p>}
+        <Button type="submit" className="mt-4 w-full" disabled={pending || !passcode.trim()}>
+          {pending ? 'Checking...' : 'Open'}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import { CheckCircle2, Clock3, Copy, ExternalLink, Link2, Mail, RotateCcw, Shiel
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { Modal, ModalContent, ModalHeader, ModalTitle, ModalClose } from '@/components/primitives/Modal';
+import { ShareLinkEngagement, type ShareLinkEngagementData, type ShareLinkSettingsInput } from '@/components/ShareLinkEngagement';
 
 type ShareEntry = {
   userId?: string;
@@ -23,6 +24,8 @@ type ShareEntry = {
 type PublicShare = {
   enabled: boolean;
   token: string | null;
+  expiresAt: string | null;
+  hasPasscode: boolean;
   createdAt: string | null;
   updatedAt: string | null;
 };
@@ -56,13 +59,20 @@ export function ShareWorkspaceDialog({ listingId, open, onOpenChange, canManage
     queryKey: ['/api/listings', listingId, 'public-share'],
     enabled: open && canManage && !isDemoMode && !!listingId,
   });
+  const { data: engagement, refetch: refetchEngagement } = useQuery<ShareLinkEngagementData>({
+    queryKey: ['/api/listings', listingId, 'public-share', 'engagement'],
+    enabled: open && canManage && !isDemoMode && !!listingId,
+  });
 
   useEffect(() => {
     if (open && listingId) {
       void refetchMembers();
-      if (canManage && !isDemoMode) void refetchPublicShare();
+      if (canManage && !isDemoMode) {
+        void refetchPublicShare();
+        void refetchEngagement();
+      }
     }
-  }, [canManage, isDemoMode, listingId, open, refetchMembers, refetchPublicShare]);
+  }, [canManage, isDemoMode, listingId, open, refetchEngagement, refetchMembers, refetchPublicShare]);
 
   const [inviteEmail, setInviteEmail] = useState('');
   const [inviteRole, setInviteRole] = useState<'viewer'|'editor'>('viewer');
@@ -77,6 +87,7 @@ export function ShareWorkspaceDialog({ listingId, open, onOpenChange, canManage
     },
     onSuccess: (share) => {
       qc.setQueryData(['/api/listings', listingId, 'public-share'], share);
+      qc.invalidateQueries({ queryKey: ['/api/listings', listingId, 'public-share', 'engagement'] });
       toast({
         title: publicShare?.enabled ? 'Client link replaced' : 'Client link ready',
         description: 'The read-only map and activity view is ready to share.',
@@ -95,9 +106,12 @@ export function ShareWorkspaceDialog({ listingId, open, onOpenChange, canManage
       qc.setQueryData<PublicShare>(['/api/listings', listingId, 'public-share'], {
         enabled: false,
         token: null,
+        expiresAt: publicShare?.expiresAt || null,
+        hasPasscode: publicShare?.hasPasscode || false,
         createdAt: publicShare?.createdAt || null,
         updatedAt: new Date().toISOString(),
       });
+      qc.invalidateQueries({ queryKey: ['/api/listings', listingId, 'public-share', 'engagement'] });
       toast({ title: 'Client link turned off', description: 'The previous link no longer opens the pursuit.' });
     },
     onError: (error: any) => {
@@ -105,6 +119,21 @@ export function ShareWorkspaceDialog({ listingId, open, onOpenChange, canManage
     },
   });
 
+  const shareSettingsMutation = useMutation({
+    mutationFn: async (input: ShareLinkSettingsInput) => {
+      const res = await apiRequest('PUT', `/api/listings/${listingId}/public-share/settings`, input);
+      return res.json() as Promise<PublicShare>;
+    },
+    onSuccess: (share) => {
+      qc.setQueryData(['/api/listings', listingId, 'public-share'], share);
+      qc.invalidateQueries({ queryKey: ['/api/listings', listingId, 'public-share', 'engagement'] });
+      toast({ title: 'Client link settings saved' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Could not update link', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
   const copyClientShareUrl = async () => {
     if (!clientShareUrl) return;
     try {
@@ -250,7 +279,11 @@ export function ShareWorkspaceDialog({ listingId, open, onOpenChange, canManage
                     </Button>
                   </div>
                   <div className="flex flex-wrap items-center justify-between gap-2">
-                    <p className="text-xs text-slate-500">Anyone with this link can view the client-safe activity report.</p>
+                    <p className="text-xs text-slate-500">
+                      {publicShare.hasPasscode
+                        ? 'Viewers need the passcode to open the client-safe activity report.'
+                        : 'Anyone with this link can view the client-safe activity report.'}
+                    </p>
                     <div className="flex gap-2">
                       <Button
                         type="button"
@@ -277,6 +310,18 @@ export function ShareWorkspaceDialog({ listingId, open, onOpenChange, canManage
                       </Button>
                     </div>
                   </div>
+                  <div className="rounded-md border border-slate-200 bg-white p-3">
+                    <h4 className="mb-3 text-xs font-semibold uppercase tracking-wide text-slate-600">Client engagement</h4>
+                    <ShareLinkEngagement
+                      engagement={engagement}
+                      expiresAt={publicShare.expiresAt}
+                      hasPasscode={publicShare.hasPasscode}
+                      linkActive={publicShare.enabled}
+                      itemNoun="prospects"
+                      saving={shareSettingsMutation.isPending}
+                      onSaveSettings={(input) => shareSettingsMutation.mutate(input)}
+                    />
+                  </div>
                 </div>
               ) : (
                 <div className="mt-4 flex flex-col items-start justify-between gap-3 rounded-md border border-dashed border-blue-200 bg-white/70 px-3 py-3 sm:flex-row sm:items-center">
@@ -0,0 +1,187 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import type {
+  BovAdjustmentSettings,
+  BovBasis,
+  BovComp,
+  BovCompSource,
+  BovSubject,
+  BovValuation,
+} from '@level-cre/shared'
+
+import { apiRequest } from '@/lib/queryClient'
+
+import { bovCandidatesUrl } from './worksheetDraft'
+
+export type BovWorksheet = {
+  id: string
+  title: string
+  basis: BovBasis
+  opportunityId: string | null
+  opportunityTitle: string | null
+  intelDossierId: string | null
+  dossierTitle: string | null
+  latestVersion: number
+  createdAt: string | null
+  updatedAt: string | null
+}
+
+export type BovWorksheetVersion = {
+  id: string
+  version: number
+  label: string | null
+  subject: BovSubject
+  settings: BovAdjustmentSettings
+  result: BovValuation
+  createdAt: string | null
+}
+
+export type BovWorksheetDetail = {
+  worksheet: BovWorksheet
+  versions: Array<{
+    version: number
+    label: string | null
+    createdAt: string | null
+    usedCount: number
+    rangePsf: BovValuation['rangePsf']
+  }>
+  current: BovWorksheetVersion | null
+  defaults: { subject: BovSubject; settings: BovAdjustmentSettings }
+}
+
+export type BovCandidate = {
+  source: Exclude<BovCompSource, 'manual'>
+  sourceId: string
+  address: string
+  submarket: string | null
+  assetType: string | null
+  isAsking: boolean
+  valuePsf: number | null
+  buildingSizeSf: number | null
+  yearBuilt: number | null
+  clearHeightFt: number | null
+  compDate: string | null
+  lat: number | null
+  lng: number | null
+}
+
+export type BovCandidateFilters = {
+  basis: BovBasis
+  q?: string
+  submarket?: string
+  minSf?: string
+  maxSf?: string
+  bounds?: { north: number; south: number; east: number; west: number } | null
+}
+
+export type BovWorksheetCreateRequest = {
+  title: string
+  basis: BovBasis
+  opportunityId?: string | null
+  intelDossierId?: string | null
+}
+
+export type BovWorksheetVersionRequest = {
+  label?: string | null
+  subject: BovSubject
+  settings: BovAdjustmentSettings
+  comps: BovComp[]
+}
+
+export const bovRoutes = {
+  list: '/api/bov-worksheets',
+  detail: (id: string) => `/api/bov-worksheets/${encodeURIComponent(id)}`,
+  versions: (id: string) => `/api/bov-worksheets/${encodeURIComponent(id)}/versions`,
+  csv: (id: string, version: number) => `/api/bov-worksheets/${encodeURIComponent(id)}/export.csv?version=${version}`,
+} as const
+
+export const bovKeys = {
+  all: ['bov-worksheets'] as const,
+  list: (filter: { opportunityId?: string; intelDossierId?: string }) => ['bov-worksheets', 'list', filter] as const,
+  detail: (id: string, version?: number) => ['bov-worksheets', 'detail', id, version ?? 'latest'] as const,
+  candidates: (filters: BovCandidateFilters) => ['bov-worksheets', 'candidates', filters] as const,
+} as const
+
+export function useBovWorksheets(filter: { opportunityId?: string; intelDossierId?: string } = {}) {
+  return useQuery({
+    queryKey: bovKeys.list(filter),
+    queryFn: async () => {
+      const params = new URLSearchParams()
+      if (filter.opportunityId) params.set('opportunityId', filter.opportunityId)
+      if (filter.intelDossierId) params.set('intelDossierId', filter.intelDossierId)
+      const query = params.toString()
+      const response = await apiRequest('GET', query ? `${bovRoutes.list}?${query}` : bovRoutes.list)
+      return response.json() as Promise<{ rows: BovWorksheet[] }>
+    },
+  })
+}
+
+export function useBovWorksheet(id: string | undefined, version?: number) {
+  return useQuery({
+    queryKey: bovKeys.detail(id || '', version),
+    queryFn: async () => {
+      const url = version === undefined ? bovRoutes.detail(id!) : `${bovRoutes.detail(id!)}?version=${version}`
+      const response = await apiRequest('GET', url)
+      return response.json() as Promise<BovWorksheetDetail>
+    },
+    enabled: Boolean(id),
+  })
+}
+
+export function useBovCandidates(filters: BovCandidateFilters, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: bovKeys.candidates(filters),
+    queryFn: async () => {
+      const response = await apiRequest('GET', bovCandidatesUrl(filters))
+      return response.json() as Promise<{ rows: BovCandidate[] }>
+    },
+    enabled: options.enabled ?? true,
+    staleTime: 60_000,
+  })
+}
+
+export function useCreateBovWorksheet() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: async (request: BovWorksheetCreateRequest) => {
+      const response = await apiRequest('POST', bovRoutes.list, request)
+      return response.json() as Promise<BovWorksheet>
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: bovKeys.all }),
+  })
+}
+
+export function useSaveBovWorksheetVersion(id: string) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: async (request: BovWorksheetVersionRequest) => {
+      const response = await apiRequest('POST', bovRoutes.versions(id), request)
+      return response.json() as Promise<BovWorksheetVersion>
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: bovKeys.all }),
+  })
+}
+
+export function useDeleteBovWorksheet() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', bovRoutes.detail(id))
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: bovKeys.all }),
+  })
+}
+
+export async function downloadBovWorksheetCsv(id: string, version: number) {
+  const response = await apiRequest('GET', bovRoutes.csv(id, version))
+  const disposition = response.headers.get('Content-Disposition') || ''
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `bov-v${version}.csv`
+  const blob = await response.blob()
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict'
+import test from 'node:test'
+
+import { DEFAULT_BOV_ADJUSTMENTS, computeBovValuation } from '@level-cre/shared'
+
+import type { BovCandidate, BovWorksheetDetail } from './api'
+import {
+  bovCandidatesUrl,
+  bovCompKey,
+  candidateToComp,
+  draftFromDetail,
+  formatBovPct,
+  missingAdjustmentText,
+  numberInput,
+} from './worksheetDraft'
+
+const candidate: BovCandidate = {
+  source: 'intel_listing',
+  sourceId: 'l1',
+  address: '12 Dock Rd',
+  submarket: 'Northwest',
+  assetType: 'Building',
+  isAsking: true,
+  valuePsf: 14.5,
+  buildingSizeSf: 25000,
+  yearBuilt: null,
+  clearHeightFt: 28,
+  compDate: '2024-09-01',
+  lat: 53.5,
+  lng: -113.6,
+}
+
+function detail(overrides: Partial<BovWorksheetDetail> = {}): BovWorksheetDetail {
+  return {
+    worksheet: {
+      id: 'w1',
+      title: '12 Dock Rd BOV',
+      basis: 'lease',
+      opportunityId: 'o1',
+      opportunityTitle: 'Dock Rd listing',
+      intelDossierId: null,
+      dossierTitle: null,
+      latestVersion: 0,
+      createdAt: null,
+      updatedAt: null,
+    },
+    versions: [],
+    current: null,
+    defaults: { subject: { address: '40 Subject Ave', valuationDate: '2025-03-01' }, settings: DEFAULT_BOV_ADJUSTMENTS },
+    ...overrides,
+  }
+}
+
+test('starts an unsaved worksheet from the server defaults and restores saved comps as inputs', () => {
+  assert.deepEqual(draftFromDetail(detail()).subject, { address: '40 Subject Ave', valuationDate: '2025-03-01' })
+
+  const subject = { address: '40 Subject Ave', buildingSizeSf: 20000 }
+  const comp = { ...candidateToComp(candidate), otherPct: 2 }
+  const saved = detail({
+    current: {
+      id: 'v1',
+      version: 1,
+      label: 'First pass',
+      subject,
+      settings: DEFAULT_BOV_ADJUSTMENTS,
+      result: computeBovValuation(subject, DEFAULT_BOV_ADJUSTMENTS, [comp]),
+      createdAt: null,
+    },
+  })
+  const draft = draftFromDetail(saved)
+  assert.deepEqual(draft.comps, [comp])
+  assert.equal(draft.label, '')
+  assert.equal(bovCompKey(draft.comps[0]), 'intel_listing:l1')
+})
+
+test('builds the candidate search URL from filters and the map box', () => {
+  assert.equal(
+    bovCandidatesUrl({ basis: 'sale', q: ' dock ', minSf: '10000', bounds: { north: 53.61, south: 53.4, east: -113.3, west: -113.7 } }),
+    '/api/bov-worksheets/candidates?basis=sale&q=dock&minSf=10000&north=53.61000&south=53.40000&east=-113.30000&west=-113.70000',
+  )
+})
+
+test('formats inputs and adjustment notes', () => {
+  assert.equal(numberInput('$1,250,000'), 1250000)
+  assert.equal(numberInput(' '), null)
+  assert.equal(numberInput('abc'), null)
+  assert.equal(formatBovPct(2.5), '+2.5%')
+  assert.equal(formatBovPct(-3), '-3%')
+  assert.equal(missingAdjustmentText(['age', 'clearHeight']), 'No age, clear height adjustment')
+  assert.equal(missingAdjustmentText([]), null)
+})
@@ -0,0 +1,121 @@
+import {
+  DEFAULT_BOV_ADJUSTMENTS,
+  type BovAdjustedComp,
+  type BovAdjustmentKey,
+  type BovAdjustmentSettings,
+  type BovBasis,
+  type BovComp,
+  type BovSubject,
+} from '@level-cre/shared'
+
+import type { BovCandidate, BovCandidateFilters, BovWorksheetDetail } from './api'
+
+export type BovDraft = {
+  label: string
+  subject: BovSubject
+  settings: BovAdjustmentSettings
+  comps: BovComp[]
+}
+
+export const BOV_ADJUSTMENT_LABELS: Record<BovAdjustmentKey, string> = {
+  size: 'Size',
+  age: 'Age',
+  clearHeight: 'Clear height',
+  time: 'Date',
+}
+
+export const BOV_SETTING_FIELDS: Array<{ key: keyof BovAdjustmentSettings; label: string }> = [
+  { key: 'sizePctPer10kSf', label: '% per 10,000 SF' },
+  { key: 'agePctPerYear', label: '% per year of age' },
+  { key: 'clearHeightPctPerFt', label: '% per ft of clear' },
+  { key: 'timePctPerYear', label: '% per year since deal' },
+]
+
+export function bovValueUnit(basis: BovBasis) {
+  return basis === 'lease' ? '$/SF/yr net' : '$/SF'
+}
+
+export function bovCandidatesUrl(filters: BovCandidateFilters) {
+  const params = new URLSearchParams({ basis: filters.basis })
+  if (filters.q?.trim()) params.set('q', filters.q.trim())
+  if (filters.submarket?.trim()) params.set('submarket', filters.submarket.trim())
+  if (filters.minSf?.trim()) params.set('minSf', filters.minSf.trim())
+  if (filters.maxSf?.trim()) params.set('maxSf', filters.maxSf.trim())
+  if (filters.bounds) {
+    params.set('north', filters.bounds.north.toFixed(5))
+    params.set('south', filters.bounds.south.toFixed(5))
+    params.set('east', filters.bounds.east.toFixed(5))
+    params.set('west', filters.bounds.west.toFixed(5))
+  }
+  return `/api/bov-worksheets/candidates?${params.toString()}`
+}
+
+export function bovCompKey(comp: Pick<BovComp, 'source' | 'sourceId' | 'address'>) {
+  return comp.sourceId ? `${comp.source}:${comp.sourceId}` : `${comp.source}:${comp.address.toLowerCase()}`
+}
+
+export function candidateToComp(candidate: BovCandidate): BovComp {
+  return {
+    source: candidate.source,
+    sourceId: candidate.sourceId,
+    address: candidate.address,
+    submarket: candidate.submarket,
+    isAsking: candidate.isAsking,
+    valuePsf: candidate.valuePsf,
+    buildingSizeSf: candidate.buildingSizeSf,
+    yearBuilt: candidate.yearBuilt,
+    clearHeightFt: candidate.clearHeightFt,
+    compDate: candidate.compDate,
+    lat: candidate.lat,
+    lng: candidate.lng,
+    otherPct: null,
+    weight: 1,
+    included: true,
+    note: null,
+  }
+}
+
+// Saved versions store adjusted comps; the editor only keeps the inputs and recomputes.
+function compInputs(comp: BovAdjustedComp): BovComp {
+  const { adjustments: _adjustments, totalAdjustmentPct: _total, adjustedValuePsf: _adjusted, missing: _missing, ...inputs } = comp
+  return inputs
+}
+
+export function draftFromDetail(detail: BovWorksheetDetail): BovDraft {
+  if (!detail.current) {
+    return { label: '', subject: { ...detail.defaults.subject }, settings: { ...DEFAULT_BOV_ADJUSTMENTS, ...detail.defaults.settings }, comps: [] }
+  }
+  return {
+    label: '',
+    subject: { ...detail.current.subject },
+    settings: { ...DEFAULT_BOV_ADJUSTMENTS, ...detail.current.settings },
+    comps: (detail.current.result?.comps || []).map(compInputs),
+  }
+}
+
+/** Blank inputs clear the field; anything that is not a finite number is ignored. */
+export function numberInput(value: string): number | null {
+  if (!value.trim()) return null
+  const parsed = Number(value.replace(/[$,\s]/g, ''))
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+export function formatBovPsf(value: number | null | undefined) {
+  if (value === null || value === undefined) return '—'
+  return `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+export function formatBovDollars(value: number | null | undefined) {
+  if (value === null || value === undefined) return '—'
+  return `$${Math.round(value).toLocaleString('en-US')}`
+}
+
+export function formatBovPct(value: number) {
+  if (!value) return '0%'
+  return `${value > 0 ? '+' : ''}${value.toFixed(value % 1 === 0 ? 0 : 1)}%`
+}
+
+export function missingAdjustmentText(missing: BovAdjustmentKey[]) {
+  if (!missing.length) return null
+  return `No ${missing.map((key) => BOV_ADJUSTMENT_LABELS[key].toLowerCase()).join(', ')} adjustment`
+}
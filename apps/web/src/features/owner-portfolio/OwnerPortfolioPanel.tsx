@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react'
+import { ArrowLeft, Building2, Handshake, Landmark, LoaderCircle, MapPin, Search, Send, User, X } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { useToast } from '@/hooks/use-toast'
+
+import { useOwnerPortfolios, usePitchOwnerPortfolio, type OwnerEntityType, type OwnerPortfolio, type OwnerPortfolioProperty } from './api'
+import { OWNER_PORTFOLIO_COLOR, ownerPortfolioSummary, pitchResultMessage } from './portfolioLayer'
+
+const OWNER_SEARCH_DEBOUNCE_MS = 250
+
+const SOURCE_LABELS: Record<OwnerPortfolioProperty['sources'][number], string> = {
+  dossier: 'Title',
+  prospect: 'Prospect',
+  deal: 'Closed deal',
+}
+
+type Props = {
+  open: boolean
+  selected: OwnerPortfolio | null
+  onClose: () => void
+  onSelectPortfolio: (portfolio: OwnerPortfolio | null) => void
+  onSelectProperty: (property: OwnerPortfolioProperty) => void
+}
+
+function OwnerIcon({ type }: { type: OwnerEntityType }) {
+  if (type === 'individual') return <User className="h-4 w-4 shrink-0 text-violet-700" />
+  if (type === 'government') return <Landmark className="h-4 w-4 shrink-0 text-violet-700" />
+  return <Building2 className="h-4 w-4 shrink-0 text-violet-700" />
+}
+
+export function OwnerPortfolioPanel({ open, selected, onClose, onSelectPortfolio, onSelectProperty }: Props) {
+  const { toast } = useToast()
+  const [search, setSearch] = useState('')
+  const [serverSearch, setServerSearch] = useState('')
+  const query = useOwnerPortfolios(serverSearch, { enabled: open })
+  const pitch = usePitchOwnerPortfolio()
+  const portfolios = query.data?.rows || []
+
+  useEffect(() => {
+    if (!open) return undefined
+    const timer = window.setTimeout(() => setServerSearch(search), OWNER_SEARCH_DEBOUNCE_MS)
+    return () => window.clearTimeout(timer)
+  }, [open, search])
+
+  useEffect(() => {
+    if (!open) return undefined
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose, open])
+
+  if (!open) return null
+
+  const pitchPortfolio = (portfolio: OwnerPortfolio) => {
+    pitch.mutate({ ownerKey: portfolio.ownerKey, request: {} }, {
+      onSuccess: (result) => {
+        toast({ title: `Pitching ${portfolio.ownerName}`, description: pitchResultMessage(result) })
+      },
+      onError: (error) => {
+        toast({ title: 'Could not pitch the portfolio', description: error instanceof Error ? error.message : 'Please try again.', variant: 'destructive' })
+      },
+    })
+  }
+
+  return (
+    <aside
+      className="absolute inset-y-2 right-2 z-[85] flex w-[calc(100vw-1rem)] max-w-[430px] flex-col overflow-hidden rounded-lg border border-slate-200 bg-white shadow-2xl md:inset-y-0 md:right-0 md:w-[410px] md:rounded-none md:border-y-0 md:border-r-0 md:border-l"
+      role="dialog"
+      aria-labelledby="owner-portfolio-title"
+    >
+      <div className="border-b border-slate-200 px-4 py-3">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <h2 id="owner-portfolio-title" className="flex items-center gap-2 text-base font-semibold text-slate-950"><Building2 className="h-4 w-4 text-violet-700" />Owner portfolios</h2>
+            <p className="mt-1 text-xs text-slate-500">Everything each owner holds across dossiers, prospects and closed deals.</p>
+          </div>
+          <Button type="button" variant="ghost" size="sm" className="h-7 w-7 shrink-0 p-0" onClick={onClose} aria-label="Close owner portfolios"><X className="h-4 w-4" /></Button>
+        </div>
+      </div>
+
+      {selected ? (
+        <>
+          <div className="space-y-3 border-b border-slate-200 bg-slate-50 px-4 py-4">
+            <Button type="button" variant="ghost" size="sm" className="-ml-2 h-7 text-xs text-slate-600" onClick={() => onSelectPortfolio(null)}>
+              <ArrowLeft className="h-3.5 w-3.5" />All owners
+            </Button>
+            <div className="flex items-center gap-2">
+              <OwnerIcon type={selected.ownerEntityType} />
+              <p className="min-w-0 truncate text-sm font-semibold text-slate-950">{selected.ownerName}</p>
+            </div>
+            <p className="text-xs text-slate-500">{ownerPortfolioSummary(selected)}</p>
+            <Button type="button" className="w-full" disabled={pitch.isPending} onClick={() => pitchPortfolio(selected)}>
+              {pitch.isPending ? <LoaderCircle className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+              Pitch the whole portfolio
+            </Button>
+          </div>
+          <ScrollArea className="min-h-0 flex-1">
+            <div className="divide-y divide-slate-200">
+              {selected.properties.map((property) => (
+                <button key={property.key} type="button" className="w-full px-4 py-3 text-left hover:bg-slate-50 focus:bg-violet-50 focus:outline-none" onClick={() => onSelectProperty(property)}>
+                  <p className="flex items-start gap-2 text-sm font-semibold text-slate-950">
+                    <MapPin className="mt-0.5 h-4 w-4 shrink-0" style={{ color: property.latitude == null ? '#94A3B8' : OWNER_PORTFOLIO_COLOR }} />
+                    {property.label}
+                  </p>
+                  {property.address && property.address !== property.label ? <p className="mt-0.5 pl-6 text-xs text-slate-500">{property.address}</p> : null}
+                  <div className="mt-2 flex flex-wrap items-center gap-1.5 pl-6">
+                    {property.sources.map((source) => (
+                      <Badge key={source} variant="outline" className="rounded bg-white text-[10px] text-slate-600">{SOURCE_LABELS[source]}</Badge>
+                    ))}
+                    {property.prospectStatus ? <Badge variant="outline" className="rounded bg-white text-[10px] text-slate-600">{property.prospectStatus.replace('_', ' ')}</Badge> : null}
+                    {property.lastClosedDate ? <span className="flex items-center gap-1 text-[11px] text-slate-500"><Handshake className="h-3 w-3" />Closed {property.lastClosedDate}</span> : null}
+                    {property.latitude == null ? <span className="text-[11px] text-slate-400">Not on map</span> : null}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+        </>
+      ) : (
+        <>
+          <div className="border-b border-slate-200 bg-slate-50 px-4 py-4">
+            <div className="relative">
+              <Search className="pointer-events-none absolute left-3 top-2.5 h-4 w-4 text-slate-400" aria-hidden />
+              <Input value={search} onChange={(event) => setSearch(event.target.value)} className="bg-white pl-9" placeholder="Owner or company…" aria-label="Search owners" autoFocus />
+            </div>
+          </div>
+          <div className="border-b border-slate-200 px-4 py-2.5 text-xs text-slate-500" role="status" aria-live="polite">
+            {query.isFetching ? 'Grouping holdings by owner…' : `${portfolios.length} owner${portfolios.length === 1 ? '' : 's'} with more than one property`}
+          </div>
+          <ScrollArea className="min-h-0 flex-1">
+            {query.isLoading ? (
+              <div className="flex items-center gap-2 px-4 py-6 text-sm text-slate-500"><LoaderCircle className="h-4 w-4 animate-spin" />Loading owners</div>
+            ) : null}
+            {query.error ? (
+              <div className="m-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">{query.error.message}</div>
+            ) : null}
+            {!query.isLoading && !query.error && portfolios.length === 0 ? (
+              <div className="px-6 py-10 text-center">
+                <Building2 className="mx-auto h-6 w-6 text-slate-300" />
+                <p className="mt-2 text-sm font-semibold text-slate-800">No multi-property owners yet</p>
+                <p className="mt-1 text-xs text-slate-500">Approve titles or add owner companies to prospects to build portfolios.</p>
+              </div>
+            ) : null}
+            <div className="divide-y divide-slate-200">
+              {portfolios.map((portfolio) => (
+                <button key={portfolio.ownerKey} type="button" className="w-full px-4 py-3 text-left hover:bg-slate-50 focus:bg-violet-50 focus:outline-none" onClick={() => onSelectPortfolio(portfolio)}>
+                  <div className="flex items-center gap-2">
+                    <OwnerIcon type={portfolio.ownerEntityType} />
+                    <p className="min-w-0 flex-1 truncate text-sm font-semibold text-slate-950">{portfolio.ownerName}</p>
+                    <span className="rounded-full bg-violet-100 px-2 py-0.5 text-[11px] font-semibold tabular-nums text-violet-800">{portfolio.propertyCount}</span>
+                  </div>
+                  <p className="mt-1 pl-6 text-xs text-slate-500">{ownerPortfolioSummary(portfolio)}</p>
+                </button>
+              ))}
+            </div>
+          </ScrollArea>
+        </>
+      )}
+    </aside>
+  )
+}
@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { apiRequest } from '@/lib/queryClient'
+
+export type OwnerEntityType = 'corporation' | 'individual' | 'government' | 'unknown'
+
+export type OwnerHoldingSource = 'dossier' | 'prospect' | 'deal'
+
+export type OwnerPortfolioProperty = {
+  key: string
+  label: string
+  address: string | null
+  latitude: number | null
+  longitude: number | null
+  prospectId: string | null
+  dossierId: string | null
+  prospectStatus: string | null
+  dealIds: string[]
+  lastClosedDate: string | null
+  sources: OwnerHoldingSource[]
+}
+
+export type OwnerPortfolio = {
+  ownerKey: string
+  ownerName: string
+  ownerEntityType: OwnerEntityType
+  propertyCount: number
+  dossierCount: number
+  prospectCount: number
+  dealCount: number
+  properties: OwnerPortfolioProperty[]
+  bounds: { north: number; south: number; east: number; west: number } | null
+}
+
+export type OwnerPortfolioPitchRequest = {
+  propertyKeys?: string[]
+  notes?: string | null
+}
+
+export type OwnerPortfolioPitchResponse = {
+  portfolioId: string
+  ownerKey: string
+  ownerName?: string
+  created: Array<{ propertyKey: string; opportunityId: string }>
+  skipped: Array<{ propertyKey: string; opportunityId: string }>
+}
+
+export const ownerPortfolioRoutes = {
+  list: '/api/owner-portfolios',
+  pitch: (ownerKey: string) => `/api/owner-portfolios/${encodeURIComponent(ownerKey)}/pitch`,
+} as const
+
+export const ownerPortfolioKeys = {
+  all: ['owner-portfolio'] as const,
+  list: (q: string) => ['owner-portfolio', 'list', q] as const,
+} as const
+
+export async function fetchOwnerPortfolios(q: string): Promise<{ rows: OwnerPortfolio[] }> {
+  const params = new URLSearchParams({ limit: '100' })
+  if (q.trim()) params.set('q', q.trim())
+  const response = await apiRequest('GET', `${ownerPortfolioRoutes.list}?${params.toString()}`)
+  return response.json()
+}
+
+export function useOwnerPortfolios(q: string, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: ownerPortfolioKeys.list(q.trim()),
+    queryFn: () => fetchOwnerPortfolios(q),
+    enabled: options.enabled ?? true,
+    staleTime: 60_000,
+  })
+}
+
+export function usePitchOwnerPortfolio() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: async ({ ownerKey, request }: { ownerKey: string; request: OwnerPortfolioPitchRequest }) => {
+      const response = await apiRequest('POST', ownerPortfolioRoutes.pitch(ownerKey), request)
+      return response.json() as Promise<OwnerPortfolioPitchResponse>
+    },
+    onSuccess: async () => {
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['/api/opportunities'] }),
+        queryClient.invalidateQueries({ queryKey: ownerPortfolioKeys.all }),
+      ])
+    },
+  })
+}
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict'
+import test from 'node:test'
+
+import type { OwnerPortfolio, OwnerPortfolioProperty } from './api'
+import { ownerPortfolioMarkers, ownerPortfolioSummary, pitchResultMessage } from './portfolioLayer'
+
+function property(overrides: Partial<OwnerPortfolioProperty> = {}): OwnerPortfolioProperty {
+  return {
+    key: 'prospect:p1',
+    label: '100 Main St',
+    address: '100 Main St',
+    latitude: 51.05,
+    longitude: -114.07,
+    prospectId: 'p1',
+    dossierId: null,
+    prospectStatus: 'prospect',
+    dealIds: [],
+    lastClosedDate: null,
+    sources: ['prospect'],
+    ...overrides,
+  }
+}
+
+function portfolio(properties: OwnerPortfolioProperty[]): OwnerPortfolio {
+  return {
+    ownerKey: 'acme holdings ltd',
+    ownerName: 'Acme Holdings Ltd',
+    ownerEntityType: 'corporation',
+    propertyCount: properties.length,
+    dossierCount: 1,
+    prospectCount: properties.length,
+    dealCount: 1,
+    properties,
+    bounds: null,
+  }
+}
+
+test('only located holdings become map markers', () => {
+  const markers = ownerPortfolioMarkers(portfolio([
+    property(),
+    property({ key: 'deal:d1', label: 'Unmapped deal', latitude: null, longitude: null }),
+  ]))
+
+  assert.deepEqual(markers.map((marker) => [marker.key, marker.position, marker.title]), [
+    ['prospect:p1', { lat: 51.05, lng: -114.07 }, '100 Main St · Acme Holdings Ltd'],
+  ])
+  assert.deepEqual(ownerPortfolioMarkers(null), [])
+})
+
+test('summarizes portfolios and pitch results', () => {
+  assert.equal(ownerPortfolioSummary(portfolio([property(), property({ key: 'prospect:p2' })])), '2 properties · 1 on title · 1 closed deal')
+  assert.equal(pitchResultMessage({ portfolioId: 'x', ownerKey: 'k', created: [{ propertyKey: 'a', opportunityId: 'o1' }], skipped: [] }), '1 listing pursuit opened')
+  assert.equal(
+    pitchResultMessage({ portfolioId: 'x', ownerKey: 'k', created: [], skipped: [{ propertyKey: 'a', opportunityId: 'o1' }] }),
+    '0 listing pursuits opened; 1 already in the pipeline',
+  )
+})
@@ -0,0 +1,38 @@
+import type { OwnerPortfolio, OwnerPortfolioPitchResponse, OwnerPortfolioProperty } from './api'
+
+export const OWNER_PORTFOLIO_COLOR = '#7C3AED'
+
+export type OwnerPortfolioMarker = {
+  key: string
+  position: google.maps.LatLngLiteral
+  title: string
+  property: OwnerPortfolioProperty
+}
+
+export function ownerPortfolioMarkers(portfolio: OwnerPortfolio | null): OwnerPortfolioMarker[] {
+  if (!portfolio) return []
+  return portfolio.properties.flatMap((property) => (
+    property.latitude == null || property.longitude == null
+      ? []
+      : [{
+          key: property.key,
+          position: { lat: property.latitude, lng: property.longitude },
+          title: `${property.label} · ${portfolio.ownerName}`,
+          property,
+        }]
+  ))
+}
+
+export function ownerPortfolioSummary(portfolio: OwnerPortfolio) {
+  return [
+    `${portfolio.propertyCount} propert${portfolio.propertyCount === 1 ? 'y' : 'ies'}`,
+    portfolio.dossierCount ? `${portfolio.dossierCount} on title` : null,
+    portfolio.dealCount ? `${portfolio.dealCount} closed deal${portfolio.dealCount === 1 ? '' : 's'}` : null,
+  ].filter(Boolean).join(' · ')
+}
+
+export function pitchResultMessage(result: OwnerPortfolioPitchResponse) {
+  const created = `${result.created.length} listing pursuit${result.created.length === 1 ? '' : 's'} opened`
+  if (!result.skipped.length) return created
+  return `${created}; ${result.skipped.length} already in the pipeline`
+}
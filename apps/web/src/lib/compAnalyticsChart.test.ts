@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict'
+import test from 'node:test'
+
+import { compAnalyticsUrl, compChartPoints, formatPsf } from './compAnalyticsChart'
+
+test('builds the analytics url from the selected filters', () => {
+  assert.equal(compAnalyticsUrl({ groupBy: 'submarket', interval: 'year' }), '/api/market-comps/analytics?groupBy=submarket&interval=year')
+  assert.equal(
+    compAnalyticsUrl({ groupBy: 'all', interval: 'quarter', submarket: 'South East', sizeBand: 'Under 10,000 SF' }),
+    '/api/market-comps/analytics?groupBy=all&interval=quarter&submarket=South+East&sizeBand=Under+10%2C000+SF',
+  )
+})
+
+test('shapes series points into a median line over a quartile band', () => {
+  const points = compChartPoints({
+    group: 'All comps',
+    overall: { count: 2, median: 11, p25: 10.5, p75: 11.5, min: 10, max: 12 },
+    points: [{ period: '2024-Q1', count: 2, median: 11, p25: 10.5, p75: 11.5, min: 10, max: 12 }],
+  })
+  assert.deepEqual(points, [{ period: '2024-Q1', median: 11, quartiles: [10.5, 11.5], count: 2 }])
+  assert.deepEqual(compChartPoints(undefined), [])
+  assert.equal(formatPsf(12.5), '$12.50')
+})
@@ -0,0 +1,60 @@
+export type CompStats = {
+  count: number
+  median: number
+  p25: number
+  p75: number
+  min: number
+  max: number
+}
+
+export type CompSeries = {
+  group: string
+  overall: CompStats
+  points: Array<CompStats & { period: string }>
+}
+
+export type CompAnalyticsResponse = {
+  groupBy: 'all' | 'submarket' | 'assetType' | 'sizeBand'
+  interval: 'quarter' | 'year'
+  netRent: CompSeries[]
+  salePricePerSf: CompSeries[]
+  excluded: { undated: number; unparseable: number; grossRent: number }
+  filters: { submarkets: string[]; assetTypes: string[]; sizeBands: string[] }
+}
+
+export type CompAnalyticsFilters = {
+  groupBy: CompAnalyticsResponse['groupBy']
+  interval: CompAnalyticsResponse['interval']
+  submarket?: string
+  assetType?: string
+  sizeBand?: string
+}
+
+export type CompChartPoint = {
+  period: string
+  median: number
+  quartiles: [number, number]
+  count: number
+}
+
+export function compAnalyticsUrl(filters: CompAnalyticsFilters) {
+  const params = new URLSearchParams({ groupBy: filters.groupBy, interval: filters.interval })
+  if (filters.submarket) params.set('submarket', filters.submarket)
+  if (filters.assetType) params.set('assetType', filters.assetType)
+  if (filters.sizeBand) params.set('sizeBand', filters.sizeBand)
+  return `/api/market-comps/analytics?${params.toString()}`
+}
+
+// Recharts draws an Area between the two values of an array data key, which gives the interquartile band.
+export function compChartPoints(series: CompSeries | undefined): CompChartPoint[] {
+  return (series?.points || []).map((point) => ({
+    period: point.period,
+    median: point.median,
+    quartiles: [point.p25, point.p75],
+    count: point.count,
+  }))
+}
+
+export function formatPsf(value: number) {
+  return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
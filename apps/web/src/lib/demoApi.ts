@@ -400,6 +400,7 @@ function readPayload(pathname: string, searchParams: URLSearchParams): DemoApiRe
     return { handled: true, payload: prospectId ? interactions.filter((item) => item.prospectId === prospectId) : interactions }
   }
   if (pathname === '/api/requirements') return { handled: true, payload: requirements }
+  if (pathname === '/api/contacts') return { handled: true, payload: { rows: [] } }
   if (pathname === '/api/listings' && searchParams.get('scope') === 'shared') return { handled: true, payload: sharedListings }
   if (pathname === '/api/listings') return { handled: true, payload: listings }
   if (/^\/api\/listings\/[^/]+\/members$/.test(pathname)) return { handled: true, payload: [] }
@@ -451,6 +452,15 @@ function readPayload(pathname: string, searchParams: URLSearchParams): DemoApiRe
       },
     }
   }
+  if (pathname === '/api/email/connections') {
+    return {
+      handled: true,
+      payload: {
+        providers: { outlook: { configured: true }, gmail: { configured: false }, imap: { configured: true } },
+        connections: [],
+      },
+    }
+  }
   if (pathname === '/api/email/inbound/config') {
     return { handled: true, payload: { configured: true, domainConfigured: true, intakeAddress: 'level-bcc@example.test', webhookUrl: '/api/email/inbound/postmark' } }
   }
@@ -482,7 +492,11 @@ function writePayload(method: string, pathname: string, data: unknown): DemoApiR
   }
   if (pathname.startsWith('/api/agent/sales-activity/imports/') && method === 'PATCH') return { handled: true, payload: { ok: true } }
   if (pathname === '/api/email/outlook/sync' || pathname === '/api/email/outlook/sync-bcc') return { handled: true, payload: { ok: true, imported: 0 } }
+  if (pathname === '/api/email/outlook/sync-calendar') return { handled: true, payload: { eventsSeen: 0, meetingsStaged: 0, suggestedMatches: 0 } }
   if (pathname === '/api/email/outlook/connect') return { handled: true, payload: { url: '/app/inbox' } }
+  if (pathname === '/api/contacts/backfill') {
+    return { handled: true, payload: { sourcesScanned: 0, companiesCreated: 0, companiesUpdated: 0, contactsCreated: 0, contactsUpdated: 0, linksCreated: 0 } }
+  }
   if (pathname.startsWith('/api/requirements') || pathname.startsWith('/api/interactions') || pathname.startsWith('/api/prospects') || pathname.startsWith('/api/listings')) {
     return { handled: true, payload: { ok: true } }
   }
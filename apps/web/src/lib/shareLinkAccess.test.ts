@@ -0,0 +1,23 @@
+import test from 'node:test'
+import assert from 'node:assert/strict'
+
+import { isShareAccessGrantFresh, readShareLinkError, withShareAccess } from './shareLinkAccess'
+
+test('readShareLinkError maps expired and passcode responses', () => {
+  assert.equal(readShareLinkError(new Error('410: {"reason":"expired"}')), 'expired')
+  assert.equal(readShareLinkError(new Error('401: {"reason":"passcode_required"}')), 'passcode_required')
+  assert.equal(readShareLinkError(new Error('404: not found')), null)
+  assert.equal(readShareLinkError(null), null)
+})
+
+test('isShareAccessGrantFresh rejects missing and expired grants', () => {
+  const now = Date.parse('2026-05-01T12:00:00.000Z')
+  assert.equal(isShareAccessGrantFresh({ access: 'abc', expiresAt: '2026-05-01T13:00:00.000Z' }, now), true)
+  assert.equal(isShareAccessGrantFresh({ access: 'abc', expiresAt: '2026-05-01T11:00:00.000Z' }, now), false)
+  assert.equal(isShareAccessGrantFresh({ access: null, expiresAt: null }, now), false)
+  assert.equal(isShareAccessGrantFresh(null, now), false)
+})
+
+test('withShareAccess leaves links alone without a stored grant', () => {
+  assert.equal(withShareAccess('/api/intel/surveys/share/abc/pdf', 'abc'), '/api/intel/surveys/share/abc/pdf')
+})
@@ -0,0 +1,71 @@
+// Client share links (surveys and pursuit activity) can be passcode protected.
+// Unlocking returns a short-lived grant that is kept for the browser session
+// and sent back as the X-Share-Access header, or `?access=` on plain links.
+
+export type ShareAccessGrant = {
+  access: string | null
+  expiresAt: string | null
+}
+
+export type ShareLinkErrorReason = 'expired' | 'passcode_required'
+
+const ACCESS_KEY_PREFIX = 'share-access:'
+const VIEW_KEY_PREFIX = 'share-viewed:'
+
+// Public pages throw `${status}: ${body}` errors; 410 and 401 carry a reason.
+export function readShareLinkError(error: unknown): ShareLinkErrorReason | null {
+  const message = error instanceof Error ? error.message : String(error ?? '')
+  const match = /^(\d{3}):/.exec(message)
+  if (match?.[1] === '410') return 'expired'
+  if (match?.[1] === '401') return 'passcode_required'
+  return null
+}
+
+export function isShareAccessGrantFresh(grant: ShareAccessGrant | null, now = Date.now()): grant is ShareAccessGrant & { access: string } {
+  if (!grant?.access) return false
+  if (!grant.expiresAt) return true
+  const expiresAt = new Date(grant.expiresAt).getTime()
+  return Number.isFinite(expiresAt) && expiresAt > now
+}
+
+export function getStoredShareAccess(token: string): string | null {
+  try {
+    const grant = JSON.parse(sessionStorage.getItem(`${ACCESS_KEY_PREFIX}${token}`) || 'null') as ShareAccessGrant | null
+    return isShareAccessGrantFresh(grant) ? grant.access : null
+  } catch {
+    return null
+  }
+}
+
+export function storeShareAccess(token: string, grant: ShareAccessGrant) {
+  try {
+    if (grant.access) {
+      sessionStorage.setItem(`${ACCESS_KEY_PREFIX}${token}`, JSON.stringify(grant))
+    } else {
+      sessionStorage.removeItem(`${ACCESS_KEY_PREFIX}${token}`)
+    }
+  } catch {}
+}
+
+export function shareAccessHeaders(token: string): Record<string, string> {
+  const access = getStoredShareAccess(token)
+  return access ? { 'X-Share-Access': access } : {}
+}
+
+export function withShareAccess(url: string, token: string): string {
+  const access = getStoredShareAccess(token)
+  if (!access) return url
+  return `${url}${url.includes('?') ? '&' : '?'}access=${encodeURIComponent(access)}`
+}
+
+// A page view is counted once per browser session so refreshes don't inflate it.
+export function claimShareView(token: string): boolean {
+  try {
+    const key = `${VIEW_KEY_PREFIX}${token}`
+    if (sessionStorage.getItem(key)) return false
+    sessionStorage.setItem(key, String(Date.now()))
+    return true
+  } catch {
+    return true
+  }
+}
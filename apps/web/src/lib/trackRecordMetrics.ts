@@ -1,10 +1,7 @@
+// Deals used to live only in this browser key. The track record page imports
+// them to /api/deals once and then records TRACK_RECORD_IMPORTED_KEY.
 export const TRACK_RECORD_STORAGE_KEY = 'level-cre.track-record.v1'
-
-type TrackRecordMetricDeal = {
-  dealType?: string
-  sizeSf?: string
-  closedDate?: string
-}
+export const TRACK_RECORD_IMPORTED_KEY = 'level-cre.track-record.v1.imported'
 
 export type TrackRecordMetrics = {
   totalDeals: number
@@ -24,15 +21,12 @@ export type ProductionBadge = {
   nextTargetSf?: number
 }
 
-const lifetimeSfBadges = [
-  { sf: 100000, label: '100K SF Club', tier: 'Bronze' },
-  { sf: 500000, label: 'Market Mover', tier: 'Silver' },
-  { sf: 1000000, label: 'Million SF Broker', tier: 'Gold' },
-  { sf: 2500000, label: 'Deal Volume Pro', tier: 'Platinum' },
-  { sf: 5000000, label: 'Market Maker', tier: 'Diamond' },
-]
+export type TrackRecordSummary = {
+  metrics: TrackRecordMetrics
+  productionBadge: ProductionBadge
+}
 
-export function parseTrackRecordNumber(value?: string | number) {
+export function parseTrackRecordNumber(value?: string | number | null) {
   const n = Number(String(value || '').replace(/[$,\s]/g, ''))
   return Number.isFinite(n) ? n : 0
 }
@@ -50,60 +44,23 @@ export function emptyTrackRecordMetrics(): TrackRecordMetrics {
   }
 }
 
-export function calculateTrackRecordMetrics(deals: TrackRecordMetricDeal[]): TrackRecordMetrics {
-  return deals.reduce((metrics, deal) => {
-    const size = parseTrackRecordNumber(deal.sizeSf)
-    const dealType = deal.dealType || 'unknown'
-
-    metrics.totalDeals += 1
-    metrics.totalSf += size
-
-    if (dealType === 'lease') {
-      metrics.leasedDeals += 1
-      metrics.leasedSf += size
-    } else if (dealType === 'sale') {
-      metrics.saleDeals += 1
-      metrics.saleSf += size
-    } else if (dealType === 'renewal') {
-      metrics.renewalDeals += 1
-      metrics.leasedSf += size
-    } else {
-      metrics.reviewDeals += 1
-    }
-
-    return metrics
-  }, emptyTrackRecordMetrics())
-}
-
-export function getLifetimeProductionBadge(metrics: TrackRecordMetrics): ProductionBadge {
-  const earned = [...lifetimeSfBadges].reverse().find((badge) => metrics.totalSf >= badge.sf)
-  const next = lifetimeSfBadges.find((badge) => metrics.totalSf < badge.sf)
-
-  if (!earned) {
-    return {
-      label: 'First 100K SF',
-      tier: 'Starter',
-      description: 'Keep building the track record.',
-      nextTargetSf: next?.sf,
-    }
-  }
+export function readLegacyTrackRecordDeals(): unknown[] {
+  if (typeof window === 'undefined') return []
 
-  return {
-    label: earned.label,
-    tier: earned.tier,
-    description: `${earned.sf.toLocaleString()}+ lifetime SF recorded.`,
-    nextTargetSf: next?.sf,
+  try {
+    if (window.localStorage.getItem(TRACK_RECORD_IMPORTED_KEY)) return []
+    const raw = window.localStorage.getItem(TRACK_RECORD_STORAGE_KEY)
+    const deals = raw ? JSON.parse(raw) : []
+    return Array.isArray(deals) ? deals : []
+  } catch {
+    return []
   }
 }
 
-export function readTrackRecordMetrics(): TrackRecordMetrics {
-  if (typeof window === 'undefined') return emptyTrackRecordMetrics()
-
+export function markLegacyTrackRecordImported() {
   try {
-    const raw = window.localStorage.getItem(TRACK_RECORD_STORAGE_KEY)
-    const deals = raw ? JSON.parse(raw) : []
-    return calculateTrackRecordMetrics(Array.isArray(deals) ? deals : [])
+    window.localStorage.setItem(TRACK_RECORD_IMPORTED_KEY, new Date().toISOString())
   } catch {
-    return emptyTrackRecordMetrics()
+    // Storage can be unavailable in private windows; the server dedupes retries.
   }
 }
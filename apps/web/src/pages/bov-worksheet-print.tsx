@@ -0,0 +1,126 @@
+import { useRoute } from 'wouter'
+import { Printer } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { useProfile } from '@/hooks/useProfile'
+import { useBovWorksheet } from '@/features/bov/api'
+import { bovValueUnit, formatBovDollars, formatBovPct, formatBovPsf } from '@/features/bov/worksheetDraft'
+
+function formatNumber(value: number | null | undefined, suffix = '') {
+  if (value === null || value === undefined) return '—'
+  return `${value.toLocaleString('en-US')}${suffix}`
+}
+
+export default function BovWorksheetPrintPage() {
+  const [, params] = useRoute('/app/bov/:id/print')
+  const versionParam = Number(new URLSearchParams(window.location.search).get('version'))
+  const version = Number.isInteger(versionParam) && versionParam > 0 ? versionParam : undefined
+  const { data: detail, isLoading } = useBovWorksheet(params?.id, version)
+  const { profile } = useProfile()
+
+  if (isLoading) return <div className="p-8 text-sm text-slate-500">Loading...</div>
+  const current = detail?.current
+  if (!detail || !current) {
+    return <div className="p-8 text-sm text-slate-500">Save a version of this worksheet before printing it.</div>
+  }
+
+  const { worksheet } = detail
+  const { subject, result } = current
+  const unit = bovValueUnit(worksheet.basis)
+  const comps = result.comps.filter((comp) => comp.included !== false)
+  const preparedBy = [profile?.name || [profile?.firstName, profile?.lastName].filter(Boolean).join(' '), profile?.company]
+    .filter(Boolean)
+    .join(' · ')
+
+  return (
+    <div className="min-h-screen bg-slate-100 px-4 py-6 print:bg-white print:p-0">
+      <div className="mx-auto max-w-4xl space-y-6 rounded-lg border border-slate-200 bg-white p-8 shadow-sm print:border-0 print:p-0 print:shadow-none">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <div className="text-xs uppercase tracking-wide text-slate-500">
+              {worksheet.basis === 'lease' ? 'Broker opinion of lease rate' : 'Broker opinion of value'}
+            </div>
+            <h1 className="mt-1 text-2xl font-bold text-slate-950">{subject.address || worksheet.title}</h1>
+            <div className="mt-1 text-sm text-slate-600">
+              {subject.valuationDate ? `As of ${subject.valuationDate}` : null}
+              {preparedBy ? `${subject.valuationDate ? ' · ' : ''}Prepared by ${preparedBy}` : null}
+            </div>
+          </div>
+          <Button size="icon" variant="outline" className="print:hidden" onClick={() => window.print()} aria-label="Print BOV">
+            <Printer className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <section className="grid gap-4 rounded-lg bg-slate-50 p-5 sm:grid-cols-3 print:bg-white print:p-0">
+          <div>
+            <div className="text-xs uppercase tracking-wide text-slate-500">{worksheet.basis === 'lease' ? 'Indicated annual net rent' : 'Indicated value'}</div>
+            <div className="mt-1 text-2xl font-semibold text-slate-950">{formatBovDollars(result.indicated?.mid)}</div>
+          </div>
+          <div>
+            <div className="text-xs uppercase tracking-wide text-slate-500">Range</div>
+            <div className="mt-1 text-lg font-semibold text-slate-950">
+              {result.indicated ? `${formatBovDollars(result.indicated.low)} – ${formatBovDollars(result.indicated.high)}` : '—'}
+            </div>
+          </div>
+          <div>
+            <div className="text-xs uppercase tracking-wide text-slate-500">{unit}</div>
+            <div className="mt-1 text-lg font-semibold text-slate-950">
+              {result.rangePsf ? `${formatBovPsf(result.rangePsf.low)} – ${formatBovPsf(result.rangePsf.high)}` : '—'}
+            </div>
+          </div>
+        </section>
+
+        <section>
+          <h2 className="mb-2 text-sm font-semibold text-slate-900">Subject</h2>
+          <dl className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm sm:grid-cols-4">
+            <dt className="text-slate-500">Building</dt>
+            <dd>{formatNumber(subject.buildingSizeSf, ' SF')}</dd>
+            <dt className="text-slate-500">Land</dt>
+            <dd>{formatNumber(subject.landSizeAcres, ' ac')}</dd>
+            <dt className="text-slate-500">Year built</dt>
+            <dd>{subject.yearBuilt ?? '—'}</dd>
+            <dt className="text-slate-500">Clear height</dt>
+            <dd>{formatNumber(subject.clearHeightFt, ' ft')}</dd>
+          </dl>
+        </section>
+
+        <section>
+          <h2 className="mb-2 text-sm font-semibold text-slate-900">Comparables</h2>
+          <table className="w-full text-xs">
+            <thead className="border-b border-slate-300 text-left text-slate-500">
+              <tr>
+                <th className="py-1 pr-2 font-medium">Property</th>
+                <th className="py-1 pr-2 text-right font-medium">SF</th>
+                <th className="py-1 pr-2 text-right font-medium">Built</th>
+                <th className="py-1 pr-2 text-right font-medium">Date</th>
+                <th className="py-1 pr-2 text-right font-medium">{unit}</th>
+                <th className="py-1 pr-2 text-right font-medium">Adj.</th>
+                <th className="py-1 text-right font-medium">Adjusted</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {comps.map((comp, index) => (
+                <tr key={`${comp.source}:${comp.sourceId || comp.address}:${index}`}>
+                  <td className="py-1.5 pr-2">
+                    {comp.address}
+                    {comp.isAsking ? <span className="ml-1 text-slate-500">(asking)</span> : null}
+                  </td>
+                  <td className="py-1.5 pr-2 text-right tabular-nums">{formatNumber(comp.buildingSizeSf)}</td>
+                  <td className="py-1.5 pr-2 text-right tabular-nums">{comp.yearBuilt ?? '—'}</td>
+                  <td className="py-1.5 pr-2 text-right tabular-nums">{comp.compDate || '—'}</td>
+                  <td className="py-1.5 pr-2 text-right tabular-nums">{formatBovPsf(comp.valuePsf)}</td>
+                  <td className="py-1.5 pr-2 text-right tabular-nums">{formatBovPct(comp.totalAdjustmentPct)}</td>
+                  <td className="py-1.5 text-right font-medium tabular-nums">{formatBovPsf(comp.adjustedValuePsf)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-3 text-xs text-slate-500">
+            Adjustments bring each comparable in line with the subject for size, age, clear height and date of the deal.
+            Asking rates are listings and may exceed achieved values. This opinion is not an appraisal.
+          </p>
+        </section>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,479 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useRoute } from 'wouter'
+import { GoogleMap, useJsApiLoader } from '@react-google-maps/api'
+import { ArrowLeft, Download, FileText, MapPin, Plus, Save, Search, Trash2 } from 'lucide-react'
+import { computeBovValuation, type BovAdjustmentSettings, type BovComp, type BovSubject } from '@level-cre/shared'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { AdvancedMapMarker } from '@/features/map/AdvancedMapMarker'
+import { useToast } from '@/hooks/use-toast'
+import { getGoogleMapsApiKey, getGoogleMapsMapId } from '@/lib/googleMapsApiKey'
+import {
+  downloadBovWorksheetCsv,
+  useBovCandidates,
+  useBovWorksheet,
+  useSaveBovWorksheetVersion,
+  type BovCandidateFilters,
+} from '@/features/bov/api'
+import {
+  BOV_SETTING_FIELDS,
+  bovCompKey,
+  bovValueUnit,
+  candidateToComp,
+  draftFromDetail,
+  formatBovDollars,
+  formatBovPct,
+  formatBovPsf,
+  missingAdjustmentText,
+  numberInput,
+  type BovDraft,
+} from '@/features/bov/worksheetDraft'
+
+const GOOGLE_MAPS_API_KEY = getGoogleMapsApiKey()
+const GOOGLE_MAPS_MAP_ID = getGoogleMapsMapId()
+const libraries: any = ['geometry', 'places', 'marker']
+const DEFAULT_MAP_CENTER = { lat: 53.5461, lng: -113.4938 }
+const CANDIDATE_COLOR = '#94A3B8'
+const SELECTED_COLOR = '#2563EB'
+const LATEST = 'latest'
+
+type Bounds = NonNullable<BovCandidateFilters['bounds']>
+
+// Keeps the typed text while editing so "12." or "-" are not swallowed before the value is complete.
+function NumberField({
+  value,
+  onChange,
+  className,
+  placeholder,
+  ariaLabel,
+}: {
+  value: number | null | undefined
+  onChange: (value: number | null) => void
+  className?: string
+  placeholder?: string
+  ariaLabel: string
+}) {
+  const [text, setText] = useState(value == null ? '' : String(value))
+  useEffect(() => {
+    setText(value == null ? '' : String(value))
+  }, [value])
+  return (
+    <Input
+      inputMode="decimal"
+      aria-label={ariaLabel}
+      className={className}
+      placeholder={placeholder}
+      value={text}
+      onChange={(event) => setText(event.target.value)}
+      onBlur={() => onChange(numberInput(text))}
+    />
+  )
+}
+
+export default function BovWorksheetPage() {
+  const { toast } = useToast()
+  const [, params] = useRoute('/app/bov/:id')
+  const worksheetId = params?.id
+  const [selectedVersion, setSelectedVersion] = useState<number | undefined>(undefined)
+  const { data: detail, isLoading, error } = useBovWorksheet(worksheetId, selectedVersion)
+  const saveMutation = useSaveBovWorksheetVersion(worksheetId || '')
+  const [draft, setDraft] = useState<BovDraft | null>(null)
+  const [isDirty, setIsDirty] = useState(false)
+  const [search, setSearch] = useState({ q: '', submarket: '', minSf: '', maxSf: '' })
+  const [limitToMap, setLimitToMap] = useState(false)
+  const [map, setMap] = useState<google.maps.Map | null>(null)
+  const [mapBounds, setMapBounds] = useState<Bounds | null>(null)
+  const { isLoaded: isMapLoaded } = useJsApiLoader({
+    id: 'google-map-script',
+    googleMapsApiKey: GOOGLE_MAPS_API_KEY,
+    libraries,
+    mapIds: [GOOGLE_MAPS_MAP_ID],
+  })
+
+  const loadedKey = detail ? `${detail.worksheet.id}:${detail.current?.version ?? 0}` : null
+  useEffect(() => {
+    if (!detail) return
+    setDraft(draftFromDetail(detail))
+    setIsDirty(false)
+  }, [loadedKey])
+
+  const basis = detail?.worksheet.basis || 'sale'
+  const candidateFilters = useMemo<BovCandidateFilters>(() => ({
+    basis,
+    ...search,
+    bounds: limitToMap ? mapBounds : null,
+  }), [basis, search, limitToMap, mapBounds])
+  const { data: candidateData, isFetching: isSearching } = useBovCandidates(candidateFilters, { enabled: Boolean(detail) })
+  const candidates = candidateData?.rows || []
+
+  const valuation = useMemo(
+    () => (draft ? computeBovValuation(draft.subject, draft.settings, draft.comps) : null),
+    [draft],
+  )
+  const selectedKeys = useMemo(() => new Set((draft?.comps || []).map(bovCompKey)), [draft])
+  const mapCenter = useMemo(() => {
+    const located = (draft?.comps || []).find((comp) => comp.lat != null && comp.lng != null)
+      || candidates.find((candidate) => candidate.lat != null && candidate.lng != null)
+    return located ? { lat: located.lat!, lng: located.lng! } : DEFAULT_MAP_CENTER
+    // Only recentre when the worksheet loads, not on every search.
+  }, [loadedKey, candidates.length > 0])
+
+  if (isLoading || (detail && !draft)) return <div className="p-8 text-sm text-slate-500">Loading worksheet...</div>
+  if (error || !detail || !draft || !valuation) {
+    return <div className="p-8 text-sm text-slate-500">This BOV worksheet could not be found.</div>
+  }
+
+  const edit = (update: (current: BovDraft) => BovDraft) => {
+    setDraft((current) => (current ? update(current) : current))
+    setIsDirty(true)
+  }
+  const updateSubject = (patch: Partial<BovSubject>) => edit((current) => ({ ...current, subject: { ...current.subject, ...patch } }))
+  const updateSettings = (patch: Partial<BovAdjustmentSettings>) => edit((current) => ({ ...current, settings: { ...current.settings, ...patch } }))
+  const updateComp = (key: string, patch: Partial<BovComp>) => edit((current) => ({
+    ...current,
+    comps: current.comps.map((comp) => (bovCompKey(comp) === key ? { ...comp, ...patch } : comp)),
+  }))
+  const removeComp = (key: string) => edit((current) => ({ ...current, comps: current.comps.filter((comp) => bovCompKey(comp) !== key) }))
+  const addCandidate = (candidate: (typeof candidates)[number]) => edit((current) => ({ ...current, comps: [...current.comps, candidateToComp(candidate)] }))
+
+  const save = () => {
+    saveMutation.mutate({
+      label: draft.label.trim() || null,
+      subject: draft.subject,
+      settings: draft.settings,
+      comps: draft.comps,
+    }, {
+      onSuccess: (version) => {
+        setSelectedVersion(undefined)
+        setIsDirty(false)
+        toast({ title: `Saved version ${version.version}` })
+      },
+      onError: (saveError: Error) => toast({ title: 'Could not save worksheet', description: saveError.message, variant: 'destructive' }),
+    })
+  }
+
+  const exportCsv = async () => {
+    if (!detail.current) return
+    try {
+      await downloadBovWorksheetCsv(detail.worksheet.id, detail.current.version)
+    } catch (exportError: any) {
+      toast({ title: 'Could not export CSV', description: exportError?.message, variant: 'destructive' })
+    }
+  }
+
+  const unit = bovValueUnit(basis)
+  const savedVersion = detail.current?.version
+  const canExport = Boolean(savedVersion) && !isDirty
+
+  return (
+    <div className="min-h-screen bg-slate-50 px-6 py-8">
+      <div className="mx-auto max-w-7xl space-y-6">
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-start lg:justify-between">
+          <div>
+            <Link href="/app/bov" className="mb-2 inline-flex items-center gap-1 text-xs text-slate-500 hover:text-slate-800">
+              <ArrowLeft className="h-3.5 w-3.5" />
+              BOV worksheets
+            </Link>
+            <h1 className="text-3xl font-bold tracking-tight text-slate-950">{detail.worksheet.title}</h1>
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-slate-600">
+              <Badge variant="outline">{basis === 'lease' ? 'Lease BOV' : 'Sale BOV'}</Badge>
+              {detail.worksheet.opportunityTitle ? <span>Opportunity: {detail.worksheet.opportunityTitle}</span> : null}
+              {detail.worksheet.dossierTitle ? <span>Dossier: {detail.worksheet.dossierTitle}</span> : null}
+              {isDirty ? <Badge variant="secondary">Unsaved changes</Badge> : null}
+            </div>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            {detail.versions.length > 0 && (
+              <div className="space-y-1">
+                <Label className="text-xs text-slate-500">Version</Label>
+                <Select
+                  value={selectedVersion === undefined ? LATEST : String(selectedVersion)}
+                  onValueChange={(value) => setSelectedVersion(value === LATEST ? undefined : Number(value))}
+                >
+                  <SelectTrigger className="h-9 w-[220px]"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={LATEST}>Latest (v{detail.worksheet.latestVersion})</SelectItem>
+                    {detail.versions.map((version) => (
+                      <SelectItem key={version.version} value={String(version.version)}>
+                        v{version.version}{version.label ? ` · ${version.label}` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <Button variant="outline" disabled={!canExport} onClick={exportCsv} title={canExport ? undefined : 'Save your changes to export'}>
+              <Download className="mr-2 h-4 w-4" />
+              CSV
+            </Button>
+            {canExport ? (
+              <Button variant="outline" asChild>
+                <a href={`/app/bov/${detail.worksheet.id}/print?version=${savedVersion}`} target="_blank" rel="noreferrer">
+                  <FileText className="mr-2 h-4 w-4" />
+                  Client PDF
+                </a>
+              </Button>
+            ) : (
+              <Button variant="outline" disabled title="Save your changes to export">
+                <FileText className="mr-2 h-4 w-4" />
+                Client PDF
+              </Button>
+            )}
+            <Input
+              className="h-9 w-[200px]"
+              placeholder="Version note (optional)"
+              value={draft.label}
+              onChange={(event) => setDraft({ ...draft, label: event.target.value })}
+            />
+            <Button disabled={saveMutation.isPending || !isDirty} onClick={save}>
+              <Save className="mr-2 h-4 w-4" />
+              {saveMutation.isPending ? 'Saving...' : 'Save version'}
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-4 lg:grid-cols-[2fr_1fr]">
+          <Card>
+            <CardHeader className="pb-2"><CardTitle className="text-base">Subject property</CardTitle></CardHeader>
+            <CardContent className="grid gap-3 sm:grid-cols-3">
+              <div className="space-y-1 sm:col-span-3">
+                <Label htmlFor="bov-subject-address">Address</Label>
+                <Input id="bov-subject-address" value={draft.subject.address || ''} onChange={(event) => updateSubject({ address: event.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Building SF</Label>
+                <NumberField ariaLabel="Subject building SF" value={draft.subject.buildingSizeSf} onChange={(buildingSizeSf) => updateSubject({ buildingSizeSf })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Year built</Label>
+                <NumberField ariaLabel="Subject year built" value={draft.subject.yearBuilt} onChange={(yearBuilt) => updateSubject({ yearBuilt: yearBuilt === null ? null : Math.round(yearBuilt) })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Clear height (ft)</Label>
+                <NumberField ariaLabel="Subject clear height" value={draft.subject.clearHeightFt} onChange={(clearHeightFt) => updateSubject({ clearHeightFt })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Land (acres)</Label>
+                <NumberField ariaLabel="Subject land acres" value={draft.subject.landSizeAcres} onChange={(landSizeAcres) => updateSubject({ landSizeAcres })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="bov-valuation-date">Valuation date</Label>
+                <Input id="bov-valuation-date" type="date" value={draft.subject.valuationDate || ''} onChange={(event) => updateSubject({ valuationDate: event.target.value || null })} />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2"><CardTitle className="text-base">Adjustment rates</CardTitle></CardHeader>
+            <CardContent className="grid grid-cols-2 gap-3">
+              {BOV_SETTING_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label className="text-xs">{field.label}</Label>
+                  <NumberField
+                    ariaLabel={field.label}
+                    value={draft.settings[field.key]}
+                    onChange={(value) => updateSettings({ [field.key]: value ?? 0 })}
+                  />
+                </div>
+              ))}
+              <p className="col-span-2 text-xs text-slate-500">Comps are moved toward the subject: a larger, older, lower or earlier comp is adjusted up.</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <CardTitle className="text-base">Selected comps ({draft.comps.length})</CardTitle>
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <span>Low <strong>{formatBovPsf(valuation.rangePsf?.low)}</strong></span>
+                <span>Weighted <strong>{formatBovPsf(valuation.rangePsf?.weightedAverage)}</strong></span>
+                <span>High <strong>{formatBovPsf(valuation.rangePsf?.high)}</strong></span>
+                <span className="text-slate-500">{unit}</span>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {draft.comps.length === 0 ? (
+              <p className="py-6 text-center text-sm text-slate-500">Add comps from the search below.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full min-w-[1100px] text-xs">
+                  <thead className="text-left text-slate-500">
+                    <tr>
+                      <th className="py-1 pr-2 font-medium">Use</th>
+                      <th className="py-1 pr-2 font-medium">Comp</th>
+                      <th className="py-1 pr-2 font-medium">{unit}</th>
+                      <th className="py-1 pr-2 font-medium">Building SF</th>
+                      <th className="py-1 pr-2 font-medium">Year built</th>
+                      <th className="py-1 pr-2 font-medium">Clear ft</th>
+                      <th className="py-1 pr-2 font-medium">Date</th>
+                      <th className="py-1 pr-2 text-right font-medium">Size</th>
+                      <th className="py-1 pr-2 text-right font-medium">Age</th>
+                      <th className="py-1 pr-2 text-right font-medium">Clear</th>
+                      <th className="py-1 pr-2 text-right font-medium">Date</th>
+                      <th className="py-1 pr-2 font-medium">Other %</th>
+                      <th className="py-1 pr-2 font-medium">Weight</th>
+                      <th className="py-1 pr-2 text-right font-medium">Adjusted</th>
+                      <th className="py-1" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 align-top">
+                    {valuation.comps.map((comp) => {
+                      const key = bovCompKey(comp)
+                      const missing = missingAdjustmentText(comp.missing)
+                      return (
+                        <tr key={key} className={comp.included === false ? 'text-slate-400' : 'text-slate-800'}>
+                          <td className="py-2 pr-2">
+                            <Switch checked={comp.included !== false} onCheckedChange={(included) => updateComp(key, { included })} aria-label="Use comp" />
+                          </td>
+                          <td className="max-w-[220px] py-2 pr-2">
+                            <div className="font-medium">{comp.address}</div>
+                            <div className="mt-0.5 flex flex-wrap gap-1">
+                              <Badge variant="outline" className="px-1.5 py-0 text-[10px]">{comp.isAsking ? 'Asking' : 'Closed'}</Badge>
+                              {missing ? <span className="text-[10px] text-amber-700">{missing}</span> : null}
+                            </div>
+                          </td>
+                          <td className="py-2 pr-2"><NumberField ariaLabel="Comp value" className="h-8 w-20 text-xs" value={comp.valuePsf} onChange={(valuePsf) => updateComp(key, { valuePsf })} /></td>
+                          <td className="py-2 pr-2"><NumberField ariaLabel="Comp building SF" className="h-8 w-24 text-xs" value={comp.buildingSizeSf} onChange={(buildingSizeSf) => updateComp(key, { buildingSizeSf })} /></td>
+                          <td className="py-2 pr-2"><NumberField ariaLabel="Comp year built" className="h-8 w-16 text-xs" value={comp.yearBuilt} onChange={(yearBuilt) => updateComp(key, { yearBuilt: yearBuilt === null ? null : Math.round(yearBuilt) })} /></td>
+                          <td className="py-2 pr-2"><NumberField ariaLabel="Comp clear height" className="h-8 w-14 text-xs" value={comp.clearHeightFt} onChange={(clearHeightFt) => updateComp(key, { clearHeightFt })} /></td>
+                          <td className="py-2 pr-2">
+                            <Input type="date" aria-label="Comp date" className="h-8 w-[130px] text-xs" value={comp.compDate || ''} onChange={(event) => updateComp(key, { compDate: event.target.value || null })} />
+                          </td>
+                          <td className="py-2 pr-2 text-right tabular-nums">{formatBovPct(comp.adjustments.size)}</td>
+                          <td className="py-2 pr-2 text-right tabular-nums">{formatBovPct(comp.adjustments.age)}</td>
+                          <td className="py-2 pr-2 text-right tabular-nums">{formatBovPct(comp.adjustments.clearHeight)}</td>
+                          <td className="py-2 pr-2 text-right tabular-nums">{formatBovPct(comp.adjustments.time)}</td>
+                          <td className="py-2 pr-2"><NumberField ariaLabel="Other adjustment" className="h-8 w-16 text-xs" value={comp.otherPct} onChange={(otherPct) => updateComp(key, { otherPct })} /></td>
+                          <td className="py-2 pr-2"><NumberField ariaLabel="Comp weight" className="h-8 w-14 text-xs" value={comp.weight ?? 1} onChange={(weight) => updateComp(key, { weight: weight ?? 1 })} /></td>
+                          <td className="py-2 pr-2 text-right font-semibold tabular-nums">
+                            {formatBovPsf(comp.adjustedValuePsf)}
+                            <div className="text-[10px] font-normal text-slate-500">{formatBovPct(comp.totalAdjustmentPct)}</div>
+                          </td>
+                          <td className="py-2">
+                            <Button size="icon" variant="ghost" className="h-8 w-8" aria-label="Remove comp" onClick={() => removeComp(key)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <div className="grid gap-3 rounded-lg border border-slate-200 bg-white p-4 sm:grid-cols-3">
+              <div>
+                <div className="text-xs uppercase tracking-wide text-slate-500">Indicated {basis === 'lease' ? 'annual net rent' : 'value'}</div>
+                <div className="mt-1 text-xl font-semibold text-slate-950">
+                  {valuation.indicated ? `${formatBovDollars(valuation.indicated.low)} – ${formatBovDollars(valuation.indicated.high)}` : '—'}
+                </div>
+              </div>
+              <div>
+                <div className="text-xs uppercase tracking-wide text-slate-500">Point estimate</div>
+                <div className="mt-1 text-xl font-semibold text-slate-950">{formatBovDollars(valuation.indicated?.mid)}</div>
+              </div>
+              <div className="text-xs text-slate-500">
+                {valuation.usedCount} comp{valuation.usedCount === 1 ? '' : 's'} used. Median {formatBovPsf(valuation.rangePsf?.median)} {unit}.
+                {!draft.subject.buildingSizeSf ? ' Add the subject building size to price the range.' : ''}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2"><CardTitle className="flex items-center gap-2 text-base"><Search className="h-4 w-4" />Find comps</CardTitle></CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid gap-2 md:grid-cols-[2fr_1fr_1fr_1fr_auto] md:items-center">
+              <Input placeholder="Address or submarket" value={search.q} onChange={(event) => setSearch({ ...search, q: event.target.value })} />
+              <Input placeholder="Submarket" value={search.submarket} onChange={(event) => setSearch({ ...search, submarket: event.target.value })} />
+              <Input placeholder="Min SF" inputMode="numeric" value={search.minSf} onChange={(event) => setSearch({ ...search, minSf: event.target.value })} />
+              <Input placeholder="Max SF" inputMode="numeric" value={search.maxSf} onChange={(event) => setSearch({ ...search, maxSf: event.target.value })} />
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <Switch checked={limitToMap} onCheckedChange={setLimitToMap} />
+                Map area
+              </label>
+            </div>
+            <div className="grid gap-3 lg:grid-cols-[1.2fr_1fr]">
+              <div className="h-[380px] overflow-hidden rounded-lg border border-slate-200 bg-slate-100">
+                {isMapLoaded ? (
+                  <GoogleMap
+                    mapContainerStyle={{ width: '100%', height: '100%' }}
+                    center={mapCenter}
+                    zoom={11}
+                    onLoad={setMap}
+                    onUnmount={() => setMap(null)}
+                    onIdle={() => {
+                      const bounds = map?.getBounds?.()
+                      if (!bounds) return
+                      const ne = bounds.getNorthEast()
+                      const sw = bounds.getSouthWest()
+                      setMapBounds({ north: ne.lat(), east: ne.lng(), south: sw.lat(), west: sw.lng() })
+                    }}
+                    options={{ streetViewControl: false, mapTypeControl: false, fullscreenControl: false, gestureHandling: 'greedy', mapId: GOOGLE_MAPS_MAP_ID }}
+                  >
+                    {candidates.filter((candidate) => candidate.lat != null && candidate.lng != null).map((candidate) => {
+                      const key = bovCompKey(candidate)
+                      const selected = selectedKeys.has(key)
+                      return (
+                        <AdvancedMapMarker
+                          key={key}
+                          markerId={key}
+                          position={{ lat: candidate.lat!, lng: candidate.lng! }}
+                          title={`${candidate.address} · ${formatBovPsf(candidate.valuePsf)}`}
+                          color={selected ? SELECTED_COLOR : CANDIDATE_COLOR}
+                          selected={selected}
+                          onClick={selected ? undefined : () => addCandidate(candidate)}
+                        />
+                      )
+                    })}
+                  </GoogleMap>
+                ) : (
+                  <div className="flex h-full items-center justify-center text-sm text-slate-500">Loading map...</div>
+                )}
+              </div>
+              <div className="max-h-[380px] overflow-y-auto rounded-lg border border-slate-200 bg-white">
+                {candidates.length === 0 ? (
+                  <p className="p-4 text-sm text-slate-500">{isSearching ? 'Searching...' : 'No comps or listings match these filters.'}</p>
+                ) : (
+                  <ul className="divide-y divide-slate-100">
+                    {candidates.map((candidate) => {
+                      const key = bovCompKey(candidate)
+                      const selected = selectedKeys.has(key)
+                      return (
+                        <li key={key} className="flex items-center justify-between gap-3 px-3 py-2">
+                          <div className="min-w-0 text-xs">
+                            <div className="flex items-center gap-1 truncate text-sm font-medium text-slate-900">
+                              {candidate.lat != null ? <MapPin className="h-3.5 w-3.5 shrink-0 text-slate-400" /> : null}
+                              {candidate.address}
+                            </div>
+                            <div className="mt-0.5 text-slate-500">
+                              {candidate.isAsking ? 'Asking' : 'Closed'} · {formatBovPsf(candidate.valuePsf)} {unit}
+                              {candidate.buildingSizeSf ? ` · ${candidate.buildingSizeSf.toLocaleString('en-US')} SF` : ''}
+                              {candidate.compDate ? ` · ${candidate.compDate}` : ''}
+                              {candidate.submarket ? ` · ${candidate.submarket}` : ''}
+                            </div>
+                          </div>
+                          <Button size="sm" variant={selected ? 'secondary' : 'outline'} disabled={selected} onClick={() => addCandidate(candidate)}>
+                            {selected ? 'Added' : <><Plus className="mr-1 h-3.5 w-3.5" />Add</>}
+                          </Button>
+                        </li>
+                      )
+                    })}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
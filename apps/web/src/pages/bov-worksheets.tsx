@@ -0,0 +1,190 @@
+import { useMemo, useState } from 'react'
+import { Link, useLocation } from 'wouter'
+import { useQuery } from '@tanstack/react-query'
+import { Calculator, Plus } from 'lucide-react'
+import type { BovBasis } from '@level-cre/shared'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Modal, ModalContent, ModalDescription, ModalHeader, ModalTitle } from '@/components/primitives/Modal'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useToast } from '@/hooks/use-toast'
+import { useBovWorksheets, useCreateBovWorksheet } from '@/features/bov/api'
+
+type LinkOption = { id: string; label: string }
+
+type CreateForm = {
+  title: string
+  basis: BovBasis
+  linkKind: 'opportunity' | 'dossier'
+  linkId: string
+}
+
+const NONE = 'none'
+
+function initialForm(): CreateForm {
+  const params = new URLSearchParams(window.location.search)
+  const dossierId = params.get('dossierId')
+  return {
+    title: '',
+    basis: 'sale',
+    linkKind: dossierId ? 'dossier' : 'opportunity',
+    linkId: dossierId || params.get('opportunityId') || '',
+  }
+}
+
+export default function BovWorksheetsPage() {
+  const { toast } = useToast()
+  const [, setLocation] = useLocation()
+  const [form, setForm] = useState<CreateForm>(initialForm)
+  const [isCreateOpen, setIsCreateOpen] = useState(() => Boolean(form.linkId))
+  const filter = useMemo(() => {
+    const params = new URLSearchParams(window.location.search)
+    return {
+      opportunityId: params.get('opportunityId') || undefined,
+      intelDossierId: params.get('dossierId') || undefined,
+    }
+  }, [])
+
+  const { data, isLoading } = useBovWorksheets(filter)
+  const worksheets = data?.rows || []
+  const { data: opportunityOptions = [] } = useQuery<{ rows: any[] }, Error, LinkOption[]>({
+    queryKey: ['/api/opportunities'],
+    enabled: isCreateOpen,
+    select: (result) => (result?.rows || []).map((row) => ({ id: row.id, label: row.title })),
+  })
+  const { data: dossierOptions = [] } = useQuery<any[], Error, LinkOption[]>({
+    queryKey: ['/api/intel/dossiers'],
+    enabled: isCreateOpen,
+    select: (rows) => (Array.isArray(rows) ? rows : []).map((row) => ({ id: row.id, label: row.title || row.address || 'Untitled dossier' })),
+  })
+  const linkOptions = form.linkKind === 'opportunity' ? opportunityOptions : dossierOptions
+
+  const createMutation = useCreateBovWorksheet()
+  const updateForm = (patch: Partial<CreateForm>) => setForm((current) => ({ ...current, ...patch }))
+
+  const submit = () => {
+    createMutation.mutate({
+      title: form.title.trim(),
+      basis: form.basis,
+      opportunityId: form.linkKind === 'opportunity' ? form.linkId : null,
+      intelDossierId: form.linkKind === 'dossier' ? form.linkId : null,
+    }, {
+      onSuccess: (worksheet) => setLocation(`/app/bov/${worksheet.id}`),
+      onError: (error: Error) => toast({ title: 'Could not create worksheet', description: error.message, variant: 'destructive' }),
+    })
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 px-6 py-8">
+      <div className="mx-auto max-w-6xl space-y-6">
+        <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+          <div>
+            <Badge variant="outline" className="mb-2 gap-2 rounded-full border-blue-200 bg-blue-50 px-3 py-1 text-blue-700">
+              <Calculator className="h-3.5 w-3.5" />
+              Listing proposals
+            </Badge>
+            <h1 className="text-4xl font-bold tracking-tight text-slate-950">BOV worksheets</h1>
+            <p className="mt-2 max-w-2xl text-sm text-slate-600">
+              Pick comps, adjust them to the subject and save each opinion of value as a version you can send.
+            </p>
+          </div>
+          <Button className="h-10 rounded-full px-4" onClick={() => setIsCreateOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New worksheet
+          </Button>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="p-6 text-sm text-slate-500">Loading worksheets...</div>
+            ) : worksheets.length === 0 ? (
+              <div className="p-6 text-sm text-slate-500">No BOV worksheets yet. Start one from an opportunity or a property dossier.</div>
+            ) : (
+              <ul className="divide-y divide-slate-200">
+                {worksheets.map((worksheet) => (
+                  <li key={worksheet.id}>
+                    <Link href={`/app/bov/${worksheet.id}`} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 hover:bg-slate-50">
+                      <div className="min-w-0">
+                        <div className="truncate text-sm font-medium text-slate-950">{worksheet.title}</div>
+                        <div className="mt-1 text-xs text-slate-500">
+                          {worksheet.opportunityTitle || worksheet.dossierTitle || 'Unlinked'}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{worksheet.basis === 'lease' ? 'Lease' : 'Sale'}</Badge>
+                        <Badge variant="secondary">{worksheet.latestVersion ? `v${worksheet.latestVersion}` : 'Draft'}</Badge>
+                      </div>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Modal open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <ModalContent className="max-w-md">
+          <ModalHeader>
+            <ModalTitle>New BOV worksheet</ModalTitle>
+            <ModalDescription>Tie it to the opportunity or dossier you are pitching.</ModalDescription>
+          </ModalHeader>
+          <form
+            className="space-y-3"
+            onSubmit={(event) => {
+              event.preventDefault()
+              submit()
+            }}
+          >
+            <div className="space-y-1">
+              <Label htmlFor="bov-title">Title</Label>
+              <Input id="bov-title" value={form.title} onChange={(event) => updateForm({ title: event.target.value })} placeholder="1200 Dock Rd sale BOV" />
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label>Value</Label>
+                <Select value={form.basis} onValueChange={(value) => updateForm({ basis: value as BovBasis })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="sale">Sale price $/SF</SelectItem>
+                    <SelectItem value="lease">Net rent $/SF</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Linked to</Label>
+                <Select value={form.linkKind} onValueChange={(value) => updateForm({ linkKind: value as CreateForm['linkKind'], linkId: '' })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="opportunity">Opportunity</SelectItem>
+                    <SelectItem value="dossier">Property dossier</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>{form.linkKind === 'opportunity' ? 'Opportunity' : 'Property dossier'}</Label>
+              <Select value={form.linkId || NONE} onValueChange={(value) => updateForm({ linkId: value === NONE ? '' : value })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Choose...</SelectItem>
+                  {linkOptions.map((option) => <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={createMutation.isPending || !form.title.trim() || !form.linkId}>
+                {createMutation.isPending ? 'Creating...' : 'Create worksheet'}
+              </Button>
+            </div>
+          </form>
+        </ModalContent>
+      </Modal>
+    </div>
+  )
+}
@@ -0,0 +1,248 @@
+import { Link, useRoute } from 'wouter'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { ArrowLeft, Building2, ExternalLink, Mail, MapPin, Phone, Unlink } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { useToast } from '@/hooks/use-toast'
+import { apiRequest } from '@/lib/queryClient'
+import { contactLabel, type DirectoryContact } from './contacts'
+
+type ContactLink = {
+  id: string
+  entityType: 'prospect' | 'opportunity' | 'dossier'
+  entityId: string
+  label: string | null
+  detail: string | null
+  source: string
+}
+
+type ContactDetail = DirectoryContact & {
+  company: null | { id: string; name: string; domain: string | null; contactCount: number }
+  colleagues: DirectoryContact[]
+  links: ContactLink[]
+  emails: Array<{
+    id: string
+    direction: string
+    subject: string | null
+    senderEmail: string | null
+    snippet: string | null
+    sourceUrl: string | null
+    at: string | null
+  }>
+  interactions: Array<{
+    id: string
+    kind: 'interaction' | 'activity'
+    type: string
+    outcome: string | null
+    summary: string | null
+    prospectId: string | null
+    at: string | null
+  }>
+}
+
+const LINK_TYPE_LABELS: Record<ContactLink['entityType'], string> = {
+  prospect: 'Property',
+  dossier: 'Dossier',
+  opportunity: 'Opportunity',
+}
+
+function linkHref(link: ContactLink) {
+  if (link.entityType === 'prospect') return `/app?prospectId=${encodeURIComponent(link.entityId)}`
+  if (link.entityType === 'dossier') return `/tools/industrial-intel/dossiers?dossierId=${encodeURIComponent(link.entityId)}`
+  return null
+}
+
+function formatDate(value: string | null) {
+  if (!value) return ''
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+function humanize(value: string) {
+  return value.replace(/_/g, ' ')
+}
+
+export default function ContactDetailPage() {
+  const [, params] = useRoute('/app/contacts/:id')
+  const contactId = params?.id as string
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const { data: contact, isLoading, error } = useQuery<ContactDetail>({
+    queryKey: ['/api/contacts', contactId],
+    enabled: !!contactId,
+  })
+
+  const unlinkMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      await apiRequest('DELETE', `/api/contacts/${contactId}/links/${linkId}`)
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/contacts', contactId] }),
+    onError: (mutationError: Error) => {
+      toast({ title: 'Could not remove link', description: mutationError.message, variant: 'destructive' })
+    },
+  })
+
+  if (isLoading) return <div className="p-8 text-sm text-slate-500">Loading contact...</div>
+  if (error || !contact) {
+    return (
+      <div className="p-8 text-sm text-slate-600">
+        Contact not found. <Link href="/app/contacts" className="text-blue-700 underline">Back to contacts</Link>
+      </div>
+    )
+  }
+
+  const properties = contact.links.filter((link) => link.entityType !== 'opportunity')
+  const opportunities = contact.links.filter((link) => link.entityType === 'opportunity')
+
+  const renderLinks = (links: ContactLink[], empty: string) => (
+    links.length === 0 ? (
+      <p className="text-sm text-slate-500">{empty}</p>
+    ) : (
+      <ul className="divide-y divide-slate-200">
+        {links.map((link) => {
+          const href = linkHref(link)
+          return (
+            <li key={link.id} className="flex items-center justify-between gap-3 py-2">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 text-sm font-medium text-slate-900">
+                  <Badge variant="outline">{LINK_TYPE_LABELS[link.entityType]}</Badge>
+                  {href ? (
+                    <Link href={href} className="truncate hover:underline">{link.label || 'Untitled'}</Link>
+                  ) : (
+                    <span className="truncate">{link.label || 'Untitled'}</span>
+                  )}
+                </div>
+                {link.detail ? <p className="mt-1 flex items-center gap-1 truncate text-xs text-slate-500"><MapPin className="h-3 w-3" />{link.detail}</p> : null}
+              </div>
+              <Button
+                size="sm"
+                variant="ghost"
+                aria-label={`Unlink ${link.label || LINK_TYPE_LABELS[link.entityType]}`}
+                disabled={unlinkMutation.isPending}
+                onClick={() => unlinkMutation.mutate(link.id)}
+              >
+                <Unlink className="h-4 w-4" />
+              </Button>
+            </li>
+          )
+        })}
+      </ul>
+    )
+  )
+
+  return (
+    <div className="min-h-screen bg-slate-50 px-6 py-8">
+      <div className="mx-auto max-w-6xl space-y-6">
+        <Link href="/app/contacts" className="inline-flex items-center gap-1 text-sm text-slate-600 hover:text-slate-900">
+          <ArrowLeft className="h-4 w-4" />
+          Contacts
+        </Link>
+
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-slate-950">{contactLabel(contact)}</h1>
+          <div className="mt-2 flex flex-wrap items-center gap-x-5 gap-y-1 text-sm text-slate-600">
+            {contact.title ? <span>{contact.title}</span> : null}
+            {contact.company ? <span className="flex items-center gap-1"><Building2 className="h-4 w-4" />{contact.company.name}</span> : null}
+            {contact.email ? <a href={`mailto:${contact.email}`} className="flex items-center gap-1 hover:underline"><Mail className="h-4 w-4" />{contact.email}</a> : null}
+            {contact.phone ? <a href={`tel:${contact.phone}`} className="flex items-center gap-1 hover:underline"><Phone className="h-4 w-4" />{contact.phone}</a> : null}
+          </div>
+          {contact.notes ? <p className="mt-3 max-w-3xl whitespace-pre-wrap text-sm text-slate-700">{contact.notes}</p> : null}
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="space-y-6 lg:col-span-2">
+            <Card>
+              <CardHeader><CardTitle className="text-base">Properties</CardTitle></CardHeader>
+              <CardContent>{renderLinks(properties, 'No properties linked yet.')}</CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader><CardTitle className="text-base">Interactions</CardTitle></CardHeader>
+              <CardContent>
+                {contact.interactions.length === 0 ? (
+                  <p className="text-sm text-slate-500">No logged calls, meetings or activity yet.</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {contact.interactions.map((item) => (
+                      <li key={`${item.kind}:${item.id}`} className="text-sm">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Badge variant={item.kind === 'interaction' ? 'secondary' : 'outline'} className="capitalize">{humanize(item.type)}</Badge>
+                          {item.outcome ? <span className="text-xs capitalize text-slate-500">{humanize(item.outcome)}</span> : null}
+                          <span className="text-xs text-slate-400">{formatDate(item.at)}</span>
+                        </div>
+                        {item.summary ? <p className="mt-1 text-slate-700">{item.summary}</p> : null}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader><CardTitle className="text-base">Emails</CardTitle></CardHeader>
+              <CardContent>
+                {contact.emails.length === 0 ? (
+                  <p className="text-sm text-slate-500">{contact.email ? 'No synced email with this address yet.' : 'Add an email address to see synced mail.'}</p>
+                ) : (
+                  <ul className="divide-y divide-slate-200">
+                    {contact.emails.map((email) => (
+                      <li key={email.id} className="py-2 text-sm">
+                        <div className="flex items-center justify-between gap-3">
+                          <span className="truncate font-medium text-slate-900">{email.subject || '(no subject)'}</span>
+                          <span className="shrink-0 text-xs text-slate-400">{formatDate(email.at)}</span>
+                        </div>
+                        <div className="mt-1 flex items-center gap-2 text-xs text-slate-500">
+                          <Badge variant="outline" className="capitalize">{email.direction}</Badge>
+                          {email.snippet ? <span className="truncate">{email.snippet}</span> : null}
+                          {email.sourceUrl ? (
+                            <a href={email.sourceUrl} target="_blank" rel="noreferrer" aria-label="Open email" className="shrink-0 hover:text-slate-900">
+                              <ExternalLink className="h-3.5 w-3.5" />
+                            </a>
+                          ) : null}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader><CardTitle className="text-base">Opportunities</CardTitle></CardHeader>
+              <CardContent>{renderLinks(opportunities, 'No opportunities linked.')}</CardContent>
+            </Card>
+
+            {contact.company ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">{contact.company.name}</CardTitle>
+                  {contact.company.domain ? <p className="text-xs text-slate-500">{contact.company.domain}</p> : null}
+                </CardHeader>
+                <CardContent>
+                  {contact.colleagues.length === 0 ? (
+                    <p className="text-sm text-slate-500">No other contacts at this company.</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {contact.colleagues.map((colleague) => (
+                        <li key={colleague.id} className="text-sm">
+                          <Link href={`/app/contacts/${colleague.id}`} className="font-medium text-slate-900 hover:underline">
+                            {contactLabel(colleague)}
+                          </Link>
+                          {colleague.title ? <span className="text-xs text-slate-500"> · {colleague.title}</span> : null}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            ) : null}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
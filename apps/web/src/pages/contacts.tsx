@@ -0,0 +1,226 @@
+import { useState } from 'react'
+import { Link } from 'wouter'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Building2, Mail, Phone, Plus, Search, Sparkles, Users } from 'lucide-react'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Modal, ModalContent, ModalDescription, ModalHeader, ModalTitle } from '@/components/primitives/Modal'
+import { useToast } from '@/hooks/use-toast'
+import { useDebouncedCallback } from '@/hooks/useDebouncedCallback'
+import { apiRequest } from '@/lib/queryClient'
+
+export type DirectoryContact = {
+  id: string
+  fullName: string | null
+  email: string | null
+  phone: string | null
+  title: string | null
+  notes: string | null
+  source: string
+  companyId: string | null
+  companyName: string | null
+  linkCount: number
+  updatedAt: string | null
+}
+
+type BackfillResult = {
+  sourcesScanned: number
+  companiesCreated: number
+  contactsCreated: number
+  contactsUpdated: number
+  linksCreated: number
+}
+
+type ContactForm = { fullName: string; email: string; phone: string; title: string; companyName: string }
+
+const EMPTY_FORM: ContactForm = { fullName: '', email: '', phone: '', title: '', companyName: '' }
+
+export function contactLabel(contact: Pick<DirectoryContact, 'fullName' | 'email' | 'phone'>) {
+  return contact.fullName || contact.email || contact.phone || 'Unnamed contact'
+}
+
+function contactsQueryKey(search: string) {
+  const params = new URLSearchParams()
+  if (search) params.set('q', search)
+  const query = params.toString()
+  return [`/api/contacts${query ? `?${query}` : ''}`]
+}
+
+export default function ContactsPage() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+  const [form, setForm] = useState<ContactForm>(EMPTY_FORM)
+  const { debounced: applySearch } = useDebouncedCallback((value: string) => setSearch(value.trim()), 250)
+
+  const { data, isLoading } = useQuery<{ rows: DirectoryContact[] }>({ queryKey: contactsQueryKey(search) })
+  const contacts = data?.rows || []
+
+  const invalidateContacts = () => {
+    queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith('/api/contacts') })
+  }
+
+  const backfillMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/contacts/backfill')
+      return response.json() as Promise<BackfillResult>
+    },
+    onSuccess: (result) => {
+      invalidateContacts()
+      toast({
+        title: 'Contacts rebuilt',
+        description: `${result.contactsCreated} new contacts and ${result.companiesCreated} new companies from ${result.sourcesScanned} records.`,
+      })
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not rebuild contacts', description: error.message, variant: 'destructive' })
+    },
+  })
+
+  const createMutation = useMutation({
+    mutationFn: async (input: ContactForm) => {
+      const response = await apiRequest('POST', '/api/contacts', {
+        fullName: input.fullName.trim() || null,
+        email: input.email.trim() || null,
+        phone: input.phone.trim() || null,
+        title: input.title.trim() || null,
+        companyName: input.companyName.trim() || null,
+      })
+      return response.json() as Promise<DirectoryContact>
+    },
+    onSuccess: () => {
+      invalidateContacts()
+      setForm(EMPTY_FORM)
+      setIsCreateOpen(false)
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save contact', description: error.message, variant: 'destructive' })
+    },
+  })
+
+  const updateForm = (patch: Partial<ContactForm>) => setForm((current) => ({ ...current, ...patch }))
+
+  return (
+    <div className="min-h-screen bg-slate-50 px-6 py-8">
+      <div className="mx-auto max-w-6xl space-y-6">
+        <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+          <div>
+            <Badge variant="outline" className="mb-2 gap-2 rounded-full border-blue-200 bg-blue-50 px-3 py-1 text-blue-700">
+              <Users className="h-3.5 w-3.5" />
+              People and companies
+            </Badge>
+            <h1 className="text-4xl font-bold tracking-tight text-slate-950">Contacts</h1>
+            <p className="mt-2 max-w-2xl text-sm text-slate-600">
+              Everyone you have worked with across prospects, opportunities and email, grouped by person and company.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" className="h-10 rounded-full px-4" disabled={backfillMutation.isPending} onClick={() => backfillMutation.mutate()}>
+              <Sparkles className="mr-2 h-4 w-4" />
+              {backfillMutation.isPending ? 'Rebuilding...' : 'Rebuild from records'}
+            </Button>
+            <Button className="h-10 rounded-full px-4" onClick={() => setIsCreateOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New contact
+            </Button>
+          </div>
+        </div>
+
+        <div className="relative max-w-md">
+          <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
+          <Input
+            className="pl-9"
+            placeholder="Search name, email, phone or company"
+            value={searchInput}
+            onChange={(event) => {
+              setSearchInput(event.target.value)
+              applySearch(event.target.value)
+            }}
+          />
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="p-6 text-sm text-slate-500">Loading contacts...</div>
+            ) : contacts.length === 0 ? (
+              <div className="p-6 text-sm text-slate-500">
+                {search ? 'No contacts match that search.' : 'No contacts yet. Rebuild from records to pull them out of your prospects and activity.'}
+              </div>
+            ) : (
+              <ul className="divide-y divide-slate-200">
+                {contacts.map((contact) => (
+                  <li key={contact.id}>
+                    <Link href={`/app/contacts/${contact.id}`} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3 hover:bg-slate-50">
+                      <div className="min-w-0">
+                        <div className="truncate text-sm font-medium text-slate-950">{contactLabel(contact)}</div>
+                        <div className="mt-1 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-slate-500">
+                          {contact.companyName ? (
+                            <span className="flex items-center gap-1"><Building2 className="h-3.5 w-3.5" />{contact.companyName}</span>
+                          ) : null}
+                          {contact.email ? <span className="flex items-center gap-1"><Mail className="h-3.5 w-3.5" />{contact.email}</span> : null}
+                          {contact.phone ? <span className="flex items-center gap-1"><Phone className="h-3.5 w-3.5" />{contact.phone}</span> : null}
+                        </div>
+                      </div>
+                      <Badge variant="secondary">{contact.linkCount} linked</Badge>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Modal open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <ModalContent className="max-w-md">
+          <ModalHeader>
+            <ModalTitle>New contact</ModalTitle>
+            <ModalDescription>A name, email or phone is enough to start.</ModalDescription>
+          </ModalHeader>
+          <form
+            className="space-y-3"
+            onSubmit={(event) => {
+              event.preventDefault()
+              createMutation.mutate(form)
+            }}
+          >
+            <div className="space-y-1">
+              <Label htmlFor="contact-name">Name</Label>
+              <Input id="contact-name" value={form.fullName} onChange={(event) => updateForm({ fullName: event.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="contact-company">Company</Label>
+              <Input id="contact-company" value={form.companyName} onChange={(event) => updateForm({ companyName: event.target.value })} />
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="contact-email">Email</Label>
+                <Input id="contact-email" type="email" value={form.email} onChange={(event) => updateForm({ email: event.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="contact-phone">Phone</Label>
+                <Input id="contact-phone" value={form.phone} onChange={(event) => updateForm({ phone: event.target.value })} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="contact-title">Title</Label>
+              <Input id="contact-title" value={form.title} onChange={(event) => updateForm({ title: event.target.value })} />
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={createMutation.isPending || !(form.fullName.trim() || form.email.trim() || form.phone.trim())}>
+                {createMutation.isPending ? 'Saving...' : 'Save contact'}
+              </Button>
+            </div>
+          </form>
+        </ModalContent>
+      </Modal>
+    </div>
+  )
+}
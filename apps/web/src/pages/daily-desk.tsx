@@ -28,6 +28,7 @@ import {
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { PropertyEvidenceImportDialog } from '@/components/PropertyEvidenceImportDialog'
+import { RenewalRadarPanel } from '@/components/RenewalRadarPanel'
 import { MarketMemoryPreviewDialog } from '@/components/MarketMemoryPreviewDialog'
 import { PropertyMemoryReviewCard } from '@/features/property-memory/PropertyMemoryReviewCard'
 import {
@@ -262,6 +263,26 @@ type PropertyEvidenceRow = {
   } | null
 }
 
+type CalendarMeetingRow = {
+  id: string
+  occurred_at: string
+  contact_name: string | null
+  email: string | null
+  subject: string | null
+  confidence: number
+  match_reason: string | null
+  prospect_id: string | null
+  evidence_url: string | null
+  source_metadata?: {
+    calendar?: {
+      location?: string | null
+      isOnlineMeeting?: boolean
+      attendees?: Array<{ email: string; name: string | null }>
+    }
+    match?: { evidence?: string[] }
+  } | null
+}
+
 type IntelWatchlistResponse = {
   generatedAt: string
   summary: { signals: number; activeRequirements: number; highPriority: number }
@@ -650,6 +671,9 @@ export default function DailyDeskPage() {
     queryKey: ['/api/activity-events?source=codex_property_title_audit&matchStatus=needs_review&limit=250'],
     enabled: false,
   })
+  const calendarMeetingsQuery = useQuery<{ rows: CalendarMeetingRow[] }>({
+    queryKey: ['/api/activity-events?source=outlook_calendar&matchStatus=needs_review&limit=50'],
+  })
   const propertyMemoryReviewQuery = usePropertyMemoryReview({ enabled: false, limit: 250 })
   const watchlistQuery = useQuery<IntelWatchlistResponse>({
     queryKey: ['/api/intel/watchlist?days=30&limit=12'],
@@ -714,6 +738,7 @@ export default function DailyDeskPage() {
   const marketProposals = marketProposalsQuery.data?.rows || []
   const opportunityProposals = opportunityProposalsQuery.data?.rows || []
   const propertyEvidence = propertyEvidenceQuery.data?.rows || []
+  const calendarMeetings = calendarMeetingsQuery.data?.rows || []
   const propertyMemoryItems = propertyMemoryReviewQuery.data?.rows || []
   const prospects = useMemo(
     () => [...(prospectsQuery.data || [])].sort((left, right) => prospectLabel(left).localeCompare(prospectLabel(right))),
@@ -841,18 +866,45 @@ export default function DailyDeskPage() {
     },
   })
 
+  const calendarMeetingMutation = useMutation({
+    mutationFn: async ({ eventId, action, prospectId }: { eventId: string; action: 'link' | 'ignore'; prospectId?: string }) => {
+      const response = await apiRequest('PATCH', `/api/activity-events/${eventId}/review`, {
+        action,
+        ...(action === 'link' ? { prospectId } : {}),
+      })
+      return response.json() as Promise<{ newXpGained?: number }>
+    },
+    onSuccess: (result, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/activity-events?source=outlook_calendar&matchStatus=needs_review&limit=50'] })
+      queryClient.invalidateQueries({ queryKey: ['/api/prospects'] })
+      queryClient.invalidateQueries({ queryKey: ['/api/automation/activity-pulse'] })
+      queryClient.invalidateQueries({ queryKey: ['/api/stats/header'] })
+      toast({
+        title: variables.action === 'link' ? 'Meeting logged' : 'Meeting archived',
+        description: variables.action === 'link'
+          ? `The meeting is on the prospect's history${result.newXpGained ? ` (+${result.newXpGained} XP)` : ''}.`
+          : 'This calendar event will not be proposed again.',
+      })
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not review the meeting', description: error.message, variant: 'destructive' })
+    },
+  })
+
   const refresh = () => {
     queryClient.invalidateQueries({ queryKey: ['/api/automation/sales-brief?limit=25'] })
     queryClient.invalidateQueries({ queryKey: ['/api/agent/sales-activity/imports?matchStatus=needs_review&limit=50'] })
     queryClient.invalidateQueries({ queryKey: ['/api/activity-events?eventType=market_record_proposed&matchStatus=needs_review&limit=50'] })
     queryClient.invalidateQueries({ queryKey: ['/api/activity-events?eventType=opportunity_promotion_proposed&matchStatus=needs_review&limit=50'] })
     queryClient.invalidateQueries({ queryKey: ['/api/activity-events?source=codex_property_title_audit&matchStatus=needs_review&limit=250'] })
+    queryClient.invalidateQueries({ queryKey: ['/api/activity-events?source=outlook_calendar&matchStatus=needs_review&limit=50'] })
     queryClient.invalidateQueries({ queryKey: ['/api/intel/watchlist?days=30&limit=12'] })
     queryClient.invalidateQueries({ queryKey: ['/api/automation/reconciliation?limit=25'] })
     queryClient.invalidateQueries({ queryKey: ['/api/email/outlook/config'] })
     queryClient.invalidateQueries({ queryKey: ['/api/email/inbound/config'] })
     queryClient.invalidateQueries({ queryKey: ['/api/stats/header'] })
     queryClient.invalidateQueries({ queryKey: ['/api/automation/activity-pulse'] })
+    queryClient.invalidateQueries({ queryKey: ['/api/renewal-radar'] })
     queryClient.invalidateQueries({ queryKey: ['property-memory'] })
   }
 
@@ -865,7 +917,7 @@ export default function DailyDeskPage() {
   const tabCounts: Record<DeskTab, number> = {
     today: queues.today.length,
     waiting: queues.waiting.length,
-    review: queues.review.length + propertyMemoryItems.length + imports.length + marketProposals.length + opportunityProposals.length + propertyEvidence.length,
+    review: queues.review.length + propertyMemoryItems.length + calendarMeetings.length + imports.length + marketProposals.length + opportunityProposals.length + propertyEvidence.length,
     develop: queues.develop.length,
   }
   const isLoading = activityPulseQuery.isLoading
@@ -1036,6 +1088,72 @@ export default function DailyDeskPage() {
 
             {!isLoading && activeTab === 'review' ? (
               <div>
+                {calendarMeetings.length ? (
+                  <div className="border-b border-slate-200 bg-slate-50 px-4 py-2.5 text-xs font-semibold uppercase tracking-wide text-slate-600 sm:px-5">Outlook meetings</div>
+                ) : null}
+                {calendarMeetings.map((item) => {
+                  const selectedProspect = prospectDrafts[item.id] ?? item.prospect_id ?? ''
+                  const calendar = item.source_metadata?.calendar || {}
+                  const attendees = (calendar.attendees || []).map((attendee) => attendee.name || attendee.email)
+                  return (
+                    <article key={item.id} className="border-b border-slate-200 px-4 py-4 sm:px-5">
+                      <div className="grid gap-4 xl:grid-cols-[minmax(0,1fr)_330px]">
+                        <div className="min-w-0">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <Badge variant="outline" className="rounded border-sky-200 bg-sky-50 text-sky-800">
+                              {calendar.isOnlineMeeting ? 'Online meeting' : 'Meeting'}
+                            </Badge>
+                            <span className="text-xs text-slate-500">{formatWhen(item.occurred_at)}</span>
+                            {item.prospect_id ? <span className="text-xs font-medium text-slate-500">{item.confidence}% match</span> : null}
+                          </div>
+                          <h3 className="mt-2 text-sm font-semibold text-slate-950">{item.subject || 'Meeting'}</h3>
+                          {calendar.location ? <p className="mt-1 text-sm text-slate-700">{calendar.location}</p> : null}
+                          {attendees.length ? <p className="mt-2 text-xs leading-5 text-slate-500">With {attendees.join(', ')}</p> : null}
+                          {item.source_metadata?.match?.evidence?.length ? (
+                            <p className="mt-1 text-[11px] text-slate-400">{item.source_metadata.match.evidence.join(' / ')}</p>
+                          ) : null}
+                        </div>
+                        <div className="flex flex-col gap-2 sm:flex-row xl:flex-col">
+                          <Select
+                            value={selectedProspect}
+                            onValueChange={(value) => setProspectDrafts((current) => ({ ...current, [item.id]: value }))}
+                          >
+                            <SelectTrigger className="bg-white">
+                              <SelectValue placeholder="Log against a prospect" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {prospects.slice(0, 300).map((prospect) => (
+                                <SelectItem key={prospect.id} value={prospect.id}>
+                                  {prospectLabel(prospect)}{prospect.address ? ` / ${prospect.address}` : ''}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              disabled={!selectedProspect || calendarMeetingMutation.isPending}
+                              onClick={() => calendarMeetingMutation.mutate({ eventId: item.id, action: 'link', prospectId: selectedProspect })}
+                            >
+                              <CheckCircle2 className="h-4 w-4" />
+                              Log meeting
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="outline"
+                              title="Archive this meeting"
+                              aria-label="Archive this meeting"
+                              disabled={calendarMeetingMutation.isPending}
+                              onClick={() => calendarMeetingMutation.mutate({ eventId: item.id, action: 'ignore' })}
+                            >
+                              <Archive className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                    </article>
+                  )
+                })}
                 {marketProposals.length || opportunityProposals.length || propertyEvidence.length || imports.length || queues.review.length ? (
                   <div className="border-b border-slate-200 bg-slate-50 px-4 py-2.5 text-xs font-semibold uppercase tracking-wide text-slate-600 sm:px-5">Other review items</div>
                 ) : null}
@@ -1286,7 +1404,7 @@ export default function DailyDeskPage() {
                   )
                 })}
                 {queues.review.map((action) => <ActionRow key={action.id} action={action} />)}
-                {propertyMemoryItems.length === 0 && marketProposals.length === 0 && opportunityProposals.length === 0 && propertyEvidence.length === 0 && imports.length === 0 && queues.review.length === 0 ? <EmptyQueue tab="review" /> : null}
+                {propertyMemoryItems.length === 0 && calendarMeetings.length === 0 && marketProposals.length === 0 && opportunityProposals.length === 0 && propertyEvidence.length === 0 && imports.length === 0 && queues.review.length === 0 ? <EmptyQueue tab="review" /> : null}
               </div>
             ) : null}
           </section>
@@ -1341,6 +1459,8 @@ export default function DailyDeskPage() {
               </Button>
             </section>
 
+            <RenewalRadarPanel />
+
             <section className="hidden">
               <div className="flex items-center gap-2">
                 <Building2 className="h-4 w-4 text-slate-600" />
@@ -1,7 +1,7 @@
 import { useState, useCallback, useRef, useEffect, useMemo, memo } from 'react';
 import { GoogleMap, useJsApiLoader, Polygon, InfoWindow } from '@react-google-maps/api';
 import { Button } from '@/components/ui/button';
-import { Download, MapIcon, Satellite, ChevronLeft, ChevronRight, X, Filter, User, LogOut, Settings, Phone, Handshake, GitMerge } from 'lucide-react';
+import { Download, MapIcon, Satellite, ChevronLeft, ChevronRight, X, Filter, User, LogOut, Settings, Phone, Handshake, GitMerge, Building2 } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { MapControls } from '@/features/map/MapControls';
 import { MapContextMenu } from '@/features/map/MapContextMenu';
@@ -38,6 +38,9 @@ import { ClusteredMapMarkers, type ClusteredMapMarkerEntry } from '@/features/ma
 import { padViewportBounds, pointInViewport } from '@/features/map/viewportClustering';
 import { composePropertyMapItems, getLinkedMemoryMarkerTitle } from '@/features/property-memory/composeMapItems';
 import { PropertyMemorySearchPanel } from '@/features/property-memory/PropertyMemorySearchPanel';
+import { OwnerPortfolioPanel } from '@/features/owner-portfolio/OwnerPortfolioPanel';
+import type { OwnerPortfolio, OwnerPortfolioProperty } from '@/features/owner-portfolio/api';
+import { OWNER_PORTFOLIO_COLOR, ownerPortfolioMarkers } from '@/features/owner-portfolio/portfolioLayer';
 import { PropertyMemoryReviewDialog } from '@/features/property-memory/PropertyMemoryReviewDialog';
 import {
   useDecidePropertyMemoryItem,
@@ -342,6 +345,8 @@ export default function HomePage() {
     if (typeof window === 'undefined') return false;
     return new URLSearchParams(window.location.search).get('memorySearch') === '1';
   });
+  const [ownerPortfolioOpen, setOwnerPortfolioOpen] = useState(false);
+  const [selectedOwnerPortfolio, setSelectedOwnerPortfolio] = useState<OwnerPortfolio | null>(null);
   const [duplicateLookupPending, setDuplicateLookupPending] = useState<string | null>(null);
   const duplicateLookupRequestRef = useRef(0);
   const [marketMemoryPreview, setMarketMemoryPreview] = useState<CurrentProjectsMarketMemoryPreview | null>(null);
@@ -2128,6 +2133,39 @@ export default function HomePage() {
     setZoom(Math.max(map.getZoom() || 16, 16));
   }, [getProspectLatLng, map, marketMemoryAnchors, prospects, requestMapSelection]);
 
+  const handleOwnerPortfolioSelect = useCallback((portfolio: OwnerPortfolio | null) => {
+    setSelectedOwnerPortfolio(portfolio);
+    if (!map || !portfolio?.bounds) return;
+    const { north, south, east, west } = portfolio.bounds;
+    if (north === south && east === west) {
+      map.panTo({ lat: north, lng: east });
+      map.setZoom(Math.max(map.getZoom() || 15, 15));
+      return;
+    }
+    map.fitBounds({ north, south, east, west }, 48);
+  }, [map]);
+
+  const handleOwnerPortfolioPropertySelect = useCallback(async (property: OwnerPortfolioProperty) => {
+    const linkedProspect = property.prospectId
+      ? prospects.find((prospect) => prospect.id === property.prospectId)
+      : null;
+    if (linkedProspect) {
+      const selectionApplied = await requestMapSelection({ kind: 'prospect', prospect: linkedProspect });
+      if (!selectionApplied) return;
+    }
+    if (!map) return;
+    const position = (linkedProspect && getProspectLatLng(linkedProspect))
+      || (property.latitude != null && property.longitude != null ? { lat: property.latitude, lng: property.longitude } : null);
+    if (!position) return;
+    map.panTo(position);
+    map.setZoom(Math.max(map.getZoom() || 15, 16));
+  }, [getProspectLatLng, map, prospects, requestMapSelection]);
+
+  const closeOwnerPortfolios = useCallback(() => {
+    setOwnerPortfolioOpen(false);
+    setSelectedOwnerPortfolio(null);
+  }, []);
+
   const toggleMarketMemoryLayer = useCallback((layer: MarketMemoryLayer) => {
     setVisibleMarketMemoryLayers((current) => {
       const next = new Set(current);
@@ -2325,6 +2363,20 @@ export default function HomePage() {
             interactive={terraMode === 'select'}
           />
 
+          {/* Owner portfolio layer */}
+          {ownerPortfolioMarkers(selectedOwnerPortfolio).map((marker) => (
+            <AdvancedMapMarker
+              key={`owner-portfolio-${marker.key}`}
+              position={marker.position}
+              title={marker.title}
+              color={OWNER_PORTFOLIO_COLOR}
+              borderColor="#EDE9FE"
+              scale={11}
+              zIndex={2}
+              onClick={() => { void handleOwnerPortfolioPropertySelect(marker.property); }}
+            />
+          ))}
+
           {/* Search Pin */}
           {searchPin && (
             <>
@@ -2400,13 +2452,28 @@ export default function HomePage() {
         activeTerraMode={terraMode as any}
       />
 
-      <div className="absolute right-3 top-[7.25rem] z-40 sm:top-3" style={{ pointerEvents: 'auto' }}>
+      <div className="absolute right-3 top-[7.25rem] z-40 flex items-start gap-2 sm:top-3" style={{ pointerEvents: 'auto' }}>
+        <Button
+          type="button"
+          variant="outline"
+          className="bg-white shadow-lg"
+          aria-pressed={ownerPortfolioOpen}
+          onClick={() => {
+            setOwnerPortfolioOpen(true);
+            setPropertyMemorySearchOpen(false);
+            setIsControlPanelOpen(false);
+          }}
+        >
+          <Building2 className="h-4 w-4 text-violet-700" />
+          Owners
+        </Button>
         <MarketMemoryLayerControl
           anchors={marketMemoryAnchors}
           visibleLayers={visibleMarketMemoryLayers}
           onOpenPreview={() => setMarketMemoryDialogOpen(true)}
           onOpenSearch={() => {
             setPropertyMemorySearchOpen(true);
+            setOwnerPortfolioOpen(false);
             setSelectedMarketMemoryAnchor(null);
             setIsControlPanelOpen(false);
           }}
@@ -2618,6 +2685,14 @@ export default function HomePage() {
         onSelect={handlePropertyMemorySearchSelect}
       />
 
+      <OwnerPortfolioPanel
+        open={ownerPortfolioOpen}
+        selected={selectedOwnerPortfolio}
+        onClose={closeOwnerPortfolios}
+        onSelectPortfolio={handleOwnerPortfolioSelect}
+        onSelectProperty={(property) => { void handleOwnerPortfolioPropertySelect(property); }}
+      />
+
       {selectedMarketMemoryAnchor && !propertyMemoryReviewOpen && !prospectMergeGroup ? (
         <MarketMemoryStoryPanel
           anchor={selectedMarketMemoryAnchor}
@@ -78,9 +78,16 @@ type OutlookConfig = {
     status: string
     lastSyncedAt: string | null
     errorMessage: string | null
+    calendarEnabled?: boolean
   }
 }
 
+type CalendarSyncResult = {
+  eventsSeen: number
+  meetingsStaged: number
+  suggestedMatches: number
+}
+
 type InboundEmailConfig = {
   configured: boolean
   domainConfigured: boolean
@@ -286,6 +293,16 @@ export default function InboxPage() {
     onSuccess: invalidate,
   })
 
+  const syncCalendarMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/email/outlook/sync-calendar', { days: 14 })
+      return response.json() as Promise<CalendarSyncResult>
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/activity-events?source=outlook_calendar&matchStatus=needs_review&limit=50'] })
+    },
+  })
+
   const refreshInbox = () => {
     invalidate()
     queryClient.invalidateQueries({ queryKey: ['/api/automation/capture-health?days=7'] })
@@ -298,8 +315,8 @@ export default function InboxPage() {
   }, [prospects])
 
   const connectOutlookMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest('GET', '/api/ms365/auth-url?returnTo=/app/inbox')
+    mutationFn: async (calendar: boolean) => {
+      const response = await apiRequest('GET', `/api/ms365/auth-url?returnTo=/app/inbox${calendar ? '&calendar=1' : ''}`)
       return response.json() as Promise<{ url: string }>
     },
     onSuccess: ({ url }) => {
@@ -450,19 +467,38 @@ export default function InboxPage() {
               {outlookConfig?.connection?.errorMessage ? (
                 <p className="mt-1 text-sm text-red-600">{outlookConfig.connection.errorMessage}</p>
               ) : null}
+              {syncCalendarMutation.data ? (
+                <p className="mt-1 text-sm text-slate-500">
+                  {syncCalendarMutation.data.meetingsStaged} new meeting{syncCalendarMutation.data.meetingsStaged === 1 ? '' : 's'} staged for review on the <Link href="/app/desk" className="font-medium text-blue-700 hover:underline">Daily Desk</Link>.
+                </p>
+              ) : null}
+              {syncCalendarMutation.error ? (
+                <p className="mt-1 text-sm text-red-600">{syncCalendarMutation.error.message}</p>
+              ) : null}
             </div>
             <div className="flex flex-wrap gap-2">
               {!outlookConfig?.connected ? (
                 <Button
                   disabled={!outlookConfig?.configured || connectOutlookMutation.isPending}
-                  onClick={() => connectOutlookMutation.mutate()}
+                  onClick={() => connectOutlookMutation.mutate(false)}
                 >
                   {connectOutlookMutation.isPending ? 'Connecting...' : 'Connect Outlook'}
                 </Button>
               ) : (
-                <Button onClick={() => syncOutlookMutation.mutate()} disabled={syncOutlookMutation.isPending}>
-                  {syncOutlookMutation.isPending ? 'Syncing...' : 'Sync Outlook'}
-                </Button>
+                <>
+                  <Button onClick={() => syncOutlookMutation.mutate()} disabled={syncOutlookMutation.isPending}>
+                    {syncOutlookMutation.isPending ? 'Syncing...' : 'Sync Outlook'}
+                  </Button>
+                  {outlookConfig.connection?.calendarEnabled ? (
+                    <Button variant="outline" onClick={() => syncCalendarMutation.mutate()} disabled={syncCalendarMutation.isPending}>
+                      {syncCalendarMutation.isPending ? 'Reading calendar...' : 'Sync calendar'}
+                    </Button>
+                  ) : (
+                    <Button variant="outline" onClick={() => connectOutlookMutation.mutate(true)} disabled={connectOutlookMutation.isPending}>
+                      Allow calendar access
+                    </Button>
+                  )}
+                </>
               )}
             </div>
           </CardContent>
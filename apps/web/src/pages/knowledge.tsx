@@ -17,7 +17,7 @@ import { uniqueSubmarketNames } from '@/lib/submarkets';
 import { getProspectDisplayName, getProspectSecondaryName } from '@/lib/prospectDisplay';
 import { apiRequest } from '@/lib/queryClient';
 import { VoiceDictationButton } from '@/components/VoiceDictationButton';
-import { getLifetimeProductionBadge, readTrackRecordMetrics, TRACK_RECORD_STORAGE_KEY } from '@/lib/trackRecordMetrics';
+import { emptyTrackRecordMetrics, type TrackRecordSummary } from '@/lib/trackRecordMetrics';
 import { buildProspectActivityPatch, getFollowUpDueDate, hasContactCoverage, isActionableFollowUpDue } from '@/lib/brokerActions';
 
 function getInteractionDate(interaction: any) {
@@ -148,25 +148,15 @@ export default function Knowledge() {
   const [selectedProspect, setSelectedProspect] = useState<Prospect | null>(null);
   const [quickNote, setQuickNote] = useState('');
   const [drawerForm, setDrawerForm] = useState<DrawerForm>(EMPTY_DRAWER_FORM);
-  const [trackRecordMetrics, setTrackRecordMetrics] = useState(() => readTrackRecordMetrics());
   const phoneInputRef = useRef<HTMLInputElement | null>(null);
   const emailInputRef = useRef<HTMLInputElement | null>(null);
 
-  useEffect(() => {
-    const refreshTrackRecordMetrics = () => setTrackRecordMetrics(readTrackRecordMetrics());
-    refreshTrackRecordMetrics();
-
-    const handleStorage = (event: StorageEvent) => {
-      if (event.key === TRACK_RECORD_STORAGE_KEY) refreshTrackRecordMetrics();
-    };
-
-    window.addEventListener('storage', handleStorage);
-    window.addEventListener('focus', refreshTrackRecordMetrics);
-    return () => {
-      window.removeEventListener('storage', handleStorage);
-      window.removeEventListener('focus', refreshTrackRecordMetrics);
-    };
-  }, []);
+  const { data: trackRecord } = useQuery<TrackRecordSummary>({
+    queryKey: ['/api/deals/metrics'],
+    refetchOnWindowFocus: true,
+    enabled: !!currentUser,
+  });
+  const trackRecordMetrics = trackRecord?.metrics ?? emptyTrackRecordMetrics();
 
   const safeProspects = useMemo(() => Array.isArray(prospects) ? prospects : [], [prospects]);
   const safeInteractions = useMemo(() => Array.isArray(interactions) ? interactions : [], [interactions]);
@@ -363,7 +353,6 @@ export default function Knowledge() {
   const selectedInteractions = selectedProspect
     ? analytics.interactionsByProspectId.get(selectedProspect.id) ?? []
     : [];
-  const lifetimeProductionBadge = getLifetimeProductionBadge(trackRecordMetrics);
   const selectedLatestInteraction = getLatestInteractionDate(selectedInteractions);
   const drawerMode: FocusQueue = selectedProspect
     ? analytics.newProspects.some((prospect) => prospect.id === selectedProspect.id)
@@ -626,9 +615,11 @@ export default function Knowledge() {
               <p className="mt-1 text-sm text-slate-500">
                 leased / renewed SF from {trackRecordMetrics.leasedDeals + trackRecordMetrics.renewalDeals} deals
               </p>
-              <div className="mt-3 inline-flex items-center gap-2 rounded-full border border-emerald-100 bg-emerald-50 px-3 py-1 text-xs font-semibold text-emerald-800">
-                {lifetimeProductionBadge.tier}: {lifetimeProductionBadge.label}
-              </div>
+              {trackRecord?.productionBadge && (
+                <div className="mt-3 inline-flex items-center gap-2 rounded-full border border-emerald-100 bg-emerald-50 px-3 py-1 text-xs font-semibold text-emerald-800">
+                  {trackRecord.productionBadge.tier}: {trackRecord.productionBadge.label}
+                </div>
+              )}
               <div className="mt-3 flex items-center justify-between border-t border-slate-100 pt-3 text-xs text-slate-500">
                 <span>{formatCompactNumber(trackRecordMetrics.totalSf)} total SF</span>
                 <button type="button" className="font-semibold text-emerald-700 hover:text-emerald-800" onClick={() => setLocation('/track-record')}>
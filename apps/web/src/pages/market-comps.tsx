@@ -15,6 +15,20 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { MarketComp, InsertMarketComp, Submarket, MarketCompDealType, MarketCompAssetType } from "@level-cre/shared/schema";
 import { useProfile } from "@/hooks/useProfile";
+import { CompAnalyticsPanel } from "@/components/CompAnalyticsPanel";
+import { LeaseEconomicsSummary } from "@/components/LeaseEconomicsSummary";
+import { computeLeaseEconomics } from "@level-cre/shared";
+
+const ECONOMICS_FIELD_LABELS: Record<string, string> = {
+  buildingSize: 'size',
+  landSize: 'acres',
+  rate: 'rate',
+  price: 'price',
+  pricePerSf: '$/SF',
+  pricePerAcre: '$/acre',
+  commencement: 'commencement',
+  saleDate: 'sale date',
+};
 
 export default function MarketCompsPage() {
   const { toast } = useToast();
@@ -56,6 +70,14 @@ export default function MarketCompsPage() {
     pricePerAcre: undefined,
   });
 
+  // Analytics keys carry their filters in the URL, so they are matched by prefix
+  const invalidateComps = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/market-comps'] });
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith('/api/market-comps/analytics'),
+    });
+  };
+
   // Data
   const { data: comps = [], isLoading } = useQuery<MarketComp[]>({ queryKey: ['/api/market-comps'] });
   const { data: submarkets = [] } = useQuery<Submarket[]>({ queryKey: ['/api/submarkets'] });
@@ -123,6 +145,12 @@ export default function MarketCompsPage() {
       rateType: undefined,
       commencement: undefined,
       concessions: undefined,
+      escalationKind: undefined,
+      escalationAmount: undefined,
+      freeRentMonths: undefined,
+      tiAllowancePsf: undefined,
+      additionalRentPsf: undefined,
+      commissionPct: undefined,
       saleDate: undefined,
       buyer: undefined,
       seller: undefined,
@@ -143,7 +171,7 @@ export default function MarketCompsPage() {
       return res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/market-comps'] });
+      invalidateComps();
       toast({ title: 'Market comp added' });
       resetForm();
     },
@@ -156,7 +184,7 @@ export default function MarketCompsPage() {
       return res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/market-comps'] });
+      invalidateComps();
       toast({ title: 'Market comp updated' });
       resetForm();
     },
@@ -166,7 +194,7 @@ export default function MarketCompsPage() {
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => apiRequest('DELETE', `/api/market-comps/${id}`),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/market-comps'] });
+      invalidateComps();
       toast({ title: 'Market comp deleted' });
     },
     onError: (e: any) => toast({ title: 'Failed to delete comp', description: e.message, variant: 'destructive' }),
@@ -190,6 +218,12 @@ export default function MarketCompsPage() {
       rateType: comp.rateType as any,
       commencement: comp.commencement,
       concessions: comp.concessions,
+      escalationKind: comp.escalationKind,
+      escalationAmount: comp.escalationAmount,
+      freeRentMonths: comp.freeRentMonths,
+      tiAllowancePsf: comp.tiAllowancePsf,
+      additionalRentPsf: comp.additionalRentPsf,
+      commissionPct: comp.commissionPct,
       saleDate: comp.saleDate,
       buyer: comp.buyer,
       seller: comp.seller,
@@ -227,6 +261,23 @@ export default function MarketCompsPage() {
     }
   };
 
+  const formTermMonths = termValue === '' ? null : (termUnit === 'years' ? Number(termValue) * 12 : Number(termValue));
+  const leaseEconomicsPreview = formData.dealType === 'lease'
+    ? computeLeaseEconomics({
+      termMonths: formTermMonths,
+      baseRatePsf: formData.rate ? Number(formData.rate) : null,
+      escalation: formData.escalationKind && formData.escalationAmount != null
+        ? { kind: formData.escalationKind, amount: formData.escalationAmount }
+        : null,
+      freeRentMonths: formData.freeRentMonths,
+      tiAllowancePsf: formData.tiAllowancePsf,
+      additionalRentPsf: formData.additionalRentPsf,
+      commissionPct: formData.commissionPct,
+    })
+    : null;
+
+  const numberField = (value: string) => (value === '' ? null : Number(value));
+
   const filtered = useMemo(() => {
     return comps.filter(c => {
       const matchesType = dealTypeFilter === 'all' || c.dealType === dealTypeFilter;
@@ -364,6 +415,40 @@ export default function MarketCompsPage() {
                         <Label className="text-xs">Commencement</Label>
                         <Input type="date" className="h-10" value={formData.commencement || ''} onChange={(e) => setFormData(p => ({ ...p, commencement: e.target.value || undefined }))} />
                       </div>
+
+                      {/* Deal terms */}
+                      <div className="md:col-span-2 grid grid-cols-2 gap-3 rounded-md border border-slate-200 p-3">
+                        <div className="flex gap-2">
+                          <div className="flex-1">
+                            <Label className="text-xs">Escalation</Label>
+                            <Input type="number" className="h-10" step="0.25" value={formData.escalationAmount ?? ''} onChange={(e) => setFormData(p => ({ ...p, escalationAmount: numberField(e.target.value), escalationKind: p.escalationKind || 'percent' }))} placeholder="e.g. 3" />
+                          </div>
+                          <div>
+                            <Label className="text-xs">Per year</Label>
+                            <ToggleGroup type="single" value={formData.escalationKind || 'percent'} onValueChange={(v) => v && setFormData(p => ({ ...p, escalationKind: v as 'percent' | 'fixed' }))} className="mt-1">
+                              <ToggleGroupItem value="percent" className="h-8 px-2 text-xs">%</ToggleGroupItem>
+                              <ToggleGroupItem value="fixed" className="h-8 px-2 text-xs">$</ToggleGroupItem>
+                            </ToggleGroup>
+                          </div>
+                        </div>
+                        <div>
+                          <Label className="text-xs">Free rent (months)</Label>
+                          <Input type="number" className="h-10" min="0" step="0.5" value={formData.freeRentMonths ?? ''} onChange={(e) => setFormData(p => ({ ...p, freeRentMonths: numberField(e.target.value) }))} />
+                        </div>
+                        <div>
+                          <Label className="text-xs">TI allowance ($/SF)</Label>
+                          <Input type="number" className="h-10" min="0" step="0.5" value={formData.tiAllowancePsf ?? ''} onChange={(e) => setFormData(p => ({ ...p, tiAllowancePsf: numberField(e.target.value) }))} />
+                        </div>
+                        <div>
+                          <Label className="text-xs">Additional rent ($/SF)</Label>
+                          <Input type="number" className="h-10" min="0" step="0.25" value={formData.additionalRentPsf ?? ''} onChange={(e) => setFormData(p => ({ ...p, additionalRentPsf: numberField(e.target.value) }))} />
+                        </div>
+                        <div>
+                          <Label className="text-xs">Commission (%)</Label>
+                          <Input type="number" className="h-10" min="0" step="0.5" value={formData.commissionPct ?? ''} onChange={(e) => setFormData(p => ({ ...p, commissionPct: numberField(e.target.value) }))} />
+                        </div>
+                        <LeaseEconomicsSummary economics={leaseEconomicsPreview} className="col-span-2 border-t border-slate-100 pt-2" />
+                      </div>
                     </>
                   )}
                 </div>
@@ -426,6 +511,8 @@ export default function MarketCompsPage() {
           </Modal>
         </div>
 
+        <CompAnalyticsPanel />
+
         {/* Filters */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
           <Input placeholder="Search (address, tenant, buyer, seller)" value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} />
@@ -464,6 +551,16 @@ export default function MarketCompsPage() {
                     <Badge variant={comp.dealType === 'sale' ? 'secondary' : 'outline'} className={comp.dealType === 'sale' ? 'bg-amber-100 text-amber-800' : ''}>
                       {comp.dealType === 'sale' ? 'Sale' : 'Lease'}
                     </Badge>
+                    {comp.economicsStatus === 'unparseable' && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Badge variant="outline" className="border-red-200 bg-red-50 text-red-700">Check economics</Badge>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Could not read {(comp.economicsIssues || []).map(field => ECONOMICS_FIELD_LABELS[field] || field).join(', ')}; left out of analytics until fixed.</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
                   </div>
                 </CardHeader>
                 <CardContent className="space-y-2 text-sm text-gray-700 dark:text-gray-300">
@@ -472,6 +569,7 @@ export default function MarketCompsPage() {
                       {comp.tenant && <div className="flex items-center gap-2"><Building2 className="h-4 w-4" />Tenant: {comp.tenant}</div>}
                       {comp.termMonths && <div>Term: {comp.termMonths} mo</div>}
                       {comp.rate && <div>Rate: ${comp.rate}</div>}
+                      {comp.netEffectiveRatePsf != null && <div>Net effective: ${comp.netEffectiveRatePsf.toFixed(2)}</div>}
                       {comp.commencement && <div>Commencement: {comp.commencement}</div>}
                       {comp.concessions && <div>TI/Free: {comp.concessions}</div>}
                     </div>
@@ -15,6 +15,7 @@ import { MAP_STATUS_KEYS, createStatusFilterSet } from "@/features/map/statusFil
 import { nsKey, readJSON, writeJSON } from '@/lib/storage';
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { EmailConnectionsPanel } from "@/components/EmailConnectionsPanel";
 
 type OutlookConfig = {
   configured: boolean;
@@ -70,7 +71,7 @@ export default function ProfilePage() {
 
   const syncOutlookMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest('POST', '/api/email/outlook/sync', { days: 30 });
+      const response = await apiRequest('POST', '/api/email/outlook/sync', { days: 30, reset: true });
       return response.json();
     },
     onSuccess: () => {
@@ -295,6 +296,8 @@ export default function ProfilePage() {
                 )}
               </div>
             </div>
+
+            <EmailConnectionsPanel />
           </CardContent>
         </Card>
 
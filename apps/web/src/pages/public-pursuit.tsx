@@ -1,11 +1,13 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { GoogleMap, useJsApiLoader } from '@react-google-maps/api';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useRoute } from 'wouter';
 import { Activity, Building2, CalendarDays, MapPin, ShieldCheck, Users } from 'lucide-react';
 
+import { SharePasscodePrompt } from '@/components/SharePasscodePrompt';
 import { AdvancedMapMarker } from '@/features/map/AdvancedMapMarker';
 import { apiUrl } from '@/lib/api';
+import { claimShareView, readShareLinkError, shareAccessHeaders } from '@/lib/shareLinkAccess';
 import { getGoogleMapsApiKey, getGoogleMapsMapId } from '@/lib/googleMapsApiKey';
 
 type PublicProspect = {
@@ -184,6 +186,15 @@ function PublicPursuitMap({
   );
 }
 
+function recordPursuitView(token: string, prospectId: string | null) {
+  void fetch(apiUrl(`/api/public/pursuits/${encodeURIComponent(token)}/views`), {
+    method: 'POST',
+    credentials: 'omit',
+    headers: { 'Content-Type': 'application/json', ...shareAccessHeaders(token) },
+    body: JSON.stringify({ itemId: prospectId }),
+  }).catch(() => undefined);
+}
+
 function SummaryCard({ label, value, detail, icon }: {
   label: string;
   value: string | number;
@@ -208,18 +219,32 @@ export default function PublicPursuit() {
   const [, params] = useRoute('/pursuits/share/:token');
   const token = params?.token || '';
   const [selectedProspectId, setSelectedProspectId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
   const { data, isLoading, error } = useQuery<PublicPursuitSnapshot>({
     queryKey: ['public-pursuit', token],
     enabled: Boolean(token),
     queryFn: async () => {
       const response = await fetch(apiUrl(`/api/public/pursuits/${encodeURIComponent(token)}`), {
         credentials: 'omit',
-        headers: { Accept: 'application/json' },
+        headers: { Accept: 'application/json', ...shareAccessHeaders(token) },
       });
+      if (response.status === 401 || response.status === 410) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
       if (!response.ok) throw new Error(response.status === 404 ? 'This activity link is unavailable.' : 'The activity view could not be loaded.');
       return response.json();
     },
   });
+  const shareLinkError = readShareLinkError(error);
+  const loaded = Boolean(data);
+
+  useEffect(() => {
+    if (loaded && claimShareView(token)) recordPursuitView(token, null);
+  }, [loaded, token]);
+
+  useEffect(() => {
+    if (selectedProspectId) recordPursuitView(token, selectedProspectId);
+  }, [selectedProspectId, token]);
 
   const selectedProspect = data?.prospects.find((prospect) => prospect.id === selectedProspectId) || null;
   const prospectById = useMemo(
@@ -242,6 +267,17 @@ export default function PublicPursuit() {
     return <div className="min-h-screen animate-pulse bg-slate-100" aria-label="Loading client activity view" />;
   }
 
+  if (shareLinkError === 'passcode_required') {
+    return (
+      <SharePasscodePrompt
+        token={token}
+        unlockPath={`/api/public/pursuits/${encodeURIComponent(token)}/unlock`}
+        title="Protected activity view"
+        onUnlocked={() => queryClient.invalidateQueries({ queryKey: ['public-pursuit', token] })}
+      />
+    );
+  }
+
   if (error || !data) {
     return (
       <main className="flex min-h-screen items-center justify-center bg-slate-100 px-6">
@@ -249,8 +285,12 @@ export default function PublicPursuit() {
           <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-slate-100 text-slate-600">
             <ShieldCheck className="h-6 w-6" />
           </div>
-          <h1 className="mt-5 text-xl font-semibold text-slate-950">Activity link unavailable</h1>
-          <p className="mt-2 text-sm leading-6 text-slate-600">{error instanceof Error ? error.message : 'Ask your broker for a current link.'}</p>
+          <h1 className="mt-5 text-xl font-semibold text-slate-950">{shareLinkError === 'expired' ? 'Activity link expired' : 'Activity link unavailable'}</h1>
+          <p className="mt-2 text-sm leading-6 text-slate-600">
+            {shareLinkError === 'expired'
+              ? 'Ask your broker for a current link.'
+              : error instanceof Error ? error.message : 'Ask your broker for a current link.'}
+          </p>
         </div>
       </main>
     );
@@ -1,4 +1,5 @@
 import { useEffect, useMemo, useRef, useState, type Dispatch, type MutableRefObject, type ReactNode, type SetStateAction } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import Papa from 'papaparse'
 import * as XLSX from 'xlsx'
 import { Badge } from '@/components/ui/badge'
@@ -17,7 +18,8 @@ import {
 import { Textarea } from '@/components/ui/textarea'
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group'
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip'
-import { TRACK_RECORD_STORAGE_KEY, parseTrackRecordNumber } from '@/lib/trackRecordMetrics'
+import { apiRequest } from '@/lib/queryClient'
+import { markLegacyTrackRecordImported, parseTrackRecordNumber, readLegacyTrackRecordDeals } from '@/lib/trackRecordMetrics'
 import {
   CalendarClock,
   Copy,
@@ -35,6 +37,7 @@ import {
   Trash2,
   Trophy,
   Upload,
+  Users,
 } from 'lucide-react'
 
 type TrackDeal = {
@@ -56,10 +59,48 @@ type TrackDeal = {
   summary?: string
   imageUrls: string[]
   isFeatured: boolean
+  isShared: boolean
+  prospectId?: string
+  opportunityId?: string
+  intelDossierId?: string
+  ownerName?: string
   createdAt: string
   updatedAt: string
 }
 
+type ServerDeal = {
+  id: string
+  ownerName: string | null
+  sourceId: string | null
+  title: string
+  address: string
+  clientName: string | null
+  dealType: TrackDeal['dealType']
+  role: TrackDeal['role']
+  assetType: TrackDeal['assetType']
+  sizeSf: number | null
+  acres: number | null
+  submarket: string | null
+  closedDate: string | null
+  leaseExpiryDate: string | null
+  renewalNoticeDate: string | null
+  dealValue: string | null
+  summary: string | null
+  imageUrls: string[]
+  isFeatured: boolean
+  isShared: boolean
+  prospectId: string | null
+  opportunityId: string | null
+  intelDossierId: string | null
+  createdAt: string | null
+  updatedAt: string | null
+}
+
+type LinkOption = {
+  id: string
+  label: string
+}
+
 type DealImportResult = {
   deals: TrackDeal[]
   skippedRows: number
@@ -83,14 +124,108 @@ const emptyDeal = (): TrackDeal => ({
   summary: '',
   imageUrls: [],
   isFeatured: true,
+  isShared: false,
+  prospectId: '',
+  opportunityId: '',
+  intelDossierId: '',
   createdAt: new Date().toISOString(),
   updatedAt: new Date().toISOString(),
 })
 
+const MAX_DEAL_IMAGES = 8
+const DEAL_IMAGE_MAX_EDGE = 800
+// Stay under the API's 1 MB JSON body limit when sending a batch of deals.
+const MAX_IMPORT_BATCH_CHARS = 900_000
+const NO_LINK = 'none'
+
 function parseNumber(value?: string) {
   return parseTrackRecordNumber(value)
 }
 
+function optionalText(value?: string) {
+  return value?.trim() || null
+}
+
+function optionalNumber(value?: string) {
+  return value?.trim() ? parseNumber(value) : null
+}
+
+function fromServerDeal(deal: ServerDeal): TrackDeal {
+  return {
+    id: deal.id,
+    sourceId: deal.sourceId || undefined,
+    title: deal.title,
+    address: deal.address,
+    clientName: deal.clientName || '',
+    dealType: deal.dealType,
+    role: deal.role,
+    assetType: deal.assetType,
+    sizeSf: deal.sizeSf == null ? '' : String(deal.sizeSf),
+    acres: deal.acres == null ? '' : String(deal.acres),
+    submarket: deal.submarket || '',
+    closedDate: deal.closedDate || '',
+    leaseExpiryDate: deal.leaseExpiryDate || '',
+    renewalNoticeDate: deal.renewalNoticeDate || '',
+    value: deal.dealValue || '',
+    summary: deal.summary || '',
+    imageUrls: deal.imageUrls,
+    isFeatured: deal.isFeatured,
+    isShared: deal.isShared,
+    prospectId: deal.prospectId || '',
+    opportunityId: deal.opportunityId || '',
+    intelDossierId: deal.intelDossierId || '',
+    ownerName: deal.ownerName || undefined,
+    createdAt: deal.createdAt || '',
+    updatedAt: deal.updatedAt || '',
+  }
+}
+
+function toDealPayload(deal: TrackDeal) {
+  return {
+    sourceId: optionalText(deal.sourceId),
+    title: deal.title.trim(),
+    address: deal.address.trim(),
+    clientName: optionalText(deal.clientName),
+    dealType: deal.dealType,
+    role: deal.role,
+    assetType: deal.assetType,
+    sizeSf: optionalNumber(deal.sizeSf),
+    acres: optionalNumber(deal.acres),
+    submarket: optionalText(deal.submarket),
+    closedDate: optionalText(deal.closedDate),
+    leaseExpiryDate: optionalText(deal.leaseExpiryDate),
+    renewalNoticeDate: optionalText(deal.renewalNoticeDate),
+    dealValue: optionalText(deal.value),
+    summary: optionalText(deal.summary),
+    imageUrls: deal.imageUrls.slice(0, MAX_DEAL_IMAGES),
+    isFeatured: deal.isFeatured,
+    isShared: deal.isShared,
+    prospectId: optionalText(deal.prospectId),
+    opportunityId: optionalText(deal.opportunityId),
+    intelDossierId: optionalText(deal.intelDossierId),
+  }
+}
+
+type DealPayload = ReturnType<typeof toDealPayload>
+
+function batchDealPayloads(payloads: DealPayload[]) {
+  const batches: DealPayload[][] = []
+  let current: DealPayload[] = []
+  let currentSize = 0
+  for (const payload of payloads) {
+    const size = JSON.stringify(payload).length
+    if (current.length > 0 && (currentSize + size > MAX_IMPORT_BATCH_CHARS || current.length >= 500)) {
+      batches.push(current)
+      current = []
+      currentSize = 0
+    }
+    current.push(payload)
+    currentSize += size
+  }
+  if (current.length > 0) batches.push(current)
+  return batches
+}
+
 function formatNumber(value?: string | number) {
   const n = typeof value === 'number' ? value : parseNumber(value)
   return n > 0 ? n.toLocaleString() : '0'
@@ -282,6 +417,29 @@ function isImportableDealFile(file: File) {
   return name.endsWith('.csv') || name.endsWith('.xlsx') || name.endsWith('.xls')
 }
 
+// Photos are stored with the deal, so shrink them to a JPEG that fits
+// comfortably in an API request instead of sending camera originals.
+function downscaleImage(src: string): Promise<string> {
+  return new Promise((resolve) => {
+    const image = new Image()
+    image.onload = () => {
+      const scale = Math.min(1, DEAL_IMAGE_MAX_EDGE / Math.max(image.width, image.height))
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.max(1, Math.round(image.width * scale))
+      canvas.height = Math.max(1, Math.round(image.height * scale))
+      const context = canvas.getContext('2d')
+      if (!context) {
+        resolve(src)
+        return
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height)
+      resolve(canvas.toDataURL('image/jpeg', 0.72))
+    }
+    image.onerror = () => resolve(src)
+    image.src = src
+  })
+}
+
 function readImageDataUrls(files: FileList | File[], limit = 4): Promise<string[]> {
   return Promise.all(
     Array.from(files)
@@ -292,7 +450,7 @@ function readImageDataUrls(files: FileList | File[], limit = 4): Promise<string[
         reader.onload = () => resolve(String(reader.result))
         reader.onerror = reject
         reader.readAsDataURL(file)
-      })),
+      }).then(downscaleImage)),
   )
 }
 
@@ -347,11 +505,11 @@ function placeholderPosition(index: number) {
 }
 
 export default function TrackRecordPage() {
-  const [deals, setDeals] = useState<TrackDeal[]>([])
+  const queryClient = useQueryClient()
   const [form, setForm] = useState<TrackDeal>(() => emptyDeal())
   const [editingId, setEditingId] = useState<string | null>(null)
   const [query, setQuery] = useState('')
-  const [mode, setMode] = useState<'manage' | 'presentation'>('manage')
+  const [mode, setMode] = useState<'manage' | 'presentation' | 'team'>('manage')
   const [importMessage, setImportMessage] = useState('')
   const [isImportDragging, setIsImportDragging] = useState(false)
   const [isEditorOpen, setIsEditorOpen] = useState(false)
@@ -359,19 +517,98 @@ export default function TrackRecordPage() {
   const [showDealValues, setShowDealValues] = useState(false)
   const fileInputRef = useRef<HTMLInputElement | null>(null)
   const csvInputRef = useRef<HTMLInputElement | null>(null)
+  const legacyImportStartedRef = useRef(false)
 
-  useEffect(() => {
-    try {
-      const raw = localStorage.getItem(TRACK_RECORD_STORAGE_KEY)
-      if (raw) setDeals((JSON.parse(raw) as TrackDeal[]).map(normalizeStoredDeal))
-    } catch {
-      setDeals([])
+  const { data: dealData, isLoading: isLoadingDeals } = useQuery<{ rows: ServerDeal[] }>({
+    queryKey: ['/api/deals'],
+  })
+  const deals = useMemo(() => (dealData?.rows || []).map(fromServerDeal), [dealData])
+
+  const { data: teamDealData } = useQuery<{ rows: ServerDeal[] }>({
+    queryKey: ['/api/deals?scope=team'],
+    enabled: mode === 'team',
+  })
+  const teamDeals = useMemo(() => (teamDealData?.rows || []).map(fromServerDeal), [teamDealData])
+
+  const { data: prospectOptions = [] } = useQuery<any[], Error, LinkOption[]>({
+    queryKey: ['/api/prospects'],
+    enabled: isEditorOpen,
+    select: (rows) => (Array.isArray(rows) ? rows : []).map((row) => ({ id: row.id, label: row.name || row.address || 'Untitled prospect' })),
+  })
+  const { data: opportunityOptions = [] } = useQuery<{ rows: any[] }, Error, LinkOption[]>({
+    queryKey: ['/api/opportunities'],
+    enabled: isEditorOpen,
+    select: (data) => (data?.rows || []).map((row) => ({ id: row.id, label: row.title })),
+  })
+  const { data: dossierOptions = [] } = useQuery<any[], Error, LinkOption[]>({
+    queryKey: ['/api/intel/dossiers'],
+    enabled: isEditorOpen,
+    select: (rows) => (Array.isArray(rows) ? rows : []).map((row) => ({ id: row.id, label: row.title || row.address || 'Untitled dossier' })),
+  })
+
+  const refreshDeals = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/deals'] })
+    queryClient.invalidateQueries({ queryKey: ['/api/deals/metrics'] })
+    queryClient.invalidateQueries({ queryKey: ['/api/renewal-radar'] })
+  }
+
+  const saveDealMutation = useMutation({
+    mutationFn: async ({ id, payload }: { id: string | null; payload: Partial<DealPayload> }) => {
+      const res = id
+        ? await apiRequest('PATCH', `/api/deals/${id}`, payload)
+        : await apiRequest('POST', '/api/deals', payload)
+      return res.json() as Promise<ServerDeal>
+    },
+    onSuccess: refreshDeals,
+    onError: (error: any) => setImportMessage(error?.message || 'Could not save the deal.'),
+  })
+
+  const deleteDealMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/deals/${id}`)
+    },
+    onSuccess: refreshDeals,
+    onError: (error: any) => setImportMessage(error?.message || 'Could not delete the deal.'),
+  })
+
+  const importDeals = async (source: 'spreadsheet' | 'browser_import', payloads: DealPayload[]) => {
+    let imported = 0
+    let skipped = 0
+    for (const batch of batchDealPayloads(payloads)) {
+      const res = await apiRequest('POST', '/api/deals/import', { source, deals: batch })
+      const result = await res.json() as { imported: ServerDeal[]; skipped: number }
+      imported += result.imported.length
+      skipped += result.skipped
     }
-  }, [])
+    refreshDeals()
+    return { imported, skipped }
+  }
 
+  // One-time move of deals saved before the track record lived on the server.
   useEffect(() => {
-    localStorage.setItem(TRACK_RECORD_STORAGE_KEY, JSON.stringify(deals))
-  }, [deals])
+    if (legacyImportStartedRef.current) return
+    const legacyDeals = readLegacyTrackRecordDeals() as TrackDeal[]
+    if (!legacyDeals.length) return
+    legacyImportStartedRef.current = true
+
+    ;(async () => {
+      try {
+        const payloads = await Promise.all(legacyDeals
+          .filter((deal) => deal?.title?.trim() && deal?.address?.trim())
+          .map(async (deal) => {
+            const normalized = normalizeStoredDeal({ ...emptyDeal(), ...deal, isShared: false })
+            const imageUrls = await Promise.all((normalized.imageUrls || []).slice(0, MAX_DEAL_IMAGES).map(downscaleImage))
+            return toDealPayload({ ...normalized, sourceId: normalized.sourceId || `local-${deal.id}`, imageUrls })
+          }))
+        const { imported, skipped } = await importDeals('browser_import', payloads)
+        markLegacyTrackRecordImported()
+        setImportMessage(`Moved ${imported} deals from this browser to your account${skipped ? ` (${skipped} already saved)` : ''}.`)
+      } catch (error: any) {
+        legacyImportStartedRef.current = false
+        setImportMessage(error?.message || 'Could not move deals saved in this browser. They are still stored locally.')
+      }
+    })()
+  }, [])
 
   const totals = useMemo(() => {
     const totalSf = deals.reduce((sum, deal) => sum + parseNumber(deal.sizeSf), 0)
@@ -404,12 +641,15 @@ export default function TrackRecordPage() {
     setIsEditorOpen(true)
   }
 
-  const save = () => {
+  const save = async () => {
     if (!form.title.trim() || !form.address.trim()) return
-    const payload = { ...form, updatedAt: new Date().toISOString() }
-    setDeals((current) => editingId ? current.map((deal) => deal.id === editingId ? payload : deal) : [payload, ...current])
-    reset()
-    setIsEditorOpen(false)
+    try {
+      await saveDealMutation.mutateAsync({ id: editingId, payload: toDealPayload(form) })
+      reset()
+      setIsEditorOpen(false)
+    } catch {
+      // onError already surfaced the message
+    }
   }
 
   const edit = (deal: TrackDeal) => {
@@ -421,55 +661,57 @@ export default function TrackRecordPage() {
 
   const remove = (id: string) => {
     if (confirm('Delete this track record deal?')) {
-      setDeals((current) => current.filter((deal) => deal.id !== id))
+      deleteDealMutation.mutate(id)
       if (editingId === id) reset()
     }
   }
 
-  const clearImportedDeals = () => {
+  const clearImportedDeals = async () => {
     const importedCount = deals.filter((deal) => deal.sourceId?.startsWith('trade-')).length
     if (!importedCount) {
       setImportMessage('No imported report deals to clear.')
       return
     }
     if (confirm(`Remove ${importedCount} imported report deals? Manually added deals will stay.`)) {
-      setDeals((current) => current.filter((deal) => !deal.sourceId?.startsWith('trade-')))
-      setImportMessage(`Removed ${importedCount} imported report deals. You can re-upload the workbook now.`)
+      try {
+        await Promise.all(deals
+          .filter((deal) => deal.sourceId?.startsWith('trade-'))
+          .map((deal) => apiRequest('DELETE', `/api/deals/${deal.id}`)))
+        setImportMessage(`Removed ${importedCount} imported report deals. You can re-upload the workbook now.`)
+      } catch (error: any) {
+        setImportMessage(error?.message || 'Could not remove every imported deal.')
+      } finally {
+        refreshDeals()
+      }
     }
   }
 
   const addImages = async (files: FileList | null) => {
     if (!files?.length) return
     const urls = await readImageDataUrls(files)
-    setForm((current) => ({ ...current, imageUrls: [...current.imageUrls, ...urls].slice(0, 8) }))
+    setForm((current) => ({ ...current, imageUrls: [...current.imageUrls, ...urls].slice(0, MAX_DEAL_IMAGES) }))
   }
 
   const addImagesToDeal = async (dealId: string, files: FileList | null) => {
     if (!files?.length) return
     const urls = await readImageDataUrls(files)
     if (!urls.length) return
-    setDeals((current) => current.map((deal) => (
-      deal.id === dealId
-        ? { ...deal, imageUrls: [...deal.imageUrls, ...urls].slice(0, 8), updatedAt: new Date().toISOString() }
-        : deal
-    )))
-    setImportMessage(`Added ${urls.length} photo${urls.length === 1 ? '' : 's'} to the deal.`)
+    const deal = deals.find((item) => item.id === dealId)
+    if (!deal) return
+    saveDealMutation.mutate(
+      { id: dealId, payload: { imageUrls: [...deal.imageUrls, ...urls].slice(0, MAX_DEAL_IMAGES) } },
+      { onSuccess: () => setImportMessage(`Added ${urls.length} photo${urls.length === 1 ? '' : 's'} to the deal.`) },
+    )
   }
 
   const removeDealImage = (dealId: string, imageIndex: number) => {
-    setDeals((current) => current.map((deal) => (
-      deal.id === dealId
-        ? { ...deal, imageUrls: deal.imageUrls.filter((_, index) => index !== imageIndex), updatedAt: new Date().toISOString() }
-        : deal
-    )))
+    const deal = deals.find((item) => item.id === dealId)
+    if (!deal) return
+    saveDealMutation.mutate({ id: dealId, payload: { imageUrls: deal.imageUrls.filter((_, index) => index !== imageIndex) } })
   }
 
   const setDealType = (dealId: string, dealType: TrackDeal['dealType']) => {
-    setDeals((current) => current.map((deal) => (
-      deal.id === dealId
-        ? { ...deal, dealType, updatedAt: new Date().toISOString() }
-        : deal
-    )))
+    saveDealMutation.mutate({ id: dealId, payload: { dealType } })
   }
 
   const importDealFile = async (file: File | undefined) => {
@@ -484,19 +726,12 @@ export default function TrackRecordPage() {
       const result = fileName.endsWith('.csv')
         ? await parseTrackRecordCsv(file)
         : await parseTrackRecordWorkbook(file)
-      let duplicateCount = 0
-      const seen = new Set(deals.map((deal) => deal.sourceId || `${deal.title}|${deal.address}|${deal.closedDate}`.toLowerCase()))
-      const newDeals = result.deals.filter((deal) => {
-        const key = deal.sourceId || `${deal.title}|${deal.address}|${deal.closedDate}`.toLowerCase()
-        if (seen.has(key)) {
-          duplicateCount += 1
-          return false
-        }
-        seen.add(key)
-        return true
-      })
-      setDeals([...newDeals, ...deals])
-      setImportMessage(`Imported ${result.deals.length - duplicateCount} deals. Skipped ${duplicateCount + result.skippedRows} duplicate or incomplete rows.`)
+      if (!result.deals.length) {
+        setImportMessage(`No deals found. Skipped ${result.skippedRows} incomplete rows.`)
+        return
+      }
+      const { imported, skipped } = await importDeals('spreadsheet', result.deals.map(toDealPayload))
+      setImportMessage(`Imported ${imported} deals. Skipped ${skipped + result.skippedRows} duplicate or incomplete rows.`)
     } catch (error: any) {
       setImportMessage(error?.message || 'CSV import failed.')
     } finally {
@@ -588,9 +823,10 @@ export default function TrackRecordPage() {
               </TooltipTrigger>
               <TooltipContent>Import CSV</TooltipContent>
             </Tooltip>
-            <ToggleGroup type="single" value={mode} onValueChange={(value) => value && setMode(value as 'manage' | 'presentation')}>
+            <ToggleGroup type="single" value={mode} onValueChange={(value) => value && setMode(value as 'manage' | 'presentation' | 'team')}>
               <ToggleGroupItem value="manage" className="h-9 px-3 text-xs">Private Ledger</ToggleGroupItem>
               <ToggleGroupItem value="presentation" className="h-9 px-3 text-xs">Client Sheet</ToggleGroupItem>
+              <ToggleGroupItem value="team" className="h-9 px-3 text-xs">Team</ToggleGroupItem>
             </ToggleGroup>
             {mode === 'manage' && (
               <Button onClick={startNewDeal}>
@@ -698,7 +934,9 @@ export default function TrackRecordPage() {
                 onAddImages={addImagesToDeal}
                 onRemoveImage={removeDealImage}
                 onSetDealType={setDealType}
-                emptyState={(
+                emptyState={isLoadingDeals ? (
+                  <div className="rounded-lg border border-dashed border-slate-300 bg-white p-8 text-center text-sm text-slate-500">Loading track record...</div>
+                ) : (
                   <EmptyTrackRecordState
                     onImport={() => csvInputRef.current?.click()}
                     onAddDeal={startNewDeal}
@@ -745,6 +983,28 @@ export default function TrackRecordPage() {
           </section>
         )}
 
+        {mode === 'team' && (
+          <section className="space-y-4">
+            <div className="rounded-lg border border-slate-200 bg-white p-5 shadow-sm">
+              <h2 className="inline-flex items-center gap-2 text-xl font-semibold text-slate-950">
+                <Users className="h-5 w-5 text-emerald-700" />
+                Team Track Record
+              </h2>
+              <p className="mt-1 max-w-2xl text-sm leading-6 text-slate-600">
+                Deals teammates at your company chose to share. Turn on Share with team in a deal to add your own.
+              </p>
+            </div>
+            <DealGrid
+              deals={teamDeals}
+              presentation
+              showOwner
+              showClientNames={showClientNames}
+              showDealValues={showDealValues}
+              emptyState={<div className="rounded-lg border border-dashed border-slate-300 bg-white p-8 text-center text-sm text-slate-500">No shared team deals yet. Teammates need the same company on their profile.</div>}
+            />
+          </section>
+        )}
+
         <Sheet
           open={isEditorOpen}
           onOpenChange={(open) => {
@@ -770,6 +1030,10 @@ export default function TrackRecordPage() {
               onReset={reset}
               onAddImages={addImages}
               fileInputRef={fileInputRef}
+              isSaving={saveDealMutation.isPending}
+              prospectOptions={prospectOptions}
+              opportunityOptions={opportunityOptions}
+              dossierOptions={dossierOptions}
             />
           </SheetContent>
         </Sheet>
@@ -786,6 +1050,10 @@ function DealEditor({
   onReset,
   onAddImages,
   fileInputRef,
+  isSaving,
+  prospectOptions,
+  opportunityOptions,
+  dossierOptions,
 }: {
   form: TrackDeal
   setForm: Dispatch<SetStateAction<TrackDeal>>
@@ -794,6 +1062,10 @@ function DealEditor({
   onReset: () => void
   onAddImages: (files: FileList | null) => void
   fileInputRef: MutableRefObject<HTMLInputElement | null>
+  isSaving: boolean
+  prospectOptions: LinkOption[]
+  opportunityOptions: LinkOption[]
+  dossierOptions: LinkOption[]
 }) {
   return (
     <div className="mt-6 space-y-4 pb-8">
@@ -873,6 +1145,36 @@ function DealEditor({
           <Input value={form.value || ''} onChange={(e) => setForm((p) => ({ ...p, value: e.target.value }))} placeholder="$2.4M / $15.00 PSF" />
         </div>
       </div>
+      <div className="grid gap-3 md:grid-cols-3">
+        <DealLinkSelect
+          label="Prospect"
+          value={form.prospectId}
+          options={prospectOptions}
+          onChange={(prospectId) => setForm((p) => ({ ...p, prospectId }))}
+        />
+        <DealLinkSelect
+          label="Opportunity"
+          value={form.opportunityId}
+          options={opportunityOptions}
+          onChange={(opportunityId) => setForm((p) => ({ ...p, opportunityId }))}
+        />
+        <DealLinkSelect
+          label="Property Dossier"
+          value={form.intelDossierId}
+          options={dossierOptions}
+          onChange={(intelDossierId) => setForm((p) => ({ ...p, intelDossierId }))}
+        />
+      </div>
+      <div className="flex flex-wrap gap-4 text-sm text-slate-700">
+        <label className="inline-flex items-center gap-2">
+          <input type="checkbox" checked={form.isFeatured} onChange={(e) => setForm((p) => ({ ...p, isFeatured: e.target.checked }))} />
+          Show on client sheet
+        </label>
+        <label className="inline-flex items-center gap-2">
+          <input type="checkbox" checked={form.isShared} onChange={(e) => setForm((p) => ({ ...p, isShared: e.target.checked }))} />
+          Share with team
+        </label>
+      </div>
       <div>
         <Label>Client-Facing Summary</Label>
         <Textarea rows={3} value={form.summary || ''} onChange={(e) => setForm((p) => ({ ...p, summary: e.target.value }))} placeholder="Negotiated renewal and expansion for..." />
@@ -907,7 +1209,7 @@ function DealEditor({
         </div>
       )}
       <div className="sticky bottom-0 -mx-6 flex gap-2 border-t border-slate-200 bg-white px-6 py-4">
-        <Button onClick={onSave} disabled={!form.title.trim() || !form.address.trim()}>
+        <Button onClick={onSave} disabled={isSaving || !form.title.trim() || !form.address.trim()}>
           <Download className="mr-2 h-4 w-4" />
           {editingId ? 'Update' : 'Save'}
         </Button>
@@ -917,6 +1219,35 @@ function DealEditor({
   )
 }
 
+function DealLinkSelect({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string
+  value?: string
+  options: LinkOption[]
+  onChange: (value: string) => void
+}) {
+  const hasCurrent = !value || options.some((option) => option.id === value)
+  return (
+    <div>
+      <Label>{label}</Label>
+      <Select value={value || NO_LINK} onValueChange={(next) => onChange(next === NO_LINK ? '' : next)}>
+        <SelectTrigger><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_LINK}>Not linked</SelectItem>
+          {!hasCurrent && value && <SelectItem value={value}>Linked record</SelectItem>}
+          {options.map((option) => (
+            <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
 function EmptyTrackRecordState({ onImport, onAddDeal }: { onImport: () => void; onAddDeal: () => void }) {
   return (
     <div className="rounded-lg border border-dashed border-slate-300 bg-white p-8 text-center shadow-sm">
@@ -950,6 +1281,7 @@ function DealGrid({
   onSetDealType,
   emptyState,
   presentation = false,
+  showOwner = false,
   showClientNames = true,
   showDealValues = true,
 }: {
@@ -961,6 +1293,7 @@ function DealGrid({
   onSetDealType?: (id: string, dealType: TrackDeal['dealType']) => void
   emptyState?: ReactNode
   presentation?: boolean
+  showOwner?: boolean
   showClientNames?: boolean
   showDealValues?: boolean
 }) {
@@ -1027,6 +1360,7 @@ function DealGrid({
               <div>
                 <CardTitle className={presentation ? 'text-xl leading-tight text-slate-950' : 'text-lg leading-tight'}>{deal.title}</CardTitle>
                 <p className="mt-1 text-sm text-slate-500">{deal.address}</p>
+                {showOwner && deal.ownerName && <p className="mt-1 text-xs font-medium text-emerald-700">{deal.ownerName}</p>}
               </div>
               {!presentation && (
                 <div className="flex gap-1">
@@ -1040,6 +1374,7 @@ function DealGrid({
               <Badge variant="outline">{roleLabel(deal.role)}</Badge>
               <Badge variant="outline">{deal.assetType}</Badge>
               {deal.isFeatured && <Badge className="bg-emerald-100 text-emerald-800 hover:bg-emerald-100">Featured</Badge>}
+              {!presentation && deal.isShared && <Badge variant="outline">Shared</Badge>}
             </div>
             {!presentation && onSetDealType && (
               <div className="flex flex-wrap gap-1.5 pt-1">
@@ -0,0 +1,184 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Building2, FileText, Landmark, Loader2, RefreshCw, User } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+type OwnerEntityType = "corporation" | "individual" | "government" | "unknown";
+type EvidenceType = "source_file" | "fact" | "activity_event" | "asset";
+
+type OwnershipEvidence = {
+  id: string;
+  evidenceType: EvidenceType;
+  sourcePath: string | null;
+  sourceHash: string | null;
+  factId: string | null;
+  activityEventId: string | null;
+  assetId: string | null;
+  assetFileName: string | null;
+};
+
+type OwnershipRecord = {
+  id: string;
+  ownerName: string;
+  titleNumber: string | null;
+  linc: string | null;
+  transferDate: string | null;
+  titlePulledDate: string | null;
+  confidence: number;
+  source: string;
+  evidence: OwnershipEvidence[];
+};
+
+type OwnershipPeriod = {
+  ownerName: string;
+  normalizedOwnerName: string;
+  ownerEntityType: OwnerEntityType;
+  since: string | null;
+  sinceIsTransferDate: boolean;
+  until: string | null;
+  lastConfirmedAt: string | null;
+  titleNumbers: string[];
+  lincs: string[];
+  confidence: number;
+  recordIds: string[];
+  evidenceCount: number;
+};
+
+type DossierOwnership = {
+  dossierId: string;
+  currentOwner: OwnershipPeriod | null;
+  chain: OwnershipPeriod[];
+  records: OwnershipRecord[];
+};
+
+const ENTITY_LABELS: Record<OwnerEntityType, string> = {
+  corporation: "Corporation",
+  individual: "Individual",
+  government: "Government",
+  unknown: "Unclassified",
+};
+
+const EVIDENCE_LABELS: Record<EvidenceType, string> = {
+  source_file: "Title file",
+  fact: "Approved fact",
+  activity_event: "Title audit",
+  asset: "Dossier asset",
+};
+
+// Ownership dates are calendar dates; parse them as local days so they don't shift a day west of UTC.
+function formatDay(value: string | null) {
+  if (!value) return "-";
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+}
+
+function OwnerIcon({ type }: { type: OwnerEntityType }) {
+  if (type === "individual") return <User className="h-4 w-4 text-slate-500" />;
+  if (type === "government") return <Landmark className="h-4 w-4 text-slate-500" />;
+  return <Building2 className="h-4 w-4 text-slate-500" />;
+}
+
+function evidenceLabel(evidence: OwnershipEvidence) {
+  if (evidence.evidenceType === "asset") return evidence.assetFileName || EVIDENCE_LABELS.asset;
+  if (evidence.evidenceType === "source_file") return evidence.sourcePath?.split(/[\\/]/).pop() || EVIDENCE_LABELS.source_file;
+  return EVIDENCE_LABELS[evidence.evidenceType];
+}
+
+export default function DossierOwnershipHistory({ dossierId }: { dossierId: string }) {
+  const { toast } = useToast();
+  const queryKey = [`/api/intel/dossiers/${dossierId}/ownership`];
+  const { data: ownership, isLoading } = useQuery<DossierOwnership>({ queryKey });
+
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/intel/dossiers/${dossierId}/ownership/refresh`);
+      return response.json() as Promise<{ eventsScanned: number; recordsSaved: number; ownership: DossierOwnership }>;
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(queryKey, result.ownership);
+      toast({ title: "Ownership refreshed", description: `${result.eventsScanned} title audit owner records checked.` });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to refresh ownership", description: error?.message || "Please try again.", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500">Loading ownership...</p>;
+  }
+
+  const current = ownership?.currentOwner || null;
+  const recordsById = new Map((ownership?.records || []).map((record) => [record.id, record]));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        {current ? (
+          <div className="min-w-0">
+            <p className="text-[11px] uppercase tracking-wide text-slate-500">Current registered owner</p>
+            <div className="mt-1 flex items-center gap-2">
+              <OwnerIcon type={current.ownerEntityType} />
+              <p className="truncate text-base font-semibold text-slate-950">{current.ownerName}</p>
+              <Badge variant="outline" className="bg-white">{ENTITY_LABELS[current.ownerEntityType]}</Badge>
+            </div>
+            <p className="mt-1 text-xs text-slate-500">
+              {current.sinceIsTransferDate ? `Transferred ${formatDay(current.since)}` : `On title since at least ${formatDay(current.since)}`}
+              {current.lastConfirmedAt ? ` · title pulled ${formatDay(current.lastConfirmedAt)}` : ""}
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500">No registered owner recorded. Approve a title in brokerage memory or refresh from the title audit.</p>
+        )}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="shrink-0 rounded-full"
+          disabled={refreshMutation.isPending}
+          onClick={() => refreshMutation.mutate()}
+        >
+          {refreshMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+          Refresh
+        </Button>
+      </div>
+
+      {(ownership?.chain.length || 0) > 0 && (
+        <ol className="space-y-3 border-l border-slate-200 pl-4">
+          {ownership?.chain.map((period, index) => {
+            const evidence = period.recordIds.flatMap((id) => recordsById.get(id)?.evidence || []);
+            return (
+              <li key={`${period.normalizedOwnerName}-${period.since || index}`} className="relative text-sm">
+                <span className={`absolute -left-[21px] top-1.5 h-2 w-2 rounded-full ${index === 0 ? "bg-blue-600" : "bg-slate-300"}`} />
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold text-slate-900">{period.ownerName}</span>
+                  <span className="text-xs text-slate-500">
+                    {formatDay(period.since)} → {period.until ? formatDay(period.until) : "present"}
+                  </span>
+                </div>
+                <p className="mt-0.5 text-xs text-slate-500">
+                  {[
+                    period.titleNumbers.length ? `Title ${period.titleNumbers.join(", ")}` : null,
+                    period.lincs.length ? `LINC ${period.lincs.join(", ")}` : null,
+                    `${period.confidence}% confidence`,
+                  ].filter(Boolean).join(" · ")}
+                </p>
+                {evidence.length > 0 && (
+                  <div className="mt-1 flex flex-wrap gap-1.5">
+                    {evidence.map((item) => (
+                      <span key={item.id} className="inline-flex items-center gap-1 rounded-full bg-slate-100 px-2 py-0.5 text-[11px] text-slate-600" title={item.sourceHash || undefined}>
+                        <FileText className="h-3 w-3" />
+                        {evidenceLabel(item)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useQuery } from "@tanstack/react-query";
+
+type ObservationType = "baseline" | "new" | "updated" | "reactivated" | "removed";
+type AskingField = "leaseRatePsf" | "totalPrice" | "pricePerAcre";
+
+type ListingObservation = {
+  observedAt: string;
+  observationType: ObservationType;
+  triggerType: string | null;
+  status: string | null;
+  availableSf: number | null;
+  totalPrice: number | null;
+  pricePerAcre: number | null;
+  leaseRatePsf: number | null;
+};
+
+type AskingPriceMove = {
+  observedAt: string;
+  field: AskingField;
+  before: number;
+  after: number;
+  percentChange: number;
+};
+
+type ListingHistory = {
+  listingId: string;
+  title: string;
+  firstSeenAt: string | null;
+  removedAt: string | null;
+  observations: ListingObservation[];
+  summary: {
+    daysOnMarket: number;
+    relistings: number;
+    askingField: AskingField | null;
+    priceCuts: AskingPriceMove[];
+    priceIncreases: AskingPriceMove[];
+    lastChangedAt: string | null;
+  };
+};
+
+type TimelineEvent = {
+  key: string;
+  observedAt: string;
+  label: string;
+  tone: string;
+};
+
+const ASKING_FIELD_LABELS: Record<AskingField, string> = {
+  leaseRatePsf: "Asking rate",
+  totalPrice: "Asking price",
+  pricePerAcre: "Price/acre",
+};
+
+function formatAsking(field: AskingField, value: number) {
+  if (field === "leaseRatePsf") return `$${value.toFixed(2)}/SF`;
+  return new Intl.NumberFormat(undefined, { style: "currency", currency: "CAD", maximumFractionDigits: 0 }).format(value);
+}
+
+function formatDay(value: string | null) {
+  if (!value) return "-";
+  return new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+}
+
+function Sparkline({ values, stroke }: { values: Array<number | null>; stroke: string }) {
+  const points = values.filter((value): value is number => value != null);
+  if (points.length < 2) {
+    return <div className="flex h-12 items-center text-xs text-slate-400">Not enough history yet</div>;
+  }
+
+  const min = Math.min(...points);
+  const max = Math.max(...points);
+  const range = max - min || 1;
+  const width = 160;
+  const height = 40;
+  const coordinates = points.map((value, index) => {
+    const x = (index / (points.length - 1)) * width;
+    const y = height - 4 - ((value - min) / range) * (height - 8);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="h-12 w-full" preserveAspectRatio="none" role="img" aria-hidden="true">
+      <polyline points={coordinates.join(" ")} fill="none" stroke={stroke} strokeWidth={2} strokeLinejoin="round" strokeLinecap="round" />
+    </svg>
+  );
+}
+
+function buildTimelineEvents(history: ListingHistory): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+
+  history.observations.forEach((observation, index) => {
+    if (observation.observationType === "removed") {
+      events.push({ key: `removed-${index}`, observedAt: observation.observedAt, label: "Pulled from market", tone: "bg-slate-400" });
+    } else if (observation.observationType === "reactivated") {
+      events.push({ key: `relisted-${index}`, observedAt: observation.observedAt, label: "Re-listed", tone: "bg-blue-500" });
+    }
+  });
+
+  history.summary.priceCuts.forEach((move, index) => {
+    events.push({
+      key: `cut-${index}`,
+      observedAt: move.observedAt,
+      label: `${ASKING_FIELD_LABELS[move.field]} cut ${formatAsking(move.field, move.before)} → ${formatAsking(move.field, move.after)} (${move.percentChange}%)`,
+      tone: "bg-emerald-500",
+    });
+  });
+
+  history.summary.priceIncreases.forEach((move, index) => {
+    events.push({
+      key: `increase-${index}`,
+      observedAt: move.observedAt,
+      label: `${ASKING_FIELD_LABELS[move.field]} raised ${formatAsking(move.field, move.before)} → ${formatAsking(move.field, move.after)} (+${move.percentChange}%)`,
+      tone: "bg-rose-500",
+    });
+  });
+
+  return events.sort((left, right) => new Date(right.observedAt).getTime() - new Date(left.observedAt).getTime());
+}
+
+export default function ListingHistoryTimeline({ listingId }: { listingId: string }) {
+  const { data: history, isLoading } = useQuery<ListingHistory>({
+    queryKey: [`/api/intel/listings/${listingId}/history`],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-slate-500">Loading history...</p>;
+  }
+
+  if (!history) {
+    return <p className="text-sm text-slate-500">No history recorded for this listing.</p>;
+  }
+
+  const { summary } = history;
+  const askingField = summary.askingField;
+  const events = buildTimelineEvents(history);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div className="rounded-xl bg-slate-50 p-2">
+          <p className="text-lg font-semibold text-slate-950">{summary.daysOnMarket}</p>
+          <p className="text-[11px] uppercase tracking-wide text-slate-500">Days on market</p>
+        </div>
+        <div className="rounded-xl bg-slate-50 p-2">
+          <p className="text-lg font-semibold text-slate-950">{summary.priceCuts.length}</p>
+          <p className="text-[11px] uppercase tracking-wide text-slate-500">Price cuts</p>
+        </div>
+        <div className="rounded-xl bg-slate-50 p-2">
+          <p className="text-lg font-semibold text-slate-950">{summary.relistings}</p>
+          <p className="text-[11px] uppercase tracking-wide text-slate-500">Re-listings</p>
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div>
+          <p className="text-xs font-semibold text-slate-600">{askingField ? ASKING_FIELD_LABELS[askingField] : "Asking price"}</p>
+          <Sparkline values={history.observations.map((point) => (askingField ? point[askingField] : null))} stroke="#2563eb" />
+        </div>
+        <div>
+          <p className="text-xs font-semibold text-slate-600">Available SF</p>
+          <Sparkline values={history.observations.map((point) => point.availableSf)} stroke="#0f766e" />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs text-slate-500">
+          First seen {formatDay(history.firstSeenAt)}
+          {history.removedAt ? ` · off market since ${formatDay(history.removedAt)}` : ""}
+        </p>
+        {events.slice(0, 6).map((event) => (
+          <div key={event.key} className="flex items-start gap-2 text-sm text-slate-700">
+            <span className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${event.tone}`} />
+            <span>
+              <span className="text-xs text-slate-500">{formatDay(event.observedAt)}</span> {event.label}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { useCallback, useMemo, useState } from "react";
+import { CircleF, GoogleMap, PolygonF, useJsApiLoader } from "@react-google-maps/api";
+import { Circle, Pentagon, Square, Trash2 } from "lucide-react";
+import { describeRequirementSearchArea, type RequirementSearchArea } from "@level-cre/shared";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { getGoogleMapsApiKey, getGoogleMapsMapId } from "@/lib/googleMapsApiKey";
+import { useTerraDrawGoogleMaps, type TerraDrawFinishPayload } from "@/features/map/useTerraDrawGoogleMaps";
+
+const GOOGLE_MAPS_API_KEY = getGoogleMapsApiKey();
+const GOOGLE_MAPS_MAP_ID = getGoogleMapsMapId();
+const GOOGLE_MAPS_LIBRARIES: any = ["marker"];
+const DEFAULT_MAP_CENTER = { lat: 53.5461, lng: -113.4938 };
+const MAP_CONTAINER_STYLE = { width: "100%", height: "100%" };
+const DEFAULT_RADIUS_KM = "10";
+const MAX_SEARCH_AREAS = 10;
+
+type RadiusDraft = {
+  label: string;
+  lat: string;
+  lng: string;
+  radiusKm: string;
+};
+
+const EMPTY_RADIUS_DRAFT: RadiusDraft = { label: "", lat: "", lng: "", radiusKm: DEFAULT_RADIUS_KM };
+
+function parseCoordinate(value: string, limit: number) {
+  if (!value.trim()) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && Math.abs(parsed) <= limit ? parsed : null;
+}
+
+function areaCenter(area: RequirementSearchArea) {
+  if (area.kind === "radius") return { lat: area.center[1], lng: area.center[0] };
+  const ring = area.coordinates[0] || [];
+  if (ring.length === 0) return null;
+  const lng = ring.reduce((sum, [value]) => sum + value, 0) / ring.length;
+  const lat = ring.reduce((sum, [, value]) => sum + value, 0) / ring.length;
+  return { lat, lng };
+}
+
+type RequirementSearchAreaEditorProps = {
+  areas: RequirementSearchArea[];
+  onChange: (areas: RequirementSearchArea[]) => void;
+};
+
+export default function RequirementSearchAreaEditor({ areas, onChange }: RequirementSearchAreaEditorProps) {
+  const [map, setMap] = useState<google.maps.Map | null>(null);
+  const [radiusDraft, setRadiusDraft] = useState<RadiusDraft>(EMPTY_RADIUS_DRAFT);
+  const [drawError, setDrawError] = useState<string | null>(null);
+  const { isLoaded: isMapLoaded, loadError: mapLoadError } = useJsApiLoader({
+    id: "industrial-intel-map",
+    googleMapsApiKey: GOOGLE_MAPS_API_KEY,
+    libraries: GOOGLE_MAPS_LIBRARIES,
+    mapIds: [GOOGLE_MAPS_MAP_ID],
+  });
+  const isFull = areas.length >= MAX_SEARCH_AREAS;
+
+  const addArea = useCallback((area: RequirementSearchArea) => {
+    if (areas.length >= MAX_SEARCH_AREAS) return;
+    onChange([...areas, area]);
+  }, [areas, onChange]);
+
+  // A dropped point becomes the center of a radius area using the radius in the
+  // form; polygons and rectangles are stored as drawn. The draw hook always
+  // emits [lng, lat] points and GeoJSON rings, never the legacy flat polygon.
+  const handleDrawFinish = useCallback(({ geometry }: TerraDrawFinishPayload) => {
+    if (geometry.type === "Point") {
+      const radiusKm = Number(radiusDraft.radiusKm) > 0 ? Number(radiusDraft.radiusKm) : Number(DEFAULT_RADIUS_KM);
+      const center = geometry.coordinates as [number, number];
+      addArea({ kind: "radius", label: radiusDraft.label.trim() || null, center, radiusKm });
+      setRadiusDraft(EMPTY_RADIUS_DRAFT);
+      return;
+    }
+    const coordinates = geometry.coordinates as Array<Array<[number, number]>>;
+    addArea({ kind: "polygon", label: `Area ${areas.length + 1}`, coordinates });
+  }, [addArea, areas.length, radiusDraft]);
+
+  const { isReady: isDrawReady, mode: drawMode, setMode: setDrawMode } = useTerraDrawGoogleMaps({
+    map,
+    enabled: isMapLoaded && Boolean(GOOGLE_MAPS_API_KEY),
+    onFinish: handleDrawFinish,
+    onUnavailable: () => setDrawError("Drawing tools are still loading. Try again in a moment."),
+    onError: (error) => {
+      console.error("Requirement search area drawing failed:", error);
+      setDrawError("Drawing failed. Enter a radius instead.");
+    },
+  });
+
+  const mapCenter = useMemo(() => (areas.length > 0 ? areaCenter(areas[areas.length - 1]) : null) || DEFAULT_MAP_CENTER, [areas]);
+  const canUseMap = Boolean(GOOGLE_MAPS_API_KEY) && !mapLoadError;
+
+  const addRadiusFromDraft = () => {
+    const lat = parseCoordinate(radiusDraft.lat, 90);
+    const lng = parseCoordinate(radiusDraft.lng, 180);
+    const radiusKm = Number(radiusDraft.radiusKm);
+    if (lat == null || lng == null || !(radiusKm > 0)) {
+      setDrawError("Enter a latitude, longitude, and radius in km.");
+      return;
+    }
+    setDrawError(null);
+    addArea({ kind: "radius", label: radiusDraft.label.trim() || null, center: [lng, lat], radiusKm });
+    setRadiusDraft(EMPTY_RADIUS_DRAFT);
+  };
+
+  const updateLabel = (index: number, label: string) => {
+    onChange(areas.map((area, areaIndex) => (areaIndex === index ? { ...area, label } : area)));
+  };
+
+  const removeArea = (index: number) => {
+    onChange(areas.filter((_, areaIndex) => areaIndex !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {canUseMap && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" size="sm" variant={drawMode === "polygon" ? "default" : "outline"} disabled={!isDrawReady || isFull} onClick={() => setDrawMode("polygon")}>
+              <Pentagon className="mr-2 h-4 w-4" />
+              Draw polygon
+            </Button>
+            <Button type="button" size="sm" variant={drawMode === "rectangle" ? "default" : "outline"} disabled={!isDrawReady || isFull} onClick={() => setDrawMode("rectangle")}>
+              <Square className="mr-2 h-4 w-4" />
+              Draw rectangle
+            </Button>
+            <Button type="button" size="sm" variant={drawMode === "point" ? "default" : "outline"} disabled={!isDrawReady || isFull} onClick={() => setDrawMode("point")}>
+              <Circle className="mr-2 h-4 w-4" />
+              Drop radius center
+            </Button>
+          </div>
+          <div className="h-72 overflow-hidden rounded-2xl border border-slate-200">
+            {isMapLoaded ? (
+              <GoogleMap
+                mapContainerStyle={MAP_CONTAINER_STYLE}
+                center={mapCenter}
+                zoom={10}
+                onLoad={setMap}
+                onUnmount={() => setMap(null)}
+                options={{
+                  streetViewControl: false,
+                  mapTypeControl: false,
+                  fullscreenControl: false,
+                  gestureHandling: "greedy",
+                  mapId: GOOGLE_MAPS_MAP_ID,
+                }}
+              >
+                {areas.map((area, index) => (area.kind === "radius" ? (
+                  <CircleF
+                    key={`radius-${index}`}
+                    center={{ lat: area.center[1], lng: area.center[0] }}
+                    radius={area.radiusKm * 1000}
+                    options={{ fillColor: "#7C3AED", fillOpacity: 0.12, strokeColor: "#7C3AED", strokeWeight: 2, clickable: false }}
+                  />
+                ) : (
+                  <PolygonF
+                    key={`polygon-${index}`}
+                    paths={area.coordinates.map((ring) => ring.map(([lng, lat]) => ({ lat, lng })))}
+                    options={{ fillColor: "#3B82F6", fillOpacity: 0.12, strokeColor: "#3B82F6", strokeWeight: 2, clickable: false }}
+                  />
+                )))}
+              </GoogleMap>
+            ) : (
+              <div className="flex h-full items-center justify-center text-sm text-slate-500">Loading map...</div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="grid gap-2 md:grid-cols-[1.4fr_1fr_1fr_0.8fr_auto] md:items-end">
+        <div className="space-y-1">
+          <Label htmlFor="searchAreaLabel">Radius label</Label>
+          <Input id="searchAreaLabel" value={radiusDraft.label} onChange={(e) => setRadiusDraft((current) => ({ ...current, label: e.target.value }))} placeholder="Henday & Yellowhead" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="searchAreaLat">Latitude</Label>
+          <Input id="searchAreaLat" value={radiusDraft.lat} onChange={(e) => setRadiusDraft((current) => ({ ...current, lat: e.target.value }))} inputMode="decimal" placeholder="53.575" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="searchAreaLng">Longitude</Label>
+          <Input id="searchAreaLng" value={radiusDraft.lng} onChange={(e) => setRadiusDraft((current) => ({ ...current, lng: e.target.value }))} inputMode="decimal" placeholder="-113.615" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="searchAreaRadius">Radius km</Label>
+          <Input id="searchAreaRadius" value={radiusDraft.radiusKm} onChange={(e) => setRadiusDraft((current) => ({ ...current, radiusKm: e.target.value }))} inputMode="decimal" />
+        </div>
+        <Button type="button" variant="outline" onClick={addRadiusFromDraft} disabled={isFull}>
+          Add radius
+        </Button>
+      </div>
+
+      {drawError && <p className="text-sm text-rose-700">{drawError}</p>}
+      {!canUseMap && (
+        <p className="text-sm text-slate-500">Map drawing is unavailable here; radius areas can still be entered by coordinates.</p>
+      )}
+
+      {areas.length > 0 ? (
+        <div className="space-y-2">
+          {areas.map((area, index) => (
+            <div key={`${area.kind}-${index}`} className="flex items-center gap-2 rounded-xl border border-slate-200 bg-white px-3 py-2">
+              <span className={`h-2.5 w-2.5 shrink-0 rounded-full ${area.kind === "radius" ? "bg-violet-600" : "bg-blue-500"}`} />
+              <Input
+                aria-label="Search area label"
+                className="h-8"
+                value={area.label || ""}
+                onChange={(e) => updateLabel(index, e.target.value)}
+                placeholder={area.kind === "radius" ? "Radius label" : "Polygon label"}
+              />
+              <span className="shrink-0 text-xs text-slate-500">{describeRequirementSearchArea({ ...area, label: null })}</span>
+              <Button type="button" size="sm" variant="ghost" onClick={() => removeArea(index)} aria-label="Remove search area">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">
+          No search areas yet. Matching falls back to the market and submarket text until one is drawn.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { CalendarCheck, MessageSquare, ThumbsDown, ThumbsUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+export type SurveyClientResponse = "interested" | "not_interested" | "tour";
+
+export type SurveyClientFeedbackEvent = {
+  id: string;
+  action: string;
+  summary: string | null;
+  payload: Record<string, unknown>;
+  createdAt: string | null;
+};
+
+export const SURVEY_CLIENT_RESPONSE_LABELS: Record<SurveyClientResponse, string> = {
+  interested: "Interested",
+  not_interested: "Not interested",
+  tour: "Tour requested",
+};
+
+const RESPONSE_OPTIONS: Array<{ value: SurveyClientResponse; label: string; icon: typeof ThumbsUp; activeClassName: string }> = [
+  { value: "interested", label: "Interested", icon: ThumbsUp, activeClassName: "border-emerald-300 bg-emerald-50 text-emerald-800" },
+  { value: "not_interested", label: "Not interested", icon: ThumbsDown, activeClassName: "border-rose-300 bg-rose-50 text-rose-800" },
+  { value: "tour", label: "Request tour", icon: CalendarCheck, activeClassName: "border-blue-300 bg-blue-50 text-blue-800" },
+];
+
+export function feedbackComment(event: SurveyClientFeedbackEvent): string | null {
+  return typeof event.payload.comment === "string" ? event.payload.comment : null;
+}
+
+export function feedbackAuthor(event: SurveyClientFeedbackEvent): string | null {
+  return typeof event.payload.authorName === "string" ? event.payload.authorName : null;
+}
+
+type SurveyClientFeedbackPanelProps = {
+  itemId: string;
+  response: SurveyClientResponse | null;
+  comments: SurveyClientFeedbackEvent[];
+  disabled?: boolean;
+  onRespond: (response: SurveyClientResponse | null) => void;
+  onComment: (comment: string) => Promise<unknown>;
+};
+
+export default function SurveyClientFeedbackPanel({
+  itemId,
+  response,
+  comments,
+  disabled,
+  onRespond,
+  onComment,
+}: SurveyClientFeedbackPanelProps) {
+  const [draft, setDraft] = useState("");
+
+  const submitComment = async () => {
+    const comment = draft.trim();
+    if (!comment) return;
+    try {
+      await onComment(comment);
+      setDraft("");
+    } catch {
+      // The page reports the failure; keep the draft so nothing is lost.
+    }
+  };
+
+  return (
+    <div className="space-y-3 border-t border-slate-100 px-4 py-3 print:hidden">
+      <div className="flex flex-wrap gap-2">
+        {RESPONSE_OPTIONS.map((option) => {
+          const Icon = option.icon;
+          const active = response === option.value;
+          return (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant="outline"
+              aria-pressed={active}
+              disabled={disabled}
+              className={`gap-1.5 ${active ? option.activeClassName : ""}`}
+              onClick={() => onRespond(active ? null : option.value)}
+            >
+              <Icon className="h-3.5 w-3.5" />
+              {option.label}
+            </Button>
+          );
+        })}
+      </div>
+
+      {comments.length > 0 && (
+        <ul className="space-y-2">
+          {comments.map((event) => (
+            <li key={event.id} className="rounded-md bg-slate-50 px-3 py-2 text-sm text-slate-700">
+              <p className="whitespace-pre-wrap">{feedbackComment(event)}</p>
+              <p className="mt-1 text-xs text-slate-500">
+                {[feedbackAuthor(event), event.createdAt ? new Date(event.createdAt).toLocaleString() : null].filter(Boolean).join(" - ")}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <Textarea
+          id={`client-comment-${itemId}`}
+          value={draft}
+          maxLength={2000}
+          onChange={(event) => setDraft(event.target.value)}
+          placeholder="Questions or comments for your broker"
+          className="min-h-[72px] text-sm"
+          disabled={disabled}
+        />
+        <div className="flex justify-end">
+          <Button type="button" size="sm" className="gap-1.5" disabled={disabled || !draft.trim()} onClick={submitComment}>
+            <MessageSquare className="h-3.5 w-3.5" />
+            Send comment
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
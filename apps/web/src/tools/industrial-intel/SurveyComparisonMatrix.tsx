@@ -0,0 +1,123 @@
+import { CheckCircle2, XCircle } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+
+export type SurveyComparisonValue = string | number | boolean | null;
+
+export type SurveyComparisonCell = {
+  itemId: string;
+  value: SurveyComparisonValue;
+  source: "dossier" | "listing" | null;
+  highlight: "best" | "worst" | null;
+  requirement: "pass" | "fail" | null;
+};
+
+export type SurveyComparisonRow = {
+  factKey: string;
+  label: string;
+  unit: string | null;
+  requirement: string | null;
+  clientVisible: boolean;
+  cells: SurveyComparisonCell[];
+};
+
+export type SurveyComparison = {
+  options: Array<{ itemId: string; number: number; title: string }>;
+  rows: SurveyComparisonRow[];
+  clientFactKeys: string[];
+  usesStandardClientFacts: boolean;
+};
+
+export function formatComparisonValue(value: SurveyComparisonValue, unit: string | null): string {
+  if (value === null) return "-";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "number") {
+    const number = value.toLocaleString("en-CA", { maximumFractionDigits: 2 });
+    if (!unit) return number;
+    return unit === "%" ? `${number}%` : `${number} ${unit}`;
+  }
+  return value;
+}
+
+const HIGHLIGHT_CLASS_NAMES: Record<"best" | "worst", string> = {
+  best: "bg-emerald-50 text-emerald-900",
+  worst: "bg-rose-50 text-rose-900",
+};
+
+type SurveyComparisonMatrixProps = {
+  comparison: SurveyComparison;
+  // Broker view only: shows the per-row switch that releases a fact to the client.
+  onToggleClientFact?: (factKey: string, visible: boolean) => void;
+  disabled?: boolean;
+};
+
+export default function SurveyComparisonMatrix({ comparison, onToggleClientFact, disabled }: SurveyComparisonMatrixProps) {
+  if (comparison.options.length === 0 || comparison.rows.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed border-slate-300 bg-slate-50 px-4 py-6 text-center text-sm text-slate-600">
+        {comparison.options.length === 0
+          ? "Add options to compare them side by side."
+          : "Approve dossier facts for these properties to fill the comparison."}
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full min-w-[640px] border-collapse text-sm">
+        <thead>
+          <tr className="border-b border-slate-200 text-left">
+            <th className="sticky left-0 bg-white px-3 py-2 text-xs font-semibold uppercase tracking-wide text-slate-500">Fact</th>
+            {comparison.options.map((option) => (
+              <th key={option.itemId} className="px-3 py-2 align-bottom font-semibold text-slate-900">
+                <span className="mr-1 text-slate-500">{option.number}.</span>
+                {option.title}
+              </th>
+            ))}
+            {onToggleClientFact && (
+              <th className="px-3 py-2 text-right text-xs font-semibold uppercase tracking-wide text-slate-500">Client</th>
+            )}
+          </tr>
+        </thead>
+        <tbody>
+          {comparison.rows.map((row) => (
+            <tr
+              key={row.factKey}
+              className={`border-b border-slate-100 ${onToggleClientFact && !row.clientVisible ? "text-slate-400" : ""}`}
+            >
+              <th scope="row" className="sticky left-0 bg-white px-3 py-2 text-left align-top font-medium text-slate-700">
+                {row.label}
+                {row.requirement && <p className="text-xs font-normal text-slate-500">Target {row.requirement}</p>}
+              </th>
+              {row.cells.map((cell) => (
+                <td
+                  key={cell.itemId}
+                  className={`px-3 py-2 align-top ${cell.highlight ? HIGHLIGHT_CLASS_NAMES[cell.highlight] : ""}`}
+                  title={cell.source === "listing" ? "From the listing record" : undefined}
+                >
+                  <span className="inline-flex items-center gap-1.5">
+                    {cell.requirement === "pass" && <CheckCircle2 className="h-3.5 w-3.5 text-emerald-600" aria-label="Meets requirement" />}
+                    {cell.requirement === "fail" && <XCircle className="h-3.5 w-3.5 text-rose-600" aria-label="Misses requirement" />}
+                    {formatComparisonValue(cell.value, row.unit)}
+                  </span>
+                </td>
+              ))}
+              {onToggleClientFact && (
+                <td className="px-3 py-2 text-right align-top">
+                  <Switch
+                    checked={row.clientVisible}
+                    disabled={disabled}
+                    aria-label={`Show ${row.label} to the client`}
+                    onCheckedChange={(checked) => onToggleClientFact(row.factKey, checked)}
+                  />
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-2 text-xs text-slate-500">
+        Green marks the best value in a row and red the weakest; checks compare each option with the requirement.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import type { LeaseEconomics, LeaseTerms } from "@level-cre/shared";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LeaseEconomicsSummary } from "@/components/LeaseEconomicsSummary";
+
+type LeaseTermsForm = {
+  termYears: string;
+  baseRatePsf: string;
+  escalationPct: string;
+  freeRentMonths: string;
+  tiAllowancePsf: string;
+  additionalRentPsf: string;
+};
+
+const FIELDS: Array<{ key: keyof LeaseTermsForm; label: string; placeholder?: string }> = [
+  { key: "termYears", label: "Term (years)", placeholder: "5" },
+  { key: "baseRatePsf", label: "Net rate ($/SF)", placeholder: "Asking" },
+  { key: "escalationPct", label: "Escalation (%/yr)" },
+  { key: "freeRentMonths", label: "Free rent (months)" },
+  { key: "tiAllowancePsf", label: "TI allowance ($/SF)" },
+  { key: "additionalRentPsf", label: "Additional rent ($/SF)" },
+];
+
+function text(value: number | null | undefined) {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+function toForm(terms: LeaseTerms | null): LeaseTermsForm {
+  return {
+    termYears: terms?.termMonths ? text(Math.round((terms.termMonths / 12) * 100) / 100) : "",
+    baseRatePsf: text(terms?.baseRatePsf),
+    escalationPct: terms?.escalation?.kind === "percent" ? text(terms.escalation.amount) : "",
+    freeRentMonths: text(terms?.freeRentMonths),
+    tiAllowancePsf: text(terms?.tiAllowancePsf),
+    additionalRentPsf: text(terms?.additionalRentPsf),
+  };
+}
+
+function number(value: string) {
+  if (!value.trim()) return null;
+  const parsed = Number(value.replace(/[$,\s]/g, ""));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+// Keeps any fields the form does not edit (rent steps, commission) when saving.
+function toTerms(form: LeaseTermsForm, current: LeaseTerms | null): LeaseTerms | null {
+  const termYears = number(form.termYears);
+  const escalationPct = number(form.escalationPct);
+  const next: LeaseTerms = {
+    ...(current || {}),
+    termMonths: termYears ? Math.round(termYears * 12) : null,
+    baseRatePsf: number(form.baseRatePsf),
+    escalation: escalationPct !== null
+      ? { kind: "percent", amount: escalationPct }
+      : current?.escalation?.kind === "fixed" ? current.escalation : null,
+    freeRentMonths: number(form.freeRentMonths),
+    tiAllowancePsf: number(form.tiAllowancePsf),
+    additionalRentPsf: number(form.additionalRentPsf),
+  };
+  return Object.values(next).some((value) => value !== null && value !== undefined) ? next : null;
+}
+
+type SurveyLeaseTermsEditorProps = {
+  itemId: string;
+  leaseTerms: LeaseTerms | null;
+  leaseEconomics: LeaseEconomics | null;
+  disabled?: boolean;
+  onSave: (leaseTerms: LeaseTerms | null) => void;
+};
+
+export default function SurveyLeaseTermsEditor({ itemId, leaseTerms, leaseEconomics, disabled, onSave }: SurveyLeaseTermsEditorProps) {
+  const [form, setForm] = useState<LeaseTermsForm>(() => toForm(leaseTerms));
+
+  useEffect(() => {
+    setForm(toForm(leaseTerms));
+  }, [itemId, leaseTerms]);
+
+  const commit = () => {
+    const next = toTerms(form, leaseTerms);
+    if (JSON.stringify(next) !== JSON.stringify(leaseTerms)) onSave(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+        {FIELDS.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <Label htmlFor={`lease-${field.key}-${itemId}`} className="text-xs">{field.label}</Label>
+            <Input
+              id={`lease-${field.key}-${itemId}`}
+              inputMode="decimal"
+              className="h-9"
+              value={form[field.key]}
+              placeholder={field.placeholder}
+              disabled={disabled}
+              onChange={(event) => setForm((current) => ({ ...current, [field.key]: event.target.value }))}
+              onBlur={commit}
+            />
+          </div>
+        ))}
+      </div>
+      <LeaseEconomicsSummary economics={leaseEconomics} className="rounded-md bg-slate-50 p-3" />
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { Car, CheckCircle2, ExternalLink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+export type SurveyTourStop = {
+  itemId: string;
+  number: number;
+  title: string;
+  address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  travelKm: number | null;
+  travelMinutes: number;
+  arriveAt: string;
+  departAt: string;
+  tourNotes: string | null;
+  touredAt: string | null;
+};
+
+export type SurveyTour = {
+  settings: {
+    surveyId: string;
+    startLabel: string | null;
+    startLatitude: number;
+    startLongitude: number;
+    startAt: string;
+    minutesPerStop: number;
+    itemIds: string[];
+    updatedAt: string | null;
+  };
+  schedule: {
+    startAt: string;
+    endAt: string;
+    totalKm: number;
+    totalTravelMinutes: number;
+    stops: SurveyTourStop[];
+    unmappedItemIds: string[];
+  };
+};
+
+export function formatTourTime(value: string) {
+  return new Date(value).toLocaleTimeString("en-CA", { hour: "numeric", minute: "2-digit" });
+}
+
+export function formatTourDate(value: string) {
+  return new Date(value).toLocaleDateString("en-CA", { weekday: "long", month: "long", day: "numeric", year: "numeric" });
+}
+
+export function formatTourMinutes(minutes: number) {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours} hr ${rest} min` : `${hours} hr`;
+}
+
+function directionsUrl(stop: SurveyTourStop) {
+  const destination =
+    stop.latitude !== null && stop.longitude !== null ? `${stop.latitude},${stop.longitude}` : stop.address || stop.title;
+  return `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(destination)}`;
+}
+
+function TourStopNotes({ stop, saving, onSave }: { stop: SurveyTourStop; saving: boolean; onSave: (notes: string | null) => void }) {
+  const [draft, setDraft] = useState(stop.tourNotes || "");
+
+  useEffect(() => {
+    setDraft(stop.tourNotes || "");
+  }, [stop.itemId, stop.tourNotes]);
+
+  const dirty = draft.trim() !== (stop.tourNotes || "").trim();
+
+  return (
+    <div className="mt-3 space-y-2 print:hidden">
+      <Textarea
+        value={draft}
+        rows={3}
+        placeholder="Post-tour notes: condition, fit, follow-ups..."
+        aria-label={`Tour notes for stop ${stop.number}`}
+        onChange={(event) => setDraft(event.target.value)}
+      />
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-slate-500">
+          {stop.touredAt ? `Noted ${new Date(stop.touredAt).toLocaleString("en-CA")}` : "Internal only - never shown to the client."}
+        </p>
+        <Button type="button" size="sm" variant="outline" disabled={saving || !dirty} onClick={() => onSave(draft.trim() || null)}>
+          {saving ? "Saving..." : "Save notes"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+type SurveyTourItineraryProps = {
+  tour: SurveyTour;
+  // Broker view only: per-stop post-tour notes.
+  onSaveNotes?: (itemId: string, notes: string | null) => void;
+  savingItemId?: string | null;
+};
+
+export default function SurveyTourItinerary({ tour, onSaveNotes, savingItemId }: SurveyTourItineraryProps) {
+  const { schedule, settings } = tour;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-slate-600">
+        <span>{formatTourDate(schedule.startAt)}</span>
+        <span>
+          {formatTourTime(schedule.startAt)} - {formatTourTime(schedule.endAt)}
+        </span>
+        <span>
+          {schedule.stops.length} stops, about {schedule.totalKm.toLocaleString("en-CA")} km and {formatTourMinutes(schedule.totalTravelMinutes)} driving
+        </span>
+      </div>
+      <ol className="space-y-3">
+        <li className="rounded-lg border border-dashed border-slate-300 px-4 py-3 text-sm text-slate-600">
+          Depart {settings.startLabel || "start location"} at {formatTourTime(schedule.startAt)}
+        </li>
+        {schedule.stops.map((stop) => (
+          <li key={stop.itemId} className="break-inside-avoid rounded-lg border border-slate-200 bg-white px-4 py-3">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="font-semibold text-slate-950">
+                  <span className="mr-1 text-slate-500">{stop.number}.</span>
+                  {stop.title}
+                  {stop.touredAt && <CheckCircle2 className="ml-2 inline h-4 w-4 text-emerald-600" aria-label="Toured" />}
+                </p>
+                {stop.address && <p className="mt-0.5 text-sm text-slate-600">{stop.address}</p>}
+                <p className="mt-1 flex items-center gap-1.5 text-xs text-slate-500">
+                  <Car className="h-3.5 w-3.5" />
+                  {stop.travelKm === null
+                    ? `Drive time unknown, ${stop.travelMinutes} min allowed`
+                    : `${stop.travelKm.toLocaleString("en-CA")} km, about ${formatTourMinutes(stop.travelMinutes)}`}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="text-sm font-semibold text-slate-950">
+                  {formatTourTime(stop.arriveAt)} - {formatTourTime(stop.departAt)}
+                </p>
+                <a
+                  href={directionsUrl(stop)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="mt-1 inline-flex items-center gap-1 text-xs font-medium text-blue-700 hover:underline print:hidden"
+                >
+                  <ExternalLink className="h-3 w-3" />
+                  Directions
+                </a>
+              </div>
+            </div>
+            {onSaveNotes && (
+              <TourStopNotes stop={stop} saving={savingItemId === stop.itemId} onSave={(notes) => onSaveNotes(stop.itemId, notes)} />
+            )}
+          </li>
+        ))}
+      </ol>
+      {schedule.unmappedItemIds.length > 0 && (
+        <p className="text-xs text-slate-500">
+          Stops without map coordinates are placed last with a fixed drive allowance; check their timing before you go.
+        </p>
+      )}
+    </div>
+  );
+}
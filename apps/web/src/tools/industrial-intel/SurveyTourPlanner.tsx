@@ -0,0 +1,249 @@
+import { useEffect, useState } from "react";
+import { LocateFixed, Route } from "lucide-react";
+import { useGeocode } from "@/hooks/useGeocode";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type { SurveyTour } from "./SurveyTourItinerary";
+
+export type SurveyTourPlannerData = {
+  tour: SurveyTour | null;
+  suggestedItemIds: string[];
+};
+
+export type SurveyTourPlanInput = {
+  itemIds: string[];
+  startLabel: string | null;
+  startLatitude: number;
+  startLongitude: number;
+  startAt: string;
+  minutesPerStop: number;
+  optimize: boolean;
+};
+
+export type SurveyTourOption = {
+  itemId: string;
+  title: string;
+  address: string | null;
+  mapped: boolean;
+  clientResponseLabel: string | null;
+};
+
+type PlannerForm = {
+  itemIds: string[];
+  startLabel: string;
+  start: { latitude: number; longitude: number } | null;
+  startAt: string;
+  minutesPerStop: string;
+  optimize: boolean;
+};
+
+// datetime-local inputs work in the browser's local time without a zone suffix.
+function toLocalInput(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function nextMorning() {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(9, 0, 0, 0);
+  return date;
+}
+
+function toForm(planner: SurveyTourPlannerData | undefined): PlannerForm {
+  const settings = planner?.tour?.settings;
+  if (settings) {
+    return {
+      itemIds: settings.itemIds,
+      startLabel: settings.startLabel || "",
+      start: { latitude: settings.startLatitude, longitude: settings.startLongitude },
+      startAt: toLocalInput(new Date(settings.startAt)),
+      minutesPerStop: String(settings.minutesPerStop),
+      optimize: true,
+    };
+  }
+  return {
+    itemIds: planner?.suggestedItemIds || [],
+    startLabel: "",
+    start: null,
+    startAt: toLocalInput(nextMorning()),
+    minutesPerStop: "30",
+    optimize: true,
+  };
+}
+
+type SurveyTourPlannerProps = {
+  surveyId: string;
+  planner: SurveyTourPlannerData | undefined;
+  options: SurveyTourOption[];
+  // The geocoder rides on the Maps script the survey page already loads.
+  geocoderReady: boolean;
+  saving?: boolean;
+  onPlan: (input: SurveyTourPlanInput) => void;
+};
+
+export default function SurveyTourPlanner({ surveyId, planner, options, geocoderReady, saving, onPlan }: SurveyTourPlannerProps) {
+  const { forward } = useGeocode();
+  const [form, setForm] = useState<PlannerForm>(() => toForm(planner));
+  const [locating, setLocating] = useState(false);
+  const [locateError, setLocateError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setForm(toForm(planner));
+    setLocateError(null);
+  }, [surveyId, planner]);
+
+  const locate = async () => {
+    if (!geocoderReady || !form.startLabel.trim()) return;
+    setLocating(true);
+    setLocateError(null);
+    const result = await forward(form.startLabel);
+    setLocating(false);
+    if (!result.location) {
+      setLocateError("Could not find that address. Try a fuller street address.");
+      return;
+    }
+    setForm((current) => ({
+      ...current,
+      startLabel: result.address || current.startLabel,
+      start: { latitude: result.location!.lat, longitude: result.location!.lng },
+    }));
+  };
+
+  const toggleItem = (itemId: string, checked: boolean) => {
+    setForm((current) => ({
+      ...current,
+      itemIds: checked ? [...current.itemIds, itemId] : current.itemIds.filter((id) => id !== itemId),
+    }));
+  };
+
+  const minutesPerStop = Number(form.minutesPerStop);
+  const startAt = new Date(form.startAt);
+  const canPlan =
+    form.itemIds.length > 0 &&
+    form.itemIds.length <= 25 &&
+    form.start !== null &&
+    Number.isInteger(minutesPerStop) &&
+    minutesPerStop >= 5 &&
+    minutesPerStop <= 240 &&
+    Number.isFinite(startAt.getTime());
+
+  const plan = () => {
+    if (!canPlan || !form.start) return;
+    onPlan({
+      // Without optimizing, the saved order (plus newly ticked stops) is the tour order.
+      itemIds: form.itemIds.filter((itemId) => options.some((option) => option.itemId === itemId)),
+      startLabel: form.startLabel.trim() || null,
+      startLatitude: form.start.latitude,
+      startLongitude: form.start.longitude,
+      startAt: startAt.toISOString(),
+      minutesPerStop,
+      optimize: form.optimize,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Stops</Label>
+        {options.length === 0 ? (
+          <p className="text-sm text-slate-500">Add options to the survey before planning a tour.</p>
+        ) : (
+          <div className="space-y-1.5">
+            {options.map((option) => (
+              <label key={option.itemId} className="flex items-start gap-2 text-sm">
+                <Checkbox
+                  className="mt-0.5"
+                  checked={form.itemIds.includes(option.itemId)}
+                  onCheckedChange={(checked) => toggleItem(option.itemId, checked === true)}
+                />
+                <span className="min-w-0">
+                  <span className="font-medium text-slate-900">{option.title}</span>
+                  {option.clientResponseLabel && <span className="ml-2 text-xs text-blue-700">{option.clientResponseLabel}</span>}
+                  {!option.mapped && <span className="ml-2 text-xs text-amber-700">Not mapped</span>}
+                  {option.address && <span className="block text-xs text-slate-500">{option.address}</span>}
+                </span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="surveyTourStart">Start location</Label>
+        <div className="flex gap-2">
+          <Input
+            id="surveyTourStart"
+            value={form.startLabel}
+            placeholder="Office or first meeting point"
+            onChange={(event) => setForm((current) => ({ ...current, startLabel: event.target.value, start: null }))}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") {
+                event.preventDefault();
+                void locate();
+              }
+            }}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            className="gap-2"
+            disabled={!geocoderReady || locating || !form.startLabel.trim()}
+            onClick={() => void locate()}
+          >
+            <LocateFixed className="h-4 w-4" />
+            {locating ? "Finding..." : "Locate"}
+          </Button>
+        </div>
+        {locateError ? (
+          <p className="text-xs text-rose-700">{locateError}</p>
+        ) : form.start ? (
+          <p className="text-xs text-slate-500">
+            Starting at {form.start.latitude.toFixed(4)}, {form.start.longitude.toFixed(4)}
+          </p>
+        ) : (
+          <p className="text-xs text-slate-500">Locate the start address so drive times can be estimated.</p>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="surveyTourStartAt">Start time</Label>
+          <Input
+            id="surveyTourStartAt"
+            type="datetime-local"
+            value={form.startAt}
+            onChange={(event) => setForm((current) => ({ ...current, startAt: event.target.value }))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="surveyTourMinutesPerStop">Minutes per stop</Label>
+          <Input
+            id="surveyTourMinutesPerStop"
+            type="number"
+            min={5}
+            max={240}
+            step={5}
+            value={form.minutesPerStop}
+            onChange={(event) => setForm((current) => ({ ...current, minutesPerStop: event.target.value }))}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <Switch checked={form.optimize} onCheckedChange={(checked) => setForm((current) => ({ ...current, optimize: checked }))} />
+          Reorder stops for the shortest drive
+        </label>
+        <Button type="button" className="gap-2" disabled={!canPlan || saving} onClick={plan}>
+          <Route className="h-4 w-4" />
+          {saving ? "Planning..." : planner?.tour ? "Update tour" : "Plan tour"}
+        </Button>
+      </div>
+      {form.itemIds.length > 25 && <p className="text-xs text-rose-700">A tour can include up to 25 stops.</p>}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useMemo, useState } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import {
+  Calculator,
   Check,
   CheckCircle2,
   CircleAlert,
@@ -27,6 +28,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import DossierOwnershipHistory from "../DossierOwnershipHistory";
+import ListingHistoryTimeline from "../ListingHistoryTimeline";
 
 type IntelListing = {
   id: string;
@@ -809,6 +812,32 @@ export default function IndustrialIntelDossiersPage() {
                             )}
                           </div>
                         </div>
+
+                        {activeListing && (
+                          <div className="rounded-2xl border border-slate-200 bg-white p-5">
+                            <h3 className="text-sm font-semibold text-slate-950">Price and availability history</h3>
+                            <div className="mt-3">
+                              <ListingHistoryTimeline listingId={activeListing.id} />
+                            </div>
+                          </div>
+                        )}
+
+                        <div className="rounded-2xl border border-slate-200 bg-white p-5">
+                          <h3 className="text-sm font-semibold text-slate-950">Ownership and title history</h3>
+                          <div className="mt-3">
+                            <DossierOwnershipHistory dossierId={selectedDossier.id} />
+                          </div>
+                        </div>
+
+                        <div className="rounded-2xl border border-slate-200 bg-white p-5">
+                          <h3 className="text-sm font-semibold text-slate-950">Valuation</h3>
+                          <a
+                            href={`/app/bov?dossierId=${encodeURIComponent(selectedDossier.id)}`}
+                            className="mt-3 flex items-center justify-between rounded-xl border border-slate-200 px-3 py-2 text-sm font-semibold text-blue-700 hover:bg-blue-50"
+                          >
+                            BOV worksheets <Calculator className="h-4 w-4" />
+                          </a>
+                        </div>
                       </div>
 
                       <div className="space-y-4">
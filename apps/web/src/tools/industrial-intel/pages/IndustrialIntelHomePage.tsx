@@ -1,9 +1,52 @@
+import { useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { AlertTriangle, ArrowRight, ClipboardList, Clock3, Database, FileText, RefreshCw, TrendingUp } from "lucide-react";
+import { AlertTriangle, ArrowRight, ClipboardList, Clock3, Database, Edit3, Eye, FileText, Plus, RefreshCw, Save, TrendingUp, X } from "lucide-react";
 import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 
+// Broker-site sources with a dedicated adapter on the API.
+const ADAPTER_SOURCE_SLUGS = new Set(["cwedm", "nai-edmonton", "avison-young", "jll", "cbre", "colliers"]);
+
+const FEED_KINDS = ["csv_url", "json_url"] as const;
+
+const SCHEDULED_SOURCE_KINDS = new Set(["broker_site", "csv_url", "json_url"]);
+
+const SCHEDULE_OPTIONS = [
+  { value: "", label: "Manual only" },
+  { value: "360", label: "Every 6h" },
+  { value: "720", label: "Every 12h" },
+  { value: "1440", label: "Nightly" },
+  { value: "10080", label: "Weekly" },
+];
+
+// Mirrors INTEL_FEED_TARGET_FIELDS / INTEL_FEED_FIELD_UNITS in the API feed adapter.
+const FEED_FIELDS: Array<{ key: string; label: string; units?: string[] }> = [
+  { key: "externalId", label: "External ID" },
+  { key: "title", label: "Title" },
+  { key: "address", label: "Address" },
+  { key: "market", label: "Market" },
+  { key: "submarket", label: "Submarket" },
+  { key: "status", label: "Status" },
+  { key: "listingType", label: "Listing type" },
+  { key: "assetType", label: "Asset type" },
+  { key: "lat", label: "Latitude" },
+  { key: "lng", label: "Longitude" },
+  { key: "availableSf", label: "Available area", units: ["sf", "sqm", "acres"] },
+  { key: "minDivisibleSf", label: "Min divisible", units: ["sf", "sqm", "acres"] },
+  { key: "landAcres", label: "Land", units: ["acres", "sf", "sqm", "hectares"] },
+  { key: "totalPrice", label: "Sale price", units: ["total", "psf", "per_acre"] },
+  { key: "pricePerAcre", label: "Price per acre", units: ["per_acre", "total", "psf"] },
+  { key: "leaseRatePsf", label: "Lease rate", units: ["psf", "psf_monthly", "total_annual", "total_monthly"] },
+  { key: "clearHeightFt", label: "Clear height", units: ["ft", "m"] },
+  { key: "brochureUrl", label: "Brochure URL" },
+  { key: "sourceUrl", label: "Listing URL" },
+];
+
 type IntelSummary = {
   activeListings: number;
   newListings: number;
@@ -18,8 +61,39 @@ type IntelSource = {
   slug: string;
   kind: string;
   feedUrl: string | null;
+  fieldMapping?: Record<string, unknown>;
   isActive: boolean;
   updatedAt: string | null;
+  scheduleIntervalMinutes?: number | null;
+  nextRunAt?: string | null;
+  lastSuccessAt?: string | null;
+  consecutiveFailures?: number;
+  isStale?: boolean;
+};
+
+type FeedFieldForm = { source: string; unit: string };
+
+type FeedSourceForm = {
+  name: string;
+  kind: (typeof FEED_KINDS)[number];
+  feedUrl: string;
+  recordsPath: string;
+  recordKey: string;
+  isActive: boolean;
+  fields: Record<string, FeedFieldForm>;
+};
+
+type FeedPreview = {
+  columns: string[];
+  totalRows: number;
+  records: Array<{
+    sourceRecordKey: string;
+    title: string;
+    address?: string | null;
+    availableSf?: number | null;
+    landAcres?: number | null;
+    rawPayload: { leaseRatePsf?: number | null };
+  }>;
 };
 
 type IntelRun = {
@@ -83,6 +157,222 @@ function formatMutationError(error: unknown) {
   return raw;
 }
 
+function scheduleOptionsFor(value: number | null | undefined) {
+  const current = value ? String(value) : "";
+  if (SCHEDULE_OPTIONS.some((option) => option.value === current)) return SCHEDULE_OPTIONS;
+  return [...SCHEDULE_OPTIONS, { value: current, label: `Every ${Math.round(Number(current) / 60)}h` }];
+}
+
+function isFeedSource(source: IntelSource) {
+  return source.kind === "csv_url" || source.kind === "json_url";
+}
+
+function emptyFeedForm(): FeedSourceForm {
+  return { name: "", kind: "csv_url", feedUrl: "", recordsPath: "", recordKey: "", isActive: true, fields: {} };
+}
+
+function feedFormFromSource(source: IntelSource): FeedSourceForm {
+  const mapping = source.fieldMapping || {};
+  const fields: Record<string, FeedFieldForm> = {};
+  for (const field of FEED_FIELDS) {
+    const value = mapping[field.key];
+    if (typeof value === "string") {
+      fields[field.key] = { source: value, unit: "" };
+    } else if (value && typeof value === "object") {
+      const rule = value as { source?: unknown; unit?: unknown };
+      fields[field.key] = { source: String(rule.source || ""), unit: typeof rule.unit === "string" ? rule.unit : "" };
+    }
+  }
+  const recordKey = mapping.recordKey;
+  return {
+    name: source.name,
+    kind: source.kind === "json_url" ? "json_url" : "csv_url",
+    feedUrl: source.feedUrl || "",
+    recordsPath: typeof mapping.recordsPath === "string" ? mapping.recordsPath : "",
+    recordKey: Array.isArray(recordKey) ? recordKey.join(", ") : typeof recordKey === "string" ? recordKey : "",
+    isActive: source.isActive,
+    fields,
+  };
+}
+
+function fieldMappingFromForm(form: FeedSourceForm) {
+  const mapping: Record<string, unknown> = {};
+  if (form.kind === "json_url" && form.recordsPath.trim()) mapping.recordsPath = form.recordsPath.trim();
+  const recordKey = form.recordKey.split(",").map((value) => value.trim()).filter(Boolean);
+  if (recordKey.length > 0) mapping.recordKey = recordKey.length === 1 ? recordKey[0] : recordKey;
+  for (const [key, field] of Object.entries(form.fields)) {
+    if (!field.source.trim()) continue;
+    mapping[key] = field.unit ? { source: field.source.trim(), unit: field.unit } : field.source.trim();
+  }
+  return mapping;
+}
+
+function FeedSourceEditor({
+  source,
+  onClose,
+  onSaved,
+}: {
+  source: IntelSource | null;
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<FeedSourceForm>(() => (source ? feedFormFromSource(source) : emptyFeedForm()));
+  const [preview, setPreview] = useState<FeedPreview | null>(null);
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/intel/sources/feed-preview", {
+        kind: form.kind,
+        feedUrl: form.feedUrl.trim(),
+        fieldMapping: fieldMappingFromForm(form),
+      });
+      return response.json() as Promise<FeedPreview>;
+    },
+    onSuccess: (result) => setPreview(result),
+    onError: (error) => {
+      toast({ title: "Feed preview failed", description: formatMutationError(error), variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name.trim(),
+        kind: form.kind,
+        feedUrl: form.feedUrl.trim(),
+        fieldMapping: fieldMappingFromForm(form),
+        isActive: form.isActive,
+      };
+      const response = source
+        ? await apiRequest("PATCH", `/api/intel/sources/${source.id}`, body)
+        : await apiRequest("POST", "/api/intel/sources", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: source ? "Feed source updated" : "Feed source added" });
+      onSaved();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save feed source", description: formatMutationError(error), variant: "destructive" });
+    },
+  });
+
+  const setField = (key: string, patch: Partial<FeedFieldForm>) => {
+    const current = form.fields[key] || { source: "", unit: "" };
+    setForm({ ...form, fields: { ...form.fields, [key]: { ...current, ...patch } } });
+  };
+  const canSubmit = Boolean(form.feedUrl.trim()) && Boolean(form.fields.title?.source.trim() || form.fields.address?.source.trim());
+
+  return (
+    <div className="mb-4 space-y-4 rounded-xl border border-blue-200 bg-blue-50/40 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="font-medium text-slate-900">{source ? `Edit ${source.name}` : "Add landlord or broker feed"}</p>
+        <button type="button" onClick={onClose} className="text-slate-500 hover:text-slate-800" aria-label="Close feed editor">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div>
+          <Label>Name</Label>
+          <Input className="mt-1" value={form.name} onChange={(event) => setForm({ ...form, name: event.target.value })} placeholder="Landlord inventory feed" />
+        </div>
+        <div>
+          <Label>Format</Label>
+          <select
+            className="mt-1 h-10 w-full rounded-md border border-slate-200 bg-white px-3 text-sm"
+            value={form.kind}
+            onChange={(event) => setForm({ ...form, kind: event.target.value as FeedSourceForm["kind"] })}
+          >
+            <option value="csv_url">CSV</option>
+            <option value="json_url">JSON</option>
+          </select>
+        </div>
+        <div className="sm:col-span-2">
+          <Label>Feed URL</Label>
+          <Input className="mt-1" value={form.feedUrl} onChange={(event) => setForm({ ...form, feedUrl: event.target.value })} placeholder="https://example.com/inventory.csv" />
+        </div>
+        {form.kind === "json_url" && (
+          <div>
+            <Label>Records path</Label>
+            <Input className="mt-1" value={form.recordsPath} onChange={(event) => setForm({ ...form, recordsPath: event.target.value })} placeholder="data.listings" />
+          </div>
+        )}
+        <div>
+          <Label>Record key columns</Label>
+          <Input className="mt-1" value={form.recordKey} onChange={(event) => setForm({ ...form, recordKey: event.target.value })} placeholder="Building, Unit" />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input type="checkbox" checked={form.isActive} onChange={(event) => setForm({ ...form, isActive: event.target.checked })} />
+          Active
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Field mapping</p>
+        <datalist id="intel-feed-columns">
+          {(preview?.columns || []).map((column) => (
+            <option key={column} value={column} />
+          ))}
+        </datalist>
+        {FEED_FIELDS.map((field) => (
+          <div key={field.key} className="grid grid-cols-[120px_minmax(0,1fr)_120px] items-center gap-2">
+            <span className="text-sm text-slate-600">{field.label}</span>
+            <Input
+              className="h-9"
+              list="intel-feed-columns"
+              value={form.fields[field.key]?.source || ""}
+              onChange={(event) => setField(field.key, { source: event.target.value })}
+              placeholder="Feed column"
+            />
+            {field.units ? (
+              <select
+                className="h-9 rounded-md border border-slate-200 bg-white px-2 text-sm"
+                value={form.fields[field.key]?.unit || ""}
+                onChange={(event) => setField(field.key, { unit: event.target.value })}
+              >
+                <option value="">{field.units[0]}</option>
+                {field.units.slice(1).map((unit) => (
+                  <option key={unit} value={unit}>{unit.replace(/_/g, " ")}</option>
+                ))}
+              </select>
+            ) : (
+              <span />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {preview && (
+        <div className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-600">
+          <p className="font-medium text-slate-900">
+            {preview.totalRows} rows - {preview.columns.length} columns detected
+          </p>
+          {preview.records.slice(0, 5).map((record) => (
+            <p key={record.sourceRecordKey} className="mt-1 text-xs">
+              {record.title}
+              {record.availableSf ? ` - ${record.availableSf.toLocaleString()} SF` : ""}
+              {record.landAcres ? ` - ${record.landAcres} ac` : ""}
+              {record.rawPayload.leaseRatePsf ? ` - $${record.rawPayload.leaseRatePsf}/SF` : ""}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => previewMutation.mutate()} disabled={!form.feedUrl.trim() || previewMutation.isPending}>
+          <Eye className="mr-1.5 h-3.5 w-3.5" />
+          {previewMutation.isPending ? "Loading..." : "Preview"}
+        </Button>
+        <Button type="button" size="sm" onClick={() => saveMutation.mutate()} disabled={!form.name.trim() || !canSubmit || saveMutation.isPending}>
+          <Save className="mr-1.5 h-3.5 w-3.5" />
+          Save feed
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 export default function IndustrialIntelHomePage() {
   const queryClient = useQueryClient();
   const { data: summary, isLoading: summaryLoading } = useQuery<IntelSummary>({
@@ -91,6 +381,7 @@ export default function IndustrialIntelHomePage() {
   const { data: sources = [], isLoading: sourcesLoading } = useQuery<IntelSource[]>({
     queryKey: ["/api/intel/sources"],
   });
+  const [editingFeed, setEditingFeed] = useState<{ source: IntelSource | null } | null>(null);
   const { data: runs = [], isLoading: runsLoading } = useQuery<IntelRun[]>({
     queryKey: ["/api/intel/runs"],
   });
@@ -114,6 +405,19 @@ export default function IndustrialIntelHomePage() {
     },
   });
 
+  const scheduleMutation = useMutation({
+    mutationFn: async ({ id, scheduleIntervalMinutes }: { id: string; scheduleIntervalMinutes: number | null }) => {
+      const response = await apiRequest("PATCH", `/api/intel/sources/${id}/schedule`, { scheduleIntervalMinutes });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/intel/sources"] });
+    },
+  });
+
+  const failingSources = sources.filter((source) => source.isActive && (source.consecutiveFailures ?? 0) > 0);
+  const staleSources = sources.filter((source) => source.isStale && !failingSources.includes(source));
+
   const cards = [
     { label: "Active listings", value: summary?.activeListings ?? 0, note: "not removed", icon: Database, tone: "blue" },
     {
@@ -175,6 +479,23 @@ export default function IndustrialIntelHomePage() {
         </div>
       )}
 
+      {(failingSources.length > 0 || staleSources.length > 0) && (
+        <div className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+          <p className="flex items-center gap-2 font-semibold">
+            <AlertTriangle className="h-4 w-4" />
+            Source health needs attention
+          </p>
+          {failingSources.length > 0 && (
+            <p className="mt-1">
+              Failing: {failingSources.map((source) => `${source.name} (${source.consecutiveFailures}x)`).join(", ")}
+            </p>
+          )}
+          {staleSources.length > 0 && (
+            <p className="mt-1">No recent successful run: {staleSources.map((source) => source.name).join(", ")}</p>
+          )}
+        </div>
+      )}
+
       <section className="grid gap-4 md:grid-cols-2 xl:grid-cols-4">
         {cards.map((card) => {
           const Icon = card.icon;
@@ -322,9 +643,27 @@ export default function IndustrialIntelHomePage() {
 
         <Card>
           <CardHeader>
-            <CardTitle>Sources</CardTitle>
+            <div className="flex items-center justify-between gap-3">
+              <CardTitle>Sources</CardTitle>
+              <Button type="button" variant="outline" size="sm" onClick={() => setEditingFeed({ source: null })}>
+                <Plus className="mr-1.5 h-3.5 w-3.5" />
+                Add feed
+              </Button>
+            </div>
           </CardHeader>
           <CardContent>
+            {editingFeed && (
+              <FeedSourceEditor
+                key={editingFeed.source?.id || "new"}
+                source={editingFeed.source}
+                onClose={() => setEditingFeed(null)}
+                onSaved={() => {
+                  setEditingFeed(null);
+                  queryClient.invalidateQueries({ queryKey: ["/api/intel/sources"] });
+                }}
+              />
+            )}
+
             <div className="mb-4 rounded-xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm text-slate-600">
               Last completed run:{" "}
               <span className="font-medium text-slate-900">
@@ -351,6 +690,12 @@ export default function IndustrialIntelHomePage() {
                         <p className="text-xs uppercase tracking-wide text-slate-500">
                           {formatSourceKind(source.kind)} - {source.slug}
                         </p>
+                        {SCHEDULED_SOURCE_KINDS.has(source.kind) && (
+                          <p className="mt-1 text-xs text-slate-500">
+                            Last success {formatDateTime(source.lastSuccessAt ?? null)}
+                            {source.nextRunAt ? ` - next ${formatDateTime(source.nextRunAt)}` : ""}
+                          </p>
+                        )}
                       </div>
                       <div className="flex items-center gap-2">
                         <span
@@ -362,7 +707,44 @@ export default function IndustrialIntelHomePage() {
                         >
                           {source.isActive ? "Active" : "Inactive"}
                         </span>
-                        {source.slug === "cwedm" ? (
+                        {(source.consecutiveFailures ?? 0) > 0 ? (
+                          <span className="rounded-full bg-rose-100 px-2.5 py-1 text-xs font-semibold text-rose-700">
+                            Failing
+                          </span>
+                        ) : source.isStale ? (
+                          <span className="rounded-full bg-amber-100 px-2.5 py-1 text-xs font-semibold text-amber-700">
+                            Stale
+                          </span>
+                        ) : null}
+                        {SCHEDULED_SOURCE_KINDS.has(source.kind) && (
+                          <select
+                            aria-label={`Run cadence for ${source.name}`}
+                            className="h-7 rounded-full border border-slate-200 bg-white px-2 text-xs text-slate-700"
+                            value={source.scheduleIntervalMinutes ? String(source.scheduleIntervalMinutes) : ""}
+                            disabled={scheduleMutation.isPending}
+                            onChange={(event) =>
+                              scheduleMutation.mutate({
+                                id: source.id,
+                                scheduleIntervalMinutes: event.target.value ? Number(event.target.value) : null,
+                              })
+                            }
+                          >
+                            {scheduleOptionsFor(source.scheduleIntervalMinutes).map((option) => (
+                              <option key={option.value} value={option.value}>{option.label}</option>
+                            ))}
+                          </select>
+                        )}
+                        {isFeedSource(source) && (
+                          <button
+                            type="button"
+                            onClick={() => setEditingFeed({ source })}
+                            className="inline-flex items-center gap-1.5 rounded-full border border-slate-200 bg-white px-3 py-1 text-xs font-semibold text-slate-700 hover:border-blue-200 hover:text-blue-700"
+                          >
+                            <Edit3 className="h-3 w-3" />
+                            Mapping
+                          </button>
+                        )}
+                        {ADAPTER_SOURCE_SLUGS.has(source.slug) || (isFeedSource(source) && source.feedUrl) ? (
                           <button
                             type="button"
                             onClick={() => runSourceMutation.mutate(source.slug)}
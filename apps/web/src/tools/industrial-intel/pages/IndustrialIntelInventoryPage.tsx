@@ -11,6 +11,7 @@ import { getGoogleMapsApiKey, getGoogleMapsMapId } from "@/lib/googleMapsApiKey"
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { AdvancedMapMarker } from "@/features/map/AdvancedMapMarker";
+import ListingHistoryTimeline from "../ListingHistoryTimeline";
 
 type IntelListing = {
   id: string;
@@ -83,6 +84,24 @@ type ResolvePublicLinksResponse = {
   queries?: string[];
 };
 
+type IntelFieldChange = {
+  field: string;
+  before: number | string | null;
+  after: number | string | null;
+  direction: "increase" | "decrease" | "added" | "removed" | "changed";
+};
+
+type IntelChange = {
+  id: string;
+  listingId: string;
+  listingTitle: string;
+  sourceName: string | null;
+  changeType: string;
+  changeSummary: string | null;
+  fieldChanges?: IntelFieldChange[];
+  observedAt: string | null;
+};
+
 type UploadListingRecord = {
   sourceUrl: string | null;
   title: string;
@@ -102,6 +121,26 @@ type UploadListingRecord = {
   leaseRatePsf: number | null;
 };
 
+const CHANGE_SIGNAL_OPTIONS = [
+  { value: "all", label: "All moves" },
+  { value: "price_drop", label: "Price drops" },
+  { value: "price_increase", label: "Price increases" },
+  { value: "sf_increase", label: "SF increases" },
+  { value: "sf_decrease", label: "SF decreases" },
+  { value: "status_change", label: "Status changes" },
+  { value: "brochure_update", label: "Brochure updates" },
+];
+
+const FIELD_CHANGE_LABELS: Record<string, string> = {
+  availableSf: "Available SF",
+  totalPrice: "Price",
+  pricePerAcre: "Price/acre",
+  leaseRatePsf: "Lease rate",
+  clearHeightFt: "Clear height",
+  status: "Status",
+  brochureUrl: "Brochure",
+};
+
 const GOOGLE_MAPS_API_KEY = getGoogleMapsApiKey();
 const GOOGLE_MAPS_MAP_ID = getGoogleMapsMapId();
 const GOOGLE_MAPS_LIBRARIES: any = ["marker"];
@@ -161,6 +200,40 @@ function formatLeaseRate(listing: IntelListing) {
   return listing.leaseRatePsf ? `${formatMoney(listing.leaseRatePsf)} / SF` : "-";
 }
 
+function formatFieldChangeValue(field: string, value: number | string | null) {
+  if (value == null) return "none";
+  if (typeof value === "string") return field === "brochureUrl" ? "link" : value;
+  if (field === "totalPrice" || field === "pricePerAcre") return formatMoney(value);
+  if (field === "leaseRatePsf") return `$${value.toFixed(2)}/SF`;
+  if (field === "clearHeightFt") return `${value} ft`;
+  return value.toLocaleString();
+}
+
+function fieldChangeClassName(change: IntelFieldChange) {
+  const isPrice = change.field === "totalPrice" || change.field === "pricePerAcre" || change.field === "leaseRatePsf";
+  if (isPrice && change.direction === "decrease") return "bg-emerald-100 text-emerald-800";
+  if (isPrice && change.direction === "increase") return "bg-rose-100 text-rose-700";
+  if (change.field === "availableSf" && (change.direction === "increase" || change.direction === "added")) return "bg-blue-100 text-blue-700";
+  return "bg-slate-100 text-slate-700";
+}
+
+function FieldChangeChips({ changes }: { changes: IntelFieldChange[] }) {
+  return (
+    <div className="mt-2 flex flex-wrap gap-2">
+      {changes.map((change) => (
+        <span key={change.field} className={`rounded-full px-2.5 py-1 text-xs font-semibold ${fieldChangeClassName(change)}`}>
+          {FIELD_CHANGE_LABELS[change.field] || change.field}: {formatFieldChangeValue(change.field, change.before)} → {formatFieldChangeValue(change.field, change.after)}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function isListingActivityQuery(queryKey: readonly unknown[]) {
+  const key = String(queryKey[0] || "");
+  return key.startsWith("/api/intel/changes") || (key.startsWith("/api/intel/listings/") && key.endsWith("/history"));
+}
+
 function buildGoogleMapsUrl(listing: IntelListing) {
   if (typeof listing.latitude === "number" && typeof listing.longitude === "number") {
     return `https://www.google.com/maps/search/?api=1&query=${listing.latitude},${listing.longitude}`;
@@ -440,6 +513,7 @@ export default function IndustrialIntelInventoryPage() {
   const [showManualIntake, setShowManualIntake] = useState(false);
   const [selectedListingId, setSelectedListingId] = useState<string | null>(null);
   const [queueFilter, setQueueFilter] = useState("all");
+  const [changeSignal, setChangeSignal] = useState("all");
   const [filters, setFilters] = useState({
     query: "",
     submarket: "all",
@@ -476,6 +550,14 @@ export default function IndustrialIntelInventoryPage() {
     queryKey: ["/api/intel/listings/duplicates"],
   });
 
+  const { data: listingMoves = [], isLoading: listingMovesLoading } = useQuery<IntelChange[]>({
+    queryKey: [
+      changeSignal === "all"
+        ? "/api/intel/changes?limit=25&changeType=updated"
+        : `/api/intel/changes?limit=25&signal=${changeSignal}`,
+    ],
+  });
+
   const previewMutation = useMutation({
     mutationFn: async () => {
       const response = await apiRequest("POST", "/api/intel/manual-listings/preview", {
@@ -525,7 +607,7 @@ export default function IndustrialIntelInventoryPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/intel/listings"] });
       queryClient.invalidateQueries({ queryKey: ["/api/intel/runs"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/intel/changes"] });
+      queryClient.invalidateQueries({ predicate: (query) => isListingActivityQuery(query.queryKey) });
       queryClient.invalidateQueries({ queryKey: ["/api/intel/sources"] });
       queryClient.invalidateQueries({ queryKey: ["/api/intel/summary"] });
       setForm((current) => ({
@@ -559,7 +641,7 @@ export default function IndustrialIntelInventoryPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/intel/listings"] });
       queryClient.invalidateQueries({ queryKey: ["/api/intel/runs"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/intel/changes"] });
+      queryClient.invalidateQueries({ predicate: (query) => isListingActivityQuery(query.queryKey) });
       queryClient.invalidateQueries({ queryKey: ["/api/intel/sources"] });
       queryClient.invalidateQueries({ queryKey: ["/api/intel/summary"] });
       setUploadRows([]);
@@ -720,6 +802,11 @@ export default function IndustrialIntelInventoryPage() {
     enabled: Boolean(selectedListing),
   });
   const publicLinkCandidates = publicLinksData?.candidates || [];
+  const { data: selectedListingChanges = [] } = useQuery<IntelChange[]>({
+    queryKey: [`/api/intel/changes?limit=10&listingId=${selectedListing?.id || ""}`],
+    enabled: Boolean(selectedListing),
+  });
+  const selectedListingMoves = selectedListingChanges.filter((change) => (change.fieldChanges || []).length > 0);
   const approvedPublicLink = publicLinkCandidates.find((candidate) => candidate.status === "approved") || null;
 
   const resolvePublicLinksMutation = useMutation({
@@ -1087,6 +1174,58 @@ export default function IndustrialIntelInventoryPage() {
         </Card>
       )}
 
+      <Card className="overflow-hidden border-slate-200 bg-white shadow-sm">
+        <CardHeader>
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <CardTitle>Listing moves</CardTitle>
+              <p className="mt-1 text-sm text-slate-600">Field-level changes picked up by source runs, newest first.</p>
+            </div>
+            <select
+              aria-label="Filter listing moves"
+              className="h-10 rounded-md border border-slate-200 bg-white px-3 text-sm"
+              value={changeSignal}
+              onChange={(event) => setChangeSignal(event.target.value)}
+            >
+              {CHANGE_SIGNAL_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {listingMovesLoading ? (
+            <p className="text-sm text-slate-500">Loading listing moves...</p>
+          ) : listingMoves.length === 0 ? (
+            <p className="text-sm text-slate-500">No matching listing moves yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {listingMoves.slice(0, 8).map((change) => (
+                <button
+                  key={change.id}
+                  type="button"
+                  onClick={() => setSelectedListingId(change.listingId)}
+                  className="block w-full rounded-xl border border-slate-200 px-4 py-3 text-left hover:border-blue-200"
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-sm font-semibold text-slate-950">{change.listingTitle}</p>
+                    <p className="text-xs text-slate-500">{formatDateTime(change.observedAt)}</p>
+                  </div>
+                  <p className="text-xs uppercase tracking-wide text-slate-500">
+                    {change.sourceName || "Unknown source"} - {change.changeType}
+                  </p>
+                  {(change.fieldChanges || []).length > 0 ? (
+                    <FieldChangeChips changes={change.fieldChanges || []} />
+                  ) : (
+                    change.changeSummary && <p className="mt-2 text-sm text-slate-600">{change.changeSummary}</p>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {showManualIntake && (
         <Card>
           <CardHeader>
@@ -1481,6 +1620,25 @@ export default function IndustrialIntelInventoryPage() {
                     ))}
                   </div>
 
+                  <div className="rounded-2xl border border-slate-200 p-4">
+                    <p className="text-sm font-semibold text-slate-950">Price and availability history</p>
+                    <div className="mt-3">
+                      <ListingHistoryTimeline listingId={selectedListing.id} />
+                    </div>
+                  </div>
+
+                  {selectedListingMoves.length > 0 && (
+                    <div className="rounded-2xl border border-slate-200 p-4">
+                      <p className="text-sm font-semibold text-slate-950">Recent moves</p>
+                      {selectedListingMoves.slice(0, 4).map((change) => (
+                        <div key={change.id} className="mt-3">
+                          <p className="text-xs text-slate-500">{formatDateTime(change.observedAt)}</p>
+                          <FieldChangeChips changes={change.fieldChanges || []} />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   <div className="rounded-2xl border border-slate-200 p-4">
                     <p className="text-sm font-semibold text-slate-950">Broker read</p>
                     <div className="mt-3 flex flex-wrap gap-2">
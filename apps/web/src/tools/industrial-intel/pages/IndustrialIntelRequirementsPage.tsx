@@ -1,6 +1,6 @@
 import { useMemo, useState } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { AlertTriangle, Building2, CheckCircle2, ClipboardList, DollarSign, Edit3, ExternalLink, Filter, MapPin, Mic, MicOff, Ruler, Save, Sparkles, Target, Wand2, X } from "lucide-react";
+import { AlertTriangle, Bell, Building2, CheckCircle2, ClipboardList, DollarSign, Edit3, ExternalLink, Filter, MapPin, Mic, MicOff, Ruler, Save, Sparkles, Target, Wand2, X } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,6 +8,8 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import type { RequirementSearchArea } from "@level-cre/shared";
+import RequirementSearchAreaEditor from "../RequirementSearchAreaEditor";
 
 const STATUS_OPTIONS = ["draft", "active", "paused", "filled", "archived"] as const;
 const DEAL_TYPE_OPTIONS = ["lease", "sale", "either"] as const;
@@ -32,6 +34,7 @@ type IntelRequirement = {
   timingNotes?: string | null;
   specialNotes?: string | null;
   isOffMarketSearchEnabled: boolean;
+  searchAreas?: RequirementSearchArea[];
   updatedAt: string | null;
   archivedAt: string | null;
 };
@@ -93,6 +96,28 @@ type IntelRequirementListingDecision = {
   updatedAt: string | null;
 };
 
+type RequirementAlert = {
+  id: string;
+  requirementId: string;
+  requirementTitle: string;
+  clientName: string | null;
+  listingId: string;
+  listingTitle: string;
+  alertType: "new_match" | "shortlist_change";
+  tier: string | null;
+  score: number | null;
+  summary: string;
+  reasons: string[];
+  readAt: string | null;
+  createdAt: string | null;
+};
+
+type RequirementAlertDigest = {
+  alerts: RequirementAlert[];
+  unreadByRequirement: Record<string, number>;
+  unreadTotal: number;
+};
+
 type RequirementFormState = {
   title: string;
   clientName: string;
@@ -112,6 +137,7 @@ type RequirementFormState = {
   timingNotes: string;
   specialNotes: string;
   isOffMarketSearchEnabled: boolean;
+  searchAreas: RequirementSearchArea[];
 };
 
 const EMPTY_FORM: RequirementFormState = {
@@ -133,6 +159,7 @@ const EMPTY_FORM: RequirementFormState = {
   timingNotes: "",
   specialNotes: "",
   isOffMarketSearchEnabled: false,
+  searchAreas: [],
 };
 
 const MARKET_OPTIONS = ["Edmonton", "Calgary", "Central Alberta", "Northern Alberta"] as const;
@@ -226,8 +253,12 @@ function formatSizeRange(requirement: Pick<IntelRequirement, "minSf" | "maxSf">)
   return "Size TBD";
 }
 
-function formatRequirementArea(requirement: Pick<IntelRequirement, "market" | "submarket">) {
-  return [requirement.submarket, requirement.market].filter(Boolean).join(", ") || "Area TBD";
+function formatRequirementArea(requirement: Pick<IntelRequirement, "market" | "submarket" | "searchAreas">) {
+  const areaCount = requirement.searchAreas?.length || 0;
+  const text = [requirement.submarket, requirement.market].filter(Boolean).join(", ");
+  if (areaCount === 0) return text || "Area TBD";
+  const drawn = `${areaCount} search area${areaCount === 1 ? "" : "s"}`;
+  return text ? `${text} · ${drawn}` : drawn;
 }
 
 function formFromRequirement(requirement: IntelRequirement): RequirementFormState {
@@ -250,6 +281,7 @@ function formFromRequirement(requirement: IntelRequirement): RequirementFormStat
     timingNotes: requirement.timingNotes || "",
     specialNotes: requirement.specialNotes || "",
     isOffMarketSearchEnabled: Boolean(requirement.isOffMarketSearchEnabled),
+    searchAreas: requirement.searchAreas || [],
   };
 }
 
@@ -273,6 +305,7 @@ function buildRequirementPayload(form: RequirementFormState) {
     timingNotes: form.timingNotes.trim() || null,
     specialNotes: form.specialNotes.trim() || null,
     isOffMarketSearchEnabled: form.isOffMarketSearchEnabled,
+    searchAreas: form.searchAreas.map((area) => ({ ...area, label: area.label?.trim() || null })),
   };
 }
 
@@ -280,7 +313,7 @@ function getRequirementCompleteness(requirement: IntelRequirement) {
   const items = [
     Boolean(requirement.clientName),
     Boolean(requirement.dealType),
-    Boolean(requirement.market || requirement.submarket),
+    Boolean(requirement.market || requirement.submarket || requirement.searchAreas?.length),
     Boolean(requirement.minSf || requirement.maxSf || requirement.minYardAcres),
     Boolean(requirement.minClearHeightFt || requirement.maxBudgetPsf || requirement.requiredDockDoors || requirement.requiredGradeDoors),
     Boolean(requirement.timingNotes || requirement.specialNotes || requirement.powerNotes || requirement.officeNotes),
@@ -296,7 +329,7 @@ function getRequirementCompleteness(requirement: IntelRequirement) {
 function getMissingRequirementFields(requirement: IntelRequirement) {
   return [
     !requirement.clientName ? "client" : "",
-    !(requirement.market || requirement.submarket) ? "area" : "",
+    !(requirement.market || requirement.submarket || requirement.searchAreas?.length) ? "area" : "",
     !(requirement.minSf || requirement.maxSf || requirement.minYardAcres) ? "size" : "",
     !(requirement.minClearHeightFt || requirement.maxBudgetPsf || requirement.requiredDockDoors || requirement.requiredGradeDoors) ? "building constraints" : "",
   ].filter(Boolean);
@@ -754,6 +787,40 @@ export default function IndustrialIntelRequirementsPage() {
     queryKey: ["/api/intel/requirements"],
   });
 
+  const { data: alertDigest } = useQuery<RequirementAlertDigest>({
+    queryKey: ["/api/intel/requirement-alerts?unread=true&limit=50"],
+  });
+  const unreadAlerts = alertDigest?.alerts || [];
+  const unreadByRequirement = alertDigest?.unreadByRequirement || {};
+
+  const markAlertsReadMutation = useMutation({
+    mutationFn: async (input: { requirementId?: string; alertIds?: string[] }) => {
+      const response = await apiRequest("POST", "/api/intel/requirement-alerts/read", input);
+      return response.json() as Promise<{ updated: number }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/intel/requirement-alerts?unread=true&limit=50"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to update alerts",
+        description: error?.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const alertGroups = useMemo(() => {
+    const groups = new Map<string, { requirementId: string; title: string; clientName: string | null; alerts: RequirementAlert[] }>();
+    for (const alert of unreadAlerts) {
+      const group = groups.get(alert.requirementId)
+        || { requirementId: alert.requirementId, title: alert.requirementTitle, clientName: alert.clientName, alerts: [] };
+      group.alerts.push(alert);
+      groups.set(alert.requirementId, group);
+    }
+    return Array.from(groups.values());
+  }, [unreadAlerts]);
+
   const selectedRequirement = requirements.find((requirement) => requirement.id === selectedRequirementId) || requirements[0] || null;
   const requirementMatchesQuery = useQuery<RequirementMatchesResponse>({
     queryKey: selectedRequirement
@@ -993,6 +1060,76 @@ export default function IndustrialIntelRequirementsPage() {
         </div>
       </section>
 
+      {alertGroups.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <CardTitle className="flex items-center gap-2">
+                <Bell className="h-5 w-5 text-blue-600" />
+                Match alerts
+                <span className="rounded-full bg-blue-600 px-2.5 py-0.5 text-xs font-semibold text-white">{alertDigest?.unreadTotal ?? 0}</span>
+              </CardTitle>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                disabled={markAlertsReadMutation.isPending}
+                onClick={() => markAlertsReadMutation.mutate({})}
+              >
+                Mark all read
+              </Button>
+            </div>
+            <p className="text-sm text-slate-600">New strong or possible fits and moves on shortlisted listings since your last review.</p>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-3 lg:grid-cols-2">
+              {alertGroups.map((group) => (
+                <div key={group.requirementId} className="rounded-2xl border border-slate-200 bg-white p-4">
+                  <div className="flex items-start justify-between gap-3">
+                    <button type="button" className="text-left" onClick={() => setSelectedRequirementId(group.requirementId)}>
+                      <p className="text-sm font-semibold text-slate-950">{group.title}</p>
+                      <p className="text-xs text-slate-500">{group.clientName || "No client name yet"}</p>
+                    </button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      disabled={markAlertsReadMutation.isPending}
+                      onClick={() => markAlertsReadMutation.mutate({ requirementId: group.requirementId })}
+                    >
+                      Mark read
+                    </Button>
+                  </div>
+                  <div className="mt-3 space-y-2">
+                    {group.alerts.slice(0, 5).map((alert) => (
+                      <div key={alert.id} className="rounded-xl bg-slate-50 px-3 py-2">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-sm font-medium text-slate-900">{alert.summary}</p>
+                          <span
+                            className={`shrink-0 rounded-full px-2 py-0.5 text-[11px] font-semibold ${
+                              alert.alertType === "shortlist_change" ? "bg-amber-100 text-amber-800" : "bg-emerald-100 text-emerald-800"
+                            }`}
+                          >
+                            {alert.alertType === "shortlist_change" ? "shortlist" : alert.tier}
+                          </span>
+                        </div>
+                        {alert.reasons.length > 0 && (
+                          <p className="mt-1 text-xs text-slate-500">{alert.reasons.join(" · ")}</p>
+                        )}
+                        <p className="mt-1 text-[11px] text-slate-400">{formatDateTime(alert.createdAt)}</p>
+                      </div>
+                    ))}
+                    {group.alerts.length > 5 && (
+                      <p className="text-xs text-slate-500">+{group.alerts.length - 5} more</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       <section className="grid gap-6 xl:grid-cols-[0.95fr_1.05fr]">
         <Card>
           <CardHeader>
@@ -1108,6 +1245,17 @@ export default function IndustrialIntelRequirementsPage() {
 
               </div>
 
+              <div className="space-y-3">
+                <div>
+                  <h3 className="flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-slate-700">
+                    <MapPin className="h-4 w-4" />
+                    Search areas
+                  </h3>
+                  <p className="mt-1 text-sm text-slate-500">Draw polygons or drop a radius so matching uses listing coordinates instead of area names.</p>
+                </div>
+                <RequirementSearchAreaEditor areas={form.searchAreas} onChange={(areas) => updateField("searchAreas", areas)} />
+              </div>
+
               <div className="space-y-3">
                 <div>
                   <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-700">Size and building</h3>
@@ -1252,6 +1400,12 @@ export default function IndustrialIntelRequirementsPage() {
                             <div className="flex flex-wrap gap-2 text-xs font-semibold">
                             <span className="rounded-full bg-white px-2.5 py-1 text-slate-700">{requirement.dealType}</span>
                             <span className="rounded-full bg-blue-100 px-2.5 py-1 text-blue-700">{requirement.status}</span>
+                            {unreadByRequirement[requirement.id] > 0 && (
+                              <span className="inline-flex items-center gap-1 rounded-full bg-blue-600 px-2.5 py-1 text-white">
+                                <Bell className="h-3 w-3" />
+                                {unreadByRequirement[requirement.id]} new
+                              </span>
+                            )}
                             {requirement.isOffMarketSearchEnabled && (
                               <span className="rounded-full bg-amber-100 px-2.5 py-1 text-amber-700">off-market on</span>
                             )}
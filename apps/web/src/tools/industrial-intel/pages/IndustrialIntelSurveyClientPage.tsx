@@ -1,13 +1,23 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { GoogleMap, InfoWindowF, useJsApiLoader } from "@react-google-maps/api";
-import { useQuery } from "@tanstack/react-query";
-import { ExternalLink, FileText, MapPin, Printer } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Download, ExternalLink, FileText, MapPin, Printer, Route } from "lucide-react";
 import { useRoute } from "wouter";
 import { apiUrl } from "@/lib/api";
+import { claimShareView, readShareLinkError, shareAccessHeaders, withShareAccess } from "@/lib/shareLinkAccess";
+import { SharePasscodePrompt } from "@/components/SharePasscodePrompt";
 import { getGoogleMapsApiKey, getGoogleMapsMapId, GOOGLE_MAPS_API_KEY_HELP_TEXT } from "@/lib/googleMapsApiKey";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { AdvancedMapMarker } from "@/features/map/AdvancedMapMarker";
+import type { LeaseEconomics } from "@level-cre/shared";
+import SurveyComparisonMatrix, { type SurveyComparison } from "../SurveyComparisonMatrix";
+import SurveyClientFeedbackPanel, {
+  SURVEY_CLIENT_RESPONSE_LABELS,
+  type SurveyClientFeedbackEvent,
+  type SurveyClientResponse,
+} from "../SurveyClientFeedbackPanel";
 
 type IntelListing = {
   id: string;
@@ -32,6 +42,8 @@ type IntelSurveyItem = {
   sortOrder: number;
   recommendationLabel: string | null;
   clientNotes: string | null;
+  leaseEconomics: LeaseEconomics | null;
+  clientResponse: SurveyClientResponse | null;
   listing: IntelListing;
 };
 
@@ -113,7 +125,7 @@ function buildGoogleMapsUrl(listing: IntelListing) {
 
 async function fetchSharedSurvey(token: string): Promise<IntelSurveyDetail> {
   const response = await fetch(apiUrl(`/api/intel/surveys/share/${encodeURIComponent(token)}`), {
-    headers: { Accept: "application/json" },
+    headers: { Accept: "application/json", ...shareAccessHeaders(token) },
   });
   if (!response.ok) {
     throw new Error(`${response.status}: ${await response.text()}`);
@@ -121,9 +133,65 @@ async function fetchSharedSurvey(token: string): Promise<IntelSurveyDetail> {
   return response.json();
 }
 
+async function fetchSharedSurveyFeedback(token: string): Promise<SurveyClientFeedbackEvent[]> {
+  const response = await fetch(apiUrl(`/api/intel/surveys/share/${encodeURIComponent(token)}/feedback`), {
+    headers: { Accept: "application/json", ...shareAccessHeaders(token) },
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+  return response.json();
+}
+
+type SharedSurveyFeedbackInput = {
+  itemId: string;
+  response?: SurveyClientResponse | null;
+  comment?: string;
+  authorName?: string | null;
+};
+
+async function postSharedSurveyFeedback(token: string, input: SharedSurveyFeedbackInput): Promise<IntelSurveyDetail> {
+  const response = await fetch(apiUrl(`/api/intel/surveys/share/${encodeURIComponent(token)}/feedback`), {
+    method: "POST",
+    headers: { Accept: "application/json", "Content-Type": "application/json", ...shareAccessHeaders(token) },
+    body: JSON.stringify(input),
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+  return response.json();
+}
+
+async function fetchSharedSurveyComparison(token: string): Promise<SurveyComparison> {
+  const response = await fetch(apiUrl(`/api/intel/surveys/share/${encodeURIComponent(token)}/comparison`), {
+    headers: { Accept: "application/json", ...shareAccessHeaders(token) },
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+  return response.json();
+}
+
+// Resolves to false when the broker has not planned a tour for this survey.
+async function fetchHasSharedSurveyTour(token: string): Promise<boolean> {
+  const response = await fetch(apiUrl(`/api/intel/surveys/share/${encodeURIComponent(token)}/tour`), {
+    headers: { Accept: "application/json", ...shareAccessHeaders(token) },
+  });
+  return response.ok;
+}
+
+// Fire-and-forget: a failed view ping must never get in the client's way.
+function recordSharedSurveyView(token: string, itemId: string | null) {
+  void fetch(apiUrl(`/api/intel/surveys/share/${encodeURIComponent(token)}/views`), {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...shareAccessHeaders(token) },
+    body: JSON.stringify({ itemId }),
+  }).catch(() => undefined);
+}
+
 async function fetchSharedSurveyAssets(token: string): Promise<IntelListingAsset[]> {
   const response = await fetch(apiUrl(`/api/intel/surveys/share/${encodeURIComponent(token)}/assets`), {
-    headers: { Accept: "application/json" },
+    headers: { Accept: "application/json", ...shareAccessHeaders(token) },
   });
   if (!response.ok) {
     throw new Error(`${response.status}: ${await response.text()}`);
@@ -135,19 +203,76 @@ export default function IndustrialIntelSurveyClientPage() {
   const [, params] = useRoute("/tools/industrial-intel/surveys/share/:token");
   const token = params?.token || "";
   const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const authorNameKey = `industrial-intel-survey-feedback-name:${token}`;
+  const [authorName, setAuthorName] = useState("");
+
+  useEffect(() => {
+    setAuthorName(window.localStorage.getItem(authorNameKey) || "");
+  }, [authorNameKey]);
 
   const { data: survey, isLoading, error } = useQuery<IntelSurveyDetail>({
     queryKey: [`/api/intel/surveys/share/${token}`],
     queryFn: () => fetchSharedSurvey(token),
     enabled: token.length > 0,
   });
+  const shareLinkError = readShareLinkError(error);
+  const surveyLoaded = Boolean(survey);
+
+  useEffect(() => {
+    if (surveyLoaded && claimShareView(token)) recordSharedSurveyView(token, null);
+  }, [surveyLoaded, token]);
+
+  useEffect(() => {
+    if (selectedItemId) recordSharedSurveyView(token, selectedItemId);
+  }, [selectedItemId, token]);
+
+  const { data: hasTour = false } = useQuery<boolean>({
+    queryKey: [`/api/intel/surveys/share/${token}/tour`, "available"],
+    queryFn: () => fetchHasSharedSurveyTour(token),
+    enabled: surveyLoaded,
+  });
 
   const { data: assets = [] } = useQuery<IntelListingAsset[]>({
     queryKey: [`/api/intel/surveys/share/${token}/assets`],
     queryFn: () => fetchSharedSurveyAssets(token),
-    enabled: token.length > 0,
+    enabled: surveyLoaded,
+  });
+
+  const { data: comparison } = useQuery<SurveyComparison>({
+    queryKey: [`/api/intel/surveys/share/${token}/comparison`],
+    queryFn: () => fetchSharedSurveyComparison(token),
+    enabled: surveyLoaded,
+  });
+
+  const feedbackQueryKey = [`/api/intel/surveys/share/${token}/feedback`];
+  const { data: feedbackEvents = [] } = useQuery<SurveyClientFeedbackEvent[]>({
+    queryKey: feedbackQueryKey,
+    queryFn: () => fetchSharedSurveyFeedback(token),
+    enabled: surveyLoaded,
+  });
+
+  const feedbackMutation = useMutation({
+    mutationFn: (input: SharedSurveyFeedbackInput) =>
+      postSharedSurveyFeedback(token, { ...input, authorName: authorName.trim() || null }),
+    onSuccess: (updated) => {
+      queryClient.setQueryData([`/api/intel/surveys/share/${token}`], updated);
+      queryClient.invalidateQueries({ queryKey: feedbackQueryKey });
+    },
   });
 
+  const commentsByItemId = useMemo(() => {
+    const grouped = new Map<string, SurveyClientFeedbackEvent[]>();
+    [...feedbackEvents]
+      .filter((event) => event.action === "client.comment")
+      .reverse()
+      .forEach((event) => {
+        const itemId = typeof event.payload.itemId === "string" ? event.payload.itemId : null;
+        if (itemId) grouped.set(itemId, [...(grouped.get(itemId) || []), event]);
+      });
+    return grouped;
+  }, [feedbackEvents]);
+
   const { isLoaded: isMapLoaded, loadError: mapLoadError } = useJsApiLoader({
     id: "industrial-intel-client-survey-map",
     googleMapsApiKey: GOOGLE_MAPS_API_KEY,
@@ -207,12 +332,29 @@ export default function IndustrialIntelSurveyClientPage() {
     );
   }
 
+  if (shareLinkError === "passcode_required") {
+    return (
+      <SharePasscodePrompt
+        token={token}
+        unlockPath={`/api/intel/surveys/share/${encodeURIComponent(token)}/unlock`}
+        title="Protected survey"
+        onUnlocked={() => queryClient.invalidateQueries({ queryKey: [`/api/intel/surveys/share/${token}`] })}
+      />
+    );
+  }
+
   if (error || !survey) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-slate-100 px-6 text-center">
         <div className="max-w-md rounded-lg border border-slate-200 bg-white p-6 shadow-sm">
-          <p className="text-lg font-semibold text-slate-950">Survey unavailable</p>
-          <p className="mt-2 text-sm text-slate-600">This survey link may have expired or been disabled.</p>
+          <p className="text-lg font-semibold text-slate-950">
+            {shareLinkError === "expired" ? "Survey link expired" : "Survey unavailable"}
+          </p>
+          <p className="mt-2 text-sm text-slate-600">
+            {shareLinkError === "expired"
+              ? "Ask your broker for a fresh link to this survey."
+              : "This survey link may have expired or been disabled."}
+          </p>
         </div>
       </div>
     );
@@ -234,10 +376,26 @@ export default function IndustrialIntelSurveyClientPage() {
             <Badge variant="outline" className="bg-slate-50">
               {orderedItems.length} options
             </Badge>
+            {hasTour && (
+              <a
+                href={`/tools/industrial-intel/surveys/share/${encodeURIComponent(token)}/tour`}
+                className="inline-flex h-10 items-center gap-2 rounded-md border border-slate-200 bg-white px-4 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50"
+              >
+                <Route className="h-4 w-4" />
+                Tour itinerary
+              </a>
+            )}
             <Button type="button" variant="outline" className="gap-2" onClick={() => window.print()}>
               <Printer className="h-4 w-4" />
               Print
             </Button>
+            <a
+              href={withShareAccess(apiUrl(`/api/intel/surveys/share/${encodeURIComponent(token)}/pdf`), token)}
+              className="inline-flex h-10 items-center gap-2 rounded-md border border-slate-200 bg-white px-4 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50"
+            >
+              <Download className="h-4 w-4" />
+              PDF
+            </a>
           </div>
         </div>
       </header>
@@ -343,82 +501,135 @@ export default function IndustrialIntelSurveyClientPage() {
         </section>
 
         <aside className="space-y-3 print:space-y-4">
+          <div className="rounded-lg border border-slate-200 bg-white px-4 py-3 shadow-sm print:hidden">
+            <label htmlFor="client-feedback-name" className="text-xs font-medium text-slate-600">
+              Your name, shown with your responses
+            </label>
+            <Input
+              id="client-feedback-name"
+              className="mt-1 h-9"
+              value={authorName}
+              maxLength={120}
+              placeholder={survey.clientName || "Name"}
+              onChange={(event) => setAuthorName(event.target.value)}
+              onBlur={() => window.localStorage.setItem(authorNameKey, authorName.trim())}
+            />
+            {feedbackMutation.isError && (
+              <p className="mt-2 text-xs text-rose-700">Your feedback could not be sent. Please try again.</p>
+            )}
+          </div>
+
           {orderedItems.map((item, index) => {
             const itemAssets = assetsByItemId.get(item.id) || [];
             const primaryAsset = itemAssets[0] || null;
 
             return (
-              <button
+              <div
                 key={item.id}
-                type="button"
-                onClick={() => setSelectedItemId(item.id)}
-                className={`block w-full rounded-lg border bg-white p-4 text-left shadow-sm transition print:break-inside-avoid print:shadow-none ${
+                className={`overflow-hidden rounded-lg border bg-white shadow-sm transition print:break-inside-avoid print:shadow-none ${
                   selectedItem?.id === item.id
                     ? "border-blue-300 ring-2 ring-blue-100"
                     : "border-slate-200 hover:border-blue-200"
                 }`}
               >
-                <div className="flex flex-wrap items-start justify-between gap-3">
-                  <div>
-                    <p className="text-xs font-semibold uppercase tracking-wide text-blue-700">Option {index + 1}</p>
-                    <h2 className="mt-1 text-lg font-semibold text-slate-950">{item.listing.title}</h2>
-                    <p className="mt-1 text-sm text-slate-600">{item.listing.normalizedAddress || item.listing.address || "Address pending"}</p>
+                <button
+                  type="button"
+                  onClick={() => setSelectedItemId(item.id)}
+                  className="block w-full p-4 text-left"
+                >
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div>
+                      <p className="text-xs font-semibold uppercase tracking-wide text-blue-700">Option {index + 1}</p>
+                      <h2 className="mt-1 text-lg font-semibold text-slate-950">{item.listing.title}</h2>
+                      <p className="mt-1 text-sm text-slate-600">{item.listing.normalizedAddress || item.listing.address || "Address pending"}</p>
+                    </div>
+                    <div className="flex flex-wrap justify-end gap-2">
+                      {item.recommendationLabel && <Badge className="bg-blue-100 text-blue-800">{item.recommendationLabel}</Badge>}
+                      {item.clientResponse && (
+                        <Badge variant="outline" className="bg-slate-50">{SURVEY_CLIENT_RESPONSE_LABELS[item.clientResponse]}</Badge>
+                      )}
+                    </div>
                   </div>
-                  {item.recommendationLabel && <Badge className="bg-blue-100 text-blue-800">{item.recommendationLabel}</Badge>}
-                </div>
-
-                <div className="mt-4 grid grid-cols-2 gap-2 text-sm">
-                  <ClientMetric label="Building" value={formatListingSize(item.listing)} />
-                  <ClientMetric label="Land" value={item.listing.landAcres ? `${formatNumber(item.listing.landAcres)} ac` : "-"} />
-                  <ClientMetric label="Lease" value={formatLeaseRate(item.listing)} />
-                  <ClientMetric label="Sale" value={formatMoney(item.listing.totalPrice)} />
-                  <ClientMetric label="Area" value={listingArea(item.listing)} />
-                  <ClientMetric label="Source" value={item.listing.sourceName || "-"} />
-                </div>
-
-                {item.clientNotes && <p className="mt-4 text-sm leading-6 text-slate-700">{item.clientNotes}</p>}
-
-                <div className="mt-4 flex flex-wrap gap-3">
-                  {primaryAsset?.signedUrl && (
-                    <a
-                      href={primaryAsset.signedUrl}
-                      target="_blank"
-                      rel="noreferrer"
-                      className="inline-flex items-center gap-1 text-sm font-semibold text-blue-700"
-                      onClick={(event) => event.stopPropagation()}
-                    >
-                      View brochure
-                      <ExternalLink className="h-3.5 w-3.5" />
-                    </a>
-                  )}
-                  {firstLink(item.listing) && (
+
+                  <div className="mt-4 grid grid-cols-2 gap-2 text-sm">
+                    <ClientMetric label="Building" value={formatListingSize(item.listing)} />
+                    <ClientMetric label="Land" value={item.listing.landAcres ? `${formatNumber(item.listing.landAcres)} ac` : "-"} />
+                    <ClientMetric label="Lease" value={formatLeaseRate(item.listing)} />
+                    <ClientMetric label="Sale" value={formatMoney(item.listing.totalPrice)} />
+                    <ClientMetric label="Area" value={listingArea(item.listing)} />
+                    <ClientMetric label="Source" value={item.listing.sourceName || "-"} />
+                    {item.leaseEconomics && (
+                      <>
+                        <ClientMetric label="Net effective" value={`$${item.leaseEconomics.netEffectiveRatePsf.toFixed(2)} / SF`} />
+                        <ClientMetric
+                          label={`Total rent, ${formatNumber(item.leaseEconomics.termMonths / 12)} yr`}
+                          value={item.leaseEconomics.totals ? formatMoney(item.leaseEconomics.totals.totalConsideration) : "-"}
+                        />
+                      </>
+                    )}
+                  </div>
+
+                  {item.clientNotes && <p className="mt-4 text-sm leading-6 text-slate-700">{item.clientNotes}</p>}
+
+                  <div className="mt-4 flex flex-wrap gap-3">
+                    {primaryAsset?.signedUrl && (
+                      <a
+                        href={primaryAsset.signedUrl}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="inline-flex items-center gap-1 text-sm font-semibold text-blue-700"
+                        onClick={(event) => event.stopPropagation()}
+                      >
+                        View brochure
+                        <ExternalLink className="h-3.5 w-3.5" />
+                      </a>
+                    )}
+                    {firstLink(item.listing) && (
+                      <a
+                        href={firstLink(item.listing) || undefined}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="inline-flex items-center gap-1 text-sm font-semibold text-blue-700"
+                        onClick={(event) => event.stopPropagation()}
+                      >
+                        View listing
+                        <ExternalLink className="h-3.5 w-3.5" />
+                      </a>
+                    )}
                     <a
-                      href={firstLink(item.listing) || undefined}
+                      href={buildGoogleMapsUrl(item.listing)}
                       target="_blank"
                       rel="noreferrer"
                       className="inline-flex items-center gap-1 text-sm font-semibold text-blue-700"
                       onClick={(event) => event.stopPropagation()}
                     >
-                      View listing
+                      Open maps
                       <ExternalLink className="h-3.5 w-3.5" />
                     </a>
-                  )}
-                  <a
-                    href={buildGoogleMapsUrl(item.listing)}
-                    target="_blank"
-                    rel="noreferrer"
-                    className="inline-flex items-center gap-1 text-sm font-semibold text-blue-700"
-                    onClick={(event) => event.stopPropagation()}
-                  >
-                    Open maps
-                    <ExternalLink className="h-3.5 w-3.5" />
-                  </a>
-                </div>
-              </button>
+                  </div>
+                </button>
+                <SurveyClientFeedbackPanel
+                  itemId={item.id}
+                  response={item.clientResponse}
+                  comments={commentsByItemId.get(item.id) || []}
+                  disabled={feedbackMutation.isPending}
+                  onRespond={(response) => feedbackMutation.mutate({ itemId: item.id, response })}
+                  onComment={(comment) => feedbackMutation.mutateAsync({ itemId: item.id, comment })}
+                />
+              </div>
             );
           })}
         </aside>
       </main>
+
+      {comparison && comparison.rows.length > 0 && (
+        <section className="mx-auto max-w-[1800px] px-4 pb-6 print:break-before-page print:px-0">
+          <div className="rounded-lg border border-slate-200 bg-white px-4 py-3 shadow-sm print:shadow-none">
+            <h2 className="mb-3 text-base font-semibold text-slate-950">Side-by-side comparison</h2>
+            <SurveyComparisonMatrix comparison={comparison} />
+          </div>
+        </section>
+      )}
     </div>
   );
 }
@@ -0,0 +1,122 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, CalendarPlus, Printer } from "lucide-react";
+import { useRoute } from "wouter";
+import { apiUrl } from "@/lib/api";
+import { readShareLinkError, shareAccessHeaders, withShareAccess } from "@/lib/shareLinkAccess";
+import { SharePasscodePrompt } from "@/components/SharePasscodePrompt";
+import { Button } from "@/components/ui/button";
+import SurveyTourItinerary, { type SurveyTour } from "../SurveyTourItinerary";
+
+type SharedSurveyTour = {
+  survey: {
+    title: string;
+    clientName: string | null;
+    requirementTitle: string | null;
+  };
+  tour: SurveyTour;
+};
+
+async function fetchSharedSurveyTour(token: string): Promise<SharedSurveyTour> {
+  const response = await fetch(apiUrl(`/api/intel/surveys/share/${encodeURIComponent(token)}/tour`), {
+    headers: { Accept: "application/json", ...shareAccessHeaders(token) },
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+  return response.json();
+}
+
+export default function IndustrialIntelSurveyTourPage() {
+  const [, params] = useRoute("/tools/industrial-intel/surveys/share/:token/tour");
+  const token = params?.token || "";
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery<SharedSurveyTour>({
+    queryKey: [`/api/intel/surveys/share/${token}/tour`],
+    queryFn: () => fetchSharedSurveyTour(token),
+    enabled: token.length > 0,
+  });
+  const shareLinkError = readShareLinkError(error);
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-slate-100 px-6 text-sm text-slate-600">
+        Loading tour...
+      </div>
+    );
+  }
+
+  if (shareLinkError === "passcode_required") {
+    return (
+      <SharePasscodePrompt
+        token={token}
+        unlockPath={`/api/intel/surveys/share/${encodeURIComponent(token)}/unlock`}
+        title="Protected tour"
+        onUnlocked={() => queryClient.invalidateQueries({ queryKey: [`/api/intel/surveys/share/${token}/tour`] })}
+      />
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-slate-100 px-6 text-center">
+        <div className="max-w-md rounded-lg border border-slate-200 bg-white p-6 shadow-sm">
+          <p className="text-lg font-semibold text-slate-950">
+            {shareLinkError === "expired" ? "Tour link expired" : "Tour unavailable"}
+          </p>
+          <p className="mt-2 text-sm text-slate-600">
+            {shareLinkError === "expired"
+              ? "Ask your broker for a fresh link to this tour."
+              : "This tour has not been planned yet, or the link has been disabled."}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const { survey, tour } = data;
+
+  return (
+    <div className="min-h-screen bg-slate-100 text-slate-950 print:bg-white">
+      <header className="border-b border-slate-200 bg-white px-5 py-4 print:border-b-0">
+        <div className="mx-auto flex max-w-4xl flex-wrap items-center justify-between gap-4">
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-[0.24em] text-blue-700">Property Tour</p>
+            <h1 className="mt-1 text-2xl font-semibold tracking-tight">{survey.title}</h1>
+            <p className="mt-1 text-sm text-slate-600">
+              {survey.clientName || "Prepared tour"}
+              {survey.requirementTitle ? ` - ${survey.requirementTitle}` : ""}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 print:hidden">
+            <a
+              href={`/tools/industrial-intel/surveys/share/${encodeURIComponent(token)}`}
+              className="inline-flex h-10 items-center gap-2 rounded-md border border-slate-200 bg-white px-4 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Survey
+            </a>
+            <Button type="button" variant="outline" className="gap-2" onClick={() => window.print()}>
+              <Printer className="h-4 w-4" />
+              Print
+            </Button>
+            <a
+              href={withShareAccess(apiUrl(`/api/intel/surveys/share/${encodeURIComponent(token)}/tour/ics`), token)}
+              className="inline-flex h-10 items-center gap-2 rounded-md border border-slate-200 bg-white px-4 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50"
+            >
+              <CalendarPlus className="h-4 w-4" />
+              Add to calendar
+            </a>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-4xl p-4 print:p-0">
+        <SurveyTourItinerary tour={tour} />
+        <p className="mt-4 text-xs text-slate-500">
+          Drive times are straight-line estimates padded for roads. Allow extra time for traffic and site access.
+        </p>
+      </main>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { GoogleMap, InfoWindowF, useJsApiLoader } from "@react-google-maps/api";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { AlertTriangle, ArrowDown, ArrowUp, Bot, CheckCircle2, Copy, ExternalLink, Eye, EyeOff, FileText, MapPin, Plus, Share2, Trash2, Upload } from "lucide-react";
+import { AlertTriangle, ArrowDown, ArrowUp, Bot, CalendarPlus, CheckCircle2, Copy, Download, ExternalLink, Eye, EyeOff, FileText, MapPin, MessageSquare, Plus, Route, Share2, Trash2, Upload } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { getGoogleMapsApiKey, getGoogleMapsMapId, GOOGLE_MAPS_API_KEY_HELP_TEXT } from "@/lib/googleMapsApiKey";
 import { supabase } from "@/lib/supabase";
@@ -14,6 +14,19 @@ import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import { AdvancedMapMarker } from "@/features/map/AdvancedMapMarker";
+import { ShareLinkEngagement, type ShareLinkEngagementData, type ShareLinkSettingsInput } from "@/components/ShareLinkEngagement";
+import type { LeaseEconomics, LeaseTerms } from "@level-cre/shared";
+import SurveyComparisonMatrix, { type SurveyComparison } from "../SurveyComparisonMatrix";
+import SurveyLeaseTermsEditor from "../SurveyLeaseTermsEditor";
+import SurveyTourItinerary from "../SurveyTourItinerary";
+import SurveyTourPlanner, { type SurveyTourPlanInput, type SurveyTourPlannerData } from "../SurveyTourPlanner";
+import {
+  feedbackAuthor,
+  feedbackComment,
+  SURVEY_CLIENT_RESPONSE_LABELS,
+  type SurveyClientFeedbackEvent,
+  type SurveyClientResponse,
+} from "../SurveyClientFeedbackPanel";
 
 type IntelListing = {
   id: string;
@@ -76,6 +89,7 @@ type IntelSurveyListItem = {
   shareToken: string | null;
   itemCount: number;
   visibleItemCount: number;
+  unreadClientFeedbackCount: number;
   createdAt: string | null;
   updatedAt: string | null;
 };
@@ -89,6 +103,12 @@ type IntelSurveyItem = {
   brokerNotes: string | null;
   clientNotes: string | null;
   hidden: boolean;
+  leaseTerms: LeaseTerms | null;
+  leaseEconomics: LeaseEconomics | null;
+  clientResponse: SurveyClientResponse | null;
+  clientResponseAt: string | null;
+  tourNotes: string | null;
+  touredAt: string | null;
   listing: IntelListing;
 };
 
@@ -106,7 +126,7 @@ type IntelSurveyDetail = IntelSurveyListItem & {
 type IntelSurveyEvent = {
   id: string;
   surveyId: string;
-  actorType: "user" | "agent" | "system";
+  actorType: "user" | "agent" | "system" | "client";
   actorId: string | null;
   action: string;
   summary: string | null;
@@ -114,6 +134,17 @@ type IntelSurveyEvent = {
   createdAt: string | null;
 };
 
+type IntelSurveyEngagement = ShareLinkEngagementData & {
+  share: { enabled: boolean; expiresAt: string | null; hasPasscode: boolean };
+};
+
+type IntelSurveyClientFeedback = {
+  readAt: string | null;
+  unreadCount: number;
+  unreadItemIds: string[];
+  events: SurveyClientFeedbackEvent[];
+};
+
 type IntelListingAsset = {
   id: string;
   listingId: string | null;
@@ -251,6 +282,7 @@ function itemPatch(item: IntelSurveyItem, patch: Partial<IntelSurveyItem>) {
     brokerNotes: patch.brokerNotes === undefined ? item.brokerNotes : patch.brokerNotes,
     clientNotes: patch.clientNotes === undefined ? item.clientNotes : patch.clientNotes,
     hidden: patch.hidden === undefined ? item.hidden : patch.hidden,
+    leaseTerms: patch.leaseTerms === undefined ? item.leaseTerms : patch.leaseTerms,
   };
 }
 
@@ -307,6 +339,31 @@ export default function IndustrialIntelSurveysPage() {
     enabled: Boolean(selectedSurveyId),
   });
 
+  const feedbackQueryKey = selectedSurveyId ? [`/api/intel/surveys/${selectedSurveyId}/feedback`] : ["/api/intel/surveys/_/feedback"];
+  const { data: clientFeedback } = useQuery<IntelSurveyClientFeedback>({
+    queryKey: feedbackQueryKey,
+    enabled: Boolean(selectedSurveyId),
+  });
+  const unreadFeedbackItemIds = useMemo(() => new Set(clientFeedback?.unreadItemIds || []), [clientFeedback?.unreadItemIds]);
+
+  const comparisonQueryKey = selectedSurveyId ? [`/api/intel/surveys/${selectedSurveyId}/comparison`] : ["/api/intel/surveys/_/comparison"];
+  const { data: comparison } = useQuery<SurveyComparison>({
+    queryKey: comparisonQueryKey,
+    enabled: Boolean(selectedSurveyId),
+  });
+
+  const engagementQueryKey = selectedSurveyId ? [`/api/intel/surveys/${selectedSurveyId}/engagement`] : ["/api/intel/surveys/_/engagement"];
+  const { data: engagement } = useQuery<IntelSurveyEngagement>({
+    queryKey: engagementQueryKey,
+    enabled: Boolean(selectedSurveyId),
+  });
+
+  const tourQueryKey = selectedSurveyId ? [`/api/intel/surveys/${selectedSurveyId}/tour`] : ["/api/intel/surveys/_/tour"];
+  const { data: tourPlanner } = useQuery<SurveyTourPlannerData>({
+    queryKey: tourQueryKey,
+    enabled: Boolean(selectedSurveyId),
+  });
+
   const assetsQueryKey = selectedSurveyId ? [`/api/intel/surveys/${selectedSurveyId}/assets`] : ["/api/intel/surveys/_/assets"];
   const { data: surveyAssets = [] } = useQuery<IntelListingAsset[]>({
     queryKey: assetsQueryKey,
@@ -501,6 +558,7 @@ export default function IndustrialIntelSurveysPage() {
       queryClient.setQueryData([`/api/intel/surveys/${survey.id}`], survey);
       queryClient.invalidateQueries({ queryKey: ["/api/intel/surveys"] });
       queryClient.invalidateQueries({ queryKey: [`/api/intel/surveys/${survey.id}/events`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/intel/surveys/${survey.id}/comparison`] });
     },
     onError: (error: any) => {
       toast({ title: "Failed to update survey", description: error?.message || "Please try again.", variant: "destructive" });
@@ -517,6 +575,7 @@ export default function IndustrialIntelSurveysPage() {
       queryClient.setQueryData([`/api/intel/surveys/${survey.id}`], survey);
       queryClient.invalidateQueries({ queryKey: ["/api/intel/surveys"] });
       queryClient.invalidateQueries({ queryKey: [`/api/intel/surveys/${survey.id}/events`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/intel/surveys/${survey.id}/comparison`] });
     },
     onError: (error: any) => {
       toast({ title: "Failed to add listing", description: error?.message || "Please try again.", variant: "destructive" });
@@ -537,6 +596,7 @@ export default function IndustrialIntelSurveysPage() {
       queryClient.setQueryData([`/api/intel/surveys/${survey.id}`], survey);
       queryClient.invalidateQueries({ queryKey: ["/api/intel/surveys"] });
       queryClient.invalidateQueries({ queryKey: [`/api/intel/surveys/${survey.id}/events`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/intel/surveys/${survey.id}/comparison`] });
     },
     onError: (error: any) => {
       toast({ title: "Failed to update listing", description: error?.message || "Please try again.", variant: "destructive" });
@@ -553,6 +613,7 @@ export default function IndustrialIntelSurveysPage() {
       queryClient.setQueryData([`/api/intel/surveys/${survey.id}`], survey);
       queryClient.invalidateQueries({ queryKey: ["/api/intel/surveys"] });
       queryClient.invalidateQueries({ queryKey: [`/api/intel/surveys/${survey.id}/events`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/intel/surveys/${survey.id}/comparison`] });
     },
     onError: (error: any) => {
       toast({ title: "Failed to remove listing", description: error?.message || "Please try again.", variant: "destructive" });
@@ -569,6 +630,7 @@ export default function IndustrialIntelSurveysPage() {
       queryClient.setQueryData([`/api/intel/surveys/${survey.id}`], survey);
       queryClient.invalidateQueries({ queryKey: ["/api/intel/surveys"] });
       queryClient.invalidateQueries({ queryKey: [`/api/intel/surveys/${survey.id}/events`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/intel/surveys/${survey.id}/comparison`] });
     },
     onError: (error: any) => {
       toast({ title: "Failed to reorder listings", description: error?.message || "Please try again.", variant: "destructive" });
@@ -585,6 +647,7 @@ export default function IndustrialIntelSurveysPage() {
       queryClient.setQueryData([`/api/intel/surveys/${survey.id}`], survey);
       queryClient.invalidateQueries({ queryKey: ["/api/intel/surveys"] });
       queryClient.invalidateQueries({ queryKey: [`/api/intel/surveys/${survey.id}/events`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/intel/surveys/${survey.id}/engagement`] });
       toast({ title: "Client survey link created" });
     },
     onError: (error: any) => {
@@ -602,6 +665,7 @@ export default function IndustrialIntelSurveysPage() {
       queryClient.setQueryData([`/api/intel/surveys/${survey.id}`], survey);
       queryClient.invalidateQueries({ queryKey: ["/api/intel/surveys"] });
       queryClient.invalidateQueries({ queryKey: [`/api/intel/surveys/${survey.id}/events`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/intel/surveys/${survey.id}/engagement`] });
       toast({ title: "Client survey link disabled" });
     },
     onError: (error: any) => {
@@ -609,6 +673,133 @@ export default function IndustrialIntelSurveysPage() {
     },
   });
 
+  const updateShareSettingsMutation = useMutation({
+    mutationFn: async (input: ShareLinkSettingsInput) => {
+      if (!selectedSurveyId) throw new Error("No survey selected");
+      const response = await apiRequest("PUT", `/api/intel/surveys/${selectedSurveyId}/share/settings`, input);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: engagementQueryKey });
+      queryClient.invalidateQueries({ queryKey: eventsQueryKey });
+      toast({ title: "Client link settings saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to update link settings", description: error?.message || "Please try again.", variant: "destructive" });
+    },
+  });
+
+  const planTourMutation = useMutation({
+    mutationFn: async (input: SurveyTourPlanInput) => {
+      if (!selectedSurveyId) throw new Error("No survey selected");
+      const response = await apiRequest("PUT", `/api/intel/surveys/${selectedSurveyId}/tour`, input);
+      return response.json() as Promise<SurveyTourPlannerData>;
+    },
+    onSuccess: (planner) => {
+      queryClient.setQueryData(tourQueryKey, planner);
+      queryClient.invalidateQueries({ queryKey: eventsQueryKey });
+      toast({ title: "Tour planned" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to plan tour", description: error?.message || "Please try again.", variant: "destructive" });
+    },
+  });
+
+  const saveTourNotesMutation = useMutation({
+    mutationFn: async ({ itemId, notes }: { itemId: string; notes: string | null }) => {
+      if (!selectedSurveyId) throw new Error("No survey selected");
+      const response = await apiRequest("PUT", `/api/intel/surveys/${selectedSurveyId}/tour/stops/${itemId}/notes`, { notes });
+      return response.json() as Promise<SurveyTourPlannerData>;
+    },
+    onSuccess: (planner) => {
+      queryClient.setQueryData(tourQueryKey, planner);
+      queryClient.invalidateQueries({ queryKey: surveyQueryKey });
+      queryClient.invalidateQueries({ queryKey: eventsQueryKey });
+      toast({ title: "Tour notes saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save tour notes", description: error?.message || "Please try again.", variant: "destructive" });
+    },
+  });
+
+  const downloadTourIcsMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedSurveyId) throw new Error("No survey selected");
+      const response = await apiRequest("GET", `/api/intel/surveys/${selectedSurveyId}/tour/ics`);
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || "survey-tour.ics";
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to build tour calendar", description: error?.message || "Please try again.", variant: "destructive" });
+    },
+  });
+
+  const markFeedbackReadMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedSurveyId) throw new Error("No survey selected");
+      const response = await apiRequest("POST", `/api/intel/surveys/${selectedSurveyId}/feedback/read`);
+      return response.json() as Promise<IntelSurveyClientFeedback>;
+    },
+    onSuccess: (feedback) => {
+      queryClient.setQueryData(feedbackQueryKey, feedback);
+      queryClient.invalidateQueries({ queryKey: ["/api/intel/surveys"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to mark feedback read", description: error?.message || "Please try again.", variant: "destructive" });
+    },
+  });
+
+  const updateComparisonMutation = useMutation({
+    mutationFn: async (clientFactKeys: string[] | null) => {
+      if (!selectedSurveyId) throw new Error("No survey selected");
+      const response = await apiRequest("PUT", `/api/intel/surveys/${selectedSurveyId}/comparison`, { clientFactKeys });
+      return response.json() as Promise<SurveyComparison>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(comparisonQueryKey, updated);
+      queryClient.invalidateQueries({ queryKey: eventsQueryKey });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to update comparison", description: error?.message || "Please try again.", variant: "destructive" });
+    },
+  });
+
+  const toggleClientComparisonFact = (factKey: string, visible: boolean) => {
+    if (!comparison) return;
+    const keys = comparison.clientFactKeys.filter((key) => key !== factKey);
+    updateComparisonMutation.mutate(visible ? [...keys, factKey] : keys);
+  };
+
+  const downloadPdfMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedSurveyId) throw new Error("No survey selected");
+      const response = await apiRequest("GET", `/api/intel/surveys/${selectedSurveyId}/pdf`);
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || "survey.pdf";
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to build survey PDF", description: error?.message || "Please try again.", variant: "destructive" });
+    },
+  });
+
   const uploadAssetMutation = useMutation({
     mutationFn: async ({ item, files }: { item: IntelSurveyItem; files: File[] }) => {
       if (!selectedSurveyId) throw new Error("No survey selected");
@@ -756,6 +947,18 @@ export default function IndustrialIntelSurveysPage() {
     ? `${window.location.origin}/tools/industrial-intel/surveys/share/${selectedSurvey.shareToken}`
     : null;
 
+  const tourShareUrl = shareUrl && tourPlanner?.tour ? `${shareUrl}/tour` : null;
+
+  const copyTourShareUrl = async () => {
+    if (!tourShareUrl) return;
+    try {
+      await navigator.clipboard.writeText(tourShareUrl);
+      toast({ title: "Tour itinerary link copied" });
+    } catch {
+      toast({ title: "Copy failed", description: tourShareUrl, variant: "destructive" });
+    }
+  };
+
   const copyShareUrl = async () => {
     if (!shareUrl) return;
     try {
@@ -874,7 +1077,12 @@ export default function IndustrialIntelSurveysPage() {
                           <p className="font-semibold text-slate-950">{survey.title}</p>
                           <p className="mt-1 text-xs text-slate-500">{survey.clientName || "No client named"}</p>
                         </div>
-                        <Badge variant="outline" className="bg-white">{survey.status}</Badge>
+                        <div className="flex flex-wrap justify-end gap-1">
+                          {survey.unreadClientFeedbackCount > 0 && (
+                            <Badge className="bg-blue-600 text-white">{survey.unreadClientFeedbackCount} new</Badge>
+                          )}
+                          <Badge variant="outline" className="bg-white">{survey.status}</Badge>
+                        </div>
                       </div>
                       <p className="mt-3 text-xs font-medium text-slate-600">
                         {survey.visibleItemCount} visible / {survey.itemCount} total
@@ -915,6 +1123,17 @@ export default function IndustrialIntelSurveysPage() {
                         <MapPin className="h-4 w-4" />
                         Preview map
                       </Button>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="gap-2"
+                        onClick={() => downloadPdfMutation.mutate()}
+                        disabled={downloadPdfMutation.isPending || visibleItems.length === 0}
+                      >
+                        <Download className="h-4 w-4" />
+                        {downloadPdfMutation.isPending ? "Building PDF..." : "Download PDF"}
+                      </Button>
                       {shareUrl ? (
                         <>
                           <Button type="button" variant="outline" size="sm" className="gap-2" onClick={copyShareUrl}>
@@ -1019,6 +1238,28 @@ export default function IndustrialIntelSurveysPage() {
                 </CardContent>
               </Card>
 
+              {selectedSurvey.shareToken && (
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center gap-2">
+                      <Eye className="h-4 w-4 text-blue-700" />
+                      <CardTitle>Client engagement</CardTitle>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <ShareLinkEngagement
+                      engagement={engagement}
+                      expiresAt={engagement?.share.expiresAt ?? null}
+                      hasPasscode={engagement?.share.hasPasscode ?? false}
+                      linkActive={Boolean(engagement?.share.enabled)}
+                      itemNoun="options"
+                      saving={updateShareSettingsMutation.isPending}
+                      onSaveSettings={(input) => updateShareSettingsMutation.mutate(input)}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
               <section className="space-y-6">
                 <div ref={previewRef} className="grid gap-6 2xl:grid-cols-[minmax(0,1fr)_360px]">
                   <Card className="overflow-hidden">
@@ -1356,6 +1597,19 @@ export default function IndustrialIntelSurveysPage() {
                             )}
                           </div>
 
+                          {selectedDetailItem.listing.listingType !== "sale" && (
+                            <div className="space-y-2">
+                              <Label>Deal terms</Label>
+                              <SurveyLeaseTermsEditor
+                                itemId={selectedDetailItem.id}
+                                leaseTerms={selectedDetailItem.leaseTerms}
+                                leaseEconomics={selectedDetailItem.leaseEconomics}
+                                disabled={updateItemMutation.isPending}
+                                onSave={(leaseTerms) => updateItemMutation.mutate({ item: selectedDetailItem, patch: { leaseTerms } })}
+                              />
+                            </div>
+                          )}
+
                           <div className="space-y-2">
                             <Label htmlFor={`selected-label-${selectedDetailItem.id}`}>Recommendation</Label>
                             <Input
@@ -1581,6 +1835,15 @@ export default function IndustrialIntelSurveysPage() {
                                 <span>{formatListingSize(item.listing)}</span>
                                 <span>{listingArea(item.listing)}</span>
                                 {item.hidden && <span className="font-semibold text-slate-700">Hidden</span>}
+                                {item.clientResponse && (
+                                  <span className="font-semibold text-blue-700">Client: {SURVEY_CLIENT_RESPONSE_LABELS[item.clientResponse].toLowerCase()}</span>
+                                )}
+                                {unreadFeedbackItemIds.has(item.id) && (
+                                  <span className="inline-flex items-center gap-1 font-semibold text-blue-700">
+                                    <span className="h-2 w-2 rounded-full bg-blue-600" aria-hidden />
+                                    New feedback
+                                  </span>
+                                )}
                                 {readiness?.ready ? (
                                   <span className="font-semibold text-emerald-700">Client ready</span>
                                 ) : (
@@ -1596,6 +1859,56 @@ export default function IndustrialIntelSurveysPage() {
                       </CardContent>
                     </Card>
 
+                    <Card>
+                      <CardHeader>
+                        <div className="flex items-center justify-between gap-3">
+                          <div className="flex items-center gap-2">
+                            <MessageSquare className="h-4 w-4 text-blue-700" />
+                            <CardTitle>Client feedback</CardTitle>
+                            {(clientFeedback?.unreadCount || 0) > 0 && (
+                              <Badge className="bg-blue-600 text-white">{clientFeedback?.unreadCount} new</Badge>
+                            )}
+                          </div>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            disabled={!clientFeedback?.unreadCount || markFeedbackReadMutation.isPending}
+                            onClick={() => markFeedbackReadMutation.mutate()}
+                          >
+                            Mark read
+                          </Button>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        {!clientFeedback || clientFeedback.events.length === 0 ? (
+                          <div className="rounded-lg border border-dashed border-slate-300 bg-slate-50 px-4 py-6 text-center text-sm text-slate-600">
+                            Responses and comments from the client share link will appear here.
+                          </div>
+                        ) : (
+                          clientFeedback.events.slice(0, 20).map((event) => {
+                            const unread = !clientFeedback.readAt || (event.createdAt !== null && event.createdAt > clientFeedback.readAt);
+                            const comment = feedbackComment(event);
+                            return (
+                              <div
+                                key={event.id}
+                                className={`rounded-lg border px-3 py-2 ${unread ? "border-blue-200 bg-blue-50" : "border-slate-200 bg-slate-50"}`}
+                              >
+                                <div className="flex items-start justify-between gap-3">
+                                  <p className="text-sm font-semibold text-slate-900">{event.summary || event.action}</p>
+                                  {unread && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-blue-600" aria-label="Unread" />}
+                                </div>
+                                {comment && <p className="mt-1 whitespace-pre-wrap text-sm text-slate-700">{comment}</p>}
+                                <p className="mt-1 text-xs text-slate-500">
+                                  {[feedbackAuthor(event), formatRelativeTime(event.createdAt)].filter(Boolean).join(" - ")}
+                                </p>
+                              </div>
+                            );
+                          })
+                        )}
+                      </CardContent>
+                    </Card>
+
                     <Card>
                       <CardHeader>
                         <div className="flex items-center gap-2">
@@ -1623,6 +1936,115 @@ export default function IndustrialIntelSurveysPage() {
                     </Card>
                   </div>
                 </div>
+
+                <Card>
+                  <CardHeader>
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div>
+                        <CardTitle>Comparison matrix</CardTitle>
+                        <p className="mt-1 text-sm text-slate-600">
+                          Approved dossier facts for each visible option. Switch a row off to keep it out of the client view.
+                        </p>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        disabled={!comparison || comparison.usesStandardClientFacts || updateComparisonMutation.isPending}
+                        onClick={() => updateComparisonMutation.mutate(null)}
+                      >
+                        Reset client facts
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {comparison ? (
+                      <SurveyComparisonMatrix
+                        comparison={comparison}
+                        onToggleClientFact={toggleClientComparisonFact}
+                        disabled={updateComparisonMutation.isPending}
+                      />
+                    ) : (
+                      <p className="text-sm text-slate-500">Loading comparison...</p>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <Route className="h-4 w-4 text-blue-700" />
+                          <CardTitle>Tour planner</CardTitle>
+                        </div>
+                        <p className="mt-1 text-sm text-slate-600">
+                          Pick the stops, set where and when the day starts, and order the route by estimated drive time.
+                        </p>
+                      </div>
+                      {tourPlanner?.tour && (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="gap-2"
+                            onClick={() => downloadTourIcsMutation.mutate()}
+                            disabled={downloadTourIcsMutation.isPending}
+                          >
+                            <CalendarPlus className="h-4 w-4" />
+                            Calendar file
+                          </Button>
+                          {tourShareUrl && (
+                            <>
+                              <Button type="button" variant="outline" size="sm" className="gap-2" onClick={copyTourShareUrl}>
+                                <Copy className="h-4 w-4" />
+                                Copy itinerary link
+                              </Button>
+                              <a
+                                href={tourShareUrl}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="inline-flex h-9 items-center gap-2 rounded-md border border-slate-200 bg-white px-3 text-sm font-medium text-slate-900 shadow-sm hover:bg-slate-50"
+                              >
+                                <ExternalLink className="h-4 w-4" />
+                                Open itinerary
+                              </a>
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </CardHeader>
+                  <CardContent className="grid gap-6 xl:grid-cols-[360px_minmax(0,1fr)]">
+                    <SurveyTourPlanner
+                      surveyId={selectedSurvey.id}
+                      planner={tourPlanner}
+                      options={visibleItems.map((item) => ({
+                        itemId: item.id,
+                        title: item.listing.title,
+                        address: item.listing.normalizedAddress || item.listing.address,
+                        mapped: isMappableListing(item.listing),
+                        clientResponseLabel: item.clientResponse ? SURVEY_CLIENT_RESPONSE_LABELS[item.clientResponse] : null,
+                      }))}
+                      geocoderReady={isMapLoaded}
+                      saving={planTourMutation.isPending}
+                      onPlan={(input) => planTourMutation.mutate(input)}
+                    />
+                    {tourPlanner?.tour ? (
+                      <SurveyTourItinerary
+                        tour={tourPlanner.tour}
+                        savingItemId={saveTourNotesMutation.isPending ? saveTourNotesMutation.variables?.itemId : null}
+                        onSaveNotes={(itemId, notes) => saveTourNotesMutation.mutate({ itemId, notes })}
+                      />
+                    ) : (
+                      <div className="rounded-lg border border-dashed border-slate-300 bg-slate-50 px-4 py-6 text-center text-sm text-slate-600">
+                        The itinerary appears here once the tour is planned.
+                        {!shareUrl && " Create a client link to share it."}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
               </section>
             </>
           )}
@@ -0,0 +1,27 @@
+ALTER TABLE public.intel_sources
+  ADD COLUMN IF NOT EXISTS schedule_interval_minutes integer,
+  ADD COLUMN IF NOT EXISTS next_run_at timestamp,
+  ADD COLUMN IF NOT EXISTS last_success_at timestamp,
+  ADD COLUMN IF NOT EXISTS consecutive_failures integer NOT NULL DEFAULT 0;
+
+-- Adapter-backed and mapped-feed sources refresh nightly by default; manual
+-- intake sources keep a null interval and are never scheduled.
+UPDATE public.intel_sources
+SET schedule_interval_minutes = 1440
+WHERE schedule_interval_minutes IS NULL
+  AND kind IN ('broker_site', 'csv_url', 'json_url');
+
+UPDATE public.intel_sources AS source
+SET last_success_at = runs.last_completed_at
+FROM (
+  SELECT source_id, max(completed_at) AS last_completed_at
+  FROM public.intel_ingest_runs
+  WHERE status = 'completed'
+  GROUP BY source_id
+) AS runs
+WHERE runs.source_id = source.id
+  AND source.last_success_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_intel_sources_next_run
+  ON public.intel_sources (next_run_at)
+  WHERE is_active = true AND schedule_interval_minutes IS NOT NULL;
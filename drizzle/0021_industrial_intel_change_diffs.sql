@@ -0,0 +1,5 @@
+ALTER TABLE public.intel_listing_changes
+  ADD COLUMN IF NOT EXISTS field_changes jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_intel_listing_changes_field_changes
+  ON public.intel_listing_changes USING gin (field_changes jsonb_path_ops);
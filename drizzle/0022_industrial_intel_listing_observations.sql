@@ -0,0 +1,48 @@
+CREATE TABLE IF NOT EXISTS public.intel_listing_observations (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  listing_id varchar NOT NULL REFERENCES public.intel_listings(id) ON DELETE CASCADE,
+  ingest_run_id varchar REFERENCES public.intel_ingest_runs(id) ON DELETE SET NULL,
+  observation_type varchar NOT NULL,
+  trigger_type varchar,
+  status varchar,
+  available_sf integer,
+  total_price numeric(14, 2),
+  price_per_acre numeric(14, 2),
+  lease_rate_psf numeric(10, 2),
+  observed_at timestamp DEFAULT now(),
+  CONSTRAINT chk_intel_listing_observations_type
+    CHECK (observation_type IN ('baseline', 'new', 'updated', 'reactivated', 'removed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_intel_listing_observations_listing
+  ON public.intel_listing_observations (listing_id, observed_at);
+
+-- Listings ingested before this table existed only have their current values.
+-- Seed one baseline point per listing at first_seen_at so the timeline starts
+-- where the listing did.
+INSERT INTO public.intel_listing_observations (
+  listing_id,
+  observation_type,
+  status,
+  available_sf,
+  total_price,
+  price_per_acre,
+  lease_rate_psf,
+  observed_at
+)
+SELECT
+  l.id,
+  'baseline',
+  l.status,
+  l.available_sf,
+  l.total_price,
+  l.price_per_acre,
+  CASE
+    WHEN l.raw_payload->>'leaseRatePsf' ~ '^[0-9]+(\.[0-9]+)?$' THEN (l.raw_payload->>'leaseRatePsf')::numeric
+    ELSE NULL
+  END,
+  COALESCE(l.first_seen_at, l.created_at, now())
+FROM public.intel_listings l
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.intel_listing_observations o WHERE o.listing_id = l.id
+);
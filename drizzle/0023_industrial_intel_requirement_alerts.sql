@@ -0,0 +1,33 @@
+CREATE TABLE IF NOT EXISTS public.intel_requirement_alerts (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  requirement_id varchar NOT NULL REFERENCES public.intel_requirements(id) ON DELETE CASCADE,
+  listing_id varchar NOT NULL REFERENCES public.intel_listings(id) ON DELETE CASCADE,
+  change_id varchar REFERENCES public.intel_listing_changes(id) ON DELETE SET NULL,
+  ingest_run_id varchar REFERENCES public.intel_ingest_runs(id) ON DELETE SET NULL,
+  alert_type varchar NOT NULL,
+  tier varchar,
+  score integer,
+  summary text NOT NULL,
+  reasons jsonb NOT NULL DEFAULT '[]'::jsonb,
+  read_at timestamp,
+  created_at timestamp DEFAULT now(),
+  CONSTRAINT chk_intel_requirement_alerts_type
+    CHECK (alert_type IN ('new_match', 'shortlist_change'))
+);
+
+-- A listing only announces itself once per requirement as a new fit; shortlist
+-- changes alert once per observed change.
+CREATE UNIQUE INDEX IF NOT EXISTS uq_intel_requirement_alerts_new_match
+  ON public.intel_requirement_alerts (requirement_id, listing_id)
+  WHERE alert_type = 'new_match';
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_intel_requirement_alerts_change
+  ON public.intel_requirement_alerts (requirement_id, change_id)
+  WHERE alert_type = 'shortlist_change';
+
+CREATE INDEX IF NOT EXISTS idx_intel_requirement_alerts_requirement
+  ON public.intel_requirement_alerts (requirement_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_intel_requirement_alerts_unread
+  ON public.intel_requirement_alerts (requirement_id)
+  WHERE read_at IS NULL;
@@ -0,0 +1,9 @@
+ALTER TABLE public.intel_requirement_preferences
+  ADD COLUMN IF NOT EXISTS comparator varchar;
+
+ALTER TABLE public.intel_requirement_preferences
+  DROP CONSTRAINT IF EXISTS chk_intel_requirement_preferences_comparator;
+
+ALTER TABLE public.intel_requirement_preferences
+  ADD CONSTRAINT chk_intel_requirement_preferences_comparator
+  CHECK (comparator IS NULL OR comparator IN ('gte', 'lte', 'eq', 'neq', 'contains'));
@@ -0,0 +1,2 @@
+ALTER TABLE public.intel_requirements
+  ADD COLUMN IF NOT EXISTS search_areas jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,50 @@
+CREATE TABLE IF NOT EXISTS public.deals (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  user_id varchar NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  source varchar NOT NULL DEFAULT 'manual',
+  source_id varchar,
+  title varchar NOT NULL,
+  address text NOT NULL,
+  client_name varchar,
+  deal_type varchar NOT NULL DEFAULT 'unknown',
+  role varchar NOT NULL DEFAULT 'advisor',
+  asset_type varchar NOT NULL DEFAULT 'Industrial',
+  size_sf numeric(14, 2),
+  acres numeric(12, 4),
+  submarket varchar,
+  closed_date date,
+  lease_expiry_date date,
+  renewal_notice_date date,
+  deal_value varchar,
+  summary text,
+  image_urls jsonb NOT NULL DEFAULT '[]'::jsonb,
+  is_featured boolean NOT NULL DEFAULT true,
+  is_shared boolean NOT NULL DEFAULT false,
+  prospect_id varchar REFERENCES public.prospects(id) ON DELETE SET NULL,
+  opportunity_id varchar REFERENCES public.opportunities(id) ON DELETE SET NULL,
+  intel_dossier_id varchar,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now(),
+  CONSTRAINT deals_deal_type_check CHECK (deal_type IN ('lease', 'sale', 'renewal', 'unknown')),
+  CONSTRAINT deals_role_check CHECK (role IN ('tenant_rep', 'landlord_rep', 'buyer_rep', 'seller_rep', 'advisor'))
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_deals_user_closed" ON public.deals(user_id, closed_date);
+CREATE INDEX IF NOT EXISTS "IDX_deals_prospect" ON public.deals(prospect_id);
+CREATE INDEX IF NOT EXISTS "IDX_deals_opportunity" ON public.deals(opportunity_id);
+CREATE INDEX IF NOT EXISTS "IDX_deals_intel_dossier" ON public.deals(intel_dossier_id);
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_deals_user_source_id"
+  ON public.deals(user_id, source_id)
+  WHERE source_id IS NOT NULL;
+
+-- Industrial Intel tables are applied by their own migration runner, so the
+-- dossier link is only enforced once that table exists.
+DO $$
+BEGIN
+  IF to_regclass('public.intel_property_dossiers') IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'deals_intel_dossier_fk') THEN
+    ALTER TABLE public.deals
+      ADD CONSTRAINT deals_intel_dossier_fk
+      FOREIGN KEY (intel_dossier_id) REFERENCES public.intel_property_dossiers(id) ON DELETE SET NULL;
+  END IF;
+END $$;
@@ -0,0 +1,14 @@
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS renewal_lead_months integer NOT NULL DEFAULT 18;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'profiles_renewal_lead_months_check') THEN
+    ALTER TABLE public.profiles
+      ADD CONSTRAINT profiles_renewal_lead_months_check CHECK (renewal_lead_months BETWEEN 1 AND 60);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "IDX_deals_user_lease_expiry"
+  ON public.deals(user_id, lease_expiry_date)
+  WHERE lease_expiry_date IS NOT NULL;
@@ -0,0 +1,9 @@
+ALTER TABLE public.email_sync_runs
+  ADD COLUMN IF NOT EXISTS scope varchar NOT NULL DEFAULT 'mailbox',
+  ADD COLUMN IF NOT EXISTS sync_mode varchar,
+  ADD COLUMN IF NOT EXISTS pages_fetched integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS messages_removed integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cursor_reset boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS "IDX_email_sync_runs_connection_scope"
+  ON public.email_sync_runs(connection_id, scope, started_at);
@@ -0,0 +1,9 @@
+ALTER TABLE public.intel_listing_assets
+  ADD COLUMN IF NOT EXISTS prospect_id varchar REFERENCES public.prospects(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS email_message_id varchar REFERENCES public.email_messages(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_intel_listing_assets_prospect
+  ON public.intel_listing_assets (prospect_id);
+
+CREATE INDEX IF NOT EXISTS idx_intel_listing_assets_email_message
+  ON public.intel_listing_assets (email_message_id);
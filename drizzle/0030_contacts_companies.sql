@@ -0,0 +1,73 @@
+CREATE TABLE IF NOT EXISTS public.companies (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  user_id varchar NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name varchar NOT NULL,
+  normalized_name varchar,
+  domain varchar,
+  phone varchar,
+  website_url varchar,
+  notes text,
+  match_key varchar NOT NULL,
+  source varchar NOT NULL DEFAULT 'manual',
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_companies_user_match_key" ON public.companies(user_id, match_key);
+CREATE INDEX IF NOT EXISTS "IDX_companies_user_name" ON public.companies(user_id, normalized_name);
+CREATE INDEX IF NOT EXISTS "IDX_companies_user_domain" ON public.companies(user_id, domain) WHERE domain IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.contacts (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  user_id varchar NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  company_id varchar REFERENCES public.companies(id) ON DELETE SET NULL,
+  full_name varchar,
+  email varchar,
+  phone varchar,
+  normalized_phone varchar,
+  title varchar,
+  notes text,
+  match_key varchar NOT NULL,
+  source varchar NOT NULL DEFAULT 'manual',
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_contacts_user_match_key" ON public.contacts(user_id, match_key);
+CREATE INDEX IF NOT EXISTS "IDX_contacts_user_email" ON public.contacts(user_id, lower(email)) WHERE email IS NOT NULL;
+CREATE INDEX IF NOT EXISTS "IDX_contacts_user_phone" ON public.contacts(user_id, normalized_phone) WHERE normalized_phone IS NOT NULL;
+CREATE INDEX IF NOT EXISTS "IDX_contacts_company" ON public.contacts(company_id);
+
+-- Links point at prospects, opportunities and Industrial Intel dossiers by id;
+-- dossiers live behind their own migration runner, so the links stay loose.
+CREATE TABLE IF NOT EXISTS public.contact_entity_links (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  user_id varchar NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  contact_id varchar NOT NULL REFERENCES public.contacts(id) ON DELETE CASCADE,
+  entity_type varchar NOT NULL,
+  entity_id varchar NOT NULL,
+  source varchar NOT NULL DEFAULT 'manual',
+  created_at timestamp DEFAULT now(),
+  CONSTRAINT contact_entity_links_type_check CHECK (entity_type IN ('prospect', 'opportunity', 'dossier'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_contact_entity_links"
+  ON public.contact_entity_links(contact_id, entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS "IDX_contact_entity_links_entity"
+  ON public.contact_entity_links(user_id, entity_type, entity_id);
+
+CREATE TABLE IF NOT EXISTS public.company_entity_links (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  user_id varchar NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  company_id varchar NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  entity_type varchar NOT NULL,
+  entity_id varchar NOT NULL,
+  source varchar NOT NULL DEFAULT 'manual',
+  created_at timestamp DEFAULT now(),
+  CONSTRAINT company_entity_links_type_check CHECK (entity_type IN ('prospect', 'opportunity', 'dossier'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "UQ_company_entity_links"
+  ON public.company_entity_links(company_id, entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS "IDX_company_entity_links_entity"
+  ON public.company_entity_links(user_id, entity_type, entity_id);
@@ -0,0 +1,52 @@
+-- Registered ownership pulled from land titles, kept per dossier so the page can show a chain of
+-- owners instead of loose registered_owner facts. Records are keyed by title, owner and transfer date.
+CREATE TABLE IF NOT EXISTS public.intel_dossier_ownership_records (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  dossier_id varchar NOT NULL REFERENCES public.intel_property_dossiers(id) ON DELETE CASCADE,
+  user_id varchar NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  external_record_id varchar NOT NULL,
+  owner_name text NOT NULL,
+  normalized_owner_name text NOT NULL,
+  owner_entity_type varchar NOT NULL DEFAULT 'unknown',
+  title_number varchar,
+  linc varchar,
+  transfer_date date,
+  title_pulled_date date,
+  confidence integer NOT NULL DEFAULT 50,
+  source varchar NOT NULL,
+  import_item_id varchar REFERENCES public.brokerage_memory_items(id) ON DELETE SET NULL,
+  source_metadata jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT chk_intel_dossier_ownership_entity_type
+    CHECK (owner_entity_type IN ('corporation', 'individual', 'government', 'unknown')),
+  CONSTRAINT chk_intel_dossier_ownership_confidence
+    CHECK (confidence >= 0 AND confidence <= 100)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_intel_dossier_ownership_record
+  ON public.intel_dossier_ownership_records (dossier_id, external_record_id);
+
+CREATE INDEX IF NOT EXISTS idx_intel_dossier_ownership_owner
+  ON public.intel_dossier_ownership_records (user_id, normalized_owner_name);
+
+CREATE TABLE IF NOT EXISTS public.intel_dossier_ownership_evidence (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  ownership_record_id varchar NOT NULL REFERENCES public.intel_dossier_ownership_records(id) ON DELETE CASCADE,
+  evidence_key varchar NOT NULL,
+  evidence_type varchar NOT NULL,
+  source_path text,
+  source_hash varchar,
+  fact_id varchar REFERENCES public.intel_dossier_facts(id) ON DELETE SET NULL,
+  activity_event_id varchar REFERENCES public.activity_events(id) ON DELETE SET NULL,
+  asset_id varchar REFERENCES public.intel_listing_assets(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT chk_intel_dossier_ownership_evidence_type
+    CHECK (evidence_type IN ('source_file', 'fact', 'activity_event', 'asset'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_intel_dossier_ownership_evidence
+  ON public.intel_dossier_ownership_evidence (ownership_record_id, evidence_key);
+
+ALTER TABLE public.intel_dossier_ownership_records ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.intel_dossier_ownership_evidence ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,140 @@
+-- Comp economics were captured as free text. These numeric columns sit beside the original strings
+-- so analytics can aggregate them; rows whose text will not parse are flagged rather than guessed at.
+ALTER TABLE public.market_comps
+  ADD COLUMN IF NOT EXISTS building_size_sf numeric(14, 2),
+  ADD COLUMN IF NOT EXISTS land_size_acres numeric(12, 4),
+  ADD COLUMN IF NOT EXISTS rate_psf numeric(12, 2),
+  ADD COLUMN IF NOT EXISTS price_amount numeric(16, 2),
+  ADD COLUMN IF NOT EXISTS price_per_sf_amount numeric(12, 2),
+  ADD COLUMN IF NOT EXISTS price_per_acre_amount numeric(16, 2),
+  ADD COLUMN IF NOT EXISTS comp_date date,
+  ADD COLUMN IF NOT EXISTS economics_status varchar NOT NULL DEFAULT 'pending',
+  ADD COLUMN IF NOT EXISTS economics_issues jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_market_comps_economics_status') THEN
+    ALTER TABLE public.market_comps
+      ADD CONSTRAINT chk_market_comps_economics_status
+      CHECK (economics_status IN ('pending', 'parsed', 'unparseable'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_market_comps_user_deal_date
+  ON public.market_comps (user_id, deal_type, comp_date);
+
+-- Mirrors parseCompAmount in apps/api/src/lib/compEconomics.ts. The field decides which unit
+-- words are accepted; land sizes come back in acres, so square feet of land are converted.
+CREATE OR REPLACE FUNCTION public.levelcre_parse_comp_amount(raw text, field text)
+RETURNS numeric
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  compact text;
+  units text;
+  parts text[];
+  amount numeric;
+BEGIN
+  IF raw IS NULL OR btrim(raw) = '' THEN
+    RETURN NULL;
+  END IF;
+  compact := regexp_replace(lower(raw), '[$,[:space:]]|cad|usd', '', 'g');
+  units := CASE field
+    WHEN 'number' THEN ''
+    WHEN 'rate' THEN '(?:psf|/sf|persf|/sqft|persqft|sf|sqft|/yr|/year|peryear|pa|net|nnn|gross)*'
+    WHEN 'pricePerSf' THEN '(?:psf|/sf|persf|/sqft|persqft|sf|sqft)?'
+    WHEN 'pricePerAcre' THEN '(?:/acre|/ac|peracre|acres|acre|ac)?'
+    WHEN 'buildingSize' THEN '(?:sf|sqft|squarefeet|ft2)?'
+    WHEN 'landSize' THEN '(acres|acre|ac|sf|sqft|squarefeet|ft2)?'
+  END;
+  IF units IS NULL THEN
+    RAISE EXCEPTION 'unknown comp amount field: %', field;
+  END IF;
+  parts := regexp_match(compact, '^([0-9]+(?:\.[0-9]+)?)(k|mm|million|mil|m|b)?' || units || '$');
+  IF parts IS NULL THEN
+    RETURN NULL;
+  END IF;
+  amount := parts[1]::numeric * CASE parts[2]
+    WHEN 'k' THEN 1000
+    WHEN 'm' THEN 1000000
+    WHEN 'mm' THEN 1000000
+    WHEN 'mil' THEN 1000000
+    WHEN 'million' THEN 1000000
+    WHEN 'b' THEN 1000000000
+    ELSE 1
+  END;
+  IF field = 'landSize' AND parts[3] IN ('sf', 'sqft', 'squarefeet', 'ft2') THEN
+    RETURN round(amount / 43560, 4);
+  END IF;
+  RETURN amount;
+END;
+$$;
+
+-- Mirrors parseCompDate: a full day, a month or a bare year.
+CREATE OR REPLACE FUNCTION public.levelcre_parse_comp_date(raw text)
+RETURNS date
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  trimmed text := left(btrim(coalesce(raw, '')), 10);
+BEGIN
+  IF trimmed ~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}$' THEN
+    RETURN trimmed::date;
+  ELSIF trimmed ~ '^[0-9]{4}-[0-9]{2}$' THEN
+    RETURN (trimmed || '-01')::date;
+  ELSIF trimmed ~ '^[0-9]{4}$' THEN
+    RETURN (trimmed || '-01-01')::date;
+  END IF;
+  RETURN NULL;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$;
+
+WITH parsed AS (
+  SELECT
+    id,
+    public.levelcre_parse_comp_amount(building_size, 'buildingSize') AS building_size_sf,
+    public.levelcre_parse_comp_amount(land_size, 'landSize') AS land_size_acres,
+    public.levelcre_parse_comp_amount(rate, 'rate') AS rate_psf,
+    public.levelcre_parse_comp_amount(price, 'number') AS price_amount,
+    public.levelcre_parse_comp_amount(price_per_sf, 'pricePerSf') AS stated_price_per_sf,
+    public.levelcre_parse_comp_amount(price_per_acre, 'pricePerAcre') AS stated_price_per_acre,
+    CASE WHEN deal_type = 'lease'
+      THEN public.levelcre_parse_comp_date(commencement)
+      ELSE public.levelcre_parse_comp_date(sale_date)
+    END AS comp_date,
+    to_jsonb(array_remove(ARRAY[
+      CASE WHEN btrim(coalesce(building_size, '')) <> '' AND public.levelcre_parse_comp_amount(building_size, 'buildingSize') IS NULL THEN 'buildingSize' END,
+      CASE WHEN btrim(coalesce(land_size, '')) <> '' AND public.levelcre_parse_comp_amount(land_size, 'landSize') IS NULL THEN 'landSize' END,
+      CASE WHEN btrim(coalesce(rate, '')) <> '' AND public.levelcre_parse_comp_amount(rate, 'rate') IS NULL THEN 'rate' END,
+      CASE WHEN btrim(coalesce(price, '')) <> '' AND public.levelcre_parse_comp_amount(price, 'number') IS NULL THEN 'price' END,
+      CASE WHEN btrim(coalesce(price_per_sf, '')) <> '' AND public.levelcre_parse_comp_amount(price_per_sf, 'pricePerSf') IS NULL THEN 'pricePerSf' END,
+      CASE WHEN btrim(coalesce(price_per_acre, '')) <> '' AND public.levelcre_parse_comp_amount(price_per_acre, 'pricePerAcre') IS NULL THEN 'pricePerAcre' END,
+      CASE WHEN deal_type = 'lease' AND btrim(coalesce(commencement, '')) <> '' AND public.levelcre_parse_comp_date(commencement) IS NULL THEN 'commencement' END,
+      CASE WHEN deal_type <> 'lease' AND btrim(coalesce(sale_date, '')) <> '' AND public.levelcre_parse_comp_date(sale_date) IS NULL THEN 'saleDate' END
+    ], NULL)) AS issues
+  FROM public.market_comps
+  WHERE economics_status = 'pending'
+)
+UPDATE public.market_comps comps
+SET
+  building_size_sf = parsed.building_size_sf,
+  land_size_acres = parsed.land_size_acres,
+  rate_psf = parsed.rate_psf,
+  price_amount = parsed.price_amount,
+  price_per_sf_amount = COALESCE(
+    parsed.stated_price_per_sf,
+    CASE WHEN parsed.building_size_sf > 0 THEN round(parsed.price_amount / parsed.building_size_sf, 2) END
+  ),
+  price_per_acre_amount = COALESCE(
+    parsed.stated_price_per_acre,
+    CASE WHEN parsed.land_size_acres > 0 THEN round(parsed.price_amount / parsed.land_size_acres, 2) END
+  ),
+  comp_date = parsed.comp_date,
+  economics_issues = parsed.issues,
+  economics_status = CASE WHEN jsonb_array_length(parsed.issues) > 0 THEN 'unparseable' ELSE 'parsed' END
+FROM parsed
+WHERE comps.id = parsed.id;
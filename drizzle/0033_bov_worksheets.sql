@@ -0,0 +1,45 @@
+-- Broker opinion of value worksheets. A worksheet hangs off the opportunity or
+-- property dossier being pitched; every save appends an immutable version so
+-- the numbers sent to a client can always be reproduced.
+CREATE TABLE IF NOT EXISTS public.bov_worksheets (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  user_id varchar NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  opportunity_id varchar REFERENCES public.opportunities(id) ON DELETE SET NULL,
+  intel_dossier_id varchar,
+  title varchar NOT NULL,
+  basis varchar NOT NULL DEFAULT 'sale',
+  latest_version integer NOT NULL DEFAULT 0,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now(),
+  CONSTRAINT bov_worksheets_basis_check CHECK (basis IN ('sale', 'lease'))
+);
+
+CREATE INDEX IF NOT EXISTS "IDX_bov_worksheets_user_updated" ON public.bov_worksheets(user_id, updated_at);
+CREATE INDEX IF NOT EXISTS "IDX_bov_worksheets_opportunity" ON public.bov_worksheets(opportunity_id);
+CREATE INDEX IF NOT EXISTS "IDX_bov_worksheets_intel_dossier" ON public.bov_worksheets(intel_dossier_id);
+
+CREATE TABLE IF NOT EXISTS public.bov_worksheet_versions (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  worksheet_id varchar NOT NULL REFERENCES public.bov_worksheets(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  label varchar,
+  subject jsonb NOT NULL DEFAULT '{}'::jsonb,
+  settings jsonb NOT NULL DEFAULT '{}'::jsonb,
+  comps jsonb NOT NULL DEFAULT '[]'::jsonb,
+  result jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_by varchar REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamp DEFAULT now(),
+  CONSTRAINT bov_worksheet_versions_unique UNIQUE (worksheet_id, version)
+);
+
+-- Same deferred dossier link as public.deals: Industrial Intel tables come
+-- from their own migration runner.
+DO $$
+BEGIN
+  IF to_regclass('public.intel_property_dossiers') IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'bov_worksheets_intel_dossier_fk') THEN
+    ALTER TABLE public.bov_worksheets
+      ADD CONSTRAINT bov_worksheets_intel_dossier_fk
+      FOREIGN KEY (intel_dossier_id) REFERENCES public.intel_property_dossiers(id) ON DELETE SET NULL;
+  END IF;
+END $$;
@@ -0,0 +1,33 @@
+-- Lease comps only had a free-text concessions field, so deals could not be compared on net effective rent.
+-- These columns hold the structured terms; net_effective_rate_psf is computed by the API on every write.
+ALTER TABLE public.market_comps
+  ADD COLUMN IF NOT EXISTS escalation_kind varchar,
+  ADD COLUMN IF NOT EXISTS escalation_amount numeric(10, 2),
+  ADD COLUMN IF NOT EXISTS free_rent_months numeric(6, 2),
+  ADD COLUMN IF NOT EXISTS ti_allowance_psf numeric(12, 2),
+  ADD COLUMN IF NOT EXISTS additional_rent_psf numeric(12, 2),
+  ADD COLUMN IF NOT EXISTS commission_pct numeric(6, 2),
+  ADD COLUMN IF NOT EXISTS net_effective_rate_psf numeric(12, 2);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_market_comps_escalation_kind') THEN
+    ALTER TABLE public.market_comps
+      ADD CONSTRAINT chk_market_comps_escalation_kind
+      CHECK (escalation_kind IS NULL OR escalation_kind IN ('percent', 'fixed'));
+  END IF;
+END $$;
+
+-- A flat lease with no concessions nets its face rate. Comps whose concessions are
+-- only described in text stay null until a broker fills in the structured terms.
+UPDATE public.market_comps
+SET net_effective_rate_psf = rate_psf
+WHERE deal_type = 'lease'
+  AND net_effective_rate_psf IS NULL
+  AND rate_psf IS NOT NULL
+  AND term_months > 0
+  AND btrim(coalesce(concessions, '')) = ''
+  AND escalation_kind IS NULL
+  AND free_rent_months IS NULL
+  AND ti_allowance_psf IS NULL
+  AND commission_pct IS NULL;
@@ -0,0 +1,4 @@
+-- Assumed deal terms per survey option (term, escalations, free rent, TI, additional rent)
+-- so the survey can show net effective rent next to the asking rate.
+ALTER TABLE public.intel_survey_items
+  ADD COLUMN IF NOT EXISTS lease_terms jsonb;
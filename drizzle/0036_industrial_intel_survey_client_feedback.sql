@@ -0,0 +1,24 @@
+-- Clients can respond to each option on a shared survey without an account.
+-- Their latest response sits on the item; responses and comments are logged as
+-- intel_survey_events with actor_type 'client'.
+ALTER TABLE public.intel_survey_items
+  ADD COLUMN IF NOT EXISTS client_response varchar,
+  ADD COLUMN IF NOT EXISTS client_response_at timestamp;
+
+ALTER TABLE public.intel_surveys
+  ADD COLUMN IF NOT EXISTS client_feedback_read_at timestamp;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_intel_survey_items_client_response') THEN
+    ALTER TABLE public.intel_survey_items
+      ADD CONSTRAINT chk_intel_survey_items_client_response
+      CHECK (client_response IS NULL OR client_response IN ('interested', 'not_interested', 'tour'));
+  END IF;
+END $$;
+
+ALTER TABLE public.intel_survey_events
+  DROP CONSTRAINT IF EXISTS chk_intel_survey_events_actor_type;
+ALTER TABLE public.intel_survey_events
+  ADD CONSTRAINT chk_intel_survey_events_actor_type
+  CHECK (actor_type IN ('user', 'agent', 'system', 'client'));
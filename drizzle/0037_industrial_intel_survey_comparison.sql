@@ -0,0 +1,5 @@
+-- Fact keys the broker releases to the client in the survey comparison matrix.
+-- NULL keeps the standard set (size, clear height, doors, power, zoning,
+-- office, yard); an empty array hides every row.
+ALTER TABLE public.intel_surveys
+  ADD COLUMN IF NOT EXISTS client_comparison_fact_keys jsonb;
@@ -0,0 +1,6 @@
+-- Optional client link expiry and passcode for surveys. Expired links answer
+-- 410 instead of 404 so the client sees why the link stopped working. The
+-- passcode is stored as an scrypt hash, never in plain text.
+ALTER TABLE public.intel_surveys
+  ADD COLUMN IF NOT EXISTS share_expires_at timestamptz,
+  ADD COLUMN IF NOT EXISTS share_passcode_hash varchar;
@@ -0,0 +1,19 @@
+-- Property tours planned from a survey shortlist. Stops are ordered by
+-- straight-line drive estimates; item_ids keeps that order.
+CREATE TABLE IF NOT EXISTS public.intel_survey_tours (
+  survey_id varchar PRIMARY KEY REFERENCES public.intel_surveys(id) ON DELETE CASCADE,
+  start_label varchar,
+  start_latitude numeric NOT NULL,
+  start_longitude numeric NOT NULL,
+  start_at timestamptz NOT NULL,
+  minutes_per_stop integer NOT NULL DEFAULT 30,
+  item_ids jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by_user_id varchar REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamp DEFAULT now(),
+  updated_at timestamp DEFAULT now()
+);
+
+-- Broker-only notes taken at each stop during the tour.
+ALTER TABLE public.intel_survey_items
+  ADD COLUMN IF NOT EXISTS tour_notes text,
+  ADD COLUMN IF NOT EXISTS toured_at timestamp;
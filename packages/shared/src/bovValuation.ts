@@ -0,0 +1,174 @@
+// Broker opinion of value math shared by the worksheet editor (live preview)
+// and the API (which recomputes on save so stored versions can be trusted).
+// Comp values are $/SF: sale price per SF for a sale BOV, net rent per SF per
+// year for a lease BOV. Adjustments are percentages applied to the comp value.
+
+export const BOV_BASES = ["sale", "lease"] as const;
+
+export type BovBasis = (typeof BOV_BASES)[number];
+
+export const BOV_COMP_SOURCES = ["market_comp", "intel_listing", "manual"] as const;
+
+export type BovCompSource = (typeof BOV_COMP_SOURCES)[number];
+
+export type BovSubject = {
+  address?: string | null;
+  buildingSizeSf?: number | null;
+  landSizeAcres?: number | null;
+  yearBuilt?: number | null;
+  clearHeightFt?: number | null;
+  valuationDate?: string | null;
+};
+
+// Percent per unit of difference between subject and comp.
+export type BovAdjustmentSettings = {
+  sizePctPer10kSf: number;
+  agePctPerYear: number;
+  clearHeightPctPerFt: number;
+  timePctPerYear: number;
+};
+
+export const DEFAULT_BOV_ADJUSTMENTS: BovAdjustmentSettings = {
+  sizePctPer10kSf: 1,
+  agePctPerYear: 0.5,
+  clearHeightPctPerFt: 1,
+  timePctPerYear: 3,
+};
+
+export type BovComp = {
+  source: BovCompSource;
+  sourceId?: string | null;
+  address: string;
+  submarket?: string | null;
+  // Closed comps and asking listings are both allowed; the PDF labels which is which.
+  isAsking?: boolean;
+  valuePsf: number | null;
+  buildingSizeSf?: number | null;
+  yearBuilt?: number | null;
+  clearHeightFt?: number | null;
+  compDate?: string | null;
+  lat?: number | null;
+  lng?: number | null;
+  otherPct?: number | null;
+  weight?: number | null;
+  included?: boolean;
+  note?: string | null;
+};
+
+export type BovAdjustmentKey = "size" | "age" | "clearHeight" | "time";
+
+export type BovAdjustedComp = BovComp & {
+  adjustments: Record<BovAdjustmentKey | "other", number>;
+  totalAdjustmentPct: number;
+  adjustedValuePsf: number | null;
+  // Adjustments that could not be made because the subject or comp lacks the input.
+  missing: BovAdjustmentKey[];
+};
+
+export type BovValuation = {
+  comps: BovAdjustedComp[];
+  usedCount: number;
+  rangePsf: { low: number; median: number; high: number; weightedAverage: number } | null;
+  // Sale: total value. Lease: annual net rent. Null until the subject has a size.
+  indicated: { low: number; mid: number; high: number } | null;
+};
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function present(value: number | null | undefined): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function monthsBetween(from: string, to: string) {
+  const start = new Date(`${from.slice(0, 10)}T00:00:00Z`);
+  const end = new Date(`${to.slice(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) return null;
+  return (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + (end.getUTCMonth() - start.getUTCMonth());
+}
+
+/**
+ * Each adjustment moves the comp toward the subject: a larger comp, an older
+ * comp, a lower comp or an older deal is adjusted upward when the subject is
+ * smaller, newer, taller or valued later.
+ */
+export function adjustBovComp(
+  comp: BovComp,
+  subject: BovSubject,
+  settings: BovAdjustmentSettings,
+): BovAdjustedComp {
+  const missing: BovAdjustmentKey[] = [];
+  const adjustments = { size: 0, age: 0, clearHeight: 0, time: 0, other: present(comp.otherPct) ? comp.otherPct : 0 };
+
+  if (present(comp.buildingSizeSf) && present(subject.buildingSizeSf)) {
+    adjustments.size = round2(((comp.buildingSizeSf - subject.buildingSizeSf) / 10_000) * settings.sizePctPer10kSf);
+  } else {
+    missing.push("size");
+  }
+  if (present(comp.yearBuilt) && present(subject.yearBuilt)) {
+    adjustments.age = round2((subject.yearBuilt - comp.yearBuilt) * settings.agePctPerYear);
+  } else {
+    missing.push("age");
+  }
+  if (present(comp.clearHeightFt) && present(subject.clearHeightFt)) {
+    adjustments.clearHeight = round2((subject.clearHeightFt - comp.clearHeightFt) * settings.clearHeightPctPerFt);
+  } else {
+    missing.push("clearHeight");
+  }
+  const months = comp.compDate && subject.valuationDate ? monthsBetween(comp.compDate, subject.valuationDate) : null;
+  if (months !== null) {
+    adjustments.time = round2((months / 12) * settings.timePctPerYear);
+  } else {
+    missing.push("time");
+  }
+
+  const totalAdjustmentPct = round2(adjustments.size + adjustments.age + adjustments.clearHeight + adjustments.time + adjustments.other);
+  return {
+    ...comp,
+    adjustments,
+    totalAdjustmentPct,
+    adjustedValuePsf: present(comp.valuePsf) && comp.valuePsf > 0
+      ? round2(comp.valuePsf * (1 + totalAdjustmentPct / 100))
+      : null,
+    missing,
+  };
+}
+
+function median(sorted: number[]) {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/** The indicated range runs from the lowest to the highest adjusted comp, centred on the weighted average. */
+export function computeBovValuation(
+  subject: BovSubject,
+  settings: BovAdjustmentSettings,
+  comps: BovComp[],
+): BovValuation {
+  const adjusted = comps.map((comp) => adjustBovComp(comp, subject, settings));
+  const used = adjusted.filter((comp) => comp.included !== false && present(comp.adjustedValuePsf) && comp.adjustedValuePsf > 0);
+  if (!used.length) return { comps: adjusted, usedCount: 0, rangePsf: null, indicated: null };
+
+  const values = used.map((comp) => comp.adjustedValuePsf as number).sort((a, b) => a - b);
+  const totalWeight = used.reduce((sum, comp) => sum + (present(comp.weight) && comp.weight > 0 ? comp.weight : 1), 0);
+  const weightedAverage = used.reduce(
+    (sum, comp) => sum + (comp.adjustedValuePsf as number) * (present(comp.weight) && comp.weight > 0 ? comp.weight : 1),
+    0,
+  ) / totalWeight;
+  const rangePsf = {
+    low: values[0],
+    median: round2(median(values)),
+    high: values[values.length - 1],
+    weightedAverage: round2(weightedAverage),
+  };
+  const size = subject.buildingSizeSf;
+  return {
+    comps: adjusted,
+    usedCount: used.length,
+    rangePsf,
+    indicated: present(size) && size > 0
+      ? { low: Math.round(rangePsf.low * size), mid: Math.round(rangePsf.weightedAverage * size), high: Math.round(rangePsf.high * size) }
+      : null,
+  };
+}
@@ -2,4 +2,5 @@ export * from './schema';
 export * from './requirementMatching';
 export * from './entityResolution';
 export * from './brokerageMemory';
-
+export * from './bovValuation';
+export * from './leaseEconomics';
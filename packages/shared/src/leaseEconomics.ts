@@ -0,0 +1,188 @@
+// Lease deal math shared by the comp form, survey items and requirement
+// scoring. Rents are annual $/SF (the way brokers quote them); results are per
+// SF over the whole term, with dollar totals added when the area is known.
+// Rent is paid monthly in advance and free rent abates the first months.
+
+export const LEASE_ESCALATION_KINDS = ["percent", "fixed"] as const;
+
+export type LeaseEscalationKind = (typeof LEASE_ESCALATION_KINDS)[number];
+
+// Percent bumps compound on the previous step; fixed bumps add $/SF.
+export type LeaseEscalation = {
+  kind: LeaseEscalationKind;
+  amount: number;
+  everyMonths?: number | null;
+};
+
+// An explicit schedule, e.g. [{ fromMonth: 1, ratePsf: 12 }, { fromMonth: 37, ratePsf: 13.5 }].
+export type LeaseRentStep = {
+  fromMonth: number;
+  ratePsf: number;
+};
+
+export type LeaseTerms = {
+  termMonths?: number | null;
+  areaSf?: number | null;
+  baseRatePsf?: number | null;
+  escalation?: LeaseEscalation | null;
+  // Wins over baseRatePsf and escalation when present.
+  rentSteps?: LeaseRentStep[] | null;
+  freeRentMonths?: number | null;
+  // Gross free rent also waives additional rent during the free months.
+  freeRentIncludesAdditionalRent?: boolean | null;
+  tiAllowancePsf?: number | null;
+  additionalRentPsf?: number | null;
+  // Percent of the base rent actually paid over the term.
+  commissionPct?: number | null;
+  discountRatePct?: number | null;
+};
+
+export const DEFAULT_LEASE_DISCOUNT_RATE_PCT = 8;
+
+const DEFAULT_ESCALATION_MONTHS = 12;
+
+export type LeaseEconomicsTotals = {
+  baseRent: number;
+  freeRent: number;
+  additionalRent: number;
+  tiAllowance: number;
+  commissions: number;
+  totalConsideration: number;
+  landlordNpv: number;
+};
+
+export type LeaseEconomics = {
+  termMonths: number;
+  areaSf: number | null;
+  startingRatePsf: number;
+  // Straight average of the face rent over the term, before concessions.
+  averageRatePsf: number;
+  // Annual $/SF the landlord nets after free rent, TI and commissions.
+  netEffectiveRatePsf: number;
+  baseRentPsf: number;
+  freeRentPsf: number;
+  additionalRentPsf: number;
+  tiAllowancePsf: number;
+  commissionsPsf: number;
+  // Everything the tenant pays over the term: base rent after free rent plus additional rent.
+  totalConsiderationPsf: number;
+  // Base rent received less TI and commissions paid up front; additional rent
+  // is left out because it only recovers operating costs.
+  landlordNpvPsf: number;
+  discountRatePct: number;
+  totals: LeaseEconomicsTotals | null;
+};
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function positive(value: number | null | undefined): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function nonNegative(value: number | null | undefined) {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/** Annual $/SF face rent for each month of the term, before free rent. */
+export function leaseRentSchedule(terms: LeaseTerms): number[] {
+  const termMonths = positive(terms.termMonths) ? Math.round(terms.termMonths) : 0;
+  if (!termMonths) return [];
+
+  const steps = (terms.rentSteps || [])
+    .filter((step) => positive(step.fromMonth) && Number.isFinite(step.ratePsf) && step.ratePsf >= 0)
+    .sort((left, right) => left.fromMonth - right.fromMonth);
+  if (steps.length > 0) {
+    return Array.from({ length: termMonths }, (_, index) => {
+      const month = index + 1;
+      let rate = steps[0].ratePsf;
+      for (const step of steps) {
+        if (step.fromMonth <= month) rate = step.ratePsf;
+      }
+      return rate;
+    });
+  }
+
+  if (!positive(terms.baseRatePsf)) return [];
+  const baseRate = terms.baseRatePsf;
+  const escalation = terms.escalation && Number.isFinite(terms.escalation.amount) ? terms.escalation : null;
+  const everyMonths = positive(escalation?.everyMonths) ? Math.round(escalation!.everyMonths!) : DEFAULT_ESCALATION_MONTHS;
+  return Array.from({ length: termMonths }, (_, index) => {
+    const bumps = escalation ? Math.floor(index / everyMonths) : 0;
+    if (!escalation || bumps === 0) return baseRate;
+    return escalation.kind === "percent"
+      ? baseRate * (1 + escalation.amount / 100) ** bumps
+      : baseRate + escalation.amount * bumps;
+  });
+}
+
+/** Null until there is a term and a rent to work from. */
+export function computeLeaseEconomics(terms: LeaseTerms): LeaseEconomics | null {
+  const schedule = leaseRentSchedule(terms);
+  if (schedule.length === 0) return null;
+
+  const termMonths = schedule.length;
+  const freeMonths = Math.min(termMonths, Math.round(nonNegative(terms.freeRentMonths)));
+  const additionalRate = nonNegative(terms.additionalRentPsf);
+  const tiAllowancePsf = nonNegative(terms.tiAllowancePsf);
+  const discountRatePct = typeof terms.discountRatePct === "number" && Number.isFinite(terms.discountRatePct) && terms.discountRatePct >= 0
+    ? terms.discountRatePct
+    : DEFAULT_LEASE_DISCOUNT_RATE_PCT;
+  const monthlyDiscount = (1 + discountRatePct / 100) ** (1 / 12) - 1;
+
+  let baseRent = 0;
+  let freeRent = 0;
+  let additionalRent = 0;
+  let presentValue = 0;
+  schedule.forEach((annualRate, index) => {
+    const monthlyRent = annualRate / 12;
+    const isFree = index < freeMonths;
+    baseRent += monthlyRent;
+    if (isFree) {
+      freeRent += monthlyRent;
+    } else {
+      presentValue += monthlyRent / (1 + monthlyDiscount) ** index;
+    }
+    if (!isFree || !terms.freeRentIncludesAdditionalRent) additionalRent += additionalRate / 12;
+  });
+
+  const paidBaseRent = baseRent - freeRent;
+  const commissionsPsf = paidBaseRent * (nonNegative(terms.commissionPct) / 100);
+  const years = termMonths / 12;
+  const areaSf = positive(terms.areaSf) ? terms.areaSf : null;
+  const totalConsiderationPsf = paidBaseRent + additionalRent;
+  const landlordNpvPsf = presentValue - tiAllowancePsf - commissionsPsf;
+  const dollars = (perSf: number) => round2(perSf * (areaSf as number));
+
+  return {
+    termMonths,
+    areaSf,
+    startingRatePsf: round2(schedule[0]),
+    averageRatePsf: round2(baseRent / years),
+    netEffectiveRatePsf: round2((paidBaseRent - tiAllowancePsf - commissionsPsf) / years),
+    baseRentPsf: round2(baseRent),
+    freeRentPsf: round2(freeRent),
+    additionalRentPsf: round2(additionalRent),
+    tiAllowancePsf: round2(tiAllowancePsf),
+    commissionsPsf: round2(commissionsPsf),
+    totalConsiderationPsf: round2(totalConsiderationPsf),
+    landlordNpvPsf: round2(landlordNpvPsf),
+    discountRatePct,
+    totals: areaSf === null ? null : {
+      baseRent: dollars(baseRent),
+      freeRent: dollars(freeRent),
+      additionalRent: dollars(additionalRent),
+      tiAllowance: dollars(tiAllowancePsf),
+      commissions: dollars(commissionsPsf),
+      totalConsideration: dollars(totalConsiderationPsf),
+      landlordNpv: dollars(landlordNpvPsf),
+    },
+  };
+}
+
+/** True when any concession or cost beyond the face rent has been entered. */
+export function hasLeaseConcessions(terms: LeaseTerms) {
+  return positive(terms.freeRentMonths) || positive(terms.tiAllowancePsf) || positive(terms.commissionPct)
+    || Boolean(terms.escalation && terms.escalation.amount) || (terms.rentSteps?.length || 0) > 1;
+}
@@ -1,3 +1,5 @@
+import { computeLeaseEconomics, hasLeaseConcessions, type LeaseTerms } from "./leaseEconomics";
+
 export type RequirementForMatching = {
   id?: string;
   title?: string;
@@ -14,8 +16,45 @@ export type RequirementForMatching = {
   powerNotes?: string | null;
   specialNotes?: string | null;
   isOffMarketSearchEnabled?: boolean;
+  preferences?: RequirementPreferenceForMatching[];
+  searchAreas?: RequirementSearchArea[] | null;
+};
+
+// Coordinates follow GeoJSON order ([lng, lat]) so polygons drawn on the map
+// can be stored as-is; radius areas are a center point plus kilometres.
+export type RequirementSearchArea =
+  | {
+    kind: "polygon";
+    label?: string | null;
+    coordinates: Array<Array<[number, number]>>;
+  }
+  | {
+    kind: "radius";
+    label?: string | null;
+    center: [number, number];
+    radiusKm: number;
+  };
+
+// `operator` is how much the client cares (required = must-have, preferred =
+// nice-to-have, avoid = count against, note = context only); `comparator` is
+// how the value is tested. A missing comparator is inferred from the value:
+// numbers are minimums, booleans must equal, text must appear.
+export type RequirementPreferenceForMatching = {
+  key: string;
+  operator: string;
+  comparator?: string | null;
+  valueText?: string | null;
+  valueNumber?: number | null;
+  valueBoolean?: boolean | null;
+  weight?: number | null;
 };
 
+export const REQUIREMENT_PREFERENCE_COMPARATORS = ["gte", "lte", "eq", "neq", "contains"] as const;
+
+export type RequirementPreferenceComparator = (typeof REQUIREMENT_PREFERENCE_COMPARATORS)[number];
+
+export type RequirementFactValue = string | number | boolean | null;
+
 export type ListingForRequirementMatching = {
   id: string;
   sourceName?: string | null;
@@ -38,6 +77,9 @@ export type ListingForRequirementMatching = {
   latitude?: number | null;
   longitude?: number | null;
   dataQualityStatus?: string | null;
+  // Broker-approved dossier facts keyed by fact key; these win over listing
+  // fields when a preference names the same fact.
+  facts?: Record<string, RequirementFactValue>;
 };
 
 export type RequirementMatchTier = "strong" | "possible" | "stretch";
@@ -101,10 +143,379 @@ function listingMatchesArea(listing: ListingForRequirementMatching, areaTokens:
   return areaTokens.some((area) => listingArea.includes(area) || area.includes(listingArea));
 }
 
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = 110.574;
+const KM_PER_DEGREE_LNG_AT_EQUATOR = 111.32;
+
+function toRadians(value: number) {
+  return (value * Math.PI) / 180;
+}
+
+export function haversineDistanceKm(from: [number, number], to: [number, number]) {
+  const [fromLng, fromLat] = from;
+  const [toLng, toLat] = to;
+  const dLat = toRadians(toLat - fromLat);
+  const dLng = toRadians(toLng - fromLng);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(fromLat)) * Math.cos(toRadians(toLat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+function pointInRing(point: [number, number], ring: Array<[number, number]>) {
+  const [x, y] = point;
+  let inside = false;
+  for (let index = 0, previous = ring.length - 1; index < ring.length; previous = index++) {
+    const [xi, yi] = ring[index];
+    const [xj, yj] = ring[previous];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Search areas span a few dozen kilometres at most, so a flat projection
+// around the listing is accurate enough for edge distances.
+function distanceToRingKm(point: [number, number], ring: Array<[number, number]>) {
+  const [originLng, originLat] = point;
+  const kmPerDegreeLng = KM_PER_DEGREE_LNG_AT_EQUATOR * Math.cos(toRadians(originLat));
+  const project = ([lng, lat]: [number, number]) => [
+    (lng - originLng) * kmPerDegreeLng,
+    (lat - originLat) * KM_PER_DEGREE_LAT,
+  ];
+  let nearest = Number.POSITIVE_INFINITY;
+  for (let index = 0; index < ring.length - 1; index += 1) {
+    const [ax, ay] = project(ring[index]);
+    const [bx, by] = project(ring[index + 1]);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+    nearest = Math.min(nearest, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+  return nearest;
+}
+
+/** Kilometres from the point to the area's edge; 0 when the point is inside. */
+export function distanceToRequirementSearchAreaKm(area: RequirementSearchArea, point: [number, number]) {
+  if (area.kind === "radius") {
+    return Math.max(0, haversineDistanceKm(area.center, point) - area.radiusKm);
+  }
+  const [outer, ...holes] = area.coordinates;
+  if (!outer || outer.length < 3) return Number.POSITIVE_INFINITY;
+  const insideHole = holes.some((hole) => hole.length >= 3 && pointInRing(point, hole));
+  if (pointInRing(point, outer) && !insideHole) return 0;
+  return Math.min(...area.coordinates.filter((ring) => ring.length >= 2).map((ring) => distanceToRingKm(point, ring)));
+}
+
+export function describeRequirementSearchArea(area: RequirementSearchArea) {
+  const label = area.label?.trim();
+  if (area.kind === "radius") {
+    const radius = `${area.radiusKm.toLocaleString("en-CA", { maximumFractionDigits: 1 })} km`;
+    return label ? `${radius} of ${label}` : `${radius} radius`;
+  }
+  return label || "drawn search area";
+}
+
+function listingPoint(listing: ListingForRequirementMatching): [number, number] | null {
+  if (listing.latitude == null || listing.longitude == null) return null;
+  if (!Number.isFinite(listing.latitude) || !Number.isFinite(listing.longitude)) return null;
+  return [listing.longitude, listing.latitude];
+}
+
+const AREA_MATCH_POINTS = 24;
+// Listings just past the line still earn partial credit, tapering to nothing
+// at the buffer edge, so a site across the road from the polygon is not a miss.
+const SEARCH_AREA_NEAR_BUFFER_KM = 5;
+const SEARCH_AREA_NEAR_MAX_POINTS = 14;
+
+function formatKm(value: number) {
+  return `${value.toLocaleString("en-CA", { maximumFractionDigits: 1 })} km`;
+}
+
+function scoreRequirementArea(requirement: RequirementForMatching, listing: ListingForRequirementMatching) {
+  const searchAreas = requirement.searchAreas || [];
+  const point = listingPoint(listing);
+
+  if (searchAreas.length > 0 && point) {
+    const nearest = searchAreas
+      .map((area) => ({ area, distanceKm: distanceToRequirementSearchAreaKm(area, point) }))
+      .sort((left, right) => left.distanceKm - right.distanceKm)[0];
+    const areaLabel = describeRequirementSearchArea(nearest.area);
+    if (nearest.distanceKm === 0) {
+      return { points: AREA_MATCH_POINTS, reasons: [`Inside search area: ${areaLabel}`], warnings: [] };
+    }
+    if (nearest.distanceKm <= SEARCH_AREA_NEAR_BUFFER_KM) {
+      const points = Math.max(1, Math.round(SEARCH_AREA_NEAR_MAX_POINTS * (1 - nearest.distanceKm / SEARCH_AREA_NEAR_BUFFER_KM)));
+      return { points, reasons: [], warnings: [`${formatKm(nearest.distanceKm)} outside search area: ${areaLabel}`] };
+    }
+    return {
+      points: 0,
+      reasons: [],
+      warnings: [`Outside search areas (${formatKm(nearest.distanceKm)} from ${areaLabel})`],
+    };
+  }
+
+  const fallbackWarnings = searchAreas.length > 0 ? ["Needs coordinates to check the search areas"] : [];
+  if (listingMatchesArea(listing, getRequirementAreaTokens(requirement))) {
+    return {
+      points: AREA_MATCH_POINTS,
+      reasons: [`Area matches ${listing.submarket || listing.market || "the target geography"}`],
+      warnings: fallbackWarnings,
+    };
+  }
+  if (requirement.submarket || requirement.specialNotes || searchAreas.length > 0) {
+    return { points: 6, reasons: [], warnings: fallbackWarnings.length ? fallbackWarnings : ["Target geography needs broker review"] };
+  }
+  return { points: 8, reasons: [], warnings: ["Requirement area is not structured yet"] };
+}
+
+// Yard is not the whole site, so a yard preference only reads an approved
+// yard_acres dossier fact and is never answered from landAcres.
+const LISTING_FACT_ALIASES: Record<string, keyof ListingForRequirementMatching> = {
+  availablesf: "availableSf",
+  sf: "availableSf",
+  size: "availableSf",
+  landacres: "landAcres",
+  acres: "landAcres",
+  totalprice: "totalPrice",
+  price: "totalPrice",
+  priceperacre: "pricePerAcre",
+  leaseratepsf: "leaseRatePsf",
+  leaserate: "leaseRatePsf",
+  rate: "leaseRatePsf",
+  clearheightft: "clearHeightFt",
+  clearheight: "clearHeightFt",
+  listingtype: "listingType",
+  dealtype: "listingType",
+  assettype: "assetType",
+  market: "market",
+  submarket: "submarket",
+  status: "status",
+  address: "address",
+  title: "title",
+};
+
+const COMPARATOR_LABELS: Record<RequirementPreferenceComparator, string> = {
+  gte: ">=",
+  lte: "<=",
+  eq: "=",
+  neq: "!=",
+  contains: "includes",
+};
+
+function normalizeFactKey(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function resolveListingFact(listing: ListingForRequirementMatching, key: string): RequirementFactValue | undefined {
+  const normalizedKey = normalizeFactKey(key);
+  for (const [factKey, value] of Object.entries(listing.facts || {})) {
+    if (normalizeFactKey(factKey) === normalizedKey && value != null) return value;
+  }
+  const field = LISTING_FACT_ALIASES[normalizedKey];
+  if (!field) return undefined;
+  const value = listing[field];
+  return typeof value === "string" || typeof value === "number" || typeof value === "boolean" ? value : null;
+}
+
+function preferenceComparator(preference: RequirementPreferenceForMatching): RequirementPreferenceComparator {
+  const comparator = normalizeMatchText(preference.comparator) as RequirementPreferenceComparator;
+  if (REQUIREMENT_PREFERENCE_COMPARATORS.includes(comparator)) return comparator;
+  if (preference.valueNumber != null) return "gte";
+  if (preference.valueBoolean != null) return "eq";
+  return "contains";
+}
+
+function preferenceTarget(preference: RequirementPreferenceForMatching): RequirementFactValue {
+  if (preference.valueNumber != null) return preference.valueNumber;
+  if (preference.valueBoolean != null) return preference.valueBoolean;
+  return preference.valueText?.trim() || null;
+}
+
+function toNumber(value: RequirementFactValue) {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value.replace(/[$,\s]/g, ""));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toBoolean(value: RequirementFactValue) {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  const text = normalizeMatchText(value == null ? "" : String(value));
+  if (["yes", "true", "y", "1"].includes(text)) return true;
+  if (["no", "false", "n", "0"].includes(text)) return false;
+  return null;
+}
+
+export type RequirementPreferenceOutcome = "pass" | "fail" | "unknown";
+
+export function evaluateRequirementPreference(
+  preference: RequirementPreferenceForMatching,
+  listing: ListingForRequirementMatching,
+): RequirementPreferenceOutcome {
+  const comparator = preferenceComparator(preference);
+  const target = preferenceTarget(preference);
+  const actual = resolveListingFact(listing, preference.key);
+  if (target == null || actual == null) return "unknown";
+
+  if (typeof target === "number") {
+    const actualNumber = toNumber(actual);
+    if (actualNumber == null) return "unknown";
+    switch (comparator) {
+      case "lte": return actualNumber <= target ? "pass" : "fail";
+      case "eq": return actualNumber === target ? "pass" : "fail";
+      case "neq": return actualNumber !== target ? "pass" : "fail";
+      default: return actualNumber >= target ? "pass" : "fail";
+    }
+  }
+
+  if (typeof target === "boolean") {
+    const actualBoolean = toBoolean(actual);
+    if (actualBoolean == null) return "unknown";
+    return (comparator === "neq" ? actualBoolean !== target : actualBoolean === target) ? "pass" : "fail";
+  }
+
+  const actualText = normalizeMatchText(String(actual));
+  const targetText = normalizeMatchText(target);
+  switch (comparator) {
+    case "eq": return actualText === targetText ? "pass" : "fail";
+    case "neq": return actualText !== targetText ? "pass" : "fail";
+    default: return actualText.includes(targetText) ? "pass" : "fail";
+  }
+}
+
+function describePreference(preference: RequirementPreferenceForMatching) {
+  const target = preferenceTarget(preference);
+  const comparator = preferenceComparator(preference);
+  const value = typeof target === "number" ? target.toLocaleString("en-CA") : String(target ?? "");
+  return `${preference.key} ${COMPARATOR_LABELS[comparator]} ${value}`.trim();
+}
+
+function preferenceWeight(preference: RequirementPreferenceForMatching) {
+  return Math.max(1, Math.min(5, Math.round(preference.weight ?? 1)));
+}
+
+// Preferences adjust the base score rather than replace it: nice-to-haves can
+// add up to 20 points, and a failed must-have keeps the listing out of the
+// strong and possible tiers no matter how well the fixed columns fit.
+const PREFERRED_POINTS_PER_WEIGHT = 3;
+const PREFERRED_POINTS_CAP = 20;
+const REQUIRED_POINTS_PER_WEIGHT = 2;
+const AVOID_POINTS_PER_WEIGHT = 5;
+const FAILED_MUST_HAVE_SCORE_CAP = 40;
+
+function scoreRequirementPreferences(requirement: RequirementForMatching, listing: ListingForRequirementMatching) {
+  let points = 0;
+  let preferredPoints = 0;
+  let mustHaveFailed = false;
+  const reasons: string[] = [];
+  const warnings: string[] = [];
+
+  for (const preference of requirement.preferences || []) {
+    const operator = normalizeMatchText(preference.operator);
+    if (operator === "note") continue;
+    const weight = preferenceWeight(preference);
+    const label = describePreference(preference);
+    const outcome = evaluateRequirementPreference(preference, listing);
+
+    if (operator === "required") {
+      if (outcome === "pass") {
+        points += weight * REQUIRED_POINTS_PER_WEIGHT;
+        reasons.push(`Must-have met: ${label}`);
+      } else if (outcome === "fail") {
+        mustHaveFailed = true;
+        warnings.push(`Must-have failed: ${label}`);
+      } else {
+        warnings.push(`Must-have needs verification: ${label}`);
+      }
+    } else if (operator === "avoid") {
+      if (outcome === "pass") {
+        points -= weight * AVOID_POINTS_PER_WEIGHT;
+        warnings.push(`Client wants to avoid: ${label}`);
+      }
+    } else if (outcome === "pass") {
+      preferredPoints += weight * PREFERRED_POINTS_PER_WEIGHT;
+      reasons.push(`Preference met: ${label}`);
+    } else if (outcome === "fail") {
+      warnings.push(`Preference missed: ${label}`);
+    } else {
+      warnings.push(`Preference needs verification: ${label}`);
+    }
+  }
+
+  return {
+    points: points + Math.min(PREFERRED_POINTS_CAP, preferredPoints),
+    mustHaveFailed,
+    reasons,
+    warnings,
+  };
+}
+
 function formatPsf(value: number) {
   return `$${value.toLocaleString("en-CA", { maximumFractionDigits: 2 })} / SF`;
 }
 
+// Concessions only move the effective rent when spread over a term; a five
+// year deal is assumed when the listing does not say.
+const BUDGET_TERM_MONTHS = 60;
+
+/** Lease terms built from approved dossier facts; null when the listing has no concessions on record. */
+export function listingLeaseTerms(listing: ListingForRequirementMatching): LeaseTerms | null {
+  if (!listing.leaseRatePsf) return null;
+  const fact = (key: string) => {
+    const value = resolveListingFact(listing, key);
+    return value === undefined ? null : toNumber(value);
+  };
+  const escalationPct = fact("escalation_pct");
+  const escalationPsf = fact("escalation_psf");
+  const terms: LeaseTerms = {
+    termMonths: fact("term_months") ?? BUDGET_TERM_MONTHS,
+    baseRatePsf: listing.leaseRatePsf,
+    escalation: escalationPct !== null
+      ? { kind: "percent", amount: escalationPct }
+      : escalationPsf !== null ? { kind: "fixed", amount: escalationPsf } : null,
+    freeRentMonths: fact("free_rent_months"),
+    tiAllowancePsf: fact("ti_allowance_psf"),
+  };
+  return hasLeaseConcessions(terms) ? terms : null;
+}
+
+// Budgets are tested against net effective rent when the listing's concessions
+// are known, so a higher asking rate with free rent or TI is not written off.
+function scoreRequirementBudget(requirement: RequirementForMatching, listing: ListingForRequirementMatching, dealType: string) {
+  const reasons: string[] = [];
+  const warnings: string[] = [];
+  const budget = requirement.maxBudgetPsf;
+  if (!budget) return { points: 0, reasons, warnings };
+  if (!listing.leaseRatePsf) {
+    if (dealType !== "sale") warnings.push("Lease rate is missing");
+    return { points: 0, reasons, warnings };
+  }
+
+  const terms = listingLeaseTerms(listing);
+  const netEffective = terms ? computeLeaseEconomics(terms)?.netEffectiveRatePsf ?? null : null;
+  if (netEffective === null) {
+    if (listing.leaseRatePsf <= budget) {
+      reasons.push(`Lease rate is within budget at ${formatPsf(listing.leaseRatePsf)}`);
+      return { points: 8, reasons, warnings };
+    }
+    warnings.push(`Lease rate exceeds budget at ${formatPsf(listing.leaseRatePsf)}`);
+    return { points: 0, reasons, warnings };
+  }
+
+  const asking = `asking ${formatPsf(listing.leaseRatePsf)}`;
+  if (netEffective <= budget) {
+    reasons.push(`Net effective rent is within budget at ${formatPsf(netEffective)} (${asking})`);
+    return { points: 8, reasons, warnings };
+  }
+  warnings.push(`Net effective rent exceeds budget at ${formatPsf(netEffective)} (${asking})`);
+  return { points: 0, reasons, warnings };
+}
+
 export function scoreRequirementListing<TListing extends ListingForRequirementMatching>(
   requirement: RequirementForMatching,
   listing: TListing,
@@ -114,7 +525,6 @@ export function scoreRequirementListing<TListing extends ListingForRequirementMa
   const warnings: string[] = [];
   const dealType = normalizeMatchText(requirement.dealType);
   const listingType = normalizeMatchText(listing.listingType);
-  const areaTokens = getRequirementAreaTokens(requirement);
   const listingText = normalizeMatchText([
     listing.title,
     listing.address,
@@ -130,16 +540,10 @@ export function scoreRequirementListing<TListing extends ListingForRequirementMa
     warnings.push(`Deal type mismatch: requirement is ${requirement.dealType}, listing is ${listing.listingType}`);
   }
 
-  if (listingMatchesArea(listing, areaTokens)) {
-    score += 24;
-    reasons.push(`Area matches ${listing.submarket || listing.market || "the target geography"}`);
-  } else if (requirement.submarket || requirement.specialNotes) {
-    score += 6;
-    warnings.push("Target geography needs broker review");
-  } else {
-    score += 8;
-    warnings.push("Requirement area is not structured yet");
-  }
+  const areaScore = scoreRequirementArea(requirement, listing);
+  score += areaScore.points;
+  reasons.push(...areaScore.reasons);
+  warnings.push(...areaScore.warnings);
 
   if (listing.availableSf && (requirement.minSf || requirement.maxSf)) {
     const minSf = requirement.minSf || 0;
@@ -167,16 +571,10 @@ export function scoreRequirementListing<TListing extends ListingForRequirementMa
     warnings.push("Size data is missing or incomplete");
   }
 
-  if (requirement.maxBudgetPsf) {
-    if (listing.leaseRatePsf && listing.leaseRatePsf <= requirement.maxBudgetPsf) {
-      score += 8;
-      reasons.push(`Lease rate is within budget at ${formatPsf(listing.leaseRatePsf)}`);
-    } else if (listing.leaseRatePsf) {
-      warnings.push(`Lease rate exceeds budget at ${formatPsf(listing.leaseRatePsf)}`);
-    } else if (dealType !== "sale") {
-      warnings.push("Lease rate is missing");
-    }
-  }
+  const budgetScore = scoreRequirementBudget(requirement, listing, dealType);
+  score += budgetScore.points;
+  reasons.push(...budgetScore.reasons);
+  warnings.push(...budgetScore.warnings);
 
   if (requirement.minClearHeightFt) {
     if (listing.clearHeightFt && listing.clearHeightFt >= requirement.minClearHeightFt) {
@@ -236,12 +634,18 @@ export function scoreRequirementListing<TListing extends ListingForRequirementMa
     warnings.push("Listing is flagged for data review");
   }
 
+  const preferenceScore = scoreRequirementPreferences(requirement, listing);
+  score += preferenceScore.points;
+  reasons.push(...preferenceScore.reasons);
+  warnings.push(...preferenceScore.warnings);
+
   if (requirement.isOffMarketSearchEnabled && score < 45) {
     score += 4;
     warnings.push("May be useful as off-market comp context");
   }
 
-  const boundedScore = Math.max(0, Math.min(100, score));
+  const ceiling = preferenceScore.mustHaveFailed ? FAILED_MUST_HAVE_SCORE_CAP : 100;
+  const boundedScore = Math.max(0, Math.min(ceiling, score));
   return {
     listing,
     score: boundedScore,
@@ -5,6 +5,7 @@ import {
   bigint,
   boolean,
   check,
+  date,
   index,
   jsonb,
   pgTable,
@@ -218,6 +219,7 @@ export const profiles = pgTable("profiles", {
     callsPerDay?: number;
     meetingsPerWeek?: number;
   }>().default({}),
+  renewalLeadMonths: integer("renewal_lead_months").notNull().default(18), // renewal radar lead window
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -611,6 +613,143 @@ export const opportunityPlaybookSteps = pgTable(
 export type OpportunityPlaybookStep = typeof opportunityPlaybookSteps.$inferSelect;
 export type InsertOpportunityPlaybookStep = typeof opportunityPlaybookSteps.$inferInsert;
 
+// Closed-deal track record. Rows start private to the broker; is_shared lets
+// teammates at the same company see them on their track record page.
+export const deals = pgTable(
+  "deals",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    source: varchar("source").notNull().default("manual"), // manual | spreadsheet | browser_import
+    sourceId: varchar("source_id"),
+    title: varchar("title").notNull(),
+    address: text("address").notNull(),
+    clientName: varchar("client_name"),
+    dealType: varchar("deal_type").notNull().default("unknown"), // lease | sale | renewal | unknown
+    role: varchar("role").notNull().default("advisor"), // tenant_rep | landlord_rep | buyer_rep | seller_rep | advisor
+    assetType: varchar("asset_type").notNull().default("Industrial"),
+    sizeSf: numeric("size_sf", { precision: 14, scale: 2 }),
+    acres: numeric("acres", { precision: 12, scale: 4 }),
+    submarket: varchar("submarket"),
+    closedDate: date("closed_date"),
+    leaseExpiryDate: date("lease_expiry_date"),
+    renewalNoticeDate: date("renewal_notice_date"),
+    dealValue: varchar("deal_value"), // as the broker wrote it, e.g. "$2.4M" or "$15.00 PSF"
+    summary: text("summary"),
+    imageUrls: jsonb("image_urls").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+    isFeatured: boolean("is_featured").notNull().default(true),
+    isShared: boolean("is_shared").notNull().default(false),
+    prospectId: varchar("prospect_id").references(() => prospects.id, { onDelete: "set null" }),
+    opportunityId: varchar("opportunity_id").references(() => opportunities.id, { onDelete: "set null" }),
+    intelDossierId: varchar("intel_dossier_id").references(() => intelPropertyDossiers.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_deals_user_closed").on(table.userId, table.closedDate),
+    index("IDX_deals_user_lease_expiry").on(table.userId, table.leaseExpiryDate).where(sql`${table.leaseExpiryDate} IS NOT NULL`),
+    index("IDX_deals_prospect").on(table.prospectId),
+    index("IDX_deals_opportunity").on(table.opportunityId),
+    index("IDX_deals_intel_dossier").on(table.intelDossierId),
+    uniqueIndex("UQ_deals_user_source_id").on(table.userId, table.sourceId).where(sql`${table.sourceId} IS NOT NULL`),
+  ],
+);
+
+export type Deal = typeof deals.$inferSelect;
+export type InsertDeal = typeof deals.$inferInsert;
+
+// Contact directory. People and companies are clustered out of the loose
+// contact strings on prospects, opportunities and activity, then linked back to
+// the records they came from. match_key is the clustering key, so re-running the
+// backfill updates the same rows instead of duplicating them.
+export const companies = pgTable(
+  "companies",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    name: varchar("name").notNull(),
+    normalizedName: varchar("normalized_name"),
+    domain: varchar("domain"),
+    phone: varchar("phone"),
+    websiteUrl: varchar("website_url"),
+    notes: text("notes"),
+    matchKey: varchar("match_key").notNull(),
+    source: varchar("source").notNull().default("manual"), // manual | backfill
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_companies_user_match_key").on(table.userId, table.matchKey),
+    index("IDX_companies_user_name").on(table.userId, table.normalizedName),
+  ],
+);
+
+export type Company = typeof companies.$inferSelect;
+export type InsertCompany = typeof companies.$inferInsert;
+
+export const contacts = pgTable(
+  "contacts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    companyId: varchar("company_id").references(() => companies.id, { onDelete: "set null" }),
+    fullName: varchar("full_name"),
+    email: varchar("email"),
+    phone: varchar("phone"),
+    normalizedPhone: varchar("normalized_phone"),
+    title: varchar("title"),
+    notes: text("notes"),
+    matchKey: varchar("match_key").notNull(),
+    source: varchar("source").notNull().default("manual"), // manual | backfill
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_contacts_user_match_key").on(table.userId, table.matchKey),
+    index("IDX_contacts_company").on(table.companyId),
+  ],
+);
+
+export type Contact = typeof contacts.$inferSelect;
+export type InsertContact = typeof contacts.$inferInsert;
+
+export const contactEntityLinks = pgTable(
+  "contact_entity_links",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    contactId: varchar("contact_id").notNull().references(() => contacts.id, { onDelete: "cascade" }),
+    entityType: varchar("entity_type").notNull(), // prospect | opportunity | dossier
+    entityId: varchar("entity_id").notNull(),
+    source: varchar("source").notNull().default("manual"), // manual | backfill
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_contact_entity_links").on(table.contactId, table.entityType, table.entityId),
+    index("IDX_contact_entity_links_entity").on(table.userId, table.entityType, table.entityId),
+  ],
+);
+
+export const companyEntityLinks = pgTable(
+  "company_entity_links",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    companyId: varchar("company_id").notNull().references(() => companies.id, { onDelete: "cascade" }),
+    entityType: varchar("entity_type").notNull(), // prospect | opportunity | dossier
+    entityId: varchar("entity_id").notNull(),
+    source: varchar("source").notNull().default("manual"), // manual | backfill
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_company_entity_links").on(table.companyId, table.entityType, table.entityId),
+    index("IDX_company_entity_links_entity").on(table.userId, table.entityType, table.entityId),
+  ],
+);
+
+export type ContactEntityLink = typeof contactEntityLinks.$inferSelect;
+export type CompanyEntityLink = typeof companyEntityLinks.$inferSelect;
+
 export const salesActivityImports = pgTable(
   "sales_activity_imports",
   {
@@ -655,7 +794,7 @@ export const emailConnections = pgTable(
   {
     id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
     userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-    provider: varchar("provider").notNull(), // outlook | gmail
+    provider: varchar("provider").notNull(), // outlook | gmail | imap
     providerAccountId: varchar("provider_account_id"),
     emailAddress: varchar("email_address"),
     displayName: varchar("display_name"),
@@ -753,6 +892,11 @@ export const emailSyncRuns = pgTable(
     messagesSeen: integer("messages_seen").notNull().default(0),
     messagesStored: integer("messages_stored").notNull().default(0),
     matchesCreated: integer("matches_created").notNull().default(0),
+    scope: varchar("scope").notNull().default("mailbox"), // mailbox | bcc
+    syncMode: varchar("sync_mode"), // delta | full | resync
+    pagesFetched: integer("pages_fetched").notNull().default(0),
+    messagesRemoved: integer("messages_removed").notNull().default(0),
+    cursorReset: boolean("cursor_reset").notNull().default(false),
     errorMessage: text("error_message"),
     createdAt: timestamp("created_at").defaultNow(),
   },
@@ -760,6 +904,7 @@ export const emailSyncRuns = pgTable(
     index("IDX_email_sync_runs_user").on(table.userId),
     index("IDX_email_sync_runs_connection").on(table.connectionId),
     index("IDX_email_sync_runs_started").on(table.startedAt),
+    index("IDX_email_sync_runs_connection_scope").on(table.connectionId, table.scope, table.startedAt),
   ],
 );
 
@@ -833,6 +978,13 @@ export const marketComps = pgTable("market_comps", {
   rateType: varchar("rate_type"), // Net | Gross | NNN
   commencement: varchar("commencement"),
   concessions: varchar("concessions"),
+  // Structured lease terms; feed net_effective_rate_psf (see drizzle/0034_market_comp_lease_economics.sql)
+  escalationKind: varchar("escalation_kind"), // percent | fixed
+  escalationAmount: numeric("escalation_amount", { precision: 10, scale: 2 }),
+  freeRentMonths: numeric("free_rent_months", { precision: 6, scale: 2 }),
+  tiAllowancePsf: numeric("ti_allowance_psf", { precision: 12, scale: 2 }),
+  additionalRentPsf: numeric("additional_rent_psf", { precision: 12, scale: 2 }),
+  commissionPct: numeric("commission_pct", { precision: 6, scale: 2 }),
   // Sale fields
   saleDate: varchar("sale_date"),
   buyer: varchar("buyer"),
@@ -840,6 +992,17 @@ export const marketComps = pgTable("market_comps", {
   price: varchar("price"),
   pricePerSf: varchar("price_per_sf"),
   pricePerAcre: varchar("price_per_acre"),
+  // Numeric economics parsed from the free-text fields above (see drizzle/0032_market_comp_economics.sql)
+  buildingSizeSf: numeric("building_size_sf", { precision: 14, scale: 2 }),
+  landSizeAcres: numeric("land_size_acres", { precision: 12, scale: 4 }),
+  ratePsf: numeric("rate_psf", { precision: 12, scale: 2 }),
+  priceAmount: numeric("price_amount", { precision: 16, scale: 2 }),
+  pricePerSfAmount: numeric("price_per_sf_amount", { precision: 12, scale: 2 }),
+  pricePerAcreAmount: numeric("price_per_acre_amount", { precision: 16, scale: 2 }),
+  compDate: date("comp_date"),
+  netEffectiveRatePsf: numeric("net_effective_rate_psf", { precision: 12, scale: 2 }),
+  economicsStatus: varchar("economics_status").notNull().default("pending"), // pending | parsed | unparseable
+  economicsIssues: jsonb("economics_issues").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -925,6 +1088,8 @@ export type InsertRequirement = z.infer<typeof InsertRequirementSchema>;
 export const MarketCompAssetType = z.enum(["Building", "Land", "Other"]);
 export const MarketCompDealType = z.enum(["lease", "sale"]);
 export const MarketCompRateType = z.enum(["Net", "Gross", "NNN"]);
+export const MarketCompEscalationKind = z.enum(["percent", "fixed"]);
+export const MarketCompEconomicsStatus = z.enum(["pending", "parsed", "unparseable"]);
 
 export const MarketCompSchema = z.object({
   id: z.string().optional(),
@@ -946,6 +1111,12 @@ export const MarketCompSchema = z.object({
   rateType: MarketCompRateType.optional(),
   commencement: z.string().optional(), // YYYY-MM-DD
   concessions: z.string().optional(),  // TI / Free Rent
+  escalationKind: MarketCompEscalationKind.nullable().optional(),
+  escalationAmount: z.number().nullable().optional(), // % or $/SF per year
+  freeRentMonths: z.number().nonnegative().nullable().optional(),
+  tiAllowancePsf: z.number().nonnegative().nullable().optional(),
+  additionalRentPsf: z.number().nonnegative().nullable().optional(),
+  commissionPct: z.number().nonnegative().nullable().optional(),
   // Sale fields
   saleDate: z.string().optional(),     // YYYY-MM-DD
   buyer: z.string().optional(),
@@ -953,12 +1124,33 @@ export const MarketCompSchema = z.object({
   price: z.string().optional(),        // store as string; client can format as currency
   pricePerSf: z.string().optional(),
   pricePerAcre: z.string().optional(),
+  // Parsed by the server from the text fields above; never sent by clients
+  buildingSizeSf: z.number().nullable().optional(),
+  landSizeAcres: z.number().nullable().optional(),
+  ratePsf: z.number().nullable().optional(),
+  priceAmount: z.number().nullable().optional(),
+  pricePerSfAmount: z.number().nullable().optional(),
+  pricePerAcreAmount: z.number().nullable().optional(),
+  compDate: z.string().nullable().optional(),
+  netEffectiveRatePsf: z.number().nullable().optional(),
+  economicsStatus: MarketCompEconomicsStatus.optional(),
+  economicsIssues: z.array(z.string()).optional(),
   createdAt: z.string().optional(),
   updatedAt: z.string().optional(),
 });
 
 export const InsertMarketCompSchema = MarketCompSchema.omit({
   id: true,
+  buildingSizeSf: true,
+  landSizeAcres: true,
+  ratePsf: true,
+  priceAmount: true,
+  pricePerSfAmount: true,
+  pricePerAcreAmount: true,
+  compDate: true,
+  netEffectiveRatePsf: true,
+  economicsStatus: true,
+  economicsIssues: true,
   createdAt: true,
   updatedAt: true,
 });
@@ -1032,8 +1224,12 @@ export const intelSources = pgTable(
     slug: varchar("slug").notNull(),
     kind: varchar("kind").notNull().default("manual_upload"), // manual_upload | csv_url | json_url
     feedUrl: text("feed_url"),
-    fieldMapping: jsonb("field_mapping").$type<Record<string, string>>().notNull().default({}),
+    fieldMapping: jsonb("field_mapping").$type<Record<string, unknown>>().notNull().default({}),
     isActive: boolean("is_active").notNull().default(true),
+    scheduleIntervalMinutes: integer("schedule_interval_minutes"), // null = manual runs only
+    nextRunAt: timestamp("next_run_at"),
+    lastSuccessAt: timestamp("last_success_at"),
+    consecutiveFailures: integer("consecutive_failures").notNull().default(0),
     createdByUserId: varchar("created_by_user_id").references(() => users.id),
     createdAt: timestamp("created_at").defaultNow(),
     updatedAt: timestamp("updated_at").defaultNow(),
@@ -1041,6 +1237,7 @@ export const intelSources = pgTable(
   (table) => [
     unique("UQ_intel_sources_slug").on(table.slug),
     index("IDX_intel_sources_active").on(table.isActive),
+    index("IDX_intel_sources_next_run").on(table.nextRunAt),
   ],
 );
 
@@ -1147,6 +1344,11 @@ export const intelListingChanges = pgTable(
     changeSummary: text("change_summary"),
     previousHash: varchar("previous_hash"),
     newHash: varchar("new_hash"),
+    // [{ field, before, after, direction }] for tracked fields on updated/reactivated rows
+    fieldChanges: jsonb("field_changes")
+      .$type<Array<{ field: string; before: number | string | null; after: number | string | null; direction: string }>>()
+      .notNull()
+      .default([]),
     observedAt: timestamp("observed_at").defaultNow(),
   },
   (table) => [
@@ -1155,6 +1357,29 @@ export const intelListingChanges = pgTable(
   ],
 );
 
+// One row per observed value set, written by ingest runs (including manual
+// URL/upload intake) so asking rate and availability history survive the
+// in-place updates on intel_listings.
+export const intelListingObservations = pgTable(
+  "intel_listing_observations",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    listingId: varchar("listing_id").notNull().references(() => intelListings.id, { onDelete: "cascade" }),
+    ingestRunId: varchar("ingest_run_id").references(() => intelIngestRuns.id, { onDelete: "set null" }),
+    observationType: varchar("observation_type").notNull(), // baseline | new | updated | reactivated | removed
+    triggerType: varchar("trigger_type"),
+    status: varchar("status"),
+    availableSf: integer("available_sf"),
+    totalPrice: numeric("total_price", { precision: 14, scale: 2 }),
+    pricePerAcre: numeric("price_per_acre", { precision: 14, scale: 2 }),
+    leaseRatePsf: numeric("lease_rate_psf", { precision: 10, scale: 2 }),
+    observedAt: timestamp("observed_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_intel_listing_observations_listing").on(table.listingId, table.observedAt),
+  ],
+);
+
 export const intelRequirements = pgTable(
   "intel_requirements",
   {
@@ -1178,6 +1403,8 @@ export const intelRequirements = pgTable(
     timingNotes: text("timing_notes"),
     specialNotes: text("special_notes"),
     isOffMarketSearchEnabled: boolean("is_off_market_search_enabled").notNull().default(false),
+    // Drawn polygons and radius areas ([lng, lat]); see RequirementSearchArea in requirementMatching.ts
+    searchAreas: jsonb("search_areas").$type<Array<Record<string, unknown>>>().notNull().default(sql`'[]'::jsonb`),
     createdAt: timestamp("created_at").defaultNow(),
     updatedAt: timestamp("updated_at").defaultNow(),
     archivedAt: timestamp("archived_at"),
@@ -1198,6 +1425,7 @@ export const intelRequirementPreferences = pgTable(
     requirementId: varchar("requirement_id").notNull().references(() => intelRequirements.id, { onDelete: "cascade" }),
     key: varchar("key").notNull(),
     operator: varchar("operator").notNull().default("preferred"), // required | preferred | avoid | note
+    comparator: varchar("comparator"), // gte | lte | eq | neq | contains; null infers from the value type
     valueText: text("value_text"),
     valueNumber: numeric("value_number", { precision: 12, scale: 2 }),
     valueBoolean: boolean("value_boolean"),
@@ -1235,6 +1463,40 @@ export const intelRequirementListingDecisions = pgTable(
   ],
 );
 
+export const intelRequirementAlerts = pgTable(
+  "intel_requirement_alerts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    requirementId: varchar("requirement_id").notNull().references(() => intelRequirements.id, { onDelete: "cascade" }),
+    listingId: varchar("listing_id").notNull().references(() => intelListings.id, { onDelete: "cascade" }),
+    changeId: varchar("change_id").references(() => intelListingChanges.id, { onDelete: "set null" }),
+    ingestRunId: varchar("ingest_run_id").references(() => intelIngestRuns.id, { onDelete: "set null" }),
+    alertType: varchar("alert_type").notNull(), // new_match | shortlist_change
+    tier: varchar("tier"),
+    score: integer("score"),
+    summary: text("summary").notNull(),
+    reasons: jsonb("reasons").$type<string[]>().notNull().default([]),
+    readAt: timestamp("read_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    check(
+      "chk_intel_requirement_alerts_type",
+      sql`${table.alertType} IN ('new_match', 'shortlist_change')`,
+    ),
+    uniqueIndex("uq_intel_requirement_alerts_new_match")
+      .on(table.requirementId, table.listingId)
+      .where(sql`${table.alertType} = 'new_match'`),
+    uniqueIndex("uq_intel_requirement_alerts_change")
+      .on(table.requirementId, table.changeId)
+      .where(sql`${table.alertType} = 'shortlist_change'`),
+    index("idx_intel_requirement_alerts_requirement").on(table.requirementId, table.createdAt),
+    index("idx_intel_requirement_alerts_unread")
+      .on(table.requirementId)
+      .where(sql`${table.readAt} IS NULL`),
+  ],
+);
+
 export const intelSurveys = pgTable(
   "intel_surveys",
   {
@@ -1244,6 +1506,10 @@ export const intelSurveys = pgTable(
     clientName: varchar("client_name"),
     status: varchar("status").notNull().default("draft"), // draft | shared | archived
     shareToken: varchar("share_token").unique(),
+    shareExpiresAt: timestamp("share_expires_at", { withTimezone: true }),
+    sharePasscodeHash: varchar("share_passcode_hash"), // scrypt hash; null = no passcode
+    clientFeedbackReadAt: timestamp("client_feedback_read_at"),
+    clientComparisonFactKeys: jsonb("client_comparison_fact_keys").$type<string[]>(), // null = standard comparison facts
     createdByUserId: varchar("created_by_user_id").references(() => users.id, { onDelete: "set null" }),
     createdAt: timestamp("created_at").defaultNow(),
     updatedAt: timestamp("updated_at").defaultNow(),
@@ -1266,6 +1532,11 @@ export const intelSurveyItems = pgTable(
     brokerNotes: text("broker_notes"),
     clientNotes: text("client_notes"),
     hidden: boolean("hidden").notNull().default(false),
+    leaseTerms: jsonb("lease_terms").$type<Record<string, unknown>>(),
+    clientResponse: varchar("client_response"), // interested | not_interested | tour
+    clientResponseAt: timestamp("client_response_at"),
+    tourNotes: text("tour_notes"), // broker-only, like broker_notes
+    touredAt: timestamp("toured_at"),
     createdAt: timestamp("created_at").defaultNow(),
     updatedAt: timestamp("updated_at").defaultNow(),
   },
@@ -1277,6 +1548,20 @@ export const intelSurveyItems = pgTable(
   ],
 );
 
+// One planned property tour per survey. item_ids holds the stop order.
+export const intelSurveyTours = pgTable("intel_survey_tours", {
+  surveyId: varchar("survey_id").primaryKey().references(() => intelSurveys.id, { onDelete: "cascade" }),
+  startLabel: varchar("start_label"),
+  startLatitude: numeric("start_latitude").notNull(),
+  startLongitude: numeric("start_longitude").notNull(),
+  startAt: timestamp("start_at", { withTimezone: true }).notNull(),
+  minutesPerStop: integer("minutes_per_stop").notNull().default(30),
+  itemIds: jsonb("item_ids").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+  createdByUserId: varchar("created_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Canonical property memory assembled from listings, broker research, and
 // approved brokerage-memory imports. The import-item reference is deliberately
 // deferred because approved review items and dossiers reference one another.
@@ -1359,6 +1644,8 @@ export const intelListingAssets = pgTable(
     createdAt: timestamp("created_at").defaultNow(),
     updatedAt: timestamp("updated_at").defaultNow(),
     dossierId: varchar("dossier_id").references(() => intelPropertyDossiers.id, { onDelete: "cascade" }),
+    prospectId: varchar("prospect_id").references(() => prospects.id, { onDelete: "set null" }),
+    emailMessageId: varchar("email_message_id").references(() => emailMessages.id, { onDelete: "set null" }),
   },
   (table) => [
     check(
@@ -1378,6 +1665,8 @@ export const intelListingAssets = pgTable(
     index("idx_intel_listing_assets_survey_item").on(table.surveyItemId),
     index("idx_intel_listing_assets_status").on(table.status),
     index("idx_intel_listing_assets_dossier").on(table.dossierId),
+    index("idx_intel_listing_assets_prospect").on(table.prospectId),
+    index("idx_intel_listing_assets_email_message").on(table.emailMessageId),
   ],
 ).enableRLS();
 
@@ -1537,12 +1826,70 @@ export const intelDossierEntityLinks = pgTable(
   ],
 ).enableRLS();
 
+export const intelDossierOwnershipRecords = pgTable(
+  "intel_dossier_ownership_records",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+    dossierId: varchar("dossier_id").notNull().references(() => intelPropertyDossiers.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    externalRecordId: varchar("external_record_id").notNull(),
+    ownerName: text("owner_name").notNull(),
+    normalizedOwnerName: text("normalized_owner_name").notNull(),
+    ownerEntityType: varchar("owner_entity_type").notNull().default("unknown"),
+    titleNumber: varchar("title_number"),
+    linc: varchar("linc"),
+    transferDate: date("transfer_date"),
+    titlePulledDate: date("title_pulled_date"),
+    confidence: integer("confidence").notNull().default(50),
+    source: varchar("source").notNull(),
+    importItemId: varchar("import_item_id").references(() => brokerageMemoryItems.id, { onDelete: "set null" }),
+    sourceMetadata: jsonb("source_metadata").$type<Record<string, unknown>>().notNull().default(sql`'{}'::jsonb`),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    check(
+      "chk_intel_dossier_ownership_entity_type",
+      sql`${table.ownerEntityType} IN ('corporation', 'individual', 'government', 'unknown')`,
+    ),
+    check(
+      "chk_intel_dossier_ownership_confidence",
+      sql`${table.confidence} >= 0 AND ${table.confidence} <= 100`,
+    ),
+    uniqueIndex("uq_intel_dossier_ownership_record").on(table.dossierId, table.externalRecordId),
+    index("idx_intel_dossier_ownership_owner").on(table.userId, table.normalizedOwnerName),
+  ],
+).enableRLS();
+
+export const intelDossierOwnershipEvidence = pgTable(
+  "intel_dossier_ownership_evidence",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
+    ownershipRecordId: varchar("ownership_record_id").notNull().references(() => intelDossierOwnershipRecords.id, { onDelete: "cascade" }),
+    evidenceKey: varchar("evidence_key").notNull(),
+    evidenceType: varchar("evidence_type").notNull(),
+    sourcePath: text("source_path"),
+    sourceHash: varchar("source_hash"),
+    factId: varchar("fact_id").references(() => intelDossierFacts.id, { onDelete: "set null" }),
+    activityEventId: varchar("activity_event_id").references(() => activityEvents.id, { onDelete: "set null" }),
+    assetId: varchar("asset_id").references(() => intelListingAssets.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    check(
+      "chk_intel_dossier_ownership_evidence_type",
+      sql`${table.evidenceType} IN ('source_file', 'fact', 'activity_event', 'asset')`,
+    ),
+    uniqueIndex("uq_intel_dossier_ownership_evidence").on(table.ownershipRecordId, table.evidenceKey),
+  ],
+).enableRLS();
+
 export const intelSurveyEvents = pgTable(
   "intel_survey_events",
   {
     id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
     surveyId: varchar("survey_id").notNull().references(() => intelSurveys.id, { onDelete: "cascade" }),
-    actorType: varchar("actor_type").notNull().default("user"), // user | agent | system
+    actorType: varchar("actor_type").notNull().default("user"), // user | agent | system | client
     actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }),
     action: varchar("action").notNull(),
     summary: text("summary"),
@@ -1591,10 +1938,14 @@ export type IntelIngestRun = typeof intelIngestRuns.$inferSelect;
 export type InsertIntelIngestRun = typeof intelIngestRuns.$inferInsert;
 export type IntelListingChange = typeof intelListingChanges.$inferSelect;
 export type InsertIntelListingChange = typeof intelListingChanges.$inferInsert;
+export type IntelListingObservation = typeof intelListingObservations.$inferSelect;
+export type InsertIntelListingObservation = typeof intelListingObservations.$inferInsert;
 export type IntelRequirement = typeof intelRequirements.$inferSelect;
 export type InsertIntelRequirement = typeof intelRequirements.$inferInsert;
 export type IntelRequirementPreference = typeof intelRequirementPreferences.$inferSelect;
 export type InsertIntelRequirementPreference = typeof intelRequirementPreferences.$inferInsert;
+export type IntelRequirementAlert = typeof intelRequirementAlerts.$inferSelect;
+export type InsertIntelRequirementAlert = typeof intelRequirementAlerts.$inferInsert;
 export type IntelRequirementListingDecision = typeof intelRequirementListingDecisions.$inferSelect;
 export type InsertIntelRequirementListingDecision = typeof intelRequirementListingDecisions.$inferInsert;
 export type IntelSurvey = typeof intelSurveys.$inferSelect;
@@ -1615,6 +1966,10 @@ export type IntelDossierFact = typeof intelDossierFacts.$inferSelect;
 export type InsertIntelDossierFact = typeof intelDossierFacts.$inferInsert;
 export type IntelDossierEntityLink = typeof intelDossierEntityLinks.$inferSelect;
 export type InsertIntelDossierEntityLink = typeof intelDossierEntityLinks.$inferInsert;
+export type IntelDossierOwnershipRecord = typeof intelDossierOwnershipRecords.$inferSelect;
+export type InsertIntelDossierOwnershipRecord = typeof intelDossierOwnershipRecords.$inferInsert;
+export type IntelDossierOwnershipEvidence = typeof intelDossierOwnershipEvidence.$inferSelect;
+export type InsertIntelDossierOwnershipEvidence = typeof intelDossierOwnershipEvidence.$inferInsert;
 export type IntelSurveyEvent = typeof intelSurveyEvents.$inferSelect;
 export type InsertIntelSurveyEvent = typeof intelSurveyEvents.$inferInsert;
 export type IntelAgentEvent = typeof intelAgentEvents.$inferSelect;